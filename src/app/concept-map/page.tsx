@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Network } from "lucide-react";
+import Navbar from "@/components/layout/Navbar";
+import { availableModules, domains } from "@/lib/domains";
+import {
+  layoutConceptMap,
+  reachable,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  type ConceptEdge,
+} from "@/lib/concept-map";
+
+const conceptMap = layoutConceptMap(availableModules);
+const nodeById = new Map(conceptMap.nodes.map((n) => [n.module.id, n]));
+const liveDomains = domains.filter((d) => d.modules.some((m) => m.status === "available"));
+
+function edgePath({ from, to }: ConceptEdge): string {
+  const a = nodeById.get(from)!;
+  const b = nodeById.get(to)!;
+  const x1 = a.x + NODE_WIDTH;
+  const y1 = a.y + NODE_HEIGHT / 2;
+  const x2 = b.x;
+  const y2 = b.y + NODE_HEIGHT / 2;
+  const bend = (x2 - x1) / 2;
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+export default function ConceptMapPage() {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [domainFilter, setDomainFilter] = useState<number | null>(null);
+
+  // Hovering a module lights up everything it builds on and everything built on it.
+  const related = useMemo(() => {
+    if (!hovered) return null;
+    return new Set([
+      hovered,
+      ...reachable(conceptMap.edges, hovered, "prerequisites"),
+      ...reachable(conceptMap.edges, hovered, "dependents"),
+    ]);
+  }, [hovered]);
+
+  const isLit = (id: string) => {
+    if (related) return related.has(id);
+    if (domainFilter !== null) return nodeById.get(id)!.module.domain.id === domainFilter;
+    return true;
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white">
+      <Navbar />
+
+      <main className="pt-14">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, ease: "easeOut" }}
+            className="space-y-3"
+          >
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-9 h-9 rounded-lg bg-[#6366f1]/15 border border-[#6366f1]/25">
+                <Network size={18} className="text-[#6366f1]" />
+              </div>
+              <h1 className="text-2xl font-bold tracking-tight">Concept Map</h1>
+            </div>
+            <p className="text-sm text-[#a1a1aa] max-w-2xl">
+              Every live module and what it builds on. Arrows point from a prerequisite to the
+              modules that use it; hover a module to trace its full chain, click to open it.
+            </p>
+          </motion.div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {liveDomains.map((d) => {
+              const active = domainFilter === d.id;
+              return (
+                <button
+                  key={d.id}
+                  onClick={() => setDomainFilter(active ? null : d.id)}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-all duration-200 border"
+                  style={{
+                    backgroundColor: active ? `${d.color}20` : "#111118",
+                    borderColor: active ? `${d.color}50` : "#1e1e2e",
+                    color: active ? d.color : "#a1a1aa",
+                  }}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: d.color }} />
+                  {d.title}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="rounded-xl border border-[#1e1e2e] bg-[#111118] overflow-auto">
+            <div
+              className="relative"
+              style={{ width: conceptMap.width, height: conceptMap.height }}
+            >
+              <svg
+                width={conceptMap.width}
+                height={conceptMap.height}
+                className="absolute inset-0"
+                aria-hidden="true"
+              >
+                <defs>
+                  <marker
+                    id="concept-arrow"
+                    viewBox="0 0 8 8"
+                    refX="7"
+                    refY="4"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto"
+                  >
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#52525b" />
+                  </marker>
+                </defs>
+                {conceptMap.edges.map((edge) => {
+                  const lit = isLit(edge.from) && isLit(edge.to);
+                  return (
+                    <path
+                      key={`${edge.from}->${edge.to}`}
+                      d={edgePath(edge)}
+                      fill="none"
+                      stroke={lit && related ? "#818cf8" : "#3f3f46"}
+                      strokeWidth={lit && related ? 1.75 : 1}
+                      opacity={lit ? 1 : 0.15}
+                      markerEnd="url(#concept-arrow)"
+                      className="transition-opacity duration-200"
+                    />
+                  );
+                })}
+              </svg>
+
+              {conceptMap.nodes.map(({ module: m, x, y }) => (
+                <Link
+                  key={m.id}
+                  href={m.href}
+                  onMouseEnter={() => setHovered(m.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  onFocus={() => setHovered(m.id)}
+                  onBlur={() => setHovered(null)}
+                  title={`${m.number} ${m.title} — ${m.description}`}
+                  className="absolute flex items-center gap-2 px-2.5 rounded-lg border bg-[#0a0a0f] transition-all duration-200 hover:bg-[#1e1e2e]"
+                  style={{
+                    left: x,
+                    top: y,
+                    width: NODE_WIDTH,
+                    height: NODE_HEIGHT,
+                    borderColor: hovered === m.id ? m.domain.color : `${m.domain.color}40`,
+                    opacity: isLit(m.id) ? 1 : 0.25,
+                  }}
+                >
+                  <span
+                    className="text-[10px] font-mono font-semibold shrink-0"
+                    style={{ color: m.domain.color }}
+                  >
+                    {m.number}
+                  </span>
+                  <span className="text-xs text-[#e4e4e7] truncate">{m.title}</span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
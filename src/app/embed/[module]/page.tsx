@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import EmbedFrame from "@/components/layout/EmbedFrame";
+import { availableModules, getModuleByPath } from "@/lib/domains";
+import { simulators } from "./simulators";
+
+interface EmbedPageProps {
+  params: Promise<{ module: string }>;
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return availableModules
+    .map((m) => m.href.replace(/^\/modules\//, ""))
+    .filter((slug) => slug in simulators)
+    .map((slug) => ({ module: slug }));
+}
+
+export async function generateMetadata({ params }: EmbedPageProps): Promise<Metadata> {
+  const { module: slug } = await params;
+  const entry = getModuleByPath(`/modules/${slug}`);
+  return {
+    title: entry ? `${entry.number} ${entry.title} — CS Visual Lab` : "CS Visual Lab",
+    robots: { index: false },
+  };
+}
+
+export default async function EmbedPage({ params }: EmbedPageProps) {
+  const { module: slug } = await params;
+  const entry = getModuleByPath(`/modules/${slug}`);
+  const Simulator = simulators[slug];
+  if (!entry || !Simulator) notFound();
+
+  return (
+    <EmbedFrame moduleId={entry.id}>
+      <Simulator />
+    </EmbedFrame>
+  );
+}
@@ -0,0 +1,80 @@
+import type { ComponentType } from "react";
+import dynamic from "next/dynamic";
+
+/**
+ * Module pages that `/embed/[module]` can render, keyed by their directory
+ * under `app/modules`. Each page loads as its own chunk.
+ */
+export const simulators: Record<string, ComponentType> = {
+  "1-1-logic-gates": dynamic(() => import("@/app/modules/1-1-logic-gates/page")),
+  "1-2-flip-flops": dynamic(() => import("@/app/modules/1-2-flip-flops/page")),
+  "1-3-combinational": dynamic(() => import("@/app/modules/1-3-combinational/page")),
+  "1-4-sequential": dynamic(() => import("@/app/modules/1-4-sequential/page")),
+  "1-5-binary-arithmetic": dynamic(() => import("@/app/modules/1-5-binary-arithmetic/page")),
+  "1-6-floating-point": dynamic(() => import("@/app/modules/1-6-floating-point/page")),
+  "1-7-alu": dynamic(() => import("@/app/modules/1-7-alu/page")),
+  "1-8-adders": dynamic(() => import("@/app/modules/1-8-adders/page")),
+  "2-1-isa": dynamic(() => import("@/app/modules/2-1-isa/page")),
+  "2-2-single-cycle": dynamic(() => import("@/app/modules/2-2-single-cycle/page")),
+  "2-3-pipelining": dynamic(() => import("@/app/modules/2-3-pipelining/page")),
+  "2-4-branch-prediction": dynamic(() => import("@/app/modules/2-4-branch-prediction/page")),
+  "2-5-cache": dynamic(() => import("@/app/modules/2-5-cache/page")),
+  "2-6-cache-simulator": dynamic(() => import("@/app/modules/2-6-cache-simulator/page")),
+  "2-7-ooo-execution": dynamic(() => import("@/app/modules/2-7-ooo-execution/page")),
+  "2-8-virtual-memory": dynamic(() => import("@/app/modules/2-8-virtual-memory/page")),
+  "2-9-memory-ordering": dynamic(() => import("@/app/modules/2-9-memory-ordering/page")),
+  "2-10-simd": dynamic(() => import("@/app/modules/2-10-simd/page")),
+  "3-1-processes": dynamic(() => import("@/app/modules/3-1-processes/page")),
+  "3-2-scheduling": dynamic(() => import("@/app/modules/3-2-scheduling/page")),
+  "3-3-memory": dynamic(() => import("@/app/modules/3-3-memory/page")),
+  "3-4-allocator": dynamic(() => import("@/app/modules/3-4-allocator/page")),
+  "3-5-concurrency": dynamic(() => import("@/app/modules/3-5-concurrency/page")),
+  "3-6-deadlock": dynamic(() => import("@/app/modules/3-6-deadlock/page")),
+  "3-7-filesystems": dynamic(() => import("@/app/modules/3-7-filesystems/page")),
+  "3-8-io-interrupts": dynamic(() => import("@/app/modules/3-8-io-interrupts/page")),
+  "3-9-syscalls": dynamic(() => import("@/app/modules/3-9-syscalls/page")),
+  "3-10-boot": dynamic(() => import("@/app/modules/3-10-boot/page")),
+  "3-11-containers": dynamic(() => import("@/app/modules/3-11-containers/page")),
+  "4-1-sorting": dynamic(() => import("@/app/modules/4-1-sorting/page")),
+  "4-2-binary-search": dynamic(() => import("@/app/modules/4-2-binary-search/page")),
+  "4-3-hash-tables": dynamic(() => import("@/app/modules/4-3-hash-tables/page")),
+  "4-4-trees": dynamic(() => import("@/app/modules/4-4-trees/page")),
+  "4-5-btrees": dynamic(() => import("@/app/modules/4-5-btrees/page")),
+  "4-6-heaps": dynamic(() => import("@/app/modules/4-6-heaps/page")),
+  "4-7-tries": dynamic(() => import("@/app/modules/4-7-tries/page")),
+  "4-8-graph-traversal": dynamic(() => import("@/app/modules/4-8-graph-traversal/page")),
+  "4-9-shortest-path": dynamic(() => import("@/app/modules/4-9-shortest-path/page")),
+  "4-10-mst": dynamic(() => import("@/app/modules/4-10-mst/page")),
+  "4-11-topological-sort": dynamic(() => import("@/app/modules/4-11-topological-sort/page")),
+  "4-12-dynamic-programming": dynamic(() => import("@/app/modules/4-12-dynamic-programming/page")),
+  "4-13-union-find": dynamic(() => import("@/app/modules/4-13-union-find/page")),
+  "4-14-complexity": dynamic(() => import("@/app/modules/4-14-complexity/page")),
+  "4-15-string-matching": dynamic(() => import("@/app/modules/4-15-string-matching/page")),
+  "5-1-search": dynamic(() => import("@/app/modules/5-1-search/page")),
+  "5-8-inverted-index": dynamic(() => import("@/app/modules/5-8-inverted-index/page")),
+  "6-1-storage": dynamic(() => import("@/app/modules/6-1-storage/page")),
+  "6-2-bplus-tree": dynamic(() => import("@/app/modules/6-2-bplus-tree/page")),
+  "6-3-lsm": dynamic(() => import("@/app/modules/6-3-lsm/page")),
+  "7-1-raft": dynamic(() => import("@/app/modules/7-1-raft/page")),
+  "7-4-consistent-hashing": dynamic(() => import("@/app/modules/7-4-consistent-hashing/page")),
+  "7-6-vector-clocks": dynamic(() => import("@/app/modules/7-6-vector-clocks/page")),
+  "8-1-osi": dynamic(() => import("@/app/modules/8-1-osi/page")),
+  "8-3-tcp": dynamic(() => import("@/app/modules/8-3-tcp/page")),
+  "9-1-aes": dynamic(() => import("@/app/modules/9-1-aes/page")),
+  "9-2-sha256": dynamic(() => import("@/app/modules/9-2-sha256/page")),
+  "10-1-gpu-vs-cpu": dynamic(() => import("@/app/modules/10-1-gpu-vs-cpu/page")),
+  "10-3-warp": dynamic(() => import("@/app/modules/10-3-warp/page")),
+  "11-1-perceptron": dynamic(() => import("@/app/modules/11-1-perceptron/page")),
+  "11-2-backpropagation": dynamic(() => import("@/app/modules/11-2-backpropagation/page")),
+  "11-3-gradient-descent": dynamic(() => import("@/app/modules/11-3-gradient-descent/page")),
+  "11-7-transformer": dynamic(() => import("@/app/modules/11-7-transformer/page")),
+  "12-1-lexer": dynamic(() => import("@/app/modules/12-1-lexer/page")),
+  "12-10-event-loop": dynamic(() => import("@/app/modules/12-10-event-loop/page")),
+  "13-1-bloom": dynamic(() => import("@/app/modules/13-1-bloom/page")),
+  "13-3-hyperloglog": dynamic(() => import("@/app/modules/13-3-hyperloglog/page")),
+  "14-1-rate-limiter": dynamic(() => import("@/app/modules/14-1-rate-limiter/page")),
+  "14-2-circuit-breaker": dynamic(() => import("@/app/modules/14-2-circuit-breaker/page")),
+  "15-1-rasterization": dynamic(() => import("@/app/modules/15-1-rasterization/page")),
+  "16-1-boolean": dynamic(() => import("@/app/modules/16-1-boolean/page")),
+  "16-4-linear-algebra": dynamic(() => import("@/app/modules/16-4-linear-algebra/page")),
+};
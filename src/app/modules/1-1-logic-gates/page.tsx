@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Zap,
@@ -13,14 +13,33 @@ import {
   Hash,
   Activity,
   ChevronRight,
+  Cpu,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import type { GateType } from "@/lib/sim/logic";
+import {
+  cmosIssues,
+  compoundCmosGate,
+  dualNetwork,
+  evaluateCmos,
+  gateLevelTransistors,
+  networkConducts,
+  networkExpression,
+  standardCmosGate,
+  switchOn,
+  transistorCount,
+  type CmosEvaluation,
+  type CmosGate,
+  type Level,
+  type Polarity,
+  type SwitchNetwork,
+} from "@/lib/sim/cmos";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type GateType = "AND" | "OR" | "NOT" | "NAND" | "NOR" | "XOR" | "XNOR";
-
 interface GateInfo {
   name: GateType;
   label: string;
@@ -413,6 +432,388 @@ function GateSymbol({
   );
 }
 
+// ─── CMOS Transistor View ─────────────────────────────────────────────────────
+
+const CELL_W = 84;
+const CELL_H = 52;
+const RAIL_GAP = 18;
+
+const LEVEL_COLORS: Record<string, string> = {
+  "0": COLORS.wireLow,
+  "1": COLORS.wireHigh,
+  X: COLORS.danger,
+  Z: COLORS.accent,
+};
+
+function networkSize(net: SwitchNetwork): { cols: number; rows: number } {
+  if (net.kind === "switch") return { cols: 1, rows: 1 };
+  const sizes = net.children.map(networkSize);
+  return net.kind === "series"
+    ? { cols: Math.max(...sizes.map((s) => s.cols)), rows: sizes.reduce((sum, s) => sum + s.rows, 0) }
+    : { cols: sizes.reduce((sum, s) => sum + s.cols, 0), rows: Math.max(...sizes.map((s) => s.rows)) };
+}
+
+/** Where each of a row of boxes starts when laid end to end from `start`. */
+function offsets(lengths: number[], start: number): number[] {
+  const result: number[] = [];
+  let position = start;
+  for (const length of lengths) {
+    result.push(position);
+    position += length;
+  }
+  return result;
+}
+
+function wireColor(on: boolean | null): string {
+  return on === null ? COLORS.accent : on ? COLORS.wireHigh : "#2a2a3e";
+}
+
+/** One MOSFET between (cx, y) and (cx, y + CELL_H), gate lead and input name on the left. */
+function Transistor({
+  cx,
+  y,
+  input,
+  polarity,
+  level,
+}: {
+  cx: number;
+  y: number;
+  input: string;
+  polarity: Polarity;
+  level: Level;
+}) {
+  const on = switchOn(polarity, level);
+  const channel = wireColor(on);
+  const gateX = cx - 16;
+  const leadEnd = polarity === "pmos" ? gateX - 7 : gateX;
+  return (
+    <g>
+      <motion.path
+        d={`M ${cx} ${y} V ${y + 14} H ${cx - 10} M ${cx - 10} ${y + 38} H ${cx} V ${y + CELL_H}`}
+        fill="none"
+        strokeWidth={2}
+        animate={{ stroke: channel }}
+        transition={{ duration: 0.25 }}
+      />
+      <motion.line
+        x1={cx - 10}
+        y1={y + 10}
+        x2={cx - 10}
+        y2={y + 42}
+        strokeWidth={3}
+        animate={{ stroke: channel, opacity: on ? 1 : 0.6 }}
+        transition={{ duration: 0.25 }}
+      />
+      <line x1={gateX} y1={y + 12} x2={gateX} y2={y + 40} stroke={LEVEL_COLORS[String(level)]} strokeWidth={2} />
+      {polarity === "pmos" && (
+        <circle cx={gateX - 3.5} cy={y + 26} r={3.5} fill={COLORS.card} stroke={LEVEL_COLORS[String(level)]} strokeWidth={1.5} />
+      )}
+      <line x1={leadEnd} y1={y + 26} x2={gateX - 18} y2={y + 26} stroke={LEVEL_COLORS[String(level)]} strokeWidth={1.5} />
+      <text x={gateX - 20} y={y + 22} textAnchor="end" fontSize={10} fontFamily="monospace" fill={LEVEL_COLORS[String(level)]}>
+        {input}
+      </text>
+      <text x={cx + 4} y={y + 29} fontSize={8} fontFamily="monospace" fill={COLORS.muted}>
+        {polarity === "pmos" ? "P" : "N"}
+      </text>
+    </g>
+  );
+}
+
+/** Draws `net` in a box `width` wide with terminals at the top and bottom centre. */
+function SwitchNetworkView({
+  net,
+  polarity,
+  values,
+  x,
+  y,
+  width,
+}: {
+  net: SwitchNetwork;
+  polarity: Polarity;
+  values: Record<string, Level>;
+  x: number;
+  y: number;
+  width: number;
+}) {
+  const cx = x + width / 2;
+  if (net.kind === "switch") {
+    return <Transistor cx={cx} y={y} input={net.input} polarity={polarity} level={values[net.input] ?? "Z"} />;
+  }
+  const sizes = net.children.map(networkSize);
+  const on = networkConducts(net, polarity, values);
+
+  if (net.kind === "series") {
+    const tops = offsets(sizes.map((size) => size.rows * CELL_H), y);
+    return (
+      <g>
+        {net.children.map((child, i) => (
+          <SwitchNetworkView key={i} net={child} polarity={polarity} values={values} x={x} y={tops[i]} width={width} />
+        ))}
+      </g>
+    );
+  }
+
+  const { rows } = networkSize(net);
+  const bottom = y + rows * CELL_H;
+  const widths = sizes.map((size) => size.cols * CELL_W);
+  const lefts = offsets(widths, cx - widths.reduce((sum, w) => sum + w, 0) / 2);
+  const centers = lefts.map((l, i) => l + widths[i] / 2);
+  return (
+    <g>
+      {net.children.map((child, i) => {
+        const childWidth = widths[i];
+        const childLeft = lefts[i];
+        const childCx = centers[i];
+        const childBottom = y + sizes[i].rows * CELL_H;
+        const childOn = networkConducts(child, polarity, values);
+        return (
+          <g key={i}>
+            <SwitchNetworkView net={child} polarity={polarity} values={values} x={childLeft} y={y} width={childWidth} />
+            {childBottom < bottom && (
+              <line x1={childCx} y1={childBottom} x2={childCx} y2={bottom} stroke={wireColor(childOn)} strokeWidth={2} />
+            )}
+          </g>
+        );
+      })}
+      <line x1={centers[0]} y1={y} x2={centers[centers.length - 1]} y2={y} stroke={wireColor(on)} strokeWidth={2} />
+      <line x1={centers[0]} y1={bottom} x2={centers[centers.length - 1]} y2={bottom} stroke={wireColor(on)} strokeWidth={2} />
+    </g>
+  );
+}
+
+/** Every stage of `gate` side by side, VDD across the top and GND along each stage's bottom. */
+function CmosSchematic({ gate, evaluation }: { gate: CmosGate; evaluation: CmosEvaluation }) {
+  const layouts = gate.stages.map((stage) => {
+    const up = networkSize(stage.pullUp);
+    const down = networkSize(stage.pullDown);
+    const width = Math.max(up.cols, down.cols) * CELL_W + 40;
+    const outY = 34 + up.rows * CELL_H + RAIL_GAP;
+    const height = outY + RAIL_GAP + down.rows * CELL_H + 34;
+    return { up, down, width, outY, height };
+  });
+  const totalWidth = layouts.reduce((sum, l) => sum + l.width, 0) + 20;
+  const totalHeight = Math.max(...layouts.map((l) => l.height));
+  const lefts = offsets(layouts.map((l) => l.width), 10);
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${totalWidth} ${totalHeight}`} style={{ maxHeight: 420 }}>
+      <line x1={6} y1={20} x2={totalWidth - 6} y2={20} stroke={COLORS.danger} strokeWidth={2} opacity={0.7} />
+      <text x={8} y={14} fontSize={10} fontFamily="monospace" fill={COLORS.danger}>VDD</text>
+      {gate.stages.map((stage, s) => {
+        const layout = layouts[s];
+        const state = evaluation.stages[s];
+        const x = lefts[s];
+        const cx = x + layout.width / 2;
+        const netWidth = layout.width - 40;
+        const upBottom = 34 + layout.up.rows * CELL_H;
+        const downTop = layout.outY + RAIL_GAP;
+        const downBottom = downTop + layout.down.rows * CELL_H;
+        const level = evaluation.values[stage.output];
+        const faulty = state.condition === "short" || state.condition === "floating";
+        return (
+          <g key={stage.output}>
+            <line x1={cx} y1={20} x2={cx} y2={34} stroke={wireColor(state.pullUp)} strokeWidth={2} />
+            <SwitchNetworkView net={stage.pullUp} polarity="pmos" values={evaluation.values} x={x + 20} y={34} width={netWidth} />
+            <line x1={cx} y1={upBottom} x2={cx} y2={downTop} stroke={LEVEL_COLORS[String(level)]} strokeWidth={2} />
+            <circle cx={cx} cy={layout.outY} r={4} fill={LEVEL_COLORS[String(level)]} />
+            <line x1={cx} y1={layout.outY} x2={x + layout.width - 4} y2={layout.outY} stroke={LEVEL_COLORS[String(level)]} strokeWidth={2} />
+            <text x={x + layout.width - 6} y={layout.outY - 6} textAnchor="end" fontSize={10} fontFamily="monospace" fill={LEVEL_COLORS[String(level)]}>
+              {stage.output}={level}
+            </text>
+            <SwitchNetworkView net={stage.pullDown} polarity="nmos" values={evaluation.values} x={x + 20} y={downTop} width={netWidth} />
+            <line x1={cx} y1={downBottom} x2={cx} y2={downBottom + 12} stroke={wireColor(state.pullDown)} strokeWidth={2} />
+            <path d={`M ${cx - 12} ${downBottom + 12} H ${cx + 12} M ${cx - 7} ${downBottom + 16} H ${cx + 7} M ${cx - 3} ${downBottom + 20} H ${cx + 3}`} stroke={COLORS.muted} strokeWidth={1.5} />
+            {faulty && (
+              <motion.text
+                x={cx}
+                y={layout.outY + 14}
+                textAnchor="middle"
+                fontSize={9}
+                fontWeight={700}
+                fontFamily="monospace"
+                fill={state.condition === "short" ? COLORS.danger : COLORS.accent}
+                animate={{ opacity: [1, 0.4, 1] }}
+                transition={{ duration: 1, repeat: Infinity }}
+              >
+                {state.condition === "short" ? "SHORT VDD→GND" : "FLOATING"}
+              </motion.text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+const COMPOUND_PRESETS = ["AOI21", "AOI22", "OAI21", "OAI22", "AOI211", "(A(B + C) + D)'"];
+
+function CompoundGatePanel() {
+  const [spec, setSpec] = useState("AOI21");
+  const [pullUpText, setPullUpText] = useState("");
+  const [combination, setCombination] = useState(0);
+
+  const built = useMemo(() => {
+    try {
+      return { gate: compoundCmosGate(spec, pullUpText), error: null };
+    } catch (e) {
+      return { gate: null, error: (e as Error).message };
+    }
+  }, [spec, pullUpText]);
+
+  const gate = built.gate;
+  const n = gate?.inputs.length ?? 0;
+  const m = combination % 2 ** n;
+  const inputs = gate ? gate.inputs.map((_, i) => (m >> (n - 1 - i)) & 1) : [];
+  const evaluation = gate ? evaluateCmos(gate, inputs) : null;
+  const issues = gate ? cmosIssues(gate) : [];
+  const dual = gate ? networkExpression(dualNetwork(gate.stages[0].pullDown)) : "";
+
+  return (
+    <div className="rounded-2xl overflow-hidden" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+      <div className="px-5 py-3 border-b flex items-center gap-2 flex-wrap" style={{ borderColor: COLORS.border }}>
+        <Cpu size={14} style={{ color: COLORS.primary }} />
+        <span className="text-sm font-semibold text-white">Compound Gates (AOI / OAI)</span>
+        <span className="text-[11px]" style={{ color: COLORS.muted }}>
+          One stage: the pull-down follows the AND/OR expression, the pull-up is its dual
+        </span>
+      </div>
+      <div className="p-5 grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="space-y-3">
+          <div>
+            <label className="text-[10px] uppercase tracking-wider block mb-1" style={{ color: COLORS.muted }}>
+              Gate (AOI21, OAI22… or an inverted expression)
+            </label>
+            <input
+              value={spec}
+              onChange={(e) => setSpec(e.target.value)}
+              className="w-full px-3 py-1.5 rounded-lg text-xs font-mono bg-transparent text-white outline-none"
+              style={{ border: `1px solid ${COLORS.border}` }}
+              spellCheck={false}
+            />
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {COMPOUND_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => {
+                    setSpec(preset);
+                    setPullUpText("");
+                  }}
+                  className="px-2 py-0.5 rounded text-[10px] font-mono"
+                  style={{
+                    background: spec === preset ? "rgba(99,102,241,0.15)" : "#1e1e2e",
+                    color: spec === preset ? COLORS.primary : "#a1a1aa",
+                  }}
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-[10px] uppercase tracking-wider block mb-1" style={{ color: COLORS.muted }}>
+              Pull-up topology (blank = dual)
+            </label>
+            <input
+              value={pullUpText}
+              onChange={(e) => setPullUpText(e.target.value)}
+              placeholder={dual}
+              className="w-full px-3 py-1.5 rounded-lg text-xs font-mono bg-transparent text-white outline-none placeholder:text-[#4a4a5a]"
+              style={{ border: `1px solid ${pullUpText ? COLORS.accent : COLORS.border}` }}
+              spellCheck={false}
+            />
+            <p className="text-[10px] mt-1" style={{ color: COLORS.muted }}>
+              AND = series, OR = parallel. Copy the pull-down here to break the gate.
+            </p>
+          </div>
+          {built.error && (
+            <div className="text-[11px] font-mono px-3 py-2 rounded-lg" style={{ color: COLORS.danger, background: "rgba(239,68,68,0.08)" }}>
+              {built.error}
+            </div>
+          )}
+          {gate && (
+            <>
+              <div className="text-xs font-mono" style={{ color: COLORS.secondary }}>
+                Y = {gate.expression}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <MetricBadge icon={<Cpu size={12} />} label="Transistors" value={transistorCount(gate)} color={COLORS.primary} />
+                <MetricBadge
+                  icon={<CircuitBoard size={12} />}
+                  label="As separate gates"
+                  value={`${gateLevelTransistors(gate.stages[0].pullDown)} T`}
+                  color={COLORS.muted}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {gate.inputs.map((name, i) => (
+                  <button
+                    key={name}
+                    onClick={() => setCombination(m ^ (1 << (n - 1 - i)))}
+                    className="px-2.5 py-1 rounded-lg text-xs font-mono font-bold"
+                    style={{
+                      background: inputs[i] ? "rgba(16,185,129,0.12)" : "rgba(113,113,122,0.08)",
+                      border: `1px solid ${inputs[i] ? "rgba(16,185,129,0.3)" : "rgba(113,113,122,0.15)"}`,
+                      color: inputs[i] ? COLORS.wireHigh : COLORS.wireLow,
+                    }}
+                  >
+                    {name}={inputs[i]}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setCombination((m + 1) % 2 ** n)}
+                  className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs"
+                  style={{ background: "#1e1e2e", color: "#a1a1aa" }}
+                >
+                  Next <ChevronRight size={12} />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {gate && evaluation && (
+            <>
+              <CmosSchematic gate={gate} evaluation={evaluation} />
+              <div className="mt-3">
+                {issues.length === 0 ? (
+                  <p className="text-[11px]" style={{ color: COLORS.wireHigh }}>
+                    Complementary networks: for all {2 ** n} input combinations exactly one of them conducts.
+                  </p>
+                ) : (
+                  <div className="space-y-1">
+                    <p className="text-[11px] font-semibold" style={{ color: COLORS.danger }}>
+                      Static power problems in {issues.length} of {2 ** n} input combinations
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {issues.slice(0, 16).map((issue) => (
+                        <button
+                          key={issue.inputs.join("")}
+                          onClick={() => setCombination(parseInt(issue.inputs.join(""), 2))}
+                          className="px-2 py-0.5 rounded text-[10px] font-mono"
+                          style={{
+                            color: issue.kind === "short" ? COLORS.danger : COLORS.accent,
+                            background: issue.kind === "short" ? "rgba(239,68,68,0.08)" : "rgba(245,158,11,0.08)",
+                          }}
+                        >
+                          {gate.inputs.join("")}={issue.inputs.join("")}: {issue.kind === "short" ? "VDD-GND short" : "output floats"}
+                        </button>
+                      ))}
+                      {issues.length > 16 && (
+                        <span className="text-[10px]" style={{ color: COLORS.muted }}>+{issues.length - 16} more</span>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── Truth Table Component ────────────────────────────────────────────────────
 
 function TruthTableDisplay({
@@ -537,6 +938,7 @@ export default function LogicGatesPage() {
   const [speed, setSpeed] = useState(1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  const [viewMode, setViewMode] = useState<"gate" | "transistor">("gate");
 
   // ── Metrics state ─────────────────────────────────────────────────────────
   const [totalGatesTested, setTotalGatesTested] = useState(0);
@@ -566,6 +968,8 @@ export default function LogicGatesPage() {
   const currentGateInfo = GATES[selectedGate];
   const currentOutput = currentGateInfo.evaluate(inputA, inputB);
   const currentScenario = SCENARIOS.find((s) => s.key === selectedScenario)!;
+  const cmosGate = standardCmosGate(selectedGate);
+  const cmosEvaluation = evaluateCmos(cmosGate, selectedGate === "NOT" ? [inputA] : [inputA, inputB]);
 
   // ── Propagation animation on input change ─────────────────────────────────
   const triggerPropagation = useCallback(() => {
@@ -752,6 +1156,8 @@ export default function LogicGatesPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedScenario]);
 
+  useScenarioParam(SCENARIOS.map((s) => s.key), setSelectedScenario);
+
   // ── Render ────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen" style={{ background: COLORS.bg }}>
@@ -761,6 +1167,7 @@ export default function LogicGatesPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -783,8 +1190,10 @@ export default function LogicGatesPage() {
             </div>
             <p className="text-sm text-[#a1a1aa] max-w-2xl">
               Explore the fundamental building blocks of digital electronics. Toggle inputs, watch signals
-              propagate through gates, and understand how simple logic operations power every computer.
+              propagate through gates, then drop to the transistor level to see which NMOS and PMOS switches
+              conduct in each gate&apos;s pull-up and pull-down networks.
             </p>
+            <ModuleLinks moduleId="1.1" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -866,20 +1275,43 @@ export default function LogicGatesPage() {
                   <CircuitBoard size={14} style={{ color: COLORS.primary }} />
                   <span className="text-sm font-semibold text-white">{currentGateInfo.label}</span>
                 </div>
-                <span className="text-xs font-mono" style={{ color: COLORS.secondary }}>
-                  {currentGateInfo.expression}
-                </span>
+                <div className="flex items-center gap-3">
+                  <div className="flex rounded-lg overflow-hidden" style={{ border: `1px solid ${COLORS.border}` }}>
+                    {(["gate", "transistor"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className="px-2.5 py-1 text-[11px] font-medium transition-colors duration-150"
+                        style={{
+                          background: viewMode === mode ? "rgba(99,102,241,0.15)" : "transparent",
+                          color: viewMode === mode ? COLORS.primary : COLORS.muted,
+                        }}
+                      >
+                        {mode === "gate" ? "Gates" : "Transistors"}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-xs font-mono" style={{ color: COLORS.secondary }}>
+                    {currentGateInfo.expression}
+                  </span>
+                </div>
               </div>
 
               {/* Gate diagram */}
               <div className="px-6 py-4">
-                <GateSymbol
-                  gate={selectedGate}
-                  inputA={inputA}
-                  inputB={inputB}
-                  output={currentOutput}
-                  propagationPhase={propagationPhase}
-                />
+                {viewMode === "gate" ? (
+                  <GateSymbol
+                    gate={selectedGate}
+                    inputA={inputA}
+                    inputB={inputB}
+                    output={currentOutput}
+                    propagationPhase={propagationPhase}
+                  />
+                ) : (
+                  <div className="pt-10">
+                    <CmosSchematic gate={cmosGate} evaluation={cmosEvaluation} />
+                  </div>
+                )}
               </div>
 
               {/* Input toggles */}
@@ -953,6 +1385,12 @@ export default function LogicGatesPage() {
                       value={stepCount}
                       color={COLORS.secondary}
                     />
+                    <MetricBadge
+                      icon={<Cpu size={12} />}
+                      label="Transistors"
+                      value={transistorCount(cmosGate)}
+                      color={COLORS.success}
+                    />
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -1027,6 +1465,18 @@ export default function LogicGatesPage() {
             </div>
           </motion.div>
 
+          {/* ── Compound gates ────────────────────────────────────────── */}
+          {viewMode === "transistor" && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4, ease: [0.23, 1, 0.32, 1] }}
+              className="mb-4"
+            >
+              <CompoundGatePanel />
+            </motion.div>
+          )}
+
           {/* ── Controls panel ────────────────────────────────────────── */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -1035,6 +1485,8 @@ export default function LogicGatesPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: selectedScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1043,6 +1495,7 @@ export default function LogicGatesPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={propagationPhase === 3 ? `${currentGateInfo.label}: A=${inputA}${currentGateInfo.inputs > 1 ? `, B=${inputB}` : ""} gives output ${currentOutput}` : undefined}
             >
               <AnimatePresence>
                 {isComplete && (
@@ -1159,6 +1612,7 @@ export default function LogicGatesPage() {
                         <th className="px-3 py-2 text-left font-medium" style={{ color: COLORS.muted }}>Expression</th>
                         <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Inputs</th>
                         <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Universal</th>
+                        <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Transistors</th>
                         <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Output for 0,0</th>
                         <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Output for 1,1</th>
                       </tr>
@@ -1197,6 +1651,9 @@ export default function LogicGatesPage() {
                                 <span style={{ color: COLORS.muted }}>No</span>
                               )}
                             </td>
+                            <td className="px-3 py-2 text-center font-mono" style={{ color: "#a1a1aa" }}>
+                              {transistorCount(standardCmosGate(gate))}
+                            </td>
                             <td className="px-3 py-2 text-center">
                               <span className="font-mono font-bold" style={{ color: out00 ? COLORS.wireHigh : COLORS.wireLow }}>
                                 {out00}
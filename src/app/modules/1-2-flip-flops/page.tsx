@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Zap,
@@ -15,9 +15,31 @@ import {
   Clock,
   ArrowUpDown,
   BarChart3,
+  PenLine,
+  Shuffle,
+  TriangleAlert,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  CLOCK_TRIGGERS,
+  captureEdges,
+  clockSamples,
+  fromSamples,
+  isEdgeTriggered,
+  levelAt,
+  seededRandom,
+  simulateFlipFlop,
+  simulateSynchronizer,
+  synchronizerReliability,
+  type ClockTrigger,
+  type FlipFlopTiming,
+  type Level,
+  type TimingViolation,
+  type Waveform,
+} from "@/lib/sim/flip-flop-timing";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -143,6 +165,21 @@ const FLIP_FLOPS: Record<FlipFlopType, FlipFlopInfo> = {
 
 const FLIP_FLOP_KEYS: FlipFlopType[] = ["SR", "D", "JK", "T"];
 
+/** Time units in the stimulus editor. */
+const STIMULUS_END = 48;
+
+// The SR element on this page is a gated latch; the others are edge-triggered
+const DEFAULT_TRIGGERS: Record<FlipFlopType, ClockTrigger> = { SR: "high", D: "rising", JK: "rising", T: "rising" };
+
+const TRIGGER_LABELS: Record<ClockTrigger, string> = {
+  rising: "Rising edge",
+  falling: "Falling edge",
+  high: "Level high",
+  low: "Level low",
+};
+
+const DEFAULT_TIMING: FlipFlopTiming = { setup: 2, hold: 1, clockToQ: 2 };
+
 const SCENARIOS: Scenario[] = [
   {
     key: "sr-latch",
@@ -672,6 +709,482 @@ function FlipFlopDiagram({
   );
 }
 
+// ─── Stimulus Editor Component ────────────────────────────────────────────────
+
+interface WaveRow {
+  name: string;
+  color: string;
+  samples: Level[];
+  editable?: boolean;
+  /** Set on rows the flip-flop checks; their apertures are shaded. */
+  violations?: TimingViolation[];
+}
+
+type StimulusTab = "flip-flop" | "synchronizer";
+
+function waveSamples(wave: Waveform): Level[] {
+  return Array.from({ length: STIMULUS_END }, (_, t) => levelAt(wave, t));
+}
+
+/** A clock plus input changes that mostly clear the aperture, with one or two that don't. */
+function initialWaves(period: number): Record<string, Level[]> {
+  const pulse = (from: number, to: number) =>
+    Array.from({ length: STIMULUS_END }, (_, t): Level => (t >= from && t < to ? 1 : 0));
+  return {
+    CLK: clockSamples(period, STIMULUS_END),
+    S: pulse(9, 14),
+    R: pulse(35, 40),
+    D: pulse(10, 29),
+    J: pulse(9, 25),
+    K: pulse(21, 41),
+    T: pulse(9, 29),
+    ASYNC: pulse(17, 41),
+  };
+}
+
+function formatChance(p: number): string {
+  return p >= 0.001 ? p.toFixed(3) : p.toExponential(1);
+}
+
+function formatCycles(n: number): string {
+  return n < 1e6 ? String(Math.round(n)) : n.toExponential(1);
+}
+
+function StimulusWaves({
+  rows,
+  edges,
+  timing,
+  onPaint,
+  onPaintEnd,
+}: {
+  rows: WaveRow[];
+  edges: number[];
+  timing: FlipFlopTiming;
+  onPaint: (signal: string, time: number, start: boolean) => void;
+  onPaintEnd: () => void;
+}) {
+  const cell = 14;
+  const rowHeight = 32;
+  const labelWidth = 48;
+  const width = labelWidth + STIMULUS_END * cell;
+  const height = rows.length * rowHeight + 18;
+  const xAt = (time: number) => labelWidth + time * cell;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={width}
+        height={height}
+        className="select-none"
+        style={{ touchAction: "none" }}
+        onPointerUp={onPaintEnd}
+        onPointerLeave={onPaintEnd}
+      >
+        {rows.map((row, r) => {
+          const top = r * rowHeight;
+          const hiY = top + 6;
+          const loY = top + rowHeight - 6;
+          const midY = top + rowHeight / 2;
+          return (
+            <g key={row.name}>
+              <text x={labelWidth - 8} y={midY + 4} textAnchor="end" fontSize={11} fontFamily="monospace" fontWeight={600} fill={row.color}>
+                {row.name}
+              </text>
+
+              {/* Setup/hold apertures around each capturing edge */}
+              {row.violations &&
+                edges.map((edge) => (
+                  <rect
+                    key={edge}
+                    x={xAt(edge - timing.setup + 0.5)}
+                    y={top + 2}
+                    width={(timing.setup + timing.hold) * cell}
+                    height={rowHeight - 4}
+                    rx={3}
+                    fill={row.violations!.some((v) => v.edge === edge) ? `${COLORS.danger}26` : "rgba(255,255,255,0.04)"}
+                  />
+                ))}
+
+              {row.samples.map((value, t) => {
+                const x = xAt(t);
+                const prev = row.samples[t - 1];
+                if (value === "x" || value === "meta") {
+                  const fill = value === "x" ? COLORS.invalid : COLORS.accent;
+                  return (
+                    <g key={t}>
+                      <rect x={x} y={hiY} width={cell} height={loY - hiY} fill={`${fill}30`} />
+                      {value === "meta" ? (
+                        <line x1={x} x2={x + cell} y1={midY} y2={midY} stroke={fill} strokeWidth={2} strokeDasharray="3 2" />
+                      ) : (
+                        prev !== "x" && (
+                          <text x={x + 3} y={midY + 4} fontSize={10} fontFamily="monospace" fontWeight={700} fill={fill}>
+                            X
+                          </text>
+                        )
+                      )}
+                    </g>
+                  );
+                }
+                const y = value ? hiY : loY;
+                return (
+                  <g key={t}>
+                    <line x1={x} x2={x + cell} y1={y} y2={y} stroke={row.color} strokeWidth={2} opacity={value ? 1 : 0.55} />
+                    {(prev === 0 || prev === 1) && prev !== value && (
+                      <line x1={x} x2={x} y1={hiY} y2={loY} stroke={row.color} strokeWidth={2} />
+                    )}
+                  </g>
+                );
+              })}
+
+              {row.violations?.map((v, i) => (
+                <circle key={i} cx={xAt(v.time)} cy={midY} r={4} fill={COLORS.danger}>
+                  <title>{`${v.kind} violation: ${row.name} changed at t=${v.time}, edge at t=${v.edge}`}</title>
+                </circle>
+              ))}
+
+              {row.editable &&
+                row.samples.map((_, t) => (
+                  <rect
+                    key={`hit-${t}`}
+                    x={xAt(t)}
+                    y={top}
+                    width={cell}
+                    height={rowHeight}
+                    fill="transparent"
+                    style={{ cursor: "pointer" }}
+                    onPointerDown={(e) => {
+                      e.preventDefault();
+                      onPaint(row.name, t, true);
+                    }}
+                    onPointerEnter={(e) => {
+                      if (e.buttons === 1) onPaint(row.name, t, false);
+                    }}
+                  />
+                ))}
+            </g>
+          );
+        })}
+
+        {/* Capturing edges */}
+        {edges.map((edge) => (
+          <line
+            key={edge}
+            x1={xAt(edge)}
+            x2={xAt(edge)}
+            y1={0}
+            y2={rows.length * rowHeight}
+            stroke={COLORS.clock}
+            strokeOpacity={0.35}
+            strokeDasharray="2 3"
+            pointerEvents="none"
+          />
+        ))}
+
+        {Array.from({ length: STIMULUS_END / 6 + 1 }, (_, i) => i * 6).map((t) => (
+          <text key={t} x={xAt(t)} y={height - 4} textAnchor="middle" fontSize={9} fontFamily="monospace" fill={COLORS.muted}>
+            {t}
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+function TimingField({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1.5 text-[11px]" style={{ color: COLORS.muted }}>
+      {label}
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, next)));
+        }}
+        className="w-14 px-1.5 py-1 rounded-md font-mono text-xs text-white outline-none"
+        style={{ background: COLORS.bg, border: `1px solid ${COLORS.border}` }}
+      />
+    </label>
+  );
+}
+
+function StimulusEditor({ ffType }: { ffType: FlipFlopType }) {
+  const [tab, setTab] = useState<StimulusTab>("flip-flop");
+  const [triggers, setTriggers] = useState<Record<FlipFlopType, ClockTrigger>>(DEFAULT_TRIGGERS);
+  const [timing, setTiming] = useState<FlipFlopTiming>(DEFAULT_TIMING);
+  const [period, setPeriod] = useState(12);
+  const [waves, setWaves] = useState(() => initialWaves(12));
+  const [metastable, setMetastable] = useState(false);
+  const [tau, setTau] = useState(2);
+  const [seed, setSeed] = useState(1);
+  const strokeRef = useRef<{ signal: string; value: Level } | null>(null);
+
+  const info = FLIP_FLOPS[ffType];
+  const trigger = tab === "synchronizer" ? "rising" : triggers[ffType];
+  const clock = useMemo(() => fromSamples(waves.CLK), [waves.CLK]);
+  const edges = useMemo(() => captureEdges(clock, trigger), [clock, trigger]);
+
+  const single = useMemo(
+    () =>
+      simulateFlipFlop(
+        clock,
+        Object.fromEntries(info.inputs.map((name) => [name, fromSamples(waves[name])])),
+        info.evaluate,
+        {
+          trigger: triggers[ffType],
+          timing,
+          end: STIMULUS_END,
+          metastability: metastable ? { tau, random: seededRandom(seed) } : undefined,
+        }
+      ),
+    [clock, waves, info, triggers, ffType, timing, metastable, tau, seed]
+  );
+
+  const sync = useMemo(
+    () =>
+      simulateSynchronizer(clock, fromSamples(waves.ASYNC), {
+        timing,
+        end: STIMULUS_END,
+        metastability: metastable ? { tau, random: seededRandom(seed) } : undefined,
+      }),
+    [clock, waves.ASYNC, timing, metastable, tau, seed]
+  );
+
+  const reliability = useMemo(() => {
+    const changes = fromSamples(waves.ASYNC).length - 1;
+    return synchronizerReliability(timing, period, tau, Math.max(1, changes) / (STIMULUS_END / period));
+  }, [waves.ASYNC, timing, period, tau]);
+
+  const paint = useCallback(
+    (signal: string, time: number, start: boolean) => {
+      if (start) strokeRef.current = { signal, value: waves[signal][time] === 1 ? 0 : 1 };
+      const stroke = strokeRef.current;
+      if (!stroke || stroke.signal !== signal) return;
+      setWaves((prev) => ({ ...prev, [signal]: prev[signal].map((v, t) => (t === time ? stroke.value : v)) }));
+    },
+    [waves]
+  );
+
+  const endPaint = useCallback(() => {
+    strokeRef.current = null;
+  }, []);
+
+  const changePeriod = useCallback((next: number) => {
+    setPeriod(next);
+    setWaves((prev) => ({ ...prev, CLK: clockSamples(next, STIMULUS_END) }));
+  }, []);
+
+  const rows: WaveRow[] =
+    tab === "flip-flop"
+      ? [
+          { name: "CLK", color: COLORS.clock, samples: waves.CLK, editable: true },
+          ...info.inputs.map((name) => ({
+            name,
+            color: COLORS.accent,
+            samples: waves[name],
+            editable: true,
+            violations: single.violations.filter((v) => v.input === name),
+          })),
+          { name: "Q", color: COLORS.qHigh, samples: waveSamples(single.q) },
+        ]
+      : [
+          { name: "CLK", color: COLORS.clock, samples: waves.CLK, editable: true },
+          { name: "ASYNC", color: COLORS.accent, samples: waves.ASYNC, editable: true, violations: sync.first.violations },
+          { name: "Q1", color: COLORS.secondary, samples: waveSamples(sync.first.q), violations: sync.second.violations },
+          { name: "Q2", color: COLORS.qHigh, samples: waveSamples(sync.second.q) },
+        ];
+
+  const badCaptures = (tab === "flip-flop" ? single : sync.first).captures.filter((c) => c.violations.length > 0);
+  const edgeWord = trigger === "falling" ? "falling" : "rising";
+
+  return (
+    <div className="rounded-2xl overflow-hidden" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+      <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 border-b" style={{ borderColor: COLORS.border }}>
+        <div className="flex items-center gap-2">
+          <PenLine size={14} style={{ color: COLORS.accent }} />
+          <span className="text-sm font-semibold text-white">Stimulus Editor</span>
+          <span className="text-[11px]" style={{ color: COLORS.muted }}>
+            click or drag across CLK and input rows to draw
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {(["flip-flop", "synchronizer"] as StimulusTab[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+              style={{
+                background: tab === key ? "rgba(99,102,241,0.12)" : "transparent",
+                color: tab === key ? COLORS.primary : COLORS.muted,
+                border: tab === key ? "1px solid rgba(99,102,241,0.2)" : "1px solid transparent",
+              }}
+            >
+              {key === "flip-flop" ? `${info.label}` : "Two-flop synchronizer"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Trigger and timing parameters */}
+        <div className="flex flex-wrap items-center gap-3">
+          {tab === "flip-flop" && (
+            <div className="flex items-center gap-1">
+              {CLOCK_TRIGGERS.map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setTriggers((prev) => ({ ...prev, [ffType]: t }))}
+                  className="px-2.5 py-1 rounded-md text-[11px] font-medium transition-all duration-200"
+                  style={{
+                    background: triggers[ffType] === t ? "rgba(6,182,212,0.12)" : COLORS.bg,
+                    color: triggers[ffType] === t ? COLORS.clock : COLORS.muted,
+                    border: `1px solid ${triggers[ffType] === t ? "rgba(6,182,212,0.3)" : COLORS.border}`,
+                  }}
+                >
+                  {TRIGGER_LABELS[t]}
+                </button>
+              ))}
+            </div>
+          )}
+          <TimingField label="Setup" value={timing.setup} min={0} max={6} onChange={(setup) => setTiming((t) => ({ ...t, setup }))} />
+          <TimingField label="Hold" value={timing.hold} min={0} max={6} onChange={(hold) => setTiming((t) => ({ ...t, hold }))} />
+          <TimingField
+            label="Clk→Q"
+            value={timing.clockToQ}
+            min={1}
+            max={6}
+            onChange={(clockToQ) => setTiming((t) => ({ ...t, clockToQ }))}
+          />
+          <TimingField label="Period" value={period} min={4} max={24} step={2} onChange={changePeriod} />
+          <button
+            onClick={() => setWaves(initialWaves(period))}
+            className="px-2.5 py-1 rounded-md text-[11px] font-medium"
+            style={{ background: COLORS.bg, color: COLORS.muted, border: `1px solid ${COLORS.border}` }}
+          >
+            Reset waveforms
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={() => setMetastable(!metastable)}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
+            style={{
+              background: metastable ? "rgba(245,158,11,0.1)" : COLORS.bg,
+              color: metastable ? COLORS.accent : COLORS.muted,
+              border: `1px solid ${metastable ? "rgba(245,158,11,0.3)" : COLORS.border}`,
+            }}
+          >
+            {metastable ? <ToggleRight size={14} /> : <ToggleLeft size={14} />}
+            Metastability model
+          </button>
+          {metastable && (
+            <>
+              <TimingField label="τ" value={tau} min={0.5} max={6} step={0.5} onChange={setTau} />
+              <button
+                onClick={() => setSeed((s) => s + 1)}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
+                style={{ background: COLORS.bg, color: COLORS.muted, border: `1px solid ${COLORS.border}` }}
+              >
+                <Shuffle size={12} />
+                Reroll
+              </button>
+            </>
+          )}
+        </div>
+
+        <StimulusWaves rows={rows} edges={edges} timing={timing} onPaint={paint} onPaintEnd={endPaint} />
+
+        {/* What happened */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <p className="text-xs leading-relaxed" style={{ color: "#a1a1aa" }}>
+              {isEdgeTriggered(trigger)
+                ? `Samples ${tab === "flip-flop" ? info.inputs.join(" and ") : "ASYNC"} on each ${edgeWord} edge; ${tab === "flip-flop" ? "Q" : "Q1"} follows ${timing.clockToQ} units later. Inputs must hold still from ${timing.setup} units before the edge to ${timing.hold} after.`
+                : `Transparent while CLK is ${trigger === "high" ? "high" : "low"}, so Q follows the inputs; the value is latched when CLK ${trigger === "high" ? "falls" : "rises"}, and the aperture sits around that closing edge.`}
+            </p>
+            {tab === "flip-flop" && !isEdgeTriggered(trigger) && (ffType === "JK" || ffType === "T") && (
+              <p className="text-xs leading-relaxed" style={{ color: COLORS.accent }}>
+                Holding {ffType === "JK" ? "J=K=1" : "T=1"} while the latch is open makes Q race around: it toggles every{" "}
+                {timing.clockToQ} units until the latch closes. That is why toggling elements are edge-triggered.
+              </p>
+            )}
+            {tab === "synchronizer" && (
+              <p className="text-xs leading-relaxed" style={{ color: "#a1a1aa" }}>
+                ASYNC comes from another clock domain, so it will eventually change inside Q1&apos;s aperture. Q1 gets
+                a whole period minus clock-to-Q and setup to settle before Q2 samples it, so a failure needs both
+                stages to hang and the probability squares.
+                {!metastable && " Turn on the metastability model to see how long Q1 hangs."}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            {badCaptures.length === 0 ? (
+              <p className="text-xs" style={{ color: COLORS.success }}>
+                No setup or hold violations: every input is stable across each aperture.
+              </p>
+            ) : (
+              badCaptures.slice(0, 5).map((c) => (
+                <div key={c.edge} className="flex items-start gap-1.5 text-xs font-mono" style={{ color: "#a1a1aa" }}>
+                  <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" style={{ color: COLORS.danger }} />
+                  <span>
+                    t={c.edge}: {c.violations.map((v) => `${v.kind} (${tab === "flip-flop" ? v.input : "ASYNC"} @${v.time})`).join(", ")}
+                    {" → "}
+                    {c.resolution !== undefined
+                      ? `${tab === "flip-flop" ? "Q" : "Q1"} metastable ${c.resolution} units, settled to ${c.value}`
+                      : `${tab === "flip-flop" ? "Q" : "Q1"} unknown`}
+                  </span>
+                </div>
+              ))
+            )}
+            {tab === "synchronizer" && sync.second.violations.length > 0 && (
+              <p className="text-xs" style={{ color: COLORS.danger }}>
+                Q1 was still unsettled when Q2 sampled it — the synchronizer failed this time.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {tab === "synchronizer" && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+            {[
+              { label: "Slack", value: `${reliability.slack} units` },
+              { label: "P(hit aperture)", value: formatChance(reliability.violationChance) },
+              { label: "P(fail), 1 flop", value: formatChance(reliability.failSingle) },
+              { label: "P(fail), 2 flops", value: formatChance(reliability.failDouble) },
+              { label: "MTBF, 1 flop", value: `${formatCycles(reliability.mtbfSingle)} cyc` },
+              { label: "MTBF, 2 flops", value: `${formatCycles(reliability.mtbfDouble)} cyc` },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg px-3 py-2" style={{ background: COLORS.bg, border: `1px solid ${COLORS.border}` }}>
+                <div className="text-[10px] uppercase tracking-wider" style={{ color: COLORS.muted }}>
+                  {stat.label}
+                </div>
+                <div className="text-sm font-mono font-semibold text-white">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ─── Metric Badge Component ──────────────────────────────────────────────────
 
 function MetricBadge({
@@ -1021,6 +1534,8 @@ export default function FlipFlopsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedScenario]);
 
+  useScenarioParam(SCENARIOS.map((s) => s.key), setSelectedScenario);
+
   // ── Derived values ────────────────────────────────────────────────────────
   const currentFFInfo = FLIP_FLOPS[selectedFF];
   const transitionTable = getTransitionTable(selectedFF);
@@ -1034,6 +1549,7 @@ export default function FlipFlopsPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1058,6 +1574,7 @@ export default function FlipFlopsPage() {
               Discover how digital circuits remember information. Watch clock signals trigger state changes in
               flip-flops, the fundamental building blocks of registers, counters, and computer memory.
             </p>
+            <ModuleLinks moduleId="1.2" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1351,6 +1868,16 @@ export default function FlipFlopsPage() {
             </motion.div>
           )}
 
+          {/* ── Stimulus editor ───────────────────────────────────────── */}
+          <motion.div
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.25, ease: [0.23, 1, 0.32, 1] }}
+            className="mb-4"
+          >
+            <StimulusEditor ffType={selectedFF} />
+          </motion.div>
+
           {/* ── Controls panel ────────────────────────────────────────── */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -1359,6 +1886,8 @@ export default function FlipFlopsPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: selectedScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1367,6 +1896,7 @@ export default function FlipFlopsPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={`${FLIP_FLOPS[selectedFF].label}: ${Object.entries(inputs).map(([name, value]) => `${name}=${value}`).join(", ")}, Q=${q}${invalid ? " (invalid state)" : ""}`}
             >
               <AnimatePresence>
                 {isComplete && (
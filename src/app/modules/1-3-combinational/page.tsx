@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Zap,
@@ -15,9 +15,38 @@ import {
   Layers,
   ChevronRight,
   Timer,
+  PenTool,
+  Waves,
+  AlertTriangle,
+  Shuffle,
+  Eraser,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import MetricsPanel from "@/components/ui/MetricsPanel";
+import SchematicEditor from "@/components/ui/SchematicEditor";
+import TimingTrace from "@/components/ui/TimingTrace";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  circuitInputs,
+  circuitIssues,
+  circuitOutputs,
+  circuitOutputValues,
+  criticalPath,
+  findHazards,
+  findLoops,
+  generateTruthTable,
+  grayCodeSweep,
+  simulateCircuit,
+  valueAt,
+  type Circuit,
+  type CircuitNode,
+  type Hazard,
+  type Stimulus,
+  type TruthTableEntry,
+  type Wire,
+} from "@/lib/sim/logic";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -50,11 +79,6 @@ interface Scenario {
   description: string;
 }
 
-interface TruthTableEntry {
-  inputs: number[];
-  outputs: number[];
-}
-
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const COLORS = {
@@ -202,22 +226,9 @@ const SCENARIOS: Scenario[] = [
   { key: "full-adder", label: "Full Adder", circuit: "FULL_ADDER", description: "Binary addition" },
 ];
 
-function generateTruthTable(circuit: CircuitType): TruthTableEntry[] {
+function circuitTruthTable(circuit: CircuitType): TruthTableEntry[] {
   const info = CIRCUITS[circuit];
-  const numInputs = info.inputLabels.length;
-  const totalCombinations = Math.pow(2, numInputs);
-  const entries: TruthTableEntry[] = [];
-
-  for (let i = 0; i < totalCombinations; i++) {
-    const inputs: number[] = [];
-    for (let j = 0; j < numInputs; j++) {
-      inputs.push((i >> j) & 1);
-    }
-    const outputs = info.evaluate(inputs);
-    entries.push({ inputs, outputs });
-  }
-
-  return entries;
+  return generateTruthTable(info.inputLabels.length, info.evaluate);
 }
 
 // ─── Circuit Visualization Component ──────────────────────────────────────────
@@ -521,7 +532,7 @@ function TruthTableDisplay({
   highlight: boolean;
 }) {
   const info = CIRCUITS[circuit];
-  const entries = generateTruthTable(circuit);
+  const entries = circuitTruthTable(circuit);
 
   // Limit displayed rows for large truth tables
   const maxDisplayed = 16;
@@ -640,6 +651,516 @@ function MetricBadge({
   );
 }
 
+// ─── Schematic Lab ────────────────────────────────────────────────────────────
+
+interface LabPreset {
+  key: string;
+  label: string;
+  description: string;
+  circuit: Circuit;
+  initial: Record<string, number>;
+  /** Input changes to replay; omitted presets sweep every input combination. */
+  stimuli?: Stimulus[];
+}
+
+const MAX_TABLE_INPUTS = 6;
+
+const MUX_NODES: CircuitNode[] = [
+  { id: "s", kind: "input", name: "S", x: 20, y: 40 },
+  { id: "d1", kind: "input", name: "D1", x: 20, y: 130 },
+  { id: "d0", kind: "input", name: "D0", x: 20, y: 280 },
+  { id: "inv", kind: "gate", gate: "NOT", pins: 1, delay: 1, x: 150, y: 210 },
+  { id: "a1", kind: "gate", gate: "AND", pins: 2, delay: 2, x: 310, y: 90 },
+  { id: "a0", kind: "gate", gate: "AND", pins: 2, delay: 2, x: 310, y: 240 },
+  { id: "f", kind: "output", name: "F", x: 680, y: 170 },
+];
+
+const MUX_WIRES: Wire[] = [
+  { from: "s", to: "inv", pin: 0 },
+  { from: "s", to: "a1", pin: 0 },
+  { from: "d1", to: "a1", pin: 1 },
+  { from: "inv", to: "a0", pin: 0 },
+  { from: "d0", to: "a0", pin: 1 },
+  { from: "or", to: "f", pin: 0 },
+];
+
+/** S falls, then rises, with both data inputs held at 1. */
+const MUX_STIMULI: Stimulus[] = [
+  { time: 4, input: "s", value: 0 },
+  { time: 16, input: "s", value: 1 },
+];
+
+const LAB_PRESETS: LabPreset[] = [
+  {
+    key: "mux-hazard",
+    label: "MUX Hazard",
+    description: "F = S·D1 + S'·D0 glitches low when S falls: the inverter makes S'·D0 turn on late.",
+    circuit: {
+      nodes: [...MUX_NODES, { id: "or", kind: "gate", gate: "OR", pins: 2, delay: 2, x: 490, y: 160 }],
+      wires: [...MUX_WIRES, { from: "a1", to: "or", pin: 0 }, { from: "a0", to: "or", pin: 1 }],
+    },
+    initial: { s: 1, d0: 1, d1: 1 },
+    stimuli: MUX_STIMULI,
+  },
+  {
+    key: "mux-consensus",
+    label: "Consensus Fix",
+    description: "Adding the consensus term D0·D1 holds F high while the other two terms hand over.",
+    circuit: {
+      nodes: [
+        ...MUX_NODES,
+        { id: "a2", kind: "gate", gate: "AND", pins: 2, delay: 2, x: 310, y: 340 },
+        { id: "or", kind: "gate", gate: "OR", pins: 3, delay: 2, x: 490, y: 150 },
+      ],
+      wires: [
+        ...MUX_WIRES,
+        { from: "d1", to: "a2", pin: 0 },
+        { from: "d0", to: "a2", pin: 1 },
+        { from: "a1", to: "or", pin: 0 },
+        { from: "a0", to: "or", pin: 1 },
+        { from: "a2", to: "or", pin: 2 },
+      ],
+    },
+    initial: { s: 1, d0: 1, d1: 1 },
+    stimuli: MUX_STIMULI,
+  },
+  {
+    key: "full-adder",
+    label: "Full Adder",
+    description: "Two half adders and an OR. The sum waits on two XOR delays, the slowest path.",
+    circuit: {
+      nodes: [
+        { id: "a", kind: "input", name: "A", x: 20, y: 50 },
+        { id: "b", kind: "input", name: "B", x: 20, y: 130 },
+        { id: "cin", kind: "input", name: "Cin", x: 20, y: 290 },
+        { id: "x1", kind: "gate", gate: "XOR", pins: 2, delay: 3, x: 170, y: 70 },
+        { id: "x2", kind: "gate", gate: "XOR", pins: 2, delay: 3, x: 400, y: 110 },
+        { id: "n1", kind: "gate", gate: "AND", pins: 2, delay: 2, x: 170, y: 200 },
+        { id: "n2", kind: "gate", gate: "AND", pins: 2, delay: 2, x: 400, y: 230 },
+        { id: "o1", kind: "gate", gate: "OR", pins: 2, delay: 2, x: 560, y: 260 },
+        { id: "sum", kind: "output", name: "S", x: 700, y: 116 },
+        { id: "cout", kind: "output", name: "Cout", x: 700, y: 266 },
+      ],
+      wires: [
+        { from: "a", to: "x1", pin: 0 },
+        { from: "b", to: "x1", pin: 1 },
+        { from: "a", to: "n1", pin: 0 },
+        { from: "b", to: "n1", pin: 1 },
+        { from: "x1", to: "x2", pin: 0 },
+        { from: "cin", to: "x2", pin: 1 },
+        { from: "x1", to: "n2", pin: 0 },
+        { from: "cin", to: "n2", pin: 1 },
+        { from: "n2", to: "o1", pin: 0 },
+        { from: "n1", to: "o1", pin: 1 },
+        { from: "x2", to: "sum", pin: 0 },
+        { from: "o1", to: "cout", pin: 0 },
+      ],
+    },
+    initial: {},
+  },
+  {
+    key: "blank",
+    label: "Blank",
+    description: "Two inputs and an output. Add gates from the palette and wire them up.",
+    circuit: {
+      nodes: [
+        { id: "n1", kind: "input", name: "A", x: 20, y: 100 },
+        { id: "n2", kind: "input", name: "B", x: 20, y: 260 },
+        { id: "n3", kind: "output", name: "F", x: 700, y: 180 },
+      ],
+      wires: [],
+    },
+    initial: {},
+    stimuli: [],
+  },
+];
+
+/** Gap between sweep steps: long enough for the slowest path to settle. */
+function sweepPeriod(circuit: Circuit): number {
+  return criticalPath(circuit).delay + 4;
+}
+
+function presetStimuli(preset: LabPreset): Stimulus[] {
+  return preset.stimuli ?? grayCodeSweep(preset.circuit, sweepPeriod(preset.circuit));
+}
+
+function labNodeName(node: CircuitNode): string {
+  return node.kind === "gate" ? `${node.gate} ${node.id}` : node.name;
+}
+
+const HAZARD_TEXT: Record<Hazard["kind"], string> = {
+  "static-1": "should stay 1 but dips to 0",
+  "static-0": "should stay 0 but spikes to 1",
+  dynamic: "bounces before settling",
+};
+
+/**
+ * Free-form circuit editor with an event-driven timing simulation. Each gate
+ * switches its own delay after its inputs change, so unequal paths show up
+ * as glitches on the trace instead of the fixed propagation phases used by
+ * the library circuits.
+ */
+function SchematicLab() {
+  const [presetKey, setPresetKey] = useState(LAB_PRESETS[0].key);
+  const [circuit, setCircuit] = useState(LAB_PRESETS[0].circuit);
+  const [initial, setInitial] = useState(LAB_PRESETS[0].initial);
+  const [stimuli, setStimuli] = useState(() => presetStimuli(LAB_PRESETS[0]));
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [showMetrics, setShowMetrics] = useState(true);
+  const [showInternal, setShowInternal] = useState(false);
+
+  const inputs = circuitInputs(circuit);
+  const outputs = circuitOutputs(circuit);
+  const preset = LAB_PRESETS.find((p) => p.key === presetKey);
+
+  const trace = useMemo(
+    () => simulateCircuit(circuit, circuitInputs(circuit).map((n) => initial[n.id] ?? 0), stimuli),
+    [circuit, initial, stimuli]
+  );
+  const critical = useMemo(() => criticalPath(circuit), [circuit]);
+  const issues = useMemo(() => circuitIssues(circuit), [circuit]);
+  const hasLoops = useMemo(() => findLoops(circuit).size > 0, [circuit]);
+  const hazards = useMemo(
+    () => findHazards(trace, circuitOutputs(circuit).map((n) => n.id), stimuli),
+    [trace, circuit, stimuli]
+  );
+  const table = useMemo(
+    () =>
+      inputs.length <= MAX_TABLE_INPUTS && !hasLoops
+        ? generateTruthTable(inputs.length, (v) => circuitOutputValues(circuit, v))
+        : null,
+    [circuit, inputs.length, hasLoops]
+  );
+
+  const horizon = trace.end + critical.delay + 4;
+  const values = Object.fromEntries(circuit.nodes.map((n) => [n.id, valueAt(trace.waveforms[n.id] ?? [], time)]));
+  const currentInputs = inputs.map((n) => values[n.id]);
+  const eventTimes = [...new Set(trace.events.map((e) => e.time))];
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      if (time >= horizon) setIsPlaying(false);
+      else setTime(time + 1);
+    }, 250 / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, time, horizon, speed]);
+
+  const loadPreset = (next: LabPreset) => {
+    setPresetKey(next.key);
+    setCircuit(next.circuit);
+    setInitial(next.initial);
+    setStimuli(presetStimuli(next));
+    setTime(0);
+    setIsPlaying(false);
+  };
+
+  const runSweep = () => {
+    setInitial({});
+    setStimuli(grayCodeSweep(circuit, sweepPeriod(circuit)));
+    setTime(0);
+    setIsPlaying(true);
+  };
+
+  // Toggling rewrites the future: the change lands at the playhead and later
+  // stimuli are dropped, then playback shows it propagating.
+  const toggleInput = (id: string) => {
+    const current = values[id] ?? 0;
+    if (time === 0) {
+      setInitial({ ...initial, [id]: 1 - current });
+      return;
+    }
+    setStimuli([
+      ...stimuli.filter((s) => s.time < time || (s.time === time && s.input !== id)),
+      { time, input: id, value: 1 - current },
+    ]);
+    setIsPlaying(true);
+  };
+
+  const stepForward = () => {
+    setIsPlaying(false);
+    setTime(eventTimes.find((t) => t > time) ?? horizon);
+  };
+
+  const stepBack = () => {
+    setIsPlaying(false);
+    setTime([...eventTimes].reverse().find((t) => t < time) ?? 0);
+  };
+
+  const flagged = new Set([...issues.map((i) => i.nodeId), ...hazards.map((h) => h.node)]);
+  const byId = new Map(circuit.nodes.map((n) => [n.id, n]));
+  const eventsNow = trace.events.filter((e) => e.time === time);
+  const traced = circuit.nodes.filter(
+    (n) => n.kind === "input" || n.kind === "output" || (showInternal && n.kind === "gate")
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Presets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-[#71717a] font-medium">Circuits:</span>
+        {LAB_PRESETS.map((p) => (
+          <button
+            key={p.key}
+            onClick={() => loadPreset(p)}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+            style={{
+              background: presetKey === p.key ? "rgba(99,102,241,0.12)" : "transparent",
+              color: presetKey === p.key ? COLORS.primary : COLORS.muted,
+              border: presetKey === p.key ? "1px solid rgba(99,102,241,0.2)" : "1px solid transparent",
+            }}
+          >
+            {p.label}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          onClick={runSweep}
+          disabled={inputs.length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-[#06b6d4] bg-[#06b6d4]/10 border border-[#06b6d4]/20 hover:bg-[#06b6d4]/15 disabled:opacity-40 transition-colors"
+          title="Step through every input combination, one input change at a time"
+        >
+          <Shuffle size={12} />
+          Gray-code Sweep
+        </button>
+        <button
+          onClick={() => {
+            setStimuli([]);
+            setTime(0);
+            setIsPlaying(false);
+          }}
+          disabled={stimuli.length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-[#a1a1aa] bg-[#1e1e2e] hover:text-white disabled:opacity-40 transition-colors"
+        >
+          <Eraser size={12} />
+          Clear Changes
+        </button>
+      </div>
+      {preset && <p className="text-xs text-[#a1a1aa]">{preset.description}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-4">
+          {/* Canvas */}
+          <div className="rounded-2xl p-4" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <PenTool size={14} style={{ color: COLORS.primary }} />
+                <span className="text-sm font-semibold text-white">Schematic</span>
+              </div>
+              <span className="text-[10px] font-mono" style={{ color: COLORS.muted }}>
+                click an input to toggle it at t={time}
+              </span>
+            </div>
+            <SchematicEditor
+              circuit={circuit}
+              onChange={(next) => {
+                setCircuit(next);
+                setPresetKey("custom");
+              }}
+              values={values}
+              onToggleInput={toggleInput}
+              flagged={flagged}
+              maxInputs={MAX_TABLE_INPUTS}
+            />
+          </div>
+
+          {/* Timing trace */}
+          <div className="rounded-2xl p-4" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <Waves size={14} style={{ color: COLORS.secondary }} />
+                <span className="text-sm font-semibold text-white">Timing Trace</span>
+              </div>
+              <label className="flex items-center gap-1.5 text-[11px] text-[#a1a1aa] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showInternal}
+                  onChange={(e) => setShowInternal(e.target.checked)}
+                  className="accent-[#6366f1]"
+                />
+                Internal nets
+              </label>
+            </div>
+            <TimingTrace
+              signals={traced.map((n) => ({
+                id: n.id,
+                label: n.kind === "gate" ? n.id : n.name,
+                waveform: trace.waveforms[n.id] ?? [],
+                color: n.kind === "input" ? COLORS.accent : n.kind === "output" ? COLORS.success : COLORS.secondary,
+              }))}
+              end={horizon}
+              hazards={hazards}
+              cursor={time}
+              onSeek={(t) => {
+                setIsPlaying(false);
+                setTime(Math.min(horizon, t));
+              }}
+            />
+            {trace.truncated && (
+              <p className="mt-2 text-[11px]" style={{ color: COLORS.danger }}>
+                The circuit kept switching and the simulation stopped early. A feedback loop is oscillating.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {/* Truth table */}
+          <div className="rounded-xl overflow-hidden" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+            <div className="px-4 py-2.5 border-b flex items-center justify-between" style={{ borderColor: COLORS.border }}>
+              <div className="flex items-center gap-2">
+                <Table2 size={14} style={{ color: COLORS.secondary }} />
+                <span className="text-sm font-semibold text-white">Truth Table</span>
+              </div>
+              <span className="text-[10px] font-mono" style={{ color: COLORS.muted }}>
+                {table ? `${table.length} rows` : "n/a"}
+              </span>
+            </div>
+            {table ? (
+              <div className="overflow-x-auto overflow-y-auto" style={{ maxHeight: "320px" }}>
+                <table className="w-full text-[11px]">
+                  <thead>
+                    <tr className="border-b" style={{ borderColor: COLORS.border }}>
+                      {inputs.map((n) => (
+                        <th key={n.id} className="px-2 py-1.5 text-center font-mono font-medium" style={{ color: COLORS.accent }}>
+                          {n.name}
+                        </th>
+                      ))}
+                      <th className="px-1 py-1.5 text-center" style={{ color: COLORS.border }}>|</th>
+                      {outputs.map((n) => (
+                        <th key={n.id} className="px-2 py-1.5 text-center font-mono font-medium" style={{ color: COLORS.success }}>
+                          {n.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.map((entry, idx) => {
+                      const isActive = entry.inputs.every((v, i) => v === currentInputs[i]);
+                      return (
+                        <tr
+                          key={idx}
+                          className="border-b"
+                          style={{
+                            borderColor: `${COLORS.border}50`,
+                            background: isActive ? "rgba(99,102,241,0.08)" : "transparent",
+                          }}
+                        >
+                          {entry.inputs.map((val, i) => (
+                            <td key={i} className="px-2 py-1 text-center font-mono font-bold" style={{ color: val ? COLORS.wireHigh : COLORS.wireLow }}>
+                              {val}
+                            </td>
+                          ))}
+                          <td className="px-1 py-1 text-center" style={{ color: COLORS.border }}>|</td>
+                          {entry.outputs.map((val, i) => (
+                            <td key={i} className="px-2 py-1 text-center font-mono font-bold" style={{ color: val ? COLORS.wireHigh : COLORS.wireLow }}>
+                              {val}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="px-4 py-3 text-xs" style={{ color: COLORS.muted }}>
+                {hasLoops
+                  ? "Circuits with feedback loops have state, so they have no truth table."
+                  : `Truth tables are shown for up to ${MAX_TABLE_INPUTS} inputs.`}
+              </p>
+            )}
+          </div>
+
+          {/* Hazards and issues */}
+          <div className="rounded-xl p-4 space-y-3" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+            <div className="flex items-center gap-2">
+              <AlertTriangle size={14} style={{ color: COLORS.accent }} />
+              <span className="text-sm font-semibold text-white">Hazards & Checks</span>
+            </div>
+            {hazards.length === 0 && issues.length === 0 && (
+              <p className="text-xs" style={{ color: COLORS.muted }}>
+                No glitches on the outputs for these input changes, and every pin is driven.
+              </p>
+            )}
+            {hazards.map((h) => (
+              <button
+                key={`${h.node}-${h.start}`}
+                onClick={() => {
+                  setIsPlaying(false);
+                  setTime(h.start);
+                }}
+                className="block w-full text-left text-xs rounded-lg px-3 py-2 bg-[#ef4444]/5 border border-[#ef4444]/20 hover:border-[#ef4444]/40 transition-colors"
+              >
+                <span className="font-mono font-semibold" style={{ color: COLORS.danger }}>
+                  {h.kind}
+                </span>{" "}
+                <span className="text-[#a1a1aa]">
+                  {byId.get(h.node) ? labNodeName(byId.get(h.node)!) : h.node} {HAZARD_TEXT[h.kind]} at t={h.start}
+                  {h.end > h.start ? `–${h.end}` : ""}
+                </span>
+              </button>
+            ))}
+            {issues.map((issue, i) => (
+              <div key={i} className="text-xs text-[#a1a1aa] flex gap-2">
+                <span style={{ color: COLORS.accent }}>•</span>
+                {issue.message}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <ModuleControls
+        isPlaying={isPlaying}
+        completed={stimuli.length > 0 && time >= horizon}
+        onPlay={() => {
+          if (time >= horizon) setTime(0);
+          setIsPlaying(true);
+        }}
+        onPause={() => setIsPlaying(false)}
+        onStep={stepForward}
+        onStepBack={stepBack}
+        canStepBack={time > 0}
+        onReset={() => {
+          setIsPlaying(false);
+          setTime(0);
+        }}
+        speed={speed}
+        onSpeedChange={setSpeed}
+        showMetrics={showMetrics}
+        onToggleMetrics={() => setShowMetrics(!showMetrics)}
+        timeline={{
+          position: time,
+          length: horizon + 1,
+          onSeek: (t) => {
+            setIsPlaying(false);
+            setTime(t);
+          },
+        }}
+        description={
+          eventsNow.length > 0
+            ? `t=${time}: ${eventsNow.map((e) => `${labNodeName(byId.get(e.node)!)} → ${e.value}`).join(", ")}`
+            : `t=${time}`
+        }
+      />
+
+      <MetricsPanel
+        visible={showMetrics}
+        metrics={[
+          { label: "Time", value: `${time} / ${horizon}` },
+          { label: "Gates", value: circuit.nodes.filter((n) => n.kind === "gate").length },
+          { label: "Critical Path", value: `${critical.delay}`, color: COLORS.secondary },
+          { label: "Events", value: trace.events.length },
+          { label: "Hazards", value: hazards.length, color: hazards.length ? COLORS.danger : COLORS.success },
+        ]}
+      />
+    </div>
+  );
+}
+
 // ─── Main page component ──────────────────────────────────────────────────────
 
 export default function CombinationalPage() {
@@ -653,6 +1174,7 @@ export default function CombinationalPage() {
   const [speed, setSpeed] = useState(1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  const [mode, setMode] = useState<"library" | "schematic">("library");
 
   // ── Metrics state ─────────────────────────────────────────────────────────
   const [stepCount, setStepCount] = useState(0);
@@ -680,6 +1202,11 @@ export default function CombinationalPage() {
   // ── Derived values ────────────────────────────────────────────────────────
   const currentCircuitInfo = CIRCUITS[selectedCircuit];
   const maxPropagation = currentCircuitInfo.gateDelay + 1; // +1 for output phase
+  const stepDescription =
+    propagationStep >= maxPropagation
+      ? `${currentCircuitInfo.label}: ${currentCircuitInfo.inputLabels.map((l, i) => `${l}=${inputs[i]}`).join(", ")} gives ` +
+        currentCircuitInfo.outputLabels.map((l, i) => `${l}=${outputs[i]}`).join(", ")
+      : undefined;
 
   // ── Input toggling ────────────────────────────────────────────────────────
   const handleToggleInput = useCallback(
@@ -862,6 +1389,8 @@ export default function CombinationalPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedScenario]);
 
+  useScenarioParam(SCENARIOS.map((s) => s.key), setSelectedScenario);
+
   // ── Render ────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen" style={{ background: COLORS.bg }}>
@@ -871,6 +1400,7 @@ export default function CombinationalPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -895,6 +1425,7 @@ export default function CombinationalPage() {
               Explore circuits where the output depends only on the current inputs. Watch signals propagate through
               multiplexers, decoders, and adders -- the building blocks that route data and perform arithmetic in every processor.
             </p>
+            <ModuleLinks moduleId="1.3" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -921,509 +1452,545 @@ export default function CombinationalPage() {
             </div>
           </motion.div>
 
-          {/* ── Scenario selector ─────────────────────────────────────── */}
-          <motion.div
-            initial={{ opacity: 0, y: 12 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.1, ease: [0.23, 1, 0.32, 1] }}
-            className="flex flex-wrap items-center gap-3 mb-4"
-          >
-            <span className="text-xs text-[#71717a] font-medium">Scenarios:</span>
-            {SCENARIOS.map((scenario) => (
+          {/* ── Mode ──────────────────────────────────────────────────── */}
+          <div className="flex items-center gap-1 p-1 mb-4 rounded-lg w-fit" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+            {(
+              [
+                ["library", "Circuit Library", CircuitBoard],
+                ["schematic", "Schematic Editor", PenTool],
+              ] as const
+            ).map(([key, label, Icon]) => (
               <button
-                key={scenario.key}
-                onClick={() => setSelectedScenario(scenario.key)}
-                className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+                key={key}
+                onClick={() => {
+                  handlePause();
+                  setMode(key);
+                }}
+                aria-pressed={mode === key}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all duration-200"
                 style={{
-                  background: selectedScenario === scenario.key ? "rgba(99,102,241,0.12)" : "transparent",
-                  color: selectedScenario === scenario.key ? COLORS.primary : COLORS.muted,
-                  border: selectedScenario === scenario.key ? "1px solid rgba(99,102,241,0.2)" : "1px solid transparent",
+                  background: mode === key ? "rgba(99,102,241,0.15)" : "transparent",
+                  color: mode === key ? COLORS.primary : COLORS.muted,
                 }}
               >
-                {scenario.label}
+                <Icon size={12} />
+                {label}
               </button>
             ))}
+          </div>
 
-            <div className="flex-1" />
-
-            {/* Circuit selector buttons */}
-            <div className="flex items-center gap-1 flex-wrap">
-              {CIRCUIT_KEYS.map((circuit) => (
-                <button
-                  key={circuit}
-                  onClick={() => handleSelectCircuit(circuit)}
-                  className="px-2.5 py-1.5 rounded-lg text-[11px] font-mono font-semibold transition-all duration-200 hover:scale-[1.02] active:scale-[0.98]"
-                  style={{
-                    background: selectedCircuit === circuit ? "rgba(99,102,241,0.15)" : COLORS.card,
-                    color: selectedCircuit === circuit ? COLORS.primary : "#a1a1aa",
-                    border: selectedCircuit === circuit ? "1px solid rgba(99,102,241,0.3)" : `1px solid ${COLORS.border}`,
-                  }}
-                >
-                  {CIRCUITS[circuit].shortLabel}
-                </button>
-              ))}
-            </div>
-          </motion.div>
-
-          {/* ── Main visualization area ───────────────────────────────── */}
-          <motion.div
-            initial={{ opacity: 0, y: 16 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6, delay: 0.2, ease: [0.23, 1, 0.32, 1] }}
-            className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4"
-          >
-            {/* Circuit visualization */}
-            <div
-              className="lg:col-span-2 rounded-2xl overflow-hidden relative"
-              style={{
-                background: COLORS.card,
-                border: `1px solid ${COLORS.border}`,
-                boxShadow: "0 0 0 1px rgba(99,102,241,0.03), 0 20px 50px -12px rgba(0,0,0,0.5)",
-              }}
-            >
-              {/* Header */}
-              <div className="flex items-center justify-between px-5 py-3 border-b" style={{ borderColor: COLORS.border }}>
-                <div className="flex items-center gap-2">
-                  <CircuitBoard size={14} style={{ color: COLORS.primary }} />
-                  <span className="text-sm font-semibold text-white">{currentCircuitInfo.label}</span>
-                </div>
-                <div className="flex items-center gap-3">
-                  <span className="text-xs font-mono" style={{ color: COLORS.secondary }}>
-                    Gate Delay: {currentCircuitInfo.gateDelay}
-                  </span>
-                  <span className="text-xs font-mono" style={{ color: COLORS.muted }}>
-                    {currentCircuitInfo.inputLabels.length} in / {currentCircuitInfo.outputLabels.length} out
-                  </span>
-                </div>
-              </div>
+          {mode === "schematic" ? (
+            <SchematicLab />
+          ) : (
+            <>
+              {/* ── Scenario selector ─────────────────────────────────────── */}
+              <motion.div
+                initial={{ opacity: 0, y: 12 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.1, ease: [0.23, 1, 0.32, 1] }}
+                className="flex flex-wrap items-center gap-3 mb-4"
+              >
+                <span className="text-xs text-[#71717a] font-medium">Scenarios:</span>
+                {SCENARIOS.map((scenario) => (
+                  <button
+                    key={scenario.key}
+                    onClick={() => setSelectedScenario(scenario.key)}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+                    style={{
+                      background: selectedScenario === scenario.key ? "rgba(99,102,241,0.12)" : "transparent",
+                      color: selectedScenario === scenario.key ? COLORS.primary : COLORS.muted,
+                      border: selectedScenario === scenario.key ? "1px solid rgba(99,102,241,0.2)" : "1px solid transparent",
+                    }}
+                  >
+                    {scenario.label}
+                  </button>
+                ))}
 
-              {/* Diagram */}
-              <div className="px-6 py-4">
-                <CircuitDiagram
-                  circuit={selectedCircuit}
-                  inputs={inputs}
-                  outputs={outputs}
-                  propagationStep={propagationStep}
-                  maxPropagation={maxPropagation}
-                />
-              </div>
+                <div className="flex-1" />
 
-              {/* Input toggles */}
-              <div className="flex items-center justify-center gap-3 flex-wrap px-5 py-4 border-t" style={{ borderColor: COLORS.border }}>
-                {currentCircuitInfo.inputLabels.map((label, idx) => {
-                  const isMux = selectedCircuit === "MUX_2_1" || selectedCircuit === "MUX_4_1";
-                  const dataCount = selectedCircuit === "MUX_2_1" ? 2 : selectedCircuit === "MUX_4_1" ? 4 : 0;
-                  const isSelect = isMux && idx >= dataCount;
-                  const isEnable = (selectedCircuit === "DECODER_2_4" || selectedCircuit === "DECODER_3_8") && label === "E";
-
-                  const btnColor = isSelect
-                    ? COLORS.secondary
-                    : isEnable
-                    ? COLORS.accent
-                    : inputs[idx]
-                    ? COLORS.wireHigh
-                    : COLORS.wireLow;
-
-                  return (
+                {/* Circuit selector buttons */}
+                <div className="flex items-center gap-1 flex-wrap">
+                  {CIRCUIT_KEYS.map((circuit) => (
                     <button
-                      key={label}
-                      onClick={() => handleToggleInput(idx)}
-                      className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium transition-all duration-200 hover:scale-[1.02] active:scale-[0.98]"
+                      key={circuit}
+                      onClick={() => handleSelectCircuit(circuit)}
+                      className="px-2.5 py-1.5 rounded-lg text-[11px] font-mono font-semibold transition-all duration-200 hover:scale-[1.02] active:scale-[0.98]"
                       style={{
-                        background: inputs[idx]
-                          ? isSelect
-                            ? "rgba(6,182,212,0.1)"
-                            : isEnable
-                            ? "rgba(245,158,11,0.1)"
-                            : "rgba(16,185,129,0.1)"
-                          : "rgba(113,113,122,0.08)",
-                        border: `1px solid ${inputs[idx]
-                          ? isSelect
-                            ? "rgba(6,182,212,0.3)"
-                            : isEnable
-                            ? "rgba(245,158,11,0.3)"
-                            : "rgba(16,185,129,0.3)"
-                          : "rgba(113,113,122,0.15)"
-                        }`,
-                        color: btnColor,
+                        background: selectedCircuit === circuit ? "rgba(99,102,241,0.15)" : COLORS.card,
+                        color: selectedCircuit === circuit ? COLORS.primary : "#a1a1aa",
+                        border: selectedCircuit === circuit ? "1px solid rgba(99,102,241,0.3)" : `1px solid ${COLORS.border}`,
                       }}
                     >
-                      {inputs[idx] ? <ToggleRight size={14} /> : <ToggleLeft size={14} />}
-                      {label}: {inputs[idx]}
+                      {CIRCUITS[circuit].shortLabel}
                     </button>
-                  );
-                })}
-
-                <div className="w-px h-6" style={{ backgroundColor: COLORS.border }} />
+                  ))}
+                </div>
+              </motion.div>
 
-                {/* Output display */}
-                {currentCircuitInfo.outputLabels.map((label, idx) => (
-                  <div
-                    key={label}
-                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-mono font-bold"
-                    style={{
-                      background: outputs[idx] ? "rgba(16,185,129,0.12)" : "rgba(113,113,122,0.06)",
-                      border: `1px solid ${outputs[idx] ? "rgba(16,185,129,0.25)" : "rgba(113,113,122,0.12)"}`,
-                      color: outputs[idx] ? COLORS.wireHigh : COLORS.wireLow,
-                    }}
-                  >
-                    <Activity size={12} />
-                    {label}: {outputs[idx]}
+              {/* ── Main visualization area ───────────────────────────────── */}
+              <motion.div
+                initial={{ opacity: 0, y: 16 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.6, delay: 0.2, ease: [0.23, 1, 0.32, 1] }}
+                className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4"
+              >
+                {/* Circuit visualization */}
+                <div
+                  className="lg:col-span-2 rounded-2xl overflow-hidden relative"
+                  style={{
+                    background: COLORS.card,
+                    border: `1px solid ${COLORS.border}`,
+                    boxShadow: "0 0 0 1px rgba(99,102,241,0.03), 0 20px 50px -12px rgba(0,0,0,0.5)",
+                  }}
+                >
+                  {/* Header */}
+                  <div className="flex items-center justify-between px-5 py-3 border-b" style={{ borderColor: COLORS.border }}>
+                    <div className="flex items-center gap-2">
+                      <CircuitBoard size={14} style={{ color: COLORS.primary }} />
+                      <span className="text-sm font-semibold text-white">{currentCircuitInfo.label}</span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs font-mono" style={{ color: COLORS.secondary }}>
+                        Gate Delay: {currentCircuitInfo.gateDelay}
+                      </span>
+                      <span className="text-xs font-mono" style={{ color: COLORS.muted }}>
+                        {currentCircuitInfo.inputLabels.length} in / {currentCircuitInfo.outputLabels.length} out
+                      </span>
+                    </div>
                   </div>
-                ))}
-              </div>
 
-              {/* Metrics overlay */}
-              <AnimatePresence>
-                {showMetrics && (
-                  <motion.div
-                    initial={{ opacity: 0, y: 8 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 8 }}
-                    transition={{ duration: 0.2 }}
-                    className="absolute top-14 right-3 flex gap-2"
-                  >
-                    <MetricBadge
-                      icon={<Hash size={12} />}
-                      label="Input Combo"
-                      value={`${combinationIndex} / ${Math.pow(2, currentCircuitInfo.inputLabels.length)}`}
-                      color={COLORS.accent}
-                    />
-                    <MetricBadge
-                      icon={<Timer size={12} />}
-                      label="Gate Delay"
-                      value={currentCircuitInfo.gateDelay}
-                      color={COLORS.secondary}
+                  {/* Diagram */}
+                  <div className="px-6 py-4">
+                    <CircuitDiagram
+                      circuit={selectedCircuit}
+                      inputs={inputs}
+                      outputs={outputs}
+                      propagationStep={propagationStep}
+                      maxPropagation={maxPropagation}
                     />
-                    <MetricBadge
-                      icon={<Layers size={12} />}
-                      label="Prop. Steps"
-                      value={stepCount}
-                      color={COLORS.primary}
-                    />
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </div>
-
-            {/* Right panel: truth table + info */}
-            <div className="lg:col-span-1 space-y-3">
-              <TruthTableDisplay
-                circuit={selectedCircuit}
-                currentInputs={inputs}
-                highlight={propagationStep >= maxPropagation}
-              />
-
-              {/* Circuit info card */}
-              <div className="rounded-xl p-3" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
-                <div className="flex items-center gap-2 mb-2">
-                  <Lightbulb size={12} style={{ color: COLORS.accent }} />
-                  <span className="text-xs font-semibold text-white">Signal Legend</span>
-                </div>
-                <div className="flex flex-wrap gap-3">
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-6 h-[3px] rounded-full" style={{ backgroundColor: COLORS.wireHigh }} />
-                    <span className="text-[11px]" style={{ color: COLORS.muted }}>High (1)</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-6 h-[3px] rounded-full" style={{ backgroundColor: COLORS.wireLow }} />
-                    <span className="text-[11px]" style={{ color: COLORS.muted }}>Low (0)</span>
                   </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-6 h-[3px] rounded-full" style={{ backgroundColor: "#2a2a3e" }} />
-                    <span className="text-[11px]" style={{ color: COLORS.muted }}>Inactive</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: COLORS.secondary }} />
-                    <span className="text-[11px]" style={{ color: COLORS.muted }}>Select</span>
-                  </div>
-                </div>
-              </div>
 
-              {/* Quick circuit selector */}
-              <div className="rounded-xl overflow-hidden" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
-                <div className="px-4 py-2.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
-                  <CircuitBoard size={12} style={{ color: COLORS.primary }} />
-                  <span className="text-xs font-semibold text-white">All Circuits</span>
-                </div>
-                <div className="p-2">
-                  {CIRCUIT_KEYS.map((circuit) => {
-                    const cInfo = CIRCUITS[circuit];
-                    const isActive = circuit === selectedCircuit;
-                    return (
-                      <button
-                        key={circuit}
-                        onClick={() => handleSelectCircuit(circuit)}
-                        className="w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-left transition-all duration-150"
+                  {/* Input toggles */}
+                  <div className="flex items-center justify-center gap-3 flex-wrap px-5 py-4 border-t" style={{ borderColor: COLORS.border }}>
+                    {currentCircuitInfo.inputLabels.map((label, idx) => {
+                      const isMux = selectedCircuit === "MUX_2_1" || selectedCircuit === "MUX_4_1";
+                      const dataCount = selectedCircuit === "MUX_2_1" ? 2 : selectedCircuit === "MUX_4_1" ? 4 : 0;
+                      const isSelect = isMux && idx >= dataCount;
+                      const isEnable = (selectedCircuit === "DECODER_2_4" || selectedCircuit === "DECODER_3_8") && label === "E";
+
+                      const btnColor = isSelect
+                        ? COLORS.secondary
+                        : isEnable
+                        ? COLORS.accent
+                        : inputs[idx]
+                        ? COLORS.wireHigh
+                        : COLORS.wireLow;
+
+                      return (
+                        <button
+                          key={label}
+                          onClick={() => handleToggleInput(idx)}
+                          className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium transition-all duration-200 hover:scale-[1.02] active:scale-[0.98]"
+                          style={{
+                            background: inputs[idx]
+                              ? isSelect
+                                ? "rgba(6,182,212,0.1)"
+                                : isEnable
+                                ? "rgba(245,158,11,0.1)"
+                                : "rgba(16,185,129,0.1)"
+                              : "rgba(113,113,122,0.08)",
+                            border: `1px solid ${inputs[idx]
+                              ? isSelect
+                                ? "rgba(6,182,212,0.3)"
+                                : isEnable
+                                ? "rgba(245,158,11,0.3)"
+                                : "rgba(16,185,129,0.3)"
+                              : "rgba(113,113,122,0.15)"
+                            }`,
+                            color: btnColor,
+                          }}
+                        >
+                          {inputs[idx] ? <ToggleRight size={14} /> : <ToggleLeft size={14} />}
+                          {label}: {inputs[idx]}
+                        </button>
+                      );
+                    })}
+
+                    <div className="w-px h-6" style={{ backgroundColor: COLORS.border }} />
+
+                    {/* Output display */}
+                    {currentCircuitInfo.outputLabels.map((label, idx) => (
+                      <div
+                        key={label}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-mono font-bold"
                         style={{
-                          background: isActive ? "rgba(99,102,241,0.08)" : "transparent",
-                          color: isActive ? COLORS.primary : "#a1a1aa",
+                          background: outputs[idx] ? "rgba(16,185,129,0.12)" : "rgba(113,113,122,0.06)",
+                          border: `1px solid ${outputs[idx] ? "rgba(16,185,129,0.25)" : "rgba(113,113,122,0.12)"}`,
+                          color: outputs[idx] ? COLORS.wireHigh : COLORS.wireLow,
                         }}
                       >
-                        <span className="text-xs font-semibold">{cInfo.shortLabel}</span>
-                        <span className="text-[9px] font-mono" style={{ color: COLORS.muted }}>
-                          {cInfo.inputLabels.length}in/{cInfo.outputLabels.length}out
-                        </span>
-                      </button>
-                    );
-                  })}
-                </div>
-              </div>
-            </div>
-          </motion.div>
-
-          {/* ── Controls panel ────────────────────────────────────────── */}
-          <motion.div
-            initial={{ opacity: 0, y: 12 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
-          >
-            <ModuleControls
-              isPlaying={isPlaying}
-              onPlay={handlePlay}
-              onPause={handlePause}
-              onStep={handleStep}
-              onReset={handleReset}
-              speed={speed}
-              onSpeedChange={setSpeed}
-              showMetrics={showMetrics}
-              onToggleMetrics={() => setShowMetrics(!showMetrics)}
-            >
-              <AnimatePresence>
-                {isComplete && (
-                  <motion.div
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    exit={{ opacity: 0, scale: 0.9 }}
-                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg"
-                    style={{
-                      background: "rgba(16,185,129,0.1)",
-                      border: "1px solid rgba(16,185,129,0.2)",
-                    }}
-                  >
-                    <div className="w-1.5 h-1.5 rounded-full bg-[#10b981]" />
-                    <span className="text-xs font-medium text-[#10b981]">All combinations tested</span>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </ModuleControls>
-          </motion.div>
-
-          {/* ── Educational info panel ────────────────────────────────── */}
-          <motion.div
-            initial={{ opacity: 0, y: 12 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.4, ease: [0.23, 1, 0.32, 1] }}
-            className="mt-6 rounded-2xl overflow-hidden"
-            style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
-          >
-            <div className="px-5 py-3.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
-              <Info size={14} style={{ color: COLORS.primary }} />
-              <span className="text-sm font-semibold text-white">
-                Understanding the {currentCircuitInfo.label}
-              </span>
-            </div>
-
-            <div className="p-5 space-y-4">
-              {/* Description */}
-              <div>
-                <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: COLORS.secondary }}>
-                  How It Works
-                </h3>
-                <p className="text-sm leading-relaxed" style={{ color: "#a1a1aa" }}>
-                  {currentCircuitInfo.description}
-                </p>
-              </div>
-
-              {/* Computation details */}
-              <div>
-                <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: COLORS.accent }}>
-                  Current Computation
-                </h3>
-                <div
-                  className="rounded-xl p-4 font-mono text-sm"
-                  style={{ background: "rgba(245,158,11,0.05)", border: "1px solid rgba(245,158,11,0.1)" }}
-                >
-                  <div className="flex flex-wrap gap-4">
-                    <div>
-                      <span style={{ color: COLORS.muted }}>Inputs: </span>
-                      {currentCircuitInfo.inputLabels.map((label, idx) => (
-                        <span key={label}>
-                          <span style={{ color: COLORS.accent }}>{label}</span>
-                          <span style={{ color: inputs[idx] ? COLORS.wireHigh : COLORS.wireLow }}>={inputs[idx]}</span>
-                          {idx < currentCircuitInfo.inputLabels.length - 1 && <span style={{ color: COLORS.muted }}>, </span>}
-                        </span>
-                      ))}
-                    </div>
-                    <div>
-                      <span style={{ color: COLORS.muted }}>Outputs: </span>
-                      {currentCircuitInfo.outputLabels.map((label, idx) => (
-                        <span key={label}>
-                          <span style={{ color: COLORS.success }}>{label}</span>
-                          <span style={{ color: outputs[idx] ? COLORS.wireHigh : COLORS.wireLow }}>={outputs[idx]}</span>
-                          {idx < currentCircuitInfo.outputLabels.length - 1 && <span style={{ color: COLORS.muted }}>, </span>}
-                        </span>
-                      ))}
-                    </div>
+                        <Activity size={12} />
+                        {label}: {outputs[idx]}
+                      </div>
+                    ))}
                   </div>
 
-                  {/* Circuit-specific explanation */}
-                  <div className="mt-3 text-xs" style={{ color: "#a1a1aa" }}>
-                    {(selectedCircuit === "MUX_2_1" || selectedCircuit === "MUX_4_1") && (
-                      <>
-                        Select lines choose input D
-                        {selectedCircuit === "MUX_2_1"
-                          ? inputs[2]
-                          : inputs[5] * 2 + inputs[4]}
-                        {" = "}
-                        <span style={{ color: COLORS.wireHigh }}>
-                          {selectedCircuit === "MUX_2_1"
-                            ? inputs[inputs[2]]
-                            : inputs[inputs[5] * 2 + inputs[4]]}
-                        </span>
-                        {" as output"}
-                      </>
-                    )}
-                    {selectedCircuit === "DECODER_2_4" && (
-                      <>
-                        {inputs[2] === 1
-                          ? `Enable=1, binary input ${inputs[1]}${inputs[0]} = ${inputs[1] * 2 + inputs[0]}, so Y${inputs[1] * 2 + inputs[0]}=1`
-                          : "Enable=0, all outputs disabled"}
-                      </>
-                    )}
-                    {selectedCircuit === "DECODER_3_8" && (
-                      <>
-                        {inputs[3] === 1
-                          ? `Enable=1, binary input ${inputs[2]}${inputs[1]}${inputs[0]} = ${inputs[2] * 4 + inputs[1] * 2 + inputs[0]}, so Y${inputs[2] * 4 + inputs[1] * 2 + inputs[0]}=1`
-                          : "Enable=0, all outputs disabled"}
-                      </>
-                    )}
-                    {selectedCircuit === "HALF_ADDER" && (
-                      <>
-                        {inputs[0]} + {inputs[1]} = Sum:{inputs[0] ^ inputs[1]}, Carry:{inputs[0] & inputs[1]}
-                        {" (decimal: "}
-                        {inputs[0] + inputs[1]}
-                        {")"}
-                      </>
-                    )}
-                    {selectedCircuit === "FULL_ADDER" && (
-                      <>
-                        {inputs[0]} + {inputs[1]} + Cin:{inputs[2]} = Sum:{inputs[0] ^ inputs[1] ^ inputs[2]},
-                        Cout:{((inputs[0] & inputs[1]) | (inputs[1] & inputs[2]) | (inputs[0] & inputs[2]))}
-                        {" (decimal: "}
-                        {inputs[0] + inputs[1] + inputs[2]}
-                        {")"}
-                      </>
+                  {/* Metrics overlay */}
+                  <AnimatePresence>
+                    {showMetrics && (
+                      <motion.div
+                        initial={{ opacity: 0, y: 8 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 8 }}
+                        transition={{ duration: 0.2 }}
+                        className="absolute top-14 right-3 flex gap-2"
+                      >
+                        <MetricBadge
+                          icon={<Hash size={12} />}
+                          label="Input Combo"
+                          value={`${combinationIndex} / ${Math.pow(2, currentCircuitInfo.inputLabels.length)}`}
+                          color={COLORS.accent}
+                        />
+                        <MetricBadge
+                          icon={<Timer size={12} />}
+                          label="Gate Delay"
+                          value={currentCircuitInfo.gateDelay}
+                          color={COLORS.secondary}
+                        />
+                        <MetricBadge
+                          icon={<Layers size={12} />}
+                          label="Prop. Steps"
+                          value={stepCount}
+                          color={COLORS.primary}
+                        />
+                      </motion.div>
                     )}
-                  </div>
+                  </AnimatePresence>
                 </div>
-              </div>
 
-              {/* Real-world uses */}
-              <div>
-                <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: COLORS.success }}>
-                  Real-World Applications
-                </h3>
-                <p className="text-sm leading-relaxed" style={{ color: "#a1a1aa" }}>
-                  {currentCircuitInfo.realWorld}
-                </p>
-              </div>
-
-              {/* Key insight */}
-              <div
-                className="rounded-xl p-4"
-                style={{
-                  background: "rgba(99,102,241,0.05)",
-                  border: "1px solid rgba(99,102,241,0.1)",
-                }}
-              >
-                <div className="flex items-start gap-2">
-                  <Lightbulb size={16} className="mt-0.5 flex-shrink-0" style={{ color: COLORS.primary }} />
-                  <div>
-                    <span className="text-xs font-semibold text-white block mb-1">Key Insight</span>
-                    <span className="text-xs leading-relaxed" style={{ color: "#a1a1aa" }}>
-                      {selectedCircuit === "MUX_2_1"
-                        ? "A 2:1 MUX can implement ANY single-variable Boolean function. The select line acts as the variable, and the data inputs define the function's output for each value. This is why FPGAs use MUX-based lookup tables."
-                        : selectedCircuit === "MUX_4_1"
-                        ? "A 4:1 MUX can implement ANY two-variable Boolean function without additional gates. Set the data inputs to the desired truth table outputs and use the select lines as variables. This is the basis of FPGA LUT architecture."
-                        : selectedCircuit === "DECODER_2_4"
-                        ? "A decoder generates all minterms of its input variables. Combined with OR gates, a decoder can implement ANY Boolean function. This 'decoder + OR' approach is a systematic way to build any combinational circuit."
-                        : selectedCircuit === "DECODER_3_8"
-                        ? "Larger decoders are built hierarchically. A 3:8 decoder uses two 2:4 decoders where the extra input controls which sub-decoder is enabled. This tree structure scales to any size needed for memory systems."
-                        : selectedCircuit === "HALF_ADDER"
-                        ? "The half adder reveals a fundamental relationship: addition at the bit level is just XOR (for the sum) and AND (for the carry). This is why XOR gates are essential in arithmetic circuits."
-                        : "The full adder is the core of all multi-bit arithmetic. Chain N full adders, connecting each Cout to the next Cin, to create an N-bit ripple-carry adder. The propagation delay grows linearly, which is why real CPUs use carry-lookahead adders for speed."}
-                    </span>
+                {/* Right panel: truth table + info */}
+                <div className="lg:col-span-1 space-y-3">
+                  <TruthTableDisplay
+                    circuit={selectedCircuit}
+                    currentInputs={inputs}
+                    highlight={propagationStep >= maxPropagation}
+                  />
+
+                  {/* Circuit info card */}
+                  <div className="rounded-xl p-3" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Lightbulb size={12} style={{ color: COLORS.accent }} />
+                      <span className="text-xs font-semibold text-white">Signal Legend</span>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      <div className="flex items-center gap-1.5">
+                        <div className="w-6 h-[3px] rounded-full" style={{ backgroundColor: COLORS.wireHigh }} />
+                        <span className="text-[11px]" style={{ color: COLORS.muted }}>High (1)</span>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <div className="w-6 h-[3px] rounded-full" style={{ backgroundColor: COLORS.wireLow }} />
+                        <span className="text-[11px]" style={{ color: COLORS.muted }}>Low (0)</span>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <div className="w-6 h-[3px] rounded-full" style={{ backgroundColor: "#2a2a3e" }} />
+                        <span className="text-[11px]" style={{ color: COLORS.muted }}>Inactive</span>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: COLORS.secondary }} />
+                        <span className="text-[11px]" style={{ color: COLORS.muted }}>Select</span>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
 
-              {/* Circuit comparison table */}
-              <div>
-                <h3 className="text-xs font-semibold uppercase tracking-wider mb-3" style={{ color: COLORS.muted }}>
-                  Circuit Comparison
-                </h3>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-xs">
-                    <thead>
-                      <tr className="border-b" style={{ borderColor: COLORS.border }}>
-                        <th className="px-3 py-2 text-left font-medium" style={{ color: COLORS.muted }}>Circuit</th>
-                        <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Inputs</th>
-                        <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Outputs</th>
-                        <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Gate Delay</th>
-                        <th className="px-3 py-2 text-left font-medium" style={{ color: COLORS.muted }}>Category</th>
-                      </tr>
-                    </thead>
-                    <tbody>
+                  {/* Quick circuit selector */}
+                  <div className="rounded-xl overflow-hidden" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+                    <div className="px-4 py-2.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
+                      <CircuitBoard size={12} style={{ color: COLORS.primary }} />
+                      <span className="text-xs font-semibold text-white">All Circuits</span>
+                    </div>
+                    <div className="p-2">
                       {CIRCUIT_KEYS.map((circuit) => {
                         const cInfo = CIRCUITS[circuit];
                         const isActive = circuit === selectedCircuit;
-                        const category =
-                          circuit === "MUX_2_1" || circuit === "MUX_4_1"
-                            ? "Data Routing"
-                            : circuit === "DECODER_2_4" || circuit === "DECODER_3_8"
-                            ? "Address Decoding"
-                            : "Arithmetic";
-
                         return (
-                          <tr
+                          <button
                             key={circuit}
-                            className="border-b transition-colors duration-150 cursor-pointer"
+                            onClick={() => handleSelectCircuit(circuit)}
+                            className="w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-left transition-all duration-150"
                             style={{
-                              borderColor: `${COLORS.border}50`,
-                              background: isActive ? "rgba(99,102,241,0.04)" : "transparent",
+                              background: isActive ? "rgba(99,102,241,0.08)" : "transparent",
+                              color: isActive ? COLORS.primary : "#a1a1aa",
                             }}
-                            onClick={() => handleSelectCircuit(circuit)}
                           >
-                            <td className="px-3 py-2">
-                              <div className="flex items-center gap-2">
-                                {isActive && <div className="w-1.5 h-1.5 rounded-full" style={{ background: COLORS.primary }} />}
-                                <span className="font-semibold" style={{ color: isActive ? "#ffffff" : "#a1a1aa" }}>
-                                  {cInfo.shortLabel}
-                                </span>
-                              </div>
-                            </td>
-                            <td className="px-3 py-2 text-center font-mono" style={{ color: COLORS.accent }}>
-                              {cInfo.inputLabels.length}
-                            </td>
-                            <td className="px-3 py-2 text-center font-mono" style={{ color: COLORS.success }}>
-                              {cInfo.outputLabels.length}
-                            </td>
-                            <td className="px-3 py-2 text-center font-mono" style={{ color: COLORS.secondary }}>
-                              {cInfo.gateDelay}
-                            </td>
-                            <td className="px-3 py-2" style={{ color: "#a1a1aa" }}>
-                              {category}
-                            </td>
-                          </tr>
+                            <span className="text-xs font-semibold">{cInfo.shortLabel}</span>
+                            <span className="text-[9px] font-mono" style={{ color: COLORS.muted }}>
+                              {cInfo.inputLabels.length}in/{cInfo.outputLabels.length}out
+                            </span>
+                          </button>
                         );
                       })}
-                    </tbody>
-                  </table>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          </motion.div>
+              </motion.div>
+
+              {/* ── Controls panel ────────────────────────────────────────── */}
+              <motion.div
+                initial={{ opacity: 0, y: 12 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
+              >
+                <ModuleControls
+                  isPlaying={isPlaying}
+                  completed={isComplete}
+                  shareState={{ scenario: selectedScenario }}
+                  onPlay={handlePlay}
+                  onPause={handlePause}
+                  onStep={handleStep}
+                  onReset={handleReset}
+                  speed={speed}
+                  onSpeedChange={setSpeed}
+                  showMetrics={showMetrics}
+                  onToggleMetrics={() => setShowMetrics(!showMetrics)}
+                  description={stepDescription}
+                >
+                  <AnimatePresence>
+                    {isComplete && (
+                      <motion.div
+                        initial={{ opacity: 0, scale: 0.9 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.9 }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg"
+                        style={{
+                          background: "rgba(16,185,129,0.1)",
+                          border: "1px solid rgba(16,185,129,0.2)",
+                        }}
+                      >
+                        <div className="w-1.5 h-1.5 rounded-full bg-[#10b981]" />
+                        <span className="text-xs font-medium text-[#10b981]">All combinations tested</span>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </ModuleControls>
+              </motion.div>
+
+              {/* ── Educational info panel ────────────────────────────────── */}
+              <motion.div
+                initial={{ opacity: 0, y: 12 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.4, ease: [0.23, 1, 0.32, 1] }}
+                className="mt-6 rounded-2xl overflow-hidden"
+                style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
+              >
+                <div className="px-5 py-3.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
+                  <Info size={14} style={{ color: COLORS.primary }} />
+                  <span className="text-sm font-semibold text-white">
+                    Understanding the {currentCircuitInfo.label}
+                  </span>
+                </div>
+
+                <div className="p-5 space-y-4">
+                  {/* Description */}
+                  <div>
+                    <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: COLORS.secondary }}>
+                      How It Works
+                    </h3>
+                    <p className="text-sm leading-relaxed" style={{ color: "#a1a1aa" }}>
+                      {currentCircuitInfo.description}
+                    </p>
+                  </div>
+
+                  {/* Computation details */}
+                  <div>
+                    <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: COLORS.accent }}>
+                      Current Computation
+                    </h3>
+                    <div
+                      className="rounded-xl p-4 font-mono text-sm"
+                      style={{ background: "rgba(245,158,11,0.05)", border: "1px solid rgba(245,158,11,0.1)" }}
+                    >
+                      <div className="flex flex-wrap gap-4">
+                        <div>
+                          <span style={{ color: COLORS.muted }}>Inputs: </span>
+                          {currentCircuitInfo.inputLabels.map((label, idx) => (
+                            <span key={label}>
+                              <span style={{ color: COLORS.accent }}>{label}</span>
+                              <span style={{ color: inputs[idx] ? COLORS.wireHigh : COLORS.wireLow }}>={inputs[idx]}</span>
+                              {idx < currentCircuitInfo.inputLabels.length - 1 && <span style={{ color: COLORS.muted }}>, </span>}
+                            </span>
+                          ))}
+                        </div>
+                        <div>
+                          <span style={{ color: COLORS.muted }}>Outputs: </span>
+                          {currentCircuitInfo.outputLabels.map((label, idx) => (
+                            <span key={label}>
+                              <span style={{ color: COLORS.success }}>{label}</span>
+                              <span style={{ color: outputs[idx] ? COLORS.wireHigh : COLORS.wireLow }}>={outputs[idx]}</span>
+                              {idx < currentCircuitInfo.outputLabels.length - 1 && <span style={{ color: COLORS.muted }}>, </span>}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Circuit-specific explanation */}
+                      <div className="mt-3 text-xs" style={{ color: "#a1a1aa" }}>
+                        {(selectedCircuit === "MUX_2_1" || selectedCircuit === "MUX_4_1") && (
+                          <>
+                            Select lines choose input D
+                            {selectedCircuit === "MUX_2_1"
+                              ? inputs[2]
+                              : inputs[5] * 2 + inputs[4]}
+                            {" = "}
+                            <span style={{ color: COLORS.wireHigh }}>
+                              {selectedCircuit === "MUX_2_1"
+                                ? inputs[inputs[2]]
+                                : inputs[inputs[5] * 2 + inputs[4]]}
+                            </span>
+                            {" as output"}
+                          </>
+                        )}
+                        {selectedCircuit === "DECODER_2_4" && (
+                          <>
+                            {inputs[2] === 1
+                              ? `Enable=1, binary input ${inputs[1]}${inputs[0]} = ${inputs[1] * 2 + inputs[0]}, so Y${inputs[1] * 2 + inputs[0]}=1`
+                              : "Enable=0, all outputs disabled"}
+                          </>
+                        )}
+                        {selectedCircuit === "DECODER_3_8" && (
+                          <>
+                            {inputs[3] === 1
+                              ? `Enable=1, binary input ${inputs[2]}${inputs[1]}${inputs[0]} = ${inputs[2] * 4 + inputs[1] * 2 + inputs[0]}, so Y${inputs[2] * 4 + inputs[1] * 2 + inputs[0]}=1`
+                              : "Enable=0, all outputs disabled"}
+                          </>
+                        )}
+                        {selectedCircuit === "HALF_ADDER" && (
+                          <>
+                            {inputs[0]} + {inputs[1]} = Sum:{inputs[0] ^ inputs[1]}, Carry:{inputs[0] & inputs[1]}
+                            {" (decimal: "}
+                            {inputs[0] + inputs[1]}
+                            {")"}
+                          </>
+                        )}
+                        {selectedCircuit === "FULL_ADDER" && (
+                          <>
+                            {inputs[0]} + {inputs[1]} + Cin:{inputs[2]} = Sum:{inputs[0] ^ inputs[1] ^ inputs[2]},
+                            Cout:{((inputs[0] & inputs[1]) | (inputs[1] & inputs[2]) | (inputs[0] & inputs[2]))}
+                            {" (decimal: "}
+                            {inputs[0] + inputs[1] + inputs[2]}
+                            {")"}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Real-world uses */}
+                  <div>
+                    <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: COLORS.success }}>
+                      Real-World Applications
+                    </h3>
+                    <p className="text-sm leading-relaxed" style={{ color: "#a1a1aa" }}>
+                      {currentCircuitInfo.realWorld}
+                    </p>
+                  </div>
+
+                  {/* Key insight */}
+                  <div
+                    className="rounded-xl p-4"
+                    style={{
+                      background: "rgba(99,102,241,0.05)",
+                      border: "1px solid rgba(99,102,241,0.1)",
+                    }}
+                  >
+                    <div className="flex items-start gap-2">
+                      <Lightbulb size={16} className="mt-0.5 flex-shrink-0" style={{ color: COLORS.primary }} />
+                      <div>
+                        <span className="text-xs font-semibold text-white block mb-1">Key Insight</span>
+                        <span className="text-xs leading-relaxed" style={{ color: "#a1a1aa" }}>
+                          {selectedCircuit === "MUX_2_1"
+                            ? "A 2:1 MUX can implement ANY single-variable Boolean function. The select line acts as the variable, and the data inputs define the function's output for each value. This is why FPGAs use MUX-based lookup tables."
+                            : selectedCircuit === "MUX_4_1"
+                            ? "A 4:1 MUX can implement ANY two-variable Boolean function without additional gates. Set the data inputs to the desired truth table outputs and use the select lines as variables. This is the basis of FPGA LUT architecture."
+                            : selectedCircuit === "DECODER_2_4"
+                            ? "A decoder generates all minterms of its input variables. Combined with OR gates, a decoder can implement ANY Boolean function. This 'decoder + OR' approach is a systematic way to build any combinational circuit."
+                            : selectedCircuit === "DECODER_3_8"
+                            ? "Larger decoders are built hierarchically. A 3:8 decoder uses two 2:4 decoders where the extra input controls which sub-decoder is enabled. This tree structure scales to any size needed for memory systems."
+                            : selectedCircuit === "HALF_ADDER"
+                            ? "The half adder reveals a fundamental relationship: addition at the bit level is just XOR (for the sum) and AND (for the carry). This is why XOR gates are essential in arithmetic circuits."
+                            : "The full adder is the core of all multi-bit arithmetic. Chain N full adders, connecting each Cout to the next Cin, to create an N-bit ripple-carry adder. The propagation delay grows linearly, which is why real CPUs use carry-lookahead adders for speed."}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Circuit comparison table */}
+                  <div>
+                    <h3 className="text-xs font-semibold uppercase tracking-wider mb-3" style={{ color: COLORS.muted }}>
+                      Circuit Comparison
+                    </h3>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b" style={{ borderColor: COLORS.border }}>
+                            <th className="px-3 py-2 text-left font-medium" style={{ color: COLORS.muted }}>Circuit</th>
+                            <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Inputs</th>
+                            <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Outputs</th>
+                            <th className="px-3 py-2 text-center font-medium" style={{ color: COLORS.muted }}>Gate Delay</th>
+                            <th className="px-3 py-2 text-left font-medium" style={{ color: COLORS.muted }}>Category</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {CIRCUIT_KEYS.map((circuit) => {
+                            const cInfo = CIRCUITS[circuit];
+                            const isActive = circuit === selectedCircuit;
+                            const category =
+                              circuit === "MUX_2_1" || circuit === "MUX_4_1"
+                                ? "Data Routing"
+                                : circuit === "DECODER_2_4" || circuit === "DECODER_3_8"
+                                ? "Address Decoding"
+                                : "Arithmetic";
+
+                            return (
+                              <tr
+                                key={circuit}
+                                className="border-b transition-colors duration-150 cursor-pointer"
+                                style={{
+                                  borderColor: `${COLORS.border}50`,
+                                  background: isActive ? "rgba(99,102,241,0.04)" : "transparent",
+                                }}
+                                onClick={() => handleSelectCircuit(circuit)}
+                              >
+                                <td className="px-3 py-2">
+                                  <div className="flex items-center gap-2">
+                                    {isActive && <div className="w-1.5 h-1.5 rounded-full" style={{ background: COLORS.primary }} />}
+                                    <span className="font-semibold" style={{ color: isActive ? "#ffffff" : "#a1a1aa" }}>
+                                      {cInfo.shortLabel}
+                                    </span>
+                                  </div>
+                                </td>
+                                <td className="px-3 py-2 text-center font-mono" style={{ color: COLORS.accent }}>
+                                  {cInfo.inputLabels.length}
+                                </td>
+                                <td className="px-3 py-2 text-center font-mono" style={{ color: COLORS.success }}>
+                                  {cInfo.outputLabels.length}
+                                </td>
+                                <td className="px-3 py-2 text-center font-mono" style={{ color: COLORS.secondary }}>
+                                  {cInfo.gateDelay}
+                                </td>
+                                <td className="px-3 py-2" style={{ color: "#a1a1aa" }}>
+                                  {category}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              </motion.div>
+            </>
+          )}
         </div>
       </div>
     </div>
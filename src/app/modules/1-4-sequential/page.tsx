@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Zap,
@@ -14,9 +14,32 @@ import {
   CircleDot,
   Binary,
   Info,
+  Plus,
+  Trash2,
+  Download,
+  Minimize2,
+  FileCode,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import { downloadBlob } from "@/lib/frame-export";
+import {
+  conditionLabel,
+  encodeStates,
+  FSM_ENCODINGS,
+  fsmIssues,
+  fsmToVerilog,
+  MAX_FSM_INPUTS,
+  minimizeFsm,
+  outputLabel,
+  parseInputStream,
+  stepFsm,
+  type FsmEncoding,
+  type FsmMachine,
+  type FsmStep,
+} from "@/lib/sim/fsm";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -25,7 +48,8 @@ type CircuitType =
   | "up-counter"
   | "down-counter"
   | "ring-counter"
-  | "fsm-traffic";
+  | "fsm-traffic"
+  | "fsm-designer";
 
 interface ScenarioPreset {
   id: string;
@@ -39,19 +63,12 @@ interface FlipFlopState {
   label: string;
 }
 
-interface FSMState {
+interface FSMPreset {
   id: string;
   label: string;
-  color: string;
-  output: string;
-  x: number;
-  y: number;
-}
-
-interface FSMTransition {
-  from: string;
-  to: string;
-  label: string;
+  description: string;
+  machine: FsmMachine;
+  stream: string;
 }
 
 interface HistoryEntry {
@@ -59,6 +76,8 @@ interface HistoryEntry {
   bits: number[];
   decimal: number;
   state?: string;
+  input?: string;
+  output?: string;
 }
 
 interface CircuitInfo {
@@ -106,23 +125,136 @@ const SCENARIO_PRESETS: ScenarioPreset[] = [
     circuitType: "fsm-traffic",
     description: "Finite state machine controlling a traffic light sequence",
   },
+  {
+    id: "fsm-designer",
+    label: "FSM Designer",
+    circuitType: "fsm-designer",
+    description: "Build, minimize and export your own Moore or Mealy machine",
+  },
 ];
 
-const FSM_STATES: FSMState[] = [
-  { id: "GREEN", label: "GREEN", color: "#10b981", output: "Go", x: 120, y: 180 },
-  { id: "YELLOW", label: "YELLOW", color: "#f59e0b", output: "Caution", x: 340, y: 80 },
-  { id: "RED", label: "RED", color: "#ef4444", output: "Stop", x: 560, y: 180 },
-  { id: "RED_WAIT", label: "RED WAIT", color: "#ef4444", output: "Stop (wait)", x: 340, y: 300 },
-];
+// The timer input pulses when a light's time is up: 5 cycles green, 2 yellow, 5 red, 2 red-wait.
+const TRAFFIC_FSM: FsmMachine = {
+  name: "traffic_light",
+  kind: "moore",
+  inputs: ["timer"],
+  outputs: ["red", "yellow", "green"],
+  initial: "GREEN",
+  states: [
+    { id: "GREEN", name: "GREEN", output: "001" },
+    { id: "YELLOW", name: "YELLOW", output: "010" },
+    { id: "RED", name: "RED", output: "100" },
+    { id: "RED_WAIT", name: "RED WAIT", output: "100" },
+  ],
+  transitions: [
+    { from: "GREEN", to: "YELLOW", condition: "1", output: "" },
+    { from: "YELLOW", to: "RED", condition: "1", output: "" },
+    { from: "RED", to: "RED_WAIT", condition: "1", output: "" },
+    { from: "RED_WAIT", to: "GREEN", condition: "1", output: "" },
+  ],
+};
 
-const FSM_TRANSITIONS: FSMTransition[] = [
-  { from: "GREEN", to: "YELLOW", label: "timer=5" },
-  { from: "YELLOW", to: "RED", label: "timer=2" },
-  { from: "RED", to: "RED_WAIT", label: "timer=5" },
-  { from: "RED_WAIT", to: "GREEN", label: "timer=2" },
-];
+const TRAFFIC_STREAM = ["0", "0", "0", "0", "1", "0", "1", "0", "0", "0", "0", "1", "0", "1"];
+
+/** Clock cycles in one full period of the circuit; a run that long counts as complete. */
+function cyclePeriod(circuitType: CircuitType, streamLength: number): number {
+  switch (circuitType) {
+    case "up-counter":
+    case "down-counter":
+      return 16;
+    case "fsm-traffic":
+    case "fsm-designer":
+      return streamLength;
+    default:
+      return 4;
+  }
+}
+
+const TRAFFIC_COLORS: Record<string, string> = {
+  GREEN: "#10b981",
+  YELLOW: "#f59e0b",
+  RED: "#ef4444",
+  RED_WAIT: "#ef4444",
+};
 
-const FSM_SEQUENCE = ["GREEN", "GREEN", "GREEN", "GREEN", "GREEN", "YELLOW", "YELLOW", "RED", "RED", "RED", "RED", "RED", "RED_WAIT", "RED_WAIT"];
+const STATE_PALETTE = ["#6366f1", "#06b6d4", "#10b981", "#f59e0b", "#ec4899", "#8b5cf6", "#ef4444", "#14b8a6"];
+
+const FSM_PRESETS: FSMPreset[] = [
+  {
+    id: "detect-mealy",
+    label: "101 Detector (Mealy)",
+    description: "Flags each overlapping 101 on the same edge as the last 1",
+    machine: {
+      name: "detect_101",
+      kind: "mealy",
+      inputs: ["x"],
+      outputs: ["z"],
+      initial: "idle",
+      states: [
+        { id: "idle", name: "IDLE", output: "" },
+        { id: "one", name: "GOT1", output: "" },
+        { id: "onezero", name: "GOT10", output: "" },
+      ],
+      transitions: [
+        { from: "idle", to: "one", condition: "1", output: "0" },
+        { from: "one", to: "onezero", condition: "0", output: "0" },
+        { from: "onezero", to: "one", condition: "1", output: "1" },
+        { from: "onezero", to: "idle", condition: "0", output: "0" },
+      ],
+    },
+    stream: "1 0 1 0 1 1 0 1 0 0",
+  },
+  {
+    id: "detect-moore",
+    label: "101 Detector (Moore)",
+    description: "The same detector as a Moore machine, with a redundant state to minimize away",
+    machine: {
+      name: "detect_101_moore",
+      kind: "moore",
+      inputs: ["x"],
+      outputs: ["z"],
+      initial: "s0",
+      states: [
+        { id: "s0", name: "S0", output: "0" },
+        { id: "s1", name: "S1", output: "0" },
+        { id: "s2", name: "S2", output: "0" },
+        { id: "s3", name: "S3", output: "1" },
+        { id: "s4", name: "S4", output: "0" },
+      ],
+      transitions: [
+        { from: "s0", to: "s1", condition: "1", output: "" },
+        { from: "s1", to: "s2", condition: "0", output: "" },
+        { from: "s2", to: "s3", condition: "1", output: "" },
+        { from: "s2", to: "s0", condition: "0", output: "" },
+        { from: "s3", to: "s4", condition: "1", output: "" },
+        { from: "s3", to: "s2", condition: "0", output: "" },
+        { from: "s4", to: "s2", condition: "0", output: "" },
+      ],
+    },
+    stream: "1 0 1 0 1 1 0 1 0 0",
+  },
+  {
+    id: "turnstile",
+    label: "Turnstile",
+    description: "Two inputs: a coin unlocks, a push locks again",
+    machine: {
+      name: "turnstile",
+      kind: "moore",
+      inputs: ["coin", "push"],
+      outputs: ["unlocked"],
+      initial: "locked",
+      states: [
+        { id: "locked", name: "LOCKED", output: "0" },
+        { id: "open", name: "OPEN", output: "1" },
+      ],
+      transitions: [
+        { from: "locked", to: "open", condition: "1-", output: "" },
+        { from: "open", to: "locked", condition: "-1", output: "" },
+      ],
+    },
+    stream: "00 01 10 00 01 11 10 01",
+  },
+];
 
 const CIRCUIT_INFO: Record<CircuitType, CircuitInfo> = {
   "shift-register": {
@@ -180,6 +312,17 @@ const CIRCUIT_INFO: Record<CircuitType, CircuitInfo> = {
       "The output (light color) is determined by the current state (Moore machine)",
     ],
   },
+  "fsm-designer": {
+    title: "FSM Designer",
+    description:
+      "Describe a machine as states, transitions guarded by input conditions, and outputs, then clock it with an input stream. A Moore machine's outputs belong to its states; a Mealy machine's belong to its transitions, so they react to the input within the same cycle.",
+    details: [
+      "Conditions give 0, 1 or - (don't care) per input; the first matching transition wins and a state with no match holds",
+      "Hopcroft minimization starts from states grouped by output and splits groups until every member moves to the same group on every input",
+      "Binary encoding uses the fewest flip-flops; one-hot uses one per state but decodes with a single bit; Gray codes adjacent states one bit apart",
+      "The Verilog export is a two-process module: a clocked state register plus combinational next-state and output logic",
+    ],
+  },
 };
 
 // ─── Simulation Logic ─────────────────────────────────────────────────────────
@@ -222,9 +365,23 @@ function stepRingCounter(bits: number[]): number[] {
   return [last, ...bits.slice(0, bits.length - 1)];
 }
 
-function getNextFSMState(current: string, step: number): string {
-  const idx = step % FSM_SEQUENCE.length;
-  return FSM_SEQUENCE[idx];
+/** Preset colours for the traffic light, a palette for everything else. */
+function stateColors(machine: FsmMachine): Record<string, string> {
+  return Object.fromEntries(
+    machine.states.map((s, i) => [s.id, TRAFFIC_COLORS[s.id] ?? STATE_PALETTE[i % STATE_PALETTE.length]])
+  );
+}
+
+/** Pads or trims conditions and outputs after inputs, outputs or the machine kind change. */
+function normalizeMachine(machine: FsmMachine): FsmMachine {
+  const fit = (value: string, width: number, fill: string) => value.slice(0, width).padEnd(width, fill);
+  const k = machine.inputs.length;
+  const m = machine.outputs.length;
+  return {
+    ...machine,
+    states: machine.states.map((s) => ({ ...s, output: fit(s.output, m, "0") })),
+    transitions: machine.transitions.map((t) => ({ ...t, condition: fit(t.condition, k, "-"), output: fit(t.output, m, "0") })),
+  };
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -247,6 +404,23 @@ export default function SequentialCircuitsPage() {
   const [shiftDirection, setShiftDirection] = useState<"left" | "right">("right");
   const [animatingBit, setAnimatingBit] = useState<number | null>(null);
   const [prevBits, setPrevBits] = useState<number[]>([0, 0, 0, 0]);
+  const [fsmLastStep, setFsmLastStep] = useState<(FsmStep & { input: string }) | null>(null);
+  const [designMachine, setDesignMachine] = useState<FsmMachine>(FSM_PRESETS[0].machine);
+  const [designStream, setDesignStream] = useState(FSM_PRESETS[0].stream);
+  const [designPreset, setDesignPreset] = useState<string | null>(FSM_PRESETS[0].id);
+  const [encoding, setEncoding] = useState<FsmEncoding>("binary");
+  const [minimizeNote, setMinimizeNote] = useState<string | null>(null);
+
+  const isFsm = circuitType === "fsm-traffic" || circuitType === "fsm-designer";
+  const fsmMachine = circuitType === "fsm-designer" ? designMachine : TRAFFIC_FSM;
+  const parsedStream = useMemo(() => parseInputStream(designMachine, designStream), [designMachine, designStream]);
+  const fsmStream = useMemo(
+    () =>
+      circuitType === "fsm-designer"
+        ? (parsedStream ?? ["0".repeat(designMachine.inputs.length)])
+        : TRAFFIC_STREAM,
+    [circuitType, parsedStream, designMachine.inputs.length]
+  );
 
   // ── Refs ────────────────────────────────────────────────────────────────────
   const isPlayingRef = useRef(false);
@@ -291,10 +465,14 @@ export default function SequentialCircuitsPage() {
         case "ring-counter":
           newBits = stepRingCounter(prevBitsState);
           break;
-        case "fsm-traffic": {
+        case "fsm-traffic":
+        case "fsm-designer": {
+          // The input stream repeats, so the machine can be clocked indefinitely
+          const input = fsmStream[clockCyclesRef.current % fsmStream.length];
+          const step = stepFsm(fsmMachine, fsmCurrentState, input);
           clockCyclesRef.current += 1;
-          const nextState = getNextFSMState(fsmCurrentState, clockCyclesRef.current);
-          setFsmCurrentState(nextState);
+          setFsmCurrentState(step.next);
+          setFsmLastStep({ ...step, input });
           newBits = prevBitsState;
           setClockCycles((c) => c + 1);
           setHistory((h) => {
@@ -302,7 +480,9 @@ export default function SequentialCircuitsPage() {
               step: clockCyclesRef.current,
               bits: newBits,
               decimal: bitsToDecimal(newBits),
-              state: nextState,
+              state: step.next,
+              input,
+              output: step.output,
             };
             return [...h.slice(-11), entry];
           });
@@ -335,7 +515,7 @@ export default function SequentialCircuitsPage() {
 
       return newBits;
     });
-  }, [circuitType, serialInput, shiftDirection, fsmCurrentState]);
+  }, [circuitType, serialInput, shiftDirection, fsmCurrentState, fsmMachine, fsmStream]);
 
   // ── Animation loop ──────────────────────────────────────────────────────────
   const animationLoop = useCallback(
@@ -385,13 +565,14 @@ export default function SequentialCircuitsPage() {
     } else {
       setBits([0, 0, 0, 0]);
       setPrevBits([0, 0, 0, 0]);
-      setHistory([{ step: 0, bits: [0, 0, 0, 0], decimal: 0, state: "GREEN" }]);
+      setHistory([{ step: 0, bits: [0, 0, 0, 0], decimal: 0, state: fsmMachine.initial }]);
     }
     setClockCycles(0);
     clockCyclesRef.current = 0;
-    setFsmCurrentState("GREEN");
+    setFsmCurrentState(fsmMachine.initial);
+    setFsmLastStep(null);
     setAnimatingBit(null);
-  }, [handlePause, circuitType]);
+  }, [handlePause, circuitType, fsmMachine.initial]);
 
   // Cleanup
   useEffect(() => {
@@ -410,17 +591,89 @@ export default function SequentialCircuitsPage() {
     } else {
       setBits([0, 0, 0, 0]);
       setPrevBits([0, 0, 0, 0]);
-      setHistory([{ step: 0, bits: [0, 0, 0, 0], decimal: 0, state: "GREEN" }]);
+      setHistory([{ step: 0, bits: [0, 0, 0, 0], decimal: 0, state: fsmMachine.initial }]);
     }
     setClockCycles(0);
     clockCyclesRef.current = 0;
-    setFsmCurrentState("GREEN");
+    setFsmCurrentState(fsmMachine.initial);
+    setFsmLastStep(null);
     setAnimatingBit(null);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [circuitType]);
 
+  // ── FSM designer ────────────────────────────────────────────────────────────
+  const restartFsm = useCallback(
+    (initial: string) => {
+      handlePause();
+      setFsmCurrentState(initial);
+      setFsmLastStep(null);
+      setClockCycles(0);
+      clockCyclesRef.current = 0;
+      setHistory([{ step: 0, bits: [0, 0, 0, 0], decimal: 0, state: initial }]);
+    },
+    [handlePause]
+  );
+
+  const updateDesign = useCallback(
+    (machine: FsmMachine) => {
+      setDesignMachine(machine);
+      setDesignPreset(null);
+      setMinimizeNote(null);
+      restartFsm(machine.initial);
+    },
+    [restartFsm]
+  );
+
+  const applyFsmPreset = useCallback(
+    (preset: FSMPreset) => {
+      setDesignMachine(preset.machine);
+      setDesignStream(preset.stream);
+      setDesignPreset(preset.id);
+      setMinimizeNote(null);
+      restartFsm(preset.machine.initial);
+    },
+    [restartFsm]
+  );
+
+  const handleMinimize = useCallback(() => {
+    const { machine, classes, unreachable } = minimizeFsm(designMachine);
+    const name = (id: string) => designMachine.states.find((s) => s.id === id)?.name ?? id;
+    const merged = classes.filter((c) => c.length > 1).map((c) => c.map(name).join(" ≡ "));
+    const notes = [
+      ...(merged.length ? [`merged ${merged.join(", ")}`] : []),
+      ...(unreachable.length ? [`removed unreachable ${unreachable.map(name).join(", ")}`] : []),
+    ];
+    setDesignMachine(machine);
+    setDesignPreset(null);
+    restartFsm(machine.initial);
+    setMinimizeNote(
+      notes.length
+        ? `${designMachine.states.length} → ${machine.states.length} states: ${notes.join("; ")}`
+        : "Already minimal: no two states are equivalent"
+    );
+  }, [designMachine, restartFsm]);
+
+  useScenarioParam(
+    SCENARIO_PRESETS.map((p) => p.id),
+    (id) => setCircuitType(SCENARIO_PRESETS.find((p) => p.id === id)!.circuitType)
+  );
+
   const currentDecimal = bitsToDecimal(bits);
   const info = CIRCUIT_INFO[circuitType];
+  const fsmColors = useMemo(() => stateColors(fsmMachine), [fsmMachine]);
+  const fsmStateName = fsmMachine.states.find((s) => s.id === fsmCurrentState)?.name ?? fsmCurrentState;
+  // A Mealy output belongs to the edge just taken; a Moore output to the state now held
+  const fsmOutput =
+    fsmMachine.kind === "moore"
+      ? (fsmMachine.states.find((s) => s.id === fsmCurrentState)?.output ?? "")
+      : (fsmLastStep?.output ?? "0".repeat(fsmMachine.outputs.length));
+  const fsmNextInput = fsmStream[clockCycles % fsmStream.length];
+  const stepDescription =
+    clockCycles === 0
+      ? undefined
+      : isFsm
+        ? `Cycle ${clockCycles}: ${fsmLastStep ? `input ${fsmLastStep.input}, ` : ""}state ${fsmStateName}, output ${fsmOutput || "none"}`
+        : `Cycle ${clockCycles}: register holds ${bits.join("")} (${currentDecimal})`;
 
   // ── Render ──────────────────────────────────────────────────────────────────
   return (
@@ -431,6 +684,7 @@ export default function SequentialCircuitsPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -456,6 +710,7 @@ export default function SequentialCircuitsPage() {
               sequential circuits store and transform data on each clock edge,
               building the foundation for processors and memory.
             </p>
+            <ModuleLinks moduleId="1.4" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -693,11 +948,16 @@ export default function SequentialCircuitsPage() {
 
             {/* Circuit visualization area */}
             <div style={{ minHeight: "380px" }} className="relative p-6">
-              {circuitType === "fsm-traffic" ? (
+              {isFsm ? (
                 <FSMVisualization
+                  machine={fsmMachine}
+                  colors={fsmColors}
                   currentState={fsmCurrentState}
-                  clockCycles={clockCycles}
-                />
+                  lastTransition={fsmLastStep?.transition ?? null}
+                  title={circuitType === "fsm-traffic" ? "Traffic Light FSM" : designMachine.name}
+                >
+                  {circuitType === "fsm-traffic" && <TrafficLight currentState={fsmCurrentState} />}
+                </FSMVisualization>
               ) : (
                 <RegisterVisualization
                   bits={bits}
@@ -712,7 +972,7 @@ export default function SequentialCircuitsPage() {
             </div>
 
             {/* Decimal value display */}
-            {circuitType !== "fsm-traffic" && (
+            {!isFsm && (
               <div
                 className="flex items-center justify-center gap-4 px-5 py-3 border-t"
                 style={{ borderColor: COLORS.border }}
@@ -736,25 +996,34 @@ export default function SequentialCircuitsPage() {
             )}
 
             {/* FSM output display */}
-            {circuitType === "fsm-traffic" && (
+            {isFsm && (
               <div
-                className="flex items-center justify-center gap-4 px-5 py-3 border-t"
+                className="flex flex-wrap items-center justify-center gap-4 px-5 py-3 border-t"
                 style={{ borderColor: COLORS.border }}
               >
                 <span className="text-xs text-[#71717a] font-mono">Current State:</span>
                 <span
                   className="text-sm font-mono font-bold"
-                  style={{
-                    color: FSM_STATES.find((s) => s.id === fsmCurrentState)?.color || "#fff",
-                  }}
+                  style={{ color: fsmColors[fsmCurrentState] || "#fff" }}
                 >
-                  {fsmCurrentState}
+                  {fsmStateName}
                 </span>
                 <div className="w-px h-4" style={{ background: COLORS.border }} />
-                <span className="text-xs text-[#71717a] font-mono">Output:</span>
+                <span className="text-xs text-[#71717a] font-mono">
+                  {fsmMachine.kind === "moore" ? "Output:" : "Last Output:"}
+                </span>
                 <span className="text-sm font-mono font-bold text-white">
-                  {FSM_STATES.find((s) => s.id === fsmCurrentState)?.output || ""}
+                  {outputLabel(fsmMachine, fsmOutput)}
                 </span>
+                {fsmMachine.inputs.length > 0 && (
+                  <>
+                    <div className="w-px h-4" style={{ background: COLORS.border }} />
+                    <span className="text-xs text-[#71717a] font-mono">Next Input:</span>
+                    <span className="text-sm font-mono font-bold text-[#06b6d4]">
+                      {fsmMachine.inputs.map((name, i) => `${name}=${fsmNextInput[i]}`).join(" ")}
+                    </span>
+                  </>
+                )}
               </div>
             )}
           </motion.div>
@@ -766,7 +1035,9 @@ export default function SequentialCircuitsPage() {
             transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
           >
             <ModuleControls
+              shareState={{ scenario: SCENARIO_PRESETS.find((p) => p.circuitType === circuitType)?.id }}
               isPlaying={isPlaying}
+              completed={clockCycles >= cyclePeriod(circuitType, fsmStream.length)}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -775,9 +1046,31 @@ export default function SequentialCircuitsPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             />
           </motion.div>
 
+          {/* ── FSM designer ──────────────────────────────────────────── */}
+          {circuitType === "fsm-designer" && (
+            <FSMDesigner
+              machine={designMachine}
+              onChange={updateDesign}
+              colors={fsmColors}
+              stream={designStream}
+              streamValid={parsedStream !== null}
+              onStreamChange={(text) => {
+                setDesignStream(text);
+                restartFsm(designMachine.initial);
+              }}
+              preset={designPreset}
+              onPreset={applyFsmPreset}
+              encoding={encoding}
+              onEncodingChange={setEncoding}
+              onMinimize={handleMinimize}
+              minimizeNote={minimizeNote}
+            />
+          )}
+
           {/* ── Metrics & History ──────────────────────────────────────── */}
           <AnimatePresence>
             {showMetrics && (
@@ -807,21 +1100,13 @@ export default function SequentialCircuitsPage() {
                       color="#06b6d4"
                     />
                     <MetricCard
-                      label={circuitType === "fsm-traffic" ? "Current State" : "Decimal Value"}
-                      value={
-                        circuitType === "fsm-traffic"
-                          ? fsmCurrentState
-                          : currentDecimal.toString()
-                      }
+                      label={isFsm ? "Current State" : "Decimal Value"}
+                      value={isFsm ? fsmStateName : currentDecimal.toString()}
                       color="#6366f1"
                     />
                     <MetricCard
-                      label={circuitType === "fsm-traffic" ? "Output" : "Binary Value"}
-                      value={
-                        circuitType === "fsm-traffic"
-                          ? FSM_STATES.find((s) => s.id === fsmCurrentState)?.output || ""
-                          : bits.join("")
-                      }
+                      label={isFsm ? "Output" : "Binary Value"}
+                      value={isFsm ? outputLabel(fsmMachine, fsmOutput) : bits.join("")}
                       color="#10b981"
                     />
                   </div>
@@ -861,21 +1146,34 @@ export default function SequentialCircuitsPage() {
                         <span className="text-[10px] font-mono text-[#71717a] w-8">
                           T={entry.step}
                         </span>
-                        <span className="text-xs font-mono text-white tracking-wider">
-                          {entry.bits.join("")}
-                        </span>
-                        <span className="text-xs font-mono text-[#06b6d4]">
-                          = {entry.decimal}
-                        </span>
-                        {entry.state && (
+                        {isFsm ? (
+                          entry.input !== undefined && (
+                            <>
+                              {fsmMachine.inputs.length > 0 && (
+                                <span className="text-xs font-mono text-[#06b6d4]">in {entry.input}</span>
+                              )}
+                              <span className="text-xs font-mono text-white">out {entry.output}</span>
+                            </>
+                          )
+                        ) : (
+                          <>
+                            <span className="text-xs font-mono text-white tracking-wider">
+                              {entry.bits.join("")}
+                            </span>
+                            <span className="text-xs font-mono text-[#06b6d4]">
+                              = {entry.decimal}
+                            </span>
+                          </>
+                        )}
+                        {isFsm && entry.state && (
                           <span
                             className="text-[10px] font-mono px-1.5 py-0.5 rounded"
                             style={{
-                              color: FSM_STATES.find((s) => s.id === entry.state)?.color || "#71717a",
-                              background: `${FSM_STATES.find((s) => s.id === entry.state)?.color || "#71717a"}15`,
+                              color: fsmColors[entry.state] || "#71717a",
+                              background: `${fsmColors[entry.state] || "#71717a"}15`,
                             }}
                           >
-                            {entry.state}
+                            {fsmMachine.states.find((s) => s.id === entry.state)?.name ?? entry.state}
                           </span>
                         )}
                       </motion.div>
@@ -1146,29 +1444,75 @@ function RegisterVisualization({
 
 // ─── FSM Visualization ────────────────────────────────────────────────────────
 
+const FSM_VIEW = { width: 700, height: 400, cx: 340, cy: 200, rx: 220, ry: 105 };
+
+/** States on an ellipse, clockwise from the left, so four states sit left, top, right, bottom. */
+function layoutStates(count: number): { x: number; y: number }[] {
+  if (count === 1) return [{ x: FSM_VIEW.cx, y: FSM_VIEW.cy }];
+  return Array.from({ length: count }, (_, i) => {
+    const angle = Math.PI + (2 * Math.PI * i) / count;
+    return { x: FSM_VIEW.cx + FSM_VIEW.rx * Math.cos(angle), y: FSM_VIEW.cy + FSM_VIEW.ry * Math.sin(angle) };
+  });
+}
+
+function rotate(x: number, y: number, angle: number): [number, number] {
+  return [x * Math.cos(angle) - y * Math.sin(angle), x * Math.sin(angle) + y * Math.cos(angle)];
+}
+
 function FSMVisualization({
+  machine,
+  colors,
   currentState,
-  clockCycles,
+  lastTransition,
+  title,
+  children,
 }: {
+  machine: FsmMachine;
+  colors: Record<string, string>;
   currentState: string;
-  clockCycles: number;
+  /** Transition taken on the last clock edge. */
+  lastTransition: number | null;
+  title: string;
+  children?: React.ReactNode;
 }) {
-  const svgWidth = 700;
-  const svgHeight = 380;
-  const stateRadius = 45;
-
-  // Find active transition
-  const activeTransition = FSM_TRANSITIONS.find((t) => t.from === currentState);
+  const stateRadius = machine.states.length > 6 ? 34 : 45;
+  const positions = new Map(layoutStates(machine.states.length).map((p, i) => [machine.states[i].id, p]));
+  const isMealy = machine.kind === "mealy";
+  const transitionLabel = (i: number) => {
+    const t = machine.transitions[i];
+    const condition = conditionLabel(machine, t.condition);
+    return isMealy ? `${condition} / ${t.output}` : condition;
+  };
+
+  // Parallel transitions share one arrow with their conditions listed together
+  const edges = new Map<string, { from: string; to: string; indices: number[] }>();
+  machine.transitions.forEach((t, i) => {
+    if (!positions.has(t.from) || !positions.has(t.to)) return;
+    const key = `${t.from}->${t.to}`;
+    edges.set(key, { from: t.from, to: t.to, indices: [...(edges.get(key)?.indices ?? []), i] });
+  });
+
+  // Loops, the start arrow and the state dot all hang off the side facing away from the centre
+  const outward = (x: number, y: number): [number, number] => {
+    const dx = x - FSM_VIEW.cx;
+    const dy = y - FSM_VIEW.cy;
+    const dist = Math.hypot(dx, dy);
+    return dist < 1 ? [0, -1] : [dx / dist, dy / dist];
+  };
 
   return (
     <div className="flex flex-col items-center justify-center h-full">
-      <h3 className="text-lg font-semibold text-white mb-2">Traffic Light FSM</h3>
-      <p className="text-xs text-[#71717a] mb-4">Moore machine: output depends only on current state</p>
+      <h3 className="text-lg font-semibold text-white mb-2">{title}</h3>
+      <p className="text-xs text-[#71717a] mb-4">
+        {isMealy
+          ? "Mealy machine: outputs depend on the current state and input"
+          : "Moore machine: output depends only on current state"}
+      </p>
 
       <svg
-        viewBox={`0 0 ${svgWidth} ${svgHeight}`}
-        className="w-full max-w-2xl"
-        style={{ maxHeight: "300px" }}
+        viewBox={`0 0 ${FSM_VIEW.width} ${FSM_VIEW.height}`}
+        className="w-full max-w-2xl overflow-visible"
+        style={{ maxHeight: "320px" }}
       >
         <defs>
           <marker
@@ -1191,80 +1535,77 @@ function FSMVisualization({
           >
             <polygon points="0 0, 10 3.5, 0 7" fill="#06b6d4" />
           </marker>
-          {/* Glow filters for each state color */}
-          <filter id="glow-green" x="-50%" y="-50%" width="200%" height="200%">
-            <feGaussianBlur stdDeviation="8" result="blur" />
-            <feFlood floodColor="#10b981" floodOpacity="0.5" result="color" />
-            <feComposite in="color" in2="blur" operator="in" result="shadow" />
-            <feMerge>
-              <feMergeNode in="shadow" />
-              <feMergeNode in="SourceGraphic" />
-            </feMerge>
-          </filter>
-          <filter id="glow-yellow" x="-50%" y="-50%" width="200%" height="200%">
-            <feGaussianBlur stdDeviation="8" result="blur" />
-            <feFlood floodColor="#f59e0b" floodOpacity="0.5" result="color" />
-            <feComposite in="color" in2="blur" operator="in" result="shadow" />
-            <feMerge>
-              <feMergeNode in="shadow" />
-              <feMergeNode in="SourceGraphic" />
-            </feMerge>
-          </filter>
-          <filter id="glow-red" x="-50%" y="-50%" width="200%" height="200%">
-            <feGaussianBlur stdDeviation="8" result="blur" />
-            <feFlood floodColor="#ef4444" floodOpacity="0.5" result="color" />
-            <feComposite in="color" in2="blur" operator="in" result="shadow" />
-            <feMerge>
-              <feMergeNode in="shadow" />
-              <feMergeNode in="SourceGraphic" />
-            </feMerge>
-          </filter>
+          {/* Glow filter per state colour */}
+          {machine.states.map((state, i) => (
+            <filter key={state.id} id={`fsm-glow-${i}`} x="-50%" y="-50%" width="200%" height="200%">
+              <feGaussianBlur stdDeviation="8" result="blur" />
+              <feFlood floodColor={colors[state.id]} floodOpacity="0.5" result="color" />
+              <feComposite in="color" in2="blur" operator="in" result="shadow" />
+              <feMerge>
+                <feMergeNode in="shadow" />
+                <feMergeNode in="SourceGraphic" />
+              </feMerge>
+            </filter>
+          ))}
         </defs>
 
         {/* Transitions (arrows) */}
-        {FSM_TRANSITIONS.map((transition, idx) => {
-          const fromState = FSM_STATES.find((s) => s.id === transition.from)!;
-          const toState = FSM_STATES.find((s) => s.id === transition.to)!;
-          const isActive = transition.from === currentState;
-
-          // Calculate arrow path
-          const dx = toState.x - fromState.x;
-          const dy = toState.y - fromState.y;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          const nx = dx / dist;
-          const ny = dy / dist;
-
-          const startX = fromState.x + nx * (stateRadius + 2);
-          const startY = fromState.y + ny * (stateRadius + 2);
-          const endX = toState.x - nx * (stateRadius + 12);
-          const endY = toState.y - ny * (stateRadius + 12);
-
-          // Curve the arrow
-          const midX = (startX + endX) / 2;
-          const midY = (startY + endY) / 2;
-          const perpX = -ny * 30;
-          const perpY = nx * 30;
-          const ctrlX = midX + perpX;
-          const ctrlY = midY + perpY;
-
-          const labelX = midX + perpX * 0.7;
-          const labelY = midY + perpY * 0.7;
+        {[...edges.values()].map((edge) => {
+          const fromState = positions.get(edge.from)!;
+          const toState = positions.get(edge.to)!;
+          const isActive = lastTransition !== null && edge.indices.includes(lastTransition);
+          const label = edge.indices.map(transitionLabel).join(" | ");
+          const labelWidth = Math.max(48, label.length * 6.2 + 12);
+
+          let d: string;
+          let labelX: number;
+          let labelY: number;
+          if (edge.from === edge.to) {
+            const [ux, uy] = outward(fromState.x, fromState.y);
+            const point = (angle: number, dist: number) => {
+              const [rx, ry] = rotate(ux, uy, angle);
+              return `${fromState.x + rx * dist} ${fromState.y + ry * dist}`;
+            };
+            d = `M ${point(-0.45, stateRadius)} C ${point(-0.6, stateRadius + 45)} ${point(0.6, stateRadius + 45)} ${point(0.45, stateRadius + 2)}`;
+            labelX = fromState.x + ux * (stateRadius + 50);
+            labelY = fromState.y + uy * (stateRadius + 50);
+          } else {
+            // Calculate arrow path
+            const dx = toState.x - fromState.x;
+            const dy = toState.y - fromState.y;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+            const nx = dx / dist;
+            const ny = dy / dist;
+
+            const startX = fromState.x + nx * (stateRadius + 2);
+            const startY = fromState.y + ny * (stateRadius + 2);
+            const endX = toState.x - nx * (stateRadius + 12);
+            const endY = toState.y - ny * (stateRadius + 12);
+
+            // Curve the arrow; opposite directions bow to opposite sides
+            const midX = (startX + endX) / 2;
+            const midY = (startY + endY) / 2;
+            const perpX = -ny * 30;
+            const perpY = nx * 30;
+            d = `M ${startX} ${startY} Q ${midX + perpX} ${midY + perpY} ${endX} ${endY}`;
+            labelX = midX + perpX * 0.7;
+            labelY = midY + perpY * 0.7;
+          }
 
           return (
-            <g key={idx}>
+            <g key={`${edge.from}->${edge.to}`}>
               <path
-                d={`M ${startX} ${startY} Q ${ctrlX} ${ctrlY} ${endX} ${endY}`}
+                d={d}
                 fill="none"
                 stroke={isActive ? "#06b6d4" : "#3a3a4e"}
                 strokeWidth={isActive ? 2.5 : 1.5}
                 markerEnd={isActive ? "url(#arrowhead-active)" : "url(#arrowhead)"}
-                strokeDasharray={isActive ? "none" : "none"}
                 opacity={isActive ? 1 : 0.5}
               />
               <rect
-                x={labelX - 28}
+                x={labelX - labelWidth / 2}
                 y={labelY - 10}
-                width={56}
+                width={labelWidth}
                 height={20}
                 rx={4}
                 fill={isActive ? "rgba(6,182,212,0.15)" : "rgba(17,17,24,0.9)"}
@@ -1279,74 +1620,83 @@ function FSMVisualization({
                 fontSize={10}
                 fontFamily="monospace"
               >
-                {transition.label}
+                {label}
               </text>
             </g>
           );
         })}
 
         {/* States (circles) */}
-        {FSM_STATES.map((state) => {
+        {machine.states.map((state, i) => {
+          const { x, y } = positions.get(state.id)!;
+          const color = colors[state.id];
           const isCurrent = state.id === currentState;
-          const glowFilter =
-            state.color === "#10b981"
-              ? "url(#glow-green)"
-              : state.color === "#f59e0b"
-              ? "url(#glow-yellow)"
-              : "url(#glow-red)";
+          const [ux, uy] = outward(x, y);
+          const [sx, sy] = rotate(ux, uy, 1.4);
 
           return (
             <g key={state.id}>
+              {/* Start arrow into the initial state */}
+              {state.id === machine.initial && (
+                <path
+                  d={`M ${x + sx * (stateRadius + 28)} ${y + sy * (stateRadius + 28)} L ${x + sx * (stateRadius + 2)} ${y + sy * (stateRadius + 2)}`}
+                  stroke="#71717a"
+                  strokeWidth={1.5}
+                  markerEnd="url(#arrowhead)"
+                />
+              )}
               {/* State circle */}
               <circle
-                cx={state.x}
-                cy={state.y}
+                cx={x}
+                cy={y}
                 r={stateRadius}
-                fill={isCurrent ? `${state.color}20` : "rgba(17,17,24,0.8)"}
-                stroke={isCurrent ? state.color : "#3a3a4e"}
+                fill={isCurrent ? `${color}20` : "rgba(17,17,24,0.8)"}
+                stroke={isCurrent ? color : "#3a3a4e"}
                 strokeWidth={isCurrent ? 3 : 1.5}
-                filter={isCurrent ? glowFilter : undefined}
+                filter={isCurrent ? `url(#fsm-glow-${i})` : undefined}
               />
               {/* Inner circle for double-circle effect */}
               <circle
-                cx={state.x}
-                cy={state.y}
+                cx={x}
+                cy={y}
                 r={stateRadius - 5}
                 fill="none"
-                stroke={isCurrent ? `${state.color}60` : "#2a2a3e"}
+                stroke={isCurrent ? `${color}60` : "#2a2a3e"}
                 strokeWidth={1}
               />
               {/* State label */}
               <text
-                x={state.x}
-                y={state.y - 6}
+                x={x}
+                y={isMealy ? y + 4 : y - 6}
                 textAnchor="middle"
-                fill={isCurrent ? state.color : "#71717a"}
+                fill={isCurrent ? color : "#71717a"}
                 fontSize={12}
                 fontWeight="bold"
                 fontFamily="monospace"
               >
-                {state.label}
+                {state.name}
               </text>
               {/* Output label */}
-              <text
-                x={state.x}
-                y={state.y + 12}
-                textAnchor="middle"
-                fill={isCurrent ? "#a1a1aa" : "#52525b"}
-                fontSize={10}
-                fontFamily="monospace"
-              >
-                {state.output}
-              </text>
+              {!isMealy && (
+                <text
+                  x={x}
+                  y={y + 12}
+                  textAnchor="middle"
+                  fill={isCurrent ? "#a1a1aa" : "#52525b"}
+                  fontSize={10}
+                  fontFamily="monospace"
+                >
+                  {outputLabel(machine, state.output)}
+                </text>
+              )}
 
               {/* Current state indicator dot */}
               {isCurrent && (
                 <circle
-                  cx={state.x}
-                  cy={state.y - stateRadius - 12}
+                  cx={x - ux * (stateRadius + 12)}
+                  cy={y - uy * (stateRadius + 12)}
                   r={4}
-                  fill={state.color}
+                  fill={color}
                 >
                   <animate
                     attributeName="opacity"
@@ -1361,68 +1711,24 @@ function FSMVisualization({
         })}
       </svg>
 
-      {/* Traffic light visualization */}
       <div className="flex items-center gap-6 mt-4">
-        <div className="flex flex-col items-center gap-2">
-          <div
-            className="w-16 h-44 rounded-xl flex flex-col items-center justify-center gap-2 p-2"
-            style={{
-              background: "#1a1a24",
-              border: "2px solid #2a2a3e",
-            }}
-          >
-            {/* Red light */}
-            <motion.div
-              animate={{
-                background:
-                  currentState === "RED" || currentState === "RED_WAIT"
-                    ? "#ef4444"
-                    : "#2a2a2a",
-                boxShadow:
-                  currentState === "RED" || currentState === "RED_WAIT"
-                    ? "0 0 20px rgba(239,68,68,0.6)"
-                    : "none",
-              }}
-              className="w-10 h-10 rounded-full"
-            />
-            {/* Yellow light */}
-            <motion.div
-              animate={{
-                background: currentState === "YELLOW" ? "#f59e0b" : "#2a2a2a",
-                boxShadow:
-                  currentState === "YELLOW"
-                    ? "0 0 20px rgba(245,158,11,0.6)"
-                    : "none",
-              }}
-              className="w-10 h-10 rounded-full"
-            />
-            {/* Green light */}
-            <motion.div
-              animate={{
-                background: currentState === "GREEN" ? "#10b981" : "#2a2a2a",
-                boxShadow:
-                  currentState === "GREEN"
-                    ? "0 0 20px rgba(16,185,129,0.6)"
-                    : "none",
-              }}
-              className="w-10 h-10 rounded-full"
-            />
-          </div>
-        </div>
+        {children}
 
         {/* State transition table */}
-        <div className="text-xs">
+        <div className="text-xs max-h-48 overflow-y-auto">
           <table>
             <thead>
               <tr>
                 <th className="px-3 py-1.5 text-left font-medium text-[#71717a]">Current</th>
                 <th className="px-3 py-1.5 text-left font-medium text-[#71717a]">Condition</th>
                 <th className="px-3 py-1.5 text-left font-medium text-[#71717a]">Next</th>
+                {isMealy && <th className="px-3 py-1.5 text-left font-medium text-[#71717a]">Output</th>}
               </tr>
             </thead>
             <tbody>
-              {FSM_TRANSITIONS.map((t, idx) => {
-                const isActive = t.from === currentState;
+              {machine.transitions.map((t, idx) => {
+                const isActive = idx === lastTransition;
+                const name = (id: string) => machine.states.find((s) => s.id === id)?.name ?? "?";
                 return (
                   <tr
                     key={idx}
@@ -1431,26 +1737,19 @@ function FSMVisualization({
                     }}
                   >
                     <td className="px-3 py-1.5">
-                      <span
-                        className="font-mono"
-                        style={{
-                          color: FSM_STATES.find((s) => s.id === t.from)?.color || "#71717a",
-                        }}
-                      >
-                        {t.from}
+                      <span className="font-mono" style={{ color: colors[t.from] || "#71717a" }}>
+                        {name(t.from)}
                       </span>
                     </td>
-                    <td className="px-3 py-1.5 font-mono text-[#71717a]">{t.label}</td>
+                    <td className="px-3 py-1.5 font-mono text-[#71717a]">{conditionLabel(machine, t.condition)}</td>
                     <td className="px-3 py-1.5">
-                      <span
-                        className="font-mono"
-                        style={{
-                          color: FSM_STATES.find((s) => s.id === t.to)?.color || "#71717a",
-                        }}
-                      >
-                        {t.to}
+                      <span className="font-mono" style={{ color: colors[t.to] || "#71717a" }}>
+                        {name(t.to)}
                       </span>
                     </td>
+                    {isMealy && (
+                      <td className="px-3 py-1.5 font-mono text-[#a1a1aa]">{outputLabel(machine, t.output)}</td>
+                    )}
                   </tr>
                 );
               })}
@@ -1462,6 +1761,501 @@ function FSMVisualization({
   );
 }
 
+function TrafficLight({ currentState }: { currentState: string }) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div
+        className="w-16 h-44 rounded-xl flex flex-col items-center justify-center gap-2 p-2"
+        style={{
+          background: "#1a1a24",
+          border: "2px solid #2a2a3e",
+        }}
+      >
+        {/* Red light */}
+        <motion.div
+          animate={{
+            background:
+              currentState === "RED" || currentState === "RED_WAIT"
+                ? "#ef4444"
+                : "#2a2a2a",
+            boxShadow:
+              currentState === "RED" || currentState === "RED_WAIT"
+                ? "0 0 20px rgba(239,68,68,0.6)"
+                : "none",
+          }}
+          className="w-10 h-10 rounded-full"
+        />
+        {/* Yellow light */}
+        <motion.div
+          animate={{
+            background: currentState === "YELLOW" ? "#f59e0b" : "#2a2a2a",
+            boxShadow:
+              currentState === "YELLOW"
+                ? "0 0 20px rgba(245,158,11,0.6)"
+                : "none",
+          }}
+          className="w-10 h-10 rounded-full"
+        />
+        {/* Green light */}
+        <motion.div
+          animate={{
+            background: currentState === "GREEN" ? "#10b981" : "#2a2a2a",
+            boxShadow:
+              currentState === "GREEN"
+                ? "0 0 20px rgba(16,185,129,0.6)"
+                : "none",
+          }}
+          className="w-10 h-10 rounded-full"
+        />
+      </div>
+    </div>
+  );
+}
+
+// ─── FSM Designer ─────────────────────────────────────────────────────────────
+
+const FIELD_CLASS =
+  "px-2 py-1 rounded bg-[#0a0a0f] border border-[#2a2a3e] text-white font-mono text-xs focus:outline-none focus:border-[#6366f1]";
+
+const ENCODING_LABELS: Record<FsmEncoding, string> = {
+  binary: "Binary",
+  "one-hot": "One-hot",
+  gray: "Gray",
+};
+
+function ToggleButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+      style={{
+        background: active ? "rgba(99,102,241,0.12)" : "transparent",
+        color: active ? "#6366f1" : "#71717a",
+        border: active ? "1px solid rgba(99,102,241,0.2)" : "1px solid transparent",
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Comma-separated signal names, committed on blur or Enter so half-typed names don't reshape the machine. */
+function SignalField({
+  label,
+  names,
+  limit,
+  onCommit,
+}: {
+  label: string;
+  names: string[];
+  limit?: number;
+  onCommit: (names: string[]) => void;
+}) {
+  const commit = (text: string) => {
+    const next = text.split(/[\s,]+/).filter(Boolean).slice(0, limit);
+    if (next.join(",") !== names.join(",")) onCommit(next);
+  };
+  return (
+    <label className="flex items-center gap-2 text-xs text-[#71717a]">
+      {label}
+      <input
+        key={names.join(",")}
+        defaultValue={names.join(", ")}
+        onBlur={(e) => commit(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && commit(e.currentTarget.value)}
+        className={`${FIELD_CLASS} w-40`}
+        aria-label={`${label} names`}
+      />
+    </label>
+  );
+}
+
+function FSMDesigner({
+  machine,
+  onChange,
+  colors,
+  stream,
+  streamValid,
+  onStreamChange,
+  preset,
+  onPreset,
+  encoding,
+  onEncodingChange,
+  onMinimize,
+  minimizeNote,
+}: {
+  machine: FsmMachine;
+  onChange: (machine: FsmMachine) => void;
+  colors: Record<string, string>;
+  stream: string;
+  streamValid: boolean;
+  onStreamChange: (text: string) => void;
+  preset: string | null;
+  onPreset: (preset: FSMPreset) => void;
+  encoding: FsmEncoding;
+  onEncodingChange: (encoding: FsmEncoding) => void;
+  onMinimize: () => void;
+  minimizeNote: string | null;
+}) {
+  const issues = useMemo(() => fsmIssues(machine), [machine]);
+  const codes = useMemo(() => encodeStates(machine, encoding), [machine, encoding]);
+  const verilog = useMemo(() => fsmToVerilog(machine, encoding), [machine, encoding]);
+  const k = machine.inputs.length;
+  const m = machine.outputs.length;
+  const isMoore = machine.kind === "moore";
+
+  const updateState = (id: string, patch: Partial<FsmMachine["states"][number]>) =>
+    onChange({ ...machine, states: machine.states.map((s) => (s.id === id ? { ...s, ...patch } : s)) });
+
+  const updateTransition = (index: number, patch: Partial<FsmMachine["transitions"][number]>) =>
+    onChange({ ...machine, transitions: machine.transitions.map((t, i) => (i === index ? { ...t, ...patch } : t)) });
+
+  const addState = () => {
+    const ids = new Set(machine.states.map((s) => s.id));
+    let n = machine.states.length;
+    while (ids.has(`s${n}`)) n++;
+    onChange({ ...machine, states: [...machine.states, { id: `s${n}`, name: `S${n}`, output: "0".repeat(m) }] });
+  };
+
+  const removeState = (id: string) => {
+    const states = machine.states.filter((s) => s.id !== id);
+    onChange({
+      ...machine,
+      states,
+      transitions: machine.transitions.filter((t) => t.from !== id && t.to !== id),
+      initial: machine.initial === id ? states[0].id : machine.initial,
+    });
+  };
+
+  const addTransition = () => {
+    const first = machine.states[0].id;
+    onChange({
+      ...machine,
+      transitions: [...machine.transitions, { from: first, to: first, condition: "-".repeat(k), output: "0".repeat(m) }],
+    });
+  };
+
+  const download = () => {
+    const file = machine.name.replace(/[^A-Za-z0-9_]+/g, "_").toLowerCase() || "fsm";
+    downloadBlob(new Blob([verilog], { type: "text/plain" }), `${file}.v`);
+  };
+
+  const stateIssues = (id: string) => issues.some((issue) => issue.stateId === id);
+  const transitionIssues = (index: number) => issues.some((issue) => issue.transition === index);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="mt-4 rounded-2xl overflow-hidden"
+      style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
+    >
+      <div
+        className="flex flex-wrap items-center gap-3 px-5 py-3.5 border-b"
+        style={{ borderColor: COLORS.border }}
+      >
+        <CircleDot size={14} className="text-[#6366f1]" />
+        <span className="text-sm font-semibold text-white">FSM Designer</span>
+        <div className="flex-1" />
+        <div className="flex flex-wrap items-center gap-1">
+          {FSM_PRESETS.map((p) => (
+            <ToggleButton key={p.id} active={preset === p.id} onClick={() => onPreset(p)}>
+              <span title={p.description}>{p.label}</span>
+            </ToggleButton>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-5 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* ── Machine definition ── */}
+        <div className="space-y-4 min-w-0">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-[#71717a]">
+              Name
+              <input
+                value={machine.name}
+                onChange={(e) => onChange({ ...machine, name: e.target.value })}
+                className={`${FIELD_CLASS} w-40`}
+              />
+            </label>
+            <div className="flex items-center gap-1">
+              {(["moore", "mealy"] as const).map((kind) => (
+                <ToggleButton
+                  key={kind}
+                  active={machine.kind === kind}
+                  onClick={() => onChange(normalizeMachine({ ...machine, kind }))}
+                >
+                  {kind === "moore" ? "Moore" : "Mealy"}
+                </ToggleButton>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <SignalField
+              label="Inputs"
+              names={machine.inputs}
+              limit={MAX_FSM_INPUTS}
+              onCommit={(inputs) => onChange(normalizeMachine({ ...machine, inputs }))}
+            />
+            <SignalField
+              label="Outputs"
+              names={machine.outputs}
+              onCommit={(outputs) => onChange(normalizeMachine({ ...machine, outputs }))}
+            />
+          </div>
+
+          {/* States */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold text-[#a1a1aa]">States</span>
+              <button
+                onClick={addState}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] text-[#a1a1aa] hover:text-white hover:bg-[#1e1e2e] transition-colors"
+              >
+                <Plus size={12} /> State
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {machine.states.map((state) => (
+                <div
+                  key={state.id}
+                  className="flex items-center gap-2 px-2 py-1.5 rounded-lg"
+                  style={{ border: `1px solid ${stateIssues(state.id) ? "rgba(239,68,68,0.4)" : COLORS.border}` }}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ background: colors[state.id] }} />
+                  <input
+                    value={state.name}
+                    onChange={(e) => updateState(state.id, { name: e.target.value })}
+                    className={`${FIELD_CLASS} w-28`}
+                    aria-label="State name"
+                  />
+                  {isMoore && m > 0 && (
+                    <input
+                      value={state.output}
+                      onChange={(e) => updateState(state.id, { output: e.target.value.replace(/[^01]/g, "") })}
+                      maxLength={m}
+                      placeholder={"0".repeat(m)}
+                      className={`${FIELD_CLASS} w-16`}
+                      aria-label={`Output bits (${machine.outputs.join(", ")})`}
+                      title={machine.outputs.join(", ")}
+                    />
+                  )}
+                  <label className="flex items-center gap-1 text-[11px] text-[#71717a]">
+                    <input
+                      type="radio"
+                      checked={machine.initial === state.id}
+                      onChange={() => onChange({ ...machine, initial: state.id })}
+                      className="accent-[#6366f1]"
+                    />
+                    initial
+                  </label>
+                  <button
+                    onClick={() => removeState(state.id)}
+                    disabled={machine.states.length === 1}
+                    className="ml-auto p-1 rounded text-[#71717a] hover:text-[#ef4444] disabled:opacity-30 transition-colors"
+                    aria-label={`Delete ${state.name}`}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Transitions */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold text-[#a1a1aa]">
+                Transitions{" "}
+                <span className="font-normal text-[#71717a]">
+                  {k > 0 ? `condition per input: ${machine.inputs.join(", ")}` : "no inputs: every edge fires"}
+                </span>
+              </span>
+              <button
+                onClick={addTransition}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] text-[#a1a1aa] hover:text-white hover:bg-[#1e1e2e] transition-colors"
+              >
+                <Plus size={12} /> Transition
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {machine.transitions.map((t, i) => (
+                <div
+                  key={i}
+                  className="flex flex-wrap items-center gap-2 px-2 py-1.5 rounded-lg"
+                  style={{ border: `1px solid ${transitionIssues(i) ? "rgba(239,68,68,0.4)" : COLORS.border}` }}
+                >
+                  <select
+                    value={t.from}
+                    onChange={(e) => updateTransition(i, { from: e.target.value })}
+                    className={FIELD_CLASS}
+                    aria-label="From state"
+                  >
+                    {machine.states.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
+                  {k > 0 && (
+                    <input
+                      value={t.condition}
+                      onChange={(e) => updateTransition(i, { condition: e.target.value.replace(/[^01-]/g, "") })}
+                      maxLength={k}
+                      placeholder={"-".repeat(k)}
+                      className={`${FIELD_CLASS} w-16`}
+                      aria-label="Condition"
+                      title={conditionLabel(machine, t.condition)}
+                    />
+                  )}
+                  <ArrowRight size={12} className="text-[#71717a]" />
+                  <select
+                    value={t.to}
+                    onChange={(e) => updateTransition(i, { to: e.target.value })}
+                    className={FIELD_CLASS}
+                    aria-label="To state"
+                  >
+                    {machine.states.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
+                  {!isMoore && m > 0 && (
+                    <>
+                      <span className="text-[11px] text-[#71717a]">/</span>
+                      <input
+                        value={t.output}
+                        onChange={(e) => updateTransition(i, { output: e.target.value.replace(/[^01]/g, "") })}
+                        maxLength={m}
+                        placeholder={"0".repeat(m)}
+                        className={`${FIELD_CLASS} w-16`}
+                        aria-label={`Output bits (${machine.outputs.join(", ")})`}
+                        title={machine.outputs.join(", ")}
+                      />
+                    </>
+                  )}
+                  <span className="text-[10px] font-mono text-[#52525b]">{conditionLabel(machine, t.condition)}</span>
+                  <button
+                    onClick={() => onChange({ ...machine, transitions: machine.transitions.filter((_, j) => j !== i) })}
+                    className="ml-auto p-1 rounded text-[#71717a] hover:text-[#ef4444] transition-colors"
+                    aria-label="Delete transition"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* ── Simulation, minimization and export ── */}
+        <div className="space-y-4 min-w-0">
+          {k > 0 && (
+            <label className="block text-xs text-[#71717a]">
+              Input stream: one vector of {machine.inputs.join(", ")} per cycle, repeating
+              <input
+                value={stream}
+                onChange={(e) => onStreamChange(e.target.value)}
+                className={`${FIELD_CLASS} w-full mt-1`}
+                style={{ borderColor: streamValid ? undefined : "#ef4444" }}
+              />
+              {!streamValid && (
+                <span className="block mt-1 text-[11px] text-[#ef4444]">
+                  Each vector needs {k} bit{k === 1 ? "" : "s"}; inputs read 0 until fixed
+                </span>
+              )}
+            </label>
+          )}
+
+          {issues.length > 0 && (
+            <div
+              className="rounded-lg px-3 py-2 space-y-1"
+              style={{ background: "rgba(245,158,11,0.06)", border: "1px solid rgba(245,158,11,0.2)" }}
+            >
+              {issues.map((issue, i) => (
+                <div key={i} className="text-[11px] text-[#f59e0b]">
+                  {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={onMinimize}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-[#10b981] transition-colors hover:bg-[#10b981]/10"
+              style={{ border: "1px solid rgba(16,185,129,0.3)" }}
+            >
+              <Minimize2 size={12} /> Minimize (Hopcroft)
+            </button>
+            {minimizeNote && <span className="text-[11px] text-[#a1a1aa]">{minimizeNote}</span>}
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-xs font-semibold text-[#a1a1aa]">State encoding</span>
+              <div className="flex items-center gap-1">
+                {FSM_ENCODINGS.map((e) => (
+                  <ToggleButton key={e} active={encoding === e} onClick={() => onEncodingChange(e)}>
+                    {ENCODING_LABELS[e]}
+                  </ToggleButton>
+                ))}
+              </div>
+              <span className="ml-auto text-[11px] font-mono text-[#71717a]">
+                {Object.values(codes)[0]?.length ?? 0} flip-flops
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {machine.states.map((s) => (
+                <span
+                  key={s.id}
+                  className="px-2 py-1 rounded text-[11px] font-mono"
+                  style={{ background: `${colors[s.id]}12`, color: colors[s.id] }}
+                >
+                  {s.name} = {codes[s.id]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <FileCode size={12} className="text-[#06b6d4]" />
+              <span className="text-xs font-semibold text-[#a1a1aa]">Verilog</span>
+              {issues.length > 0 && (
+                <span className="text-[11px] text-[#f59e0b]">fix the issues above before synthesis</span>
+              )}
+              <button
+                onClick={download}
+                className="ml-auto flex items-center gap-1 px-2 py-1 rounded-md text-[11px] text-[#a1a1aa] hover:text-white hover:bg-[#1e1e2e] transition-colors"
+              >
+                <Download size={12} /> .v
+              </button>
+            </div>
+            <pre
+              className="text-[11px] leading-relaxed font-mono text-[#a1a1aa] rounded-lg p-3 overflow-auto max-h-72"
+              style={{ background: COLORS.bg, border: `1px solid ${COLORS.border}` }}
+            >
+              {verilog}
+            </pre>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
 // ─── Metric Card ──────────────────────────────────────────────────────────────
 
 function MetricCard({
@@ -1,10 +1,22 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Zap, Plus, Minus, AlertTriangle, RotateCcw, ChevronDown, Info, CircleDot, Cpu, Binary, ArrowRight, Hash } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  DIVIDE_ALGORITHMS,
+  MULTIPLY_ALGORITHMS,
+  isSigned,
+  runMulDiv,
+  toBits,
+  type MulDivAction,
+  type MulDivAlgorithm,
+  type MulDivRun,
+} from "@/lib/sim/muldiv";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -12,7 +24,9 @@ type OperationType =
   | "twos-complement"
   | "addition"
   | "subtraction"
-  | "overflow";
+  | "overflow"
+  | "multiplication"
+  | "division";
 
 type AnimationPhase =
   | "idle"
@@ -23,7 +37,8 @@ type AnimationPhase =
   | "result-show"
   | "negate"
   | "add-step"
-  | "overflow-check";
+  | "overflow-check"
+  | "register-step";
 
 interface ScenarioPreset {
   id: string;
@@ -32,12 +47,15 @@ interface ScenarioPreset {
   operandA: number[];
   operandB: number[];
   description: string;
+  algorithm?: MulDivAlgorithm;
 }
 
 interface StepInfo {
   phase: AnimationPhase;
   bitPosition: number;
   description: string;
+  /** Index into the multiply/divide run's register steps. */
+  runStep?: number;
 }
 
 interface OperationInfo {
@@ -60,7 +78,25 @@ const COLORS = {
   muted: "#71717a",
 };
 
-const BIT_WIDTH = 8;
+const DEFAULT_BIT_WIDTH = 8;
+const BIT_WIDTHS = [4, 8, 12, 16];
+
+const OPERATION_LABELS: Record<OperationType, string> = {
+  "twos-complement": "Two's Complement",
+  addition: "Binary Addition",
+  subtraction: "Binary Subtraction",
+  overflow: "Overflow Detection",
+  multiplication: "Multiplication",
+  division: "Division",
+};
+
+const ALGORITHM_LABELS: Record<MulDivAlgorithm, string> = {
+  "shift-add": "Shift & Add",
+  "booth-2": "Booth Radix-2",
+  "booth-4": "Booth Radix-4",
+  restoring: "Restoring",
+  "non-restoring": "Non-restoring",
+};
 
 const SCENARIO_PRESETS: ScenarioPreset[] = [
   {
@@ -95,6 +131,33 @@ const SCENARIO_PRESETS: ScenarioPreset[] = [
     operandB: [0, 0, 0, 0, 0, 0, 0, 1], // 1
     description: "127 + 1 causes signed overflow: result appears negative",
   },
+  {
+    id: "shift-add-multiply",
+    label: "Shift & Add",
+    operation: "multiplication",
+    algorithm: "shift-add",
+    operandA: [0, 0, 0, 0, 1, 1, 0, 1], // 13
+    operandB: [0, 0, 0, 0, 1, 0, 1, 1], // 11
+    description: "13 × 11 = 143, one conditional add of the multiplicand per multiplier bit",
+  },
+  {
+    id: "booth-negative",
+    label: "Booth (Signed)",
+    operation: "multiplication",
+    algorithm: "booth-2",
+    operandA: [1, 1, 1, 1, 1, 0, 0, 1], // -7
+    operandB: [0, 0, 1, 1, 1, 1, 0, 0], // 60
+    description: "-7 × 60 = -420, Booth recoding turns the run of 1s in 60 into one subtract and one add",
+  },
+  {
+    id: "restoring-division",
+    label: "Long Division",
+    operation: "division",
+    algorithm: "restoring",
+    operandA: [1, 1, 0, 0, 1, 0, 0, 0], // 200
+    operandB: [0, 0, 0, 0, 0, 1, 1, 1], // 7
+    description: "200 ÷ 7 = 28 remainder 4, trial subtraction with a restore whenever the divisor does not fit",
+  },
 ];
 
 const OPERATION_INFO: Record<OperationType, OperationInfo> = {
@@ -138,6 +201,26 @@ const OPERATION_INFO: Record<OperationType, OperationInfo> = {
       "CPUs set separate flags: Overflow (V) for signed, Carry (C) for unsigned",
     ],
   },
+  multiplication: {
+    title: "Binary Multiplication",
+    description: "Hardware multiplies the way long multiplication works on paper, one multiplier bit at a time: add a shifted copy of the multiplicand when the bit is 1, then shift. An n-bit by n-bit product needs 2n bits, held in the accumulator A and the multiplier register Q together.",
+    details: [
+      "Shift & add (unsigned): Q₀ = 1 adds M into A, then C:A:Q shifts right. n iterations, up to n adds",
+      "Booth radix-2 (signed): look at Q₀Q₋₁. 10 starts a run of 1s (subtract M), 01 ends one (add M), 00/11 do nothing",
+      "Booth radix-4: recode three bits Q₁Q₀Q₋₁ into a digit in {-2, -1, 0, +1, +2} and shift by 2, halving the iterations",
+      "Arithmetic shifts copy the sign bit of A so negative partial products stay negative",
+    ],
+  },
+  division: {
+    title: "Binary Division",
+    description: "Division is repeated trial subtraction. Each iteration shifts the next dividend bit into the remainder register A, subtracts the divisor, and records a quotient bit of 1 if it fit or 0 if A went negative. Operands are unsigned; dividing by zero is undefined.",
+    details: [
+      "Restoring: when A - M goes negative, add M back before the next iteration. Up to 2n adder passes",
+      "Non-restoring: keep the negative A and add M on the next iteration instead of subtracting. Exactly n passes plus one final correction",
+      "After n iterations Q holds the quotient and A the remainder",
+      "A has one extra bit so its sign shows whether the subtraction went below zero",
+    ],
+  },
 };
 
 // ─── Helper Functions ─────────────────────────────────────────────────────────
@@ -145,7 +228,7 @@ const OPERATION_INFO: Record<OperationType, OperationInfo> = {
 function bitsToUnsigned(bits: number[]): number {
   let value = 0;
   for (let i = 0; i < bits.length; i++) {
-    value = (value << 1) | bits[i];
+    value = value * 2 + bits[i];
   }
   return value;
 }
@@ -196,11 +279,14 @@ function detectOverflow(a: number[], b: number[], result: number[]): boolean {
 export default function BinaryArithmeticPage() {
   // ── Core state ──────────────────────────────────────────────────────────────
   const [operation, setOperation] = useState<OperationType>("addition");
+  const [bitWidth, setBitWidth] = useState(DEFAULT_BIT_WIDTH);
+  const [mulAlgorithm, setMulAlgorithm] = useState<MulDivAlgorithm>("shift-add");
+  const [divAlgorithm, setDivAlgorithm] = useState<MulDivAlgorithm>("restoring");
   const [operandA, setOperandA] = useState<number[]>([0, 0, 0, 0, 0, 1, 0, 1]); // 5
   const [operandB, setOperandB] = useState<number[]>([0, 0, 0, 0, 0, 0, 1, 1]); // 3
-  const [resultBits, setResultBits] = useState<number[]>(new Array(BIT_WIDTH).fill(0));
-  const [carries, setCarries] = useState<number[]>(new Array(BIT_WIDTH + 1).fill(0));
-  const [flippedBits, setFlippedBits] = useState<number[]>(new Array(BIT_WIDTH).fill(0));
+  const [resultBits, setResultBits] = useState<number[]>(new Array(bitWidth).fill(0));
+  const [carries, setCarries] = useState<number[]>(new Array(bitWidth + 1).fill(0));
+  const [flippedBits, setFlippedBits] = useState<number[]>(new Array(bitWidth).fill(0));
   const [currentBitPos, setCurrentBitPos] = useState(-1);
   const [phase, setPhase] = useState<AnimationPhase>("idle");
   const [stepIndex, setStepIndex] = useState(0);
@@ -213,8 +299,25 @@ export default function BinaryArithmeticPage() {
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
   const [stepDescription, setStepDescription] = useState("Ready. Press Play or Step to begin.");
-  const [negatedBits, setNegatedBits] = useState<number[]>(new Array(BIT_WIDTH).fill(0));
+  const [negatedBits, setNegatedBits] = useState<number[]>(new Array(bitWidth).fill(0));
   const [showSubtractionIntermediate, setShowSubtractionIntermediate] = useState(false);
+  const [runIndex, setRunIndex] = useState(-1);
+  const [activeScenario, setActiveScenario] = useState("simple-addition");
+
+  // ── Multiply / divide run ───────────────────────────────────────────────────
+  const isMulDiv = operation === "multiplication" || operation === "division";
+  const algorithm = operation === "division" ? divAlgorithm : mulAlgorithm;
+  const mulDivRun = useMemo((): MulDivRun | null => {
+    if (operation !== "multiplication" && operation !== "division") return null;
+    const read = isSigned(algorithm) ? bitsToSigned : bitsToUnsigned;
+    try {
+      return runMulDiv(algorithm, read(operandA), read(operandB), bitWidth);
+    } catch (e) {
+      // Division by zero: the page explains instead of stepping.
+      if (e instanceof RangeError) return null;
+      throw e;
+    }
+  }, [operation, algorithm, operandA, operandB, bitWidth]);
 
   // ── Refs ────────────────────────────────────────────────────────────────────
   const isPlayingRef = useRef(false);
@@ -239,28 +342,28 @@ export default function BinaryArithmeticPage() {
     switch (operation) {
       case "twos-complement": {
         // Phase 1: Flip each bit one by one
-        for (let i = 0; i < BIT_WIDTH; i++) {
+        for (let i = 0; i < bitWidth; i++) {
           steps.push({
             phase: "flip-bits",
             bitPosition: i,
-            description: `Flip bit ${BIT_WIDTH - 1 - i}: ${operandA[i]} becomes ${operandA[i] === 0 ? 1 : 0}`,
+            description: `Flip bit ${bitWidth - 1 - i}: ${operandA[i]} becomes ${operandA[i] === 0 ? 1 : 0}`,
           });
         }
         // Phase 2: Add 1 (carry propagation from LSB)
         const flipped = flipBits(operandA);
-        const one = new Array(BIT_WIDTH).fill(0);
-        one[BIT_WIDTH - 1] = 1;
+        const one = new Array(bitWidth).fill(0);
+        one[bitWidth - 1] = 1;
         let carry = 0;
-        for (let i = BIT_WIDTH - 1; i >= 0; i--) {
-          const addVal = i === BIT_WIDTH - 1 ? 1 : 0;
+        for (let i = bitWidth - 1; i >= 0; i--) {
+          const addVal = i === bitWidth - 1 ? 1 : 0;
           const sum = flipped[i] + addVal + carry;
           carry = Math.floor(sum / 2);
           steps.push({
             phase: "add-one",
             bitPosition: i,
-            description: `Add 1: position ${BIT_WIDTH - 1 - i}, ${flipped[i]} + ${addVal} + carry(${carry > 0 && i < BIT_WIDTH - 1 ? 1 : 0}) = ${sum % 2}${Math.floor(sum / 2) > 0 ? " (carry)" : ""}`,
+            description: `Add 1: position ${bitWidth - 1 - i}, ${flipped[i]} + ${addVal} + carry(${carry > 0 && i < bitWidth - 1 ? 1 : 0}) = ${sum % 2}${Math.floor(sum / 2) > 0 ? " (carry)" : ""}`,
           });
-          if (carry === 0 && i < BIT_WIDTH - 1) break;
+          if (carry === 0 && i < bitWidth - 1) break;
         }
         steps.push({
           phase: "complete",
@@ -272,11 +375,11 @@ export default function BinaryArithmeticPage() {
       case "addition":
       case "overflow": {
         // Carry propagation right to left
-        for (let i = BIT_WIDTH - 1; i >= 0; i--) {
+        for (let i = bitWidth - 1; i >= 0; i--) {
           steps.push({
             phase: "carry-propagate",
             bitPosition: i,
-            description: `Add bit position ${BIT_WIDTH - 1 - i}: ${operandA[i]} + ${operandB[i]}`,
+            description: `Add bit position ${bitWidth - 1 - i}: ${operandA[i]} + ${operandB[i]}`,
           });
         }
         steps.push({
@@ -297,25 +400,25 @@ export default function BinaryArithmeticPage() {
       }
       case "subtraction": {
         // Phase 1: Negate B (flip bits)
-        for (let i = 0; i < BIT_WIDTH; i++) {
+        for (let i = 0; i < bitWidth; i++) {
           steps.push({
             phase: "negate",
             bitPosition: i,
-            description: `Negate B: flip bit ${BIT_WIDTH - 1 - i}: ${operandB[i]} becomes ${operandB[i] === 0 ? 1 : 0}`,
+            description: `Negate B: flip bit ${bitWidth - 1 - i}: ${operandB[i]} becomes ${operandB[i] === 0 ? 1 : 0}`,
           });
         }
         // Phase 1b: Add 1 to complete two's complement
         steps.push({
           phase: "add-one",
-          bitPosition: BIT_WIDTH - 1,
+          bitPosition: bitWidth - 1,
           description: "Add 1 to complete two's complement of B",
         });
         // Phase 2: Add A + (-B)
-        for (let i = BIT_WIDTH - 1; i >= 0; i--) {
+        for (let i = bitWidth - 1; i >= 0; i--) {
           steps.push({
             phase: "add-step",
             bitPosition: i,
-            description: `Add: A[${BIT_WIDTH - 1 - i}] + (-B)[${BIT_WIDTH - 1 - i}]`,
+            description: `Add: A[${bitWidth - 1 - i}] + (-B)[${bitWidth - 1 - i}]`,
           });
         }
         steps.push({
@@ -330,10 +433,31 @@ export default function BinaryArithmeticPage() {
         });
         break;
       }
+      case "multiplication":
+      case "division": {
+        if (!mulDivRun) {
+          steps.push({
+            phase: "complete",
+            bitPosition: -1,
+            description: "Division by zero is undefined. Set B to a non-zero divisor.",
+          });
+          break;
+        }
+        mulDivRun.steps.forEach((runStep, i) => {
+          const last = i === mulDivRun.steps.length - 1;
+          steps.push({
+            phase: last ? "complete" : "register-step",
+            bitPosition: -1,
+            runStep: i,
+            description: runStep.iteration > 0 && !last ? `Iteration ${runStep.iteration}: ${runStep.description}` : runStep.description,
+          });
+        });
+        break;
+      }
     }
 
     return steps;
-  }, [operation, operandA, operandB]);
+  }, [operation, operandA, operandB, bitWidth, mulDivRun]);
 
   // ── Execute a single step ───────────────────────────────────────────────────
   const executeStep = useCallback((step: StepInfo, idx: number) => {
@@ -341,6 +465,7 @@ export default function BinaryArithmeticPage() {
     setCurrentBitPos(step.bitPosition);
     setPhase(step.phase);
     setStepIndex(idx);
+    if (step.runStep !== undefined) setRunIndex(step.runStep);
 
     switch (step.phase) {
       case "flip-bits": {
@@ -356,8 +481,8 @@ export default function BinaryArithmeticPage() {
         if (operation === "twos-complement") {
           // Add 1 to flipped bits
           setFlippedBits((prevFlipped) => {
-            const one = new Array(BIT_WIDTH).fill(0);
-            one[BIT_WIDTH - 1] = 1;
+            const one = new Array(bitWidth).fill(0);
+            one[bitWidth - 1] = 1;
             const { result: addResult } = addBits(prevFlipped, one);
             setResultBits(addResult);
             return prevFlipped;
@@ -365,8 +490,8 @@ export default function BinaryArithmeticPage() {
         } else if (operation === "subtraction") {
           // Complete two's complement of B
           const flippedB = flipBits(operandB);
-          const one = new Array(BIT_WIDTH).fill(0);
-          one[BIT_WIDTH - 1] = 1;
+          const one = new Array(bitWidth).fill(0);
+          one[bitWidth - 1] = 1;
           const { result: negB } = addBits(flippedB, one);
           setNegatedBits(negB);
           setShowSubtractionIntermediate(true);
@@ -378,7 +503,7 @@ export default function BinaryArithmeticPage() {
         const pos = step.bitPosition;
         setCarries((prevCarries) => {
           const newCarries = [...prevCarries];
-          const carryIn = pos < BIT_WIDTH - 1 ? newCarries[pos + 1] : 0;
+          const carryIn = pos < bitWidth - 1 ? newCarries[pos + 1] : 0;
           const sum = operandA[pos] + operandB[pos] + carryIn;
           newCarries[pos] = Math.floor(sum / 2);
 
@@ -410,7 +535,7 @@ export default function BinaryArithmeticPage() {
         const pos = step.bitPosition;
         setCarries((prevCarries) => {
           const newCarries = [...prevCarries];
-          const carryIn = pos < BIT_WIDTH - 1 ? newCarries[pos + 1] : 0;
+          const carryIn = pos < bitWidth - 1 ? newCarries[pos + 1] : 0;
           const bVal = negatedBits[pos];
           const sum = operandA[pos] + bVal + carryIn;
           newCarries[pos] = Math.floor(sum / 2);
@@ -438,8 +563,18 @@ export default function BinaryArithmeticPage() {
         });
         break;
       }
+      case "register-step": {
+        const addition = mulDivRun?.steps[step.runStep!].addition;
+        if (addition) {
+          setCarryCount((c) => c + addition.carries.filter(Boolean).length);
+        }
+        break;
+      }
       case "result-show":
       case "complete": {
+        if (mulDivRun && step.runStep !== undefined) {
+          setResultBits(mulDivRun.result);
+        }
         if (step.phase === "complete") {
           setIsComplete(true);
           setIsPlaying(false);
@@ -452,7 +587,7 @@ export default function BinaryArithmeticPage() {
         break;
       }
     }
-  }, [operation, operandA, operandB, negatedBits]);
+  }, [operation, operandA, operandB, negatedBits, bitWidth, mulDivRun]);
 
   // ── Step forward ────────────────────────────────────────────────────────────
   const stepForward = useCallback(() => {
@@ -524,10 +659,10 @@ export default function BinaryArithmeticPage() {
 
   const handleReset = useCallback(() => {
     handlePause();
-    setResultBits(new Array(BIT_WIDTH).fill(0));
-    setCarries(new Array(BIT_WIDTH + 1).fill(0));
-    setFlippedBits(new Array(BIT_WIDTH).fill(0));
-    setNegatedBits(new Array(BIT_WIDTH).fill(0));
+    setResultBits(new Array(bitWidth).fill(0));
+    setCarries(new Array(bitWidth + 1).fill(0));
+    setFlippedBits(new Array(bitWidth).fill(0));
+    setNegatedBits(new Array(bitWidth).fill(0));
     setCurrentBitPos(-1);
     setPhase("idle");
     setStepIndex(0);
@@ -536,12 +671,13 @@ export default function BinaryArithmeticPage() {
     setHasOverflow(false);
     setIsComplete(false);
     setShowSubtractionIntermediate(false);
+    setRunIndex(-1);
     setStepDescription("Ready. Press Play or Step to begin.");
     // Rebuild steps
     const steps = buildSteps();
     stepsRef.current = steps;
     setTotalSteps(steps.length);
-  }, [handlePause, buildSteps]);
+  }, [handlePause, buildSteps, bitWidth]);
 
   // Toggle individual bit
   const toggleBit = useCallback((operand: "A" | "B", index: number) => {
@@ -565,13 +701,20 @@ export default function BinaryArithmeticPage() {
   const applyPreset = useCallback(
     (preset: ScenarioPreset) => {
       handlePause();
+      setActiveScenario(preset.id);
+      const width = preset.operandA.length;
       setOperation(preset.operation);
+      setBitWidth(width);
+      if (preset.algorithm) {
+        if (preset.operation === "division") setDivAlgorithm(preset.algorithm);
+        else setMulAlgorithm(preset.algorithm);
+      }
       setOperandA([...preset.operandA]);
       setOperandB([...preset.operandB]);
-      setResultBits(new Array(BIT_WIDTH).fill(0));
-      setCarries(new Array(BIT_WIDTH + 1).fill(0));
-      setFlippedBits(new Array(BIT_WIDTH).fill(0));
-      setNegatedBits(new Array(BIT_WIDTH).fill(0));
+      setResultBits(new Array(width).fill(0));
+      setCarries(new Array(width + 1).fill(0));
+      setFlippedBits(new Array(width).fill(0));
+      setNegatedBits(new Array(width).fill(0));
       setCurrentBitPos(-1);
       setPhase("idle");
       setStepIndex(0);
@@ -580,16 +723,27 @@ export default function BinaryArithmeticPage() {
       setHasOverflow(false);
       setIsComplete(false);
       setShowSubtractionIntermediate(false);
+      setRunIndex(-1);
       setStepDescription("Ready. Press Play or Step to begin.");
     },
     [handlePause]
   );
 
-  // Reset when operation changes
+  // Widening sign-extends operands that the algorithm reads as signed
+  const changeWidth = (width: number) => {
+    if (isPlaying || width === bitWidth) return;
+    const resize = (bits: number[]) =>
+      toBits(isMulDiv && isSigned(algorithm) ? bitsToSigned(bits) : bitsToUnsigned(bits), width);
+    setOperandA(resize(operandA));
+    setOperandB(resize(operandB));
+    setBitWidth(width);
+  };
+
+  // Reset when operation, algorithm or width changes
   useEffect(() => {
     handleReset();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [operation]);
+  }, [operation, mulAlgorithm, divAlgorithm, bitWidth]);
 
   // Reset when operands change
   useEffect(() => {
@@ -599,6 +753,11 @@ export default function BinaryArithmeticPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [operandA, operandB]);
 
+  useScenarioParam(
+    SCENARIO_PRESETS.map((p) => p.id),
+    (id) => applyPreset(SCENARIO_PRESETS.find((p) => p.id === id)!)
+  );
+
   // Cleanup
   useEffect(() => {
     return () => {
@@ -623,6 +782,7 @@ export default function BinaryArithmeticPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -648,6 +808,7 @@ export default function BinaryArithmeticPage() {
               two&apos;s complement negation unfold, and understand how computers perform
               arithmetic at the bit level.
             </p>
+            <ModuleLinks moduleId="1.5" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -692,13 +853,7 @@ export default function BinaryArithmeticPage() {
                 }}
               >
                 <Binary size={14} className="text-[#6366f1]" />
-                {operation === "twos-complement"
-                  ? "Two's Complement"
-                  : operation === "addition"
-                  ? "Binary Addition"
-                  : operation === "subtraction"
-                  ? "Binary Subtraction"
-                  : "Overflow Detection"}
+                {OPERATION_LABELS[operation]}
                 <ChevronDown
                   size={14}
                   className="text-[#71717a]"
@@ -724,13 +879,7 @@ export default function BinaryArithmeticPage() {
                       minWidth: "240px",
                     }}
                   >
-                    {(["twos-complement", "addition", "subtraction", "overflow"] as OperationType[]).map((op) => {
-                      const labels: Record<OperationType, string> = {
-                        "twos-complement": "Two's Complement",
-                        addition: "Binary Addition",
-                        subtraction: "Binary Subtraction",
-                        overflow: "Overflow Detection",
-                      };
+                    {(Object.keys(OPERATION_LABELS) as OperationType[]).map((op) => {
                       return (
                         <button
                           key={op}
@@ -750,7 +899,7 @@ export default function BinaryArithmeticPage() {
                             if (operation !== op) e.currentTarget.style.background = "transparent";
                           }}
                         >
-                          <span className="font-medium">{labels[op]}</span>
+                          <span className="font-medium">{OPERATION_LABELS[op]}</span>
                         </button>
                       );
                     })}
@@ -759,10 +908,55 @@ export default function BinaryArithmeticPage() {
               </AnimatePresence>
             </div>
 
+            {/* Bit width */}
+            <div
+              className="flex items-center gap-1 p-1 rounded-xl"
+              style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
+            >
+              {BIT_WIDTHS.map((width) => (
+                <button
+                  key={width}
+                  onClick={() => changeWidth(width)}
+                  disabled={isPlaying}
+                  aria-pressed={bitWidth === width}
+                  className="px-2.5 py-1.5 rounded-lg text-xs font-mono font-medium transition-all duration-200 disabled:opacity-50"
+                  style={{
+                    background: bitWidth === width ? "rgba(99,102,241,0.12)" : "transparent",
+                    color: bitWidth === width ? "#6366f1" : "#71717a",
+                  }}
+                >
+                  {width}-bit
+                </button>
+              ))}
+            </div>
+
+            {/* Multiply / divide algorithm */}
+            {isMulDiv && (
+              <div
+                className="flex items-center gap-1 p-1 rounded-xl"
+                style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
+              >
+                {(operation === "division" ? DIVIDE_ALGORITHMS : MULTIPLY_ALGORITHMS).map((alg) => (
+                  <button
+                    key={alg}
+                    onClick={() => (operation === "division" ? setDivAlgorithm(alg) : setMulAlgorithm(alg))}
+                    aria-pressed={algorithm === alg}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+                    style={{
+                      background: algorithm === alg ? "rgba(6,182,212,0.12)" : "transparent",
+                      color: algorithm === alg ? "#06b6d4" : "#71717a",
+                    }}
+                  >
+                    {ALGORITHM_LABELS[alg]}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="flex-1" />
 
             {/* Preset buttons */}
-            <div className="flex items-center gap-1">
+            <div className="flex flex-wrap items-center gap-1">
               {SCENARIO_PRESETS.map((preset) => (
                 <button
                   key={preset.id}
@@ -843,6 +1037,15 @@ export default function BinaryArithmeticPage() {
                   phase={phase}
                   toggleBit={toggleBit}
                 />
+              ) : isMulDiv ? (
+                <MulDivViz
+                  run={mulDivRun}
+                  runIndex={runIndex}
+                  algorithm={algorithm}
+                  operandA={operandA}
+                  operandB={operandB}
+                  toggleBit={toggleBit}
+                />
               ) : operation === "addition" || operation === "overflow" ? (
                 <AdditionViz
                   operandA={operandA}
@@ -877,13 +1080,14 @@ export default function BinaryArithmeticPage() {
               style={{ borderColor: COLORS.border }}
             >
               <DecimalDisplay label="A" bits={operandA} />
-              {(operation === "addition" || operation === "subtraction" || operation === "overflow") && (
-                <DecimalDisplay label="B" bits={operandB} />
-              )}
+              {operation !== "twos-complement" && <DecimalDisplay label="B" bits={operandB} />}
               {(phase === "complete" || phase === "result-show" || phase === "overflow-check") && (
                 <>
                   <div className="w-px h-4" style={{ background: COLORS.border }} />
-                  <DecimalDisplay label="Result" bits={resultBits} highlight />
+                  <DecimalDisplay label={operation === "division" ? "Quotient" : "Result"} bits={resultBits} highlight />
+                  {operation === "division" && mulDivRun?.remainder && (
+                    <DecimalDisplay label="Remainder" bits={mulDivRun.remainder} highlight />
+                  )}
                 </>
               )}
             </div>
@@ -917,7 +1121,9 @@ export default function BinaryArithmeticPage() {
             transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={isComplete}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -926,6 +1132,7 @@ export default function BinaryArithmeticPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             >
               {/* Completion badge */}
               <AnimatePresence>
@@ -981,11 +1188,25 @@ export default function BinaryArithmeticPage() {
                   </div>
                   <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                     <MetricCard label="Carry Count" value={carryCount.toString()} color="#f59e0b" />
-                    <MetricCard
-                      label="Current Bit"
-                      value={currentBitPos >= 0 ? `Pos ${BIT_WIDTH - 1 - currentBitPos}` : "--"}
-                      color="#06b6d4"
-                    />
+                    {isMulDiv ? (
+                      <MetricCard
+                        label="Adder Passes"
+                        value={
+                          mulDivRun
+                            ? `${mulDivRun.steps.slice(0, runIndex + 1).filter((s) => s.addition).length}/${
+                                mulDivRun.steps.filter((s) => s.addition).length
+                              }`
+                            : "--"
+                        }
+                        color="#06b6d4"
+                      />
+                    ) : (
+                      <MetricCard
+                        label="Current Bit"
+                        value={currentBitPos >= 0 ? `Pos ${bitWidth - 1 - currentBitPos}` : "--"}
+                        color="#06b6d4"
+                      />
+                    )}
                     <MetricCard
                       label="Result (unsigned)"
                       value={
@@ -1061,6 +1282,7 @@ function BitBox({
   label,
   glow,
   size = "normal",
+  width,
 }: {
   value: number;
   index: number;
@@ -1070,6 +1292,8 @@ function BitBox({
   label?: string;
   glow?: boolean;
   size?: "normal" | "small";
+  /** Bits in the row, for the place-value label. */
+  width: number;
 }) {
   const isSmall = size === "small";
   const boxSize = isSmall ? "w-9 h-9" : "w-12 h-12";
@@ -1110,7 +1334,7 @@ function BitBox({
         </motion.span>
       </motion.button>
       <span className="text-[8px] font-mono text-[#52525b]">
-        2^{BIT_WIDTH - 1 - index}
+        2^{width - 1 - index}
       </span>
     </div>
   );
@@ -1133,6 +1357,7 @@ function TwosComplementViz({
   phase: AnimationPhase;
   toggleBit: (operand: "A" | "B", index: number) => void;
 }) {
+  const width = operandA.length;
   const showFlipped = phase === "flip-bits" || phase === "add-one" || phase === "complete";
   const showResult = phase === "add-one" || phase === "complete";
 
@@ -1149,7 +1374,7 @@ function TwosComplementViz({
               <BitBox
                 key={idx}
                 value={bit}
-                index={idx}
+                index={idx} width={width}
                 isActive={false}
                 color={COLORS.primary}
                 onClick={() => toggleBit("A", idx)}
@@ -1185,7 +1410,7 @@ function TwosComplementViz({
                     <BitBox
                       key={idx}
                       value={wasFlipped || (phase !== "flip-bits") ? bit : operandA[idx]}
-                      index={idx}
+                      index={idx} width={width}
                       isActive={isFlipping}
                       color={COLORS.accent}
                       glow={isFlipping}
@@ -1223,11 +1448,11 @@ function TwosComplementViz({
             <div className="flex items-center gap-2">
               <span className="text-xs font-mono text-[#71717a] w-24 text-right">+ 1:</span>
               <div className="flex items-center gap-1.5">
-                {new Array(BIT_WIDTH).fill(0).map((_, idx) => (
+                {new Array(width).fill(0).map((_, idx) => (
                   <BitBox
                     key={idx}
-                    value={idx === BIT_WIDTH - 1 ? 1 : 0}
-                    index={idx}
+                    value={idx === width - 1 ? 1 : 0}
+                    index={idx} width={width}
                     isActive={false}
                     color={COLORS.muted}
                     size="small"
@@ -1252,7 +1477,7 @@ function TwosComplementViz({
                     <BitBox
                       key={idx}
                       value={bit}
-                      index={idx}
+                      index={idx} width={width}
                       isActive={isCarrying}
                       color={COLORS.success}
                       glow={isCarrying}
@@ -1314,6 +1539,7 @@ function AdditionViz({
   isOverflowMode: boolean;
   toggleBit: (operand: "A" | "B", index: number) => void;
 }) {
+  const width = operandA.length;
   const showResult = phase === "carry-propagate" || phase === "result-show" || phase === "complete" || phase === "overflow-check";
 
   return (
@@ -1381,7 +1607,7 @@ function AdditionViz({
               <BitBox
                 key={idx}
                 value={bit}
-                index={idx}
+                index={idx} width={width}
                 isActive={isCurrent}
                 color={COLORS.secondary}
                 onClick={() => toggleBit("A", idx)}
@@ -1407,7 +1633,7 @@ function AdditionViz({
               <BitBox
                 key={idx}
                 value={bit}
-                index={idx}
+                index={idx} width={width}
                 isActive={isCurrent}
                 color={COLORS.secondary}
                 onClick={() => toggleBit("B", idx)}
@@ -1444,7 +1670,7 @@ function AdditionViz({
                   <BitBox
                     key={idx}
                     value={wasComputed ? bit : 0}
-                    index={idx}
+                    index={idx} width={width}
                     isActive={isJustComputed}
                     color={hasOverflow && idx === 0 ? COLORS.danger : COLORS.success}
                     glow={isJustComputed}
@@ -1540,6 +1766,7 @@ function SubtractionViz({
   currentBitPos: number; phase: AnimationPhase; showIntermediate: boolean;
   toggleBit: (operand: "A" | "B", index: number) => void;
 }) {
+  const width = operandA.length;
   const showNegation = phase === "negate" || phase === "add-one" || phase === "add-step" || phase === "result-show" || phase === "complete";
   const showAddition = phase === "add-step" || phase === "result-show" || phase === "complete";
   const showResult = phase === "result-show" || phase === "complete";
@@ -1556,7 +1783,7 @@ function SubtractionViz({
           </span>
           <div className="flex items-center gap-1.5">
             {operandB.map((bit, idx) => (
-              <BitBox key={idx} value={bit} index={idx} isActive={false} color={COLORS.primary} onClick={() => toggleBit("B", idx)} />
+              <BitBox key={idx} value={bit} index={idx} width={width} isActive={false} color={COLORS.primary} onClick={() => toggleBit("B", idx)} />
             ))}
           </div>
           <span className="text-xs font-mono text-[#71717a] ml-3">= {bitsToSigned(operandB)}</span>
@@ -1575,7 +1802,7 @@ function SubtractionViz({
               <div className="flex items-center gap-1.5">
                 {flippedBits.map((bit, idx) => {
                   const isFlipping = phase === "negate" && idx === currentBitPos;
-                  return <BitBox key={idx} value={phase === "negate" && idx > currentBitPos ? operandB[idx] : bit} index={idx} isActive={isFlipping} color={COLORS.accent} size="small" glow={isFlipping} />;
+                  return <BitBox key={idx} value={phase === "negate" && idx > currentBitPos ? operandB[idx] : bit} index={idx} width={width} isActive={isFlipping} color={COLORS.accent} size="small" glow={isFlipping} />;
                 })}
               </div>
               <span className="text-xs font-mono text-[#71717a] ml-3">(flipped)</span>
@@ -1585,7 +1812,7 @@ function SubtractionViz({
                 <span className="text-xs font-mono text-[#10b981] w-20 text-right">-B:</span>
                 <div className="flex items-center gap-1.5">
                   {negatedBits.map((bit, idx) => (
-                    <BitBox key={idx} value={bit} index={idx} isActive={false} color={COLORS.success} size="small" />
+                    <BitBox key={idx} value={bit} index={idx} width={width} isActive={false} color={COLORS.success} size="small" />
                   ))}
                 </div>
                 <span className="text-xs font-mono text-[#10b981] ml-3">= {bitsToSigned(negatedBits)} (~B + 1)</span>
@@ -1608,7 +1835,7 @@ function SubtractionViz({
               <div className="flex items-center gap-1.5">
                 {operandA.map((bit, idx) => {
                   const isCurrent = phase === "add-step" && idx === currentBitPos;
-                  return <BitBox key={idx} value={bit} index={idx} isActive={isCurrent} color={COLORS.secondary} size="small" glow={isCurrent} />;
+                  return <BitBox key={idx} value={bit} index={idx} width={width} isActive={isCurrent} color={COLORS.secondary} size="small" glow={isCurrent} />;
                 })}
               </div>
             </div>
@@ -1617,7 +1844,7 @@ function SubtractionViz({
               <div className="flex items-center gap-1.5">
                 {negatedBits.map((bit, idx) => {
                   const isCurrent = phase === "add-step" && idx === currentBitPos;
-                  return <BitBox key={idx} value={bit} index={idx} isActive={isCurrent} color={COLORS.secondary} size="small" glow={isCurrent} />;
+                  return <BitBox key={idx} value={bit} index={idx} width={width} isActive={isCurrent} color={COLORS.secondary} size="small" glow={isCurrent} />;
                 })}
               </div>
             </div>
@@ -1628,7 +1855,7 @@ function SubtractionViz({
                 {resultBits.map((bit, idx) => {
                   const isJustComputed = phase === "add-step" && idx === currentBitPos;
                   const wasComputed = phase === "add-step" ? idx > currentBitPos : true;
-                  return <BitBox key={idx} value={wasComputed ? bit : 0} index={idx} isActive={isJustComputed} color={COLORS.success} size="small" glow={isJustComputed} />;
+                  return <BitBox key={idx} value={wasComputed ? bit : 0} index={idx} width={width} isActive={isJustComputed} color={COLORS.success} size="small" glow={isJustComputed} />;
                 })}
               </div>
               {showResult && <span className="text-xs font-mono text-[#10b981] ml-3">= {bitsToSigned(resultBits)}</span>}
@@ -1650,15 +1877,187 @@ function SubtractionViz({
   );
 }
 
+// ─── Multiply / Divide Visualization ──────────────────────────────────────────
+
+const ACTION_COLORS: Record<MulDivAction, string> = {
+  init: COLORS.muted,
+  add: COLORS.accent,
+  skip: COLORS.muted,
+  shift: COLORS.secondary,
+  restore: COLORS.danger,
+  "set-bit": COLORS.success,
+  correct: COLORS.danger,
+  done: COLORS.success,
+};
+
+function MulDivViz({
+  run,
+  runIndex,
+  algorithm,
+  operandA,
+  operandB,
+  toggleBit,
+}: {
+  run: MulDivRun | null;
+  runIndex: number;
+  algorithm: MulDivAlgorithm;
+  operandA: number[];
+  operandB: number[];
+  toggleBit: (operand: "A" | "B", index: number) => void;
+}) {
+  const signed = isSigned(algorithm);
+  const isDivision = DIVIDE_ALGORITHMS.includes(algorithm);
+  const read = signed ? bitsToSigned : bitsToUnsigned;
+  const started = runIndex >= 0;
+  const step = run?.steps[Math.max(0, runIndex)];
+  // Registers that hold a number on their own; Q in a multiply is half of the product.
+  const registerValue = (name: string, bits: number[]) =>
+    (signed || isDivision) && name !== "Q" ? bitsToSigned(bits) : bitsToUnsigned(bits);
+
+  return (
+    <div className="flex flex-col items-center gap-5">
+      <h3 className="text-lg font-semibold text-white">
+        {ALGORITHM_LABELS[algorithm]} {isDivision ? "Division" : "Multiplication"}
+        <span className="ml-2 text-xs font-mono text-[#71717a]">{signed ? "signed" : "unsigned"}</span>
+      </h3>
+
+      <div className="flex flex-col gap-2">
+        <BitRow
+          label={isDivision ? "Dividend:" : "A:"}
+          bits={operandA}
+          onToggle={(i) => toggleBit("A", i)}
+          suffix={`= ${read(operandA)}`}
+          size="small"
+        />
+        <BitRow
+          label={isDivision ? "Divisor:" : "B:"}
+          bits={operandB}
+          onToggle={(i) => toggleBit("B", i)}
+          suffix={`= ${read(operandB)}`}
+          size="small"
+        />
+      </div>
+
+      {!run || !step ? (
+        <p className="text-sm" style={{ color: COLORS.danger }}>
+          Division by zero is undefined. Set the divisor to a non-zero value.
+        </p>
+      ) : (
+        <>
+          {/* Registers */}
+          <div className="w-full overflow-x-auto">
+            <div className="flex flex-col gap-2 w-fit mx-auto">
+              <span className="text-[10px] uppercase tracking-wider text-[#71717a]">
+                Registers {started ? `after iteration ${step.iteration}` : "(press Step to load)"}
+              </span>
+              {step.registers.map((reg) => (
+                <BitRow
+                  key={reg.name}
+                  label={`${reg.name}:`}
+                  bits={reg.bits}
+                  size="small"
+                  active={started && step.examined?.register === reg.name ? step.examined.bits : []}
+                  color={COLORS.secondary}
+                  suffix={reg.bits.length > 1 ? `= ${registerValue(reg.name, reg.bits)}` : undefined}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Adder pass */}
+          {started && step.addition && (
+            <div
+              className="w-full overflow-x-auto rounded-xl p-4"
+              style={{ background: "rgba(245,158,11,0.04)", border: "1px solid rgba(245,158,11,0.12)" }}
+            >
+              <div className="flex flex-col gap-2 w-fit mx-auto">
+                <span className="text-[10px] uppercase tracking-wider text-[#71717a]">
+                  Adder: {step.addition.register} ← {step.addition.register} + ({step.addition.addendLabel})
+                </span>
+                <CarryRow carries={step.addition.carries.slice(1)} />
+                <BitRow label={`${step.addition.register}:`} bits={step.addition.before} size="small" />
+                <BitRow
+                  label={`${step.addition.addendLabel}:`}
+                  bits={step.addition.addend}
+                  size="small"
+                  color={COLORS.accent}
+                  active={step.addition.addend.flatMap((b, i) => (b ? [i] : []))}
+                />
+                <BitRow
+                  label="="
+                  bits={step.addition.result}
+                  size="small"
+                  color={COLORS.success}
+                  suffix={`carry out ${step.addition.carries[0]}`}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Step log */}
+          <div className="w-full max-w-3xl rounded-xl overflow-hidden" style={{ border: `1px solid ${COLORS.border}` }}>
+            <div className="max-h-40 overflow-y-auto py-1">
+              {!started && <p className="px-3 py-1 text-[11px] font-mono text-[#71717a]">No steps yet.</p>}
+              {run.steps.slice(0, runIndex + 1).map((s, i) => (
+                <div
+                  key={i}
+                  className="flex gap-3 px-3 py-1 text-[11px] font-mono"
+                  style={{
+                    background: i === runIndex ? "rgba(99,102,241,0.08)" : "transparent",
+                    color: i === runIndex ? "#ffffff" : "#a1a1aa",
+                  }}
+                >
+                  <span className="w-5 text-right text-[#52525b]">{s.iteration}</span>
+                  <span className="w-14" style={{ color: ACTION_COLORS[s.action] }}>
+                    {s.action}
+                  </span>
+                  <span>{s.description}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // ─── Shared Row Helpers ───────────────────────────────────────────────────────
 
-function BitRow({ label, bits, onToggle, suffix }: { label: string; bits: number[]; onToggle?: (i: number) => void; suffix?: string }) {
+function BitRow({
+  label,
+  bits,
+  onToggle,
+  suffix,
+  size = "normal",
+  active = [],
+  color = COLORS.primary,
+}: {
+  label: string;
+  bits: number[];
+  onToggle?: (i: number) => void;
+  suffix?: string;
+  size?: "normal" | "small";
+  /** Indices to highlight, e.g. the bits a step just examined. */
+  active?: number[];
+  color?: string;
+}) {
   return (
     <div className="flex items-center gap-2">
       <span className="text-xs font-mono text-[#71717a] w-20 text-right">{label}</span>
       <div className="flex items-center gap-1.5">
         {bits.map((bit, idx) => (
-          <BitBox key={idx} value={bit} index={idx} isActive={false} color={COLORS.primary} onClick={onToggle ? () => onToggle(idx) : undefined} />
+          <BitBox
+            key={idx}
+            value={bit}
+            index={idx}
+            width={bits.length}
+            isActive={active.includes(idx)}
+            glow={active.includes(idx)}
+            color={color}
+            size={size}
+            onClick={onToggle ? () => onToggle(idx) : undefined}
+          />
         ))}
       </div>
       {suffix && <span className="text-xs font-mono text-[#71717a] ml-3">{suffix}</span>}
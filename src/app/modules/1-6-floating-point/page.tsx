@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Binary,
@@ -14,9 +14,38 @@ import {
   Info,
   Zap,
   Lightbulb,
+  ArrowDownUp,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  CUSTOM_EXPONENT_BITS,
+  CUSTOM_FRACTION_BITS,
+  FLOAT_FORMATS,
+  ROUNDING_LABELS,
+  ROUNDING_MODES,
+  bitsToHex,
+  customFormat,
+  decodeFloat,
+  encodeNumber,
+  fieldsToBits,
+  floatAdd,
+  floatMul,
+  formatBias,
+  formatEmin,
+  formatWidth,
+  parseDecimal,
+  roundDecimal,
+  roundedValue,
+  significandString,
+  type FloatFormat,
+  type FloatOp,
+  type OpStage,
+  type Rounded,
+  type RoundingMode,
+} from "@/lib/sim/ieee754";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -39,7 +68,6 @@ interface FloatBreakdown {
   isSpecial: boolean;
   specialLabel: string;
   isDenormalized: boolean;
-  precisionError: number;
   formula: string;
 }
 
@@ -77,8 +105,19 @@ const SCENARIOS: Scenario[] = [
   { id: "precision", label: "Precision Issues", description: "0.1, 0.2, 0.3" },
   { id: "special", label: "Special Values", description: "Inf, NaN, 0, -0" },
   { id: "powers", label: "Powers of 2", description: "2, 4, 8, 0.25" },
+  { id: "rounding", label: "Rounding & Formats", description: "1/3, 2049, 65504, 65520" },
 ];
 
+const STAGE_COLORS: Record<OpStage, string> = {
+  decode: COLORS.primary,
+  special: COLORS.danger,
+  exponent: COLORS.exponent,
+  align: COLORS.accent,
+  operate: COLORS.secondary,
+  normalize: COLORS.success,
+  round: COLORS.primary,
+};
+
 const INTERESTING_NUMBERS: Record<string, InterestingNumber[]> = {
   common: [
     { value: 1.0, label: "1.0", description: "The simplest normalized float" },
@@ -116,113 +155,96 @@ const INTERESTING_NUMBERS: Record<string, InterestingNumber[]> = {
     { value: 1024, label: "1024", description: "2^10" },
     { value: 0.125, label: "0.125", description: "2^(-3)" },
   ],
+  rounding: [
+    { value: 1 / 3, label: "1/3", description: "A repeating binary fraction: every rounding mode has work to do" },
+    { value: 2049, label: "2049", description: "A tie in half precision: ties-to-even goes down, ties-away goes up" },
+    { value: 65504, label: "65504", description: "Largest finite half-precision value" },
+    { value: 65520, label: "65520", description: "Overflows half precision to infinity under round-to-nearest" },
+    { value: 1e-7, label: "1e-7", description: "Subnormal in half precision" },
+    { value: 3e38, label: "3e38", description: "Overflows half but fits bfloat16's float32-sized exponent" },
+  ],
 };
 
 // ─── IEEE 754 Conversion Logic ────────────────────────────────────────────────
 
-function floatToBits(value: number): number[] {
-  const buffer = new ArrayBuffer(4);
-  const view = new DataView(buffer);
-  view.setFloat32(0, value, false);
-  const intVal = view.getUint32(0, false);
-  const bits: number[] = [];
-  for (let i = 31; i >= 0; i--) {
-    bits.push((intVal >>> i) & 1);
-  }
-  return bits;
+function floatToBits(value: number, format: FloatFormat, mode: RoundingMode = "ties-even"): number[] {
+  return fieldsToBits(encodeNumber(value, format, mode), format);
 }
 
-function bitsToFloat(bits: number[]): number {
-  let intVal = 0;
-  for (let i = 0; i < 32; i++) {
-    intVal = (intVal << 1) | (bits[i] & 1);
-  }
-  const buffer = new ArrayBuffer(4);
-  const view = new DataView(buffer);
-  view.setUint32(0, intVal >>> 0, false);
-  return view.getFloat32(0, false);
+function bitsToFloat(bits: number[], format: FloatFormat): number {
+  return decodeFloat(bits, format).value;
 }
 
-function bitsToHex(bits: number[]): string {
-  let intVal = 0;
-  for (let i = 0; i < 32; i++) {
-    intVal = (intVal << 1) | (bits[i] & 1);
-  }
-  return "0x" + (intVal >>> 0).toString(16).toUpperCase().padStart(8, "0");
+/** Typed text rounded into the format: a decimal literal, or NaN / ±Infinity. */
+function encodeText(text: string, format: FloatFormat, mode: RoundingMode): Rounded | null {
+  const lower = text.trim().toLowerCase();
+  if (lower === "nan") return encodeNumber(NaN, format);
+  if (lower === "infinity" || lower === "inf") return encodeNumber(Infinity, format);
+  if (lower === "-infinity" || lower === "-inf") return encodeNumber(-Infinity, format);
+  const decimal = parseDecimal(text);
+  return decimal ? roundDecimal(decimal, format, mode) : null;
 }
 
-function analyzeFloat(bits: number[]): FloatBreakdown {
-  const sign = bits[0];
-  let exponentBits = 0;
-  for (let i = 1; i <= 8; i++) {
-    exponentBits = (exponentBits << 1) | bits[i];
-  }
-  let mantissaBits = 0;
-  for (let i = 9; i <= 31; i++) {
-    mantissaBits = (mantissaBits << 1) | bits[i];
-  }
+/** Significant decimal digits needed to tell neighbouring values of the format apart. */
+function decimalDigits(format: FloatFormat): number {
+  return Math.min(17, Math.ceil((format.fractionBits + 1) * Math.log10(2)) + 1);
+}
 
-  const biasedExponent = exponentBits - 127;
-  const decimalValue = bitsToFloat(bits);
-  const hexValue = bitsToHex(bits);
+function formatValue(value: number, format: FloatFormat): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Infinity" : "-Infinity";
+  if (Object.is(value, -0)) return "-0";
+  return String(Number(value.toPrecision(decimalDigits(format))));
+}
 
-  let mantissaFraction = 0;
-  for (let i = 0; i < 23; i++) {
-    if (bits[9 + i]) {
-      mantissaFraction += Math.pow(2, -(i + 1));
-    }
-  }
+function formatById(id: string, custom: { exponent: number; fraction: number }): FloatFormat {
+  return id === "custom" ? customFormat(custom.exponent, custom.fraction) : (FLOAT_FORMATS.find((f) => f.id === id) ?? FLOAT_FORMATS[2]);
+}
+
+function scientific(value: number): string {
+  const [mantissa, exponent] = value.toExponential(3).split("e");
+  return `${mantissa} × 10^${Number(exponent)}`;
+}
+
+function analyzeFloat(bits: number[], format: FloatFormat): FloatBreakdown {
+  const decoded = decodeFloat(bits, format);
+  const bias = formatBias(format);
+  const sign = decoded.sign;
 
   let isSpecial = false;
   let specialLabel = "";
   let isDenormalized = false;
 
-  if (exponentBits === 255) {
+  if (decoded.kind === "infinity") {
     isSpecial = true;
-    if (mantissaBits === 0) {
-      specialLabel = sign === 0 ? "+Infinity" : "-Infinity";
-    } else {
-      specialLabel = "NaN";
-    }
-  } else if (exponentBits === 0) {
-    if (mantissaBits === 0) {
-      isSpecial = true;
-      specialLabel = sign === 0 ? "+0" : "-0";
-    } else {
-      isDenormalized = true;
-      specialLabel = "Denormalized";
-    }
-  }
-
-  const implicitMantissa = isDenormalized ? mantissaFraction : 1 + mantissaFraction;
-
-  let precisionError = 0;
-  if (!isSpecial && !isNaN(decimalValue) && isFinite(decimalValue)) {
-    const roundTrip = decimalValue;
-    precisionError = Math.abs(roundTrip - decimalValue);
+    specialLabel = sign === 0 ? "+Infinity" : "-Infinity";
+  } else if (decoded.kind === "nan") {
+    isSpecial = true;
+    specialLabel = "NaN";
+  } else if (decoded.kind === "zero") {
+    isSpecial = true;
+    specialLabel = sign === 0 ? "+0" : "-0";
+  } else if (decoded.kind === "subnormal") {
+    isDenormalized = true;
+    specialLabel = "Denormalized";
   }
 
-  let formula = "";
-  if (isSpecial) {
-    formula = specialLabel;
-  } else if (isDenormalized) {
-    formula = `(-1)^${sign} x 0.${mantissaFraction.toString().split(".")[1] || "0"} x 2^(-126)`;
-  } else {
-    formula = `(-1)^${sign} x 1.${mantissaFraction.toString().split(".")[1] || "0"} x 2^(${biasedExponent})`;
-  }
+  const implicitMantissa = Number(decoded.significand) / 2 ** format.fractionBits;
+  const formula = isSpecial
+    ? specialLabel
+    : `(-1)^${sign} x ${significandString(decoded.significand, format)} x 2^(${decoded.unbiased})`;
 
   return {
     sign,
-    exponent: exponentBits,
-    mantissa: mantissaBits,
-    biasedExponent,
+    exponent: decoded.exponent,
+    mantissa: Number(decoded.fraction),
+    biasedExponent: decoded.exponent - bias,
     implicitMantissa,
-    decimalValue,
-    hexValue,
+    decimalValue: decoded.value,
+    hexValue: bitsToHex(bits),
     isSpecial,
     specialLabel,
     isDenormalized,
-    precisionError,
     formula,
   };
 }
@@ -238,9 +260,11 @@ function BitBox({
   onClick,
   isAnimating,
   label,
+  width,
 }: {
   bit: number;
   index: number;
+  width: number;
   color: string;
   borderColor: string;
   glowColor: string;
@@ -266,7 +290,7 @@ function BitBox({
       whileTap={{ scale: 0.9 }}
       animate={isAnimating ? { scale: [1, 1.2, 1] } : { scale: 1 }}
       transition={{ duration: 0.2 }}
-      title={`Bit ${31 - index}: ${bit}`}
+      title={`Bit ${width - 1 - index}: ${bit}`}
     >
       {bit}
       {label && (
@@ -349,7 +373,9 @@ function PrecisionDemo({ visible }: { visible: boolean }) {
 
 // ─── Breakdown Panel Component ────────────────────────────────────────────────
 
-function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
+function BreakdownPanel({ breakdown, format }: { breakdown: FloatBreakdown; format: FloatFormat }) {
+  const bias = formatBias(format);
+  const digits = decimalDigits(format);
   return (
     <div className="space-y-3">
       {/* Sign interpretation */}
@@ -382,7 +408,7 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
         <div className="flex items-center gap-2 mb-1.5">
           <div className="w-2 h-2 rounded-full" style={{ background: COLORS.exponent }} />
           <span className="text-xs font-semibold" style={{ color: COLORS.exponent }}>
-            Exponent (8 bits)
+            Exponent ({format.exponentBits} bits)
           </span>
         </div>
         <div className="font-mono text-xs space-y-1" style={{ color: "#a1a1aa" }}>
@@ -391,20 +417,20 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
             <span style={{ color: COLORS.exponent }}>{breakdown.exponent}</span>
           </div>
           <div>
-            Bias: <span style={{ color: "#71717a" }}>127</span>
+            Bias: <span style={{ color: "#71717a" }}>{bias}</span>
           </div>
           <div>
-            Actual exponent: {breakdown.exponent} - 127 ={" "}
+            Actual exponent: {breakdown.exponent} - {bias} ={" "}
             <span className="font-semibold text-white">{breakdown.biasedExponent}</span>
           </div>
           {breakdown.exponent === 0 && (
             <div style={{ color: COLORS.accent }}>
               {breakdown.mantissa === 0
                 ? "Zero exponent + zero mantissa = Zero"
-                : "Zero exponent = Denormalized number (uses 2^(-126))"}
+                : `Zero exponent = Denormalized number (uses 2^(${formatEmin(format)}))`}
             </div>
           )}
-          {breakdown.exponent === 255 && (
+          {breakdown.exponent === 2 ** format.exponentBits - 1 && (
             <div style={{ color: COLORS.danger }}>
               All 1s exponent = Special value ({breakdown.specialLabel})
             </div>
@@ -420,7 +446,7 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
         <div className="flex items-center gap-2 mb-1.5">
           <div className="w-2 h-2 rounded-full" style={{ background: COLORS.mantissa }} />
           <span className="text-xs font-semibold" style={{ color: COLORS.mantissa }}>
-            Mantissa (23 bits)
+            Mantissa ({format.fractionBits} bits)
           </span>
         </div>
         <div className="font-mono text-xs space-y-1" style={{ color: "#a1a1aa" }}>
@@ -443,7 +469,7 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
               <div>
                 Effective significand:{" "}
                 <span className="font-semibold text-white">
-                  {breakdown.implicitMantissa.toPrecision(8)}
+                  {breakdown.implicitMantissa.toPrecision(digits)}
                 </span>
               </div>
             </>
@@ -468,11 +494,11 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
               <span style={{ color: COLORS.sign }}>(-1)^{breakdown.sign}</span>
               {" × "}
               <span style={{ color: COLORS.mantissa }}>
-                {breakdown.implicitMantissa.toPrecision(8)}
+                {breakdown.implicitMantissa.toPrecision(digits)}
               </span>
               {" × "}
               <span style={{ color: COLORS.exponent }}>
-                2^({breakdown.isDenormalized ? "-126" : breakdown.biasedExponent.toString()})
+                2^({breakdown.isDenormalized ? formatEmin(format).toString() : breakdown.biasedExponent.toString()})
               </span>
             </div>
             <div>
@@ -484,7 +510,7 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
                   ? breakdown.decimalValue > 0
                     ? "+Infinity"
                     : "-Infinity"
-                  : breakdown.decimalValue.toPrecision(9)}
+                  : breakdown.decimalValue.toPrecision(digits)}
               </span>
             </div>
           </div>
@@ -513,11 +539,207 @@ function BreakdownPanel({ breakdown }: { breakdown: FloatBreakdown }) {
   );
 }
 
+// ─── Rounding Modes Panel Component ───────────────────────────────────────────
+
+function RoundingModesPanel({
+  text,
+  format,
+  mode,
+  onSelect,
+}: {
+  text: string;
+  format: FloatFormat;
+  mode: RoundingMode;
+  onSelect: (mode: RoundingMode) => void;
+}) {
+  const decimal = parseDecimal(text);
+  if (!decimal) {
+    return (
+      <p className="text-xs" style={{ color: "#71717a" }}>
+        Type a finite decimal to see how each rounding mode stores it.
+      </p>
+    );
+  }
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="border-b" style={{ borderColor: COLORS.border }}>
+          <th className="px-2 py-2 text-left font-medium text-[#71717a]">Mode</th>
+          <th className="px-2 py-2 text-left font-medium text-[#71717a]">Bits</th>
+          <th className="px-2 py-2 text-left font-medium text-[#71717a]">Stored value</th>
+          <th className="px-2 py-2 text-left font-medium text-[#71717a]">Rounded</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ROUNDING_MODES.map((m) => {
+          const rounded = roundDecimal(decimal, format, m);
+          const larger = rounded.incremented || (rounded.overflow && rounded.kind === "infinity");
+          const up = larger !== (rounded.sign === 1);
+          return (
+            <tr
+              key={m}
+              onClick={() => onSelect(m)}
+              className="border-b cursor-pointer transition-colors duration-150"
+              style={{
+                borderColor: "rgba(30,30,46,0.5)",
+                background: m === mode ? "rgba(99,102,241,0.08)" : "transparent",
+              }}
+            >
+              <td className="px-2 py-2 font-medium" style={{ color: m === mode ? COLORS.primary : "#a1a1aa" }}>
+                {ROUNDING_LABELS[m]}
+              </td>
+              <td className="px-2 py-2 font-mono" style={{ color: COLORS.primary }}>
+                {bitsToHex(fieldsToBits(rounded, format))}
+              </td>
+              <td className="px-2 py-2 font-mono text-white">{formatValue(roundedValue(rounded, format), format)}</td>
+              <td
+                className="px-2 py-2 font-mono"
+                style={{ color: !rounded.inexact ? COLORS.success : up ? COLORS.accent : COLORS.secondary }}
+              >
+                {!rounded.inexact ? "exact" : up ? "↑ up" : "↓ down"}
+                {rounded.overflow && " (overflow)"}
+                {rounded.underflow && " (underflow)"}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// ─── Operation Panel Component ────────────────────────────────────────────────
+
+function OperationPanel({ format, mode }: { format: FloatFormat; mode: RoundingMode }) {
+  const [textA, setTextA] = useState("0.1");
+  const [textB, setTextB] = useState("0.2");
+  const [op, setOp] = useState<FloatOp>("add");
+  const [flush, setFlush] = useState(false);
+
+  const a = encodeText(textA, format, mode);
+  const b = encodeText(textB, format, mode);
+  const bitsA = a && fieldsToBits(a, format);
+  const bitsB = b && fieldsToBits(b, format);
+  const run = bitsA && bitsB ? (op === "add" ? floatAdd : floatMul)(bitsA, bitsB, format, mode, flush) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {[
+          { label: "A", text: textA, set: setTextA, bits: bitsA },
+          { label: "B", text: textB, set: setTextB, bits: bitsB },
+        ].map((operand) => (
+          <div key={operand.label} className="flex items-center gap-2">
+            <span className="text-xs text-[#71717a]">{operand.label}:</span>
+            <input
+              type="text"
+              value={operand.text}
+              onChange={(e) => operand.set(e.target.value)}
+              className="px-3 py-1.5 rounded-lg text-sm font-mono text-white outline-none"
+              style={{
+                background: "#1e1e2e",
+                border: `1px solid ${operand.bits ? "#2a2a3e" : "rgba(239,68,68,0.4)"}`,
+                width: 140,
+              }}
+            />
+            {operand.bits && (
+              <span className="text-[11px] font-mono" style={{ color: COLORS.primary }}>
+                {bitsToHex(operand.bits)} = {formatValue(decodeFloat(operand.bits, format).value, format)}
+              </span>
+            )}
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          {(["add", "mul"] as FloatOp[]).map((o) => (
+            <button
+              key={o}
+              onClick={() => setOp(o)}
+              className="px-3 py-1.5 rounded-lg text-xs font-mono font-semibold transition-all duration-200"
+              style={{
+                background: op === o ? "rgba(99,102,241,0.12)" : "#1e1e2e",
+                color: op === o ? COLORS.primary : "#a1a1aa",
+                border: op === o ? "1px solid rgba(99,102,241,0.3)" : "1px solid transparent",
+              }}
+            >
+              {o === "add" ? "A + B" : "A × B"}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setFlush(!flush)}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium"
+          style={{
+            background: flush ? "rgba(245,158,11,0.1)" : "#1e1e2e",
+            color: flush ? COLORS.accent : "#a1a1aa",
+            border: flush ? "1px solid rgba(245,158,11,0.25)" : "1px solid transparent",
+          }}
+        >
+          {flush ? <ToggleRight size={14} /> : <ToggleLeft size={14} />}
+          Flush subnormals to zero
+        </button>
+      </div>
+
+      {run ? (
+        <>
+          <div className="space-y-2">
+            {run.steps.map((step, i) => (
+              <div key={i} className="flex items-start gap-3 rounded-lg p-2.5" style={{ background: "#1e1e2e" }}>
+                <span
+                  className="text-[10px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded flex-shrink-0"
+                  style={{ color: STAGE_COLORS[step.stage], background: `${STAGE_COLORS[step.stage]}18`, minWidth: 72 }}
+                >
+                  {step.stage}
+                </span>
+                <div className="min-w-0">
+                  <div className="text-xs font-semibold text-white">{step.title}</div>
+                  <div className="text-xs" style={{ color: "#a1a1aa" }}>
+                    {step.detail}
+                  </div>
+                  {step.bits && (
+                    <pre className="mt-1 text-[11px] font-mono whitespace-pre overflow-x-auto" style={{ color: COLORS.mantissa }}>
+                      {step.bits}
+                    </pre>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 rounded-lg p-3" style={{ background: "rgba(99,102,241,0.05)", border: "1px solid rgba(99,102,241,0.12)" }}>
+            <span className="text-xs text-[#71717a]">Result</span>
+            <span className="font-mono text-sm font-bold text-white">{formatValue(roundedValue(run.result, format), format)}</span>
+            <span className="font-mono text-xs" style={{ color: COLORS.primary }}>
+              {bitsToHex(fieldsToBits(run.result, format))}
+            </span>
+            {(["inexact", "overflow", "underflow", "flushed"] as const)
+              .filter((flag) => run.result[flag])
+              .map((flag) => (
+                <span
+                  key={flag}
+                  className="text-[10px] font-mono uppercase px-1.5 py-0.5 rounded"
+                  style={{ color: COLORS.accent, background: "rgba(245,158,11,0.1)" }}
+                >
+                  {flag}
+                </span>
+              ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs" style={{ color: COLORS.danger }}>
+          Operands must be decimals, NaN or ±Infinity.
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ─── Main Page Component ──────────────────────────────────────────────────────
 
 export default function FloatingPointPage() {
   // ── Core state ──────────────────────────────────────────────────────────────
-  const [bits, setBits] = useState<number[]>(() => floatToBits(1.0));
+  const [formatId, setFormatId] = useState("binary32");
+  const [customBits, setCustomBits] = useState({ exponent: 5, fraction: 2 });
+  const [rounding, setRounding] = useState<RoundingMode>("ties-even");
+  const [bits, setBits] = useState<number[]>(() => floatToBits(1.0, FLOAT_FORMATS[2]));
   const [decimalInput, setDecimalInput] = useState("1");
   const [showMetrics, setShowMetrics] = useState(true);
   const [speed, setSpeed] = useState(1);
@@ -550,8 +772,10 @@ export default function FloatingPointPage() {
   }, [activeScenario]);
 
   // ── Derived state ───────────────────────────────────────────────────────────
-  const breakdown = analyzeFloat(bits);
+  const format = useMemo(() => formatById(formatId, customBits), [formatId, customBits]);
+  const breakdown = analyzeFloat(bits, format);
   const currentNumbers = INTERESTING_NUMBERS[activeScenario] || INTERESTING_NUMBERS.common;
+  const shownNumber = autoPlayIndex > 0 ? currentNumbers[autoPlayIndex - 1] : undefined;
 
   // ── Bit toggle with animation ───────────────────────────────────────────────
   const toggleBit = useCallback(
@@ -559,7 +783,7 @@ export default function FloatingPointPage() {
       const newBits = [...bits];
       newBits[index] = newBits[index] === 0 ? 1 : 0;
       setBits(newBits);
-      const value = bitsToFloat(newBits);
+      const value = bitsToFloat(newBits, format);
       if (isNaN(value)) {
         setDecimalInput("NaN");
       } else if (!isFinite(value)) {
@@ -570,53 +794,74 @@ export default function FloatingPointPage() {
       setAnimatingBits(new Set([index]));
       setTimeout(() => setAnimatingBits(new Set()), 250);
     },
-    [bits]
+    [bits, format]
   );
 
-  // ── Set value from decimal ──────────────────────────────────────────────────
-  const setValueFromDecimal = useCallback((value: number) => {
-    const newBits = floatToBits(value);
+  // ── Show new bits, pulsing the ones that changed ────────────────────────────
+  const showBits = useCallback((newBits: number[]) => {
     const changedIndices = new Set<number>();
     setBits((prev) => {
-      for (let i = 0; i < 32; i++) {
+      for (let i = 0; i < newBits.length; i++) {
         if (prev[i] !== newBits[i]) changedIndices.add(i);
       }
       return newBits;
     });
-    if (isNaN(value)) {
-      setDecimalInput("NaN");
-    } else if (!isFinite(value)) {
-      setDecimalInput(value > 0 ? "Infinity" : "-Infinity");
-    } else {
-      setDecimalInput(value.toString());
-    }
     setAnimatingBits(changedIndices);
     setTimeout(() => setAnimatingBits(new Set()), 250);
   }, []);
 
+  // ── Set value from decimal ──────────────────────────────────────────────────
+  const setValueFromDecimal = useCallback(
+    (value: number) => {
+      showBits(floatToBits(value, format, rounding));
+      if (isNaN(value)) {
+        setDecimalInput("NaN");
+      } else if (!isFinite(value)) {
+        setDecimalInput(value > 0 ? "Infinity" : "-Infinity");
+      } else {
+        setDecimalInput(value.toString());
+      }
+    },
+    [showBits, format, rounding]
+  );
+
   // ── Handle decimal input change ─────────────────────────────────────────────
+  // Typed decimals are rounded exactly, not via a double first
   const handleDecimalChange = useCallback(
     (input: string) => {
       setDecimalInput(input);
       if (input === "" || input === "-" || input === ".") return;
-      if (input.toLowerCase() === "nan") {
-        setValueFromDecimal(NaN);
-        return;
-      }
-      if (input.toLowerCase() === "infinity" || input.toLowerCase() === "inf") {
-        setValueFromDecimal(Infinity);
-        return;
-      }
-      if (input.toLowerCase() === "-infinity" || input.toLowerCase() === "-inf") {
-        setValueFromDecimal(-Infinity);
-        return;
-      }
-      const num = parseFloat(input);
-      if (!isNaN(num)) {
-        setValueFromDecimal(num);
-      }
+      const rounded = encodeText(input, format, rounding);
+      if (rounded) showBits(fieldsToBits(rounded, format));
     },
-    [setValueFromDecimal]
+    [showBits, format, rounding]
+  );
+
+  // ── Format and rounding mode ────────────────────────────────────────────────
+  const reencode = useCallback(
+    (nextFormat: FloatFormat, nextMode: RoundingMode) => {
+      const rounded =
+        encodeText(decimalInput, nextFormat, nextMode) ?? encodeNumber(bitsToFloat(bits, format), nextFormat, nextMode);
+      setBits(fieldsToBits(rounded, nextFormat));
+    },
+    [decimalInput, bits, format]
+  );
+
+  const handleFormatChange = useCallback(
+    (id: string, custom = customBits) => {
+      setFormatId(id);
+      setCustomBits(custom);
+      reencode(formatById(id, custom), rounding);
+    },
+    [customBits, reencode, rounding]
+  );
+
+  const handleRoundingChange = useCallback(
+    (mode: RoundingMode) => {
+      setRounding(mode);
+      reencode(format, mode);
+    },
+    [reencode, format]
   );
 
   // ── Step forward (auto-play cycles through interesting numbers) ─────────────
@@ -702,7 +947,13 @@ export default function FloatingPointPage() {
     };
   }, []);
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioChange);
+
   // ── Bit field definitions ───────────────────────────────────────────────────
+  const width = formatWidth(format);
+  const fractionStart = 1 + format.exponentBits;
+  const bias = formatBias(format);
+  const emin = formatEmin(format);
   const signField: BitField = {
     bits: bits.slice(0, 1),
     label: "Sign",
@@ -711,14 +962,14 @@ export default function FloatingPointPage() {
     glowColor: "rgba(239,68,68,0.2)",
   };
   const exponentField: BitField = {
-    bits: bits.slice(1, 9),
+    bits: bits.slice(1, fractionStart),
     label: "Exponent",
     color: COLORS.exponent,
     borderColor: "rgba(245,158,11,0.4)",
     glowColor: "rgba(245,158,11,0.2)",
   };
   const mantissaField: BitField = {
-    bits: bits.slice(9, 32),
+    bits: bits.slice(fractionStart),
     label: "Mantissa",
     color: COLORS.mantissa,
     borderColor: "rgba(6,182,212,0.4)",
@@ -734,6 +985,7 @@ export default function FloatingPointPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -755,10 +1007,12 @@ export default function FloatingPointPage() {
               </h1>
             </div>
             <p className="text-sm text-[#a1a1aa] max-w-2xl">
-              Explore how computers represent decimal numbers using IEEE 754 single-precision
-              floating point. Click any bit to toggle it and watch the decimal value change
-              in real time, or type a number to see its binary representation.
+              Explore how computers represent decimal numbers using IEEE 754 floating point, from
+              half precision and bfloat16 to double or a width of your own. Click any bit to toggle
+              it and watch the decimal value change in real time, or type a number to see how each
+              rounding mode stores it.
             </p>
+            <ModuleLinks moduleId="1.6" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -869,7 +1123,7 @@ export default function FloatingPointPage() {
                         ? breakdown.decimalValue > 0
                           ? "+Infinity"
                           : "-Infinity"
-                        : Number(breakdown.decimalValue.toPrecision(9))}
+                        : formatValue(breakdown.decimalValue, format)}
                     </div>
                   </div>
                   <div className="text-right">
@@ -882,7 +1136,66 @@ export default function FloatingPointPage() {
               </div>
             </div>
 
-            {/* 32-bit display */}
+            {/* Format and rounding mode */}
+            <div className="px-4 py-3 border-b flex items-center gap-3 flex-wrap" style={{ borderColor: COLORS.border }}>
+              <span className="text-xs text-[#71717a]">Format:</span>
+              <div className="flex gap-1.5 flex-wrap">
+                {[...FLOAT_FORMATS, formatById("custom", customBits)].map((f) => (
+                  <button
+                    key={f.id}
+                    onClick={() => handleFormatChange(f.id)}
+                    className="px-2.5 py-1 rounded-lg text-xs font-medium transition-all duration-200"
+                    style={{
+                      background: formatId === f.id ? "rgba(99,102,241,0.12)" : "#1e1e2e",
+                      color: formatId === f.id ? COLORS.primary : "#a1a1aa",
+                      border: formatId === f.id ? "1px solid rgba(99,102,241,0.3)" : "1px solid transparent",
+                    }}
+                    title={`${formatWidth(f)} bits: ${f.exponentBits} exponent, ${f.fractionBits} fraction`}
+                  >
+                    {f.id === "custom" ? "Custom" : f.label}
+                    <span className="ml-1 font-mono text-[10px] opacity-70">{formatWidth(f)}</span>
+                  </button>
+                ))}
+              </div>
+              {formatId === "custom" &&
+                ([
+                  ["exponent", "E", CUSTOM_EXPONENT_BITS],
+                  ["fraction", "M", CUSTOM_FRACTION_BITS],
+                ] as const).map(([key, label, limits]) => (
+                  <label key={key} className="flex items-center gap-1.5 text-xs text-[#71717a]">
+                    {label}
+                    <input
+                      type="number"
+                      min={limits.min}
+                      max={limits.max}
+                      value={customBits[key]}
+                      onChange={(e) => {
+                        const next = Math.min(limits.max, Math.max(limits.min, Math.round(Number(e.target.value)) || limits.min));
+                        handleFormatChange("custom", { ...customBits, [key]: next });
+                      }}
+                      className="w-14 px-2 py-1 rounded-lg text-xs font-mono text-white outline-none"
+                      style={{ background: "#1e1e2e", border: "1px solid #2a2a3e" }}
+                    />
+                  </label>
+                ))}
+              <div className="flex items-center gap-2 ml-auto">
+                <span className="text-xs text-[#71717a]">Rounding:</span>
+                <select
+                  value={rounding}
+                  onChange={(e) => handleRoundingChange(e.target.value as RoundingMode)}
+                  className="px-2 py-1 rounded-lg text-xs text-white outline-none"
+                  style={{ background: "#1e1e2e", border: "1px solid #2a2a3e" }}
+                >
+                  {ROUNDING_MODES.map((m) => (
+                    <option key={m} value={m}>
+                      {ROUNDING_LABELS[m]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Bit display */}
             <div className="p-5">
               {/* Field labels */}
               <div className="flex items-center gap-4 mb-3">
@@ -895,13 +1208,13 @@ export default function FloatingPointPage() {
                 <div className="flex items-center gap-1.5">
                   <div className="w-2 h-2 rounded-full" style={{ background: COLORS.exponent }} />
                   <span className="text-[11px] font-medium" style={{ color: COLORS.exponent }}>
-                    Exponent (8 bits)
+                    Exponent ({format.exponentBits} bits)
                   </span>
                 </div>
                 <div className="flex items-center gap-1.5">
                   <div className="w-2 h-2 rounded-full" style={{ background: COLORS.mantissa }} />
                   <span className="text-[11px] font-medium" style={{ color: COLORS.mantissa }}>
-                    Mantissa (23 bits)
+                    Mantissa ({format.fractionBits} bits)
                   </span>
                 </div>
               </div>
@@ -918,7 +1231,8 @@ export default function FloatingPointPage() {
                     glowColor={signField.glowColor}
                     onClick={() => toggleBit(0)}
                     isAnimating={animatingBits.has(0)}
-                    label="31"
+                    label={String(width - 1)}
+                    width={width}
                   />
                 </div>
 
@@ -940,7 +1254,8 @@ export default function FloatingPointPage() {
                       glowColor={exponentField.glowColor}
                       onClick={() => toggleBit(1 + i)}
                       isAnimating={animatingBits.has(1 + i)}
-                      label={i === 0 ? "30" : i === 7 ? "23" : undefined}
+                      label={i === 0 ? String(width - 2) : i === format.exponentBits - 1 ? String(format.fractionBits) : undefined}
+                      width={width}
                     />
                   ))}
                 </div>
@@ -957,13 +1272,14 @@ export default function FloatingPointPage() {
                     <BitBox
                       key={`man-${i}`}
                       bit={bit}
-                      index={9 + i}
+                      index={fractionStart + i}
                       color={mantissaField.color}
                       borderColor={mantissaField.borderColor}
                       glowColor={mantissaField.glowColor}
-                      onClick={() => toggleBit(9 + i)}
-                      isAnimating={animatingBits.has(9 + i)}
-                      label={i === 0 ? "22" : i === 22 ? "0" : undefined}
+                      onClick={() => toggleBit(fractionStart + i)}
+                      isAnimating={animatingBits.has(fractionStart + i)}
+                      label={i === 0 ? String(format.fractionBits - 1) : i === format.fractionBits - 1 ? "0" : undefined}
+                      width={width}
                     />
                   ))}
                 </div>
@@ -973,7 +1289,7 @@ export default function FloatingPointPage() {
               <div className="flex items-center gap-2 mt-3 px-1">
                 <ArrowRight size={12} style={{ color: "#71717a" }} />
                 <span className="text-[10px] text-[#71717a]">
-                  MSB (bit 31) to LSB (bit 0) — Click any bit to toggle
+                  MSB (bit {width - 1}) to LSB (bit 0) — Click any bit to toggle
                 </span>
               </div>
             </div>
@@ -1026,7 +1342,7 @@ export default function FloatingPointPage() {
                 <Info size={14} style={{ color: COLORS.primary }} />
                 <span className="text-sm font-semibold text-white">Step-by-Step Breakdown</span>
               </div>
-              <BreakdownPanel breakdown={breakdown} />
+              <BreakdownPanel breakdown={breakdown} format={format} />
             </div>
 
             {/* Metrics + Precision demo */}
@@ -1066,7 +1382,7 @@ export default function FloatingPointPage() {
                             ? breakdown.decimalValue > 0
                               ? "+Infinity"
                               : "-Infinity"
-                            : breakdown.decimalValue.toPrecision(9)}
+                            : formatValue(breakdown.decimalValue, format)}
                         </div>
                       </div>
                       <div
@@ -1168,6 +1484,50 @@ export default function FloatingPointPage() {
             </div>
           </motion.div>
 
+          {/* ── Rounding modes + Operation ─────────────────────────────── */}
+          <motion.div
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.28, ease: [0.23, 1, 0.32, 1] }}
+            className="grid grid-cols-1 lg:grid-cols-5 gap-4 mb-4"
+          >
+            <div
+              className="lg:col-span-2 rounded-2xl p-4"
+              style={{
+                background: COLORS.card,
+                border: `1px solid ${COLORS.border}`,
+              }}
+            >
+              <div className="flex items-center gap-2 mb-3">
+                <ArrowDownUp size={14} style={{ color: COLORS.accent }} />
+                <span className="text-sm font-semibold text-white">Rounding Modes</span>
+                <span className="text-[11px] font-mono ml-auto" style={{ color: "#71717a" }}>
+                  {decimalInput}
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <RoundingModesPanel text={decimalInput} format={format} mode={rounding} onSelect={handleRoundingChange} />
+              </div>
+            </div>
+
+            <div
+              className="lg:col-span-3 rounded-2xl p-4"
+              style={{
+                background: COLORS.card,
+                border: `1px solid ${COLORS.border}`,
+              }}
+            >
+              <div className="flex items-center gap-2 mb-3">
+                <Calculator size={14} style={{ color: COLORS.secondary }} />
+                <span className="text-sm font-semibold text-white">Operation, Step by Step</span>
+                <span className="text-[11px] ml-auto" style={{ color: "#71717a" }}>
+                  {format.label} · {ROUNDING_LABELS[rounding].toLowerCase()}
+                </span>
+              </div>
+              <OperationPanel format={format} mode={rounding} />
+            </div>
+          </motion.div>
+
           {/* ── Controls ───────────────────────────────────────────────── */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -1176,7 +1536,9 @@ export default function FloatingPointPage() {
             className="mb-4"
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={autoPlayIndex >= currentNumbers.length}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1185,6 +1547,7 @@ export default function FloatingPointPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={shownNumber && `${shownNumber.label}: ${shownNumber.description}`}
             >
               {/* Precision demo toggle */}
               <button
@@ -1224,19 +1587,19 @@ export default function FloatingPointPage() {
               <div className="flex items-center gap-2 mb-3">
                 <Binary size={14} style={{ color: COLORS.primary }} />
                 <span className="text-sm font-semibold text-white">
-                  IEEE 754 Single-Precision Format
+                  IEEE 754 Format: {format.label}
                 </span>
               </div>
               <div className="space-y-3 text-xs" style={{ color: "#a1a1aa" }}>
-                <div className="font-mono">
+                <div className="font-mono break-all">
                   <span style={{ color: COLORS.sign }}>S</span>
                   {" "}
-                  <span style={{ color: COLORS.exponent }}>EEEEEEEE</span>
+                  <span style={{ color: COLORS.exponent }}>{"E".repeat(format.exponentBits)}</span>
                   {" "}
-                  <span style={{ color: COLORS.mantissa }}>MMMMMMMMMMMMMMMMMMMMMMM</span>
+                  <span style={{ color: COLORS.mantissa }}>{"M".repeat(format.fractionBits)}</span>
                 </div>
                 <div>
-                  <span className="font-semibold text-white">32 bits total:</span>
+                  <span className="font-semibold text-white">{width} bits total:</span>
                 </div>
                 <ul className="space-y-1.5 ml-2">
                   <li className="flex items-start gap-2">
@@ -1248,13 +1611,13 @@ export default function FloatingPointPage() {
                   <li className="flex items-start gap-2">
                     <div className="w-1.5 h-1.5 rounded-full mt-1 flex-shrink-0" style={{ background: COLORS.exponent }} />
                     <span>
-                      <span style={{ color: COLORS.exponent }} className="font-semibold">8 exponent bits</span> — biased by 127 (stored = actual + 127)
+                      <span style={{ color: COLORS.exponent }} className="font-semibold">{format.exponentBits} exponent bits</span> — biased by {bias} (stored = actual + {bias})
                     </span>
                   </li>
                   <li className="flex items-start gap-2">
                     <div className="w-1.5 h-1.5 rounded-full mt-1 flex-shrink-0" style={{ background: COLORS.mantissa }} />
                     <span>
-                      <span style={{ color: COLORS.mantissa }} className="font-semibold">23 mantissa bits</span> — fractional part with implicit leading 1
+                      <span style={{ color: COLORS.mantissa }} className="font-semibold">{format.fractionBits} mantissa bits</span> — fractional part with implicit leading 1
                     </span>
                   </li>
                 </ul>
@@ -1264,7 +1627,7 @@ export default function FloatingPointPage() {
                   {" × "}
                   <span style={{ color: COLORS.mantissa }}>1.M</span>
                   {" × "}
-                  <span style={{ color: COLORS.exponent }}>2^(E-127)</span>
+                  <span style={{ color: COLORS.exponent }}>2^(E-{bias})</span>
                 </div>
               </div>
             </div>
@@ -1295,12 +1658,12 @@ export default function FloatingPointPage() {
                   </thead>
                   <tbody>
                     {[
-                      { value: "+0", exp: "00000000", man: "All 0s", sign: "0" },
-                      { value: "-0", exp: "00000000", man: "All 0s", sign: "1" },
-                      { value: "+Inf", exp: "11111111", man: "All 0s", sign: "0" },
-                      { value: "-Inf", exp: "11111111", man: "All 0s", sign: "1" },
-                      { value: "NaN", exp: "11111111", man: "Non-zero", sign: "Any" },
-                      { value: "Denorm", exp: "00000000", man: "Non-zero", sign: "Any" },
+                      { value: "+0", exp: "0".repeat(format.exponentBits), man: "All 0s", sign: "0" },
+                      { value: "-0", exp: "0".repeat(format.exponentBits), man: "All 0s", sign: "1" },
+                      { value: "+Inf", exp: "1".repeat(format.exponentBits), man: "All 0s", sign: "0" },
+                      { value: "-Inf", exp: "1".repeat(format.exponentBits), man: "All 0s", sign: "1" },
+                      { value: "NaN", exp: "1".repeat(format.exponentBits), man: "Non-zero", sign: "Any" },
+                      { value: "Denorm", exp: "0".repeat(format.exponentBits), man: "Non-zero", sign: "Any" },
                     ].map((row) => (
                       <tr
                         key={row.value}
@@ -1328,9 +1691,9 @@ export default function FloatingPointPage() {
                 <div className="flex items-start gap-2">
                   <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" style={{ color: COLORS.accent }} />
                   <span className="text-[11px]" style={{ color: "#a1a1aa" }}>
-                    <span className="font-semibold text-white">Precision:</span> Float32 has about
-                    7 decimal digits of precision. Numbers like 0.1 cannot be exactly represented
-                    because they have infinite binary expansions (like 1/3 in decimal).
+                    <span className="font-semibold text-white">Precision:</span> {format.label} has about{" "}
+                    {Math.floor((format.fractionBits + 1) * Math.log10(2))} decimal digits of precision. Numbers like 0.1
+                    cannot be exactly represented because they have infinite binary expansions (like 1/3 in decimal).
                   </span>
                 </div>
               </div>
@@ -1352,7 +1715,7 @@ export default function FloatingPointPage() {
               <div className="flex items-center gap-2">
                 <InfinityIcon size={14} style={{ color: COLORS.secondary }} />
                 <span className="text-sm font-semibold text-white">
-                  Float32 Range & Properties
+                  {format.label} Range & Properties
                 </span>
               </div>
             </div>
@@ -1360,22 +1723,22 @@ export default function FloatingPointPage() {
               {[
                 {
                   label: "Smallest Positive Normal",
-                  value: "1.175 × 10^-38",
+                  value: scientific(2 ** emin),
                   color: COLORS.success,
                 },
                 {
                   label: "Largest Finite",
-                  value: "3.403 × 10^38",
+                  value: scientific((2 - 2 ** -format.fractionBits) * 2 ** bias),
                   color: COLORS.danger,
                 },
                 {
                   label: "Machine Epsilon",
-                  value: "1.192 × 10^-7",
+                  value: scientific(2 ** -format.fractionBits),
                   color: COLORS.accent,
                 },
                 {
                   label: "Decimal Precision",
-                  value: "~7.2 digits",
+                  value: `~${((format.fractionBits + 1) * Math.log10(2)).toFixed(1)} digits`,
                   color: COLORS.primary,
                 },
               ].map((item) => (
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
+import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Cpu,
@@ -10,28 +11,26 @@ import {
   Lightbulb,
   ChevronRight,
   Circle,
+  GitBranch,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  ALU_WIDTHS,
+  BRANCH_CONDITIONS,
+  computeALU,
+  toSigned,
+  type ALUFlags,
+  type ALUOperation,
+  type ALUResult,
+  type ALUWidth,
+  type BranchCondition,
+} from "@/lib/sim/alu";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type ALUOperation = "ADD" | "SUB" | "AND" | "OR" | "XOR" | "NOT" | "SHL" | "SHR";
-
-interface ALUFlags {
-  zero: boolean;
-  carry: boolean;
-  overflow: boolean;
-  negative: boolean;
-}
-
-interface ALUResult {
-  result: number;
-  flags: ALUFlags;
-  carryBits?: number[];
-  intermediateSteps?: string[];
-}
-
 type SimulationPhase =
   | "idle"
   | "load-a"
@@ -52,7 +51,7 @@ interface OperationInfo {
   opcode: string;
   symbol: string;
   description: string;
-  category: "arithmetic" | "logic" | "shift";
+  category: "arithmetic" | "logic" | "shift" | "compare";
 }
 
 interface AutoPlayStep {
@@ -60,6 +59,8 @@ interface AutoPlayStep {
   b: number;
   op: ALUOperation;
   label: string;
+  width?: ALUWidth;
+  carryIn?: boolean;
 }
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -81,23 +82,46 @@ const COLORS = {
 };
 
 const OPERATIONS: Record<ALUOperation, OperationInfo> = {
-  ADD: { name: "ADD", label: "Add", opcode: "000", symbol: "+", description: "A + B", category: "arithmetic" },
-  SUB: { name: "SUB", label: "Subtract", opcode: "001", symbol: "-", description: "A - B", category: "arithmetic" },
-  AND: { name: "AND", label: "AND", opcode: "010", symbol: "&", description: "A AND B", category: "logic" },
-  OR: { name: "OR", label: "OR", opcode: "011", symbol: "|", description: "A OR B", category: "logic" },
-  XOR: { name: "XOR", label: "XOR", opcode: "100", symbol: "^", description: "A XOR B", category: "logic" },
-  NOT: { name: "NOT", label: "NOT", opcode: "101", symbol: "~", description: "NOT A", category: "logic" },
-  SHL: { name: "SHL", label: "Shift Left", opcode: "110", symbol: "<<", description: "A << B", category: "shift" },
-  SHR: { name: "SHR", label: "Shift Right", opcode: "111", symbol: ">>", description: "A >> B", category: "shift" },
+  ADD: { name: "ADD", label: "Add", opcode: "00000", symbol: "+", description: "A + B", category: "arithmetic" },
+  ADC: { name: "ADC", label: "Add with Carry", opcode: "01010", symbol: "+c", description: "A + B + Cin", category: "arithmetic" },
+  SUB: { name: "SUB", label: "Subtract", opcode: "00001", symbol: "-", description: "A - B", category: "arithmetic" },
+  SBC: { name: "SBC", label: "Subtract with Borrow", opcode: "01011", symbol: "-b", description: "A - B - Cin", category: "arithmetic" },
+  MUL: { name: "MUL", label: "Multiply", opcode: "01000", symbol: "×", description: "A × B (low half)", category: "arithmetic" },
+  DIV: { name: "DIV", label: "Divide", opcode: "01001", symbol: "÷", description: "A ÷ B (quotient)", category: "arithmetic" },
+  AND: { name: "AND", label: "AND", opcode: "00010", symbol: "&", description: "A AND B", category: "logic" },
+  OR: { name: "OR", label: "OR", opcode: "00011", symbol: "|", description: "A OR B", category: "logic" },
+  XOR: { name: "XOR", label: "XOR", opcode: "00100", symbol: "^", description: "A XOR B", category: "logic" },
+  NOT: { name: "NOT", label: "NOT", opcode: "00101", symbol: "~", description: "NOT A", category: "logic" },
+  SHL: { name: "SHL", label: "Shift Left", opcode: "00110", symbol: "<<", description: "A << B", category: "shift" },
+  SHR: { name: "SHR", label: "Shift Right", opcode: "00111", symbol: ">>", description: "A >> B (zero fill)", category: "shift" },
+  SAR: { name: "SAR", label: "Arithmetic Shift Right", opcode: "01100", symbol: ">>>", description: "A >> B (sign fill)", category: "shift" },
+  ROL: { name: "ROL", label: "Rotate Left", opcode: "01101", symbol: "⟲", description: "A rotated left by B", category: "shift" },
+  ROR: { name: "ROR", label: "Rotate Right", opcode: "01110", symbol: "⟳", description: "A rotated right by B", category: "shift" },
+  SLT: { name: "SLT", label: "Set Less Than", opcode: "01111", symbol: "<", description: "A < B signed ? 1 : 0", category: "compare" },
+  SLTU: { name: "SLTU", label: "Set Less Than Unsigned", opcode: "10000", symbol: "<u", description: "A < B unsigned ? 1 : 0", category: "compare" },
 };
 
-const OPERATION_KEYS: ALUOperation[] = ["ADD", "SUB", "AND", "OR", "XOR", "NOT", "SHL", "SHR"];
+const OPERATION_KEYS: ALUOperation[] = [
+  "ADD", "ADC", "SUB", "SBC", "MUL", "DIV",
+  "AND", "OR", "XOR", "NOT",
+  "SHL", "SHR", "SAR", "ROL", "ROR",
+  "SLT", "SLTU",
+];
+
+const CATEGORY_COLORS: Record<OperationInfo["category"], string> = {
+  arithmetic: COLORS.primary,
+  logic: COLORS.secondary,
+  shift: COLORS.accent,
+  compare: COLORS.success,
+};
 
 const SCENARIOS: Scenario[] = [
-  { id: "arithmetic", label: "Arithmetic", description: "ADD, SUB operations" },
+  { id: "arithmetic", label: "Arithmetic", description: "ADD, SUB, MUL, DIV operations" },
   { id: "logic", label: "Logic", description: "AND, OR, XOR operations" },
   { id: "shifts", label: "Shifts", description: "SHL, SHR operations" },
   { id: "flags", label: "Flag Demo", description: "Overflow, carry, zero, negative" },
+  { id: "extended", label: "Carry & Rotate", description: "ADC/SBC chains, SAR, ROL, ROR at other widths" },
+  { id: "compare", label: "Compare & Branch", description: "SLT, SLTU and the branch conditions they drive" },
 ];
 
 const AUTOPLAY_SEQUENCES: Record<string, AutoPlayStep[]> = {
@@ -106,6 +130,8 @@ const AUTOPLAY_SEQUENCES: Record<string, AutoPlayStep[]> = {
     { a: 200, b: 100, op: "ADD", label: "200 + 100 = 300 (carry!)" },
     { a: 50, b: 30, op: "SUB", label: "50 - 30 = 20" },
     { a: 10, b: 20, op: "SUB", label: "10 - 20 = -10 (negative!)" },
+    { a: 12, b: 11, op: "MUL", label: "12 × 11 = 132" },
+    { a: 200, b: 7, op: "DIV", label: "200 ÷ 7 = 28 r 4" },
     { a: 127, b: 1, op: "ADD", label: "127 + 1 = 128 (signed overflow)" },
     { a: 0, b: 0, op: "ADD", label: "0 + 0 = 0 (zero flag)" },
   ],
@@ -133,9 +159,27 @@ const AUTOPLAY_SEQUENCES: Record<string, AutoPlayStep[]> = {
     { a: 5, b: 10, op: "SUB", label: "Negative + Carry: 5 - 10" },
     { a: 255, b: 1, op: "ADD", label: "Carry + Zero: 255 + 1" },
   ],
+  extended: [
+    { a: 0xff, b: 0x01, op: "ADD", label: "Low byte of 0x01FF + 0x0101: carry out" },
+    { a: 0x01, b: 0x01, op: "ADC", carryIn: true, label: "High byte: 1 + 1 + carry = 3" },
+    { a: 0x00, b: 0x01, op: "SUB", label: "Low byte of 0x0100 - 0x0001: borrow" },
+    { a: 0x01, b: 0x00, op: "SBC", carryIn: true, label: "High byte: 1 - 0 - borrow = 0" },
+    { a: 0b1000, b: 1, op: "SAR", width: 4, label: "4-bit SAR: -8 >> 1 = -4" },
+    { a: 0x8001, b: 4, op: "ROL", width: 16, label: "16-bit ROL by 4" },
+    { a: 0x0000ffff, b: 8, op: "ROR", width: 32, label: "32-bit ROR by 8" },
+    { a: 0x80000000, b: 31, op: "SAR", width: 32, label: "32-bit SAR: INT_MIN >> 31 = -1" },
+  ],
+  compare: [
+    { a: 5, b: 5, op: "SUB", label: "CMP 5, 5: JE taken" },
+    { a: 0xff, b: 1, op: "SLT", label: "SLT -1, 1 = 1 (signed)" },
+    { a: 0xff, b: 1, op: "SLTU", label: "SLTU 255, 1 = 0 (unsigned)" },
+    { a: 0x80, b: 1, op: "SUB", label: "CMP -128, 1: OF set, JL still taken" },
+    { a: 3, b: 9, op: "SUB", width: 16, label: "16-bit CMP 3, 9: JB and JL" },
+    { a: 0x7fffffff, b: 0x80000000, op: "SLT", width: 32, label: "32-bit SLT INT_MAX, INT_MIN = 0" },
+  ],
 };
 
-// ─── ALU Computation Logic ────────────────────────────────────────────────────
+// ─── Bit Helpers ──────────────────────────────────────────────────────────────
 
 function numberToBits(value: number, width: number = 8): number[] {
   const bits: number[] = [];
@@ -153,128 +197,13 @@ function bitsToNumber(bits: number[]): number {
   return value >>> 0;
 }
 
-function computeALU(a: number, b: number, op: ALUOperation): ALUResult {
-  const aVal = a & 0xFF;
-  const bVal = b & 0xFF;
-  let rawResult: number;
-  let carry = false;
-  const carryBits: number[] = [];
-  const intermediateSteps: string[] = [];
-
-  switch (op) {
-    case "ADD": {
-      rawResult = aVal + bVal;
-      carry = rawResult > 255;
-      // Compute carry bits for ripple carry visualization
-      let c = 0;
-      for (let i = 0; i < 8; i++) {
-        const aBit = (aVal >> i) & 1;
-        const bBit = (bVal >> i) & 1;
-        const sum = aBit + bBit + c;
-        carryBits[i] = c;
-        c = sum > 1 ? 1 : 0;
-        intermediateSteps.push(
-          `Bit ${i}: ${aBit} + ${bBit} + carry(${carryBits[i]}) = ${sum & 1}, carry-out = ${c}`
-        );
-      }
-      carryBits[8] = c;
-      rawResult = rawResult & 0xFF;
-      break;
-    }
-    case "SUB": {
-      // Two's complement subtraction: A + (~B + 1)
-      const bComplement = (~bVal & 0xFF) + 1;
-      rawResult = aVal + (bComplement & 0xFF);
-      carry = aVal < bVal; // borrow
-      let c = 1; // initial carry for two's complement
-      for (let i = 0; i < 8; i++) {
-        const aBit = (aVal >> i) & 1;
-        const bBitInv = ((~bVal) >> i) & 1;
-        const sum = aBit + bBitInv + c;
-        carryBits[i] = c;
-        c = sum > 1 ? 1 : 0;
-        intermediateSteps.push(
-          `Bit ${i}: ${aBit} + ~${(bVal >> i) & 1}(=${bBitInv}) + carry(${carryBits[i]}) = ${sum & 1}, carry-out = ${c}`
-        );
-      }
-      carryBits[8] = c;
-      rawResult = rawResult & 0xFF;
-      break;
-    }
-    case "AND":
-      rawResult = aVal & bVal;
-      for (let i = 7; i >= 0; i--) {
-        intermediateSteps.push(
-          `Bit ${i}: ${(aVal >> i) & 1} AND ${(bVal >> i) & 1} = ${(rawResult >> i) & 1}`
-        );
-      }
-      break;
-    case "OR":
-      rawResult = aVal | bVal;
-      for (let i = 7; i >= 0; i--) {
-        intermediateSteps.push(
-          `Bit ${i}: ${(aVal >> i) & 1} OR ${(bVal >> i) & 1} = ${(rawResult >> i) & 1}`
-        );
-      }
-      break;
-    case "XOR":
-      rawResult = aVal ^ bVal;
-      for (let i = 7; i >= 0; i--) {
-        intermediateSteps.push(
-          `Bit ${i}: ${(aVal >> i) & 1} XOR ${(bVal >> i) & 1} = ${(rawResult >> i) & 1}`
-        );
-      }
-      break;
-    case "NOT":
-      rawResult = ~aVal & 0xFF;
-      for (let i = 7; i >= 0; i--) {
-        intermediateSteps.push(
-          `Bit ${i}: NOT ${(aVal >> i) & 1} = ${(rawResult >> i) & 1}`
-        );
-      }
-      break;
-    case "SHL":
-      rawResult = (aVal << (bVal & 7)) & 0xFF;
-      carry = bVal > 0 && ((aVal >> (8 - (bVal & 7))) & 1) === 1;
-      intermediateSteps.push(`Shift ${numberToBits(aVal).join("")} left by ${bVal & 7} positions`);
-      intermediateSteps.push(`Result: ${numberToBits(rawResult).join("")}`);
-      intermediateSteps.push(`Bits shifted out from the left are lost`);
-      break;
-    case "SHR":
-      rawResult = (aVal >>> (bVal & 7)) & 0xFF;
-      carry = bVal > 0 && ((aVal >> ((bVal & 7) - 1)) & 1) === 1;
-      intermediateSteps.push(`Shift ${numberToBits(aVal).join("")} right by ${bVal & 7} positions`);
-      intermediateSteps.push(`Result: ${numberToBits(rawResult).join("")}`);
-      intermediateSteps.push(`Bits shifted out from the right are lost`);
-      break;
-    default:
-      rawResult = 0;
-  }
-
-  const result = rawResult & 0xFF;
-
-  // Compute flags
-  const zero = result === 0;
-  const negative = (result & 0x80) !== 0;
-  let overflow = false;
-  if (op === "ADD") {
-    const aSign = (aVal & 0x80) !== 0;
-    const bSign = (bVal & 0x80) !== 0;
-    const rSign = (result & 0x80) !== 0;
-    overflow = (!aSign && !bSign && rSign) || (aSign && bSign && !rSign);
-  } else if (op === "SUB") {
-    const aSign = (aVal & 0x80) !== 0;
-    const bSign = (bVal & 0x80) !== 0;
-    const rSign = (result & 0x80) !== 0;
-    overflow = (!aSign && bSign && rSign) || (aSign && !bSign && !rSign);
-  }
+function toHex(value: number, width: number): string {
+  return "0x" + value.toString(16).toUpperCase().padStart(Math.ceil(width / 4), "0");
+}
 
-  return {
-    result,
-    flags: { zero, carry, overflow, negative },
-    carryBits,
-    intermediateSteps,
-  };
+/** Decimal with its bits while they fit the diagram's boxes, hex beyond a byte. */
+function formatValue(value: number, width: number): string {
+  return width <= 8 ? `${value.toString(10).padStart(3, " ")} (${numberToBits(value, width).join("")})` : toHex(value, width);
 }
 
 // ─── Bit Toggle Component ─────────────────────────────────────────────────────
@@ -286,6 +215,7 @@ function BitToggle({
   onClick,
   isAnimating,
   label,
+  compact = false,
 }: {
   bit: number;
   index: number;
@@ -293,14 +223,15 @@ function BitToggle({
   onClick: () => void;
   isAnimating: boolean;
   label?: string;
+  compact?: boolean;
 }) {
   return (
     <motion.button
       onClick={onClick}
       className="relative flex items-center justify-center font-mono font-bold text-sm select-none"
       style={{
-        width: 32,
-        height: 38,
+        width: compact ? 20 : 32,
+        height: compact ? 30 : 38,
         borderRadius: 6,
         background: bit === 1 ? `${color}25` : "rgba(30,30,46,0.5)",
         border: `1px solid ${bit === 1 ? `${color}66` : "#1e1e2e"}`,
@@ -385,6 +316,7 @@ function ALUDiagram({
   inputB,
   result,
   flags,
+  width,
 }: {
   phase: SimulationPhase;
   operation: ALUOperation;
@@ -392,6 +324,7 @@ function ALUDiagram({
   inputB: number;
   result: number;
   flags: ALUFlags;
+  width: ALUWidth;
 }) {
   const isActiveA = phase === "load-a" || phase === "compute" || phase === "output";
   const isActiveB = phase === "load-b" || phase === "compute" || phase === "output";
@@ -407,7 +340,7 @@ function ALUDiagram({
           {/* A label */}
           <rect x="80" y="20" width="100" height="40" rx="8" fill={isActiveA ? `${COLORS.inputA}20` : "#1e1e2e"} stroke={isActiveA ? COLORS.inputA : "#2a2a3e"} strokeWidth="1.5" />
           <text x="130" y="36" textAnchor="middle" fill={isActiveA ? COLORS.inputA : "#4a4a5a"} fontSize="11" fontWeight="600" fontFamily="monospace">Input A</text>
-          <text x="130" y="52" textAnchor="middle" fill={isActiveA ? "#ffffff" : "#4a4a5a"} fontSize="13" fontWeight="700" fontFamily="monospace">{inputA.toString(10).padStart(3, " ")} ({numberToBits(inputA).join("")})</text>
+          <text x="130" y="52" textAnchor="middle" fill={isActiveA ? "#ffffff" : "#4a4a5a"} fontSize="13" fontWeight="700" fontFamily="monospace">{formatValue(inputA, width)}</text>
 
           {/* A bus line */}
           <motion.line
@@ -430,7 +363,7 @@ function ALUDiagram({
         <motion.g animate={{ opacity: isActiveB ? 1 : 0.3 }} transition={{ duration: 0.3 }}>
           <rect x="520" y="20" width="100" height="40" rx="8" fill={isActiveB ? `${COLORS.inputB}20` : "#1e1e2e"} stroke={isActiveB ? COLORS.inputB : "#2a2a3e"} strokeWidth="1.5" />
           <text x="570" y="36" textAnchor="middle" fill={isActiveB ? COLORS.inputB : "#4a4a5a"} fontSize="11" fontWeight="600" fontFamily="monospace">Input B</text>
-          <text x="570" y="52" textAnchor="middle" fill={isActiveB ? "#ffffff" : "#4a4a5a"} fontSize="13" fontWeight="700" fontFamily="monospace">{inputB.toString(10).padStart(3, " ")} ({numberToBits(inputB).join("")})</text>
+          <text x="570" y="52" textAnchor="middle" fill={isActiveB ? "#ffffff" : "#4a4a5a"} fontSize="13" fontWeight="700" fontFamily="monospace">{formatValue(inputB, width)}</text>
 
           <motion.line
             x1="570" y1="60" x2="570" y2="120"
@@ -465,7 +398,7 @@ function ALUDiagram({
             animate={isComputing ? { fill: ["#1a1a2e", "#1e1e3e", "#1a1a2e"] } : {}}
             transition={isComputing ? { duration: 0.8, repeat: Infinity } : {}}
           />
-          <text x="350" y="172" textAnchor="middle" fill={isComputing ? "#ffffff" : "#a1a1aa"} fontSize="20" fontWeight="800" fontFamily="monospace">ALU</text>
+          <text x="350" y="172" textAnchor="middle" fill={isComputing ? "#ffffff" : "#a1a1aa"} fontSize="20" fontWeight="800" fontFamily="monospace">{width}-bit ALU</text>
 
           {/* Operation display inside ALU */}
           <rect x="305" y="185" width="90" height="28" rx="6" fill={isOpSelected ? `${COLORS.primary}25` : "#1e1e2e"} stroke={isOpSelected ? `${COLORS.primary}66` : "#2a2a3e"} strokeWidth="1" />
@@ -503,7 +436,7 @@ function ALUDiagram({
 
           <rect x="270" y="290" width="160" height="40" rx="8" fill={isOutput ? `${COLORS.result}20` : "#1e1e2e"} stroke={isOutput ? COLORS.result : "#2a2a3e"} strokeWidth="1.5" />
           <text x="350" y="306" textAnchor="middle" fill={isOutput ? COLORS.result : "#4a4a5a"} fontSize="11" fontWeight="600" fontFamily="monospace">Result</text>
-          <text x="350" y="322" textAnchor="middle" fill={isOutput ? "#ffffff" : "#4a4a5a"} fontSize="13" fontWeight="700" fontFamily="monospace">{result.toString(10).padStart(3, " ")} ({numberToBits(result).join("")})</text>
+          <text x="350" y="322" textAnchor="middle" fill={isOutput ? "#ffffff" : "#4a4a5a"} fontSize="13" fontWeight="700" fontFamily="monospace">{formatValue(result, width)}</text>
         </motion.g>
 
         {/* Flag outputs - on the right side */}
@@ -567,21 +500,35 @@ function ALUDiagram({
 
 // ─── Internal Detail View (Ripple Carry for ADD) ──────────────────────────────
 
+const ADDER_TITLES: Partial<Record<ALUOperation, string>> = {
+  ADD: "Ripple Carry Adder",
+  ADC: "Ripple Carry Adder with Carry In",
+  SUB: "Two's Complement Subtraction",
+  SBC: "Two's Complement Subtraction with Borrow In",
+  SLT: "Signed Compare: A - B",
+  SLTU: "Unsigned Compare: A - B",
+};
+
 function InternalDetailView({
   operation,
   inputA,
   inputB,
   aluResult,
   visible,
+  width,
 }: {
   operation: ALUOperation;
   inputA: number;
   inputB: number;
   aluResult: ALUResult;
   visible: boolean;
+  width: ALUWidth;
 }) {
   if (!visible) return null;
 
+  const isSubtract = operation === "SUB" || operation === "SBC" || operation === "SLT" || operation === "SLTU";
+  const bitPositions = Array.from({ length: width }, (_, i) => width - 1 - i);
+
   return (
     <motion.div
       initial={{ opacity: 0, height: 0 }}
@@ -601,22 +548,31 @@ function InternalDetailView({
         </span>
       </div>
 
-      {(operation === "ADD" || operation === "SUB") && aluResult.carryBits && (
+      {aluResult.carryBits && aluResult.addend !== undefined && (
         <div className="mb-3">
-          <div className="text-[10px] uppercase tracking-wider text-[#71717a] mb-2">
-            {operation === "ADD" ? "Ripple Carry Adder" : "Two's Complement Subtraction"}
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-[10px] uppercase tracking-wider text-[#71717a]">
+              {ADDER_TITLES[operation]}
+            </div>
+            <Link
+              href="/modules/1-8-adders"
+              className="flex items-center gap-1 text-[10px] text-[#818cf8] hover:text-white transition-colors"
+            >
+              Faster carry chains <ArrowRight size={10} />
+            </Link>
           </div>
-          <div className="font-mono text-xs space-y-1">
-            {/* Carry row */}
+          <div className="font-mono text-xs space-y-1 overflow-x-auto pb-1">
+            {/* Carry row, with the carry out in the leftmost column */}
             <div className="flex items-center gap-1">
-              <span className="w-16 text-right text-[#71717a]">Carry:</span>
+              <span className="w-16 shrink-0 text-right text-[#71717a]">Carry:</span>
               <div className="flex gap-0.5">
-                {Array.from({ length: 8 }, (_, i) => 7 - i).map((bitPos) => (
+                {[width, ...bitPositions].map((bitPos) => (
                   <span
                     key={bitPos}
-                    className="w-7 text-center"
+                    className="w-7 shrink-0 text-center"
                     style={{
                       color: aluResult.carryBits![bitPos] ? COLORS.accent : "#3a3a4a",
+                      borderRight: bitPos === width ? "1px dashed #3a3a4a" : undefined,
                     }}
                   >
                     {aluResult.carryBits![bitPos] ?? 0}
@@ -624,53 +580,49 @@ function InternalDetailView({
                 ))}
               </div>
             </div>
-            {/* A row */}
-            <div className="flex items-center gap-1">
-              <span className="w-16 text-right" style={{ color: COLORS.inputA }}>A:</span>
-              <div className="flex gap-0.5">
-                {numberToBits(inputA).map((bit, i) => (
-                  <span key={i} className="w-7 text-center" style={{ color: COLORS.inputA }}>
-                    {bit}
-                  </span>
-                ))}
-              </div>
-            </div>
-            {/* B row */}
-            <div className="flex items-center gap-1">
-              <span className="w-16 text-right" style={{ color: COLORS.inputB }}>
-                {operation === "SUB" ? "~B+1:" : "B:"}
-              </span>
-              <div className="flex gap-0.5">
-                {numberToBits(operation === "SUB" ? (~inputB & 0xFF) + 1 & 0xFF : inputB).map((bit, i) => (
-                  <span key={i} className="w-7 text-center" style={{ color: COLORS.inputB }}>
-                    {bit}
-                  </span>
-                ))}
-              </div>
-            </div>
-            {/* Separator */}
-            <div className="flex items-center gap-1">
-              <span className="w-16" />
-              <div className="border-t w-[232px]" style={{ borderColor: "#3a3a4a" }} />
-            </div>
-            {/* Result row */}
-            <div className="flex items-center gap-1">
-              <span className="w-16 text-right" style={{ color: COLORS.result }}>Result:</span>
-              <div className="flex gap-0.5">
-                {numberToBits(aluResult.result).map((bit, i) => (
-                  <span key={i} className="w-7 text-center font-bold" style={{ color: COLORS.result }}>
-                    {bit}
-                  </span>
-                ))}
-              </div>
-            </div>
+            {[
+              { label: "A:", value: inputA, color: COLORS.inputA, bold: false },
+              { label: isSubtract ? "~B:" : "B:", value: aluResult.addend, color: COLORS.inputB, bold: false },
+              null,
+              {
+                label: isSubtract ? "A-B:" : "Sum:",
+                value: operation === "SLT" || operation === "SLTU" ? (inputA + aluResult.addend + 1) % 2 ** width : aluResult.result,
+                color: COLORS.result,
+                bold: true,
+              },
+            ].map((row, r) =>
+              row === null ? (
+                <div key={r} className="flex items-center gap-1">
+                  <span className="w-16 shrink-0" />
+                  <div className="border-t" style={{ borderColor: "#3a3a4a", width: (width + 1) * 30 }} />
+                </div>
+              ) : (
+                <div key={r} className="flex items-center gap-1">
+                  <span className="w-16 shrink-0 text-right" style={{ color: row.color }}>{row.label}</span>
+                  <div className="flex gap-0.5">
+                    <span className="w-7 shrink-0" />
+                    {numberToBits(row.value, width).map((bit, i) => (
+                      <span key={i} className={`w-7 shrink-0 text-center${row.bold ? " font-bold" : ""}`} style={{ color: row.color }}>
+                        {bit}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )
+            )}
           </div>
+          {isSubtract && (
+            <div className="text-[10px] mt-1" style={{ color: "#71717a" }}>
+              The +1 of two&apos;s complement enters as the carry into bit 0
+              {operation === "SBC" && ", unless a borrow is pending"}.
+            </div>
+          )}
         </div>
       )}
 
       {/* Step-by-step details */}
-      {aluResult.intermediateSteps && aluResult.intermediateSteps.length > 0 && (
-        <div>
+      {aluResult.intermediateSteps.length > 0 && (
+        <div className="mb-3">
           <div className="text-[10px] uppercase tracking-wider text-[#71717a] mb-2">
             Bit-by-Bit Detail
           </div>
@@ -690,10 +642,141 @@ function InternalDetailView({
           </div>
         </div>
       )}
+
+      <BranchConditionsView
+        operation={operation}
+        inputA={inputA}
+        inputB={inputB}
+        flags={aluResult.flags}
+        width={width}
+      />
     </motion.div>
   );
 }
 
+// ─── Branch Conditions ────────────────────────────────────────────────────────
+
+const BRANCH_KIND_COLORS: Record<BranchCondition["kind"], string> = {
+  equality: COLORS.secondary,
+  signed: COLORS.primary,
+  unsigned: COLORS.accent,
+  flag: COLORS.muted,
+};
+
+function BranchConditionsView({
+  operation,
+  inputA,
+  inputB,
+  flags,
+  width,
+}: {
+  operation: ALUOperation;
+  inputA: number;
+  inputB: number;
+  flags: ALUFlags;
+  width: ALUWidth;
+}) {
+  const isCompare = operation === "SUB" || operation === "SLT" || operation === "SLTU";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-[#71717a]">
+          <GitBranch size={11} />
+          Branch Conditions
+        </div>
+        <Link
+          href="/modules/2-2-single-cycle"
+          className="flex items-center gap-1 text-[10px] text-[#818cf8] hover:text-white transition-colors"
+        >
+          BEQ in the single-cycle datapath <ArrowRight size={10} />
+        </Link>
+      </div>
+      <div className="flex items-center gap-3 flex-wrap font-mono text-[11px] mb-2">
+        {[
+          { name: "ZF", value: flags.zero },
+          { name: "CF", value: flags.carry },
+          { name: "OF", value: flags.overflow },
+          { name: "SF", value: flags.negative },
+        ].map((f) => (
+          <span key={f.name} style={{ color: f.value ? COLORS.flagActive : "#4a4a5a" }}>
+            {f.name}={f.value ? 1 : 0}
+          </span>
+        ))}
+        <span className="text-[10px] font-sans" style={{ color: "#71717a" }}>
+          {isCompare
+            ? `CMP A, B: A = ${inputA} unsigned / ${toSigned(inputA, width)} signed, B = ${inputB} / ${toSigned(inputB, width)}`
+            : "Relations hold when the flags come from A - B: pick SUB, SLT or SLTU to compare"}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+        {BRANCH_CONDITIONS.map((condition) => {
+          const taken = condition.taken(flags);
+          const kindColor = BRANCH_KIND_COLORS[condition.kind];
+          return (
+            <div
+              key={condition.mnemonic}
+              className="flex items-center gap-2 px-2 py-1 rounded font-mono text-[11px]"
+              style={{
+                background: taken ? `${COLORS.success}12` : "rgba(30,30,46,0.3)",
+                border: `1px solid ${taken ? `${COLORS.success}30` : "transparent"}`,
+              }}
+            >
+              <span className="w-10 font-bold" style={{ color: taken ? COLORS.success : "#a1a1aa" }}>
+                {condition.mnemonic}
+              </span>
+              <span className="w-36" style={{ color: "#a1a1aa" }}>{condition.test}</span>
+              <span className="flex-1" style={{ color: kindColor }}>
+                {condition.relation}
+                {condition.kind === "signed" || condition.kind === "unsigned" ? ` ${condition.kind}` : ""}
+              </span>
+              {condition.riscv && (
+                <span className="text-[9px] px-1 rounded" style={{ color: "#71717a", border: "1px solid #2a2a3e" }}>
+                  {condition.riscv}
+                </span>
+              )}
+              <span className="w-14 text-right text-[10px]" style={{ color: taken ? COLORS.success : "#4a4a5a" }}>
+                {taken ? "taken" : "not taken"}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] mt-2" style={{ color: "#71717a" }}>
+        The single-cycle MIPS datapath only wires ZF out of its ALU: BEQ subtracts and the Branch AND Zero gate
+        picks the target. Signed and unsigned orderings need SF ⊕ OF or CF, which MIPS gets from SLT/SLTU plus BNE
+        and RISC-V builds into BLT/BGE/BLTU/BGEU.
+      </p>
+    </div>
+  );
+}
+
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describePhase(
+  phase: SimulationPhase,
+  a: number,
+  b: number,
+  op: ALUOperation,
+  result: ALUResult
+): string | undefined {
+  switch (phase) {
+    case "idle":
+      return undefined;
+    case "load-a":
+      return `Loading operand A = ${a}`;
+    case "load-b":
+      return `Loading operand B = ${b}`;
+    case "select-op":
+      return `Selecting ${OPERATIONS[op].label} (${OPERATIONS[op].description})`;
+    case "compute":
+      return `Computing ${OPERATIONS[op].label}`;
+    case "output": {
+      const set = (Object.keys(result.flags) as (keyof ALUFlags)[]).filter((flag) => result.flags[flag]);
+      return `Result ${result.result}${set.length > 0 ? `, flags set: ${set.join(", ")}` : ", no flags set"}`;
+    }
+  }
+}
+
 // ─── Main Page Component ──────────────────────────────────────────────────────
 
 export default function ALUPage() {
@@ -701,6 +784,8 @@ export default function ALUPage() {
   const [inputA, setInputA] = useState(15);
   const [inputB, setInputB] = useState(10);
   const [operation, setOperation] = useState<ALUOperation>("ADD");
+  const [width, setWidth] = useState<ALUWidth>(8);
+  const [carryIn, setCarryIn] = useState(false);
   const [phase, setPhase] = useState<SimulationPhase>("idle");
   const [showMetrics, setShowMetrics] = useState(true);
   const [speed, setSpeed] = useState(1);
@@ -729,7 +814,7 @@ export default function ALUPage() {
   useEffect(() => { phaseRef.current = phase; }, [phase]);
 
   // ── Computed ALU result ─────────────────────────────────────────────────────
-  const aluResult = computeALU(inputA, inputB, operation);
+  const aluResult = computeALU(inputA, inputB, operation, width, carryIn);
   const displayResult = phase === "output" || phase === "idle" ? aluResult.result : 0;
   const displayFlags: ALUFlags =
     phase === "output" || phase === "idle"
@@ -737,9 +822,18 @@ export default function ALUPage() {
       : { zero: false, carry: false, overflow: false, negative: false };
 
   // ── Input bit arrays ────────────────────────────────────────────────────────
-  const bitsA = numberToBits(inputA);
-  const bitsB = numberToBits(inputB);
-  const bitsResult = numberToBits(displayResult);
+  const bitsA = numberToBits(inputA, width);
+  const bitsB = numberToBits(inputB, width);
+  const bitsResult = numberToBits(displayResult, width);
+  const maxValue = 2 ** width - 1;
+  const isShift = OPERATIONS[operation].category === "shift";
+  const usesCarryIn = operation === "ADC" || operation === "SBC";
+
+  const handleWidthChange = useCallback((next: ALUWidth) => {
+    setWidth(next);
+    setInputA((v) => v % 2 ** next);
+    setInputB((v) => v % 2 ** next);
+  }, []);
 
   // ── Toggle input bits ───────────────────────────────────────────────────────
   const toggleBitA = useCallback(
@@ -788,6 +882,8 @@ export default function ALUPage() {
           setInputA(step.a);
           setInputB(step.b);
           setOperation(step.op);
+          setWidth(step.width ?? 8);
+          setCarryIn(step.carryIn ?? false);
           setAutoPlayIndex(idx + 1);
           autoPlayIndexRef.current = idx + 1;
         } else {
@@ -799,6 +895,8 @@ export default function ALUPage() {
             setInputA(step.a);
             setInputB(step.b);
             setOperation(step.op);
+            setWidth(step.width ?? 8);
+            setCarryIn(step.carryIn ?? false);
             setAutoPlayIndex(1);
             autoPlayIndexRef.current = 1;
           }
@@ -881,6 +979,8 @@ export default function ALUPage() {
         setInputA(sequence[0].a);
         setInputB(sequence[0].b);
         setOperation(sequence[0].op);
+        setWidth(sequence[0].width ?? 8);
+        setCarryIn(sequence[0].carryIn ?? false);
       }
     },
     [handlePause]
@@ -893,6 +993,8 @@ export default function ALUPage() {
     };
   }, []);
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioChange);
+
   // ── Render ──────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen" style={{ background: COLORS.bg }}>
@@ -902,6 +1004,7 @@ export default function ALUPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -924,9 +1027,11 @@ export default function ALUPage() {
             </div>
             <p className="text-sm text-[#a1a1aa] max-w-2xl">
               Explore the Arithmetic Logic Unit, the computational heart of every processor.
-              Watch how 8-bit inputs flow through the ALU datapath, operations are selected,
-              and results with status flags are produced step by step.
+              Watch how 4- to 32-bit inputs flow through the ALU datapath, operations are selected,
+              and results with status flags are produced step by step, then see how those flags
+              decide conditional branches.
             </p>
+            <ModuleLinks moduleId="1.7" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -989,12 +1094,7 @@ export default function ALUPage() {
             {OPERATION_KEYS.map((op) => {
               const info = OPERATIONS[op];
               const isActive = operation === op;
-              const categoryColor =
-                info.category === "arithmetic"
-                  ? COLORS.primary
-                  : info.category === "logic"
-                  ? COLORS.secondary
-                  : COLORS.accent;
+              const categoryColor = CATEGORY_COLORS[info.category];
 
               return (
                 <button
@@ -1020,6 +1120,45 @@ export default function ALUPage() {
             })}
           </motion.div>
 
+          {/* ── Width & Carry In ───────────────────────────────────────── */}
+          <motion.div
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.15, ease: [0.23, 1, 0.32, 1] }}
+            className="flex items-center gap-2 mb-4 flex-wrap"
+          >
+            <span className="text-xs text-[#71717a] font-medium mr-1">Width:</span>
+            {ALU_WIDTHS.map((w) => (
+              <button
+                key={w}
+                onClick={() => handleWidthChange(w)}
+                className="px-3 py-1.5 rounded-lg text-xs font-mono font-medium transition-all duration-200"
+                style={{
+                  background: width === w ? "rgba(99,102,241,0.12)" : "#1e1e2e",
+                  color: width === w ? COLORS.primary : "#a1a1aa",
+                  border: width === w ? "1px solid rgba(99,102,241,0.3)" : "1px solid transparent",
+                }}
+              >
+                {w}-bit
+              </button>
+            ))}
+            <div className="w-px h-6 mx-1" style={{ background: COLORS.border }} />
+            <button
+              onClick={() => setCarryIn(!carryIn)}
+              disabled={!usesCarryIn}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-mono font-medium transition-all duration-200"
+              style={{
+                background: carryIn && usesCarryIn ? `${COLORS.flagActive}15` : "#1e1e2e",
+                color: carryIn && usesCarryIn ? COLORS.flagActive : "#71717a",
+                border: `1px solid ${carryIn && usesCarryIn ? `${COLORS.flagActive}40` : "transparent"}`,
+                opacity: usesCarryIn ? 1 : 0.4,
+              }}
+              title="Carry into ADC, or the pending borrow for SBC: the CF left by the previous word"
+            >
+              {operation === "SBC" ? "Borrow in" : "Carry in"}: {carryIn ? 1 : 0}
+            </button>
+          </motion.div>
+
           {/* ── Main Visualization ─────────────────────────────────────── */}
           <motion.div
             initial={{ opacity: 0, y: 16 }}
@@ -1043,10 +1182,10 @@ export default function ALUPage() {
                       Input A
                     </span>
                     <span className="ml-auto font-mono text-xs" style={{ color: "#a1a1aa" }}>
-                      {inputA} (0x{inputA.toString(16).toUpperCase().padStart(2, "0")})
+                      {inputA} ({toHex(inputA, width)})
                     </span>
                   </div>
-                  <div className="flex gap-1 pt-4">
+                  <div className="flex gap-1 pt-4 flex-wrap">
                     {bitsA.map((bit, i) => (
                       <BitToggle
                         key={`a-${i}`}
@@ -1055,14 +1194,15 @@ export default function ALUPage() {
                         color={COLORS.inputA}
                         onClick={() => toggleBitA(i)}
                         isAnimating={animatingBitsA.has(i)}
-                        label={i === 0 ? "7" : i === 7 ? "0" : undefined}
+                        label={i === 0 ? String(width - 1) : i === width - 1 ? "0" : undefined}
+                        compact={width > 8}
                       />
                     ))}
                   </div>
                   <input
                     type="range"
                     min={0}
-                    max={255}
+                    max={maxValue}
                     value={inputA}
                     onChange={(e) => setInputA(parseInt(e.target.value))}
                     className="w-full mt-2 h-1.5 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#6366f1]"
@@ -1078,10 +1218,10 @@ export default function ALUPage() {
                       Input B {operation === "NOT" && "(unused)"}
                     </span>
                     <span className="ml-auto font-mono text-xs" style={{ color: "#a1a1aa" }}>
-                      {inputB} (0x{inputB.toString(16).toUpperCase().padStart(2, "0")})
+                      {inputB} ({toHex(inputB, width)})
                     </span>
                   </div>
-                  <div className="flex gap-1 pt-4" style={{ opacity: operation === "NOT" ? 0.3 : 1 }}>
+                  <div className="flex gap-1 pt-4 flex-wrap" style={{ opacity: operation === "NOT" ? 0.3 : 1 }}>
                     {bitsB.map((bit, i) => (
                       <BitToggle
                         key={`b-${i}`}
@@ -1090,14 +1230,15 @@ export default function ALUPage() {
                         color={COLORS.inputB}
                         onClick={() => operation !== "NOT" && toggleBitB(i)}
                         isAnimating={animatingBitsB.has(i)}
-                        label={i === 0 ? "7" : i === 7 ? "0" : undefined}
+                        label={i === 0 ? String(width - 1) : i === width - 1 ? "0" : undefined}
+                        compact={width > 8}
                       />
                     ))}
                   </div>
                   <input
                     type="range"
                     min={0}
-                    max={operation === "SHL" || operation === "SHR" ? 7 : 255}
+                    max={isShift ? width - 1 : maxValue}
                     value={inputB}
                     onChange={(e) => setInputB(parseInt(e.target.value))}
                     className="w-full mt-2 h-1.5 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#06b6d4]"
@@ -1117,6 +1258,7 @@ export default function ALUPage() {
                 inputB={inputB}
                 result={displayResult}
                 flags={displayFlags}
+                width={width}
               />
             </div>
 
@@ -1133,7 +1275,7 @@ export default function ALUPage() {
                     Result
                   </span>
                 </div>
-                <div className="flex gap-0.5">
+                <div className="flex gap-0.5 flex-wrap">
                   {bitsResult.map((bit, i) => (
                     <span
                       key={i}
@@ -1152,7 +1294,7 @@ export default function ALUPage() {
                   = {displayResult}
                 </span>
                 <span className="font-mono text-xs" style={{ color: "#71717a" }}>
-                  (0x{displayResult.toString(16).toUpperCase().padStart(2, "0")})
+                  ({toHex(displayResult, width)})
                 </span>
               </div>
 
@@ -1203,6 +1345,7 @@ export default function ALUPage() {
                 inputB={inputB}
                 aluResult={aluResult}
                 visible={showInternalDetail}
+                width={width}
               />
             </AnimatePresence>
           </motion.div>
@@ -1215,7 +1358,9 @@ export default function ALUPage() {
             className="mb-4"
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={phase === "output" && autoPlayIndex >= (AUTOPLAY_SEQUENCES[activeScenario] || AUTOPLAY_SEQUENCES.arithmetic).length}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1224,6 +1369,7 @@ export default function ALUPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describePhase(phase, inputA, inputB, operation, aluResult)}
             >
               {/* Internal detail toggle */}
               <button
@@ -1318,7 +1464,7 @@ export default function ALUPage() {
                   },
                   {
                     label: "Result (Bin)",
-                    value: numberToBits(displayResult).join(""),
+                    value: numberToBits(displayResult, width).join(""),
                     color: COLORS.success,
                   },
                   {
@@ -1395,12 +1541,7 @@ export default function ALUPage() {
                     {OPERATION_KEYS.map((op) => {
                       const info = OPERATIONS[op];
                       const isActive = operation === op;
-                      const categoryColor =
-                        info.category === "arithmetic"
-                          ? COLORS.primary
-                          : info.category === "logic"
-                          ? COLORS.secondary
-                          : COLORS.accent;
+                      const categoryColor = CATEGORY_COLORS[info.category];
 
                       return (
                         <tr
@@ -1483,19 +1624,19 @@ export default function ALUPage() {
                   {
                     flag: "C (Carry)",
                     color: COLORS.danger,
-                    desc: "Set when an unsigned operation produces a result larger than 8 bits (carry out) or a borrow in subtraction.",
+                    desc: "Set when an unsigned operation produces a result wider than the ALU (carry out) or a borrow in subtraction. ADC and SBC feed it into the next word.",
                     example: "200 + 100 = 300 → C=1 (300 > 255)",
                   },
                   {
                     flag: "V (Overflow)",
                     color: COLORS.primary,
-                    desc: "Set when a signed operation produces a result outside the -128 to 127 range. Detected when the sign of the result contradicts the signs of the operands.",
+                    desc: "Set when a signed operation produces a result outside the signed range (-128 to 127 at 8 bits). Detected when the carry into the sign bit differs from the carry out of it.",
                     example: "127 + 1 = -128 → V=1",
                   },
                   {
                     flag: "N (Negative)",
                     color: COLORS.secondary,
-                    desc: "Set when the most significant bit (bit 7) of the result is 1, indicating a negative number in two's complement.",
+                    desc: "Set when the most significant bit of the result is 1, indicating a negative number in two's complement. JL compares it with V rather than using it alone.",
                     example: "5 - 10 = -5 → N=1",
                   },
                 ].map((item) => (
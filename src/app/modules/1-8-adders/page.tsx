@@ -0,0 +1,803 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowRight, CircuitBoard, Info, Layers, Timer, TrendingUp, Waves, Zap } from "lucide-react";
+import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
+import ModuleControls from "@/components/ui/ModuleControls";
+import MetricsPanel from "@/components/ui/MetricsPanel";
+import TimingTrace from "@/components/ui/TimingTrace";
+import { useScenarioParam } from "@/hooks/useShareState";
+import { criticalPath, findHazards, simulateCircuit, valueAt } from "@/lib/sim/logic";
+import {
+  ADDER_BLOCK,
+  ADDER_KINDS,
+  adderCost,
+  adderResult,
+  adderStimulus,
+  buildAdder,
+  type AdderCost,
+  type AdderKind,
+} from "@/lib/sim/adders";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const COLORS = {
+  bg: "#0a0a0f",
+  card: "#111118",
+  border: "#1e1e2e",
+  primary: "#6366f1",
+  secondary: "#06b6d4",
+  success: "#10b981",
+  danger: "#ef4444",
+  accent: "#f59e0b",
+  muted: "#71717a",
+  wireHigh: "#10b981",
+  wireLow: "#3a3a4a",
+};
+
+const WIDTHS = [4, 8, 16, 32];
+const CHART_WIDTHS = [4, 8, 16, 32, 64];
+/** Operands change here, so the first gate delay is visible from a settled start. */
+const STIMULUS_TIME = 1;
+/** Rows in the timing trace before carries are sampled instead of listed. */
+const MAX_TRACE_ROWS = 16;
+
+const KIND_INFO: Record<AdderKind, { label: string; short: string; color: string; description: string }> = {
+  ripple: {
+    label: "Ripple Carry",
+    short: "RCA",
+    color: COLORS.accent,
+    description:
+      "A chain of full adders, each waiting for the carry from the bit below. Cheapest in gates, but the worst case crosses every stage, so delay grows linearly with width.",
+  },
+  lookahead: {
+    label: "Carry Lookahead",
+    short: "CLA",
+    color: COLORS.secondary,
+    description:
+      "Each bit reports whether it generates (g = a·b) or propagates (p = a⊕b) a carry. Lookahead units turn those into every carry in two gate levels, and groups of four stack into a tree, so delay grows with log₄ of the width.",
+  },
+  select: {
+    label: "Carry Select",
+    short: "CSA",
+    color: COLORS.primary,
+    description: `Every ${ADDER_BLOCK}-bit block above the first computes its sum twice, once assuming carry-in 0 and once assuming 1, while the real carry is still on its way. A multiplexer picks the right answer when it arrives, so only the muxes sit on the long path.`,
+  },
+};
+
+interface Scenario {
+  id: string;
+  label: string;
+  description: string;
+  /** Operands for a given width: A, B and carry-in. */
+  operands: (width: number) => [number, number, number];
+}
+
+const mask = (width: number) => 2 ** width - 1;
+/** 0b0101… across the whole width. */
+const alternating = (width: number) => Math.floor(mask(width) / 3);
+
+const SCENARIOS: Scenario[] = [
+  {
+    id: "worst-case",
+    label: "Worst-case Ripple",
+    description: "All ones plus one: bit 0 generates a carry and every bit above propagates it to the top.",
+    operands: (w) => [mask(w), 1, 0],
+  },
+  {
+    id: "carry-in",
+    label: "Carry-in Chain",
+    description: "All ones plus a carry-in: nothing generates, so the carry starts at Cin and crosses every bit.",
+    operands: (w) => [mask(w), 0, 1],
+  },
+  {
+    id: "no-carry",
+    label: "No Carries",
+    description: "Alternating bits: every position propagates but none generates, so no carry ever forms.",
+    operands: (w) => [alternating(w), mask(w) - alternating(w), 0],
+  },
+  {
+    id: "typical",
+    label: "Typical Operands",
+    description: "Mixed bits: carries form in short runs and die out, which is why ripple carry is usually faster than its worst case.",
+    operands: (w) => [Math.floor(mask(w) * 0.7134), Math.floor(mask(w) * 0.3821), 0],
+  },
+];
+
+type ScenarioKey = (typeof SCENARIOS)[number]["id"];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toHex(value: number, width: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(Math.ceil(width / 4), "0")}`;
+}
+
+function bitOf(value: number, i: number): number {
+  return Math.floor(value / 2 ** i) % 2;
+}
+
+/** Time of the last transition, or null if the signal never moved. */
+function settleTime(waveform: { time: number }[] | undefined): number | null {
+  return waveform && waveform.length > 1 ? waveform[waveform.length - 1].time : null;
+}
+
+// ─── Bit slices ───────────────────────────────────────────────────────────────
+
+function BitSlices({
+  width,
+  a,
+  b,
+  cin,
+  values,
+  carries,
+  sums,
+  time,
+  waveforms,
+}: {
+  width: number;
+  a: number;
+  b: number;
+  cin: string;
+  values: Record<string, number>;
+  carries: (string | null)[];
+  sums: string[];
+  time: number;
+  waveforms: Record<string, { time: number; value: number }[]>;
+}) {
+  const compact = width > 8;
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="flex items-stretch gap-0 w-fit mx-auto">
+        {Array.from({ length: width }, (_, k) => width - 1 - k).map((i) => {
+          const ai = bitOf(a, i);
+          const bi = bitOf(b, i);
+          const role = ai && bi ? "G" : ai || bi ? "P" : "K";
+          const sum = values[sums[i]] ?? 0;
+          const sumWave = waveforms[sums[i]];
+          const settled = settleTime(sumWave);
+          const pending = settled !== null && settled > time;
+          const justChanged = sumWave?.some((t) => t.time === time && time > 0);
+          const carryIn = i === 0 ? cin : carries[i - 1];
+          const carryValue = carryIn ? values[carryIn] ?? 0 : null;
+          return (
+            <div key={i} className="flex items-stretch">
+              <div
+                className={`flex flex-col items-center rounded-lg border font-mono ${compact ? "w-8 px-0.5 py-1 text-[9px]" : "w-14 px-1 py-2 text-xs"}`}
+                style={{
+                  borderColor: justChanged ? COLORS.accent : pending ? `${COLORS.accent}40` : COLORS.border,
+                  background: justChanged ? "rgba(245,158,11,0.08)" : "rgba(10,10,15,0.6)",
+                  transition: "border-color 0.2s, background 0.2s",
+                }}
+                title={`Bit ${i}: ${role === "G" ? "generates" : role === "P" ? "propagates" : "kills"} a carry${
+                  settled !== null ? `, sum settles at t=${settled}` : ""
+                }`}
+              >
+                <span style={{ color: COLORS.muted }}>{i}</span>
+                <span style={{ color: COLORS.primary }}>{ai}</span>
+                <span style={{ color: COLORS.secondary }}>{bi}</span>
+                <span
+                  className="font-bold"
+                  style={{ color: role === "G" ? COLORS.success : role === "P" ? COLORS.accent : COLORS.muted }}
+                >
+                  {role}
+                </span>
+                <span className="w-full border-t my-0.5" style={{ borderColor: COLORS.border }} />
+                <span className="font-bold text-sm" style={{ color: sum ? COLORS.wireHigh : COLORS.wireLow }}>
+                  {sum}
+                </span>
+                {!compact && (
+                  <span className="text-[9px]" style={{ color: pending ? COLORS.accent : COLORS.muted }}>
+                    {settled !== null ? `t=${settled}` : "—"}
+                  </span>
+                )}
+              </div>
+              {/* Carry into this bit, drawn on its right */}
+              <div className={`flex flex-col items-center justify-center ${compact ? "w-2" : "w-5"}`}>
+                <div
+                  className="h-0.5 w-full"
+                  style={{
+                    background:
+                      carryValue === null ? "transparent" : carryValue ? COLORS.accent : COLORS.wireLow,
+                    borderTop: carryValue === null ? `1px dashed ${COLORS.border}` : undefined,
+                  }}
+                  title={carryValue === null ? "Carry resolved by the block mux" : `Carry into bit ${i}: ${carryValue}`}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-center gap-4 mt-2 text-[10px] font-mono" style={{ color: COLORS.muted }}>
+        <span>
+          rows: bit · <span style={{ color: COLORS.primary }}>A</span> · <span style={{ color: COLORS.secondary }}>B</span> ·
+          role · <span style={{ color: COLORS.wireHigh }}>S</span>
+        </span>
+        <span>
+          <span style={{ color: COLORS.success }}>G</span>enerate · <span style={{ color: COLORS.accent }}>P</span>ropagate ·
+          Kill
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// ─── Delay chart ──────────────────────────────────────────────────────────────
+
+function CostChart({
+  costs,
+  metric,
+  width,
+  kind,
+}: {
+  costs: AdderCost[];
+  metric: "delay" | "gates";
+  width: number;
+  kind: AdderKind;
+}) {
+  const W = 360;
+  const H = 200;
+  const pad = { left: 36, right: 12, top: 10, bottom: 24 };
+  const max = Math.max(...costs.map((c) => c[metric]));
+  const x = (w: number) =>
+    pad.left + (Math.log2(w / CHART_WIDTHS[0]) / Math.log2(CHART_WIDTHS[CHART_WIDTHS.length - 1] / CHART_WIDTHS[0])) * (W - pad.left - pad.right);
+  const y = (v: number) => H - pad.bottom - (v / max) * (H - pad.top - pad.bottom);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((f) => Math.round(f * max));
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full"
+      role="img"
+      aria-label={`${metric === "delay" ? "Critical path delay" : "Gate count"} versus bit width for ${ADDER_KINDS.map(
+        (k) => KIND_INFO[k].label
+      ).join(", ")}`}
+    >
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={pad.left} y1={y(t)} x2={W - pad.right} y2={y(t)} stroke={COLORS.border} strokeWidth={1} />
+          <text x={pad.left - 4} y={y(t) + 3} textAnchor="end" fontSize={8} fill={COLORS.muted} fontFamily="monospace">
+            {t}
+          </text>
+        </g>
+      ))}
+      {CHART_WIDTHS.map((w) => (
+        <text key={w} x={x(w)} y={H - 8} textAnchor="middle" fontSize={8} fill={w === width ? "#fff" : COLORS.muted} fontFamily="monospace">
+          {w}
+        </text>
+      ))}
+      {ADDER_KINDS.map((k) => {
+        const series = costs.filter((c) => c.kind === k);
+        return (
+          <g key={k} opacity={k === kind ? 1 : 0.55}>
+            <polyline
+              points={series.map((c) => `${x(c.width)},${y(c[metric])}`).join(" ")}
+              fill="none"
+              stroke={KIND_INFO[k].color}
+              strokeWidth={k === kind ? 2.25 : 1.5}
+            />
+            {series.map((c) => (
+              <circle
+                key={c.width}
+                cx={x(c.width)}
+                cy={y(c[metric])}
+                r={k === kind && c.width === width ? 4.5 : 2.5}
+                fill={KIND_INFO[k].color}
+                stroke={k === kind && c.width === width ? "#fff" : "none"}
+              >
+                <title>{`${KIND_INFO[k].label}, ${c.width} bits: ${c[metric]} ${metric === "delay" ? "gate delays" : "gates"}`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// ─── Main page component ──────────────────────────────────────────────────────
+
+export default function AdderArchitecturesPage() {
+  const [kind, setKind] = useState<AdderKind>("ripple");
+  const [width, setWidth] = useState(8);
+  const [selectedScenario, setSelectedScenario] = useState<ScenarioKey>("worst-case");
+  const [[a, b, cin], setOperands] = useState(() => SCENARIOS[0].operands(8));
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [showMetrics, setShowMetrics] = useState(true);
+  const [chartMetric, setChartMetric] = useState<"delay" | "gates">("delay");
+  const [traceView, setTraceView] = useState<"carries" | "sums">("carries");
+
+  const adder = useMemo(() => buildAdder(kind, width), [kind, width]);
+  const stimuli = useMemo(() => adderStimulus(adder, a, b, cin, STIMULUS_TIME), [adder, a, b, cin]);
+  const trace = useMemo(
+    () => simulateCircuit(adder.circuit, new Array(2 * width + 1).fill(0), stimuli),
+    [adder, width, stimuli]
+  );
+  const critical = useMemo(() => criticalPath(adder.circuit), [adder]);
+  const glitches = useMemo(() => findHazards(trace, adder.sum, stimuli), [trace, adder, stimuli]);
+  const costs = useMemo(() => ADDER_KINDS.flatMap((k) => CHART_WIDTHS.map((w) => adderCost(k, w))), []);
+
+  const horizon = Math.max(trace.end, STIMULUS_TIME + critical.delay) + 2;
+  const values = Object.fromEntries(
+    adder.circuit.nodes.map((n) => [n.id, valueAt(trace.waveforms[n.id] ?? [], time)])
+  );
+  const result = adderResult(adder, values);
+  const expected = a + b + cin;
+  const settledAt = trace.end > STIMULUS_TIME ? trace.end - STIMULUS_TIME : 0;
+  const eventTimes = [...new Set(trace.events.map((e) => e.time))];
+  const byId = new Map(adder.circuit.nodes.map((n) => [n.id, n]));
+  const gateCount = adder.circuit.nodes.filter((n) => n.kind === "gate").length;
+  const scenario = SCENARIOS.find((s) => s.id === selectedScenario);
+
+  const carryNames = new Map<string, string>([[adder.cin, "Cin"]]);
+  adder.carries.forEach((c, i) => c && carryNames.set(c, i === width - 1 ? "Cout" : `c${i + 1}`));
+  const visibleEvents = trace.events.filter(
+    (e) => e.time === time && (carryNames.has(e.node) || adder.sum.includes(e.node))
+  );
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      if (time >= horizon) setIsPlaying(false);
+      else setTime(time + 1);
+    }, 300 / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, time, horizon, speed]);
+
+  const restart = () => {
+    setTime(0);
+    setIsPlaying(true);
+  };
+
+  const loadScenario = (id: ScenarioKey, forWidth = width) => {
+    const next = SCENARIOS.find((s) => s.id === id);
+    if (!next) return;
+    setSelectedScenario(id);
+    setOperands(next.operands(forWidth));
+    restart();
+  };
+
+  useScenarioParam(SCENARIOS.map((s) => s.id), (id) => loadScenario(id));
+
+  const changeWidth = (next: number) => {
+    setWidth(next);
+    if (scenario) {
+      setOperands(scenario.operands(next));
+    } else {
+      setOperands([a % 2 ** next, b % 2 ** next, cin]);
+    }
+    restart();
+  };
+
+  const changeOperand = (which: "a" | "b", raw: string) => {
+    const parsed = raw.trim().toLowerCase().startsWith("0x") ? parseInt(raw, 16) : parseInt(raw, 10);
+    if (Number.isNaN(parsed)) return;
+    const value = Math.min(mask(width), Math.max(0, parsed));
+    setOperands(which === "a" ? [value, b, cin] : [a, value, cin]);
+    setSelectedScenario("custom");
+    restart();
+  };
+
+  const stepForward = () => {
+    setIsPlaying(false);
+    setTime(eventTimes.find((t) => t > time) ?? horizon);
+  };
+
+  const stepBack = () => {
+    setIsPlaying(false);
+    setTime([...eventTimes].reverse().find((t) => t < time) ?? 0);
+  };
+
+  // Carries and Cout for the carry view, sampled when the adder is wide.
+  const carrySignals = [
+    { id: adder.cin, label: "Cin" },
+    ...adder.carries.flatMap((c, i) => (c ? [{ id: c, label: i === width - 1 ? "Cout" : `c${i + 1}` }] : [])),
+  ];
+  const sumSignals = adder.sum.map((id, i) => ({ id, label: `S${i}` }));
+  const listed = traceView === "carries" ? carrySignals : sumSignals;
+  const stride = Math.ceil(listed.length / MAX_TRACE_ROWS);
+  const traced = listed.filter((_, i) => i % stride === 0 || i === listed.length - 1).reverse();
+  const pathStart = byId.get(critical.path[0]);
+  const pathEnd = byId.get(critical.path[critical.path.length - 1]);
+
+  return (
+    <div className="min-h-screen" style={{ background: COLORS.bg }}>
+      <Navbar />
+
+      <div className="pt-14">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          {/* ── Header ────────────────────────────────────────────────── */}
+          <motion.div
+            data-module-header
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
+            className="mb-6"
+          >
+            <div className="flex items-center gap-3 mb-2">
+              <span
+                className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-mono font-semibold"
+                style={{
+                  background: "rgba(99,102,241,0.1)",
+                  color: COLORS.primary,
+                  border: "1px solid rgba(99,102,241,0.2)",
+                }}
+              >
+                1.8
+              </span>
+              <h1 className="text-2xl sm:text-3xl font-bold tracking-tight text-white">Adder Architectures</h1>
+            </div>
+            <p className="text-sm text-[#a1a1aa] max-w-2xl">
+              Build wide adders out of full adders three ways and watch the carry travel through real gate delays.
+              Ripple carry is small but slow; carry lookahead and carry select spend gates to cut the critical path,
+              which is what lets an ALU finish an add in one clock cycle.
+            </p>
+            <ModuleLinks moduleId="1.8" />
+          </motion.div>
+
+          {/* ── Configuration ──────────────────────────────────────────── */}
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <div className="flex items-center gap-1 p-1 rounded-lg" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+              {ADDER_KINDS.map((k) => (
+                <button
+                  key={k}
+                  onClick={() => {
+                    setKind(k);
+                    restart();
+                  }}
+                  aria-pressed={kind === k}
+                  className="px-3 py-1.5 rounded-md text-xs font-medium transition-all duration-200"
+                  style={{
+                    background: kind === k ? `${KIND_INFO[k].color}26` : "transparent",
+                    color: kind === k ? KIND_INFO[k].color : COLORS.muted,
+                  }}
+                >
+                  {KIND_INFO[k].label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 p-1 rounded-lg" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+              {WIDTHS.map((w) => (
+                <button
+                  key={w}
+                  onClick={() => changeWidth(w)}
+                  aria-pressed={width === w}
+                  className="px-2.5 py-1.5 rounded-md text-xs font-mono font-medium transition-all duration-200"
+                  style={{
+                    background: width === w ? "rgba(99,102,241,0.15)" : "transparent",
+                    color: width === w ? COLORS.primary : COLORS.muted,
+                  }}
+                >
+                  {w}-bit
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-xs text-[#71717a] font-medium">Scenarios:</span>
+            {SCENARIOS.map((s) => (
+              <button
+                key={s.id}
+                onClick={() => loadScenario(s.id)}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+                style={{
+                  background: selectedScenario === s.id ? "rgba(99,102,241,0.12)" : "transparent",
+                  color: selectedScenario === s.id ? COLORS.primary : COLORS.muted,
+                  border: selectedScenario === s.id ? "1px solid rgba(99,102,241,0.2)" : "1px solid transparent",
+                }}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+          {scenario && <p className="text-xs text-[#a1a1aa] mb-4">{scenario.description}</p>}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-2 space-y-4">
+              {/* ── Operands and bit slices ──────────────────────────────── */}
+              <div className="rounded-2xl p-4" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <CircuitBoard size={14} style={{ color: KIND_INFO[kind].color }} />
+                    <span className="text-sm font-semibold text-white">
+                      {width}-bit {KIND_INFO[kind].label}
+                    </span>
+                  </div>
+                  <span className="text-[10px] font-mono" style={{ color: COLORS.muted }}>
+                    operands switch at t={STIMULUS_TIME}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-3 mb-4">
+                  {(["a", "b"] as const).map((which) => (
+                    <label key={which} className="flex flex-col gap-1 text-[10px] font-mono" style={{ color: COLORS.muted }}>
+                      {which.toUpperCase()}
+                      <input
+                        key={`${which}-${which === "a" ? a : b}`}
+                        defaultValue={toHex(which === "a" ? a : b, width)}
+                        onBlur={(e) => changeOperand(which, e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") changeOperand(which, e.currentTarget.value);
+                        }}
+                        className="w-32 px-2 py-1.5 rounded-md text-xs font-mono text-white bg-[#0a0a0f] border border-[#1e1e2e] focus:border-[#6366f1] outline-none"
+                        aria-label={`Operand ${which.toUpperCase()}, decimal or 0x hex`}
+                      />
+                    </label>
+                  ))}
+                  <label className="flex items-center gap-1.5 text-xs text-[#a1a1aa] cursor-pointer pb-1.5">
+                    <input
+                      type="checkbox"
+                      checked={cin === 1}
+                      onChange={(e) => {
+                        setOperands([a, b, e.target.checked ? 1 : 0]);
+                        setSelectedScenario("custom");
+                        restart();
+                      }}
+                      className="accent-[#6366f1]"
+                    />
+                    Carry in
+                  </label>
+                  <div className="flex-1" />
+                  <div className="font-mono text-xs pb-1.5" style={{ color: COLORS.muted }}>
+                    {a} + {b}
+                    {cin ? " + 1" : ""} ={" "}
+                    <span style={{ color: result.sum + result.cout * 2 ** width === expected ? COLORS.success : COLORS.accent }}>
+                      {result.sum + result.cout * 2 ** width}
+                    </span>
+                    {result.sum + result.cout * 2 ** width !== expected && <span> (settling…)</span>}
+                  </div>
+                </div>
+
+                <BitSlices
+                  width={width}
+                  a={a}
+                  b={b}
+                  cin={adder.cin}
+                  values={values}
+                  carries={adder.carries}
+                  sums={adder.sum}
+                  time={time}
+                  waveforms={trace.waveforms}
+                />
+              </div>
+
+              {/* ── Timing trace ────────────────────────────────────────── */}
+              <div className="rounded-2xl p-4" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <Waves size={14} style={{ color: COLORS.secondary }} />
+                    <span className="text-sm font-semibold text-white">Carry Propagation</span>
+                    {stride > 1 && (
+                      <span className="text-[10px] font-mono" style={{ color: COLORS.muted }}>
+                        every {stride}th signal
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {(["carries", "sums"] as const).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => setTraceView(view)}
+                        aria-pressed={traceView === view}
+                        className="px-2 py-1 rounded-md text-[11px] font-medium transition-colors"
+                        style={{
+                          background: traceView === view ? "rgba(6,182,212,0.12)" : "transparent",
+                          color: traceView === view ? COLORS.secondary : COLORS.muted,
+                        }}
+                      >
+                        {view === "carries" ? "Carries" : "Sum bits"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <TimingTrace
+                  signals={traced.map((s) => ({
+                    id: s.id,
+                    label: s.label,
+                    waveform: trace.waveforms[s.id] ?? [],
+                    color: traceView === "carries" ? COLORS.accent : COLORS.success,
+                  }))}
+                  end={horizon}
+                  hazards={traceView === "sums" ? glitches : []}
+                  cursor={time}
+                  onSeek={(t) => {
+                    setIsPlaying(false);
+                    setTime(Math.min(horizon, t));
+                  }}
+                />
+                {kind === "select" && traceView === "carries" && (
+                  <p className="mt-2 text-[11px]" style={{ color: COLORS.muted }}>
+                    Only block carries exist as single wires in a carry-select adder; inside a block both candidates are
+                    computed and the mux picks one.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {/* ── Scaling chart ────────────────────────────────────────── */}
+              <div className="rounded-xl p-4" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <TrendingUp size={14} style={{ color: COLORS.primary }} />
+                    <span className="text-sm font-semibold text-white">Scaling</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {(["delay", "gates"] as const).map((m) => (
+                      <button
+                        key={m}
+                        onClick={() => setChartMetric(m)}
+                        aria-pressed={chartMetric === m}
+                        className="px-2 py-1 rounded-md text-[11px] font-medium transition-colors"
+                        style={{
+                          background: chartMetric === m ? "rgba(99,102,241,0.12)" : "transparent",
+                          color: chartMetric === m ? COLORS.primary : COLORS.muted,
+                        }}
+                      >
+                        {m === "delay" ? "Critical path" : "Gates"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <CostChart costs={costs} metric={chartMetric} width={width} kind={kind} />
+                <p className="text-[10px] text-center font-mono mb-3" style={{ color: COLORS.muted }}>
+                  bit width (log scale) · {chartMetric === "delay" ? "gate delays" : "gate count"}
+                </p>
+                <table className="w-full text-[11px] font-mono">
+                  <thead>
+                    <tr style={{ color: COLORS.muted }}>
+                      <th className="text-left font-medium py-1">{width}-bit</th>
+                      <th className="text-right font-medium py-1">delay</th>
+                      <th className="text-right font-medium py-1">gates</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ADDER_KINDS.map((k) => {
+                      const cost = costs.find((c) => c.kind === k && c.width === width)!;
+                      return (
+                        <tr key={k} className="border-t" style={{ borderColor: COLORS.border }}>
+                          <td className="py-1" style={{ color: KIND_INFO[k].color }}>
+                            {KIND_INFO[k].short}
+                          </td>
+                          <td className="py-1 text-right text-white">{cost.delay}</td>
+                          <td className="py-1 text-right text-white">{cost.gates}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* ── Critical path ───────────────────────────────────────── */}
+              <div className="rounded-xl p-4 space-y-2" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+                <div className="flex items-center gap-2">
+                  <Timer size={14} style={{ color: COLORS.accent }} />
+                  <span className="text-sm font-semibold text-white">Critical Path</span>
+                </div>
+                <p className="text-xs text-[#a1a1aa]">
+                  The slowest input-to-output path runs from{" "}
+                  <span className="font-mono text-white">{pathStart && pathStart.kind !== "gate" ? pathStart.name : "?"}</span> to{" "}
+                  <span className="font-mono text-white">{pathEnd && pathEnd.kind !== "gate" ? pathEnd.name : "?"}</span> through{" "}
+                  {critical.path.length - 2} gates, {critical.delay} gate delays in all. The clock period of any CPU using
+                  this adder has to cover it.
+                </p>
+                <p className="text-xs text-[#a1a1aa]">
+                  These operands settle after <span className="font-mono text-white">{settledAt}</span>
+                  {settledAt < critical.delay
+                    ? ", faster than the worst case: the carry chain they exercise is shorter than the longest one."
+                    : ", the full worst case."}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* ── Controls ───────────────────────────────────────────────── */}
+          <div className="mt-4 space-y-4">
+            <ModuleControls
+              isPlaying={isPlaying}
+              completed={time >= horizon}
+              shareState={{ scenario: selectedScenario }}
+              onPlay={() => {
+                if (time >= horizon) setTime(0);
+                setIsPlaying(true);
+              }}
+              onPause={() => setIsPlaying(false)}
+              onStep={stepForward}
+              onStepBack={stepBack}
+              canStepBack={time > 0}
+              onReset={() => {
+                setIsPlaying(false);
+                setTime(0);
+              }}
+              speed={speed}
+              onSpeedChange={setSpeed}
+              showMetrics={showMetrics}
+              onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              timeline={{
+                position: time,
+                length: horizon + 1,
+                onSeek: (t) => {
+                  setIsPlaying(false);
+                  setTime(t);
+                },
+              }}
+              description={
+                visibleEvents.length > 0
+                  ? `t=${time}: ${visibleEvents
+                      .map((e) => `${carryNames.get(e.node) ?? e.node} → ${e.value}`)
+                      .join(", ")}`
+                  : `t=${time}`
+              }
+            />
+
+            <MetricsPanel
+              visible={showMetrics}
+              metrics={[
+                { label: "Time", value: `${time} / ${horizon}` },
+                { label: "Gates", value: gateCount },
+                { label: "Critical Path", value: critical.delay, color: KIND_INFO[kind].color },
+                { label: "Settled After", value: settledAt, color: COLORS.secondary },
+                { label: "Sum Glitches", value: glitches.length, color: glitches.length ? COLORS.accent : COLORS.success },
+                { label: "Events", value: trace.events.length },
+              ]}
+            />
+          </div>
+
+          {/* ── Educational info panel ─────────────────────────────────── */}
+          <motion.div
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
+            className="mt-6 rounded-2xl overflow-hidden"
+            style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
+          >
+            <div className="px-5 py-3.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
+              <Info size={14} style={{ color: COLORS.primary }} />
+              <span className="text-sm font-semibold text-white">Three Ways to Carry</span>
+            </div>
+            <div className="p-5 grid grid-cols-1 md:grid-cols-3 gap-4">
+              {ADDER_KINDS.map((k) => (
+                <div
+                  key={k}
+                  className="rounded-xl p-4"
+                  style={{ background: `${KIND_INFO[k].color}0d`, border: `1px solid ${KIND_INFO[k].color}26` }}
+                >
+                  <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: KIND_INFO[k].color }}>
+                    {KIND_INFO[k].label}
+                  </h3>
+                  <p className="text-sm leading-relaxed text-[#a1a1aa]">{KIND_INFO[k].description}</p>
+                </div>
+              ))}
+            </div>
+            <div className="px-5 pb-5 space-y-3">
+              <div className="flex items-start gap-2 text-sm text-[#a1a1aa]">
+                <Layers size={14} className="mt-0.5 shrink-0" style={{ color: COLORS.secondary }} />
+                <p>
+                  Gate delays here are NOT/NAND/NOR 1, AND/OR 2 and XOR/XNOR 3 units, the same as the schematic editor in
+                  1.3. Real lookahead gates slow down as their fan-in grows, which is why lookahead units stop at four bits
+                  and stack instead of widening.
+                </p>
+              </div>
+              <div className="flex items-start gap-2 text-sm text-[#a1a1aa]">
+                <Zap size={14} className="mt-0.5 shrink-0" style={{ color: COLORS.accent }} />
+                <p>
+                  An ALU is an adder with extra operations around it, and ADD, SUB and compare all take the adder&apos;s
+                  critical path. A 64-bit ripple adder needs about ten times the delay of a lookahead adder, so it would set
+                  the clock for the whole CPU.{" "}
+                  <Link href="/modules/1-7-alu" className="inline-flex items-center gap-1 text-[#818cf8] hover:text-white transition-colors">
+                    See the adder inside the ALU <ArrowRight size={12} />
+                  </Link>
+                </p>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,9 @@ import {
   Grid3X3,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -581,6 +583,8 @@ export default function GpuVsCpuPage() {
     setDropdownOpen(false);
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS) as ScenarioName[], handleScenarioChange);
+
   // Derived metrics
   const cpuProgress = cpuSim.totalTasks > 0 ? (cpuSim.cpuCompleted / cpuSim.totalTasks) * 100 : 0;
   const gpuProgress = gpuSim.totalTasks > 0 ? (gpuSim.gpuCompleted / gpuSim.totalTasks) * 100 : 0;
@@ -637,7 +641,7 @@ export default function GpuVsCpuPage() {
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-1 rounded-md bg-[#a855f7]/15 text-[#a855f7] text-xs font-mono font-semibold tracking-wide">
                 10.1
@@ -652,6 +656,7 @@ export default function GpuVsCpuPage() {
               thousands of simple cores optimized for massive parallelism and
               high throughput.
             </p>
+            <ModuleLinks moduleId="10.1" />
           </div>
 
           {/* Scenario Selector */}
@@ -1187,7 +1192,9 @@ export default function GpuVsCpuPage() {
           {/* Controls */}
           <div className="mb-4">
             <ModuleControls
+              shareState={{ scenario: scenario }}
               isPlaying={isPlaying}
+              completed={cpuSim.cpuFinished && gpuSim.gpuFinished}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1196,6 +1203,12 @@ export default function GpuVsCpuPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={
+                cpuSim.cpuCycle + gpuSim.gpuCycle > 0
+                  ? `CPU ${cpuSim.cpuCompleted}/${cpuSim.totalTasks} tasks in ${cpuSim.cpuCycle} cycles, ` +
+                    `GPU ${gpuSim.gpuCompleted}/${gpuSim.totalTasks} tasks in ${gpuSim.gpuCycle} cycles`
+                  : undefined
+              }
             />
           </div>
 
@@ -13,7 +13,9 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -359,6 +361,15 @@ function stepSimState(state: SimState): SimState {
   return ns;
 }
 
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(state: SimState): string | undefined {
+  const entry = state.timeline[state.timeline.length - 1];
+  if (!entry) return undefined;
+  if (state.finished) return `All warps finished after ${state.cycle} cycles`;
+  if (entry.warpId < 0) return `Cycle ${entry.cycle}: every warp is stalled`;
+  return `Cycle ${entry.cycle}: warp ${entry.warpId} issues ${entry.instrLabel} with ${entry.activeLanes} of 32 lanes active`;
+}
+
 // ─── Component ──────────────────────────────────────────────────────────────
 
 export default function WarpExecutionPage() {
@@ -448,6 +459,8 @@ export default function WarpExecutionPage() {
     setDropdownOpen(false);
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS) as ScenarioName[], handleScenarioChange);
+
   // Derived metrics
   const currentWarp = simState.warps[selectedWarp] || simState.warps[0];
   const activeLaneCount = currentWarp
@@ -479,7 +492,7 @@ export default function WarpExecutionPage() {
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-1 rounded-md bg-[#a855f7]/15 text-[#a855f7] text-xs font-mono font-semibold tracking-wide">
                 10.3
@@ -493,6 +506,7 @@ export default function WarpExecutionPage() {
               lockstep (SIMT), handle branch divergence with active masks, and
               get scheduled by the warp scheduler.
             </p>
+            <ModuleLinks moduleId="10.3" />
           </div>
 
           {/* Scenario Selector */}
@@ -1117,7 +1131,9 @@ export default function WarpExecutionPage() {
           {/* Controls */}
           <div className="mb-4">
             <ModuleControls
+              shareState={{ scenario: scenario }}
               isPlaying={isPlaying}
+              completed={simState.finished}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1126,6 +1142,7 @@ export default function WarpExecutionPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describeStep(simState)}
             />
           </div>
 
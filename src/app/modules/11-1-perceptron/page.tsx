@@ -10,7 +10,9 @@ import {
   TrendingDown,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -118,6 +120,7 @@ const SCENARIOS: Record<ScenarioName, ScenarioConfig> = {
 const PLOT_SIZE = 400;
 const PLOT_PADDING = 40;
 const PLOT_RANGE = { min: -0.5, max: 1.5 }; // data range for gate problems
+const UNSOLVABLE_EPOCHS = 10; // XOR never converges; by then the boundary has visibly kept flipping
 
 // ─── Activation Functions ───────────────────────────────────────────────────
 
@@ -279,6 +282,19 @@ function initSimState(
   };
 }
 
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(state: SimState): string | undefined {
+  const step = state.currentStep;
+  if (!step) return undefined;
+  const { x1, x2, label } = step.point;
+  const update =
+    step.error === 0
+      ? "no weight update"
+      : `weights now ${state.perceptron.w1.toFixed(2)}, ${state.perceptron.w2.toFixed(2)}, bias ${state.perceptron.bias.toFixed(2)}`;
+  const converged = state.converged ? ". Converged" : "";
+  return `Epoch ${state.epoch}: input (${x1}, ${x2}) expects ${label}, output ${step.output.toFixed(2)}, ${update}${converged}`;
+}
+
 // ─── Component ──────────────────────────────────────────────────────────────
 
 export default function PerceptronPage() {
@@ -416,6 +432,8 @@ export default function PerceptronPage() {
     [learningRate, activationFn]
   );
 
+  useScenarioParam(Object.keys(SCENARIOS) as ScenarioName[], handleScenarioChange);
+
   const handleActivationChange = useCallback(
     (fn: ActivationFn) => {
       setActivationFn(fn);
@@ -614,7 +632,7 @@ export default function PerceptronPage() {
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-1 rounded-md bg-[#e879f9]/15 text-[#e879f9] text-xs font-mono font-semibold tracking-wide">
                 11.1
@@ -628,6 +646,7 @@ export default function PerceptronPage() {
               connect through weighted edges to a summation node and activation
               function. See how the decision line shifts as weights update.
             </p>
+            <ModuleLinks moduleId="11.1" />
           </div>
 
           {/* Scenario Selector + Activation + LR */}
@@ -1477,7 +1496,9 @@ export default function PerceptronPage() {
           {/* Controls */}
           <div className="mb-4">
             <ModuleControls
+              shareState={{ scenario: scenario }}
               isPlaying={isPlaying}
+              completed={simState.converged || (!config.solvable && simState.epoch >= UNSOLVABLE_EPOCHS)}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1486,6 +1507,7 @@ export default function PerceptronPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describeStep(simState)}
             />
           </div>
 
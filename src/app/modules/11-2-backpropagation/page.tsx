@@ -12,7 +12,10 @@ import {
   ChevronDown,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useShareState } from "@/hooks/useShareState";
+import { readNumber, readString, type ShareState } from "@/lib/share-state";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -376,6 +379,37 @@ export default function BackpropagationPage() {
     initNetwork();
   }, [initNetwork]);
 
+  // Share links carry the setup; weights are re-drawn when the network is built.
+  const shareState = useMemo<ShareState>(
+    () => ({
+      speed,
+      params: {
+        dataset,
+        activation: activationFn,
+        layers: hiddenLayerCount,
+        neurons: neuronsPerHidden,
+        rate: learningRate,
+      },
+    }),
+    [speed, dataset, activationFn, hiddenLayerCount, neuronsPerHidden, learningRate]
+  );
+
+  useShareState(
+    useCallback((state: ShareState) => {
+      const data = readString(state.params, "dataset");
+      if (data && data in DATASETS) setDataset(data as Dataset);
+      const activation = readString(state.params, "activation");
+      if (activation === "relu" || activation === "sigmoid" || activation === "tanh") setActivationFn(activation);
+      const layers = readNumber(state.params, "layers");
+      if (layers !== undefined) setHiddenLayerCount(Math.min(3, Math.max(1, Math.round(layers))));
+      const perLayer = readNumber(state.params, "neurons");
+      if (perLayer !== undefined) setNeuronsPerHidden(Math.min(8, Math.max(2, Math.round(perLayer))));
+      const rate = readNumber(state.params, "rate");
+      if (rate !== undefined && rate >= 0.001 && rate <= 1) setLearningRate(rate);
+      if (state.speed) setSpeed(state.speed);
+    }, [])
+  );
+
   // Training step logic (phases animated sequentially)
   const runTrainingStep = useCallback(() => {
     const samples = DATASETS[dataset].samples;
@@ -698,7 +732,7 @@ export default function BackpropagationPage() {
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-1 rounded-md bg-[#6366f1]/15 text-[#6366f1] text-xs font-mono font-semibold tracking-wide">
                 11.2
@@ -709,6 +743,7 @@ export default function BackpropagationPage() {
               Watch data flow forward through a neural network, then gradients flow backward.
               The network learns by adjusting its weights to minimize the loss.
             </p>
+            <ModuleLinks moduleId="11.2" />
           </div>
 
           {/* Phase Indicator */}
@@ -1415,7 +1450,9 @@ export default function BackpropagationPage() {
           {/* Controls */}
           <div className="mt-4">
             <ModuleControls
+              shareState={shareState}
               isPlaying={isPlaying}
+              completed={stepCount > 0 && accuracy === 1}
               onPlay={() => setIsPlaying(true)}
               onPause={() => {
                 setIsPlaying(false);
@@ -1429,6 +1466,9 @@ export default function BackpropagationPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={
+                phase === "idle" ? undefined : `Step ${stepCount}: ${PHASE_CONFIG[phase].label}, loss ${currentLoss.toFixed(4)}`
+              }
             >
               {/* Extra controls in the bar */}
               <button
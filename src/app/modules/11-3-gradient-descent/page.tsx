@@ -14,7 +14,9 @@ import {
   CircleDot,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -341,6 +343,15 @@ function hexToRgba(hex: string, alpha: number): string {
   return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 }
 
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(optimizers: OptimizerState[], totalSteps: number): string | undefined {
+  if (totalSteps === 0) return undefined;
+  const losses = optimizers
+    .filter((o) => o.active)
+    .map((o) => `${OPTIMIZER_CONFIG[o.type].label} ${o.loss.toFixed(3)}${o.converged ? " (converged)" : ""}`);
+  return `Step ${totalSteps}, loss: ${losses.join(", ")}`;
+}
+
 // ─── Component ───────────────────────────────────────────────────────────────
 
 export default function GradientDescentPage() {
@@ -497,6 +508,11 @@ export default function GradientDescentPage() {
     [handlePause]
   );
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.landscape),
+    (landscape) => handleScenarioSelect(SCENARIOS.findIndex((s) => s.landscape === landscape))
+  );
+
   const toggleOptimizer = useCallback(
     (type: OptimizerType) => {
       handlePause();
@@ -569,7 +585,7 @@ export default function GradientDescentPage() {
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-1 rounded-md bg-[#e879f9]/15 text-[#e879f9] text-xs font-mono font-semibold tracking-wide">
                 11.3
@@ -582,6 +598,7 @@ export default function GradientDescentPage() {
               Watch different optimizers navigate a loss landscape. Compare how SGD,
               Momentum, RMSProp, and Adam handle hills, valleys, and saddle points.
             </p>
+            <ModuleLinks moduleId="11.3" />
           </div>
 
           {/* Scenario Selector */}
@@ -1209,7 +1226,9 @@ export default function GradientDescentPage() {
 
               {/* Controls */}
               <ModuleControls
+                shareState={{ scenario: SCENARIOS[selectedScenario].landscape }}
                 isPlaying={isPlaying}
+                completed={allConverged && totalSteps > 0}
                 onPlay={handlePlay}
                 onPause={handlePause}
                 onStep={handleStep}
@@ -1218,6 +1237,7 @@ export default function GradientDescentPage() {
                 onSpeedChange={setSpeed}
                 showMetrics={showMetrics}
                 onToggleMetrics={() => setShowMetrics(!showMetrics)}
+                description={describeStep(optimizers, totalSteps)}
               />
             </div>
 
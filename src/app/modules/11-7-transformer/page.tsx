@@ -13,7 +13,9 @@ import {
   Hash,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -556,6 +558,11 @@ export default function TransformerPage() {
     [handlePause]
   );
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.type),
+    (type) => handleScenarioSelect(SCENARIOS.findIndex((s) => s.type === type))
+  );
+
   // Auto-stop at end
   useEffect(() => {
     if (currentStep === "output" && isPlaying) {
@@ -621,7 +628,7 @@ export default function TransformerPage() {
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-1 rounded-md bg-[#e879f9]/15 text-[#e879f9] text-xs font-mono font-semibold tracking-wide">
                 11.7
@@ -635,6 +642,7 @@ export default function TransformerPage() {
               attend to each other via multi-head attention, and pass through
               feed-forward layers.
             </p>
+            <ModuleLinks moduleId="11.7" />
           </div>
 
           {/* Scenario Selector & Controls */}
@@ -1739,7 +1747,9 @@ export default function TransformerPage() {
 
               {/* Controls */}
               <ModuleControls
+                shareState={{ scenario: SCENARIOS[selectedScenario].type }}
                 isPlaying={isPlaying}
+                completed={currentStep === "output"}
                 onPlay={handlePlay}
                 onPause={handlePause}
                 onStep={handleStep}
@@ -1748,6 +1758,11 @@ export default function TransformerPage() {
                 onSpeedChange={setSpeed}
                 showMetrics={showMetrics}
                 onToggleMetrics={() => setShowMetrics(!showMetrics)}
+                description={
+                currentStep === "idle"
+                  ? undefined
+                  : `${STEP_CONFIG[currentStep].label}: ${STEP_CONFIG[currentStep].description}`
+              }
               />
             </div>
 
@@ -13,7 +13,9 @@ import {
   Terminal,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -290,6 +292,17 @@ function createInitialSnapshot(source: string): LexerSnapshot {
   };
 }
 
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(snapshot: LexerSnapshot): string | undefined {
+  if (snapshot.errorMessage) return snapshot.errorMessage;
+  if (snapshot.done) return snapshot.tokens.length > 0 ? `Done: ${snapshot.tokens.length} tokens` : undefined;
+  if (snapshot.position === 0) return undefined;
+  const last = snapshot.tokens[snapshot.tokens.length - 1];
+  const emitted = last && last.end === snapshot.position ? `Emitted ${last.type} "${last.value}". ` : "";
+  const buffer = snapshot.buffer ? `, buffer "${snapshot.buffer}"` : "";
+  return `${emitted}Position ${snapshot.position}, state ${snapshot.state}${buffer}`;
+}
+
 let globalTokenId = 0;
 
 function stepLexer(snapshot: LexerSnapshot, source: string): LexerSnapshot {
@@ -633,6 +646,8 @@ export default function LexerPage() {
     []
   );
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioSelect);
+
   const handleApplyCustomCode = useCallback(() => {
     setIsPlaying(false);
     globalTokenId = 0;
@@ -679,7 +694,7 @@ export default function LexerPage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -701,6 +716,7 @@ export default function LexerPage() {
               Watch a lexer scan source code character by character, recognizing
               tokens through a deterministic finite automaton
             </p>
+            <ModuleLinks moduleId="12.1" />
           </motion.div>
         </div>
 
@@ -771,7 +787,9 @@ export default function LexerPage() {
         {/* ── Controls bar ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={snapshot.done}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -780,6 +798,7 @@ export default function LexerPage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics((v) => !v)}
+            description={describeStep(snapshot)}
           />
         </div>
 
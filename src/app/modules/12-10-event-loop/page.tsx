@@ -13,7 +13,9 @@ import {
   Sparkles,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -942,6 +944,8 @@ export default function EventLoopPage() {
     []
   );
 
+  useScenarioParam(scenarios.map((s) => s.id), handleScenarioSelect);
+
   /* ─── Metrics ─── */
   const metrics = useMemo(
     () => ({
@@ -968,7 +972,7 @@ export default function EventLoopPage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -990,6 +994,7 @@ export default function EventLoopPage() {
               Visualize how the call stack, microtask queue, macrotask queue,
               and Web APIs interact to execute asynchronous JavaScript
             </p>
+            <ModuleLinks moduleId="12.10" />
           </motion.div>
         </div>
 
@@ -1020,7 +1025,9 @@ export default function EventLoopPage() {
         {/* ── Controls bar ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={state.done}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -1029,6 +1036,7 @@ export default function EventLoopPage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics((v) => !v)}
+            description={state.explanation}
           />
         </div>
 
@@ -16,7 +16,9 @@ import {
   ArrowRight,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -220,6 +222,23 @@ function createInitialState(
 
 let globalAnimId = 0;
 
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(state: BloomState): string | undefined {
+  const insert = state.insertAnimations[state.insertAnimations.length - 1];
+  const query = state.queryAnimation;
+  if (query && (!insert || query.id > insert.id)) {
+    const result = state.queries[state.queries.length - 1];
+    if (!query.complete || !result) {
+      return `Query "${query.element}": checking bit ${query.hashPositions[query.currentHashIndex]}`;
+    }
+    if (result.result === "definitely-no") return `Query "${query.element}": a bit is 0, definitely not in the set`;
+    return `Query "${query.element}": all bits set, probably in the set${result.isFalsePositive ? " (false positive)" : ""}`;
+  }
+  if (!insert) return undefined;
+  if (insert.complete) return `Inserted "${insert.element}" at bits ${insert.hashPositions.join(", ")}`;
+  return `Insert "${insert.element}": hash ${insert.currentHashIndex + 1} sets bit ${insert.hashPositions[insert.currentHashIndex]}`;
+}
+
 /* ═══════════════════════════════════════════════════════════
    MAIN COMPONENT
    ═══════════════════════════════════════════════════════════ */
@@ -546,6 +565,8 @@ export default function BloomFilterPage() {
     []
   );
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioSelect);
+
   const handleManualInsert = useCallback(() => {
     if (!inputValue.trim()) return;
     insertElement(inputValue.trim());
@@ -656,7 +677,7 @@ export default function BloomFilterPage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -679,6 +700,7 @@ export default function BloomFilterPage() {
               either &quot;definitely not in set&quot; or &quot;probably in set&quot; using
               multiple hash functions and a bit array
             </p>
+            <ModuleLinks moduleId="13.1" />
           </motion.div>
         </div>
 
@@ -709,7 +731,9 @@ export default function BloomFilterPage() {
         {/* ── Controls bar ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={autoPlaySteps.length > 0 && autoPlayIndex >= autoPlaySteps.length && autoPlayPhase === "idle"}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -718,6 +742,7 @@ export default function BloomFilterPage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics((v) => !v)}
+            description={describeStep(state)}
           />
         </div>
 
@@ -17,7 +17,9 @@ import {
   Activity,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -251,6 +253,13 @@ function createInitialState(numRegisters: number): SimulationState {
   };
 }
 
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(processed: ProcessedElement | null, state: SimulationState): string | undefined {
+  if (!processed) return undefined;
+  const update = processed.updatedRegister ? ", register updated" : "";
+  return `"${processed.element}" goes to register ${processed.bucketIndex} with ${processed.leadingZeros} leading zeros${update}. Estimate ${Math.round(state.estimatedCardinality)}, actual ${state.actualCardinality}.`;
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function HyperLogLogModule() {
@@ -460,6 +469,8 @@ export default function HyperLogLogModule() {
     [handlePause, numRegisters]
   );
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioChange);
+
   const handleRegisterCountChange = useCallback(
     (count: number) => {
       handlePause();
@@ -543,6 +554,7 @@ export default function HyperLogLogModule() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
           {/* ── Header ─────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: "easeOut" }}
@@ -569,6 +581,7 @@ export default function HyperLogLogModule() {
               datasets using only a few bytes of memory. Watch how leading zeros
               in hash values enable probabilistic counting.
             </p>
+            <ModuleLinks moduleId="13.3" />
           </motion.div>
 
           {/* ── Scenario selector + config ─────────────────────────────── */}
@@ -1262,7 +1275,9 @@ export default function HyperLogLogModule() {
             transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={elementQueue.length > 0 && state.currentStep >= elementQueue.length}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1271,6 +1286,7 @@ export default function HyperLogLogModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describeStep(lastProcessed, state)}
             />
           </motion.div>
 
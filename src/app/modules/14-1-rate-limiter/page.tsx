@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Shield,
@@ -18,21 +18,28 @@ import {
   Clock,
   Zap,
   BarChart3,
+  Columns2,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import ComparisonView from "@/components/ui/ComparisonView";
+import { useScenarioParam } from "@/hooks/useShareState";
+import type { LockstepSim } from "@/lib/compare";
+import {
+  createLimiterState,
+  DEFAULT_WINDOW_SIZE,
+  limiterLevel,
+  limiterTick,
+  type LimiterAlgorithm,
+  type LimiterConfig,
+  type LimiterState,
+} from "@/lib/sim/rate-limiter";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type AlgorithmType =
-  | "token-bucket"
-  | "leaky-bucket"
-  | "fixed-window"
-  | "sliding-window-log"
-  | "sliding-window-counter";
-
 interface AlgorithmInfo {
-  id: AlgorithmType;
+  id: LimiterAlgorithm;
   label: string;
   shortLabel: string;
   description: string;
@@ -47,41 +54,6 @@ interface RequestEvent {
   label: string;
 }
 
-interface TokenBucketState {
-  tokens: number;
-  capacity: number;
-  refillRate: number; // tokens per tick
-  lastRefillTick: number;
-}
-
-interface LeakyBucketState {
-  queue: number; // current queue size
-  capacity: number;
-  leakRate: number; // items per tick
-  lastLeakTick: number;
-}
-
-interface FixedWindowState {
-  count: number;
-  windowStart: number;
-  windowSize: number; // in ticks
-  maxRequests: number;
-}
-
-interface SlidingWindowLogState {
-  timestamps: number[];
-  windowSize: number; // in ticks
-  maxRequests: number;
-}
-
-interface SlidingWindowCounterState {
-  currentCount: number;
-  previousCount: number;
-  windowStart: number;
-  windowSize: number; // in ticks
-  maxRequests: number;
-}
-
 type ScenarioKey = "steady" | "burst" | "ramp" | "spike-recovery";
 
 interface Scenario {
@@ -159,6 +131,15 @@ const ALGORITHMS: AlgorithmInfo[] = [
   },
 ];
 
+/** What `limiterLevel` measures for each algorithm. */
+const BUCKET_LABELS: Record<LimiterAlgorithm, string> = {
+  "token-bucket": "Tokens",
+  "leaky-bucket": "Queue",
+  "fixed-window": "Count",
+  "sliding-window-log": "In Window",
+  "sliding-window-counter": "Weighted",
+};
+
 // ─── Traffic Patterns ─────────────────────────────────────────────────────────
 
 const SCENARIOS: Scenario[] = [
@@ -198,32 +179,94 @@ const SCENARIOS: Scenario[] = [
   },
 ];
 
-// ─── Initial States ───────────────────────────────────────────────────────────
+// ─── Comparison ───────────────────────────────────────────────────────────────
 
-function createTokenBucketState(): TokenBucketState {
-  return { tokens: 10, capacity: 10, refillRate: 1, lastRefillTick: 0 };
-}
+/** Ticks in a full run: each side's length in compare mode, and when a single run counts as complete. */
+const COMPARE_TICKS = 120;
 
-function createLeakyBucketState(): LeakyBucketState {
-  return { queue: 0, capacity: 10, leakRate: 1, lastLeakTick: 0 };
+interface LimiterRun {
+  limiter: LimiterState;
+  /** Outcome per tick: accepted, rejected, or null when no request arrived. */
+  outcomes: (boolean | null)[];
 }
 
-function createFixedWindowState(): FixedWindowState {
-  return { count: 0, windowStart: 0, windowSize: 10, maxRequests: 5 };
+interface LimiterSideConfig {
+  algorithm: LimiterAlgorithm;
+  limiter: LimiterConfig;
+  pattern: Scenario["pattern"];
 }
 
-function createSlidingWindowLogState(): SlidingWindowLogState {
-  return { timestamps: [], windowSize: 10, maxRequests: 5 };
+/** Most requests accepted in any `windowSize` consecutive ticks. */
+function peakPerWindow(outcomes: (boolean | null)[], windowSize: number): number {
+  let peak = 0;
+  let inWindow = 0;
+  outcomes.forEach((outcome, i) => {
+    if (outcome) inWindow++;
+    if (i >= windowSize && outcomes[i - windowSize]) inWindow--;
+    peak = Math.max(peak, inWindow);
+  });
+  return peak;
 }
 
-function createSlidingWindowCounterState(): SlidingWindowCounterState {
-  return {
-    currentCount: 0,
-    previousCount: 0,
-    windowStart: 0,
-    windowSize: 10,
-    maxRequests: 5,
-  };
+const LIMITER_SIM: LockstepSim<LimiterRun, LimiterSideConfig> = {
+  init: (config) => ({ limiter: createLimiterState(config.limiter), outcomes: [] }),
+  step: (run, config) => {
+    const limiter = limiterTick(run.limiter, config.algorithm, config.limiter, config.pattern(run.limiter.tick));
+    return { limiter, outcomes: [...run.outcomes, limiter.lastOutcome] };
+  },
+  done: (run) => run.limiter.tick >= COMPARE_TICKS,
+  // Accepting more is not better in itself, so only the burst that reaches the
+  // service picks a winner.
+  metrics: ({ limiter, outcomes }, config) => [
+    { label: "Requests", value: limiter.requests },
+    { label: "Accepted", value: limiter.accepted },
+    { label: "Rejected", value: limiter.rejected },
+    {
+      label: "Acceptance Rate",
+      value: limiter.requests > 0 ? (limiter.accepted / limiter.requests) * 100 : 0,
+      digits: 1,
+      unit: "%",
+    },
+    { label: "Peak / Window", value: peakPerWindow(outcomes, config.limiter.windowSize), better: "lower" },
+  ],
+};
+
+function LimiterPane({ run, config }: { run: LimiterRun; config: LimiterSideConfig }) {
+  const level = Math.max(0, limiterLevel(run.limiter, config.algorithm, config.limiter));
+  const recent = run.outcomes.slice(-60);
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex justify-between text-[10px] uppercase tracking-wider text-[#71717a] mb-1">
+          <span>{BUCKET_LABELS[config.algorithm]}</span>
+          <span className="font-mono">
+            {Math.round(level * 10) / 10} / {config.limiter.limit}
+          </span>
+        </div>
+        <div className="h-2 rounded-full bg-[#1e1e2e] overflow-hidden">
+          <div
+            className="h-full rounded-full transition-all duration-200"
+            style={{ width: `${Math.min(100, (level / config.limiter.limit) * 100)}%`, background: COLORS.token }}
+          />
+        </div>
+      </div>
+      <div className="flex gap-[2px] h-8 items-end">
+        {recent.map((outcome, i) => (
+          <div
+            key={i}
+            className="flex-1 rounded-sm"
+            style={{
+              height: outcome === null ? "20%" : "100%",
+              background: outcome === null ? COLORS.border : outcome ? COLORS.accepted : COLORS.rejected,
+            }}
+          />
+        ))}
+      </div>
+      <div className="text-[10px] font-mono text-[#71717a]">
+        Tick {run.limiter.tick} / {COMPARE_TICKS}
+      </div>
+    </div>
+  );
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -231,24 +274,27 @@ function createSlidingWindowCounterState(): SlidingWindowCounterState {
 export default function RateLimiterModule() {
   // ── Configuration ──
   const [selectedAlgorithm, setSelectedAlgorithm] =
-    useState<AlgorithmType>("token-bucket");
+    useState<LimiterAlgorithm>("token-bucket");
   const [activeScenario, setActiveScenario] = useState<ScenarioKey>("steady");
   const [rateLimit, setRateLimit] = useState(5); // max requests per window / bucket capacity
   const [refillRate, setRefillRate] = useState(1); // token refill rate / leak rate
+  /** Algorithm run next to `selectedAlgorithm` on the same traffic; null shows the single simulator. */
+  const [compareWith, setCompareWith] = useState<LimiterAlgorithm | null>(null);
+
+  const config = useMemo<LimiterConfig>(
+    () => ({ limit: rateLimit, refillRate, windowSize: DEFAULT_WINDOW_SIZE }),
+    [rateLimit, refillRate]
+  );
 
   // ── Simulation state ──
-  const [tick, setTick] = useState(0);
+  const [limiter, setLimiter] = useState(() => createLimiterState(config));
   const [events, setEvents] = useState<RequestEvent[]>([]);
-  const [totalRequests, setTotalRequests] = useState(0);
-  const [acceptedCount, setAcceptedCount] = useState(0);
-  const [rejectedCount, setRejectedCount] = useState(0);
-
-  // ── Algorithm-specific state ──
-  const [tokenBucket, setTokenBucket] = useState(createTokenBucketState);
-  const [leakyBucket, setLeakyBucket] = useState(createLeakyBucketState);
-  const [fixedWindow, setFixedWindow] = useState(createFixedWindowState);
-  const [slidingLog, setSlidingLog] = useState(createSlidingWindowLogState);
-  const [slidingCounter, setSlidingCounter] = useState(createSlidingWindowCounterState);
+  const {
+    tick,
+    requests: totalRequests,
+    accepted: acceptedCount,
+    rejected: rejectedCount,
+  } = limiter;
 
   // ── Playback ──
   const [isPlaying, setIsPlaying] = useState(false);
@@ -263,7 +309,7 @@ export default function RateLimiterModule() {
   const speedRef = useRef(speed);
   const animationRef = useRef<number | null>(null);
   const lastTickRef = useRef(0);
-  const tickRef = useRef(tick);
+  const limiterRef = useRef(limiter);
   const nextEventId = useRef(0);
 
   useEffect(() => {
@@ -272,214 +318,32 @@ export default function RateLimiterModule() {
   useEffect(() => {
     speedRef.current = speed;
   }, [speed]);
-  useEffect(() => {
-    tickRef.current = tick;
-  }, [tick]);
 
   // ── Get current scenario pattern ──
   const getScenarioPattern = useCallback(() => {
     return SCENARIOS.find((s) => s.id === activeScenario)?.pattern ?? (() => false);
   }, [activeScenario]);
 
-  // ── Process a request through the selected algorithm ──
-  const processRequest = useCallback(
-    (currentTick: number): boolean => {
-      switch (selectedAlgorithm) {
-        case "token-bucket": {
-          setTokenBucket((prev) => {
-            // Refill tokens
-            const ticksSinceRefill = currentTick - prev.lastRefillTick;
-            const newTokens = Math.min(
-              prev.capacity,
-              prev.tokens + ticksSinceRefill * refillRate
-            );
-            if (newTokens >= 1) {
-              return {
-                ...prev,
-                tokens: newTokens - 1,
-                lastRefillTick: currentTick,
-              };
-            }
-            return { ...prev, tokens: newTokens, lastRefillTick: currentTick };
-          });
-          // Read the current state synchronously for decision
-          const tb = tokenBucket;
-          const ticksSinceRefill = currentTick - tb.lastRefillTick;
-          const currentTokens = Math.min(
-            rateLimit,
-            tb.tokens + ticksSinceRefill * refillRate
-          );
-          return currentTokens >= 1;
-        }
-        case "leaky-bucket": {
-          setLeakyBucket((prev) => {
-            const ticksSinceLeak = currentTick - prev.lastLeakTick;
-            const leaked = Math.min(prev.queue, ticksSinceLeak * refillRate);
-            const newQueue = prev.queue - leaked;
-            if (newQueue < rateLimit) {
-              return {
-                ...prev,
-                queue: newQueue + 1,
-                lastLeakTick: currentTick,
-              };
-            }
-            return { ...prev, queue: newQueue, lastLeakTick: currentTick };
-          });
-          const lb = leakyBucket;
-          const ticksSinceLeak = currentTick - lb.lastLeakTick;
-          const leaked = Math.min(lb.queue, ticksSinceLeak * refillRate);
-          const currentQueue = lb.queue - leaked;
-          return currentQueue < rateLimit;
-        }
-        case "fixed-window": {
-          setFixedWindow((prev) => {
-            let newState = { ...prev };
-            const windowSize = 10;
-            if (currentTick - prev.windowStart >= windowSize) {
-              newState = {
-                ...newState,
-                count: 0,
-                windowStart:
-                  Math.floor(currentTick / windowSize) * windowSize,
-                windowSize,
-              };
-            }
-            if (newState.count < rateLimit) {
-              return { ...newState, count: newState.count + 1, maxRequests: rateLimit };
-            }
-            return { ...newState, maxRequests: rateLimit };
-          });
-          const fw = fixedWindow;
-          const windowSize = 10;
-          let count = fw.count;
-          if (currentTick - fw.windowStart >= windowSize) {
-            count = 0;
-          }
-          return count < rateLimit;
-        }
-        case "sliding-window-log": {
-          setSlidingLog((prev) => {
-            const windowSize = 10;
-            const filtered = prev.timestamps.filter(
-              (t) => currentTick - t < windowSize
-            );
-            if (filtered.length < rateLimit) {
-              return {
-                ...prev,
-                timestamps: [...filtered, currentTick],
-                maxRequests: rateLimit,
-              };
-            }
-            return { ...prev, timestamps: filtered, maxRequests: rateLimit };
-          });
-          const sl = slidingLog;
-          const windowSize = 10;
-          const filtered = sl.timestamps.filter(
-            (t) => currentTick - t < windowSize
-          );
-          return filtered.length < rateLimit;
-        }
-        case "sliding-window-counter": {
-          setSlidingCounter((prev) => {
-            const windowSize = 10;
-            let newState = { ...prev, maxRequests: rateLimit };
-            if (currentTick - prev.windowStart >= windowSize) {
-              newState = {
-                ...newState,
-                previousCount: prev.currentCount,
-                currentCount: 0,
-                windowStart:
-                  Math.floor(currentTick / windowSize) * windowSize,
-              };
-            }
-            const elapsed = currentTick - newState.windowStart;
-            const weight = 1 - elapsed / windowSize;
-            const estimatedCount =
-              newState.currentCount + newState.previousCount * weight;
-            if (estimatedCount < rateLimit) {
-              return {
-                ...newState,
-                currentCount: newState.currentCount + 1,
-              };
-            }
-            return newState;
-          });
-          const sc = slidingCounter;
-          const windowSize = 10;
-          let currentCount = sc.currentCount;
-          let previousCount = sc.previousCount;
-          let windowStart = sc.windowStart;
-          if (currentTick - sc.windowStart >= windowSize) {
-            previousCount = currentCount;
-            currentCount = 0;
-            windowStart = Math.floor(currentTick / windowSize) * windowSize;
-          }
-          const elapsed = currentTick - windowStart;
-          const weight = 1 - elapsed / windowSize;
-          const estimatedCount = currentCount + previousCount * weight;
-          return estimatedCount < rateLimit;
-        }
-        default:
-          return false;
-      }
-    },
-    [
-      selectedAlgorithm,
-      rateLimit,
-      refillRate,
-      tokenBucket,
-      leakyBucket,
-      fixedWindow,
-      slidingLog,
-      slidingCounter,
-    ]
-  );
-
   // ── Step forward ──
+  // Reads the latest state through a ref: the animation loop keeps the
+  // closure it started with.
   const stepForward = useCallback(() => {
-    const currentTick = tickRef.current;
-    const pattern = getScenarioPattern();
-    const shouldRequest = pattern(currentTick);
+    const prev = limiterRef.current;
+    const next = limiterTick(prev, selectedAlgorithm, config, getScenarioPattern()(prev.tick));
+    limiterRef.current = next;
+    setLimiter(next);
 
-    if (shouldRequest) {
-      const accepted = processRequest(currentTick);
+    if (next.lastOutcome !== null) {
       const event: RequestEvent = {
         id: nextEventId.current++,
-        timestamp: currentTick,
-        accepted,
+        timestamp: prev.tick,
+        accepted: next.lastOutcome,
         label: `REQ-${nextEventId.current}`,
       };
-      setEvents((prev) => [event, ...prev].slice(0, 100));
+      setEvents((list) => [event, ...list].slice(0, 100));
       setLastEvent(event);
-      setTotalRequests((prev) => prev + 1);
-      if (accepted) {
-        setAcceptedCount((prev) => prev + 1);
-      } else {
-        setRejectedCount((prev) => prev + 1);
-      }
-    } else {
-      // Still refill tokens / leak bucket even without a request
-      if (selectedAlgorithm === "token-bucket") {
-        setTokenBucket((prev) => {
-          const newTokens = Math.min(prev.capacity, prev.tokens + refillRate);
-          return { ...prev, tokens: newTokens, lastRefillTick: currentTick };
-        });
-      }
-      if (selectedAlgorithm === "leaky-bucket") {
-        setLeakyBucket((prev) => {
-          const leaked = Math.min(prev.queue, refillRate);
-          return {
-            ...prev,
-            queue: Math.max(0, prev.queue - leaked),
-            lastLeakTick: currentTick,
-          };
-        });
-      }
     }
-
-    setTick((prev) => prev + 1);
-    tickRef.current = currentTick + 1;
-  }, [getScenarioPattern, processRequest, selectedAlgorithm, refillRate]);
+  }, [getScenarioPattern, selectedAlgorithm, config]);
 
   // ── Animation loop ──
   const animationLoop = useCallback(
@@ -524,26 +388,16 @@ export default function RateLimiterModule() {
 
   const handleReset = useCallback(() => {
     handlePause();
-    setTick(0);
-    tickRef.current = 0;
+    const fresh = createLimiterState(config);
+    limiterRef.current = fresh;
+    setLimiter(fresh);
     setEvents([]);
-    setTotalRequests(0);
-    setAcceptedCount(0);
-    setRejectedCount(0);
     setLastEvent(null);
     nextEventId.current = 0;
-    setTokenBucket({ ...createTokenBucketState(), capacity: rateLimit });
-    setLeakyBucket({ ...createLeakyBucketState(), capacity: rateLimit });
-    setFixedWindow({ ...createFixedWindowState(), maxRequests: rateLimit });
-    setSlidingLog({ ...createSlidingWindowLogState(), maxRequests: rateLimit });
-    setSlidingCounter({
-      ...createSlidingWindowCounterState(),
-      maxRequests: rateLimit,
-    });
-  }, [handlePause, rateLimit]);
+  }, [handlePause, config]);
 
   const handleAlgorithmChange = useCallback(
-    (algo: AlgorithmType) => {
+    (algo: LimiterAlgorithm) => {
       handleReset();
       setSelectedAlgorithm(algo);
     },
@@ -558,58 +412,51 @@ export default function RateLimiterModule() {
     [handleReset]
   );
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioChange);
+
   // ── Computed values ──
   const acceptanceRate =
     totalRequests > 0 ? ((acceptedCount / totalRequests) * 100).toFixed(1) : "0.0";
   const currentAlgoInfo = ALGORITHMS.find((a) => a.id === selectedAlgorithm)!;
 
-  // Get current fill level for bucket visualization
-  const getBucketFill = (): { current: number; max: number; label: string } => {
-    switch (selectedAlgorithm) {
-      case "token-bucket":
-        return {
-          current: Math.max(0, Math.round(tokenBucket.tokens * 10) / 10),
-          max: rateLimit,
-          label: "Tokens",
-        };
-      case "leaky-bucket":
-        return {
-          current: leakyBucket.queue,
-          max: rateLimit,
-          label: "Queue",
-        };
-      case "fixed-window":
-        return {
-          current: fixedWindow.count,
-          max: rateLimit,
-          label: "Count",
-        };
-      case "sliding-window-log":
-        return {
-          current: slidingLog.timestamps.filter(
-            (t) => tick - t < 10
-          ).length,
-          max: rateLimit,
-          label: "In Window",
-        };
-      case "sliding-window-counter": {
-        const windowSize = 10;
-        const elapsed = tick - slidingCounter.windowStart;
-        const weight = elapsed < windowSize ? 1 - elapsed / windowSize : 0;
-        const estimated =
-          slidingCounter.currentCount +
-          slidingCounter.previousCount * weight;
-        return {
-          current: Math.round(estimated * 10) / 10,
-          max: rateLimit,
-          label: "Weighted",
-        };
-      }
-      default:
-        return { current: 0, max: rateLimit, label: "Count" };
-    }
+  // ── Side-by-side comparison ──
+  const compareConfigs = useMemo(() => {
+    if (compareWith === null) return null;
+    const pattern = SCENARIOS.find((s) => s.id === activeScenario)?.pattern ?? (() => false);
+    return ([selectedAlgorithm, compareWith] as const).map((algorithm) => ({ algorithm, limiter: config, pattern }));
+  }, [compareWith, selectedAlgorithm, activeScenario, config]);
+  const algorithmLabel = (id: LimiterAlgorithm) => ALGORITHMS.find((a) => a.id === id)!.label;
+
+  const toggleCompare = () => {
+    handlePause();
+    setCompareWith(
+      compareWith === null
+        ? selectedAlgorithm === "sliding-window-log"
+          ? "token-bucket"
+          : "sliding-window-log"
+        : null
+    );
   };
 
+  const compareToggle = (
+    <button
+      onClick={toggleCompare}
+      className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-xs text-[#a1a1aa] hover:text-white transition-all duration-200"
+      aria-pressed={compareWith !== null}
+      title="Run two algorithms side by side on the same traffic"
+    >
+      <Columns2 size={14} />
+      {compareWith === null ? "Compare" : "Exit Compare"}
+    </button>
+  );
+
+  // Get current fill level for bucket visualization
+  const getBucketFill = (): { current: number; max: number; label: string } => ({
+    current: Math.max(0, Math.round(limiterLevel(limiter, selectedAlgorithm, config) * 10) / 10),
+    max: rateLimit,
+    label: BUCKET_LABELS[selectedAlgorithm],
+  });
+
   const bucketFill = getBucketFill();
 
   // ── Metrics ──
@@ -636,6 +483,7 @@ export default function RateLimiterModule() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
           {/* ── Header ─────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: "easeOut" }}
@@ -664,6 +512,7 @@ export default function RateLimiterModule() {
               Compare Token Bucket, Leaky Bucket, Fixed Window, Sliding Window
               Log, and Sliding Window Counter approaches.
             </p>
+            <ModuleLinks moduleId="14.1" />
           </motion.div>
 
           {/* ── Algorithm selector ──────────────────────────────────────── */}
@@ -769,7 +618,7 @@ export default function RateLimiterModule() {
             initial={{ opacity: 0, y: 12 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.2, ease: [0.23, 1, 0.32, 1] }}
-            className="grid grid-cols-1 lg:grid-cols-3 gap-4"
+            className={`grid grid-cols-1 lg:grid-cols-3 gap-4 ${compareConfigs ? "hidden" : ""}`}
           >
             {/* ── Left: Bucket / Window visualization ── */}
             <div className="lg:col-span-1 space-y-4">
@@ -843,7 +692,7 @@ export default function RateLimiterModule() {
                     {selectedAlgorithm === "token-bucket" && (
                       <div className="absolute inset-0 flex flex-wrap content-end p-2 gap-1.5">
                         {Array.from(
-                          { length: Math.min(Math.floor(tokenBucket.tokens), rateLimit) },
+                          { length: Math.min(Math.floor(limiter.tokens), rateLimit) },
                           (_, i) => (
                             <motion.div
                               key={i}
@@ -861,7 +710,7 @@ export default function RateLimiterModule() {
                     )}
 
                     {/* Leak indicator for leaky bucket */}
-                    {selectedAlgorithm === "leaky-bucket" && leakyBucket.queue > 0 && (
+                    {selectedAlgorithm === "leaky-bucket" && limiter.queue > 0 && (
                       <motion.div
                         className="absolute bottom-0 left-1/2 transform -translate-x-1/2"
                         animate={{ opacity: [0.3, 1, 0.3] }}
@@ -1294,22 +1143,53 @@ export default function RateLimiterModule() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
           >
-            <ModuleControls
-              isPlaying={isPlaying}
-              onPlay={handlePlay}
-              onPause={handlePause}
-              onStep={handleStep}
-              onReset={handleReset}
-              speed={speed}
-              onSpeedChange={setSpeed}
-              showMetrics={showMetrics}
-              onToggleMetrics={() => setShowMetrics(!showMetrics)}
-            />
+            {compareConfigs ? (
+              <ComparisonView
+                key={`${activeScenario}:${selectedAlgorithm}:${compareWith}:${rateLimit}:${refillRate}`}
+                sim={LIMITER_SIM}
+                left={{ label: algorithmLabel(compareConfigs[0].algorithm), config: compareConfigs[0] }}
+                right={{ label: algorithmLabel(compareConfigs[1].algorithm), config: compareConfigs[1] }}
+                renderPane={(run, sideConfig) => <LimiterPane run={run} config={sideConfig} />}
+                intervalMs={200}
+                shareState={{ scenario: activeScenario }}
+              >
+                <select
+                  value={compareConfigs[1].algorithm}
+                  onChange={(e) => setCompareWith(e.target.value as LimiterAlgorithm)}
+                  aria-label="Compare against"
+                  className="px-3 py-2 rounded-lg bg-[#06b6d4]/10 border border-[#06b6d4]/30 text-xs text-[#06b6d4] font-medium focus:outline-none focus:border-[#06b6d4] cursor-pointer"
+                >
+                  {ALGORITHMS.map((algo) => (
+                    <option key={algo.id} value={algo.id} className="bg-[#111118] text-white">
+                      vs {algo.label}
+                    </option>
+                  ))}
+                </select>
+                {compareToggle}
+              </ComparisonView>
+            ) : (
+              <ModuleControls
+                shareState={{ scenario: activeScenario }}
+                isPlaying={isPlaying}
+                completed={limiter.tick >= COMPARE_TICKS}
+                onPlay={handlePlay}
+                onPause={handlePause}
+                onStep={handleStep}
+                onReset={handleReset}
+                speed={speed}
+                onSpeedChange={setSpeed}
+                showMetrics={showMetrics}
+                onToggleMetrics={() => setShowMetrics(!showMetrics)}
+                description={lastEvent ? `${lastEvent.label} ${lastEvent.accepted ? "accepted" : "rejected"} at tick ${lastEvent.timestamp}; ${acceptedCount} accepted, ${rejectedCount} rejected so far` : undefined}
+              >
+                {compareToggle}
+              </ModuleControls>
+            )}
           </motion.div>
 
           {/* ── Metrics panel ──────────────────────────────────────────── */}
           <AnimatePresence>
-            {showMetrics && (
+            {showMetrics && !compareConfigs && (
               <motion.div
                 initial={{ opacity: 0, y: -10, scale: 0.95 }}
                 animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -1540,7 +1420,7 @@ export default function RateLimiterModule() {
                                 : "transparent",
                           }}
                           onClick={() =>
-                            handleAlgorithmChange(row.id as AlgorithmType)
+                            handleAlgorithmChange(row.id as LimiterAlgorithm)
                           }
                         >
                           <td className="px-3 py-2">
@@ -24,7 +24,9 @@ import {
   CircleDot,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -71,6 +73,9 @@ interface Scenario {
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
+/** Ticks for every scenario's failure and recovery phases to play out. */
+const RUN_TICKS = 80;
+
 const COLORS = {
   bg: "#0a0a0f",
   card: "#111118",
@@ -556,6 +561,8 @@ export default function CircuitBreakerModule() {
     [handleReset]
   );
 
+  useScenarioParam(SCENARIOS.map((s) => s.id), handleScenarioChange);
+
   // ── Computed values ──
   const timeInState = tick - breaker.stateEnteredAt;
   const openTimeRemaining =
@@ -597,6 +604,7 @@ export default function CircuitBreakerModule() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
           {/* ── Header ─────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: "easeOut" }}
@@ -625,6 +633,7 @@ export default function CircuitBreakerModule() {
               Breaker pattern. Watch the three-state finite state machine
               (Closed, Open, Half-Open) respond to service health changes.
             </p>
+            <ModuleLinks moduleId="14.2" />
           </motion.div>
 
           {/* ── Scenario + config ──────────────────────────────────────── */}
@@ -1520,7 +1529,9 @@ export default function CircuitBreakerModule() {
             transition={{ duration: 0.5, delay: 0.3, ease: [0.23, 1, 0.32, 1] }}
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={tick >= RUN_TICKS}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1529,6 +1540,7 @@ export default function CircuitBreakerModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={log[0]?.message}
             />
           </motion.div>
 
@@ -17,7 +17,9 @@ import {
   Cpu,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -780,6 +782,17 @@ export default function RasterizationPage() {
 
   const coveredPixelCount = pixelGrid.flat().filter((p) => p.covered).length;
   const totalPixels = GRID_SIZE * GRID_SIZE;
+  const stageLabel = PIPELINE_STAGES[STAGE_INDEX[activeStage]].label;
+  const stepDescription =
+    stepCount === 0
+      ? undefined
+      : isComplete
+        ? `Frame complete: ${coveredPixelCount} of ${totalPixels} pixels covered`
+        : activeStage === "rasterization" && rasterProgress >= 0
+          ? `${stageLabel}: scanned ${rasterProgress + 1} of ${totalPixels} pixels`
+          : activeStage === "fragment-shader" && fragmentProgress >= 0
+            ? `${stageLabel}: shaded ${fragmentProgress + 1} of ${totalPixels} pixels`
+            : stageLabel;
 
   // ── Step forward ────────────────────────────────────────────────────────────
   const stepForward = useCallback(() => {
@@ -914,6 +927,8 @@ export default function RasterizationPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedScenario]);
 
+  useScenarioParam(SCENARIOS.map((s) => s.key), setSelectedScenario);
+
   // ── Render ──────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen" style={{ background: COLORS.bg }}>
@@ -923,6 +938,7 @@ export default function RasterizationPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ──────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -948,6 +964,7 @@ export default function RasterizationPage() {
               Watch how 3D triangles are transformed, clipped, and rasterized into colored
               pixels on a framebuffer grid.
             </p>
+            <ModuleLinks moduleId="15.1" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1194,6 +1211,8 @@ export default function RasterizationPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: selectedScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1202,6 +1221,7 @@ export default function RasterizationPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             >
               <AnimatePresence>
                 {isComplete && (
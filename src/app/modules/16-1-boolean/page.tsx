@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Info,
@@ -15,15 +15,46 @@ import {
   Binary,
   ChevronRight,
   Sigma,
+  Columns3,
+  CheckCircle2,
+  XCircle,
+  Cpu,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import SchematicEditor from "@/components/ui/SchematicEditor";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  coverMismatches,
+  covers,
+  implicantPattern,
+  implicantProduct,
+  literalCount,
+  posExpression,
+  quineMcCluskey,
+  sopExpression,
+  zerosOf,
+  type QmResult,
+} from "@/lib/sim/quine-mccluskey";
+import {
+  SYNTHESIS_STYLES,
+  circuitMismatches,
+  expressionOutputs,
+  formatExpression,
+  gateCounts,
+  parseExpression,
+  synthesizeCircuit,
+  variableCount,
+  type SynthesisStyle,
+} from "@/lib/sim/boolean-expr";
+import { evaluateCircuit } from "@/lib/sim/logic";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type ModeType = "truth-table" | "karnaugh-map" | "minimization";
+type ModeType = "truth-table" | "karnaugh-map" | "minimization" | "quine-mccluskey";
 
-type ScenarioKey = "2-variable" | "3-variable" | "4-variable" | "demorgan";
+type ScenarioKey = "2-variable" | "3-variable" | "4-variable" | "demorgan" | "qm-5-variable" | "cyclic-petrick";
 
 interface Scenario {
   key: ScenarioKey;
@@ -31,6 +62,7 @@ interface Scenario {
   description: string;
   mode: ModeType;
   numVars: number;
+  /** 1, 0, or DONT_CARE per minterm. */
   outputs?: number[];
   expression?: string;
 }
@@ -73,7 +105,12 @@ const GROUP_COLORS = [
   "#14b8a6", // teal
 ];
 
-const VARIABLE_NAMES = ["A", "B", "C", "D"];
+const VARIABLE_NAMES = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+/** Output value for a don't-care row; only the Quine-McCluskey mode uses them. */
+const DONT_CARE = 2;
+
+const KMAP_MAX_VARS = 4;
 
 const SCENARIOS: Scenario[] = [
   {
@@ -108,6 +145,22 @@ const SCENARIOS: Scenario[] = [
     numVars: 2,
     expression: "(A'B')' + AB'",
   },
+  {
+    key: "qm-5-variable",
+    label: "5-Var Quine-McCluskey",
+    description: "Tabular minimization of a 5-variable function with don't-cares",
+    mode: "quine-mccluskey",
+    numVars: 5,
+    outputs: [1, 1, 1, 0, 0, 1, 1, 1, 1, 1, 1, 0, 0, 1, 1, 1, 1, 0, 1, 0, 2, 0, 0, 0, 1, 0, 1, 0, 2, 0, 0, 0],
+  },
+  {
+    key: "cyclic-petrick",
+    label: "Cyclic Chart",
+    description: "A prime implicant chart with no essential primes, solved by Petrick's method",
+    mode: "quine-mccluskey",
+    numVars: 3,
+    outputs: [1, 1, 1, 0, 0, 1, 1, 1],
+  },
 ];
 
 // ─── Gray Code Helpers ────────────────────────────────────────────────────────
@@ -213,6 +266,21 @@ function outputsToSOP(outputs: number[], numVars: number): string {
   return terms.length > 0 ? terms.join(" + ") : "0";
 }
 
+function outputsToPOS(outputs: number[], numVars: number): string {
+  const terms: string[] = [];
+  for (let i = 0; i < outputs.length; i++) {
+    if (outputs[i] === 0) {
+      const bits = bitsToStr(i, numVars);
+      const literals: string[] = [];
+      for (let b = 0; b < numVars; b++) {
+        literals.push(bits[b] === "1" ? VARIABLE_NAMES[b] + "'" : VARIABLE_NAMES[b]);
+      }
+      terms.push(`(${literals.join(" + ")})`);
+    }
+  }
+  return terms.length > 0 ? terms.join("") : "1";
+}
+
 // ─── K-Map Grouping Algorithm ─────────────────────────────────────────────────
 
 function findKMapGroups(outputs: number[], numVars: number): KMapGroup[] {
@@ -357,9 +425,13 @@ function generateSimplificationSteps(expression: string): SimplificationStep[] {
   ];
 }
 
-function generateRandomOutputs(numVars: number): number[] {
+function generateRandomOutputs(numVars: number, dontCares = false): number[] {
   const size = Math.pow(2, numVars);
-  return Array.from({ length: size }, () => (Math.random() > 0.5 ? 1 : 0));
+  return Array.from({ length: size }, () => {
+    const r = Math.random();
+    if (dontCares && r < 0.1) return DONT_CARE;
+    return r > 0.5 ? 1 : 0;
+  });
 }
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
@@ -407,6 +479,7 @@ function ModeSelector({
     { id: "truth-table", label: "Truth Table", icon: <Table2 size={12} /> },
     { id: "karnaugh-map", label: "K-Map", icon: <Grid3X3 size={12} /> },
     { id: "minimization", label: "Minimize", icon: <Minimize2 size={12} /> },
+    { id: "quine-mccluskey", label: "Quine-McCluskey", icon: <Columns3 size={12} /> },
   ];
 
   return (
@@ -505,13 +578,13 @@ function TruthTableView({
                       className="inline-flex items-center justify-center w-7 h-7 rounded-md font-mono font-bold text-sm transition-all duration-150 hover:scale-110"
                       style={{
                         backgroundColor: outputs[idx] === 1 ? "rgba(255,255,255,0.12)" : "rgba(113,113,122,0.1)",
-                        color: outputs[idx] === 1 ? "#ffffff" : COLORS.muted,
+                        color: outputs[idx] === 1 ? "#ffffff" : outputs[idx] === DONT_CARE ? COLORS.accent : COLORS.muted,
                         border: isHighlighted
                           ? `1px solid ${COLORS.primary}`
                           : `1px solid ${outputs[idx] === 1 ? "rgba(255,255,255,0.2)" : "transparent"}`,
                       }}
                     >
-                      {outputs[idx]}
+                      {outputs[idx] === DONT_CARE ? "X" : outputs[idx]}
                     </button>
                   </td>
                 </tr>
@@ -849,6 +922,7 @@ function ExpressionDisplay({
   visibleGroupCount: number;
 }) {
   const sopExpression = outputsToSOP(outputs, numVars);
+  const posCanonical = outputsToPOS(outputs, numVars);
   const minimizedTerms = groups.slice(0, visibleGroupCount).map((g) => g.term);
   const minimizedExpression = minimizedTerms.length > 0 ? minimizedTerms.join(" + ") : "0";
 
@@ -884,6 +958,23 @@ function ExpressionDisplay({
         </div>
       </div>
 
+      {/* POS */}
+      <div>
+        <span className="text-[9px] uppercase tracking-wider font-semibold" style={{ color: COLORS.muted }}>
+          Product of Sums (POS)
+        </span>
+        <div
+          className="mt-1 px-3 py-2 rounded-lg font-mono text-xs break-all max-h-24 overflow-y-auto"
+          style={{
+            background: "rgba(30,30,46,0.5)",
+            border: `1px solid ${COLORS.border}`,
+            color: "#e4e4e7",
+          }}
+        >
+          F = {posCanonical}
+        </div>
+      </div>
+
       {/* Minimized */}
       {visibleGroupCount > 0 && (
         <div>
@@ -924,6 +1015,646 @@ function ExpressionDisplay({
   );
 }
 
+// ─── Quine-McCluskey ──────────────────────────────────────────────────────────
+
+type QmPhase = "column" | "chart" | "reduce" | "petrick" | "result";
+
+interface QmAnalysis {
+  ones: number[];
+  dontCares: number[];
+  sop: QmResult;
+  /** Minimization of the zeros, read back as a product of sums. */
+  pos: QmResult;
+}
+
+/** Reveal order: each further tabulation column, the chart, its reduction, Petrick's method if needed, the result. */
+function qmPhases(result: QmResult): QmPhase[] {
+  return [
+    ...result.columns.slice(1).map((): QmPhase => "column"),
+    "chart",
+    "reduce",
+    ...(result.petrick ? (["petrick"] as QmPhase[]) : []),
+    "result",
+  ];
+}
+
+const QM_PHASE_LABELS: Record<QmPhase, string> = {
+  column: "Combining implicants into the next column",
+  chart: "Building the prime implicant chart",
+  reduce: "Reducing the chart with essential primes and dominance",
+  petrick: "Covering the rest with Petrick's method",
+  result: "Minimal expression found",
+};
+
+function analyzeQm(outputs: number[], numVars: number): QmAnalysis {
+  const ones = outputs.flatMap((v, m) => (v === 1 ? [m] : []));
+  const dontCares = outputs.flatMap((v, m) => (v === DONT_CARE ? [m] : []));
+  return {
+    ones,
+    dontCares,
+    sop: quineMcCluskey(numVars, ones, dontCares),
+    pos: quineMcCluskey(numVars, zerosOf(numVars, ones, dontCares), dontCares),
+  };
+}
+
+function primeLabel(i: number): string {
+  return `P${i + 1}`;
+}
+
+function QmCard({
+  icon,
+  title,
+  children,
+  aside,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  children: React.ReactNode;
+  aside?: React.ReactNode;
+}) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="rounded-xl overflow-hidden"
+      style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}
+    >
+      <div className="px-4 py-2.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
+        {icon}
+        <span className="text-sm font-semibold text-white">{title}</span>
+        {aside && (
+          <span className="text-[10px] ml-auto font-mono" style={{ color: COLORS.muted }}>
+            {aside}
+          </span>
+        )}
+      </div>
+      <div className="p-4">{children}</div>
+    </motion.div>
+  );
+}
+
+function TabulationView({
+  result,
+  columnsShown,
+  chartShown,
+}: {
+  result: QmResult;
+  columnsShown: number;
+  chartShown: boolean;
+}) {
+  const { numVars, columns, chart } = result;
+
+  return (
+    <QmCard
+      icon={<Columns3 size={14} style={{ color: COLORS.secondary }} />}
+      title="Prime Implicant Generation"
+      aside={`${columnsShown}/${columns.length} columns`}
+    >
+      <div className="flex gap-3 overflow-x-auto max-h-[420px] overflow-y-auto pb-1">
+        {columns.slice(0, columnsShown).map((column, ci) => {
+          // Merges and primes are only known once the next column has been built
+          const settled = ci + 1 < columnsShown || (ci === columns.length - 1 && chartShown);
+          return (
+            <motion.div
+              key={ci}
+              initial={{ opacity: 0, x: -8 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.3 }}
+              className="flex-shrink-0 rounded-lg p-2"
+              style={{ background: "rgba(30,30,46,0.3)", border: `1px solid ${COLORS.border}` }}
+            >
+              <div className="text-[10px] font-semibold mb-1.5" style={{ color: COLORS.secondary }}>
+                Column {ci + 1} · {column.size === 1 ? "minterms" : `${column.size}-cubes`}
+              </div>
+              {column.groups.map((group, g) =>
+                group.length === 0 ? null : (
+                  <div key={g} className="mb-1.5">
+                    <div className="text-[9px] uppercase tracking-wider" style={{ color: COLORS.muted }}>
+                      {g} one{g === 1 ? "" : "s"}
+                    </div>
+                    {group.map((row) => {
+                      const prime = chart.primes.indexOf(row.implicant);
+                      return (
+                        <div key={implicantPattern(row.implicant, numVars)} className="flex items-center gap-2 font-mono text-[10px]">
+                          <span style={{ color: "#a1a1aa" }}>m({row.implicant.minterms.join(",")})</span>
+                          <span className="ml-auto" style={{ color: "#e4e4e7" }}>
+                            {implicantPattern(row.implicant, numVars)}
+                          </span>
+                          <span className="w-6 text-right font-bold">
+                            {settled &&
+                              (row.merged ? (
+                                <span style={{ color: COLORS.success }}>✓</span>
+                              ) : (
+                                <span style={{ color: prime >= 0 ? COLORS.accent : COLORS.muted }}>
+                                  {prime >= 0 ? primeLabel(prime) : "d"}
+                                </span>
+                              ))}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+      <div className="mt-2 text-[10px] leading-relaxed" style={{ color: COLORS.muted }}>
+        Terms in neighbouring groups that differ in one bit merge into a &quot;-&quot;; ✓ marks a term that merged, and a
+        term that never merges is a prime implicant (d: it covers only don&apos;t-cares).
+      </div>
+    </QmCard>
+  );
+}
+
+function PrimeChartView({ result, reduced }: { result: QmResult; reduced: boolean }) {
+  const { numVars, chart } = result;
+  const names = VARIABLE_NAMES.slice(0, numVars);
+  const essential = new Set(chart.essential);
+  const secondary = new Set(chart.secondary);
+  const dominated = new Set(chart.dominated);
+  const remaining = new Set(chart.remaining);
+  const core = new Set(chart.core);
+  const coverCount = new Map(chart.minterms.map((m) => [m, chart.primes.filter((p) => covers(p, m)).length]));
+
+  const rowColor = (i: number) => {
+    if (essential.has(i)) return COLORS.success;
+    if (!reduced) return "#e4e4e7";
+    if (secondary.has(i)) return COLORS.secondary;
+    if (dominated.has(i)) return COLORS.muted;
+    return chart.coreRows.includes(i) ? COLORS.accent : COLORS.muted;
+  };
+
+  return (
+    <QmCard
+      icon={<Grid3X3 size={14} style={{ color: COLORS.primary }} />}
+      title="Prime Implicant Chart"
+      aside={`${chart.primes.length} primes × ${chart.minterms.length} minterms`}
+    >
+      <div className="overflow-auto max-h-[360px]">
+        <table className="text-[10px] font-mono border-collapse">
+          <thead className="sticky top-0 z-10" style={{ background: COLORS.card }}>
+            <tr>
+              <th className="px-2 py-1 text-left font-medium" style={{ color: COLORS.muted }}>
+                Prime
+              </th>
+              {chart.minterms.map((m) => (
+                <th
+                  key={m}
+                  className="px-1 py-1 font-medium"
+                  style={{
+                    color: !remaining.has(m) ? COLORS.success : reduced && core.has(m) ? COLORS.accent : COLORS.muted,
+                  }}
+                >
+                  {m}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {chart.primes.map((prime, i) => (
+              <tr
+                key={i}
+                className="border-t"
+                style={{
+                  borderColor: `${COLORS.border}80`,
+                  background: essential.has(i) ? `${COLORS.success}0c` : "transparent",
+                  textDecoration: reduced && dominated.has(i) ? "line-through" : "none",
+                }}
+              >
+                <td className="px-2 py-1 whitespace-nowrap" style={{ color: rowColor(i) }}>
+                  {primeLabel(i)} {implicantProduct(prime, names)}
+                </td>
+                {chart.minterms.map((m) => {
+                  const hit = covers(prime, m);
+                  const sole = hit && coverCount.get(m) === 1;
+                  return (
+                    <td
+                      key={m}
+                      className="px-1 py-1 text-center"
+                      style={{ color: sole ? COLORS.success : hit ? rowColor(i) : "transparent" }}
+                    >
+                      {sole ? "⊗" : hit ? "×" : "·"}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap gap-3 mt-2 text-[10px]">
+        <span style={{ color: COLORS.success }}>⊗ only prime covering a minterm → essential</span>
+        {reduced && <span style={{ color: COLORS.secondary }}>secondary essential</span>}
+        {reduced && <span style={{ color: COLORS.muted }}>dominated (struck out)</span>}
+        {reduced && chart.core.length > 0 && <span style={{ color: COLORS.accent }}>cyclic core</span>}
+      </div>
+    </QmCard>
+  );
+}
+
+function ChartReductionView({ result }: { result: QmResult }) {
+  const { chart } = result;
+  const list = (indices: number[]) => (indices.length ? indices.map(primeLabel).join(", ") : "none");
+  const rows = [
+    { label: "Essential", value: list(chart.essential), color: COLORS.success },
+    { label: "Left after essentials", value: chart.remaining.length ? chart.remaining.map((m) => `m${m}`).join(", ") : "none", color: "#e4e4e7" },
+    { label: "Dominated", value: list(chart.dominated), color: COLORS.muted },
+    { label: "Secondary essential", value: list(chart.secondary), color: COLORS.secondary },
+    {
+      label: "Cyclic core",
+      value: chart.core.length ? `${chart.core.length} minterms × ${chart.coreRows.length} primes` : "empty: the cover is complete",
+      color: COLORS.accent,
+    },
+  ];
+
+  return (
+    <QmCard icon={<Minimize2 size={14} style={{ color: COLORS.accent }} />} title="Chart Reduction">
+      <div className="space-y-1.5">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-start gap-3 text-[11px]">
+            <span className="w-36 flex-shrink-0" style={{ color: COLORS.muted }}>
+              {row.label}
+            </span>
+            <span className="font-mono break-all" style={{ color: row.color }}>
+              {row.value}
+            </span>
+          </div>
+        ))}
+      </div>
+    </QmCard>
+  );
+}
+
+const PETRICK_SHOWN = 8;
+
+function PetrickView({ result }: { result: QmResult }) {
+  const { numVars, chart, petrick } = result;
+  if (!petrick) return null;
+  const product = (p: number[]) => p.map(primeLabel).join("·");
+  const literals = (p: number[]) => p.reduce((sum, i) => sum + literalCount(chart.primes[i], numVars), 0);
+
+  return (
+    <QmCard
+      icon={<Sigma size={14} style={{ color: COLORS.accent }} />}
+      title="Petrick's Method"
+      aside={`${petrick.products.length} irredundant covers`}
+    >
+      <div className="space-y-3 text-[11px] font-mono">
+        <div>
+          <div className="text-[9px] uppercase tracking-wider mb-1 font-sans" style={{ color: COLORS.muted }}>
+            Each core minterm needs one of its primes
+          </div>
+          <div className="break-all" style={{ color: "#e4e4e7" }}>
+            P = {petrick.sums.map((sum) => `(${sum.map(primeLabel).join(" + ")})`).join("")}
+          </div>
+        </div>
+        <div>
+          <div className="text-[9px] uppercase tracking-wider mb-1 font-sans" style={{ color: COLORS.muted }}>
+            Multiplied out, absorbed terms removed, cheapest first
+          </div>
+          <div className="space-y-0.5">
+            {petrick.products.slice(0, PETRICK_SHOWN).map((p, i) => (
+              <div key={i} className="flex items-center gap-3" style={{ color: i === 0 ? COLORS.success : "#a1a1aa" }}>
+                <span>{product(p)}</span>
+                <span className="text-[10px]" style={{ color: COLORS.muted }}>
+                  {p.length} terms, {literals(p)} literals
+                </span>
+                {i === 0 && <span className="text-[10px] font-sans font-semibold">chosen</span>}
+              </div>
+            ))}
+            {petrick.products.length > PETRICK_SHOWN && (
+              <div style={{ color: COLORS.muted }}>… {petrick.products.length - PETRICK_SHOWN} more</div>
+            )}
+          </div>
+        </div>
+        {petrick.truncated && (
+          <div className="font-sans text-[10px]" style={{ color: COLORS.danger }}>
+            The expansion grew too large and its costliest products were dropped, so this cover may not be minimal.
+          </div>
+        )}
+      </div>
+    </QmCard>
+  );
+}
+
+function VerifiedExpression({
+  label,
+  expression,
+  mismatches,
+  checked,
+}: {
+  label: string;
+  expression: string;
+  mismatches: number[];
+  checked: number;
+}) {
+  const ok = mismatches.length === 0;
+  return (
+    <div>
+      <span className="text-[9px] uppercase tracking-wider font-semibold" style={{ color: COLORS.success }}>
+        {label}
+      </span>
+      <div
+        className="mt-1 px-3 py-2 rounded-lg font-mono text-xs font-bold break-all"
+        style={{ background: `${COLORS.success}08`, border: `1px solid ${COLORS.success}25`, color: COLORS.success }}
+      >
+        F = {expression}
+      </div>
+      <div className="flex items-center gap-1.5 mt-1 text-[10px]" style={{ color: ok ? COLORS.success : COLORS.danger }}>
+        {ok ? <CheckCircle2 size={11} /> : <XCircle size={11} />}
+        {ok
+          ? `Matches the truth table on all ${checked} specified rows`
+          : `Disagrees with the truth table at ${mismatches.map((m) => `m${m}`).join(", ")}`}
+      </div>
+    </div>
+  );
+}
+
+function QmResultView({ analysis, numVars }: { analysis: QmAnalysis; numVars: number }) {
+  const names = VARIABLE_NAMES.slice(0, numVars);
+  const { ones, dontCares, sop, pos } = analysis;
+  const checked = 2 ** numVars - dontCares.length;
+
+  return (
+    <QmCard
+      icon={<CheckCircle2 size={14} style={{ color: COLORS.success }} />}
+      title="Minimized Result"
+      aside={`${sop.cover.length} products · ${pos.cover.length} sums`}
+    >
+      <div className="space-y-3">
+        <VerifiedExpression
+          label="Minimal Sum of Products"
+          expression={sopExpression(sop.cover, names)}
+          mismatches={coverMismatches(sop.cover, "sop", numVars, ones, dontCares)}
+          checked={checked}
+        />
+        <VerifiedExpression
+          label="Minimal Product of Sums"
+          expression={posExpression(pos.cover, names)}
+          mismatches={coverMismatches(pos.cover, "pos", numVars, ones, dontCares)}
+          checked={checked}
+        />
+        <div className="text-[10px] leading-relaxed" style={{ color: COLORS.muted }}>
+          The product of sums comes from minimizing the zeros the same way and complementing each term (De Morgan).
+          Don&apos;t-care rows may take either value.
+        </div>
+      </div>
+    </QmCard>
+  );
+}
+
+function QuineMcCluskeyView({
+  analysis,
+  numVars,
+  stage,
+}: {
+  analysis: QmAnalysis;
+  numVars: number;
+  stage: number;
+}) {
+  const result = analysis.sop;
+  const shown = qmPhases(result).slice(0, stage);
+  const columnsShown = Math.min(result.columns.length, 1 + shown.filter((p) => p === "column").length);
+
+  if (analysis.ones.length === 0) {
+    return (
+      <QmCard icon={<Columns3 size={14} style={{ color: COLORS.secondary }} />} title="Quine-McCluskey">
+        <span className="text-xs" style={{ color: COLORS.muted }}>
+          The function has no minterms, so F = 0. Click outputs in the truth table to set some to 1 or X.
+        </span>
+      </QmCard>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <TabulationView result={result} columnsShown={columnsShown} chartShown={shown.includes("chart")} />
+      {shown.includes("chart") && <PrimeChartView result={result} reduced={shown.includes("reduce")} />}
+      {shown.includes("reduce") && <ChartReductionView result={result} />}
+      {shown.includes("petrick") && <PetrickView result={result} />}
+      {shown.includes("result") && <QmResultView analysis={analysis} numVars={numVars} />}
+    </div>
+  );
+}
+
+// ─── Expression Parser & Synthesis ────────────────────────────────────────────
+
+const EXPRESSION_EXAMPLES = ["A'B + C(D xor A)", "(A + B)(A' + C)", "A xor B xor C", "NOT (A nor B) nand C", "AB + CD + EF + GH"];
+
+const STYLE_LABELS: Record<SynthesisStyle, string> = {
+  "and-or": "AND-OR",
+  nand: "NAND only",
+  nor: "NOR only",
+};
+
+const STYLE_NOTES: Record<SynthesisStyle, string> = {
+  "and-or": "Inverters for complemented literals, an AND per product term, one OR to combine them.",
+  nand: "The sum of products with both levels as NAND: by De Morgan, NAND(NAND(x), NAND(y)) = x + y. Inverters are NANDs with tied inputs.",
+  nor: "The product of sums with both levels as NOR: NOR(NOR(x), NOR(y)) = x · y. Inverters are NORs with tied inputs.",
+};
+
+function ExpressionSynthesisPanel({
+  numVars,
+  outputs,
+  onApply,
+}: {
+  numVars: number;
+  outputs: number[];
+  onApply: (numVars: number, outputs: number[]) => void;
+}) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<string | null>(null);
+  const [style, setStyle] = useState<SynthesisStyle>("and-or");
+  const [probe, setProbe] = useState(0);
+  const names = VARIABLE_NAMES.slice(0, numVars);
+
+  const minimal = useMemo(() => {
+    const ones = outputs.flatMap((v, m) => (v === 1 ? [m] : []));
+    const dontCares = outputs.flatMap((v, m) => (v === DONT_CARE ? [m] : []));
+    return {
+      ones,
+      dontCares,
+      sop: quineMcCluskey(numVars, ones, dontCares),
+      pos: quineMcCluskey(numVars, zerosOf(numVars, ones, dontCares), dontCares),
+    };
+  }, [numVars, outputs]);
+
+  const circuit = useMemo(
+    () => synthesizeCircuit(style, numVars, minimal.sop.cover, minimal.pos.cover),
+    [style, numVars, minimal]
+  );
+
+  const apply = (source: string) => {
+    setText(source);
+    try {
+      const expr = parseExpression(source);
+      const vars = variableCount(expr, 2);
+      setError(null);
+      setParsed(formatExpression(expr));
+      setProbe(0);
+      onApply(vars, expressionOutputs(expr, vars));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setParsed(null);
+    }
+  };
+
+  const zeros = outputs.flatMap((v, m) => (v === 0 ? [m] : []));
+  const inputBits = (c: NonNullable<typeof circuit>) =>
+    c.nodes.flatMap((n) => (n.kind === "input" ? [(probe >> (numVars - 1 - VARIABLE_NAMES.indexOf(n.name))) & 1] : []));
+  const values = circuit ? evaluateCircuit(circuit, inputBits(circuit)) : {};
+  const mismatches = circuit ? circuitMismatches(circuit, numVars, outputs) : [];
+  const counts = circuit ? gateCounts(circuit) : {};
+  const gateTotal = Object.values(counts).reduce((sum, n) => sum + (n ?? 0), 0);
+  const canvasHeight = circuit ? Math.max(160, ...circuit.nodes.map((n) => n.y + 90)) : 160;
+  const constant = minimal.ones.length === 0 ? 0 : 1;
+
+  return (
+    <div className="rounded-xl overflow-hidden" style={{ background: COLORS.card, border: `1px solid ${COLORS.border}` }}>
+      <div className="px-4 py-2.5 border-b flex items-center gap-2" style={{ borderColor: COLORS.border }}>
+        <Cpu size={14} style={{ color: COLORS.secondary }} />
+        <span className="text-sm font-semibold text-white">Expression Parser & Circuit Synthesis</span>
+        <span className="text-[10px] ml-auto font-mono" style={{ color: COLORS.muted }}>
+          variables A–H · NOT &apos; ! ~ · AND · * & · XOR ^ · OR + | · NAND · NOR
+        </span>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Expression entry and forms */}
+        <div className="space-y-3">
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              apply(text);
+            }}
+          >
+            <span className="font-mono text-sm" style={{ color: COLORS.muted }}>
+              F =
+            </span>
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              spellCheck={false}
+              placeholder={`e.g. ${EXPRESSION_EXAMPLES[0]}`}
+              aria-label="Boolean expression"
+              className="flex-1 px-3 py-1.5 rounded-lg font-mono text-sm text-white focus:outline-none"
+              style={{ background: "#0d0d14", border: `1px solid ${error ? COLORS.danger : COLORS.border}` }}
+            />
+            <button
+              type="submit"
+              className="px-3 py-1.5 rounded-lg text-xs font-medium"
+              style={{ background: `${COLORS.secondary}15`, color: COLORS.secondary, border: `1px solid ${COLORS.secondary}30` }}
+            >
+              Build Truth Table
+            </button>
+          </form>
+          <div className="flex flex-wrap gap-1.5">
+            {EXPRESSION_EXAMPLES.map((example) => (
+              <button
+                key={example}
+                onClick={() => apply(example)}
+                className="px-2 py-0.5 rounded-md font-mono text-[10px] transition-colors hover:text-white"
+                style={{ color: COLORS.muted, border: `1px solid ${COLORS.border}` }}
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+          {error && (
+            <div className="flex items-center gap-1.5 text-[11px]" style={{ color: COLORS.danger }}>
+              <XCircle size={12} /> {error}
+            </div>
+          )}
+          {parsed && !error && (
+            <div className="text-[11px] font-mono" style={{ color: COLORS.muted }}>
+              Parsed as <span style={{ color: "#e4e4e7" }}>{parsed}</span>
+            </div>
+          )}
+
+          <div className="space-y-2 text-[11px] font-mono">
+            {[
+              { label: "Minterms", value: `Σm(${minimal.ones.join(", ")})${minimal.dontCares.length ? ` + d(${minimal.dontCares.join(", ")})` : ""}` },
+              { label: "Maxterms", value: `ΠM(${zeros.join(", ")})${minimal.dontCares.length ? ` · D(${minimal.dontCares.join(", ")})` : ""}` },
+              { label: "Minimal SOP", value: `F = ${sopExpression(minimal.sop.cover, names)}`, color: COLORS.success },
+              { label: "Minimal POS", value: `F = ${posExpression(minimal.pos.cover, names)}`, color: COLORS.success },
+            ].map((row) => (
+              <div key={row.label} className="flex items-start gap-3">
+                <span className="w-24 flex-shrink-0 font-sans" style={{ color: COLORS.muted }}>
+                  {row.label}
+                </span>
+                <span className="break-all" style={{ color: row.color ?? "#e4e4e7" }}>
+                  {row.value}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Synthesized circuit */}
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-1 p-1 rounded-lg w-fit" style={{ background: "#0d0d14" }}>
+            {SYNTHESIS_STYLES.map((s) => (
+              <button
+                key={s}
+                onClick={() => setStyle(s)}
+                className="px-3 py-1 rounded-md text-xs font-medium transition-all duration-200"
+                style={{
+                  background: style === s ? `${COLORS.stone}20` : "transparent",
+                  color: style === s ? "#ffffff" : COLORS.muted,
+                  border: style === s ? `1px solid ${COLORS.stone}40` : "1px solid transparent",
+                }}
+              >
+                {STYLE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+          {circuit ? (
+            <>
+              <SchematicEditor
+                circuit={circuit}
+                values={values}
+                width={700}
+                height={canvasHeight}
+                onToggleInput={(id) => {
+                  const node = circuit.nodes.find((n) => n.id === id);
+                  if (node?.kind === "input") setProbe((p) => p ^ (1 << (numVars - 1 - VARIABLE_NAMES.indexOf(node.name))));
+                }}
+              />
+              <div className="flex flex-wrap items-center gap-3 text-[10px]">
+                <span className="font-mono" style={{ color: "#e4e4e7" }}>
+                  {gateTotal} gates ({Object.entries(counts).map(([g, n]) => `${n} ${g}`).join(", ")})
+                </span>
+                <span
+                  className="flex items-center gap-1"
+                  style={{ color: mismatches.length === 0 ? COLORS.success : COLORS.danger }}
+                >
+                  {mismatches.length === 0 ? <CheckCircle2 size={11} /> : <XCircle size={11} />}
+                  {mismatches.length === 0
+                    ? "Circuit matches the truth table"
+                    : `Circuit differs at ${mismatches.map((m) => `m${m}`).join(", ")}`}
+                </span>
+                <span style={{ color: COLORS.muted }}>Click an input to probe m{probe}</span>
+              </div>
+              <div className="text-[10px] leading-relaxed" style={{ color: "#a1a1aa" }}>
+                {STYLE_NOTES[style]}
+              </div>
+            </>
+          ) : (
+            <div className="text-xs p-3 rounded-lg" style={{ color: COLORS.muted, background: "rgba(30,30,46,0.3)" }}>
+              F is always {constant}: tie the output to {constant ? "the supply" : "ground"}, no gates needed.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── Main Component ───────────────────────────────────────────────────────────
 
 export default function BooleanAlgebraPage() {
@@ -947,6 +1678,7 @@ export default function BooleanAlgebraPage() {
 
   // ── Minimization state ──────────────────────────────────────────────────────
   const [simplificationSteps, setSimplificationSteps] = useState<SimplificationStep[]>([]);
+  const [qmStage, setQmStage] = useState(0);
 
   // ── Refs ────────────────────────────────────────────────────────────────────
   const isPlayingRef = useRef(false);
@@ -958,19 +1690,40 @@ export default function BooleanAlgebraPage() {
   useEffect(() => { speedRef.current = speed; }, [speed]);
 
   // ── Derived data ────────────────────────────────────────────────────────────
-  const groups = findKMapGroups(outputs, numVars);
+  const groups = numVars <= KMAP_MAX_VARS ? findKMapGroups(outputs, numVars) : [];
   const mintermCount = outputs.filter((o) => o === 1).length;
+  const qm = useMemo(
+    () => (mode === "quine-mccluskey" ? analyzeQm(outputs, numVars) : null),
+    [mode, outputs, numVars]
+  );
+  const qmPhaseCount = qm ? qmPhases(qm.sop).length : 0;
+  const showingRows = mode === "truth-table" || (mode === "karnaugh-map" && autoPlayPhase === 0);
+  const stepDescription =
+    stepCount === 0
+      ? undefined
+      : mode === "quine-mccluskey" && qm && qmStage > 0
+        ? QM_PHASE_LABELS[qmPhases(qm.sop)[qmStage - 1]]
+        : mode === "minimization" && visibleStepCount > 0
+          ? `${simplificationSteps[visibleStepCount - 1].law}: ${simplificationSteps[visibleStepCount - 1].expression}`
+          : mode === "karnaugh-map" && visibleGroupCount > 0
+            ? `Group ${visibleGroupCount} of ${groups.length}: ${groups[visibleGroupCount - 1].term}`
+            : showingRows && highlightRow >= 0
+              ? `Row ${bitsToStr(highlightRow, numVars)} outputs ${outputs[highlightRow]}`
+              : undefined;
   const scenario = SCENARIOS.find((s) => s.key === selectedScenario)!;
 
   // ── Handlers ────────────────────────────────────────────────────────────────
   const handleToggleOutput = useCallback((idx: number) => {
     setOutputs((prev) => {
       const next = [...prev];
-      next[idx] = next[idx] === 1 ? 0 : 1;
+      // Quine-McCluskey cycles 0 → 1 → X; the other modes have no don't-cares
+      if (mode === "quine-mccluskey") next[idx] = next[idx] === 0 ? 1 : next[idx] === 1 ? DONT_CARE : 0;
+      else next[idx] = next[idx] === 1 ? 0 : 1;
       return next;
     });
     setVisibleGroupCount(0);
-  }, []);
+    setQmStage(0);
+  }, [mode]);
 
   const handleNumVarsChange = useCallback((nv: number) => {
     setNumVars(nv);
@@ -979,12 +1732,21 @@ export default function BooleanAlgebraPage() {
     setVisibleGroupCount(0);
     setVisibleStepCount(0);
     setHighlightRow(-1);
+    setQmStage(0);
   }, []);
 
   const handleModeChange = useCallback((m: ModeType) => {
     setMode(m);
+    setQmStage(0);
+    let current = outputs;
+    if (m !== "quine-mccluskey") {
+      // Only Quine-McCluskey handles more than four variables or don't-cares
+      current = numVars > KMAP_MAX_VARS ? new Array(2 ** KMAP_MAX_VARS).fill(0) : outputs.map((v) => (v === DONT_CARE ? 0 : v));
+      if (numVars > KMAP_MAX_VARS) setNumVars(KMAP_MAX_VARS);
+      setOutputs(current);
+    }
     if (m === "minimization") {
-      const expression = outputsToSOP(outputs, numVars);
+      const expression = outputsToSOP(current, Math.min(numVars, KMAP_MAX_VARS));
       if (selectedScenario === "demorgan") {
         setSimplificationSteps(generateSimplificationSteps("(A'B')' + AB'"));
       } else {
@@ -1036,6 +1798,18 @@ export default function BooleanAlgebraPage() {
       return false;
     }
 
+    if (mode === "quine-mccluskey") {
+      // Reveal tabulation columns, then the chart, its reduction, Petrick's method and the result
+      if (qmStage < qmPhaseCount) {
+        setQmStage((prev) => prev + 1);
+        setStepCount((prev) => prev + 1);
+        return true;
+      }
+      setIsComplete(true);
+      setIsPlaying(false);
+      return false;
+    }
+
     if (mode === "minimization") {
       // Reveal simplification steps
       if (visibleStepCount < simplificationSteps.length) {
@@ -1049,7 +1823,7 @@ export default function BooleanAlgebraPage() {
     }
 
     return false;
-  }, [mode, numVars, highlightRow, autoPlayPhase, visibleGroupCount, groups.length, visibleStepCount, simplificationSteps.length]);
+  }, [mode, numVars, highlightRow, autoPlayPhase, visibleGroupCount, groups.length, visibleStepCount, simplificationSteps.length, qmStage, qmPhaseCount]);
 
   // ── Animation loop ──────────────────────────────────────────────────────────
   const animationLoop = useCallback(
@@ -1093,6 +1867,7 @@ export default function BooleanAlgebraPage() {
     handlePause();
     setVisibleGroupCount(0);
     setVisibleStepCount(0);
+    setQmStage(0);
     setAutoPlayPhase(0);
     setHighlightRow(-1);
     setStepCount(0);
@@ -1121,6 +1896,7 @@ export default function BooleanAlgebraPage() {
     }
     setVisibleGroupCount(0);
     setVisibleStepCount(0);
+    setQmStage(0);
     setAutoPlayPhase(0);
     setHighlightRow(-1);
     setStepCount(0);
@@ -1128,6 +1904,24 @@ export default function BooleanAlgebraPage() {
     handlePause();
   }, [handlePause]);
 
+  useScenarioParam(SCENARIOS.map((s) => s.key), handleScenarioChange);
+
+  const handleApplyExpression = useCallback((nv: number, next: number[]) => {
+    handlePause();
+    // K-maps and the truth table view stop at four variables
+    if (nv > KMAP_MAX_VARS) setMode("quine-mccluskey");
+    else if (mode === "minimization") setMode("karnaugh-map");
+    setNumVars(nv);
+    setOutputs(next);
+    setVisibleGroupCount(0);
+    setVisibleStepCount(0);
+    setQmStage(0);
+    setAutoPlayPhase(0);
+    setHighlightRow(-1);
+    setStepCount(0);
+    setIsComplete(false);
+  }, [handlePause, mode]);
+
   // ── Render ──────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen" style={{ background: COLORS.bg }}>
@@ -1137,6 +1931,7 @@ export default function BooleanAlgebraPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ──────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1160,8 +1955,10 @@ export default function BooleanAlgebraPage() {
             <p className="text-sm text-[#a1a1aa] max-w-2xl">
               Explore truth tables, Karnaugh maps, and boolean expression minimization.
               Build boolean functions interactively, watch optimal groupings form, and
-              see step-by-step simplification using algebraic laws.
+              see step-by-step simplification using algebraic laws, or run the
+              Quine-McCluskey method on up to eight variables with don&apos;t-cares.
             </p>
+            <ModuleLinks moduleId="16.1" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1217,7 +2014,7 @@ export default function BooleanAlgebraPage() {
             {mode !== "minimization" && (
               <div className="flex items-center gap-2">
                 <span className="text-xs" style={{ color: COLORS.muted }}>Variables:</span>
-                {[2, 3, 4].map((n) => (
+                {(mode === "quine-mccluskey" ? [2, 3, 4, 5, 6, 7, 8] : [2, 3, 4]).map((n) => (
                   <button
                     key={n}
                     onClick={() => handleNumVarsChange(n)}
@@ -1237,8 +2034,9 @@ export default function BooleanAlgebraPage() {
             {mode !== "minimization" && (
               <button
                 onClick={() => {
-                  setOutputs(generateRandomOutputs(numVars));
+                  setOutputs(generateRandomOutputs(numVars, mode === "quine-mccluskey"));
                   setVisibleGroupCount(0);
+                  setQmStage(0);
                 }}
                 className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
                 style={{
@@ -1289,6 +2087,10 @@ export default function BooleanAlgebraPage() {
                 />
               )}
 
+              {mode === "quine-mccluskey" && qm && (
+                <QuineMcCluskeyView analysis={qm} numVars={numVars} stage={qmStage} />
+              )}
+
               {/* Metrics overlay */}
               <AnimatePresence>
                 {showMetrics && (
@@ -1311,12 +2113,29 @@ export default function BooleanAlgebraPage() {
                       value={mintermCount}
                       color={COLORS.success}
                     />
-                    <MetricBadge
-                      icon={<Grid3X3 size={12} />}
-                      label="Groups"
-                      value={`${visibleGroupCount}/${groups.length}`}
-                      color={COLORS.secondary}
-                    />
+                    {qm ? (
+                      <MetricBadge
+                        icon={<Columns3 size={12} />}
+                        label="Primes"
+                        value={qm.sop.chart.primes.length}
+                        color={COLORS.secondary}
+                      />
+                    ) : (
+                      <MetricBadge
+                        icon={<Grid3X3 size={12} />}
+                        label="Groups"
+                        value={`${visibleGroupCount}/${groups.length}`}
+                        color={COLORS.secondary}
+                      />
+                    )}
+                    {qm && qm.dontCares.length > 0 && (
+                      <MetricBadge
+                        icon={<ToggleLeft size={12} />}
+                        label="Don't Cares"
+                        value={qm.dontCares.length}
+                        color={COLORS.accent}
+                      />
+                    )}
                     <MetricBadge
                       icon={<Activity size={12} />}
                       label="Steps"
@@ -1353,7 +2172,7 @@ export default function BooleanAlgebraPage() {
                 outputs={outputs}
                 numVars={numVars}
                 groups={groups}
-                visibleGroupCount={visibleGroupCount}
+                visibleGroupCount={qm ? 0 : visibleGroupCount}
               />
 
               {/* Boolean algebra laws reference */}
@@ -1411,6 +2230,32 @@ export default function BooleanAlgebraPage() {
                 </div>
               )}
 
+              {/* Quine-McCluskey explanation */}
+              {mode === "quine-mccluskey" && (
+                <div
+                  className="rounded-xl p-3"
+                  style={{
+                    background: `${COLORS.secondary}08`,
+                    border: `1px solid ${COLORS.secondary}20`,
+                  }}
+                >
+                  <div className="flex items-start gap-2">
+                    <Info size={14} className="mt-0.5 flex-shrink-0" style={{ color: COLORS.secondary }} />
+                    <div>
+                      <span className="text-xs font-semibold text-white block mb-1">Quine-McCluskey Steps</span>
+                      <ol className="text-[10px] leading-relaxed space-y-0.5 list-decimal list-inside" style={{ color: "#a1a1aa" }}>
+                        <li>Group minterms and don&apos;t-cares by their number of 1s</li>
+                        <li>Merge terms in neighbouring groups that differ in one bit</li>
+                        <li>Repeat until nothing merges; unmerged terms are prime</li>
+                        <li>Take the essential primes from the chart</li>
+                        <li>Drop dominated rows and columns</li>
+                        <li>Solve any cyclic core with Petrick&apos;s method</li>
+                      </ol>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Interactive hint */}
               <div
                 className="rounded-xl p-3"
@@ -1426,6 +2271,7 @@ export default function BooleanAlgebraPage() {
                     <span className="text-[10px] leading-relaxed" style={{ color: "#a1a1aa" }}>
                       Click any output cell in the truth table or K-map to toggle between 0 and 1.
                       The boolean expression and K-map groupings will update automatically.
+                      {mode === "quine-mccluskey" && " In Quine-McCluskey mode outputs cycle through 0, 1 and X (don't-care)."}
                     </span>
                   </div>
                 </div>
@@ -1433,6 +2279,16 @@ export default function BooleanAlgebraPage() {
             </div>
           </motion.div>
 
+          {/* ── Expression parser and synthesis ────────────────────────── */}
+          <motion.div
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.25, ease: [0.23, 1, 0.32, 1] }}
+            className="mb-4"
+          >
+            <ExpressionSynthesisPanel numVars={numVars} outputs={outputs} onApply={handleApplyExpression} />
+          </motion.div>
+
           {/* ── Controls panel ──────────────────────────────────────────── */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -1441,6 +2297,8 @@ export default function BooleanAlgebraPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: selectedScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1449,6 +2307,7 @@ export default function BooleanAlgebraPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             >
               <AnimatePresence>
                 {isComplete && (
@@ -1464,7 +2323,13 @@ export default function BooleanAlgebraPage() {
                   >
                     <div className="w-1.5 h-1.5 rounded-full bg-[#10b981]" />
                     <span className="text-xs font-medium text-[#10b981]">
-                      {mode === "karnaugh-map" ? "All groups found" : mode === "minimization" ? "Simplification complete" : "All rows shown"}
+                      {mode === "karnaugh-map"
+                        ? "All groups found"
+                        : mode === "minimization"
+                          ? "Simplification complete"
+                          : mode === "quine-mccluskey"
+                            ? "Minimal cover found"
+                            : "All rows shown"}
                     </span>
                   </motion.div>
                 )}
@@ -18,7 +18,9 @@ import {
   Binary,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -602,85 +604,64 @@ function CoordinatePlane({
           margin: "16px auto",
         }}
       >
-        {/* Grid lines */}
-        {Array.from({ length: GRID_RANGE * 2 + 1 }, (_, i) => {
-          const val = i - GRID_RANGE;
-          const pos = ORIGIN + val * SCALE_FACTOR;
-          const isAxis = val === 0;
-
-          return (
-            <div key={`grid-${i}`}>
-              {/* Vertical line */}
-              <div
-                className="absolute top-0"
-                style={{
-                  left: `${pos}px`,
-                  width: isAxis ? "1.5px" : "1px",
-                  height: `${VIEW_SIZE}px`,
-                  backgroundColor: isAxis ? "#2a2a3e" : "#151520",
-                }}
-              />
-              {/* Horizontal line */}
-              <div
-                className="absolute left-0"
-                style={{
-                  top: `${pos}px`,
-                  height: isAxis ? "1.5px" : "1px",
-                  width: `${VIEW_SIZE}px`,
-                  backgroundColor: isAxis ? "#2a2a3e" : "#151520",
-                }}
-              />
-
-              {/* Axis labels */}
-              {val !== 0 && (
-                <>
-                  <div
-                    className="absolute text-[8px] font-mono"
-                    style={{
-                      left: `${pos - 4}px`,
-                      top: `${ORIGIN + 4}px`,
-                      color: COLORS.muted,
-                    }}
-                  >
-                    {val}
-                  </div>
-                  <div
-                    className="absolute text-[8px] font-mono"
-                    style={{
-                      left: `${ORIGIN + 4}px`,
-                      top: `${ORIGIN - val * SCALE_FACTOR - 4}px`,
-                      color: COLORS.muted,
-                    }}
-                  >
-                    {val}
-                  </div>
-                </>
-              )}
-            </div>
-          );
-        })}
-
-        {/* Axis labels */}
-        <div
-          className="absolute text-[10px] font-mono font-bold"
-          style={{ right: "4px", top: `${ORIGIN - 14}px`, color: COLORS.muted }}
-        >
-          x
-        </div>
-        <div
-          className="absolute text-[10px] font-mono font-bold"
-          style={{ left: `${ORIGIN + 6}px`, top: "2px", color: COLORS.muted }}
-        >
-          y
-        </div>
-
-        {/* SVG overlay for shapes and vectors */}
+        {/* Plane: grid, axes, shapes and vectors */}
         <svg
+          data-export="coordinate-plane"
           className="absolute top-0 left-0"
           width={VIEW_SIZE}
           height={VIEW_SIZE}
           style={{ pointerEvents: "none" }}
         >
+          {/* Grid lines */}
+          {Array.from({ length: GRID_RANGE * 2 + 1 }, (_, i) => {
+            const val = i - GRID_RANGE;
+            const pos = ORIGIN + val * SCALE_FACTOR;
+            const isAxis = val === 0;
+            const stroke = isAxis ? "#2a2a3e" : "#151520";
+            const strokeWidth = isAxis ? 1.5 : 1;
+
+            return (
+              <g key={`grid-${i}`}>
+                <line x1={pos} y1={0} x2={pos} y2={VIEW_SIZE} stroke={stroke} strokeWidth={strokeWidth} />
+                <line x1={0} y1={pos} x2={VIEW_SIZE} y2={pos} stroke={stroke} strokeWidth={strokeWidth} />
+
+                {/* Axis labels */}
+                {val !== 0 && (
+                  <>
+                    <text x={pos - 4} y={ORIGIN + 12} fontSize={8} className="font-mono" fill={COLORS.muted}>
+                      {val}
+                    </text>
+                    <text
+                      x={ORIGIN + 4}
+                      y={ORIGIN - val * SCALE_FACTOR + 4}
+                      fontSize={8}
+                      className="font-mono"
+                      fill={COLORS.muted}
+                    >
+                      {val}
+                    </text>
+                  </>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Axis names */}
+          <text
+            x={VIEW_SIZE - 4}
+            y={ORIGIN - 4}
+            textAnchor="end"
+            fontSize={10}
+            fontWeight="bold"
+            className="font-mono"
+            fill={COLORS.muted}
+          >
+            x
+          </text>
+          <text x={ORIGIN + 6} y={12} fontSize={10} fontWeight="bold" className="font-mono" fill={COLORS.muted}>
+            y
+          </text>
+
           {/* Transformed grid lines (subtle) */}
           {Array.from({ length: GRID_RANGE * 2 + 1 }, (_, i) => {
             const val = i - GRID_RANGE;
@@ -1056,6 +1037,14 @@ export default function LinearAlgebraPage() {
   const det = determinant(effectiveMatrix);
   const eigenvalues = computeEigenvalues(effectiveMatrix);
   const eigenvectors = computeEigenvectors(effectiveMatrix);
+  const stepDescription =
+    stepCount === 0
+      ? undefined
+      : isComplete
+        ? `${scenario.label} complete, determinant ${formatNum(det)}`
+        : isComposition
+          ? `Applying ${transform.type}, transform ${autoScenarioStep + 1} of ${scenario.transforms.length}`
+          : `Applying ${transform.type}`;
 
   // ── Step forward ────────────────────────────────────────────────────────────
   const stepForward = useCallback(() => {
@@ -1174,6 +1163,8 @@ export default function LinearAlgebraPage() {
     [handlePause]
   );
 
+  useScenarioParam(SCENARIOS.map((s) => s.key), handleScenarioChange);
+
   // When transform changes via controls, reset animation
   const handleTransformChange = useCallback((t: TransformState) => {
     setTransform(t);
@@ -1190,6 +1181,7 @@ export default function LinearAlgebraPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ──────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1215,6 +1207,7 @@ export default function LinearAlgebraPage() {
               space by watching basis vectors, the unit square, and eigenvectors respond to
               rotations, scaling, shearing, and reflections.
             </p>
+            <ModuleLinks moduleId="16.4" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1470,6 +1463,8 @@ export default function LinearAlgebraPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: selectedScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1478,6 +1473,7 @@ export default function LinearAlgebraPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             >
               <AnimatePresence>
                 {isComplete && (
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
+  AlertTriangle,
   Binary,
   ChevronDown,
   Cpu,
@@ -16,11 +17,35 @@ import {
   Zap,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
+import { useScenarioParam } from '@/hooks/useShareState';
+import {
+  MIPS_INSTRUCTIONS,
+  MIPS_PSEUDO_INSTRUCTIONS,
+  TEXT_BASE,
+  assemble,
+  disassemble,
+  parseMachineWords,
+  type AssembledInstruction,
+  type AssemblyDiagnostic,
+} from '@/lib/sim/mips';
+import {
+  RISCV_FIELD_LAYOUT,
+  RISCV_INSTRUCTIONS,
+  RISCV_REGISTERS,
+  disassembleRiscv,
+  encodeRiscv,
+  immediateBits,
+  unpackImmediate,
+} from '@/lib/sim/riscv';
 
 // ──────────────────────────── Types ────────────────────────────
 
-type InstructionFormat = 'R' | 'I' | 'J';
+type Isa = 'mips' | 'riscv';
+
+// MIPS uses R, I and J; RV32I adds S, B and U and lays R, I and J out differently
+type InstructionFormat = 'R' | 'I' | 'S' | 'B' | 'U' | 'J';
 
 interface FieldDef {
   name: string;
@@ -69,8 +94,26 @@ const FIELD_COLORS: Record<string, string> = {
   funct: '#a855f7',
   immediate: '#f59e0b',
   address: '#06b6d4',
+  rs1: '#6366f1',
+  rs2: '#06b6d4',
+  funct3: '#a855f7',
+  funct7: '#d946ef',
+};
+
+const FORMAT_COLORS: Record<InstructionFormat, string> = {
+  R: '#10b981',
+  I: '#f59e0b',
+  S: '#ec4899',
+  B: '#8b5cf6',
+  U: '#6366f1',
+  J: '#06b6d4',
 };
 
+/** RISC-V immediate pieces are named imm[…] and share the immediate color. */
+function fieldColor(name: string): string {
+  return FIELD_COLORS[name] ?? (name.startsWith('imm') ? FIELD_COLORS.immediate : '#71717a');
+}
+
 const R_TYPE_FIELDS: FieldDef[] = [
   { name: 'opcode', bits: 6, bitRange: [31, 26], color: FIELD_COLORS.opcode, description: 'Operation code (000000 for R-type)' },
   { name: 'rs', bits: 5, bitRange: [25, 21], color: FIELD_COLORS.rs, description: 'First source register' },
@@ -92,12 +135,42 @@ const J_TYPE_FIELDS: FieldDef[] = [
   { name: 'address', bits: 26, bitRange: [25, 0], color: FIELD_COLORS.address, description: '26-bit jump target address' },
 ];
 
-const FORMAT_FIELDS: Record<InstructionFormat, FieldDef[]> = {
+const FORMAT_FIELDS: Record<'R' | 'I' | 'J', FieldDef[]> = {
   R: R_TYPE_FIELDS,
   I: I_TYPE_FIELDS,
   J: J_TYPE_FIELDS,
 };
 
+const RISCV_FIELD_DESCRIPTIONS: Record<string, string> = {
+  funct7: 'Second function code (ADD vs SUB, SRL vs SRA)',
+  rs2: 'Second source register, same bits in R, S and B',
+  rs1: 'First source register / base address, same bits in every format',
+  funct3: 'Function code selecting the operation within the opcode',
+  rd: 'Destination register, same bits in every format that writes one',
+  opcode: 'Operation code (7 bits, always bits 6:0)',
+  'imm[11:0]': '12-bit signed immediate, sign in bit 31',
+  'imm[11:5]': 'Upper 7 immediate bits, sign in bit 31',
+  'imm[4:0]': 'Lower 5 immediate bits, in the slot rd uses elsewhere',
+  'imm[12|10:5]': 'Sign bit 12, then bits 10:5 of the branch offset',
+  'imm[4:1|11]': 'Offset bits 4:1, then bit 11; bit 0 is always 0',
+  'imm[31:12]': 'Upper 20 bits of the value; the low 12 are zero',
+  'imm[20|10:1|11|19:12]': 'Sign bit 20, bits 10:1, bit 11, then bits 19:12; bit 0 is always 0',
+};
+
+const RISCV_FORMAT_FIELDS: Record<InstructionFormat, FieldDef[]> = Object.fromEntries(
+  (Object.entries(RISCV_FIELD_LAYOUT) as [InstructionFormat, [string, number][]][]).map(([format, layout]) => {
+    const highs = layout.map((_, i) => 31 - layout.slice(0, i).reduce((sum, [, bits]) => sum + bits, 0));
+    const fields = layout.map(([name, bits], i): FieldDef => ({
+      name,
+      bits,
+      bitRange: [highs[i], highs[i] - bits + 1],
+      color: fieldColor(name),
+      description: RISCV_FIELD_DESCRIPTIONS[name],
+    }));
+    return [format, fields];
+  })
+) as Record<InstructionFormat, FieldDef[]>;
+
 const REGISTER_MAP: Record<string, string> = {
   '$zero': '00000', '$at': '00001',
   '$v0': '00010', '$v1': '00011',
@@ -241,17 +314,35 @@ const INSTRUCTIONS: Record<string, InstructionDef> = {
   },
 };
 
-function getFieldsForFormat(format: InstructionFormat): FieldDef[] {
-  return FORMAT_FIELDS[format];
+function getFieldsForFormat(format: InstructionFormat, isa: Isa = 'mips'): FieldDef[] {
+  return isa === 'riscv' ? RISCV_FORMAT_FIELDS[format] : FORMAT_FIELDS[format as 'R' | 'I' | 'J'];
 }
 
-function instructionToBinary(instr: InstructionDef): string {
-  const fields = getFieldsForFormat(instr.format);
+function instructionToBinary(instr: InstructionDef, isa: Isa = 'mips'): string {
+  const fields = getFieldsForFormat(instr.format, isa);
   return fields.map(f => instr.fields[f.name] || '0'.repeat(f.bits)).join('');
 }
 
-function binaryToGrouped(binary: string, format: InstructionFormat): { value: string; color: string; name: string }[] {
-  const fields = getFieldsForFormat(format);
+/** An RV32I instruction in the encoder's field-by-field form, encoded by the engine. */
+function riscvInstruction(assembly: string): InstructionDef {
+  const decoded = disassembleRiscv(encodeRiscv(assembly));
+  const spec = RISCV_INSTRUCTIONS[decoded.mnemonic!];
+  const fields = Object.fromEntries(
+    binaryToGrouped(toBinaryWord(decoded.word), spec.format, 'riscv').map((g) => [g.name, g.value])
+  );
+  return {
+    mnemonic: spec.mnemonic,
+    format: spec.format,
+    opcode: fields.opcode,
+    funct: fields.funct3,
+    assembly,
+    fields,
+    description: spec.name,
+  };
+}
+
+function binaryToGrouped(binary: string, format: InstructionFormat, isa: Isa = 'mips'): { value: string; color: string; name: string }[] {
+  const fields = getFieldsForFormat(format, isa);
   const groups: { value: string; color: string; name: string }[] = [];
   let offset = 0;
   for (const field of fields) {
@@ -270,6 +361,7 @@ function binaryToGrouped(binary: string, format: InstructionFormat): { value: st
 interface Scenario {
   label: string;
   desc: string;
+  isa: Isa;
   instructions: string[];
   mode: AnimationMode;
 }
@@ -278,65 +370,767 @@ const PRESET_SCENARIOS: Record<string, Scenario> = {
   r_type: {
     label: 'R-Type Arithmetic',
     desc: 'Encode R-type instructions: ADD, SUB, AND, OR',
+    isa: 'mips',
     instructions: ['ADD $t0, $t1, $t2', 'SUB $t0, $t1, $t2', 'AND $t0, $t1, $t2', 'OR $t0, $t1, $t2'],
     mode: 'encode',
   },
   i_type: {
     label: 'I-Type Load/Store',
     desc: 'Encode I-type instructions: LW, SW, ADDI, BEQ',
+    isa: 'mips',
     instructions: ['LW $t0, 4($t1)', 'SW $t0, 8($t1)', 'ADDI $t0, $t1, 10', 'BEQ $t0, $t1, 3'],
     mode: 'encode',
   },
   j_type: {
     label: 'J-Type Jump',
     desc: 'Encode J-type instructions: J, JAL',
+    isa: 'mips',
     instructions: ['J 1024', 'JAL 2048', 'ADD $t0, $t1, $t2', 'BEQ $t0, $t1, 3'],
     mode: 'encode',
   },
   full_program: {
     label: 'Full Program',
     desc: 'A mixed program with all instruction formats',
+    isa: 'mips',
     instructions: ['ADDI $t0, $t1, 10', 'ADD $t0, $t1, $t2', 'SW $t0, 8($t1)', 'LW $t0, 4($t1)', 'BEQ $t0, $t1, 3', 'J 1024'],
     mode: 'encode',
   },
   decode_r: {
     label: 'Decode R-Type',
     desc: 'Decode binary R-type instructions back to assembly',
+    isa: 'mips',
     instructions: ['ADD $t0, $t1, $t2', 'SLT $t0, $t1, $t2'],
     mode: 'decode',
   },
   decode_mixed: {
     label: 'Decode Mixed',
     desc: 'Decode a mix of binary instructions',
+    isa: 'mips',
     instructions: ['LW $t0, 4($t1)', 'ADD $t0, $t1, $t2', 'J 1024', 'BNE $t0, $t1, 5'],
     mode: 'decode',
   },
+  rv_r_type: {
+    label: 'R-Type Arithmetic',
+    desc: 'Encode RV32I R-type instructions: the same ADD, SUB, AND, OR as the MIPS preset',
+    isa: 'riscv',
+    instructions: ['add t0, t1, t2', 'sub t0, t1, t2', 'and t0, t1, t2', 'or t0, t1, t2'],
+    mode: 'encode',
+  },
+  rv_i_type: {
+    label: 'I-Type & Loads',
+    desc: 'Encode 12-bit immediates: ADDI, LW, SRAI, JALR',
+    isa: 'riscv',
+    instructions: ['addi t0, t1, 10', 'lw t0, 4(t1)', 'srai t0, t1, 3', 'jalr zero, 0(ra)'],
+    mode: 'encode',
+  },
+  rv_s_b_type: {
+    label: 'S/B-Type Scrambled',
+    desc: 'Encode stores and branches, whose immediates are split around rd\'s slot',
+    isa: 'riscv',
+    instructions: ['sw t0, 8(t1)', 'sw ra, -4(sp)', 'beq t0, t1, 12', 'bne t0, zero, -8'],
+    mode: 'encode',
+  },
+  rv_u_j_type: {
+    label: 'U/J-Type',
+    desc: 'Encode 20-bit immediates: LUI, AUIPC and the rotated JAL offset',
+    isa: 'riscv',
+    instructions: ['lui t0, 0x12345', 'auipc gp, 0x10', 'jal ra, 2048', 'jal zero, -16'],
+    mode: 'encode',
+  },
+  rv_decode: {
+    label: 'Decode RV32I',
+    desc: 'Decode a mix of RV32I words, reading the opcode in bits 6:0 first',
+    isa: 'riscv',
+    instructions: ['lw a0, 0(sp)', 'add a0, a0, a1', 'blt a0, a1, -4', 'jal ra, 64'],
+    mode: 'decode',
+  },
 };
 
 // ──────────────────────────── Field Education Info ────────────────────────────
 
-const FORMAT_INFO: Record<InstructionFormat, { title: string; description: string; usage: string }> = {
-  R: {
-    title: 'R-Type (Register)',
-    description: 'Used for arithmetic and logical operations between registers. All operands come from registers.',
-    usage: 'ADD, SUB, AND, OR, SLT, SLL, SRL',
+interface FormatInfo {
+  format: InstructionFormat;
+  title: string;
+  description: string;
+  usage: string;
+}
+
+const FORMAT_INFO: Record<Isa, FormatInfo[]> = {
+  mips: [
+    {
+      format: 'R',
+      title: 'R-Type (Register)',
+      description: 'Used for arithmetic and logical operations between registers. All operands come from registers.',
+      usage: 'ADD, SUB, AND, OR, SLT, SLL, SRL',
+    },
+    {
+      format: 'I',
+      title: 'I-Type (Immediate)',
+      description: 'Used for operations with a constant value, memory access (load/store), and conditional branches.',
+      usage: 'ADDI, LW, SW, BEQ, BNE, SLTI',
+    },
+    {
+      format: 'J',
+      title: 'J-Type (Jump)',
+      description: 'Used for unconditional jumps. Provides a 26-bit address field for the jump target.',
+      usage: 'J, JAL',
+    },
+  ],
+  riscv: [
+    {
+      format: 'R',
+      title: 'R-Type (Register)',
+      description: 'Register-register operations. funct3 and funct7 together select the operation.',
+      usage: 'add, sub, and, or, slt, sll, sra',
+    },
+    {
+      format: 'I',
+      title: 'I-Type (Immediate)',
+      description: 'A 12-bit signed immediate in bits 31:20. Covers ALU immediates, loads and JALR.',
+      usage: 'addi, andi, slli, lw, lbu, jalr',
+    },
+    {
+      format: 'S',
+      title: 'S-Type (Store)',
+      description: 'Stores read two registers and write none, so the immediate is split: imm[11:5] on top, imm[4:0] where rd would be.',
+      usage: 'sw, sh, sb',
+    },
+    {
+      format: 'B',
+      title: 'B-Type (Branch)',
+      description: 'Like S, but the offset counts bytes with bit 0 always 0. Bit 11 moves into bit 7 so bits 10:5 and 4:1 line up with S-type.',
+      usage: 'beq, bne, blt, bge, bltu, bgeu',
+    },
+    {
+      format: 'U',
+      title: 'U-Type (Upper)',
+      description: 'A 20-bit immediate for bits 31:12 of the result. Paired with addi to build any 32-bit constant.',
+      usage: 'lui, auipc',
+    },
+    {
+      format: 'J',
+      title: 'J-Type (Jump)',
+      description: 'A 21-bit PC-relative byte offset with bit 0 implied. It is rotated so bits 19:12 stay where U-type has them.',
+      usage: 'jal',
+    },
+  ],
+};
+
+// ──────────────────────────── Assembler ────────────────────────────
+
+const SAMPLE_PROGRAM = `# Sum an array, then flag whether the total is small
+        .data
+array:  .word 5, -2, 7, 40000
+count:  .word 4
+
+        .text
+main:   la   $t0, array        # lui + ori through $at
+        la   $t3, count
+        lw   $t1, 0($t3)
+        move $s0, $zero
+loop:   lw   $t2, 0($t0)
+        add  $s0, $s0, $t2
+        addi $t0, $t0, 4
+        addi $t1, $t1, -1
+        bne  $t1, $zero, loop  # PC-relative, backwards
+        li   $t4, 100000       # too wide for 16 bits: lui + ori
+        blt  $s0, $t4, small   # slt $at + bne
+        j    done
+small:  move $v0, $s0
+done:   jr   $ra`;
+
+const SAMPLE_WORDS: Record<Isa, string> = {
+  mips: `0x012A4020  # add
+0x8D280004  # lw
+0x1509FFFE  # bne, backwards
+0x3C011001  # lui
+0x08100000  # j
+0xFC000000  # unknown opcode`,
+  riscv: `0x007302B3  # add
+0x00812283  # lw
+0x00112623  # sw, split immediate
+0xFE029EE3  # bne, backwards
+0x12345537  # lui
+0x001000EF  # jal
+0x0000007F  # unknown opcode`,
+};
+
+function toHexWord(value: number): string {
+  return `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+function toBinaryWord(value: number): string {
+  return (value >>> 0).toString(2).padStart(32, '0');
+}
+
+/** Offset of a 1-based line and column in `text`, for placing the editor caret. */
+function caretOffset(text: string, line: number, column: number): number {
+  const lines = text.split('\n');
+  return lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) + column - 1;
+}
+
+/** An assembled word in the encoder's own field-by-field form. */
+function toProgramLine(instr: AssembledInstruction): ProgramLine {
+  const binary = toBinaryWord(instr.word);
+  const fields = Object.fromEntries(binaryToGrouped(binary, instr.format).map((g) => [g.name, g.value]));
+  const name = MIPS_INSTRUCTIONS[instr.mnemonic].name;
+  return {
+    address: instr.address,
+    binary,
+    instruction: {
+      mnemonic: instr.mnemonic.toUpperCase(),
+      format: instr.format,
+      opcode: fields.opcode,
+      funct: fields.funct,
+      assembly: instr.text,
+      fields,
+      description: instr.pseudo ? `${name} (from ${instr.source})` : name,
+    },
+  };
+}
+
+function EditorGutter({ lineCount, errorLines }: { lineCount: number; errorLines: Set<number> }) {
+  return (
+    <div className="select-none py-2 pl-3 pr-2 text-right border-r border-[#1e1e2e] text-[#3a3a4e]">
+      {Array.from({ length: lineCount }, (_, i) => (
+        <div key={i} style={{ color: errorLines.has(i + 1) ? '#ef4444' : undefined }}>
+          {i + 1}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DiagnosticList({ diagnostics, onSelect }: { diagnostics: AssemblyDiagnostic[]; onSelect: (d: AssemblyDiagnostic) => void }) {
+  if (diagnostics.length === 0) return null;
+  return (
+    <div className="border-t border-[#1e1e2e] divide-y divide-[#1e1e2e]">
+      {diagnostics.map((d, idx) => (
+        <button
+          key={idx}
+          onClick={() => onSelect(d)}
+          className="w-full flex items-start gap-2 px-4 py-1.5 text-left text-[11px] hover:bg-[#ef4444]/5 transition-colors duration-200"
+        >
+          <AlertTriangle size={12} className="text-[#ef4444] mt-0.5 flex-shrink-0" />
+          <span className="font-mono text-[#ef4444] flex-shrink-0">
+            {d.line}:{d.column}
+          </span>
+          <span className="text-[#a1a1aa]">{d.message}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ColoredBinary({ word, format }: { word: number; format: InstructionFormat }) {
+  return (
+    <span className="font-mono text-[10px] whitespace-nowrap">
+      {binaryToGrouped(toBinaryWord(word), format).map((g) => (
+        <span key={g.name} style={{ color: g.color }} title={g.name} className="mr-1 last:mr-0">
+          {g.value}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function AssemblerPanel({ onLoad }: { onLoad: (lines: ProgramLine[]) => void }) {
+  const [source, setSource] = useState(SAMPLE_PROGRAM);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const result = useMemo(() => assemble(source), [source]);
+  const lineCount = source.split('\n').length;
+  const errorLines = new Set(result.diagnostics.map((d) => d.line));
+  const canLoad = result.diagnostics.length === 0 && result.instructions.length > 0;
+
+  const selectDiagnostic = (d: AssemblyDiagnostic) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const offset = caretOffset(source, d.line, d.column);
+    editor.focus();
+    editor.setSelectionRange(offset, offset);
+  };
+
+  return (
+    <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-[#1e1e2e] flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Code2 size={14} className="text-[#8b5cf6]" />
+          <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
+            MIPS Assembler
+          </span>
+          <span
+            className="text-[10px] font-mono px-1.5 py-0.5 rounded"
+            style={{
+              backgroundColor: canLoad ? '#10b98115' : '#ef444415',
+              color: canLoad ? '#10b981' : '#ef4444',
+            }}
+          >
+            {result.diagnostics.length > 0
+              ? `${result.diagnostics.length} error${result.diagnostics.length === 1 ? '' : 's'}`
+              : `${result.instructions.length} words`}
+          </span>
+        </div>
+        <button
+          onClick={() => onLoad(result.instructions.map(toProgramLine))}
+          disabled={!canLoad}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[#8b5cf6]/15 text-[#8b5cf6] border border-[#8b5cf6]/30 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Load into encoder
+          <ArrowRight size={12} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2">
+        {/* ── Editor ── */}
+        <div className="border-b lg:border-b-0 lg:border-r border-[#1e1e2e]">
+          <div className="flex max-h-96 overflow-auto bg-[#0d0d14] font-mono text-xs leading-5">
+            <EditorGutter lineCount={lineCount} errorLines={errorLines} />
+            <textarea
+              ref={editorRef}
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              rows={lineCount}
+              wrap="off"
+              spellCheck={false}
+              aria-label="MIPS assembly source"
+              className="flex-1 min-w-0 py-2 px-3 bg-transparent text-[#e4e4e7] leading-5 resize-none overflow-y-hidden overflow-x-auto focus:outline-none"
+            />
+          </div>
+          <DiagnosticList diagnostics={result.diagnostics} onSelect={selectDiagnostic} />
+          <div className="px-4 py-3 border-t border-[#1e1e2e]">
+            <div className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium mb-2">
+              Pseudo-instructions
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+              {Object.entries(MIPS_PSEUDO_INSTRUCTIONS).map(([mnemonic, pseudo]) => (
+                <div key={mnemonic} className="text-[10px] font-mono">
+                  <span className="text-[#8b5cf6] font-bold">{mnemonic}</span>{' '}
+                  <span className="text-[#71717a]">{pseudo.operands.join(', ')}</span>
+                  <div className="text-[#3a3a4e] truncate" title={pseudo.expansion}>
+                    {pseudo.expansion}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* ── Output ── */}
+        <div className="max-h-[36rem] overflow-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-[#1e1e2e]">
+                <th className="px-3 py-2 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Address</th>
+                <th className="px-3 py-2 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Word</th>
+                <th className="px-3 py-2 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Instruction</th>
+                <th className="px-3 py-2 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Source</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#1e1e2e]">
+              {result.instructions.map((instr, idx) => {
+                const firstOfLine = idx === 0 || result.instructions[idx - 1].line !== instr.line;
+                const labels = Object.entries(result.labels).filter(([, addr]) => addr === instr.address);
+                return (
+                  <tr key={instr.address} className="hover:bg-[#16161f] align-top">
+                    <td className="px-3 py-1.5 font-mono text-[10px] text-[#71717a] whitespace-nowrap">
+                      {labels.map(([name]) => (
+                        <div key={name} className="text-[#10b981]">{name}:</div>
+                      ))}
+                      {toHexWord(instr.address)}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <div className="font-mono text-[10px] text-white">{toHexWord(instr.word)}</div>
+                      <ColoredBinary word={instr.word} format={instr.format} />
+                    </td>
+                    <td className="px-3 py-1.5 font-mono text-[11px] text-white whitespace-nowrap">{instr.text}</td>
+                    <td className="px-3 py-1.5 font-mono text-[10px] text-[#a1a1aa] whitespace-nowrap">
+                      {firstOfLine && (
+                        <span>
+                          <span className="text-[#3a3a4e] mr-1.5">{instr.line}</span>
+                          {instr.source}
+                          {instr.pseudo && (
+                            <span className="ml-1.5 px-1 py-0.5 rounded bg-[#8b5cf6]/15 text-[#8b5cf6] text-[9px] uppercase">
+                              pseudo
+                            </span>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {result.instructions.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-3 py-6 text-center text-[#71717a]">
+                    Nothing assembled yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {result.data.length > 0 && (
+            <div className="px-3 py-3 border-t border-[#1e1e2e]">
+              <div className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium mb-2">
+                Data Segment
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-1.5">
+                {result.data.map((d) => {
+                  const label = Object.entries(result.labels).find(([, addr]) => addr === d.address)?.[0];
+                  return (
+                    <div key={d.address} className="px-2 py-1 rounded bg-[#0d0d14] border border-[#1e1e2e] font-mono text-[10px]">
+                      <div className="text-[#71717a]">
+                        {label && <span className="text-[#10b981] mr-1">{label}:</span>}
+                        {toHexWord(d.address)}
+                      </div>
+                      <div className="text-white">{toHexWord(d.word)}</div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DisassemblerPanel({ isa }: { isa: Isa }) {
+  const [input, setInput] = useState(SAMPLE_WORDS[isa]);
+  const { words, diagnostics } = useMemo(() => parseMachineWords(input), [input]);
+
+  return (
+    <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center gap-2">
+        <Binary size={14} className="text-[#06b6d4]" />
+        <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
+          {isa === 'mips' ? 'MIPS' : 'RV32I'} Disassembler
+        </span>
+        <span className="text-[10px] text-[#71717a]">
+          hex or binary words, loaded from {toHexWord(TEXT_BASE)}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3">
+        <div className="border-b lg:border-b-0 lg:border-r border-[#1e1e2e]">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={8}
+            spellCheck={false}
+            aria-label="Machine words"
+            className="w-full h-full min-h-40 bg-[#0d0d14] text-[#e4e4e7] text-xs font-mono leading-5 p-3 resize-none focus:outline-none"
+          />
+          <DiagnosticList diagnostics={diagnostics} onSelect={() => {}} />
+        </div>
+        <div className="lg:col-span-2 divide-y divide-[#1e1e2e]">
+          {words.map((w, idx) => {
+            const address = TEXT_BASE + 4 * idx;
+            const decoded = isa === 'mips' ? disassemble(w.word, address) : disassembleRiscv(w.word, address);
+            return (
+              <div key={idx} className="px-4 py-2.5 flex flex-wrap items-center gap-x-4 gap-y-2">
+                <div className="font-mono text-[10px] text-[#71717a] w-20">
+                  {toHexWord(address)}
+                  <div className="text-white">{toHexWord(w.word)}</div>
+                </div>
+                <div className="flex items-stretch rounded overflow-hidden border border-[#1e1e2e]">
+                  {decoded.fields.map((field) => (
+                    <div
+                      key={field.name}
+                      className="px-1.5 py-1 text-center border-r last:border-r-0 border-[#1e1e2e]"
+                      style={{ backgroundColor: `${fieldColor(field.name)}10` }}
+                    >
+                      <div className="font-mono text-[10px]" style={{ color: fieldColor(field.name) }}>
+                        {field.value.toString(2).padStart(field.bits, '0')}
+                      </div>
+                      <div className="text-[9px] font-mono text-[#71717a]">
+                        {field.name}={field.value}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="font-mono text-xs">
+                  <span className={decoded.mnemonic ? 'text-white font-semibold' : 'text-[#ef4444]'}>
+                    {decoded.text}
+                  </span>
+                  {decoded.target !== undefined && (
+                    <span className="ml-2 text-[10px] text-[#71717a]">→ {toHexWord(decoded.target)}</span>
+                  )}
+                  {!decoded.mnemonic && (
+                    <div className="text-[10px] text-[#71717a]">No supported instruction has this opcode and function code</div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {words.length === 0 && (
+            <div className="px-4 py-6 text-center text-xs text-[#71717a]">Enter machine words to decode</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ──────────────────────────── RISC-V ────────────────────────────
+
+interface RegisterInfo {
+  name: string;
+  num: number;
+  desc: string;
+}
+
+const MIPS_REGISTER_INFO: RegisterInfo[] = [
+  { name: '$zero', num: 0, desc: 'Constant 0' },
+  { name: '$at', num: 1, desc: 'Assembler temp' },
+  { name: '$v0', num: 2, desc: 'Return value' },
+  { name: '$v1', num: 3, desc: 'Return value' },
+  { name: '$a0', num: 4, desc: 'Argument' },
+  { name: '$a1', num: 5, desc: 'Argument' },
+  { name: '$a2', num: 6, desc: 'Argument' },
+  { name: '$a3', num: 7, desc: 'Argument' },
+  { name: '$t0', num: 8, desc: 'Temporary' },
+  { name: '$t1', num: 9, desc: 'Temporary' },
+  { name: '$t2', num: 10, desc: 'Temporary' },
+  { name: '$t3', num: 11, desc: 'Temporary' },
+  { name: '$t4', num: 12, desc: 'Temporary' },
+  { name: '$t5', num: 13, desc: 'Temporary' },
+  { name: '$t6', num: 14, desc: 'Temporary' },
+  { name: '$t7', num: 15, desc: 'Temporary' },
+  { name: '$s0', num: 16, desc: 'Saved' },
+  { name: '$s1', num: 17, desc: 'Saved' },
+  { name: '$s2', num: 18, desc: 'Saved' },
+  { name: '$s3', num: 19, desc: 'Saved' },
+  { name: '$s4', num: 20, desc: 'Saved' },
+  { name: '$s5', num: 21, desc: 'Saved' },
+  { name: '$s6', num: 22, desc: 'Saved' },
+  { name: '$s7', num: 23, desc: 'Saved' },
+  { name: '$t8', num: 24, desc: 'Temporary' },
+  { name: '$t9', num: 25, desc: 'Temporary' },
+  { name: '$gp', num: 28, desc: 'Global ptr' },
+  { name: '$sp', num: 29, desc: 'Stack ptr' },
+  { name: '$fp', num: 30, desc: 'Frame ptr' },
+  { name: '$ra', num: 31, desc: 'Return addr' },
+];
+
+function riscvRegisterDesc(name: string): string {
+  if (name === 'zero') return 'Hard-wired 0';
+  if (name === 'ra') return 'Return addr';
+  if (name === 'sp') return 'Stack ptr';
+  if (name === 'gp') return 'Global ptr';
+  if (name === 'tp') return 'Thread ptr';
+  if (name === 's0') return 'Saved / frame ptr';
+  if (name === 'a0' || name === 'a1') return 'Arg / return';
+  return name.startsWith('a') ? 'Argument' : name.startsWith('s') ? 'Saved' : 'Temporary';
+}
+
+const RISCV_REGISTER_INFO: RegisterInfo[] = RISCV_REGISTERS.map((name, num) => ({ name, num, desc: riscvRegisterDesc(name) }));
+
+/**
+ * Gathers a RISC-V immediate back out of the instruction bits it was
+ * scattered into, highest immediate bit first, with the bits no format
+ * stores (bit 0 of branch and jump offsets, the low 12 of U-type) shown as
+ * the zeros the hardware wires in.
+ */
+function ImmediateScramble({ binary, format }: { binary: string; format: InstructionFormat }) {
+  const sources = immediateBits(format)
+    .map((immBit, instrBit) => ({ immBit, instrBit }))
+    .filter((e): e is { immBit: number; instrBit: number } => e.immBit !== null)
+    .sort((a, b) => b.immBit - a.immBit);
+  if (sources.length === 0) return null;
+  const lowest = sources[sources.length - 1].immBit;
+  const signBit = sources[0].immBit;
+  const value = unpackImmediate(format as 'I' | 'S' | 'B' | 'U' | 'J', parseInt(binary, 2));
+
+  return (
+    <div>
+      <div className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium mb-2 text-center">
+        Immediate Reassembled from the Scrambled Bits
+      </div>
+      <div className="flex justify-center overflow-x-auto pb-2">
+        <div className="flex items-stretch rounded-lg overflow-hidden border border-[#1e1e2e]">
+          {sources.map(({ immBit, instrBit }) => (
+            <div key={immBit} className="flex flex-col items-center border-r border-[#1e1e2e] last:border-r-0">
+              <div
+                className="px-0.5 pt-1 text-[8px] font-mono"
+                style={{ color: immBit === signBit && format !== 'U' ? '#ef4444' : '#71717a' }}
+              >
+                {immBit}
+              </div>
+              <div
+                className="w-[16px] sm:w-[18px] h-6 flex items-center justify-center font-mono text-xs"
+                style={{ backgroundColor: `${FIELD_COLORS.immediate}15`, color: FIELD_COLORS.immediate }}
+              >
+                {binary[31 - instrBit]}
+              </div>
+              <div className="px-0.5 pb-1 text-[8px] font-mono text-[#3a3a4e]">{instrBit}</div>
+            </div>
+          ))}
+          {lowest > 0 && (
+            <div className="flex flex-col items-center justify-center px-2 bg-[#0d0d14] border-l border-dashed border-[#2a2a3e]">
+              <div className="text-[8px] font-mono text-[#71717a]">{lowest === 1 ? '0' : `${lowest - 1}:0`}</div>
+              <div className="h-6 flex items-center font-mono text-xs text-[#3a3a4e]">
+                {'0'.repeat(Math.min(lowest, 4))}{lowest > 4 ? '…' : ''}
+              </div>
+              <div className="text-[8px] font-mono text-[#3a3a4e]">implied</div>
+            </div>
+          )}
+        </div>
+      </div>
+      <div className="text-[10px] text-center text-[#71717a]">
+        Top row: immediate bit · bottom row: instruction bit it came from ·{' '}
+        {format === 'U' ? 'value' : `sign-extended from imm[${signBit}]`} ={' '}
+        <span className="font-mono text-[#f59e0b]">{value}</span>
+        {format === 'U' && <span className="font-mono"> ({toHexWord(value)})</span>}
+      </div>
+    </div>
+  );
+}
+
+interface IsaComparison {
+  label: string;
+  mips: string;
+  riscv: string;
+  note: string;
+}
+
+const ISA_COMPARISONS: IsaComparison[] = [
+  {
+    label: 'Register add',
+    mips: 'add $t0, $t1, $t2',
+    riscv: 'add t0, t1, t2',
+    note: 'Both split the operation across an opcode and a function field. MIPS puts rd in bits 15:11 and the opcode on top; RISC-V puts the opcode in bits 6:0 and rd right above it.',
   },
-  I: {
-    title: 'I-Type (Immediate)',
-    description: 'Used for operations with a constant value, memory access (load/store), and conditional branches.',
-    usage: 'ADDI, LW, SW, BEQ, BNE, SLTI',
+  {
+    label: 'Add immediate',
+    mips: 'addi $t0, $t1, -5',
+    riscv: 'addi t0, t1, -5',
+    note: 'MIPS has a 16-bit immediate in the low half and writes rt. RISC-V has a 12-bit immediate in the top bits, so its sign is bit 31 in every format, and the destination stays rd.',
   },
-  J: {
-    title: 'J-Type (Jump)',
-    description: 'Used for unconditional jumps. Provides a 26-bit address field for the jump target.',
-    usage: 'J, JAL',
+  {
+    label: 'Load word',
+    mips: 'lw $t0, 8($sp)',
+    riscv: 'lw t0, 8(sp)',
+    note: 'A MIPS load writes rt, the same field a store reads its data from. A RISC-V load is I-type and writes rd, so the destination never moves.',
   },
-};
+  {
+    label: 'Store word',
+    mips: 'sw $t0, 8($sp)',
+    riscv: 'sw t0, 8(sp)',
+    note: 'MIPS keeps the offset whole. RISC-V S-type splits it around the rd slot so that rs1 and rs2 can be read before the format is known.',
+  },
+  {
+    label: 'Branch',
+    mips: 'beq $t0, $t1, 3',
+    riscv: 'beq t0, t1, 16',
+    note: 'Both reach the same target, 16 bytes past the branch. MIPS counts words from PC + 4; RISC-V counts bytes from the branch itself, drops the always-zero bit 0 and scatters the rest (B-type).',
+  },
+  {
+    label: 'Load upper',
+    mips: 'lui $t0, 0x1234',
+    riscv: 'lui t0, 0x12340',
+    note: 'Both set t0 to 0x12340000. MIPS LUI fills the upper 16 bits; the RISC-V U-type fills the upper 20, leaving only 12 for the addi that completes a constant.',
+  },
+  {
+    label: 'Call',
+    mips: 'jal 0x00400400',
+    riscv: 'jal ra, 1024',
+    note: 'Both call 1 KB ahead of an instruction at 0x00400000. MIPS J-type holds 26 bits of the absolute word address and always links $ra; RISC-V JAL holds a PC-relative offset and names its link register (zero for a plain jump).',
+  },
+];
+
+function WordFieldBar({ fields }: { fields: { name: string; bits: number; value: number }[] }) {
+  return (
+    <div className="flex w-full rounded-md overflow-hidden border border-[#1e1e2e]">
+      {fields.map((field) => {
+        const color = fieldColor(field.name);
+        return (
+          <div
+            key={field.name}
+            className="flex flex-col items-center justify-center py-1 border-r border-[#1e1e2e] last:border-r-0 min-w-0"
+            style={{ width: `${(field.bits / 32) * 100}%`, backgroundColor: `${color}12` }}
+            title={`${field.name}: ${field.value.toString(2).padStart(field.bits, '0')}`}
+          >
+            <div className="text-[9px] font-mono font-bold truncate max-w-full px-0.5" style={{ color }}>
+              {field.name}
+            </div>
+            <div className="text-[10px] font-mono text-white">{field.value}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function IsaComparisonPanel() {
+  const [selected, setSelected] = useState(0);
+  const pair = ISA_COMPARISONS[selected];
+  const mips = disassemble(assemble(pair.mips).instructions[0].word);
+  const riscv = disassembleRiscv(encodeRiscv(pair.riscv), TEXT_BASE);
+  const rows = [
+    { isa: 'MIPS', text: mips.text, word: mips.word, format: mips.format, fields: mips.fields },
+    { isa: 'RV32I', text: riscv.text, word: riscv.word, format: riscv.format!, fields: riscv.fields },
+  ];
+
+  return (
+    <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center gap-2">
+        <ArrowLeftRight size={14} className="text-[#8b5cf6]" />
+        <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
+          MIPS vs RISC-V: Same Operation, Two Encodings
+        </span>
+      </div>
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {ISA_COMPARISONS.map((c, idx) => (
+            <button
+              key={c.label}
+              onClick={() => setSelected(idx)}
+              className={`px-3 py-1.5 rounded-lg text-xs transition-all duration-200 ${
+                selected === idx
+                  ? 'bg-[#8b5cf6]/15 border border-[#8b5cf6]/30 text-[#8b5cf6]'
+                  : 'bg-[#0d0d14] border border-[#1e1e2e] hover:border-[#2a2a3e] text-[#a1a1aa] hover:text-white'
+              }`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between text-[9px] font-mono text-[#3a3a4e] pl-16">
+          <span>31</span>
+          <span>0</span>
+        </div>
+        {rows.map((row) => (
+          <div key={row.isa} className="flex items-center gap-3">
+            <div className="w-13 flex-shrink-0">
+              <div className="text-[10px] font-semibold text-[#a1a1aa]">{row.isa}</div>
+              <span
+                className="text-[9px] font-mono font-bold px-1 py-0.5 rounded"
+                style={{ backgroundColor: `${FORMAT_COLORS[row.format]}15`, color: FORMAT_COLORS[row.format] }}
+              >
+                {row.format}-type
+              </span>
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-xs font-mono font-semibold text-white">{row.text}</span>
+                <span className="text-[10px] font-mono text-[#71717a]">{toHexWord(row.word)}</span>
+              </div>
+              <WordFieldBar fields={row.fields} />
+            </div>
+          </div>
+        ))}
+        <p className="text-[11px] text-[#a1a1aa] leading-relaxed">{pair.note}</p>
+      </div>
+    </div>
+  );
+}
 
 // ──────────────────────────── Main Component ────────────────────────────
 
 export default function ISAModule() {
   // ── Core State ──
+  const [isa, setIsa] = useState<Isa>('mips');
   const [program, setProgram] = useState<ProgramLine[]>([]);
   const [currentInstrIndex, setCurrentInstrIndex] = useState(0);
   const [animationMode, setAnimationMode] = useState<AnimationMode>('encode');
@@ -368,9 +1162,30 @@ export default function ISAModule() {
 
   // ── Derived Values ──
   const currentInstr = program[currentInstrIndex]?.instruction ?? null;
-  const currentBinary = currentInstr ? instructionToBinary(currentInstr) : '';
-  const currentFields = currentInstr ? getFieldsForFormat(currentInstr.format) : [];
+  const currentBinary = currentInstr ? instructionToBinary(currentInstr, isa) : '';
+  const currentFields = currentInstr ? getFieldsForFormat(currentInstr.format, isa) : [];
   const totalFieldSteps = currentFields.length * 2; // highlight + fill per field
+  const activeField = currentFields[activeFieldIndex];
+  const activeFieldText = activeField
+    ? `${activeField.name} = ${currentInstr?.fields[activeField.name] || '0'.repeat(activeField.bits)}`
+    : '';
+  const stepDescription = !currentInstr
+    ? undefined
+    : animationMode === 'encode'
+      ? fieldPhase === 'highlight' && activeField
+        ? `${currentInstr.assembly}: encoding the ${activeField.name} field`
+        : fieldPhase === 'fill' && activeField
+          ? `${currentInstr.assembly}: ${activeFieldText}`
+          : fieldPhase === 'complete'
+            ? `${currentInstr.assembly} encodes to ${currentBinary}`
+            : undefined
+      : decodingPhase === 'identify-format'
+        ? `Opcode identifies a ${currentInstr.format}-type instruction`
+        : decodingPhase === 'extract-field' && activeField
+          ? `Extracting ${activeFieldText}`
+          : decodingPhase === 'assemble' || decodingPhase === 'complete'
+            ? `Decoded ${currentInstr.assembly}`
+            : undefined;
 
   // ── Step Forward Logic ──
   const stepForward = useCallback(() => {
@@ -383,7 +1198,10 @@ export default function ISAModule() {
     const instr = program[currentInstrIndex]?.instruction;
     if (!instr) return;
 
-    const fields = getFieldsForFormat(instr.format);
+    const fields = getFieldsForFormat(instr.format, isa);
+    // Decoding reads the opcode first: bits 31:26 in MIPS, bits 6:0 in RISC-V
+    const opcodeIdx = fields.findIndex(f => f.name === 'opcode');
+    const decodeOrder = [opcodeIdx, ...fields.map((_, i) => i).filter(i => i !== opcodeIdx)];
 
     if (animationMode === 'encode') {
       // Encoding animation: highlight field, then fill binary
@@ -447,16 +1265,17 @@ export default function ISAModule() {
           }
         }
         setDecodingPhase('identify-format');
-        setRevealedFields(new Set([0])); // Reveal opcode
+        setRevealedFields(new Set([decodeOrder[0]])); // Reveal opcode
         stepCountRef.current += 1;
       } else if (decodingPhase === 'identify-format') {
-        setActiveFieldIndex(1);
+        setActiveFieldIndex(decodeOrder[1]);
         setDecodingPhase('extract-field');
-        setRevealedFields(prev => new Set([...prev, 1]));
+        setRevealedFields(prev => new Set([...prev, decodeOrder[1]]));
         stepCountRef.current += 1;
       } else if (decodingPhase === 'extract-field') {
-        if (activeFieldIndex < fields.length - 1) {
-          const nextIdx = activeFieldIndex + 1;
+        const position = decodeOrder.indexOf(activeFieldIndex);
+        if (position < fields.length - 1) {
+          const nextIdx = decodeOrder[position + 1];
           setActiveFieldIndex(nextIdx);
           setRevealedFields(prev => new Set([...prev, nextIdx]));
           stepCountRef.current += 1;
@@ -471,7 +1290,7 @@ export default function ISAModule() {
         stepCountRef.current += 1;
       }
     }
-  }, [program, currentInstrIndex, animationMode, fieldPhase, activeFieldIndex, decodingPhase, instructionComplete, allComplete]);
+  }, [program, isa, currentInstrIndex, animationMode, fieldPhase, activeFieldIndex, decodingPhase, instructionComplete, allComplete]);
 
   // ── Animation Loop ──
   const animationLoop = useCallback((timestamp: number) => {
@@ -527,28 +1346,39 @@ export default function ISAModule() {
     const scenario = PRESET_SCENARIOS[key];
     if (!scenario) return;
     setSelectedScenario(key);
+    setIsa(scenario.isa);
     setAnimationMode(scenario.mode);
     const lines: ProgramLine[] = scenario.instructions.map((asm, i) => {
-      const instr = INSTRUCTIONS[asm];
+      const instr = scenario.isa === 'riscv' ? riscvInstruction(asm) : INSTRUCTIONS[asm];
       return {
         address: i * 4,
         instruction: instr,
-        binary: instructionToBinary(instr),
+        binary: instructionToBinary(instr, scenario.isa),
       };
     });
     setProgram(lines);
     setShowScenarioDropdown(false);
   }, [handleReset]);
 
+  const loadAssembled = useCallback((lines: ProgramLine[]) => {
+    handleReset();
+    setSelectedScenario('');
+    setIsa('mips');
+    setAnimationMode('encode');
+    setProgram(lines);
+  }, [handleReset]);
+
   // ── Load default on mount ──
   useEffect(() => {
     loadScenario('r_type');
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(PRESET_SCENARIOS), loadScenario);
+
   // ── Helper: render bit-level binary display ──
   const renderBitDisplay = (binary: string, format: InstructionFormat, highlightFieldIdx: number, revealed: Set<number>) => {
-    const fields = getFieldsForFormat(format);
+    const fields = getFieldsForFormat(format, isa);
     let bitOffset = 0;
 
     return (
@@ -630,7 +1460,7 @@ export default function ISAModule() {
 
   // ── Render Format Diagram ──
   const renderFormatDiagram = (format: InstructionFormat) => {
-    const fields = getFieldsForFormat(format);
+    const fields = getFieldsForFormat(format, isa);
     const totalBits = 32;
 
     return (
@@ -669,6 +1499,7 @@ export default function ISAModule() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -687,8 +1518,11 @@ export default function ISAModule() {
             </div>
             <p className="text-sm text-[#a1a1aa] max-w-2xl">
               Explore MIPS instruction encoding and decoding. See how assembly instructions
-              are translated into 32-bit binary machine code across R-type, I-type, and J-type formats.
+              are translated into 32-bit binary machine code across R-type, I-type, and J-type formats,
+              then assemble whole programs with labels and pseudo-instructions, or disassemble raw words.
+              Switch to RV32I to compare RISC-V&apos;s six formats and its scrambled immediates.
             </p>
+            <ModuleLinks moduleId="2.1" />
           </motion.div>
 
           {/* ── Scenario Selector ── */}
@@ -699,10 +1533,32 @@ export default function ISAModule() {
             className="mb-6"
           >
             <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-[#71717a] mr-1 font-medium uppercase tracking-wider">
+                ISA:
+              </span>
+              <div className="flex rounded-lg overflow-hidden border border-[#1e1e2e] mr-3">
+                {(['mips', 'riscv'] as Isa[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => {
+                      if (option !== isa) {
+                        loadScenario(Object.keys(PRESET_SCENARIOS).find(k => PRESET_SCENARIOS[k].isa === option)!);
+                      }
+                    }}
+                    className={`px-3 py-1.5 text-xs font-mono transition-all duration-200 ${
+                      isa === option
+                        ? 'bg-[#8b5cf6]/15 text-[#8b5cf6]'
+                        : 'bg-[#111118] text-[#a1a1aa] hover:text-white'
+                    }`}
+                  >
+                    {option === 'mips' ? 'MIPS' : 'RV32I'}
+                  </button>
+                ))}
+              </div>
               <span className="text-xs text-[#71717a] mr-1 font-medium uppercase tracking-wider">
                 Presets:
               </span>
-              {Object.entries(PRESET_SCENARIOS).map(([key, scenario]) => (
+              {Object.entries(PRESET_SCENARIOS).filter(([, scenario]) => scenario.isa === isa).map(([key, scenario]) => (
                 <button
                   key={key}
                   onClick={() => loadScenario(key)}
@@ -722,7 +1578,9 @@ export default function ISAModule() {
           {/* ── Controls Bar ── */}
           <div className="mb-6">
             <ModuleControls
+              shareState={{ scenario: selectedScenario }}
               isPlaying={isPlaying}
+              completed={allComplete}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -731,6 +1589,7 @@ export default function ISAModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             >
               {/* Mode toggle */}
               <button
@@ -786,7 +1645,7 @@ export default function ISAModule() {
                       >
                         <div className="flex items-center gap-3">
                           {/* Address */}
-                          <span className="text-[10px] font-mono text-[#71717a] w-10 flex-shrink-0">
+                          <span className="text-[10px] font-mono text-[#71717a] min-w-10 flex-shrink-0">
                             0x{line.address.toString(16).padStart(4, '0')}
                           </span>
                           {/* Current indicator */}
@@ -821,10 +1680,8 @@ export default function ISAModule() {
                           <span
                             className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded flex-shrink-0"
                             style={{
-                              backgroundColor: line.instruction.format === 'R' ? '#10b98115' :
-                                line.instruction.format === 'I' ? '#f59e0b15' : '#06b6d415',
-                              color: line.instruction.format === 'R' ? '#10b981' :
-                                line.instruction.format === 'I' ? '#f59e0b' : '#06b6d4',
+                              backgroundColor: `${FORMAT_COLORS[line.instruction.format]}15`,
+                              color: FORMAT_COLORS[line.instruction.format],
                             }}
                           >
                             {line.instruction.format}-type
@@ -866,10 +1723,8 @@ export default function ISAModule() {
                     <span
                       className="text-[10px] font-mono font-bold px-2 py-0.5 rounded"
                       style={{
-                        backgroundColor: currentInstr.format === 'R' ? '#10b98115' :
-                          currentInstr.format === 'I' ? '#f59e0b15' : '#06b6d415',
-                        color: currentInstr.format === 'R' ? '#10b981' :
-                          currentInstr.format === 'I' ? '#f59e0b' : '#06b6d4',
+                        backgroundColor: `${FORMAT_COLORS[currentInstr.format]}15`,
+                        color: FORMAT_COLORS[currentInstr.format],
                       }}
                     >
                       {currentInstr.format}-Type Format
@@ -955,6 +1810,11 @@ export default function ISAModule() {
                       </div>
                     </div>
 
+                    {/* ── RISC-V Immediate Reassembly ── */}
+                    {isa === 'riscv' && instructionComplete && (
+                      <ImmediateScramble binary={currentBinary} format={currentInstr.format} />
+                    )}
+
                     {/* ── Field Breakdown ── */}
                     <div>
                       <div className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium mb-3 text-center">
@@ -1002,19 +1862,23 @@ export default function ISAModule() {
                                   animate={{ opacity: 1 }}
                                   className="text-[10px] text-[#71717a]"
                                 >
-                                  {field.name === 'rs' || field.name === 'rt' || field.name === 'rd' ? (
+                                  {isa === 'riscv' && (field.name === 'rs1' || field.name === 'rs2' || field.name === 'rd') ? (
+                                    <span>
+                                      {RISCV_REGISTERS[parseInt(fieldValue, 2)]} (x{parseInt(fieldValue, 2)})
+                                    </span>
+                                  ) : field.name === 'rs' || field.name === 'rt' || field.name === 'rd' ? (
                                     <span>
                                       {REGISTER_NAMES[fieldValue] || `$${parseInt(fieldValue, 2)}`} (#{parseInt(fieldValue, 2)})
                                     </span>
-                                  ) : field.name === 'immediate' ? (
+                                  ) : field.name === 'immediate' || field.name.startsWith('imm[') ? (
                                     <span>= {parseInt(fieldValue, 2)}</span>
                                   ) : field.name === 'address' ? (
                                     <span>= {parseInt(fieldValue, 2)}</span>
                                   ) : field.name === 'shamt' ? (
                                     <span>= {parseInt(fieldValue, 2)}</span>
                                   ) : field.name === 'opcode' ? (
-                                    <span>{currentInstr.format === 'R' ? 'R-type (0)' : `= ${parseInt(fieldValue, 2)}`}</span>
-                                  ) : field.name === 'funct' ? (
+                                    <span>{isa === 'mips' && currentInstr.format === 'R' ? 'R-type (0)' : `= ${parseInt(fieldValue, 2)}`}</span>
+                                  ) : field.name === 'funct' || field.name === 'funct3' || field.name === 'funct7' ? (
                                     <span>{currentInstr.mnemonic} (= {parseInt(fieldValue, 2)})</span>
                                   ) : null}
                                 </motion.div>
@@ -1076,6 +1940,18 @@ export default function ISAModule() {
             </motion.div>
           </div>
 
+          {/* ── Assembler + Disassembler ── */}
+          <motion.div
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, delay: 0.25 }}
+            className="space-y-6 mb-6"
+          >
+            <IsaComparisonPanel />
+            <AssemblerPanel onLoad={loadAssembled} />
+            <DisassemblerPanel key={isa} isa={isa} />
+          </motion.div>
+
           {/* ── Bottom Section: Format Reference + Metrics + Education ── */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
             {/* ── Format Reference Cards ── */}
@@ -1093,8 +1969,8 @@ export default function ISAModule() {
                   </span>
                 </div>
                 <div className="p-4 space-y-4">
-                  {(['R', 'I', 'J'] as InstructionFormat[]).map((fmt) => {
-                    const info = FORMAT_INFO[fmt];
+                  {FORMAT_INFO[isa].map((info) => {
+                    const fmt = info.format;
                     const isActive = currentInstr?.format === fmt;
                     return (
                       <div
@@ -1107,8 +1983,8 @@ export default function ISAModule() {
                           <span
                             className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded"
                             style={{
-                              backgroundColor: fmt === 'R' ? '#10b98115' : fmt === 'I' ? '#f59e0b15' : '#06b6d415',
-                              color: fmt === 'R' ? '#10b981' : fmt === 'I' ? '#f59e0b' : '#06b6d4',
+                              backgroundColor: `${FORMAT_COLORS[fmt]}15`,
+                              color: FORMAT_COLORS[fmt],
                             }}
                           >
                             {fmt}
@@ -1174,7 +2050,7 @@ export default function ISAModule() {
                             <div className="text-lg font-mono font-bold"
                               style={{
                                 color: currentInstr
-                                  ? currentInstr.format === 'R' ? '#10b981' : currentInstr.format === 'I' ? '#f59e0b' : '#06b6d4'
+                                  ? FORMAT_COLORS[currentInstr.format]
                                   : '#71717a'
                               }}
                             >
@@ -1242,106 +2118,191 @@ export default function ISAModule() {
                       transition={{ duration: 0.3 }}
                       className="overflow-hidden"
                     >
-                      <div className="p-4 space-y-4">
-                        {/* Opcode */}
-                        <div className="flex gap-3">
-                          <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#ef4444' }} />
-                          <div>
-                            <div className="text-xs font-semibold text-white mb-0.5">Opcode (6 bits)</div>
-                            <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
-                              The operation code tells the CPU what type of instruction to execute. For R-type
-                              instructions, the opcode is always 000000 and the actual operation is determined by the
-                              funct field. For I-type and J-type, the opcode directly specifies the instruction.
-                            </p>
+                      {isa === 'mips' ? (
+                        <div className="p-4 space-y-4">
+                          {/* Opcode */}
+                          <div className="flex gap-3">
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#ef4444' }} />
+                            <div>
+                              <div className="text-xs font-semibold text-white mb-0.5">Opcode (6 bits)</div>
+                              <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                The operation code tells the CPU what type of instruction to execute. For R-type
+                                instructions, the opcode is always 000000 and the actual operation is determined by the
+                                funct field. For I-type and J-type, the opcode directly specifies the instruction.
+                              </p>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Register Fields */}
-                        <div className="flex gap-3">
-                          <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#6366f1' }} />
-                          <div>
-                            <div className="text-xs font-semibold text-white mb-0.5">Register Fields: rs, rt, rd (5 bits each)</div>
-                            <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
-                              MIPS has 32 registers ($0-$31), each addressed with 5 bits. <span className="text-[#6366f1]">rs</span> is
-                              the first source register, <span className="text-[#06b6d4]">rt</span> is the second source (or destination
-                              in I-type), and <span className="text-[#10b981]">rd</span> is the destination register in R-type instructions.
-                            </p>
+                          {/* Register Fields */}
+                          <div className="flex gap-3">
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#6366f1' }} />
+                            <div>
+                              <div className="text-xs font-semibold text-white mb-0.5">Register Fields: rs, rt, rd (5 bits each)</div>
+                              <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                MIPS has 32 registers ($0-$31), each addressed with 5 bits. <span className="text-[#6366f1]">rs</span> is
+                                the first source register, <span className="text-[#06b6d4]">rt</span> is the second source (or destination
+                                in I-type), and <span className="text-[#10b981]">rd</span> is the destination register in R-type instructions.
+                              </p>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Shamt */}
-                        <div className="flex gap-3">
-                          <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#f59e0b' }} />
-                          <div>
-                            <div className="text-xs font-semibold text-white mb-0.5">Shift Amount (5 bits)</div>
-                            <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
-                              Used only by shift instructions (SLL, SRL) to specify how many bit positions to shift.
-                              For all other R-type instructions, this field is 00000.
-                            </p>
+                          {/* Shamt */}
+                          <div className="flex gap-3">
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#f59e0b' }} />
+                            <div>
+                              <div className="text-xs font-semibold text-white mb-0.5">Shift Amount (5 bits)</div>
+                              <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                Used only by shift instructions (SLL, SRL) to specify how many bit positions to shift.
+                                For all other R-type instructions, this field is 00000.
+                              </p>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Funct */}
-                        <div className="flex gap-3">
-                          <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#a855f7' }} />
-                          <div>
-                            <div className="text-xs font-semibold text-white mb-0.5">Function Code (6 bits)</div>
-                            <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
-                              The funct field distinguishes between R-type operations. Since all R-type instructions share
-                              opcode 000000, this field specifies ADD (100000), SUB (100010), AND (100100), OR (100101), etc.
-                            </p>
+                          {/* Funct */}
+                          <div className="flex gap-3">
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#a855f7' }} />
+                            <div>
+                              <div className="text-xs font-semibold text-white mb-0.5">Function Code (6 bits)</div>
+                              <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                The funct field distinguishes between R-type operations. Since all R-type instructions share
+                                opcode 000000, this field specifies ADD (100000), SUB (100010), AND (100100), OR (100101), etc.
+                              </p>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Immediate */}
-                        <div className="flex gap-3">
-                          <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#f59e0b' }} />
-                          <div>
-                            <div className="text-xs font-semibold text-white mb-0.5">Immediate (16 bits)</div>
-                            <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
-                              I-type instructions include a 16-bit constant value. This can be a memory offset
-                              (for LW/SW), an arithmetic operand (ADDI), or a branch offset (BEQ/BNE).
-                              The value is sign-extended to 32 bits before use.
-                            </p>
+                          {/* Immediate */}
+                          <div className="flex gap-3">
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#f59e0b' }} />
+                            <div>
+                              <div className="text-xs font-semibold text-white mb-0.5">Immediate (16 bits)</div>
+                              <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                I-type instructions include a 16-bit constant value. This can be a memory offset
+                                (for LW/SW), an arithmetic operand (ADDI), or a branch offset (BEQ/BNE).
+                                The value is sign-extended to 32 bits before use.
+                              </p>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Address */}
-                        <div className="flex gap-3">
-                          <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#06b6d4' }} />
-                          <div>
-                            <div className="text-xs font-semibold text-white mb-0.5">Jump Address (26 bits)</div>
-                            <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
-                              J-type instructions provide 26 bits for the target address. The full 32-bit address is
-                              formed by taking the upper 4 bits of PC+4 and appending the 26-bit address shifted left by 2
-                              (word-aligned), giving a 256 MB jump range.
-                            </p>
+                          {/* Address */}
+                          <div className="flex gap-3">
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#06b6d4' }} />
+                            <div>
+                              <div className="text-xs font-semibold text-white mb-0.5">Jump Address (26 bits)</div>
+                              <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                J-type instructions provide 26 bits for the target address. The full 32-bit address is
+                                formed by taking the upper 4 bits of PC+4 and appending the 26-bit address shifted left by 2
+                                (word-aligned), giving a 256 MB jump range.
+                              </p>
+                            </div>
+                          </div>
+
+                          {/* Key Concepts */}
+                          <div className="mt-4 p-3 rounded-lg bg-[#8b5cf6]/5 border border-[#8b5cf6]/15">
+                            <div className="text-xs font-semibold text-[#8b5cf6] mb-2">Key Concepts</div>
+                            <ul className="space-y-1.5">
+                              <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                <span>All MIPS instructions are exactly 32 bits (fixed-length encoding), simplifying fetch and decode hardware.</span>
+                              </li>
+                              <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                <span>The opcode is always in bits [31:26], allowing the control unit to quickly determine the format.</span>
+                              </li>
+                              <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                <span>R-type uses 3 register addresses + funct; I-type uses 2 registers + 16-bit immediate; J-type uses 26-bit address.</span>
+                              </li>
+                              <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                <span>ISA design balances instruction expressiveness against fixed-width encoding constraints.</span>
+                              </li>
+                            </ul>
                           </div>
                         </div>
+                      ) : (
+                        <div className="p-4 space-y-4">
+                            <div className="flex gap-3">
+                              <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#ef4444' }} />
+                              <div>
+                                <div className="text-xs font-semibold text-white mb-0.5">Opcode (7 bits)</div>
+                                <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                  Always bits [6:0], so the decoder looks at the bottom of the word first. The two lowest bits are 11
+                                  in every 32-bit instruction; the compressed extension uses the other values for 16-bit instructions.
+                                </p>
+                              </div>
+                            </div>
+
+                            <div className="flex gap-3">
+                              <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#6366f1' }} />
+                              <div>
+                                <div className="text-xs font-semibold text-white mb-0.5">Register Fields: rs1, rs2, rd (5 bits each)</div>
+                                <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                  Registers x0–x31 go by ABI names such as zero, ra, sp, t0 and a0. rs1 is always bits 19:15, rs2 bits
+                                  24:20 and rd bits 11:7, so the register file can be read while the opcode is still being decoded. x0
+                                  reads as 0 and ignores writes.
+                                </p>
+                              </div>
+                            </div>
 
-                        {/* Key Concepts */}
-                        <div className="mt-4 p-3 rounded-lg bg-[#8b5cf6]/5 border border-[#8b5cf6]/15">
-                          <div className="text-xs font-semibold text-[#8b5cf6] mb-2">Key Concepts</div>
-                          <ul className="space-y-1.5">
-                            <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
-                              <span className="text-[#8b5cf6] mt-0.5">*</span>
-                              <span>All MIPS instructions are exactly 32 bits (fixed-length encoding), simplifying fetch and decode hardware.</span>
-                            </li>
-                            <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
-                              <span className="text-[#8b5cf6] mt-0.5">*</span>
-                              <span>The opcode is always in bits [31:26], allowing the control unit to quickly determine the format.</span>
-                            </li>
-                            <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
-                              <span className="text-[#8b5cf6] mt-0.5">*</span>
-                              <span>R-type uses 3 register addresses + funct; I-type uses 2 registers + 16-bit immediate; J-type uses 26-bit address.</span>
-                            </li>
-                            <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
-                              <span className="text-[#8b5cf6] mt-0.5">*</span>
-                              <span>ISA design balances instruction expressiveness against fixed-width encoding constraints.</span>
-                            </li>
-                          </ul>
+                            <div className="flex gap-3">
+                              <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#a855f7' }} />
+                              <div>
+                                <div className="text-xs font-semibold text-white mb-0.5">funct3 and funct7</div>
+                                <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                  funct3 (bits 14:12) picks the operation within an opcode: the ALU operation, the load or store
+                                  width, or the branch condition. funct7 (bits 31:25) separates add from sub and srl from sra.
+                                </p>
+                              </div>
+                            </div>
+
+                            <div className="flex gap-3">
+                              <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#f59e0b' }} />
+                              <div>
+                                <div className="text-xs font-semibold text-white mb-0.5">Scrambled Immediates</div>
+                                <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                  Every immediate keeps its sign in instruction bit 31, so sign extension can start before the format
+                                  is known. The other bits are placed so each immediate bit comes from as few instruction positions as
+                                  possible: S splits around rd, B moves bit 11 into bit 7, and J rotates bits 19:12 into the positions
+                                  U-type uses. Branch and jump offsets count bytes and never store bit 0.
+                                </p>
+                              </div>
+                            </div>
+
+                            <div className="flex gap-3">
+                              <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: '#6366f1' }} />
+                              <div>
+                                <div className="text-xs font-semibold text-white mb-0.5">Upper Immediates (20 bits)</div>
+                                <p className="text-[11px] text-[#a1a1aa] leading-relaxed">
+                                  lui and auipc supply bits 31:12 and addi adds the low 12. Because addi sign-extends, the upper part
+                                  must be one higher whenever bit 11 of the constant is set.
+                                </p>
+                              </div>
+                            </div>
+
+                          {/* Key Concepts */}
+                          <div className="mt-4 p-3 rounded-lg bg-[#8b5cf6]/5 border border-[#8b5cf6]/15">
+                            <div className="text-xs font-semibold text-[#8b5cf6] mb-2">Key Concepts</div>
+                            <ul className="space-y-1.5">
+                                <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                  <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                  <span>Fixed 32-bit instructions like MIPS, but in six formats instead of three.</span>
+                                </li>
+                                <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                  <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                  <span>Register fields never move between formats; the immediate bits move instead.</span>
+                                </li>
+                                <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                  <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                  <span>Branches compare two registers directly (blt, bgeu…) with no condition codes and no branch delay slot.</span>
+                                </li>
+                                <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                                  <span className="text-[#8b5cf6] mt-0.5">*</span>
+                                  <span>RV32I is a small base; extensions such as M, A, F, D and C add multiply, atomics, floating point and 16-bit encodings.</span>
+                                </li>
+                            </ul>
+                          </div>
                         </div>
-                      </div>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -1364,96 +2325,151 @@ export default function ISAModule() {
                 </span>
               </div>
               <div className="overflow-x-auto">
-                <table className="w-full text-xs">
-                  <thead>
-                    <tr className="border-b border-[#1e1e2e]">
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Assembly</th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Format</th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
-                        <span style={{ color: '#ef4444' }}>Opcode</span>
-                      </th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
-                        <span style={{ color: '#6366f1' }}>rs</span>
-                      </th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
-                        <span style={{ color: '#06b6d4' }}>rt</span>
-                      </th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
-                        <span style={{ color: '#10b981' }}>rd</span> / <span style={{ color: '#f59e0b' }}>imm</span> / <span style={{ color: '#06b6d4' }}>addr</span>
-                      </th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
-                        <span style={{ color: '#a855f7' }}>funct</span>
-                      </th>
-                      <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Binary (32-bit)</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-[#1e1e2e]">
-                    {program.map((line, idx) => {
-                      const instr = line.instruction;
-                      const isCurrent = idx === currentInstrIndex;
-                      const fields = instr.fields;
-
-                      return (
+                {isa === 'mips' ? (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-[#1e1e2e]">
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Assembly</th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Format</th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
+                          <span style={{ color: '#ef4444' }}>Opcode</span>
+                        </th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
+                          <span style={{ color: '#6366f1' }}>rs</span>
+                        </th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
+                          <span style={{ color: '#06b6d4' }}>rt</span>
+                        </th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
+                          <span style={{ color: '#10b981' }}>rd</span> / <span style={{ color: '#f59e0b' }}>imm</span> / <span style={{ color: '#06b6d4' }}>addr</span>
+                        </th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">
+                          <span style={{ color: '#a855f7' }}>funct</span>
+                        </th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Binary (32-bit)</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#1e1e2e]">
+                      {program.map((line, idx) => {
+                        const instr = line.instruction;
+                        const isCurrent = idx === currentInstrIndex;
+                        const fields = instr.fields;
+
+                        return (
+                          <tr
+                            key={idx}
+                            className={`transition-colors duration-200 ${
+                              isCurrent ? 'bg-[#8b5cf6]/8' : 'hover:bg-[#16161f]'
+                            }`}
+                          >
+                            <td className="px-4 py-2.5 font-mono font-semibold text-white whitespace-nowrap">
+                              {instr.assembly}
+                            </td>
+                            <td className="px-4 py-2.5">
+                              <span
+                                className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded"
+                                style={{
+                                  backgroundColor: `${FORMAT_COLORS[instr.format]}15`,
+                                  color: FORMAT_COLORS[instr.format],
+                                }}
+                              >
+                                {instr.format}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2.5 font-mono" style={{ color: '#ef4444' }}>
+                              {fields.opcode}
+                            </td>
+                            <td className="px-4 py-2.5 font-mono" style={{ color: '#6366f1' }}>
+                              {fields.rs || '--'}
+                            </td>
+                            <td className="px-4 py-2.5 font-mono" style={{ color: '#06b6d4' }}>
+                              {fields.rt || '--'}
+                            </td>
+                            <td className="px-4 py-2.5 font-mono">
+                              {instr.format === 'R' ? (
+                                <span>
+                                  <span style={{ color: '#10b981' }}>{fields.rd}</span>
+                                  {' '}
+                                  <span style={{ color: '#f59e0b' }}>{fields.shamt}</span>
+                                </span>
+                              ) : instr.format === 'I' ? (
+                                <span style={{ color: '#f59e0b' }}>{fields.immediate}</span>
+                              ) : (
+                                <span style={{ color: '#06b6d4' }}>{fields.address}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2.5 font-mono" style={{ color: '#a855f7' }}>
+                              {instr.format === 'R' ? fields.funct : '--'}
+                            </td>
+                            <td className="px-4 py-2.5 font-mono text-[#71717a] text-[10px]">
+                              {line.binary}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                      {program.length === 0 && (
+                        <tr>
+                          <td colSpan={8} className="px-4 py-6 text-center text-[#71717a]">
+                            Load a preset to see the encoding table
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-[#1e1e2e]">
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Assembly</th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Format</th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Fields (bit 31 → 0)</th>
+                        <th className="px-4 py-2.5 text-left text-[10px] font-semibold text-[#71717a] uppercase tracking-wider">Hex</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#1e1e2e]">
+                      {program.map((line, idx) => (
                         <tr
                           key={idx}
                           className={`transition-colors duration-200 ${
-                            isCurrent ? 'bg-[#8b5cf6]/8' : 'hover:bg-[#16161f]'
+                            idx === currentInstrIndex ? 'bg-[#8b5cf6]/8' : 'hover:bg-[#16161f]'
                           }`}
                         >
                           <td className="px-4 py-2.5 font-mono font-semibold text-white whitespace-nowrap">
-                            {instr.assembly}
+                            {line.instruction.assembly}
                           </td>
                           <td className="px-4 py-2.5">
                             <span
                               className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded"
                               style={{
-                                backgroundColor: instr.format === 'R' ? '#10b98115' : instr.format === 'I' ? '#f59e0b15' : '#06b6d415',
-                                color: instr.format === 'R' ? '#10b981' : instr.format === 'I' ? '#f59e0b' : '#06b6d4',
+                                backgroundColor: `${FORMAT_COLORS[line.instruction.format]}15`,
+                                color: FORMAT_COLORS[line.instruction.format],
                               }}
                             >
-                              {instr.format}
+                              {line.instruction.format}
                             </span>
                           </td>
-                          <td className="px-4 py-2.5 font-mono" style={{ color: '#ef4444' }}>
-                            {fields.opcode}
-                          </td>
-                          <td className="px-4 py-2.5 font-mono" style={{ color: '#6366f1' }}>
-                            {fields.rs || '--'}
-                          </td>
-                          <td className="px-4 py-2.5 font-mono" style={{ color: '#06b6d4' }}>
-                            {fields.rt || '--'}
-                          </td>
-                          <td className="px-4 py-2.5 font-mono">
-                            {instr.format === 'R' ? (
-                              <span>
-                                <span style={{ color: '#10b981' }}>{fields.rd}</span>
-                                {' '}
-                                <span style={{ color: '#f59e0b' }}>{fields.shamt}</span>
+                          <td className="px-4 py-2.5 font-mono whitespace-nowrap">
+                            {binaryToGrouped(line.binary, line.instruction.format, 'riscv').map((g) => (
+                              <span key={g.name} title={g.name} className="mr-1.5 last:mr-0" style={{ color: g.color }}>
+                                {g.value}
                               </span>
-                            ) : instr.format === 'I' ? (
-                              <span style={{ color: '#f59e0b' }}>{fields.immediate}</span>
-                            ) : (
-                              <span style={{ color: '#06b6d4' }}>{fields.address}</span>
-                            )}
-                          </td>
-                          <td className="px-4 py-2.5 font-mono" style={{ color: '#a855f7' }}>
-                            {instr.format === 'R' ? fields.funct : '--'}
+                            ))}
                           </td>
                           <td className="px-4 py-2.5 font-mono text-[#71717a] text-[10px]">
-                            {line.binary}
+                            {toHexWord(parseInt(line.binary, 2))}
                           </td>
                         </tr>
-                      );
-                    })}
-                    {program.length === 0 && (
-                      <tr>
-                        <td colSpan={8} className="px-4 py-6 text-center text-[#71717a]">
-                          Load a preset to see the encoding table
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
+                      ))}
+                      {program.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-4 py-6 text-center text-[#71717a]">
+                            Load a preset to see the encoding table
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                )}
               </div>
             </div>
           </motion.div>
@@ -1469,48 +2485,15 @@ export default function ISAModule() {
               <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center gap-2">
                 <Binary size={14} className="text-[#8b5cf6]" />
                 <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
-                  MIPS Register Reference
+                  {isa === 'mips' ? 'MIPS' : 'RISC-V'} Register Reference
                 </span>
               </div>
               <div className="p-4">
                 <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
-                  {[
-                    { name: '$zero', num: 0, desc: 'Constant 0' },
-                    { name: '$at', num: 1, desc: 'Assembler temp' },
-                    { name: '$v0', num: 2, desc: 'Return value' },
-                    { name: '$v1', num: 3, desc: 'Return value' },
-                    { name: '$a0', num: 4, desc: 'Argument' },
-                    { name: '$a1', num: 5, desc: 'Argument' },
-                    { name: '$a2', num: 6, desc: 'Argument' },
-                    { name: '$a3', num: 7, desc: 'Argument' },
-                    { name: '$t0', num: 8, desc: 'Temporary' },
-                    { name: '$t1', num: 9, desc: 'Temporary' },
-                    { name: '$t2', num: 10, desc: 'Temporary' },
-                    { name: '$t3', num: 11, desc: 'Temporary' },
-                    { name: '$t4', num: 12, desc: 'Temporary' },
-                    { name: '$t5', num: 13, desc: 'Temporary' },
-                    { name: '$t6', num: 14, desc: 'Temporary' },
-                    { name: '$t7', num: 15, desc: 'Temporary' },
-                    { name: '$s0', num: 16, desc: 'Saved' },
-                    { name: '$s1', num: 17, desc: 'Saved' },
-                    { name: '$s2', num: 18, desc: 'Saved' },
-                    { name: '$s3', num: 19, desc: 'Saved' },
-                    { name: '$s4', num: 20, desc: 'Saved' },
-                    { name: '$s5', num: 21, desc: 'Saved' },
-                    { name: '$s6', num: 22, desc: 'Saved' },
-                    { name: '$s7', num: 23, desc: 'Saved' },
-                    { name: '$t8', num: 24, desc: 'Temporary' },
-                    { name: '$t9', num: 25, desc: 'Temporary' },
-                    { name: '$gp', num: 28, desc: 'Global ptr' },
-                    { name: '$sp', num: 29, desc: 'Stack ptr' },
-                    { name: '$fp', num: 30, desc: 'Frame ptr' },
-                    { name: '$ra', num: 31, desc: 'Return addr' },
-                  ].map((reg) => {
+                  {(isa === 'mips' ? MIPS_REGISTER_INFO : RISCV_REGISTER_INFO).map((reg) => {
                     // Highlight registers used in current instruction
-                    const isUsed = currentInstr && (
-                      REGISTER_NAMES[currentInstr.fields.rs] === reg.name ||
-                      REGISTER_NAMES[currentInstr.fields.rt] === reg.name ||
-                      REGISTER_NAMES[currentInstr.fields.rd] === reg.name
+                    const isUsed = currentInstr && ['rs', 'rt', 'rd', 'rs1', 'rs2'].some(
+                      (name) => currentInstr.fields[name] !== undefined && parseInt(currentInstr.fields[name], 2) === reg.num
                     );
 
                     return (
@@ -1526,7 +2509,7 @@ export default function ISAModule() {
                           {reg.name}
                         </div>
                         <div className="text-[9px] font-mono text-[#3a3a4e]">
-                          #{reg.num} ({regNumToBin(reg.num)})
+                          {isa === 'mips' ? '#' : 'x'}{reg.num} ({regNumToBin(reg.num)})
                         </div>
                         <div className="text-[9px] text-[#71717a] mt-0.5">{reg.desc}</div>
                       </div>
@@ -1553,7 +2536,7 @@ export default function ISAModule() {
               </div>
               <div className="p-4">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-                  {Object.values(INSTRUCTIONS).map((instr) => (
+                  {isa === 'mips' && Object.values(INSTRUCTIONS).map((instr) => (
                     <div
                       key={instr.assembly}
                       className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e] hover:border-[#2a2a3e] transition-all duration-200"
@@ -1563,8 +2546,8 @@ export default function ISAModule() {
                         <span
                           className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded"
                           style={{
-                            backgroundColor: instr.format === 'R' ? '#10b98115' : instr.format === 'I' ? '#f59e0b15' : '#06b6d415',
-                            color: instr.format === 'R' ? '#10b981' : instr.format === 'I' ? '#f59e0b' : '#06b6d4',
+                            backgroundColor: `${FORMAT_COLORS[instr.format]}15`,
+                            color: FORMAT_COLORS[instr.format],
                           }}
                         >
                           {instr.format}
@@ -1577,6 +2560,34 @@ export default function ISAModule() {
                       </div>
                     </div>
                   ))}
+                  {isa === 'riscv' && Object.values(RISCV_INSTRUCTIONS).map((spec) => (
+                    <div
+                      key={spec.mnemonic}
+                      className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e] hover:border-[#2a2a3e] transition-all duration-200"
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-xs font-mono font-bold text-white">{spec.mnemonic}</span>
+                        <span
+                          className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded"
+                          style={{
+                            backgroundColor: `${FORMAT_COLORS[spec.format]}15`,
+                            color: FORMAT_COLORS[spec.format],
+                          }}
+                        >
+                          {spec.format}
+                        </span>
+                      </div>
+                      <div className="text-[10px] font-mono text-[#a1a1aa] mb-1">
+                        {spec.mnemonic} {spec.operands.join(', ')}
+                      </div>
+                      <div className="text-[10px] text-[#71717a]">{spec.name}</div>
+                      <div className="mt-1.5 text-[9px] font-mono text-[#3a3a4e] break-all">
+                        opcode {spec.opcode.toString(2).padStart(7, '0')}
+                        {spec.funct3 !== undefined && ` · funct3 ${spec.funct3.toString(2).padStart(3, '0')}`}
+                        {spec.funct7 !== undefined && ` · funct7 ${spec.funct7.toString(2).padStart(7, '0')}`}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -12,6 +12,12 @@ import {
   Cpu,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -49,6 +55,12 @@ function generateArray(size: number): number[] {
   return Array.from({ length: size }, () => Math.floor(Math.random() * 100));
 }
 
+/** The lanes the last step computed, for the screen-reader announcer. */
+function describeLanes(op: SimdOp, lanes: number[], results: (number | null)[]): string | undefined {
+  if (lanes.length === 0) return undefined;
+  return `${op} on element${lanes.length > 1 ? 's' : ''} ${lanes.join(', ')} → ${lanes.map((i) => results[i]).join(', ')}`;
+}
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function SimdModule() {
@@ -67,6 +79,7 @@ export default function SimdModule() {
   const [speed, setSpeed] = useState(1);
   const [mode, setMode] = useState<'scalar' | 'simd'>('simd');
   const [activeLanes, setActiveLanes] = useState<number[]>([]);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const isPlayingRef = useRef(false);
   const speedRef = useRef(speed);
@@ -80,6 +93,7 @@ export default function SimdModule() {
   const scalarDone = scalarStep >= ARRAY_SIZE;
   const simdDone = simdStep * simdWidth >= ARRAY_SIZE;
   const allDone = mode === 'scalar' ? scalarDone : simdDone;
+  useModuleCompletion(allDone);
   const totalSimdSteps = Math.ceil(ARRAY_SIZE / simdWidth);
   const speedup = simdWidth;
 
@@ -156,13 +170,22 @@ export default function SimdModule() {
 
   useEffect(() => { if (allDone) setIsPlaying(false); }, [allDone]);
 
+  useSimulatorShortcuts({
+    playPause: allDone ? undefined : () => setIsPlaying((p) => !p),
+    step: allDone ? undefined : stepForward,
+    reset: handleReset,
+    faster: () => setSpeed((s) => Math.min(4, s + 0.5)),
+    slower: () => setSpeed((s) => Math.max(0.5, s - 0.5)),
+    help: () => setHelpOpen(true),
+  });
+
   return (
     <div className="min-h-screen bg-[#0a0a0f] text-white">
       <Navbar />
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -178,6 +201,7 @@ export default function SimdModule() {
               Compare scalar (one element at a time) vs SIMD (multiple elements in one instruction).
               See the throughput advantage of SSE, AVX, and AVX-512 vector widths.
             </p>
+            <ModuleLinks moduleId="2.10" />
           </div>
 
           {/* Config Row */}
@@ -240,7 +264,7 @@ export default function SimdModule() {
           {/* Controls */}
           <div className="flex items-center gap-3 mb-6">
             <button onClick={() => isPlaying ? setIsPlaying(false) : setIsPlaying(true)}
-              disabled={allDone}
+              disabled={allDone} aria-keyshortcuts={ariaKeys('playPause')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#8b5cf6] text-white text-sm font-medium hover:bg-[#7c3aed] disabled:opacity-40 transition-all">
               {isPlaying ? (
                 <><div className="flex gap-0.5"><div className="w-1 h-3 bg-white rounded-sm" /><div className="w-1 h-3 bg-white rounded-sm" /></div> Pause</>
@@ -248,11 +272,11 @@ export default function SimdModule() {
                 <><Play size={14} fill="white" /> {allDone ? 'Done' : 'Play'}</>
               )}
             </button>
-            <button onClick={stepForward} disabled={allDone}
+            <button onClick={stepForward} disabled={allDone} aria-keyshortcuts={ariaKeys('step')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white disabled:opacity-40 transition-all">
               Step
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-label="Reset" aria-keyshortcuts={ariaKeys('reset')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} />
             </button>
@@ -266,6 +290,12 @@ export default function SimdModule() {
                 onChange={(e) => setSpeed(Number(e.target.value))} className="w-24 accent-[#8b5cf6]" />
               <span className="text-xs font-mono text-[#a1a1aa] w-8">{speed}x</span>
             </div>
+            <StepAnnouncer text={describeLanes(op, activeLanes, results)} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+            />
           </div>
 
           {/* Metrics */}
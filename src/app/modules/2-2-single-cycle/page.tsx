@@ -1,51 +1,52 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
-  Cpu,
   ChevronDown,
   Info,
-  ArrowRight,
   Zap,
   Database,
   MemoryStick,
   Binary,
   CircuitBoard,
-  BookOpen,
   Hash,
+  AlertTriangle,
+  FileCode,
+  FastForward,
+  Workflow,
+  Plus,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { MIPS_REGISTERS, assemble, type AssemblyDiagnostic } from '@/lib/sim/mips';
+import {
+  MULTI_CYCLE_FSM,
+  MULTI_CYCLE_TRANSITIONS,
+  createMachineState,
+  executeInstruction,
+  getControlSignals,
+  instructionAt,
+  loadProgram,
+  multiCycleStates,
+  registerTransfer,
+  runProgram,
+  type DataMemory,
+  type DatapathInstruction,
+  type ExecutionTrace,
+  type MIPSOp,
+  type MachineState,
+  type MultiCycleState,
+} from '@/lib/sim/datapath';
 
 // ──────────────────────────── Types ────────────────────────────
 
-type MIPSOp = 'ADD' | 'SUB' | 'AND' | 'OR' | 'LW' | 'SW' | 'BEQ' | 'SLT';
-
-interface InstructionDef {
-  op: MIPSOp;
-  assembly: string;
-  format: 'R' | 'I';
-  rs: string;
-  rt: string;
-  rd: string;
-  imm: number;
-  description: string;
-}
-
-interface ControlSignals {
-  RegDst: number;
-  ALUSrc: number;
-  MemToReg: number;
-  RegWrite: number;
-  MemRead: number;
-  MemWrite: number;
-  Branch: number;
-  ALUOp: [number, number];
-}
-
 type DatapathPhase = 'idle' | 'fetch' | 'decode' | 'execute' | 'memory' | 'writeback' | 'complete';
 
+type Variant = 'single' | 'multi';
+
 interface ComponentDef {
   id: string;
   label: string;
@@ -69,13 +70,8 @@ interface WireDef {
   dataLabel?: string;
 }
 
-interface RegisterFile {
-  [key: string]: number;
-}
-
-interface DataMemory {
-  [address: number]: number;
-}
+/** Multi-cycle wires are switched on per FSM state instead of per phase. */
+type DatapathWire = Omit<WireDef, 'phases'>;
 
 // ──────────────────────────── Constants ────────────────────────────
 
@@ -99,67 +95,53 @@ const PHASE_COLORS: Record<DatapathPhase, string> = {
   complete: '#10b981',
 };
 
+const SINGLE_CYCLE_PHASES: DatapathPhase[] = ['fetch', 'decode', 'execute', 'memory', 'writeback'];
+
+/** The single-cycle phase whose work each FSM state does, for colors. */
+const STATE_PHASE: Record<MultiCycleState, DatapathPhase> = {
+  Fetch: 'fetch',
+  Decode: 'decode',
+  MemAdr: 'execute',
+  MemRead: 'memory',
+  MemWriteback: 'writeback',
+  MemWrite: 'memory',
+  Execute: 'execute',
+  ALUWriteback: 'writeback',
+  Branch: 'execute',
+  ImmExecute: 'execute',
+  ImmWriteback: 'writeback',
+  Jump: 'execute',
+  JumpLink: 'writeback',
+  JumpRegister: 'execute',
+};
+
+const FORMAT_COLORS: Record<string, string> = { R: '#10b981', I: '#f59e0b', J: '#06b6d4' };
+
 const ACTIVE_WIRE_COLOR = '#10b981';
 const INACTIVE_WIRE_COLOR = '#2a2a3e';
 const HIGHLIGHT_BORDER_COLOR = '#10b981';
 
-// Datapath component positions (SVG coordinates)
+// Datapath component positions (SVG coordinates); the next-PC logic sits above y = 0
 const COMPONENTS: ComponentDef[] = [
   { id: 'pc', label: 'Program Counter', shortLabel: 'PC', x: 30, y: 180, width: 60, height: 70, color: '#6366f1', description: 'Holds address of current instruction' },
   { id: 'imem', label: 'Instruction Memory', shortLabel: 'Instr\nMem', x: 130, y: 155, width: 80, height: 120, color: '#6366f1', description: 'Stores the program instructions' },
   { id: 'control', label: 'Control Unit', shortLabel: 'Control', x: 260, y: 50, width: 80, height: 80, color: '#a855f7', description: 'Generates control signals from opcode' },
   { id: 'regfile', label: 'Register File', shortLabel: 'Reg\nFile', x: 280, y: 175, width: 80, height: 120, color: '#06b6d4', description: 'Contains 32 general-purpose registers' },
-  { id: 'signext', label: 'Sign Extend', shortLabel: 'Sign\nExt', x: 290, y: 340, width: 70, height: 50, color: '#f59e0b', description: 'Sign-extends 16-bit immediate to 32 bits' },
+  { id: 'signext', label: 'Extend', shortLabel: 'Extend', x: 290, y: 340, width: 70, height: 50, color: '#f59e0b', description: 'Sign-extends (or, for ORI, zero-extends) the 16-bit immediate to 32 bits' },
   { id: 'mux_alusrc', label: 'ALU Src MUX', shortLabel: 'MUX', x: 410, y: 250, width: 30, height: 60, color: '#71717a', description: 'Selects ALU second input: register or immediate' },
   { id: 'alu', label: 'ALU', shortLabel: 'ALU', x: 470, y: 190, width: 70, height: 100, color: '#f59e0b', description: 'Performs arithmetic/logic operations' },
   { id: 'dmem', label: 'Data Memory', shortLabel: 'Data\nMem', x: 580, y: 175, width: 80, height: 120, color: '#10b981', description: 'Stores and loads data words' },
-  { id: 'mux_memtoreg', label: 'MemToReg MUX', shortLabel: 'MUX', x: 700, y: 210, width: 30, height: 60, color: '#71717a', description: 'Selects write data: ALU result or memory data' },
-  { id: 'mux_regdst', label: 'RegDst MUX', shortLabel: 'MUX', x: 240, y: 305, width: 30, height: 40, color: '#71717a', description: 'Selects destination register: rt or rd' },
+  { id: 'mux_memtoreg', label: 'MemToReg MUX', shortLabel: 'MUX', x: 700, y: 210, width: 30, height: 60, color: '#71717a', description: 'Selects write data: ALU result, memory data or PC + 4' },
+  { id: 'mux_regdst', label: 'RegDst MUX', shortLabel: 'MUX', x: 240, y: 305, width: 30, height: 40, color: '#71717a', description: 'Selects destination register: rt, rd or $ra' },
   { id: 'add_pc4', label: 'PC + 4 Adder', shortLabel: 'Add\n+4', x: 130, y: 50, width: 55, height: 45, color: '#6366f1', description: 'Computes PC + 4 for next sequential instruction' },
   { id: 'add_branch', label: 'Branch Adder', shortLabel: 'Branch\nAdd', x: 420, y: 50, width: 60, height: 45, color: '#ec4899', description: 'Computes branch target: PC+4 + offset*4' },
   { id: 'mux_branch', label: 'Branch MUX', shortLabel: 'MUX', x: 520, y: 55, width: 30, height: 40, color: '#71717a', description: 'Selects next PC: PC+4 or branch target' },
-  { id: 'and_branch', label: 'AND Gate', shortLabel: 'AND', x: 500, y: 115, width: 40, height: 30, color: '#ec4899', description: 'Branch taken = Branch signal AND ALU Zero' },
+  { id: 'and_branch', label: 'AND Gate', shortLabel: 'AND', x: 500, y: 115, width: 40, height: 30, color: '#ec4899', description: 'Branch taken = (Branch AND Zero) OR (BranchNE AND NOT Zero)' },
+  { id: 'jump_addr', label: 'Jump Address', shortLabel: 'Jump\nAddr', x: 440, y: -52, width: 64, height: 26, color: '#ec4899', description: 'Shifts the 26-bit target left 2 and prepends PC+4[31:28]' },
+  { id: 'mux_jump', label: 'Jump MUX', shortLabel: 'MUX', x: 580, y: -56, width: 28, height: 44, color: '#71717a', description: 'Selects next PC: branch MUX output or jump address' },
+  { id: 'mux_jr', label: 'Jump Register MUX', shortLabel: 'MUX', x: 640, y: -56, width: 28, height: 44, color: '#71717a', description: 'Selects next PC: jump MUX output or register rs' },
 ];
 
-// Generate control signals for each instruction type
-function getControlSignals(op: MIPSOp): ControlSignals {
-  switch (op) {
-    case 'ADD': case 'SUB': case 'AND': case 'OR': case 'SLT':
-      return { RegDst: 1, ALUSrc: 0, MemToReg: 0, RegWrite: 1, MemRead: 0, MemWrite: 0, Branch: 0, ALUOp: [1, 0] };
-    case 'LW':
-      return { RegDst: 0, ALUSrc: 1, MemToReg: 1, RegWrite: 1, MemRead: 1, MemWrite: 0, Branch: 0, ALUOp: [0, 0] };
-    case 'SW':
-      return { RegDst: 0, ALUSrc: 1, MemToReg: 0, RegWrite: 0, MemRead: 0, MemWrite: 1, Branch: 0, ALUOp: [0, 0] };
-    case 'BEQ':
-      return { RegDst: 0, ALUSrc: 0, MemToReg: 0, RegWrite: 0, MemRead: 0, MemWrite: 0, Branch: 1, ALUOp: [0, 1] };
-    default:
-      return { RegDst: 0, ALUSrc: 0, MemToReg: 0, RegWrite: 0, MemRead: 0, MemWrite: 0, Branch: 0, ALUOp: [0, 0] };
-  }
-}
-
-function getALUOperation(op: MIPSOp): string {
-  switch (op) {
-    case 'ADD': case 'LW': case 'SW': return 'ADD';
-    case 'SUB': case 'BEQ': return 'SUB';
-    case 'AND': return 'AND';
-    case 'OR': return 'OR';
-    case 'SLT': return 'SLT';
-    default: return 'ADD';
-  }
-}
-
-function computeALU(aluOp: string, a: number, b: number): { result: number; zero: boolean } {
-  let result = 0;
-  switch (aluOp) {
-    case 'ADD': result = a + b; break;
-    case 'SUB': result = a - b; break;
-    case 'AND': result = a & b; break;
-    case 'OR': result = a | b; break;
-    case 'SLT': result = a < b ? 1 : 0; break;
-  }
-  return { result, zero: result === 0 };
-}
-
 // ──────────────────────────── Wire Definitions ────────────────────────────
 
 function buildWires(): WireDef[] {
@@ -175,11 +157,13 @@ function buildWires(): WireDef[] {
     { id: 'imem-to-signext', from: 'imem', to: 'signext', label: 'imm [15:0]', path: [[210, 260], [250, 260], [250, 365], [290, 365]], phases: ['decode'], color: '#f59e0b' },
     { id: 'imem-to-mux-rd', from: 'imem', to: 'mux_regdst', label: 'rd [15:11]', path: [[210, 245], [235, 245], [235, 325], [240, 325]], phases: ['decode'], color: '#10b981' },
     { id: 'imem-to-mux-rt2', from: 'imem', to: 'mux_regdst', label: 'rt [20:16]', path: [[210, 255], [225, 255], [225, 315], [240, 315]], phases: ['decode'], color: '#06b6d4' },
+    { id: 'imem-to-jumpaddr', from: 'imem', to: 'jump_addr', label: 'target [25:0]', path: [[210, 165], [245, 165], [245, -39], [440, -39]], phases: ['decode'], color: '#ec4899' },
 
     // Register file outputs
     { id: 'regfile-rd1', from: 'regfile', to: 'alu', label: 'Read Data 1', path: [[360, 210], [470, 210]], phases: ['execute'], color: '#06b6d4' },
     { id: 'regfile-rd2-alu', from: 'regfile', to: 'mux_alusrc', label: 'Read Data 2', path: [[360, 250], [410, 260]], phases: ['execute'], color: '#06b6d4' },
     { id: 'regfile-rd2-dmem', from: 'regfile', to: 'dmem', label: 'Write Data', path: [[360, 270], [390, 270], [390, 310], [570, 310], [570, 270], [580, 270]], phases: ['memory'], color: '#06b6d4' },
+    { id: 'regfile-rs-to-jrmux', from: 'regfile', to: 'mux_jr', label: 'rs (JR)', path: [[360, 190], [385, 190], [385, -4], [630, -4], [630, -22], [640, -22]], phases: ['execute'], color: '#06b6d4' },
 
     // Sign extend to MUX
     { id: 'signext-to-mux', from: 'signext', to: 'mux_alusrc', label: 'Sign-Extended', path: [[360, 365], [425, 365], [425, 310]], phases: ['execute'], color: '#f59e0b' },
@@ -205,19 +189,26 @@ function buildWires(): WireDef[] {
     // PC+4 adder output
     { id: 'add4-to-branchmux', from: 'add_pc4', to: 'mux_branch', label: 'PC + 4', path: [[185, 72], [520, 62]], phases: ['fetch'], color: '#6366f1' },
     { id: 'add4-to-branchadd', from: 'add_pc4', to: 'add_branch', label: 'PC + 4', path: [[185, 65], [420, 65]], phases: ['execute'], color: '#6366f1' },
+    { id: 'pc4-to-memtoreg', from: 'add_pc4', to: 'mux_memtoreg', label: 'PC + 4 (JAL)', path: [[185, 90], [205, 90], [205, 150], [570, 150], [570, 165], [680, 165], [680, 262], [700, 262]], phases: ['writeback'], color: '#6366f1' },
 
     // Branch adder output
     { id: 'branchadd-to-mux', from: 'add_branch', to: 'mux_branch', label: 'Branch Target', path: [[480, 72], [520, 82]], phases: ['execute'], color: '#ec4899' },
 
-    // Branch MUX output to PC
-    { id: 'branchmux-to-pc', from: 'mux_branch', to: 'pc', label: 'Next PC', path: [[550, 75], [560, 75], [560, 25], [20, 25], [20, 215], [30, 215]], phases: ['fetch', 'writeback'], color: '#6366f1' },
+    // Next-PC selection: branch MUX, then jump MUX, then jump register MUX
+    { id: 'branchmux-to-jumpmux', from: 'mux_branch', to: 'mux_jump', label: 'PC+4 / Branch', path: [[550, 75], [565, 75], [565, -22], [580, -22]], phases: ['fetch', 'writeback'], color: '#6366f1' },
+    { id: 'jumpaddr-to-mux', from: 'jump_addr', to: 'mux_jump', label: 'Jump Addr', path: [[504, -39], [540, -39], [540, -46], [580, -46]], phases: ['execute'], color: '#ec4899' },
+    { id: 'jumpmux-to-jrmux', from: 'mux_jump', to: 'mux_jr', label: '', path: [[608, -34], [625, -34], [625, -46], [640, -46]], phases: ['fetch', 'writeback'], color: '#6366f1' },
+    { id: 'jrmux-to-pc', from: 'mux_jr', to: 'pc', label: 'Next PC', path: [[668, -34], [680, -34], [680, -58], [15, -58], [15, 215], [30, 215]], phases: ['fetch', 'writeback'], color: '#6366f1' },
 
     // AND gate wires
     { id: 'branch-to-and', from: 'control', to: 'and_branch', label: 'Branch', path: [[340, 80], [510, 80], [510, 115]], phases: ['execute'], color: '#a855f7' },
 
     // Control signal wires (simplified)
     { id: 'ctrl-regdst', from: 'control', to: 'mux_regdst', label: 'RegDst', path: [[260, 100], [255, 100], [255, 305]], phases: ['decode'], color: '#a855f7' },
+    { id: 'ctrl-extop', from: 'control', to: 'signext', label: 'ExtOp', path: [[340, 120], [375, 120], [375, 330], [340, 330], [340, 340]], phases: ['decode'], color: '#a855f7' },
     { id: 'ctrl-alusrc', from: 'control', to: 'mux_alusrc', label: 'ALUSrc', path: [[340, 65], [405, 65], [405, 245], [410, 250]], phases: ['execute'], color: '#a855f7' },
+    { id: 'ctrl-jump', from: 'control', to: 'mux_jump', label: 'Jump', path: [[320, 50], [320, 8], [594, 8], [594, -14]], phases: ['execute'], color: '#a855f7' },
+    { id: 'ctrl-jumpreg', from: 'control', to: 'mux_jr', label: 'JumpReg', path: [[330, 50], [330, 14], [654, 14], [654, -14]], phases: ['execute'], color: '#a855f7' },
     { id: 'ctrl-memtoreg', from: 'control', to: 'mux_memtoreg', label: 'MemToReg', path: [[340, 75], [690, 75], [690, 210]], phases: ['writeback'], color: '#a855f7' },
     { id: 'ctrl-regwrite', from: 'control', to: 'regfile', label: 'RegWrite', path: [[340, 85], [365, 85], [365, 175]], phases: ['writeback'], color: '#a855f7' },
     { id: 'ctrl-memread', from: 'control', to: 'dmem', label: 'MemRead', path: [[340, 55], [620, 55], [620, 175]], phases: ['memory'], color: '#a855f7' },
@@ -227,13 +218,109 @@ function buildWires(): WireDef[] {
 
 const WIRES = buildWires();
 
+// ──────────────────────────── Multi-Cycle Datapath ────────────────────────────
+
+// One memory and one ALU, with IR, MDR, A, B and ALUOut holding values between states
+const MULTI_COMPONENTS: ComponentDef[] = [
+  { id: 'pc', label: 'Program Counter', shortLabel: 'PC', x: 20, y: 190, width: 50, height: 60, color: '#6366f1', description: 'Holds the address of the current instruction; written when PCWrite is set or a branch is taken' },
+  { id: 'mux_iord', label: 'IorD MUX', shortLabel: 'MUX', x: 95, y: 195, width: 24, height: 50, color: '#71717a', description: 'Selects the memory address: PC to fetch, ALUOut for data' },
+  { id: 'mem', label: 'Memory', shortLabel: 'Instr /\nData\nMem', x: 140, y: 170, width: 80, height: 110, color: '#6366f1', description: 'One memory holds both instructions and data' },
+  { id: 'ir', label: 'Instruction Register', shortLabel: 'IR', x: 250, y: 150, width: 46, height: 70, color: '#6366f1', description: 'Holds the fetched instruction while it executes' },
+  { id: 'mdr', label: 'Memory Data Register', shortLabel: 'MDR', x: 250, y: 250, width: 46, height: 40, color: '#10b981', description: 'Holds the word a load read until write back' },
+  { id: 'control', label: 'Control FSM', shortLabel: 'Control\nFSM', x: 250, y: 25, width: 100, height: 60, color: '#a855f7', description: 'Moore machine whose current state sets every control signal' },
+  { id: 'mux_regdst', label: 'RegDst MUX', shortLabel: 'MUX', x: 330, y: 235, width: 24, height: 44, color: '#71717a', description: 'Selects the write register: rt, rd or $ra' },
+  { id: 'mux_memtoreg', label: 'MemToReg MUX', shortLabel: 'MUX', x: 330, y: 300, width: 24, height: 56, color: '#71717a', description: 'Selects the write data: ALUOut, MDR or PC' },
+  { id: 'regfile', label: 'Register File', shortLabel: 'Reg\nFile', x: 380, y: 160, width: 80, height: 130, color: '#06b6d4', description: 'Contains 32 general-purpose registers' },
+  { id: 'signext', label: 'Extend', shortLabel: 'Extend', x: 380, y: 330, width: 70, height: 40, color: '#f59e0b', description: 'Extends the immediate, and also passes it on shifted left 2' },
+  { id: 'reg_a', label: 'Register A', shortLabel: 'A', x: 490, y: 170, width: 36, height: 36, color: '#06b6d4', description: 'Holds the value of rs between states' },
+  { id: 'reg_b', label: 'Register B', shortLabel: 'B', x: 490, y: 240, width: 36, height: 36, color: '#06b6d4', description: 'Holds the value of rt between states' },
+  { id: 'mux_srca', label: 'ALUSrcA MUX', shortLabel: 'MUX', x: 555, y: 150, width: 24, height: 50, color: '#71717a', description: 'ALU input A: PC or A' },
+  { id: 'mux_srcb', label: 'ALUSrcB MUX', shortLabel: 'MUX', x: 555, y: 230, width: 24, height: 80, color: '#71717a', description: 'ALU input B: B, 4, the immediate or the immediate × 4' },
+  { id: 'alu', label: 'ALU', shortLabel: 'ALU', x: 605, y: 160, width: 55, height: 130, color: '#f59e0b', description: 'Computes PC + 4, branch targets, addresses and results in different states' },
+  { id: 'aluout', label: 'ALUOut', shortLabel: 'ALU\nOut', x: 690, y: 200, width: 44, height: 40, color: '#f59e0b', description: 'Holds the ALU result for the next state' },
+  { id: 'jump_addr', label: 'Jump Address', shortLabel: 'Jump\nAddr', x: 600, y: 40, width: 64, height: 30, color: '#ec4899', description: 'Shifts the 26-bit target left 2 and prepends PC[31:28]' },
+  { id: 'mux_pcsrc', label: 'PCSrc MUX', shortLabel: 'MUX', x: 710, y: 40, width: 26, height: 90, color: '#71717a', description: 'Next PC: ALU result, ALUOut, jump address or A' },
+];
+
+const MULTI_WIRES: DatapathWire[] = [
+  { id: 'pc-to-iord', from: 'pc', to: 'mux_iord', label: 'PC', path: [[70, 210], [95, 210]], color: '#6366f1' },
+  { id: 'aluout-to-iord', from: 'aluout', to: 'mux_iord', label: 'ALUOut', path: [[734, 230], [758, 230], [758, 400], [85, 400], [85, 235], [95, 235]], color: '#f59e0b' },
+  { id: 'iord-to-mem', from: 'mux_iord', to: 'mem', label: 'Adr', path: [[119, 220], [140, 220]], color: '#6366f1' },
+  { id: 'b-to-mem', from: 'reg_b', to: 'mem', label: 'Write Data', path: [[526, 266], [535, 266], [535, 385], [130, 385], [130, 260], [140, 260]], color: '#06b6d4' },
+  { id: 'mem-to-ir', from: 'mem', to: 'ir', label: 'Instr', path: [[220, 190], [250, 190]], color: '#6366f1' },
+  { id: 'mem-to-mdr', from: 'mem', to: 'mdr', label: 'Data', path: [[220, 265], [250, 265]], color: '#10b981' },
+  { id: 'ir-to-control', from: 'ir', to: 'control', label: 'Opcode', path: [[273, 150], [273, 85]], color: '#6366f1' },
+  { id: 'ir-to-regfile-rs', from: 'ir', to: 'regfile', label: 'rs', path: [[296, 170], [380, 170]], color: '#6366f1' },
+  { id: 'ir-to-regfile-rt', from: 'ir', to: 'regfile', label: 'rt', path: [[296, 185], [380, 185]], color: '#06b6d4' },
+  { id: 'ir-to-regdst', from: 'ir', to: 'mux_regdst', label: 'rt / rd', path: [[296, 205], [312, 205], [312, 245], [330, 245]], color: '#10b981' },
+  { id: 'ir-to-signext', from: 'ir', to: 'signext', label: 'imm', path: [[296, 212], [304, 212], [304, 362], [380, 362]], color: '#f59e0b' },
+  { id: 'ir-to-jumpaddr', from: 'ir', to: 'jump_addr', label: 'target', path: [[296, 160], [310, 160], [310, 100], [580, 100], [580, 55], [600, 55]], color: '#ec4899' },
+  { id: 'mdr-to-memtoreg', from: 'mdr', to: 'mux_memtoreg', label: 'MDR', path: [[296, 270], [316, 270], [316, 310], [330, 310]], color: '#10b981' },
+  { id: 'aluout-to-memtoreg', from: 'aluout', to: 'mux_memtoreg', label: 'ALUOut', path: [[734, 215], [748, 215], [748, 392], [322, 392], [322, 328], [330, 328]], color: '#f59e0b' },
+  { id: 'pc-to-memtoreg', from: 'pc', to: 'mux_memtoreg', label: 'PC (JAL)', path: [[45, 250], [45, 346], [330, 346]], color: '#6366f1' },
+  { id: 'memtoreg-to-regfile', from: 'mux_memtoreg', to: 'regfile', label: 'Write Data', path: [[354, 328], [368, 328], [368, 280], [380, 280]], color: '#ec4899' },
+  { id: 'regdst-to-regfile', from: 'mux_regdst', to: 'regfile', label: 'Write Reg', path: [[354, 257], [380, 257]], color: '#10b981' },
+  { id: 'regfile-to-a', from: 'regfile', to: 'reg_a', label: 'RD1', path: [[460, 188], [490, 188]], color: '#06b6d4' },
+  { id: 'regfile-to-b', from: 'regfile', to: 'reg_b', label: 'RD2', path: [[460, 258], [490, 258]], color: '#06b6d4' },
+  { id: 'pc-to-srca', from: 'pc', to: 'mux_srca', label: 'PC', path: [[45, 190], [45, 140], [540, 140], [540, 165], [555, 165]], color: '#6366f1' },
+  { id: 'a-to-srca', from: 'reg_a', to: 'mux_srca', label: 'A', path: [[526, 188], [555, 188]], color: '#06b6d4' },
+  { id: 'b-to-srcb', from: 'reg_b', to: 'mux_srcb', label: 'B', path: [[526, 250], [555, 250]], color: '#06b6d4' },
+  { id: 'signext-to-srcb', from: 'signext', to: 'mux_srcb', label: 'Imm', path: [[450, 342], [545, 342], [545, 285], [555, 285]], color: '#f59e0b' },
+  { id: 'shift-to-srcb', from: 'signext', to: 'mux_srcb', label: 'Imm × 4', path: [[450, 360], [550, 360], [550, 300], [555, 300]], color: '#f59e0b' },
+  { id: 'srca-to-alu', from: 'mux_srca', to: 'alu', label: 'SrcA', path: [[579, 175], [605, 175]], color: '#f59e0b' },
+  { id: 'srcb-to-alu', from: 'mux_srcb', to: 'alu', label: 'SrcB', path: [[579, 270], [605, 270]], color: '#f59e0b' },
+  { id: 'alu-to-aluout', from: 'alu', to: 'aluout', label: 'Result', path: [[660, 220], [690, 220]], color: '#f59e0b' },
+  { id: 'alu-to-pcsrc', from: 'alu', to: 'mux_pcsrc', label: 'Result', path: [[660, 195], [675, 195], [675, 60], [710, 60]], color: '#f59e0b' },
+  { id: 'aluout-to-pcsrc', from: 'aluout', to: 'mux_pcsrc', label: 'ALUOut', path: [[722, 200], [722, 127]], color: '#f59e0b' },
+  { id: 'jumpaddr-to-pcsrc', from: 'jump_addr', to: 'mux_pcsrc', label: 'Jump', path: [[664, 50], [710, 50]], color: '#ec4899' },
+  { id: 'a-to-pcsrc', from: 'reg_a', to: 'mux_pcsrc', label: 'A (JR)', path: [[508, 170], [508, 115], [710, 115]], color: '#06b6d4' },
+  { id: 'pcsrc-to-pc', from: 'mux_pcsrc', to: 'pc', label: 'Next PC', path: [[736, 85], [765, 85], [765, 12], [10, 12], [10, 220], [20, 220]], color: '#6366f1' },
+];
+
+const WRITEBACK_WIRES = ['aluout-to-memtoreg', 'memtoreg-to-regfile', 'ir-to-regdst', 'regdst-to-regfile'];
+
+const MULTI_STATE_WIRES: Record<MultiCycleState, string[]> = {
+  Fetch: ['pc-to-iord', 'iord-to-mem', 'mem-to-ir', 'pc-to-srca', 'srca-to-alu', 'srcb-to-alu', 'alu-to-pcsrc', 'pcsrc-to-pc'],
+  Decode: ['ir-to-control', 'ir-to-regfile-rs', 'ir-to-regfile-rt', 'regfile-to-a', 'regfile-to-b', 'ir-to-signext', 'shift-to-srcb', 'pc-to-srca', 'srca-to-alu', 'srcb-to-alu', 'alu-to-aluout'],
+  MemAdr: ['a-to-srca', 'srca-to-alu', 'ir-to-signext', 'signext-to-srcb', 'srcb-to-alu', 'alu-to-aluout'],
+  MemRead: ['aluout-to-iord', 'iord-to-mem', 'mem-to-mdr'],
+  MemWriteback: ['mdr-to-memtoreg', 'memtoreg-to-regfile', 'ir-to-regdst', 'regdst-to-regfile'],
+  MemWrite: ['aluout-to-iord', 'iord-to-mem', 'b-to-mem'],
+  Execute: ['a-to-srca', 'b-to-srcb', 'srca-to-alu', 'srcb-to-alu', 'alu-to-aluout'],
+  ALUWriteback: WRITEBACK_WIRES,
+  Branch: ['a-to-srca', 'b-to-srcb', 'srca-to-alu', 'srcb-to-alu', 'aluout-to-pcsrc', 'pcsrc-to-pc'],
+  ImmExecute: ['a-to-srca', 'srca-to-alu', 'ir-to-signext', 'signext-to-srcb', 'srcb-to-alu', 'alu-to-aluout'],
+  ImmWriteback: WRITEBACK_WIRES,
+  Jump: ['ir-to-jumpaddr', 'jumpaddr-to-pcsrc', 'pcsrc-to-pc'],
+  JumpLink: ['ir-to-jumpaddr', 'jumpaddr-to-pcsrc', 'pcsrc-to-pc', 'pc-to-memtoreg', 'memtoreg-to-regfile', 'regdst-to-regfile'],
+  JumpRegister: ['a-to-pcsrc', 'pcsrc-to-pc'],
+};
+
+// Control FSM diagram positions (node centers)
+const FSM_POSITIONS: Record<MultiCycleState, [number, number]> = {
+  Fetch: [100, 40],
+  Decode: [400, 40],
+  MemAdr: [100, 120],
+  Execute: [250, 120],
+  ImmExecute: [350, 120],
+  Branch: [450, 120],
+  Jump: [550, 120],
+  JumpLink: [650, 120],
+  JumpRegister: [750, 120],
+  MemRead: [50, 200],
+  MemWrite: [150, 200],
+  ALUWriteback: [250, 200],
+  ImmWriteback: [350, 200],
+  MemWriteback: [50, 280],
+};
+
 // ──────────────────────────── Preset Scenarios ────────────────────────────
 
 interface ProgramScenario {
   label: string;
   desc: string;
-  instructions: InstructionDef[];
-  registers: RegisterFile;
+  source: string;
+  registers: Record<string, number>;
   memory: DataMemory;
 }
 
@@ -241,74 +328,124 @@ const PRESET_SCENARIOS: Record<string, ProgramScenario> = {
   r_type_add: {
     label: 'R-Type (ADD)',
     desc: 'ADD $t2, $t0, $t1 - adds two registers',
-    instructions: [
-      { op: 'ADD', assembly: 'ADD $t2, $t0, $t1', format: 'R', rs: '$t0', rt: '$t1', rd: '$t2', imm: 0, description: '$t2 = $t0 + $t1' },
-      { op: 'SUB', assembly: 'SUB $t3, $t2, $t0', format: 'R', rs: '$t2', rt: '$t0', rd: '$t3', imm: 0, description: '$t3 = $t2 - $t0' },
-      { op: 'AND', assembly: 'AND $t4, $t0, $t1', format: 'R', rs: '$t0', rt: '$t1', rd: '$t4', imm: 0, description: '$t4 = $t0 & $t1' },
-      { op: 'OR', assembly: 'OR $t5, $t0, $t1', format: 'R', rs: '$t0', rt: '$t1', rd: '$t5', imm: 0, description: '$t5 = $t0 | $t1' },
-    ],
-    registers: { '$t0': 5, '$t1': 3, '$t2': 0, '$t3': 0, '$t4': 0, '$t5': 0 },
+    source: ['ADD $t2, $t0, $t1', 'SUB $t3, $t2, $t0', 'AND $t4, $t0, $t1', 'OR  $t5, $t0, $t1'].join('\n'),
+    registers: { '$t0': 5, '$t1': 3 },
     memory: {},
   },
   load_word: {
     label: 'Load Word',
     desc: 'LW $t0, 0($t1) - loads from memory into register',
-    instructions: [
-      { op: 'LW', assembly: 'LW $t0, 0($t1)', format: 'I', rs: '$t1', rt: '$t0', rd: '', imm: 0, description: '$t0 = Memory[$t1 + 0]' },
-      { op: 'LW', assembly: 'LW $t2, 4($t1)', format: 'I', rs: '$t1', rt: '$t2', rd: '', imm: 4, description: '$t2 = Memory[$t1 + 4]' },
-      { op: 'ADD', assembly: 'ADD $t3, $t0, $t2', format: 'R', rs: '$t0', rt: '$t2', rd: '$t3', imm: 0, description: '$t3 = $t0 + $t2' },
-      { op: 'SW', assembly: 'SW $t3, 8($t1)', format: 'I', rs: '$t1', rt: '$t3', rd: '', imm: 8, description: 'Memory[$t1 + 8] = $t3' },
-    ],
-    registers: { '$t0': 0, '$t1': 100, '$t2': 0, '$t3': 0 },
+    source: ['LW  $t0, 0($t1)', 'LW  $t2, 4($t1)', 'ADD $t3, $t0, $t2', 'SW  $t3, 8($t1)'].join('\n'),
+    registers: { '$t1': 100 },
     memory: { 100: 42, 104: 18, 108: 0 },
   },
   store_word: {
     label: 'Store Word',
     desc: 'SW $t0, 0($t1) - stores register value into memory',
-    instructions: [
-      { op: 'ADD', assembly: 'ADD $t0, $t1, $t2', format: 'R', rs: '$t1', rt: '$t2', rd: '$t0', imm: 0, description: '$t0 = $t1 + $t2' },
-      { op: 'SW', assembly: 'SW $t0, 0($t3)', format: 'I', rs: '$t3', rt: '$t0', rd: '', imm: 0, description: 'Memory[$t3 + 0] = $t0' },
-      { op: 'SW', assembly: 'SW $t1, 4($t3)', format: 'I', rs: '$t3', rt: '$t1', rd: '', imm: 4, description: 'Memory[$t3 + 4] = $t1' },
-      { op: 'LW', assembly: 'LW $t4, 0($t3)', format: 'I', rs: '$t3', rt: '$t4', rd: '', imm: 0, description: '$t4 = Memory[$t3 + 0]' },
-    ],
-    registers: { '$t0': 0, '$t1': 7, '$t2': 13, '$t3': 200, '$t4': 0 },
+    source: ['ADD $t0, $t1, $t2', 'SW  $t0, 0($t3)', 'SW  $t1, 4($t3)', 'LW  $t4, 0($t3)'].join('\n'),
+    registers: { '$t1': 7, '$t2': 13, '$t3': 200 },
     memory: { 200: 0, 204: 0 },
   },
   branch: {
     label: 'Branch (BEQ)',
     desc: 'BEQ $t0, $t1, 2 - branches if registers are equal',
-    instructions: [
-      { op: 'ADD', assembly: 'ADD $t0, $t1, $t2', format: 'R', rs: '$t1', rt: '$t2', rd: '$t0', imm: 0, description: '$t0 = $t1 + $t2' },
-      { op: 'BEQ', assembly: 'BEQ $t0, $t3, 2', format: 'I', rs: '$t0', rt: '$t3', rd: '', imm: 2, description: 'if ($t0 == $t3) PC += 2*4' },
-      { op: 'SUB', assembly: 'SUB $t4, $t0, $t1', format: 'R', rs: '$t0', rt: '$t1', rd: '$t4', imm: 0, description: '$t4 = $t0 - $t1' },
-      { op: 'SLT', assembly: 'SLT $t5, $t0, $t1', format: 'R', rs: '$t0', rt: '$t1', rd: '$t5', imm: 0, description: '$t5 = ($t0 < $t1) ? 1 : 0' },
-    ],
-    registers: { '$t0': 0, '$t1': 5, '$t2': 3, '$t3': 8, '$t4': 0, '$t5': 0 },
+    source: ['ADD $t0, $t1, $t2', 'BEQ $t0, $t3, 2', 'SUB $t4, $t0, $t1', 'SLT $t5, $t0, $t1'].join('\n'),
+    registers: { '$t1': 5, '$t2': 3, '$t3': 8 },
+    memory: {},
+  },
+  jump_link: {
+    label: 'Jump & Link',
+    desc: 'JAL into a function that returns with JR $ra, then build a constant with LUI and ORI',
+    source: [
+      'main:   addi $a0, $zero, 6',
+      '        jal  double',
+      '        lui  $t0, 0x1234',
+      '        ori  $t0, $t0, 0x5678',
+      '        j    done',
+      'double: add  $v0, $a0, $a0',
+      '        jr   $ra',
+      'done:   nop',
+    ].join('\n'),
+    registers: {},
+    memory: {},
+  },
+  array_sum: {
+    label: 'Array Sum Loop',
+    desc: 'Sum a .data array with a BNE loop and store the total after it',
+    source: [
+      '        .data',
+      'array:  .word 3, 1, 4, 1, 5',
+      '        .text',
+      '        la   $t0, array',
+      '        li   $t1, 5          # elements left',
+      'loop:   lw   $t2, 0($t0)',
+      '        add  $v0, $v0, $t2',
+      '        addi $t0, $t0, 4',
+      '        addi $t1, $t1, -1',
+      '        bne  $t1, $zero, loop',
+      '        sw   $v0, 0($t0)',
+    ].join('\n'),
+    registers: {},
     memory: {},
   },
 };
 
 // ──────────────────────────── Helpers ────────────────────────────
 
+function toHex(value: number): string {
+  return `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/** Reads a decimal or 0x-hex word; null when it is not one. */
+function parseWord(text: string): number | null {
+  const trimmed = text.trim();
+  let value: number;
+  if (/^-?\d+$/.test(trimmed)) value = Number(trimmed);
+  else if (/^0x[0-9a-f]{1,8}$/i.test(trimmed)) value = parseInt(trimmed, 16);
+  else return null;
+  return value < -(2 ** 31) || value > 2 ** 32 - 1 ? null : value | 0;
+}
+
+/** Registers an instruction reads: rs, and rt for R-type, stores and branches; shifts read only rt. */
+function readRegisters(instr: DatapathInstruction): number[] {
+  switch (instr.op) {
+    case 'NOP': case 'J': case 'JAL': case 'LUI': return [];
+    case 'SLL': case 'SRL': case 'SRA': return [instr.rt];
+    case 'JR': case 'LW': case 'LB': case 'LBU': case 'ADDI': case 'ADDIU':
+    case 'SLTI': case 'SLTIU': case 'ANDI': case 'ORI': case 'XORI': return [instr.rs];
+    default: return [instr.rs, instr.rt];
+  }
+}
+
+function destinationRegister(instr: DatapathInstruction): number | null {
+  const ctrl = getControlSignals(instr.op);
+  return ctrl.RegWrite ? [instr.rt, instr.rd, 31][ctrl.RegDst] : null;
+}
+
 function getActiveComponents(phase: DatapathPhase, op: MIPSOp): Set<string> {
   const active = new Set<string>();
+  const ctrl = getControlSignals(op);
   switch (phase) {
     case 'fetch':
       active.add('pc'); active.add('imem'); active.add('add_pc4'); active.add('mux_branch');
+      active.add('mux_jump'); active.add('mux_jr');
       break;
     case 'decode':
       active.add('imem'); active.add('control'); active.add('regfile'); active.add('signext'); active.add('mux_regdst');
+      if (ctrl.Jump) active.add('jump_addr');
       break;
     case 'execute':
       active.add('alu'); active.add('mux_alusrc'); active.add('and_branch'); active.add('add_branch');
-      if (op === 'BEQ') active.add('mux_branch');
+      if (ctrl.Branch || ctrl.BranchNE) active.add('mux_branch');
+      if (ctrl.Jump) { active.add('jump_addr'); active.add('mux_jump'); }
+      if (ctrl.JumpReg) { active.add('regfile'); active.add('mux_jr'); }
       break;
     case 'memory':
-      if (op === 'LW' || op === 'SW') active.add('dmem');
-      if (op === 'SW') active.add('regfile');
+      if (ctrl.MemRead || ctrl.MemWrite) active.add('dmem');
+      if (ctrl.MemWrite) active.add('regfile');
       break;
     case 'writeback':
-      if (op !== 'SW' && op !== 'BEQ') { active.add('mux_memtoreg'); active.add('regfile'); }
+      if (ctrl.RegWrite) { active.add('mux_memtoreg'); active.add('regfile'); }
       break;
   }
   return active;
@@ -321,6 +458,9 @@ function getActiveWires(phase: DatapathPhase, op: MIPSOp): Set<string> {
   for (const wire of WIRES) {
     if (wire.phases.includes(phase)) {
       // Filter out wires not relevant to current instruction
+      if (phase === 'decode') {
+        if (wire.id === 'imem-to-jumpaddr' && ctrl.Jump === 0) continue;
+      }
       if (phase === 'memory') {
         if (wire.id === 'ctrl-memread' && ctrl.MemRead === 0) continue;
         if (wire.id === 'ctrl-memwrite' && ctrl.MemWrite === 0) continue;
@@ -329,9 +469,13 @@ function getActiveWires(phase: DatapathPhase, op: MIPSOp): Set<string> {
       }
       if (phase === 'writeback') {
         if ((wire.id === 'mux-memtoreg-out' || wire.id === 'ctrl-regwrite' || wire.id === 'ctrl-memtoreg') && ctrl.RegWrite === 0) continue;
+        if (wire.id === 'alu-result-to-mux' && ctrl.MemToReg === 2) continue;
+        if (wire.id === 'pc4-to-memtoreg' && ctrl.MemToReg !== 2) continue;
       }
       if (phase === 'execute') {
-        if ((wire.id === 'branch-to-and' || wire.id === 'branchadd-to-mux') && ctrl.Branch === 0) continue;
+        if ((wire.id === 'branch-to-and' || wire.id === 'branchadd-to-mux') && ctrl.Branch === 0 && ctrl.BranchNE === 0) continue;
+        if ((wire.id === 'jumpaddr-to-mux' || wire.id === 'ctrl-jump') && ctrl.Jump === 0) continue;
+        if ((wire.id === 'regfile-rs-to-jrmux' || wire.id === 'ctrl-jumpreg') && ctrl.JumpReg === 0) continue;
       }
       active.add(wire.id);
     }
@@ -339,22 +483,293 @@ function getActiveWires(phase: DatapathPhase, op: MIPSOp): Set<string> {
   return active;
 }
 
+/** Wires a multi-cycle state drives, and the components at either end of them. */
+function getMultiCycleActivity(state: MultiCycleState, trace: ExecutionTrace): { wires: Set<string>; components: Set<string> } {
+  const wires = new Set(MULTI_STATE_WIRES[state]);
+  if (state === 'Branch' && !trace.branchTaken) {
+    wires.delete('aluout-to-pcsrc');
+    wires.delete('pcsrc-to-pc');
+  }
+  const components = new Set(['control']);
+  for (const wire of MULTI_WIRES) {
+    if (wires.has(wire.id)) { components.add(wire.from); components.add(wire.to); }
+  }
+  return { wires, components };
+}
+
+function singleCycleLog(trace: ExecutionTrace, phase: DatapathPhase): string[] {
+  const { instruction: instr, control: ctrl } = trace;
+  const reg = (r: number) => MIPS_REGISTERS[r];
+  switch (phase) {
+    case 'fetch':
+      return [`FETCH: Reading instruction at PC = ${toHex(instr.address)}`];
+    case 'decode': {
+      const reads = readRegisters(instr).map((r) => `${reg(r)} = ${r === instr.rs ? trace.readData1 : trace.readData2}`);
+      if (instr.format === 'J') reads.push(`target = ${toHex(trace.jumpTarget)}`);
+      else if (ctrl.ALUSrc || ctrl.Branch || ctrl.BranchNE) reads.push(`imm = ${trace.extended}`);
+      return [
+        `DECODE: Instruction = ${instr.assembly}, Format = ${instr.format}-type`,
+        `CONTROL: RegDst=${ctrl.RegDst} ALUSrc=${ctrl.ALUSrc} MemToReg=${ctrl.MemToReg} RegWrite=${ctrl.RegWrite} MemRead=${ctrl.MemRead} MemWrite=${ctrl.MemWrite} Branch=${ctrl.Branch} BranchNE=${ctrl.BranchNE} ExtOp=${ctrl.ExtOp} Jump=${ctrl.Jump} JumpReg=${ctrl.JumpReg}`,
+        `READ REGS: ${reads.join(', ') || 'none'}`,
+      ];
+    }
+    case 'execute': {
+      const lines = [`EXECUTE: ALU ${trace.aluOperation}(${trace.aluA}, ${trace.aluB}) = ${trace.aluResult}, Zero = ${trace.zero}`];
+      if (ctrl.Branch || ctrl.BranchNE) {
+        lines.push(`BRANCH: ${trace.branchTaken ? 'TAKEN' : 'NOT TAKEN'} (${reg(instr.rs)}=${trace.readData1} ${trace.zero ? '==' : '!='} ${reg(instr.rt)}=${trace.readData2})`);
+      }
+      if (ctrl.Jump) lines.push(`JUMP: Target = ${toHex(trace.jumpTarget)}`);
+      if (ctrl.JumpReg) lines.push(`JUMP: Target = ${reg(instr.rs)} = ${toHex(trace.readData1)}`);
+      return lines;
+    }
+    case 'memory':
+      if (ctrl.MemRead) return [`MEMORY: Load from address ${toHex(trace.aluResult)}, value = ${trace.memoryData}`];
+      if (ctrl.MemWrite) return [`MEMORY: Store ${trace.memoryData} to address ${toHex(trace.aluResult)}`];
+      return ['MEMORY: No memory operation (pass-through)'];
+    case 'writeback': {
+      const lines = [trace.writeRegister !== null ? `WRITEBACK: ${reg(trace.writeRegister)} = ${trace.writeData}` : 'WRITEBACK: No register write'];
+      if (trace.branchTaken) lines.push(`PC: Branch taken, PC = ${toHex(trace.nextPc)}`);
+      else if (ctrl.Jump || ctrl.JumpReg) lines.push(`PC: Jump, PC = ${toHex(trace.nextPc)}`);
+      return lines;
+    }
+    default:
+      return [];
+  }
+}
+
+function multiCycleLog(trace: ExecutionTrace, state: MultiCycleState): string[] {
+  const { instruction: instr } = trace;
+  const info = MULTI_CYCLE_FSM[state];
+  const lines = [`FSM: S${info.id} ${state} (${info.action})`];
+  const written = trace.writeRegister !== null ? `WRITEBACK: ${MIPS_REGISTERS[trace.writeRegister]} = ${trace.writeData}` : '';
+  switch (state) {
+    case 'Fetch':
+      lines.push(`FETCH: IR = ${toHex(instr.word)} from ${toHex(instr.address)}, PC = ${toHex(trace.pcPlus4)}`);
+      break;
+    case 'Decode': {
+      const branchTarget = trace.pcPlus4 + ((instr.imm << 16) >> 16) * 4;
+      lines.push(`DECODE: ${instr.assembly}; A = ${trace.readData1}, B = ${trace.readData2}, ALUOut = ${toHex(branchTarget)}`);
+      break;
+    }
+    case 'MemAdr':
+    case 'Execute':
+    case 'ImmExecute':
+      lines.push(`EXECUTE: ALUOut = ${trace.aluOperation}(${trace.aluA}, ${trace.aluB}) = ${trace.aluResult}`);
+      break;
+    case 'MemRead':
+      lines.push(`MEMORY: MDR = Memory[${toHex(trace.aluResult)}] = ${trace.memoryData}`);
+      break;
+    case 'MemWrite':
+      lines.push(`MEMORY: Memory[${toHex(trace.aluResult)}] = ${trace.memoryData}`);
+      break;
+    case 'MemWriteback':
+    case 'ALUWriteback':
+    case 'ImmWriteback':
+      if (written) lines.push(written);
+      break;
+    case 'Branch':
+      lines.push(`BRANCH: ${trace.branchTaken ? 'TAKEN' : 'NOT TAKEN'} (A=${trace.aluA} ${trace.zero ? '==' : '!='} B=${trace.aluB})`);
+      if (trace.branchTaken) lines.push(`PC: Branch taken, PC = ${toHex(trace.nextPc)}`);
+      break;
+    case 'JumpLink':
+      if (written) lines.push(written);
+      lines.push(`PC: Jump, PC = ${toHex(trace.nextPc)}`);
+      break;
+    case 'Jump':
+    case 'JumpRegister':
+      lines.push(`PC: Jump, PC = ${toHex(trace.nextPc)}`);
+      break;
+  }
+  return lines;
+}
+
+function stageLog(trace: ExecutionTrace, variant: Variant, index: number): string[] {
+  return variant === 'single'
+    ? singleCycleLog(trace, SINGLE_CYCLE_PHASES[index])
+    : multiCycleLog(trace, multiCycleStates(trace.instruction.op)[index]);
+}
+
+const LOG_COLORS: Record<string, string> = {
+  FETCH: '#6366f1',
+  DECODE: '#06b6d4',
+  CONTROL: '#06b6d4',
+  'READ REGS': '#06b6d4',
+  EXECUTE: '#f59e0b',
+  BRANCH: '#f59e0b',
+  JUMP: '#f59e0b',
+  MEMORY: '#10b981',
+  WRITEBACK: '#ec4899',
+  PC: '#6366f1',
+  FSM: '#a855f7',
+  RUN: '#8b5cf6',
+  BREAK: '#ef4444',
+  HALT: '#10b981',
+  ERROR: '#ef4444',
+};
+
+// ──────────────────────────── Sub-components ────────────────────────────
+
+/** A word that commits on Enter or blur; anything that does not parse reverts. */
+function EditableWord({
+  value,
+  onCommit,
+  disabled,
+  label,
+  className,
+}: {
+  value: number;
+  onCommit: (value: number) => void;
+  disabled?: boolean;
+  label: string;
+  className?: string;
+}) {
+  const commit = (input: HTMLInputElement) => {
+    const parsed = parseWord(input.value);
+    if (parsed !== null && parsed !== value) onCommit(parsed);
+    else input.value = String(value);
+  };
+  return (
+    <input
+      key={value}
+      defaultValue={String(value)}
+      disabled={disabled}
+      spellCheck={false}
+      aria-label={label}
+      title={disabled ? 'Editable between instructions' : 'Decimal or 0x hex; Enter to set'}
+      onBlur={(e) => commit(e.currentTarget)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          e.currentTarget.value = String(value);
+          e.currentTarget.blur();
+        }
+      }}
+      className={`w-full bg-transparent font-mono font-bold rounded px-1 -mx-1 border border-transparent hover:border-[#2a2a3e] focus:border-[#8b5cf6]/50 focus:outline-none disabled:hover:border-transparent ${className ?? ''}`}
+    />
+  );
+}
+
+function DiagnosticList({ diagnostics }: { diagnostics: AssemblyDiagnostic[] }) {
+  if (diagnostics.length === 0) return null;
+  return (
+    <div className="border-t border-[#1e1e2e] divide-y divide-[#1e1e2e]">
+      {diagnostics.map((d, idx) => (
+        <div key={idx} className="flex items-start gap-2 px-4 py-1.5 text-[11px]">
+          <AlertTriangle size={12} className="text-[#ef4444] mt-0.5 flex-shrink-0" />
+          <span className="font-mono text-[#ef4444] flex-shrink-0">
+            {d.line}:{d.column}
+          </span>
+          <span className="text-[#a1a1aa]">{d.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ControlFsmDiagram({ path, current }: { path: MultiCycleState[]; current: MultiCycleState | null }) {
+  const nodeWidth = 88;
+  const nodeHeight = 32;
+  const onPath = new Set(path);
+  const pathEdges = new Set(path.slice(1).map((state, i) => `${path[i]}>${state}`));
+
+  return (
+    <svg viewBox="0 0 800 310" className="w-full h-auto">
+      <defs>
+        <marker id="fsm-arrow" markerWidth="6" markerHeight="4" refX="6" refY="2" orient="auto">
+          <polygon points="0 0, 6 2, 0 4" fill="#a855f7" />
+        </marker>
+        <marker id="fsm-arrow-inactive" markerWidth="6" markerHeight="4" refX="6" refY="2" orient="auto">
+          <polygon points="0 0, 6 2, 0 4" fill={INACTIVE_WIRE_COLOR} />
+        </marker>
+      </defs>
+
+      {MULTI_CYCLE_TRANSITIONS.map((t) => {
+        const [x1, y1] = FSM_POSITIONS[t.from];
+        const [x2, y2] = FSM_POSITIONS[t.to];
+        const horizontal = y1 === y2;
+        const start: [number, number] = horizontal ? [x1 + nodeWidth / 2, y1] : [x1, y1 + nodeHeight / 2];
+        const end: [number, number] = horizontal ? [x2 - nodeWidth / 2, y2] : [x2, y2 - nodeHeight / 2];
+        const isActive = pathEdges.has(`${t.from}>${t.to}`);
+        return (
+          <g key={`${t.from}-${t.to}`}>
+            <line
+              x1={start[0]}
+              y1={start[1]}
+              x2={end[0]}
+              y2={end[1]}
+              stroke={isActive ? '#a855f7' : INACTIVE_WIRE_COLOR}
+              strokeWidth={isActive ? 2 : 1}
+              markerEnd={isActive ? 'url(#fsm-arrow)' : 'url(#fsm-arrow-inactive)'}
+            />
+            {t.when && (
+              <text
+                x={start[0] + (end[0] - start[0]) * 0.7}
+                y={start[1] + (end[1] - start[1]) * 0.7 - 3}
+                textAnchor="middle"
+                fontSize="7"
+                fontFamily="monospace"
+                fill={isActive ? '#a855f7' : '#71717a'}
+              >
+                {t.when}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {(Object.keys(FSM_POSITIONS) as MultiCycleState[]).map((state) => {
+        const [cx, cy] = FSM_POSITIONS[state];
+        const color = PHASE_COLORS[STATE_PHASE[state]];
+        const isCurrent = state === current;
+        return (
+          <g key={state}>
+            <rect
+              x={cx - nodeWidth / 2}
+              y={cy - nodeHeight / 2}
+              width={nodeWidth}
+              height={nodeHeight}
+              rx={8}
+              fill={isCurrent ? `${color}30` : '#0d0d14'}
+              stroke={isCurrent ? color : onPath.has(state) ? `${color}80` : '#1e1e2e'}
+              strokeWidth={isCurrent ? 2 : 1}
+              filter={isCurrent ? 'url(#glow)' : undefined}
+            />
+            <text x={cx} y={cy - 3} textAnchor="middle" fontSize="7" fontFamily="monospace" fill={isCurrent ? color : '#71717a'}>
+              S{MULTI_CYCLE_FSM[state].id}
+            </text>
+            <text x={cx} y={cy + 8} textAnchor="middle" fontSize="8" fontWeight="bold" fontFamily="monospace" fill={isCurrent ? '#ffffff' : onPath.has(state) ? '#a1a1aa' : '#52525b'}>
+              {state}
+            </text>
+          </g>
+        );
+      })}
+
+      <text x={790} y={300} textAnchor="end" fontSize="8" fontFamily="monospace" fill="#71717a">
+        Each path returns to S0 Fetch after its last state
+      </text>
+    </svg>
+  );
+}
+
 // ──────────────────────────── Main Component ────────────────────────────
 
 export default function SingleCycleModule() {
   // ── State ──
-  const [program, setProgram] = useState<InstructionDef[]>([]);
-  const [pc, setPc] = useState(0);
-  const [registers, setRegisters] = useState<RegisterFile>({});
+  const [variant, setVariant] = useState<Variant>('single');
+  const [source, setSource] = useState('');
+  const [diagnostics, setDiagnostics] = useState<AssemblyDiagnostic[]>([]);
+  const [program, setProgram] = useState<DatapathInstruction[]>([]);
+  const [initialState, setInitialState] = useState<MachineState>(() => createMachineState());
+  const [pc, setPc] = useState(initialState.pc);
+  const [registers, setRegisters] = useState<number[]>(initialState.registers);
   const [dataMemory, setDataMemory] = useState<DataMemory>({});
-  const [phase, setPhase] = useState<DatapathPhase>('idle');
-  const [currentInstrIndex, setCurrentInstrIndex] = useState(0);
-  const [aluResult, setAluResult] = useState(0);
-  const [aluZero, setAluZero] = useState(false);
-  const [controlSignals, setControlSignals] = useState<ControlSignals | null>(null);
+  const [trace, setTrace] = useState<ExecutionTrace | null>(null);
+  const [stageIndex, setStageIndex] = useState(-1);
   const [instructionsCompleted, setInstructionsCompleted] = useState(0);
+  const [cycles, setCycles] = useState(0);
   const [allComplete, setAllComplete] = useState(false);
   const [phaseLog, setPhaseLog] = useState<string[]>([]);
+  const [breakpoints, setBreakpoints] = useState<Set<number>>(new Set());
 
   // ── UI State ──
   const [isPlaying, setIsPlaying] = useState(false);
@@ -362,6 +777,10 @@ export default function SingleCycleModule() {
   const [showMetrics, setShowMetrics] = useState(true);
   const [selectedScenario, setSelectedScenario] = useState('r_type_add');
   const [showEducation, setShowEducation] = useState(true);
+  const [showAllRegisters, setShowAllRegisters] = useState(false);
+  const [newAddress, setNewAddress] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [memoryError, setMemoryError] = useState('');
 
   // ── Refs ──
   const isPlayingRef = useRef(false);
@@ -369,6 +788,8 @@ export default function SingleCycleModule() {
   const animationRef = useRef<number | null>(null);
   const lastTickRef = useRef(0);
   const logEndRef = useRef<HTMLDivElement>(null);
+  // The breakpoint play last stopped at, so pressing Play again moves past it
+  const skipBreakpointRef = useRef<number | null>(null);
 
   useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
   useEffect(() => { speedRef.current = speed; }, [speed]);
@@ -379,9 +800,67 @@ export default function SingleCycleModule() {
   }, [phaseLog]);
 
   // ── Derived ──
-  const currentInstr = program[currentInstrIndex] ?? null;
-  const activeComponents = currentInstr ? getActiveComponents(phase, currentInstr.op) : new Set<string>();
-  const activeWires = currentInstr ? getActiveWires(phase, currentInstr.op) : new Set<string>();
+  const stageCount = trace ? (variant === 'single' ? SINGLE_CYCLE_PHASES.length : multiCycleStates(trace.instruction.op).length) : 0;
+  const instructionDone = trace === null || stageIndex === stageCount - 1;
+  const currentInstr = trace?.instruction ?? instructionAt(program, pc);
+  const phase: DatapathPhase = allComplete ? 'complete' : trace && variant === 'single' ? SINGLE_CYCLE_PHASES[stageIndex] : 'idle';
+  const fsmPath = trace && variant === 'multi' ? multiCycleStates(trace.instruction.op) : [];
+  const fsmState = fsmPath[stageIndex] ?? null;
+  const multiActivity = trace && fsmState ? getMultiCycleActivity(fsmState, trace) : null;
+  const activeComponents = variant === 'multi'
+    ? multiActivity?.components ?? new Set<string>()
+    : trace ? getActiveComponents(phase, trace.instruction.op) : new Set<string>();
+  const activeWires = variant === 'multi'
+    ? multiActivity?.wires ?? new Set<string>()
+    : trace ? getActiveWires(phase, trace.instruction.op) : new Set<string>();
+
+  // Register highlights: reads while operands are fetched, the write on the last stage
+  const readingRegisters = new Set<number>();
+  let writingRegister: number | null = null;
+  if (trace && !allComplete) {
+    const reading = variant === 'single' ? phase === 'decode' || phase === 'execute' : fsmState === 'Decode';
+    if (reading) readRegisters(trace.instruction).forEach((r) => readingRegisters.add(r));
+    if (stageIndex === stageCount - 1 && trace.writeRegister) writingRegister = trace.writeRegister;
+  }
+
+  const referencedRegisters = useMemo(() => {
+    const used = new Set<number>();
+    for (const instr of program) {
+      readRegisters(instr).forEach((r) => used.add(r));
+      const dest = destinationRegister(instr);
+      if (dest !== null) used.add(dest);
+    }
+    return used;
+  }, [program]);
+  const visibleRegisters = Array.from({ length: 32 }, (_, r) => r).filter(
+    (r) => showAllRegisters || (r !== 0 && (referencedRegisters.has(r) || registers[r] !== initialState.registers[r])),
+  );
+
+  const memoryAccess = trace && (trace.control.MemRead || trace.control.MemWrite) &&
+    (variant === 'single' ? phase === 'memory' : fsmState === 'MemRead' || fsmState === 'MemWrite')
+    ? { address: trace.aluResult >>> 0, isRead: trace.control.MemRead === 1 }
+    : null;
+
+  // ── Machine Control ──
+  const restore = useCallback((state: MachineState) => {
+    setIsPlaying(false);
+    setPc(state.pc);
+    setRegisters(state.registers);
+    setDataMemory(state.memory);
+    setTrace(null);
+    setStageIndex(-1);
+    setInstructionsCompleted(0);
+    setCycles(0);
+    setAllComplete(false);
+    setPhaseLog([]);
+    skipBreakpointRef.current = null;
+  }, []);
+
+  const commit = useCallback((next: MachineState) => {
+    setPc(next.pc);
+    setRegisters(next.registers);
+    setDataMemory(next.memory);
+  }, []);
 
   // ── Step Logic ──
   const stepForward = useCallback(() => {
@@ -391,118 +870,50 @@ export default function SingleCycleModule() {
     }
     if (program.length === 0) return;
 
-    const instr = program[currentInstrIndex];
+    // Advance the instruction in flight; its clock edge commits on the last stage
+    if (trace && stageIndex < stageCount - 1) {
+      const next = stageIndex + 1;
+      setStageIndex(next);
+      if (variant === 'multi') setCycles(prev => prev + 1);
+      setPhaseLog(prev => [...prev, ...stageLog(trace, variant, next)]);
+      if (next === stageCount - 1) {
+        commit(trace.next);
+        setInstructionsCompleted(prev => prev + 1);
+      }
+      return;
+    }
+
+    // Start the next instruction
+    const instr = instructionAt(program, pc);
     if (!instr) {
       setAllComplete(true);
       setIsPlaying(false);
+      setPhaseLog(prev => [...prev, `HALT: No instruction at PC = ${toHex(pc)}; program finished`]);
       return;
     }
+    if (isPlayingRef.current && breakpoints.has(pc) && skipBreakpointRef.current !== pc) {
+      skipBreakpointRef.current = pc;
+      setIsPlaying(false);
+      setPhaseLog(prev => [...prev, `BREAK: Breakpoint at ${toHex(pc)}`]);
+      return;
+    }
+    skipBreakpointRef.current = null;
 
-    const ctrl = getControlSignals(instr.op);
-
-    switch (phase) {
-      case 'idle':
-      case 'complete': {
-        if (phase === 'complete') {
-          // Move to next instruction
-          if (currentInstrIndex >= program.length - 1) {
-            setAllComplete(true);
-            setIsPlaying(false);
-            return;
-          }
-          setCurrentInstrIndex(prev => prev + 1);
-        }
-        // Start fetch
-        setPhase('fetch');
-        setControlSignals(null);
-        setAluResult(0);
-        setAluZero(false);
-        setPhaseLog(prev => [...prev, `--- Instruction ${currentInstrIndex + (phase === 'complete' ? 2 : 1)}: ${phase === 'complete' ? program[currentInstrIndex + 1]?.assembly : instr.assembly} ---`]);
-        setPhaseLog(prev => [...prev, `FETCH: Reading instruction at PC = ${pc}`]);
-        break;
-      }
-
-      case 'fetch': {
-        setPhase('decode');
-        setControlSignals(ctrl);
-        setPhaseLog(prev => [...prev, `DECODE: Instruction = ${instr.assembly}, Format = ${instr.format}-type`]);
-        setPhaseLog(prev => [...prev, `CONTROL: RegDst=${ctrl.RegDst} ALUSrc=${ctrl.ALUSrc} MemToReg=${ctrl.MemToReg} RegWrite=${ctrl.RegWrite} MemRead=${ctrl.MemRead} MemWrite=${ctrl.MemWrite} Branch=${ctrl.Branch}`]);
-        if (instr.format === 'R') {
-          setPhaseLog(prev => [...prev, `READ REGS: ${instr.rs} = ${registers[instr.rs] ?? 0}, ${instr.rt} = ${registers[instr.rt] ?? 0}`]);
-        } else if (instr.op === 'BEQ') {
-          setPhaseLog(prev => [...prev, `READ REGS: ${instr.rs} = ${registers[instr.rs] ?? 0}, ${instr.rt} = ${registers[instr.rt] ?? 0}, imm = ${instr.imm}`]);
-        } else {
-          setPhaseLog(prev => [...prev, `READ REGS: ${instr.rs} = ${registers[instr.rs] ?? 0}, imm = ${instr.imm}`]);
-        }
-        break;
-      }
-
-      case 'decode': {
-        setPhase('execute');
-        const aVal = registers[instr.rs] ?? 0;
-        const bVal = ctrl.ALUSrc === 1 ? instr.imm : (registers[instr.rt] ?? 0);
-        const aluOp = getALUOperation(instr.op);
-        const { result, zero } = computeALU(aluOp, aVal, bVal);
-        setAluResult(result);
-        setAluZero(zero);
-        setPhaseLog(prev => [...prev, `EXECUTE: ALU ${aluOp}(${aVal}, ${bVal}) = ${result}, Zero = ${zero}`]);
-        if (instr.op === 'BEQ') {
-          setPhaseLog(prev => [...prev, `BRANCH: ${zero ? 'TAKEN' : 'NOT TAKEN'} (${instr.rs}=${aVal} ${zero ? '==' : '!='} ${instr.rt}=${registers[instr.rt] ?? 0})`]);
-        }
-        break;
-      }
-
-      case 'execute': {
-        setPhase('memory');
-        if (instr.op === 'LW') {
-          const addr = aluResult;
-          const value = dataMemory[addr] ?? 0;
-          setPhaseLog(prev => [...prev, `MEMORY: Load from address ${addr}, value = ${value}`]);
-        } else if (instr.op === 'SW') {
-          const addr = aluResult;
-          const value = registers[instr.rt] ?? 0;
-          setDataMemory(prev => ({ ...prev, [addr]: value }));
-          setPhaseLog(prev => [...prev, `MEMORY: Store ${value} to address ${addr}`]);
-        } else {
-          setPhaseLog(prev => [...prev, `MEMORY: No memory operation (pass-through)`]);
-        }
-        break;
-      }
-
-      case 'memory': {
-        setPhase('writeback');
-        if (ctrl.RegWrite === 1) {
-          let writeData = aluResult;
-          if (ctrl.MemToReg === 1) {
-            // LW: write data from memory
-            writeData = dataMemory[aluResult] ?? 0;
-          }
-          const destReg = instr.format === 'R' ? instr.rd : instr.rt;
-          setRegisters(prev => ({ ...prev, [destReg]: writeData }));
-          setPhaseLog(prev => [...prev, `WRITEBACK: ${destReg} = ${writeData}`]);
-        } else {
-          setPhaseLog(prev => [...prev, `WRITEBACK: No register write`]);
-        }
-
-        // Update PC
-        const newPc = pc + 4;
-        if (instr.op === 'BEQ' && aluZero) {
-          const branchPc = newPc + instr.imm * 4;
-          setPc(branchPc);
-          setPhaseLog(prev => [...prev, `PC: Branch taken, PC = ${branchPc}`]);
-        } else {
-          setPc(newPc);
-        }
-
-        setInstructionsCompleted(prev => prev + 1);
-        setPhase('complete');
-        break;
-      }
-
-      default:
-        break;
+    let next: ExecutionTrace;
+    try {
+      next = executeInstruction({ pc, registers, memory: dataMemory }, instr);
+    } catch (err) {
+      if (!(err instanceof RangeError)) throw err;
+      setAllComplete(true);
+      setIsPlaying(false);
+      setPhaseLog(prev => [...prev, `ERROR: ${err.message}`]);
+      return;
     }
-  }, [phase, program, currentInstrIndex, pc, registers, dataMemory, aluResult, aluZero, allComplete]);
+    setTrace(next);
+    setStageIndex(0);
+    setCycles(prev => prev + 1);
+    setPhaseLog(prev => [...prev, `--- ${toHex(pc)}: ${instr.assembly} ---`, ...stageLog(next, variant, 0)]);
+  }, [allComplete, program, trace, stageIndex, stageCount, variant, pc, registers, dataMemory, breakpoints, commit]);
 
   // ── Animation Loop ──
   const animationLoop = useCallback((timestamp: number) => {
@@ -535,31 +946,122 @@ export default function SingleCycleModule() {
   const handlePause = useCallback(() => setIsPlaying(false), []);
   const handleStep = useCallback(() => {
     setIsPlaying(false);
+    isPlayingRef.current = false;
     stepForward();
   }, [stepForward]);
 
-  const handleReset = useCallback(() => {
+  const handleReset = useCallback(() => restore(initialState), [restore, initialState]);
+
+  /** Finishes the instruction in flight, then runs until the program ends or reaches a breakpoint. */
+  const handleRunToEnd = useCallback(() => {
     setIsPlaying(false);
-    setPc(0);
-    setPhase('idle');
-    setCurrentInstrIndex(0);
-    setAluResult(0);
-    setAluZero(false);
-    setControlSignals(null);
-    setInstructionsCompleted(0);
-    setAllComplete(false);
-    setPhaseLog([]);
-  }, []);
+    if (allComplete || program.length === 0) return;
+    const inFlight = trace !== null && !instructionDone;
+    const start = inFlight ? trace.next : { pc, registers, memory: dataMemory };
+    const result = inFlight && breakpoints.has(start.pc)
+      ? { state: start, steps: 0, multiCycleClocks: 0, halt: 'breakpoint' as const, error: undefined }
+      : runProgram(program, start, { breakpoints });
+    const finished = (inFlight ? 1 : 0) + result.steps;
+
+    commit(result.state);
+    setTrace(null);
+    setStageIndex(-1);
+    setInstructionsCompleted(prev => prev + finished);
+    setCycles(prev => prev + (variant === 'multi' ? (inFlight ? stageCount - 1 - stageIndex : 0) + result.multiCycleClocks : result.steps));
+
+    const lines = [`RUN: Executed ${finished} instruction${finished === 1 ? '' : 's'}`];
+    switch (result.halt) {
+      case 'end':
+        lines.push(`HALT: No instruction at PC = ${toHex(result.state.pc)}; program finished`);
+        setAllComplete(true);
+        break;
+      case 'breakpoint':
+        lines.push(`BREAK: Breakpoint at ${toHex(result.state.pc)}`);
+        skipBreakpointRef.current = result.state.pc;
+        break;
+      case 'limit':
+        lines.push(`HALT: Stopped after ${result.steps} instructions; the program may loop forever`);
+        break;
+      case 'error':
+        lines.push(`ERROR: ${result.error}`);
+        setAllComplete(true);
+        break;
+    }
+    setPhaseLog(prev => [...prev, ...lines]);
+  }, [allComplete, program, trace, instructionDone, pc, registers, dataMemory, breakpoints, commit, variant, stageCount, stageIndex]);
+
+  const changeVariant = useCallback((next: Variant) => {
+    if (next === variant) return;
+    setVariant(next);
+    restore(initialState);
+  }, [variant, restore, initialState]);
+
+  const loadSource = useCallback((text: string, registerValues: Record<string, number> = {}, memory: DataMemory = {}) => {
+    const assembled = assemble(text);
+    const loaded = assembled.diagnostics.length === 0 ? loadProgram(assembled) : null;
+    const problems = loaded ? loaded.diagnostics : assembled.diagnostics;
+    setDiagnostics(problems);
+    if (!loaded || problems.length > 0) return;
+    const state = createMachineState(registerValues, { ...loaded.memory, ...memory });
+    setProgram(loaded.program);
+    setInitialState(state);
+    setBreakpoints(new Set());
+    restore(state);
+  }, [restore]);
 
   const loadScenario = useCallback((key: string) => {
-    handleReset();
     const scenario = PRESET_SCENARIOS[key];
     if (!scenario) return;
     setSelectedScenario(key);
-    setProgram(scenario.instructions);
-    setRegisters({ ...scenario.registers });
-    setDataMemory({ ...scenario.memory });
-  }, [handleReset]);
+    setSource(scenario.source);
+    loadSource(scenario.source, scenario.registers, scenario.memory);
+  }, [loadSource]);
+
+  const handleAssemble = useCallback(() => {
+    setSelectedScenario('');
+    loadSource(source);
+  }, [loadSource, source]);
+
+  // Edits made before the first step also become the state Reset returns to
+  const atStart = trace === null && instructionsCompleted === 0 && !allComplete;
+
+  const editRegister = (index: number, value: number) => {
+    const next = registers.map((v, r) => (r === index ? value : v));
+    setRegisters(next);
+    if (atStart) setInitialState(prev => ({ ...prev, registers: next }));
+  };
+
+  const editMemory = (address: number, value: number) => {
+    const next = { ...dataMemory, [address]: value };
+    setDataMemory(next);
+    if (atStart) setInitialState(prev => ({ ...prev, memory: next }));
+  };
+
+  const addMemoryWord = () => {
+    const address = parseWord(newAddress);
+    const value = parseWord(newValue || '0');
+    if (address === null || value === null) {
+      setMemoryError('Enter the address and value in decimal or 0x hex');
+      return;
+    }
+    if ((address >>> 0) % 4 !== 0) {
+      setMemoryError(`${toHex(address)} is not word-aligned`);
+      return;
+    }
+    editMemory(address >>> 0, value);
+    setNewAddress('');
+    setNewValue('');
+    setMemoryError('');
+  };
+
+  const toggleBreakpoint = (address: number) => {
+    setBreakpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(address)) next.delete(address);
+      else next.add(address);
+      return next;
+    });
+  };
 
   // ── Load default on mount ──
   useEffect(() => {
@@ -567,14 +1069,16 @@ export default function SingleCycleModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(PRESET_SCENARIOS), loadScenario);
+
   // ── SVG Datapath Rendering ──
-  const renderDatapath = () => {
+  const renderDatapath = (components: ComponentDef[], wires: DatapathWire[], minY: number, stageLabel: string, stageColor: string) => {
     const svgWidth = 780;
     const svgHeight = 430;
 
     return (
       <svg
-        viewBox={`0 0 ${svgWidth} ${svgHeight}`}
+        viewBox={`0 ${minY} ${svgWidth} ${svgHeight - minY}`}
         className="w-full h-auto"
         style={{ minHeight: 300 }}
       >
@@ -613,10 +1117,10 @@ export default function SingleCycleModule() {
         <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
           <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#1e1e2e" strokeWidth="0.3" />
         </pattern>
-        <rect width="100%" height="100%" fill="url(#grid)" />
+        <rect y={minY} width="100%" height="100%" fill="url(#grid)" />
 
         {/* ── Wires ── */}
-        {WIRES.map((wire) => {
+        {wires.map((wire) => {
           const isActive = activeWires.has(wire.id);
           const points = wire.path.map(p => p.join(',')).join(' ');
 
@@ -682,13 +1186,13 @@ export default function SingleCycleModule() {
         })}
 
         {/* ── Components ── */}
-        {COMPONENTS.map((comp) => {
+        {components.map((comp) => {
           const isActive = activeComponents.has(comp.id);
           const isMux = comp.id.startsWith('mux_');
-          const isAdder = comp.id.startsWith('add_');
 
           return (
             <g key={comp.id}>
+              <title>{`${comp.label}: ${comp.description}`}</title>
               {/* Component box */}
               {comp.id === 'alu' ? (
                 // ALU trapezoid shape
@@ -704,8 +1208,8 @@ export default function SingleCycleModule() {
                 // MUX trapezoid
                 <polygon
                   points={`${comp.x},${comp.y} ${comp.x + comp.width},${comp.y + 8} ${comp.x + comp.width},${comp.y + comp.height - 8} ${comp.x},${comp.y + comp.height}`}
-                  fill={isActive ? '#10b98120' : '#0d0d14'}
-                  stroke={isActive ? '#10b981' : '#1e1e2e'}
+                  fill={isActive ? `${HIGHLIGHT_BORDER_COLOR}20` : '#0d0d14'}
+                  stroke={isActive ? HIGHLIGHT_BORDER_COLOR : '#1e1e2e'}
                   strokeWidth={isActive ? 2 : 1}
                   filter={isActive ? 'url(#glow)' : undefined}
                 />
@@ -787,11 +1291,11 @@ export default function SingleCycleModule() {
                   x={comp.x + comp.width / 2}
                   y={comp.y + comp.height - 8}
                   textAnchor="middle"
-                  fontSize="8"
+                  fontSize="7"
                   fill="#6366f1"
                   fontFamily="monospace"
                 >
-                  {pc}
+                  {toHex(pc)}
                 </text>
               )}
             </g>
@@ -799,14 +1303,56 @@ export default function SingleCycleModule() {
         })}
 
         {/* ── Phase Label ── */}
-        <rect x={svgWidth - 180} y={svgHeight - 35} width={170} height={25} rx={6} fill={`${PHASE_COLORS[phase]}20`} stroke={PHASE_COLORS[phase]} strokeWidth={1} />
-        <text x={svgWidth - 95} y={svgHeight - 19} textAnchor="middle" fontSize="10" fontWeight="bold" fill={PHASE_COLORS[phase]} fontFamily="monospace">
-          {PHASE_NAMES[phase]}
+        <rect x={svgWidth - 180} y={svgHeight - 35} width={170} height={25} rx={6} fill={`${stageColor}20`} stroke={stageColor} strokeWidth={1} />
+        <text x={svgWidth - 95} y={svgHeight - 19} textAnchor="middle" fontSize="10" fontWeight="bold" fill={stageColor} fontFamily="monospace">
+          {stageLabel}
         </text>
       </svg>
     );
   };
 
+  const stageLabel = variant === 'single' || !fsmState
+    ? PHASE_NAMES[phase]
+    : `S${MULTI_CYCLE_FSM[fsmState].id} ${fsmState}`;
+  const stageColor = variant === 'single' || !fsmState ? PHASE_COLORS[phase] : PHASE_COLORS[STATE_PHASE[fsmState]];
+
+  const controlRows: { name: string; val: number | string; desc: string }[] = variant === 'single'
+    ? trace && stageIndex >= 1
+      ? [
+          { name: 'RegDst', val: trace.control.RegDst, desc: 'rt / rd / $ra' },
+          { name: 'ALUSrc', val: trace.control.ALUSrc, desc: 'ALU input B src' },
+          { name: 'MemToReg', val: trace.control.MemToReg, desc: 'ALU / mem / PC+4' },
+          { name: 'RegWrite', val: trace.control.RegWrite, desc: 'Enable reg write' },
+          { name: 'MemRead', val: trace.control.MemRead, desc: 'Read from mem' },
+          { name: 'MemWrite', val: trace.control.MemWrite, desc: 'Write to mem' },
+          { name: 'Branch', val: trace.control.Branch, desc: 'Branch if equal' },
+          { name: 'BranchNE', val: trace.control.BranchNE, desc: 'Branch if not equal' },
+          { name: 'ExtOp', val: trace.control.ExtOp, desc: 'Sign-extend imm' },
+          { name: 'Jump', val: trace.control.Jump, desc: 'PC = jump addr' },
+          { name: 'JumpReg', val: trace.control.JumpReg, desc: 'PC = rs' },
+          { name: 'ALUOp', val: trace.control.ALUOp.join(''), desc: 'ALU operation' },
+        ]
+      : []
+    : fsmState
+      ? (() => {
+          const c = MULTI_CYCLE_FSM[fsmState].control;
+          return [
+            { name: 'PCWrite', val: c.PCWrite, desc: 'Write the PC' },
+            { name: 'IorD', val: c.IorD, desc: 'PC / ALUOut addr' },
+            { name: 'MemWrite', val: c.MemWrite, desc: 'Write to mem' },
+            { name: 'IRWrite', val: c.IRWrite, desc: 'Load the IR' },
+            { name: 'RegDst', val: c.RegDst, desc: 'rt / rd / $ra' },
+            { name: 'MemToReg', val: c.MemToReg, desc: 'ALUOut / MDR / PC' },
+            { name: 'RegWrite', val: c.RegWrite, desc: 'Enable reg write' },
+            { name: 'ALUSrcA', val: c.ALUSrcA, desc: 'PC / A' },
+            { name: 'ALUSrcB', val: c.ALUSrcB.toString(2).padStart(2, '0'), desc: 'B / 4 / imm / imm×4' },
+            { name: 'ALUOp', val: c.ALUOp.join(''), desc: 'ALU operation' },
+            { name: 'Branch', val: c.Branch, desc: 'Write PC if taken' },
+            { name: 'PCSrc', val: c.PCSrc.toString(2).padStart(2, '0'), desc: 'ALU / ALUOut / jump / A' },
+          ];
+        })()
+      : [];
+
   // ──────────────────────────── Render ────────────────────────────
 
   return (
@@ -817,6 +1363,7 @@ export default function SingleCycleModule() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -836,8 +1383,11 @@ export default function SingleCycleModule() {
             <p className="text-sm text-[#a1a1aa] max-w-2xl">
               Visualize the complete MIPS single-cycle processor datapath. Watch data flow through
               PC, Instruction Memory, Register File, ALU, and Data Memory as each instruction executes
-              in five phases: Fetch, Decode, Execute, Memory, and Write Back.
+              in five phases: Fetch, Decode, Execute, Memory, and Write Back. Assemble your own program,
+              edit registers and memory, set breakpoints, and compare against the multi-cycle datapath
+              and its control FSM.
             </p>
+            <ModuleLinks moduleId="2.2" />
           </motion.div>
 
           {/* ── Scenario Selector ── */}
@@ -871,7 +1421,9 @@ export default function SingleCycleModule() {
           {/* ── Controls Bar ── */}
           <div className="mb-6">
             <ModuleControls
+              shareState={{ scenario: selectedScenario }}
               isPlaying={isPlaying}
+              completed={allComplete}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -880,7 +1432,31 @@ export default function SingleCycleModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
-            />
+              description={phaseLog[phaseLog.length - 1]}
+            >
+              <div className="flex items-center rounded-lg border border-[#1e1e2e] overflow-hidden">
+                {([['single', 'Single-Cycle'], ['multi', 'Multi-Cycle']] as [Variant, string][]).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => changeVariant(key)}
+                    className={`px-3 py-1.5 text-xs font-medium transition-all duration-200 ${
+                      variant === key ? 'bg-[#8b5cf6]/15 text-[#8b5cf6]' : 'text-[#a1a1aa] hover:text-white'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleRunToEnd}
+                disabled={allComplete || program.length === 0}
+                title="Run until the program ends or reaches a breakpoint"
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[#1e1e2e] text-[#a1a1aa] hover:text-white hover:bg-[#2a2a3e] transition-all duration-200 disabled:opacity-40 disabled:hover:bg-[#1e1e2e] disabled:hover:text-[#a1a1aa]"
+              >
+                <FastForward size={12} />
+                Run to End
+              </button>
+            </ModuleControls>
           </div>
 
           {/* ── Main Datapath Visualization ── */}
@@ -895,82 +1471,194 @@ export default function SingleCycleModule() {
                 <div className="flex items-center gap-2">
                   <CircuitBoard size={14} className="text-[#8b5cf6]" />
                   <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
-                    MIPS Single-Cycle Datapath
+                    {variant === 'single' ? 'MIPS Single-Cycle Datapath' : 'MIPS Multi-Cycle Datapath'}
                   </span>
                 </div>
                 <div className="flex items-center gap-3">
                   {/* Phase indicator */}
                   <div className="flex items-center gap-1.5">
-                    {(['fetch', 'decode', 'execute', 'memory', 'writeback'] as DatapathPhase[]).map((p) => (
-                      <div
-                        key={p}
-                        className="flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-mono transition-all duration-300"
-                        style={{
-                          backgroundColor: phase === p ? `${PHASE_COLORS[p]}20` : 'transparent',
-                          color: phase === p ? PHASE_COLORS[p] : '#3a3a4e',
-                          border: phase === p ? `1px solid ${PHASE_COLORS[p]}40` : '1px solid transparent',
-                        }}
-                      >
-                        {p === 'fetch' ? 'IF' : p === 'decode' ? 'ID' : p === 'execute' ? 'EX' : p === 'memory' ? 'MEM' : 'WB'}
-                      </div>
-                    ))}
+                    {variant === 'single'
+                      ? SINGLE_CYCLE_PHASES.map((p) => (
+                          <div
+                            key={p}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-mono transition-all duration-300"
+                            style={{
+                              backgroundColor: phase === p ? `${PHASE_COLORS[p]}20` : 'transparent',
+                              color: phase === p ? PHASE_COLORS[p] : '#3a3a4e',
+                              border: phase === p ? `1px solid ${PHASE_COLORS[p]}40` : '1px solid transparent',
+                            }}
+                          >
+                            {p === 'fetch' ? 'IF' : p === 'decode' ? 'ID' : p === 'execute' ? 'EX' : p === 'memory' ? 'MEM' : 'WB'}
+                          </div>
+                        ))
+                      : (fsmPath.length > 0 ? fsmPath : (['Fetch', 'Decode'] as MultiCycleState[])).map((s) => {
+                          const color = PHASE_COLORS[STATE_PHASE[s]];
+                          return (
+                            <div
+                              key={s}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-mono transition-all duration-300"
+                              style={{
+                                backgroundColor: fsmState === s ? `${color}20` : 'transparent',
+                                color: fsmState === s ? color : '#3a3a4e',
+                                border: fsmState === s ? `1px solid ${color}40` : '1px solid transparent',
+                              }}
+                            >
+                              S{MULTI_CYCLE_FSM[s].id}
+                            </div>
+                          );
+                        })}
                   </div>
                 </div>
               </div>
               <div className="p-4">
-                {renderDatapath()}
+                {variant === 'single'
+                  ? renderDatapath(COMPONENTS, WIRES, -60, stageLabel, stageColor)
+                  : renderDatapath(MULTI_COMPONENTS, MULTI_WIRES, 0, stageLabel, stageColor)}
               </div>
             </div>
           </motion.div>
 
-          {/* ── Middle Section: Program + Registers + Memory ── */}
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
-            {/* ── Instruction Memory ── */}
+          {/* ── Control FSM (multi-cycle) ── */}
+          {variant === 'multi' && (
             <motion.div
               initial={{ opacity: 0, y: 16 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.4, delay: 0.2 }}
+              transition={{ duration: 0.4 }}
+              className="mb-6"
             >
-              <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden h-full">
+              <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden">
                 <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center gap-2">
-                  <Database size={14} className="text-[#6366f1]" />
+                  <Workflow size={14} className="text-[#a855f7]" />
                   <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
-                    Instruction Memory
+                    Multi-Cycle Control FSM
                   </span>
                 </div>
-                <div className="divide-y divide-[#1e1e2e]">
-                  {program.map((instr, idx) => {
-                    const isCurrent = idx === currentInstrIndex && !allComplete;
-                    const isPast = idx < currentInstrIndex;
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4">
+                  <div className="lg:col-span-2">
+                    <ControlFsmDiagram path={fsmPath} current={fsmState} />
+                  </div>
+                  <div className="space-y-1.5">
+                    {fsmPath.length > 0 ? (
+                      fsmPath.map((s, i) => {
+                        const color = PHASE_COLORS[STATE_PHASE[s]];
+                        return (
+                          <div
+                            key={s}
+                            className={`flex items-start gap-2 p-2 rounded-lg border transition-all duration-200 ${
+                              s === fsmState ? 'border-[#a855f7]/30 bg-[#a855f7]/10' : 'border-[#1e1e2e] bg-[#0d0d14]'
+                            }`}
+                          >
+                            <span
+                              className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded flex-shrink-0"
+                              style={{ backgroundColor: `${color}15`, color }}
+                            >
+                              S{MULTI_CYCLE_FSM[s].id}
+                            </span>
+                            <div className="min-w-0">
+                              <div className={`text-[11px] font-semibold ${i <= stageIndex ? 'text-white' : 'text-[#71717a]'}`}>{s}</div>
+                              <div className="text-[10px] font-mono text-[#a1a1aa]">{MULTI_CYCLE_FSM[s].action}</div>
+                            </div>
+                          </div>
+                        );
+                      })
+                    ) : (
+                      <div className="text-xs text-[#71717a] text-center py-4">
+                        Step to see the states the next instruction passes through
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          )}
+
+          {/* ── Middle Section: Program + Registers + Memory ── */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            {/* ── Program Source + Instruction Memory ── */}
+            <motion.div
+              initial={{ opacity: 0, y: 16 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4, delay: 0.2 }}
+              className="space-y-4"
+            >
+              <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden">
+                <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <FileCode size={14} className="text-[#8b5cf6]" />
+                    <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
+                      Program
+                    </span>
+                  </div>
+                  <button
+                    onClick={handleAssemble}
+                    className="px-2.5 py-1 rounded-md text-[11px] font-medium bg-[#8b5cf6]/15 border border-[#8b5cf6]/30 text-[#8b5cf6] hover:bg-[#8b5cf6]/25 transition-all duration-200"
+                  >
+                    Assemble &amp; Load
+                  </button>
+                </div>
+                <textarea
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  rows={8}
+                  wrap="off"
+                  spellCheck={false}
+                  aria-label="MIPS assembly source"
+                  className="w-full bg-[#0d0d14] text-[#e4e4e7] text-xs font-mono leading-5 p-3 resize-y focus:outline-none"
+                />
+                <DiagnosticList diagnostics={diagnostics} />
+              </div>
+
+              <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden">
+                <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Database size={14} className="text-[#6366f1]" />
+                    <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
+                      Instruction Memory
+                    </span>
+                  </div>
+                  <span className="text-[10px] text-[#71717a]">Click an address to toggle a breakpoint</span>
+                </div>
+                <div className="divide-y divide-[#1e1e2e] max-h-96 overflow-y-auto">
+                  {program.map((instr) => {
+                    const isCurrent = currentInstr?.address === instr.address && !allComplete;
+                    const hasBreakpoint = breakpoints.has(instr.address);
 
                     return (
                       <div
-                        key={idx}
+                        key={instr.address}
                         className={`px-4 py-2.5 transition-all duration-300 ${
                           isCurrent ? 'bg-[#8b5cf6]/8' : ''
                         }`}
                       >
                         <div className="flex items-center gap-3">
-                          <span className="text-[10px] font-mono text-[#71717a] w-8 flex-shrink-0">
-                            {(idx * 4).toString().padStart(3, '0')}
-                          </span>
+                          <button
+                            onClick={() => toggleBreakpoint(instr.address)}
+                            title={hasBreakpoint ? 'Remove breakpoint' : 'Set breakpoint'}
+                            className="group flex items-center gap-1.5 flex-shrink-0"
+                          >
+                            <span
+                              className={`w-2 h-2 rounded-full transition-colors duration-200 ${
+                                hasBreakpoint ? 'bg-[#ef4444]' : 'bg-transparent group-hover:bg-[#ef4444]/40'
+                              }`}
+                            />
+                            <span className="text-[10px] font-mono text-[#71717a]">
+                              {instr.address.toString(16).padStart(8, '0')}
+                            </span>
+                          </button>
                           <div className="w-2 flex-shrink-0">
                             {isCurrent && (
                               <motion.div
                                 className="w-2 h-2 rounded-full"
-                                style={{ backgroundColor: PHASE_COLORS[phase] }}
+                                style={{ backgroundColor: stageColor }}
                                 animate={{ scale: [1, 1.3, 1] }}
                                 transition={{ duration: 1, repeat: Infinity }}
                               />
                             )}
-                            {isPast && (
-                              <div className="w-2 h-2 rounded-full bg-[#10b981]" />
-                            )}
                           </div>
                           <div className="flex-1 min-w-0">
                             <span
-                              className={`text-xs font-mono ${
-                                isCurrent ? 'text-white font-bold' : isPast ? 'text-[#71717a]' : 'text-[#a1a1aa]'
+                              className={`text-xs font-mono truncate block ${
+                                isCurrent ? 'text-white font-bold' : 'text-[#a1a1aa]'
                               }`}
                             >
                               {instr.assembly}
@@ -979,21 +1667,24 @@ export default function SingleCycleModule() {
                           <span
                             className="text-[10px] font-mono px-1.5 py-0.5 rounded flex-shrink-0"
                             style={{
-                              backgroundColor: instr.format === 'R' ? '#10b98115' : '#f59e0b15',
-                              color: instr.format === 'R' ? '#10b981' : '#f59e0b',
+                              backgroundColor: `${FORMAT_COLORS[instr.format]}15`,
+                              color: FORMAT_COLORS[instr.format],
                             }}
                           >
                             {instr.format}
                           </span>
                         </div>
                         {isCurrent && (
-                          <div className="mt-1 ml-[52px] text-[10px] text-[#71717a]">
-                            {instr.description}
+                          <div className="mt-1 ml-[88px] text-[10px] text-[#71717a]">
+                            {registerTransfer(instr)}
                           </div>
                         )}
                       </div>
                     );
                   })}
+                  {program.length === 0 && (
+                    <div className="text-xs text-[#71717a] text-center py-4">Assemble a program to load it</div>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -1005,21 +1696,28 @@ export default function SingleCycleModule() {
               transition={{ duration: 0.4, delay: 0.25 }}
             >
               <div className="bg-[#111118] border border-[#1e1e2e] rounded-xl overflow-hidden h-full">
-                <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center gap-2">
-                  <MemoryStick size={14} className="text-[#06b6d4]" />
-                  <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
-                    Register File
-                  </span>
+                <div className="px-4 py-3 border-b border-[#1e1e2e] flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <MemoryStick size={14} className="text-[#06b6d4]" />
+                    <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
+                      Register File
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => setShowAllRegisters(!showAllRegisters)}
+                    className="text-[10px] text-[#71717a] hover:text-white transition-colors duration-200"
+                  >
+                    {showAllRegisters ? 'Show used' : 'Show all 32'}
+                  </button>
                 </div>
                 <div className="p-4">
                   <div className="grid grid-cols-2 gap-2">
-                    {Object.entries(registers).map(([name, value]) => {
-                      const isSource = currentInstr && (currentInstr.rs === name || currentInstr.rt === name);
-                      const isDest = currentInstr && (
-                        (currentInstr.format === 'R' && currentInstr.rd === name) ||
-                        (currentInstr.format === 'I' && currentInstr.op !== 'SW' && currentInstr.op !== 'BEQ' && currentInstr.rt === name)
-                      );
-                      const isWriting = isDest && phase === 'writeback';
+                    {visibleRegisters.map((r) => {
+                      const name = MIPS_REGISTERS[r];
+                      const value = registers[r];
+                      const isSource = readingRegisters.has(r);
+                      const isWriting = writingRegister === r;
+                      const isDest = trace !== null && trace.writeRegister === r && !allComplete;
 
                       return (
                         <motion.div
@@ -1027,7 +1725,7 @@ export default function SingleCycleModule() {
                           className={`p-2.5 rounded-lg border transition-all duration-300 ${
                             isWriting
                               ? 'border-[#ec4899]/40 bg-[#ec4899]/10'
-                              : isSource && (phase === 'decode' || phase === 'execute')
+                              : isSource
                               ? 'border-[#06b6d4]/30 bg-[#06b6d4]/5'
                               : isDest
                               ? 'border-[#10b981]/20 bg-[#10b981]/5'
@@ -1053,13 +1751,17 @@ export default function SingleCycleModule() {
                               <span className="text-[8px] text-[#ec4899] font-mono">WRITE</span>
                             )}
                           </div>
-                          <div className={`text-sm font-mono font-bold mt-1 ${
-                            isWriting ? 'text-[#ec4899]' : 'text-white'
-                          }`}>
-                            {value}
+                          <div className="mt-1">
+                            <EditableWord
+                              value={value}
+                              onCommit={(v) => editRegister(r, v)}
+                              disabled={r === 0 || !instructionDone}
+                              label={`Register ${name}`}
+                              className={`text-sm ${isWriting ? 'text-[#ec4899]' : 'text-white'}`}
+                            />
                           </div>
                           <div className="text-[9px] font-mono text-[#3a3a4e] mt-0.5">
-                            0x{(value >>> 0).toString(16).padStart(8, '0')}
+                            {toHex(value)}
                           </div>
                         </motion.div>
                       );
@@ -1084,36 +1786,39 @@ export default function SingleCycleModule() {
                     Data Memory
                   </span>
                 </div>
-                <div className="p-4">
+                <div className="p-4 space-y-3">
                   {Object.keys(dataMemory).length > 0 ? (
-                    <div className="space-y-2">
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
                       {Object.entries(dataMemory).sort(([a], [b]) => Number(a) - Number(b)).map(([addr, val]) => {
                         const addrNum = Number(addr);
-                        const isAccessed = currentInstr && (phase === 'memory') && aluResult === addrNum &&
-                          (currentInstr.op === 'LW' || currentInstr.op === 'SW');
+                        const isAccessed = memoryAccess?.address === addrNum;
 
                         return (
                           <div
                             key={addr}
-                            className={`flex items-center justify-between p-2 rounded-lg border transition-all duration-300 ${
+                            className={`flex items-center justify-between gap-3 p-2 rounded-lg border transition-all duration-300 ${
                               isAccessed
-                                ? currentInstr?.op === 'LW' ? 'border-[#06b6d4]/30 bg-[#06b6d4]/8' : 'border-[#ef4444]/30 bg-[#ef4444]/8'
+                                ? memoryAccess?.isRead ? 'border-[#06b6d4]/30 bg-[#06b6d4]/8' : 'border-[#ef4444]/30 bg-[#ef4444]/8'
                                 : 'border-[#1e1e2e] bg-[#0d0d14]'
                             }`}
                           >
-                            <div className="flex items-center gap-3">
-                              <span className="text-[10px] font-mono text-[#71717a]">
-                                [{addr}]
-                              </span>
-                              <span className="text-xs font-mono font-bold text-white">
-                                {val}
+                            <div className="flex items-center gap-3 min-w-0">
+                              <span className="text-[10px] font-mono text-[#71717a] flex-shrink-0">
+                                [{toHex(addrNum)}]
                               </span>
+                              <EditableWord
+                                value={val}
+                                onCommit={(v) => editMemory(addrNum, v)}
+                                disabled={!instructionDone}
+                                label={`Memory word ${toHex(addrNum)}`}
+                                className="text-xs text-white"
+                              />
                             </div>
                             {isAccessed && (
                               <span className={`text-[8px] font-mono ${
-                                currentInstr?.op === 'LW' ? 'text-[#06b6d4]' : 'text-[#ef4444]'
+                                memoryAccess?.isRead ? 'text-[#06b6d4]' : 'text-[#ef4444]'
                               }`}>
-                                {currentInstr?.op === 'LW' ? 'READING' : 'WRITING'}
+                                {memoryAccess?.isRead ? 'READING' : 'WRITING'}
                               </span>
                             )}
                           </div>
@@ -1123,6 +1828,34 @@ export default function SingleCycleModule() {
                   ) : (
                     <div className="text-xs text-[#71717a] text-center py-2">No memory locations used</div>
                   )}
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={newAddress}
+                      onChange={(e) => setNewAddress(e.target.value)}
+                      placeholder="Address"
+                      aria-label="New memory address"
+                      spellCheck={false}
+                      className="w-0 flex-1 bg-[#0d0d14] border border-[#1e1e2e] rounded-md px-2 py-1 text-[11px] font-mono text-white placeholder:text-[#3a3a4e] focus:outline-none focus:border-[#8b5cf6]/50"
+                    />
+                    <input
+                      value={newValue}
+                      onChange={(e) => setNewValue(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') addMemoryWord(); }}
+                      placeholder="Value"
+                      aria-label="New memory value"
+                      spellCheck={false}
+                      className="w-0 flex-1 bg-[#0d0d14] border border-[#1e1e2e] rounded-md px-2 py-1 text-[11px] font-mono text-white placeholder:text-[#3a3a4e] focus:outline-none focus:border-[#8b5cf6]/50"
+                    />
+                    <button
+                      onClick={addMemoryWord}
+                      disabled={!instructionDone}
+                      title="Add or overwrite a word"
+                      className="flex items-center justify-center w-7 h-7 rounded-md bg-[#1e1e2e] text-[#a1a1aa] hover:text-white hover:bg-[#2a2a3e] transition-all duration-200 disabled:opacity-40"
+                    >
+                      <Plus size={12} />
+                    </button>
+                  </div>
+                  {memoryError && <div className="text-[10px] text-[#ef4444]">{memoryError}</div>}
                 </div>
               </div>
 
@@ -1133,21 +1866,17 @@ export default function SingleCycleModule() {
                   <span className="text-xs font-semibold text-[#a1a1aa] uppercase tracking-wider">
                     Control Signals
                   </span>
+                  {variant === 'multi' && fsmState && (
+                    <span className="text-[10px] font-mono text-[#a855f7]">
+                      S{MULTI_CYCLE_FSM[fsmState].id} {fsmState}
+                    </span>
+                  )}
                 </div>
                 <div className="p-4">
-                  {controlSignals ? (
+                  {controlRows.length > 0 ? (
                     <div className="grid grid-cols-2 gap-2">
-                      {([
-                        { name: 'RegDst', val: controlSignals.RegDst, desc: 'Select dest reg' },
-                        { name: 'ALUSrc', val: controlSignals.ALUSrc, desc: 'ALU input B src' },
-                        { name: 'MemToReg', val: controlSignals.MemToReg, desc: 'Write data src' },
-                        { name: 'RegWrite', val: controlSignals.RegWrite, desc: 'Enable reg write' },
-                        { name: 'MemRead', val: controlSignals.MemRead, desc: 'Read from mem' },
-                        { name: 'MemWrite', val: controlSignals.MemWrite, desc: 'Write to mem' },
-                        { name: 'Branch', val: controlSignals.Branch, desc: 'Branch instr' },
-                        { name: 'ALUOp', val: controlSignals.ALUOp.join(''), desc: 'ALU operation' },
-                      ] as { name: string; val: number | string; desc: string }[]).map((sig) => {
-                        const isHigh = sig.val === 1 || sig.val === '1' || sig.val === '10' || sig.val === '01';
+                      {controlRows.map((sig) => {
+                        const isHigh = sig.val !== 0 && !/^0+$/.test(String(sig.val));
                         return (
                           <div
                             key={sig.name}
@@ -1161,7 +1890,7 @@ export default function SingleCycleModule() {
                               {sig.name}
                             </div>
                             <div className={`text-sm font-mono font-bold ${isHigh ? 'text-white' : 'text-[#3a3a4e]'}`}>
-                              {typeof sig.val === 'number' ? sig.val : sig.val}
+                              {sig.val}
                             </div>
                             <div className="text-[8px] text-[#71717a] mt-0.5">{sig.desc}</div>
                           </div>
@@ -1195,15 +1924,19 @@ export default function SingleCycleModule() {
                     </span>
                   </div>
                   <div className="p-4">
-                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
                       <div className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e]">
                         <div className="text-[10px] text-[#71717a] uppercase tracking-wider mb-1">PC</div>
-                        <div className="text-lg font-mono font-bold text-[#6366f1]">{pc}</div>
+                        <div className="text-sm font-mono font-bold text-[#6366f1]">{toHex(pc)}</div>
                       </div>
                       <div className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e]">
-                        <div className="text-[10px] text-[#71717a] uppercase tracking-wider mb-1">Current Phase</div>
-                        <div className="text-lg font-mono font-bold" style={{ color: PHASE_COLORS[phase] }}>
-                          {phase === 'idle' ? '--' : phase.toUpperCase()}
+                        <div className="text-[10px] text-[#71717a] uppercase tracking-wider mb-1">
+                          {variant === 'single' ? 'Current Phase' : 'FSM State'}
+                        </div>
+                        <div className="text-lg font-mono font-bold" style={{ color: stageColor }}>
+                          {variant === 'single'
+                            ? phase === 'idle' ? '--' : phase.toUpperCase()
+                            : fsmState ? `S${MULTI_CYCLE_FSM[fsmState].id}` : '--'}
                         </div>
                       </div>
                       <div className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e]">
@@ -1215,13 +1948,24 @@ export default function SingleCycleModule() {
                       <div className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e]">
                         <div className="text-[10px] text-[#71717a] uppercase tracking-wider mb-1">ALU Result</div>
                         <div className="text-lg font-mono font-bold text-[#f59e0b]">
-                          {phase !== 'idle' && phase !== 'fetch' ? aluResult : '--'}
+                          {trace && stageIndex >= 2 ? trace.aluResult : '--'}
                         </div>
                       </div>
                       <div className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e]">
                         <div className="text-[10px] text-[#71717a] uppercase tracking-wider mb-1">Completed</div>
                         <div className="text-lg font-mono font-bold text-[#10b981]">
-                          {instructionsCompleted}/{program.length}
+                          {instructionsCompleted}
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-[#0d0d14] border border-[#1e1e2e]">
+                        <div className="text-[10px] text-[#71717a] uppercase tracking-wider mb-1">Clock Cycles</div>
+                        <div className="text-lg font-mono font-bold text-[#ec4899]">
+                          {cycles}
+                          {instructionsCompleted > 0 && (
+                            <span className="ml-2 text-[10px] text-[#71717a]">
+                              CPI {(cycles / instructionsCompleted).toFixed(2)}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -1249,18 +1993,8 @@ export default function SingleCycleModule() {
                 {phaseLog.length > 0 ? (
                   phaseLog.map((entry, idx) => {
                     const isHeader = entry.startsWith('---');
-                    const isPhase = entry.match(/^(FETCH|DECODE|CONTROL|READ REGS|EXECUTE|MEMORY|WRITEBACK|BRANCH|PC):/);
-                    let color = '#a1a1aa';
-                    if (isHeader) color = '#8b5cf6';
-                    else if (isPhase) {
-                      const phaseName = isPhase[1];
-                      if (phaseName === 'FETCH') color = '#6366f1';
-                      else if (phaseName === 'DECODE' || phaseName === 'CONTROL' || phaseName === 'READ REGS') color = '#06b6d4';
-                      else if (phaseName === 'EXECUTE' || phaseName === 'BRANCH') color = '#f59e0b';
-                      else if (phaseName === 'MEMORY') color = '#10b981';
-                      else if (phaseName === 'WRITEBACK') color = '#ec4899';
-                      else if (phaseName === 'PC') color = '#6366f1';
-                    }
+                    const tag = /^([A-Z ]+):/.exec(entry)?.[1];
+                    const color = isHeader ? '#8b5cf6' : (tag && LOG_COLORS[tag]) || '#a1a1aa';
 
                     return (
                       <div key={idx} style={{ color }} className={isHeader ? 'pt-2 font-bold' : ''}>
@@ -1318,7 +2052,7 @@ export default function SingleCycleModule() {
                           { phase: 'Decode', color: '#06b6d4', abbrev: 'ID', desc: 'Control unit generates signals from the opcode. Register file reads source registers rs and rt. Sign-extend produces 32-bit immediate.' },
                           { phase: 'Execute', color: '#f59e0b', abbrev: 'EX', desc: 'ALU performs the operation. For R-type: arithmetic on register values. For I-type: add base + offset. For BEQ: subtract to check equality.' },
                           { phase: 'Memory', color: '#10b981', abbrev: 'MEM', desc: 'Data Memory is accessed. LW reads a word from the computed address. SW writes a word to memory. R-type instructions pass through.' },
-                          { phase: 'Write Back', color: '#ec4899', abbrev: 'WB', desc: 'Results are written back to the Register File. R-type writes ALU result. LW writes memory data. SW and BEQ do not write.' },
+                          { phase: 'Write Back', color: '#ec4899', abbrev: 'WB', desc: 'Results are written back to the Register File. R-type writes ALU result. LW writes memory data. JAL writes PC+4 to $ra. SW, branches and J do not write.' },
                         ]).map((p) => (
                           <div
                             key={p.phase}
@@ -1343,12 +2077,14 @@ export default function SingleCycleModule() {
                         <div className="text-xs font-semibold text-white mb-2">Key Components</div>
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                           {[
-                            { name: 'Program Counter (PC)', color: '#6366f1', desc: 'A register holding the memory address of the current instruction. Updated every cycle to PC+4 or branch target.' },
+                            { name: 'Program Counter (PC)', color: '#6366f1', desc: 'A register holding the memory address of the current instruction. Updated every cycle to PC+4, a branch target, a jump address or rs.' },
                             { name: 'Instruction Memory', color: '#6366f1', desc: 'Read-only memory storing the program. Addressed by PC, outputs the 32-bit instruction word.' },
                             { name: 'Register File', color: '#06b6d4', desc: '32 general-purpose 32-bit registers. Has two read ports (rs, rt) and one write port. Reads are combinational; writes occur on clock edge.' },
-                            { name: 'ALU', color: '#f59e0b', desc: 'Arithmetic Logic Unit performs ADD, SUB, AND, OR, SLT. Outputs the result and a Zero flag for branch decisions.' },
-                            { name: 'Data Memory', color: '#10b981', desc: 'Stores data values. Addressed by ALU result. MemRead enables load, MemWrite enables store operations.' },
+                            { name: 'ALU', color: '#f59e0b', desc: 'Arithmetic Logic Unit performs ADD, SUB, AND, OR, XOR, NOR, SLT, SLTU, the shamt shifts and LUI\'s shift by 16. Outputs the result and a Zero flag for branch decisions.' },
+                            { name: 'Data Memory', color: '#10b981', desc: 'Stores data values. Addressed by ALU result. MemRead enables load, MemWrite enables store operations; LB, LBU and SB pick one byte of the word, little-endian.' },
                             { name: 'Control Unit', color: '#a855f7', desc: 'Decodes the opcode field [31:26] and generates all control signals that orchestrate the datapath multiplexers and enables.' },
+                            { name: 'Extend Unit', color: '#f59e0b', desc: 'ExtOp chooses sign extension for offsets, ADDI and SLTI, or zero extension so ANDI, ORI and XORI work on the low 16 bits without touching the rest.' },
+                            { name: 'Next-PC Logic', color: '#ec4899', desc: 'Three MUXes in a row choose PC+4 or the branch target, then the jump address (Jump), then rs (JumpReg).' },
                           ].map((comp) => (
                             <div key={comp.name} className="flex gap-2.5">
                               <div className="w-1 rounded-full flex-shrink-0" style={{ backgroundColor: comp.color }} />
@@ -1376,15 +2112,27 @@ export default function SingleCycleModule() {
                                 <th className="px-2 py-1.5 text-center text-[#71717a]">MemRead</th>
                                 <th className="px-2 py-1.5 text-center text-[#71717a]">MemWrite</th>
                                 <th className="px-2 py-1.5 text-center text-[#71717a]">Branch</th>
+                                <th className="px-2 py-1.5 text-center text-[#71717a]">BranchNE</th>
+                                <th className="px-2 py-1.5 text-center text-[#71717a]">ExtOp</th>
+                                <th className="px-2 py-1.5 text-center text-[#71717a]">Jump</th>
+                                <th className="px-2 py-1.5 text-center text-[#71717a]">JumpReg</th>
                                 <th className="px-2 py-1.5 text-center text-[#71717a]">ALUOp</th>
                               </tr>
                             </thead>
                             <tbody className="divide-y divide-[#1e1e2e]">
                               {([
-                                { name: 'R-type', signals: [1, 0, 0, 1, 0, 0, 0, '10'] },
-                                { name: 'LW', signals: [0, 1, 1, 1, 1, 0, 0, '00'] },
-                                { name: 'SW', signals: ['X', 1, 'X', 0, 0, 1, 0, '00'] },
-                                { name: 'BEQ', signals: ['X', 0, 'X', 0, 0, 0, 1, '01'] },
+                                { name: 'R-type', signals: [1, 0, 0, 1, 0, 0, 0, 0, 'X', 0, 0, '10'] },
+                                { name: 'LW/LB/LBU', signals: [0, 1, 1, 1, 1, 0, 0, 0, 1, 0, 0, '00'] },
+                                { name: 'SW/SB', signals: ['X', 1, 'X', 0, 0, 1, 0, 0, 1, 0, 0, '00'] },
+                                { name: 'BEQ', signals: ['X', 0, 'X', 0, 0, 0, 1, 0, 1, 0, 0, '01'] },
+                                { name: 'BNE', signals: ['X', 0, 'X', 0, 0, 0, 0, 1, 1, 0, 0, '01'] },
+                                { name: 'ADDI', signals: [0, 1, 0, 1, 0, 0, 0, 0, 1, 0, 0, '00'] },
+                                { name: 'SLTI', signals: [0, 1, 0, 1, 0, 0, 0, 0, 1, 0, 0, '11'] },
+                                { name: 'ANDI/ORI/XORI', signals: [0, 1, 0, 1, 0, 0, 0, 0, 0, 0, 0, '11'] },
+                                { name: 'LUI', signals: [0, 1, 0, 1, 0, 0, 0, 0, 'X', 0, 0, '11'] },
+                                { name: 'J', signals: ['X', 'X', 'X', 0, 0, 0, 0, 0, 'X', 1, 0, 'XX'] },
+                                { name: 'JAL', signals: [2, 'X', 2, 1, 0, 0, 0, 0, 'X', 1, 0, 'XX'] },
+                                { name: 'JR', signals: ['X', 'X', 'X', 0, 0, 0, 0, 0, 'X', 0, 1, 'XX'] },
                               ]).map((row) => (
                                 <tr key={row.name} className="hover:bg-[#16161f]">
                                   <td className="px-2 py-1.5 font-mono font-bold text-white">{row.name}</td>
@@ -1394,7 +2142,7 @@ export default function SingleCycleModule() {
                                       className={`px-2 py-1.5 text-center font-mono ${
                                         sig === 1 ? 'text-[#10b981] font-bold' :
                                         sig === 0 ? 'text-[#3a3a4e]' :
-                                        sig === 'X' ? 'text-[#71717a]' :
+                                        sig === 'X' || sig === 'XX' ? 'text-[#71717a]' :
                                         'text-[#a855f7] font-bold'
                                       }`}
                                     >
@@ -1422,12 +2170,16 @@ export default function SingleCycleModule() {
                           </li>
                           <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
                             <span className="text-[#8b5cf6] mt-0.5">*</span>
-                            <span>MUXes are controlled by single-bit signals that select between two data sources (e.g., RegDst selects between rt and rd for the write register).</span>
+                            <span>MUXes are controlled by single-bit signals that select between two data sources (e.g., RegDst selects between rt and rd for the write register). JAL widens RegDst and MemToReg to a third input so it can write PC+4 into $ra.</span>
                           </li>
                           <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
                             <span className="text-[#8b5cf6] mt-0.5">*</span>
                             <span>The single-cycle design is simple but inefficient: resources like the ALU sit idle during memory access. Pipelining solves this by overlapping instruction execution.</span>
                           </li>
+                          <li className="text-[11px] text-[#a1a1aa] flex items-start gap-2">
+                            <span className="text-[#8b5cf6] mt-0.5">*</span>
+                            <span>The multi-cycle datapath shortens the clock instead: one memory and one ALU are reused across states, with IR, MDR, A, B and ALUOut holding values in between. Its FSM takes 5 cycles for LW, 4 for SW, R-type and immediates, and 3 for branches and jumps.</span>
+                          </li>
                         </ul>
                       </div>
                     </div>
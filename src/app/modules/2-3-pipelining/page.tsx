@@ -15,55 +15,22 @@ import {
   Info,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
-
-// ──────────────────────────── Types ────────────────────────────
-
-type OpCode = "ADD" | "SUB" | "AND" | "OR" | "LW" | "SW" | "BEQ";
-
-interface Instruction {
-  id: number;
-  op: OpCode;
-  text: string;
-  rd: string;  // destination register
-  rs: string;  // source register 1
-  rt: string;  // source register 2
-  color: string;
-}
-
-type StageSlot = {
-  instruction: Instruction | null;
-  isStall: boolean;
-  isFlushed: boolean;
-};
-
-interface ForwardingPath {
-  fromStage: number; // index into stages (0=IF..4=WB)
-  toStage: number;
-  register: string;
-  fromInstr: Instruction;
-  toInstr: Instruction;
-}
-
-interface HazardInfo {
-  type: "RAW" | "LOAD_USE" | "CONTROL";
-  stageIndex: number;
-  register: string;
-  instruction: Instruction;
-}
-
-interface PipelineHistoryRow {
-  cycle: number;
-  slots: (
-    | { instrId: number; instrText: string; color: string; isStall: boolean; isFlushed: boolean }
-    | null
-  )[];
-}
+import { useStepHistory } from "@/hooks/useStepHistory";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  STAGE_NAMES,
+  initPipelineFrame,
+  nextPipelineFrame,
+  type Instruction,
+  type OpCode,
+  type PipelineFrame,
+  type PipelineHistoryRow,
+} from "@/lib/sim/pipeline";
 
 // ──────────────────────────── Constants ────────────────────────────
 
-const STAGE_NAMES = ["IF", "ID", "EX", "MEM", "WB"] as const;
-
 const STAGE_DESCRIPTIONS = [
   "Instruction Fetch",
   "Instruction Decode",
@@ -180,192 +147,20 @@ function makeInstruction(
   };
 }
 
-function initPipelineSlots(): StageSlot[] {
-  return Array.from({ length: 5 }, () => ({
-    instruction: null,
-    isStall: false,
-    isFlushed: false,
-  }));
-}
-
-// ──────────────────────────── Pipeline Engine ────────────────────────────
-
-interface StepResult {
-  newPipeline: StageSlot[];
-  completedInstr: Instruction | null;
-  hazards: HazardInfo[];
-  forwarding: ForwardingPath[];
-  stallInserted: boolean;
-  flushed: boolean;
-  branchTaken: boolean;
-}
-
-function simulateStep(
-  pipeline: StageSlot[],
-  nextInstr: Instruction | null,
-  forwardingEnabled: boolean
-): StepResult {
-  const hazards: HazardInfo[] = [];
-  const forwarding: ForwardingPath[] = [];
-  let stallInserted = false;
-  let flushed = false;
-  let branchTaken = false;
-
-  // The instruction currently in ID is checking for hazards
-  const idSlot = pipeline[1];
-  const exSlot = pipeline[2];
-  const memSlot = pipeline[3];
-  const wbSlot = pipeline[4]; // about to retire
-
-  // ── Check for control hazard: BEQ in EX is resolved ──
-  if (exSlot.instruction && exSlot.instruction.op === "BEQ" && !exSlot.isStall && !exSlot.isFlushed) {
-    // Branch evaluated in EX — we simulate always-taken for demonstration
-    branchTaken = true;
-    flushed = true;
-  }
-
-  // ── Check for data hazards on instruction in ID ──
-  let needStall = false;
-
-  if (idSlot.instruction && !idSlot.isStall && !idSlot.isFlushed) {
-    const idInstr = idSlot.instruction;
-    const srcRegs = [idInstr.rs, idInstr.rt].filter((r) => r && r !== "");
-
-    // Check EX stage for RAW hazard
-    if (exSlot.instruction && !exSlot.isStall && !exSlot.isFlushed && exSlot.instruction.rd) {
-      const exDest = exSlot.instruction.rd;
-      for (const src of srcRegs) {
-        if (src === exDest) {
-          // EX hazard
-          if (exSlot.instruction.op === "LW") {
-            // Load-use hazard: data not available until end of MEM
-            // Even with forwarding we need 1 stall
-            hazards.push({
-              type: "LOAD_USE",
-              stageIndex: 2,
-              register: src,
-              instruction: exSlot.instruction,
-            });
-            needStall = true;
-          } else {
-            // ALU-ALU RAW: EX result forwarded to EX input
-            hazards.push({
-              type: "RAW",
-              stageIndex: 2,
-              register: src,
-              instruction: exSlot.instruction,
-            });
-            if (forwardingEnabled) {
-              forwarding.push({
-                fromStage: 2,
-                toStage: 1,
-                register: src,
-                fromInstr: exSlot.instruction,
-                toInstr: idInstr,
-              });
-            } else {
-              needStall = true;
-            }
-          }
-        }
-      }
-    }
-
-    // Check MEM stage for RAW hazard (if not already stalling)
-    if (!needStall && memSlot.instruction && !memSlot.isStall && !memSlot.isFlushed && memSlot.instruction.rd) {
-      const memDest = memSlot.instruction.rd;
-      for (const src of srcRegs) {
-        if (src === memDest) {
-          hazards.push({
-            type: memSlot.instruction.op === "LW" ? "LOAD_USE" : "RAW",
-            stageIndex: 3,
-            register: src,
-            instruction: memSlot.instruction,
-          });
-          if (forwardingEnabled) {
-            forwarding.push({
-              fromStage: 3,
-              toStage: 1,
-              register: src,
-              fromInstr: memSlot.instruction,
-              toInstr: idInstr,
-            });
-          } else {
-            needStall = true;
-          }
-        }
-      }
-    }
-
-    // Check if we still need a second stall (without forwarding, EX hazard needs 2 stalls)
-    // Simplified: without forwarding, any RAW from EX needs 2 stalls, from MEM needs 1 stall.
-    // We handle this by re-checking on next cycle since the stall keeps the ID instruction.
-  }
-
-  // ── Build new pipeline state ──
-  const newPipeline: StageSlot[] = initPipelineSlots();
-  let completedInstr: Instruction | null = null;
-
-  // WB stage completes
-  if (wbSlot.instruction && !wbSlot.isStall && !wbSlot.isFlushed) {
-    completedInstr = wbSlot.instruction;
-  }
-
-  if (needStall) {
-    stallInserted = true;
-
-    // WB <- MEM
-    newPipeline[4] = { ...memSlot };
-    // MEM <- EX
-    newPipeline[3] = { ...exSlot };
-    // EX <- bubble (stall)
-    newPipeline[2] = { instruction: null, isStall: true, isFlushed: false };
-    // ID stays (stalled)
-    newPipeline[1] = { ...idSlot };
-    // IF stays (stalled) — hold the same next instruction
-    newPipeline[0] = { ...pipeline[0] };
-  } else if (flushed) {
-    // WB <- MEM
-    newPipeline[4] = { ...memSlot };
-    // MEM <- EX (branch in EX completes normally)
-    newPipeline[3] = { ...exSlot };
-    // Flush IF and ID
-    newPipeline[2] = { instruction: null, isStall: false, isFlushed: false };
-    newPipeline[1] = {
-      instruction: pipeline[1].instruction,
-      isStall: false,
-      isFlushed: pipeline[1].instruction ? true : false,
-    };
-    newPipeline[0] = {
-      instruction: pipeline[0].instruction,
-      isStall: false,
-      isFlushed: pipeline[0].instruction ? true : false,
-    };
-  } else {
-    // Normal advancement
-    // WB <- MEM
-    newPipeline[4] = { ...memSlot };
-    // MEM <- EX
-    newPipeline[3] = { ...exSlot };
-    // EX <- ID
-    newPipeline[2] = { ...idSlot };
-    // ID <- IF
-    newPipeline[1] = { ...pipeline[0] };
-    // IF <- next instruction
-    newPipeline[0] = nextInstr
-      ? { instruction: nextInstr, isStall: false, isFlushed: false }
-      : { instruction: null, isStall: false, isFlushed: false };
-  }
-
-  return {
-    newPipeline,
-    completedInstr,
-    hazards,
-    forwarding,
-    stallInserted,
-    flushed,
-    branchTaken,
-  };
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeFrame(frame: PipelineFrame): string | undefined {
+  if (frame.cycle === 0) return undefined;
+  const stages = frame.pipeline
+    .map((slot, i) =>
+      slot.isStall ? `${STAGE_NAMES[i]} bubble` : slot.instruction ? `${STAGE_NAMES[i]} ${slot.instruction.text}` : null
+    )
+    .filter(Boolean);
+  const events = [
+    ...frame.hazards.map((h) => `${h.type.replace("_", "-")} hazard on ${h.register}`),
+    ...frame.forwardingPaths.map((f) => `forwarding ${f.register} from ${STAGE_NAMES[f.fromStage]}`),
+  ];
+  const suffix = events.length > 0 ? `. ${events.join(", ")}` : "";
+  return `Cycle ${frame.cycle}: ${stages.join(", ") || "pipeline empty"}${suffix}`;
 }
 
 // ──────────────────────────── Main Component ────────────────────────────
@@ -373,14 +168,19 @@ function simulateStep(
 export default function PipeliningModule() {
   // ── State ──
   const [instructionQueue, setInstructionQueue] = useState<Instruction[]>([]);
-  const [pipeline, setPipeline] = useState<StageSlot[]>(initPipelineSlots);
-  const [cycle, setCycle] = useState(0);
-  const [completedCount, setCompletedCount] = useState(0);
-  const [stallCount, setStallCount] = useState(0);
-  const [forwardCount, setForwardCount] = useState(0);
-  const [history, setHistory] = useState<PipelineHistoryRow[]>([]);
-  const [hazards, setHazards] = useState<HazardInfo[]>([]);
-  const [forwardingPaths, setForwardingPaths] = useState<ForwardingPath[]>([]);
+  const [activeScenario, setActiveScenario] = useState("data_hazard");
+  const timeline = useStepHistory<PipelineFrame>(initPipelineFrame);
+  const {
+    pipeline,
+    cycle,
+    completedCount,
+    stallCount,
+    forwardCount,
+    history,
+    hazards,
+    forwardingPaths,
+    queueIndex,
+  } = timeline.current;
 
   const [forwardingEnabled, setForwardingEnabled] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -395,8 +195,6 @@ export default function PipeliningModule() {
   const [pickerRt, setPickerRt] = useState("R3");
 
   const nextIdRef = useRef(1);
-  const queueIndexRef = useRef(0); // tracks which instruction to fetch next
-  const isStallHoldRef = useRef(false); // when stalling, don't advance queue
 
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const historyEndRef = useRef<HTMLDivElement>(null);
@@ -404,7 +202,7 @@ export default function PipeliningModule() {
   // ── Derived ──
   const cpi = completedCount > 0 ? (cycle / completedCount).toFixed(2) : "--";
   const pipelineIsEmpty =
-    pipeline.every((s) => !s.instruction) && queueIndexRef.current >= instructionQueue.length;
+    pipeline.every((s) => !s.instruction) && queueIndex >= instructionQueue.length;
   const simulationDone = pipelineIsEmpty && cycle > 0;
 
   // ── Auto-scroll history ──
@@ -430,99 +228,38 @@ export default function PipeliningModule() {
 
   // ── Step logic ──
   const stepOnce = useCallback(() => {
-    setPipeline((prevPipeline) => {
-      // Determine next instruction to fetch
-      let nextInstr: Instruction | null = null;
-      if (!isStallHoldRef.current && queueIndexRef.current < instructionQueue.length) {
-        nextInstr = instructionQueue[queueIndexRef.current];
-      }
-
-      const result = simulateStep(prevPipeline, nextInstr, forwardingEnabled);
-
-      // Update queue index
-      if (result.stallInserted) {
-        // Stall: don't advance fetch pointer
-        isStallHoldRef.current = true;
-      } else if (result.flushed) {
-        // Flush: the instructions in IF/ID that were flushed don't count.
-        // We need to skip ahead (branch target). For simplicity, we advance
-        // the queue index past any flushed instructions and continue.
-        // The flushed instructions in IF/ID won't complete.
-        // In our model, instructions that were in IF and ID are flushed.
-        // The queue pointer was already advanced when those were fetched.
-        // On next cycle, we fetch the next instruction after the flushed ones.
-        isStallHoldRef.current = false;
-      } else {
-        if (isStallHoldRef.current) {
-          isStallHoldRef.current = false;
-        }
-        // Advance if we actually fetched
-        if (nextInstr) {
-          queueIndexRef.current += 1;
-        }
-      }
-
-      // Update other state
-      setCycle((c) => c + 1);
+    // Replay recorded frames first when the user has stepped back
+    if (!timeline.atEnd) {
+      timeline.forward();
+      return;
+    }
+    if (timeline.current.finished) {
+      setIsPlaying(false);
+      return;
+    }
+    const next = nextPipelineFrame(timeline.current, instructionQueue, forwardingEnabled);
+    timeline.record(next);
+    if (next.finished) setIsPlaying(false);
+  }, [timeline, instructionQueue, forwardingEnabled]);
 
-      if (result.completedInstr) {
-        setCompletedCount((c) => c + 1);
-      }
-      if (result.stallInserted) {
-        setStallCount((c) => c + 1);
-      }
-      setForwardCount((c) => c + result.forwarding.length);
-
-      setHazards(result.hazards);
-      setForwardingPaths(result.forwarding);
-
-      // Add to history
-      setHistory((prev) => [
-        ...prev,
-        {
-          cycle: prev.length + 1,
-          slots: result.newPipeline.map((slot) =>
-            slot.instruction
-              ? {
-                  instrId: slot.instruction.id,
-                  instrText: slot.instruction.text,
-                  color: slot.instruction.color,
-                  isStall: slot.isStall,
-                  isFlushed: slot.isFlushed,
-                }
-              : slot.isStall
-              ? { instrId: -1, instrText: "STALL", color: "#71717a", isStall: true, isFlushed: false }
-              : null
-          ),
-        },
-      ]);
-
-      // Check if simulation is done
-      const newPipeEmpty =
-        result.newPipeline.every((s) => !s.instruction || s.isFlushed) &&
-        queueIndexRef.current >= instructionQueue.length;
-      if (newPipeEmpty && !result.newPipeline.some((s) => s.instruction && !s.isFlushed)) {
-        setIsPlaying(false);
-      }
+  const stepBack = useCallback(() => {
+    setIsPlaying(false);
+    timeline.back();
+  }, [timeline]);
 
-      return result.newPipeline;
-    });
-  }, [instructionQueue, forwardingEnabled]);
+  const seekCycle = useCallback(
+    (position: number) => {
+      setIsPlaying(false);
+      timeline.seek(position);
+    },
+    [timeline]
+  );
 
   // ── Reset ──
   const handleReset = useCallback(() => {
     setIsPlaying(false);
-    setPipeline(initPipelineSlots());
-    setCycle(0);
-    setCompletedCount(0);
-    setStallCount(0);
-    setForwardCount(0);
-    setHistory([]);
-    setHazards([]);
-    setForwardingPaths([]);
-    queueIndexRef.current = 0;
-    isStallHoldRef.current = false;
-  }, []);
+    timeline.reset(initPipelineFrame());
+  }, [timeline]);
 
   // ── Load scenario ──
   const loadScenario = useCallback(
@@ -530,6 +267,7 @@ export default function PipeliningModule() {
       handleReset();
       const scenario = PRESET_SCENARIOS[key];
       if (!scenario) return;
+      setActiveScenario(key);
       const instructions: Instruction[] = scenario.instructions.map((p, i) =>
         makeInstruction(p, nextIdRef.current + i, i)
       );
@@ -572,9 +310,11 @@ export default function PipeliningModule() {
       color: INSTRUCTION_COLORS[colorIdx % INSTRUCTION_COLORS.length],
     };
 
+    // Recorded cycles ahead of the cursor were computed without this instruction
+    timeline.truncate();
     setInstructionQueue((q) => [...q, instr]);
     setShowInstrPicker(false);
-  }, [instructionQueue.length, pickerOp, pickerRd, pickerRs, pickerRt]);
+  }, [instructionQueue.length, pickerOp, pickerRd, pickerRs, pickerRt, timeline]);
 
   // ── Remove instruction (only before simulation starts) ──
   const removeInstruction = useCallback(
@@ -591,6 +331,8 @@ export default function PipeliningModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(PRESET_SCENARIOS), loadScenario);
+
   // ──────────────────────────── Render ────────────────────────────
 
   return (
@@ -600,7 +342,7 @@ export default function PipeliningModule() {
       <main className="pt-14">
         <div className="max-w-[1440px] mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md bg-[#6366f1]/15 border border-[#6366f1]/25 text-[#6366f1] text-xs font-mono font-semibold">
                 2.3
@@ -623,25 +365,35 @@ export default function PipeliningModule() {
               <span className="text-[#ec4899] font-mono">WB</span>{" "}
               stages with hazard detection
             </p>
+            <ModuleLinks moduleId="2.3" />
           </div>
 
           {/* ── Controls Bar ── */}
           <div className="mb-6">
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={simulationDone}
               onPlay={() => setIsPlaying(true)}
               onPause={() => setIsPlaying(false)}
               onStep={stepOnce}
+              onStepBack={stepBack}
+              canStepBack={timeline.position > 0}
               onReset={handleReset}
               speed={speed}
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics((s) => !s)}
+              timeline={{ position: timeline.position, length: timeline.length, onSeek: seekCycle }}
+              description={describeFrame(timeline.current)}
             >
               {/* Forwarding toggle */}
               <button
                 onClick={() => {
-                  if (cycle === 0) setForwardingEnabled((f) => !f);
+                  if (cycle === 0) {
+                    timeline.truncate();
+                    setForwardingEnabled((f) => !f);
+                  }
                 }}
                 className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium transition-all duration-200 ${
                   forwardingEnabled
@@ -825,9 +577,9 @@ export default function PipeliningModule() {
                 ) : (
                   <div className="space-y-1.5">
                     {instructionQueue.map((instr, i) => {
-                      const fetched = queueIndexRef.current > i || cycle > 0;
+                      const fetched = queueIndex > i || cycle > 0;
                       const isCurrent =
-                        queueIndexRef.current === i && cycle > 0;
+                        queueIndex === i && cycle > 0;
 
                       return (
                         <motion.div
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   GitBranch,
@@ -14,44 +14,34 @@ import {
   CheckCircle,
   XCircle,
   ArrowRight,
+  Columns2,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
+import ComparisonView from '@/components/ui/ComparisonView';
+import { useScenarioParam } from '@/hooks/useShareState';
+import type { LockstepSim } from '@/lib/compare';
+import {
+  createPredictorRun,
+  getBHTIndex,
+  MISPREDICTION_PENALTY,
+  predict,
+  predictorStats,
+  predictorStep,
+  TWO_BIT_PREDICT,
+  TWO_BIT_SHORT,
+  TWO_BIT_STATES,
+  type BHTEntry,
+  type BranchOutcome,
+  type PredictionRecord,
+  type PredictorRun,
+  type PredictorType,
+  type TwoBitState,
+} from '@/lib/sim/branch-prediction';
 
 // ──────────────────────────── Types ────────────────────────────
 
-type BranchOutcome = 'T' | 'NT';
-
-type PredictorType =
-  | 'always-taken'
-  | 'always-not-taken'
-  | '1-bit'
-  | '2-bit'
-  | 'tournament';
-
-type TwoBitState = 'SN' | 'WN' | 'WT' | 'ST';
-
-interface PredictionRecord {
-  step: number;
-  pc: number;
-  actual: BranchOutcome;
-  predicted: BranchOutcome;
-  correct: boolean;
-  predictorState: string;
-}
-
-interface BHTEntry {
-  tag: number;
-  state1Bit: boolean; // true = Predict Taken
-  state2Bit: TwoBitState;
-  // Tournament sub-states
-  localState: TwoBitState;
-  globalState: TwoBitState;
-  chooser: number; // 0-3: 0,1 => use local, 2,3 => use global
-  accessCount: number;
-  lastAccess: number;
-}
-
 interface ScenarioPreset {
   label: string;
   desc: string;
@@ -71,29 +61,6 @@ const PREDICTOR_TYPES: { value: PredictorType; label: string; desc: string }[] =
   { value: 'tournament', label: 'Tournament', desc: 'Two sub-predictors with a chooser that selects the better one' },
 ];
 
-const TWO_BIT_STATES: TwoBitState[] = ['SN', 'WN', 'WT', 'ST'];
-
-const TWO_BIT_LABELS: Record<TwoBitState, string> = {
-  SN: 'Strongly\nNot Taken',
-  WN: 'Weakly\nNot Taken',
-  WT: 'Weakly\nTaken',
-  ST: 'Strongly\nTaken',
-};
-
-const TWO_BIT_SHORT: Record<TwoBitState, string> = {
-  SN: 'Strongly NT',
-  WN: 'Weakly NT',
-  WT: 'Weakly T',
-  ST: 'Strongly T',
-};
-
-const TWO_BIT_PREDICT: Record<TwoBitState, BranchOutcome> = {
-  SN: 'NT',
-  WN: 'NT',
-  WT: 'T',
-  ST: 'T',
-};
-
 const SCENARIO_PRESETS: Record<string, ScenarioPreset> = {
   loop: {
     label: 'Loop Pattern (TTTTNT)',
@@ -125,112 +92,6 @@ const SCENARIO_PRESETS: Record<string, ScenarioPreset> = {
 // Fix the loop pattern (was a weird expression)
 SCENARIO_PRESETS.loop.pattern = ['T', 'T', 'T', 'T', 'NT', 'T', 'T', 'T', 'T', 'NT', 'T', 'T', 'T', 'T', 'NT', 'T', 'T', 'T', 'T', 'NT'];
 
-const BHT_SIZE = 8; // 8 entries, indexed by PC[4:2]
-const MISPREDICTION_PENALTY = 3; // cycles
-
-// ──────────────────────────── Simulation Logic ────────────────────────────
-
-function createDefaultBHTEntry(): BHTEntry {
-  return {
-    tag: 0,
-    state1Bit: false, // Predict Not Taken initially
-    state2Bit: 'WN',
-    localState: 'WN',
-    globalState: 'WN',
-    chooser: 1, // slightly prefer local
-    accessCount: 0,
-    lastAccess: -1,
-  };
-}
-
-function createDefaultBHT(): BHTEntry[] {
-  return Array.from({ length: BHT_SIZE }, () => createDefaultBHTEntry());
-}
-
-function getBHTIndex(pc: number): number {
-  return (pc >> 2) & (BHT_SIZE - 1);
-}
-
-function next2BitState(state: TwoBitState, taken: boolean): TwoBitState {
-  const idx = TWO_BIT_STATES.indexOf(state);
-  if (taken) {
-    return TWO_BIT_STATES[Math.min(idx + 1, 3)];
-  } else {
-    return TWO_BIT_STATES[Math.max(idx - 1, 0)];
-  }
-}
-
-function predict(
-  type: PredictorType,
-  entry: BHTEntry
-): { prediction: BranchOutcome; detail: string } {
-  switch (type) {
-    case 'always-taken':
-      return { prediction: 'T', detail: 'Always Taken' };
-    case 'always-not-taken':
-      return { prediction: 'NT', detail: 'Always Not Taken' };
-    case '1-bit':
-      return {
-        prediction: entry.state1Bit ? 'T' : 'NT',
-        detail: entry.state1Bit ? 'Predict Taken' : 'Predict Not Taken',
-      };
-    case '2-bit':
-      return {
-        prediction: TWO_BIT_PREDICT[entry.state2Bit],
-        detail: TWO_BIT_SHORT[entry.state2Bit],
-      };
-    case 'tournament': {
-      const localPred = TWO_BIT_PREDICT[entry.localState];
-      const globalPred = TWO_BIT_PREDICT[entry.globalState];
-      const useGlobal = entry.chooser >= 2;
-      const prediction = useGlobal ? globalPred : localPred;
-      return {
-        prediction,
-        detail: `${useGlobal ? 'Global' : 'Local'} selected (chooser=${entry.chooser})`,
-      };
-    }
-  }
-}
-
-function updatePredictor(
-  type: PredictorType,
-  entry: BHTEntry,
-  actual: BranchOutcome,
-  step: number
-): BHTEntry {
-  const taken = actual === 'T';
-  const newEntry = { ...entry, accessCount: entry.accessCount + 1, lastAccess: step };
-
-  switch (type) {
-    case 'always-taken':
-    case 'always-not-taken':
-      return newEntry;
-    case '1-bit':
-      newEntry.state1Bit = taken;
-      return newEntry;
-    case '2-bit':
-      newEntry.state2Bit = next2BitState(entry.state2Bit, taken);
-      return newEntry;
-    case 'tournament': {
-      const localPred = TWO_BIT_PREDICT[entry.localState];
-      const globalPred = TWO_BIT_PREDICT[entry.globalState];
-      const localCorrect = localPred === actual;
-      const globalCorrect = globalPred === actual;
-
-      // Update chooser: if they disagree, shift towards the one that was right
-      if (localCorrect && !globalCorrect) {
-        newEntry.chooser = Math.max(0, entry.chooser - 1);
-      } else if (!localCorrect && globalCorrect) {
-        newEntry.chooser = Math.min(3, entry.chooser + 1);
-      }
-
-      // Update both sub-predictors
-      newEntry.localState = next2BitState(entry.localState, taken);
-      newEntry.globalState = next2BitState(entry.globalState, taken);
-      return newEntry;
-    }
-  }
-}
 
 function generateRandomPattern(length: number): BranchOutcome[] {
   const pattern: BranchOutcome[] = [];
@@ -250,6 +111,59 @@ function generatePCSequence(length: number): number[] {
   return pcs;
 }
 
+// ──────────────────────────── Comparison ────────────────────────────
+
+interface PredictorConfig {
+  type: PredictorType;
+  pattern: BranchOutcome[];
+  pcs: number[];
+}
+
+const PREDICTOR_SIM: LockstepSim<PredictorRun, PredictorConfig> = {
+  init: () => createPredictorRun(),
+  step: (run, config) => predictorStep(run, config.type, config.pattern, config.pcs),
+  done: (run, config) => run.step >= config.pattern.length,
+  metrics: (run) => {
+    const stats = predictorStats(run.history);
+    return [
+      { label: 'Branches', value: stats.total },
+      { label: 'Accuracy', value: stats.accuracy, better: 'higher', digits: 1, unit: '%' },
+      { label: 'Mispredictions', value: stats.total - stats.correct, better: 'lower' },
+      { label: 'Penalty Cycles', value: stats.penaltyCycles, better: 'lower' },
+    ];
+  },
+};
+
+/** One cell per resolved branch, green when the prediction was right. */
+function OutcomeStrip({ run, length }: { run: PredictorRun; length: number }) {
+  const last = run.history[run.history.length - 1];
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-[2px]">
+        {Array.from({ length }, (_, i) => {
+          const record = run.history[i];
+          return (
+            <div
+              key={i}
+              className="flex-1 h-8 rounded-sm flex items-center justify-center text-[8px] font-mono"
+              style={{
+                backgroundColor: record ? (record.correct ? '#10b98140' : '#ef444440') : '#1e1e2e',
+                color: record ? (record.correct ? '#10b981' : '#ef4444') : '#71717a',
+              }}
+              title={record ? `Step ${i + 1}: predicted ${record.predicted}, actual ${record.actual}` : `Step ${i + 1}`}
+            >
+              {record?.predicted}
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-[10px] font-mono text-[#71717a]">
+        {last ? `Last: ${last.predictorState}` : 'No branches resolved yet'}
+      </div>
+    </div>
+  );
+}
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function BranchPredictionModule() {
@@ -257,10 +171,11 @@ export default function BranchPredictionModule() {
   const [predictorType, setPredictorType] = useState<PredictorType>('2-bit');
   const [branchPattern, setBranchPattern] = useState<BranchOutcome[]>([]);
   const [pcSequence, setPCSequence] = useState<number[]>([]);
-  const [bht, setBht] = useState<BHTEntry[]>(createDefaultBHT);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [history, setHistory] = useState<PredictionRecord[]>([]);
+  const [run, setRun] = useState(createPredictorRun);
+  const { bht, step: currentStep, history } = run;
   const [activeScenario, setActiveScenario] = useState('loop');
+  /** Predictor run next to `predictorType` on the same trace; null shows the single simulator. */
+  const [compareWith, setCompareWith] = useState<PredictorType | null>(null);
 
   // ── Animation State ──
   const [lastPrediction, setLastPrediction] = useState<PredictionRecord | null>(null);
@@ -286,53 +201,28 @@ export default function BranchPredictionModule() {
   }, [speed]);
 
   // ── Derived Metrics ──
-  const totalPredictions = history.length;
-  const correctPredictions = history.filter((h) => h.correct).length;
+  const {
+    total: totalPredictions,
+    correct: correctPredictions,
+    accuracy,
+    penaltyCycles: totalPenaltyCycles,
+  } = predictorStats(history);
   const incorrectPredictions = totalPredictions - correctPredictions;
-  const accuracy = totalPredictions > 0 ? (correctPredictions / totalPredictions) * 100 : 0;
-  const totalPenaltyCycles = incorrectPredictions * MISPREDICTION_PENALTY;
   const simulationDone = currentStep >= branchPattern.length && branchPattern.length > 0;
 
   // ── Step Forward ──
   const stepForward = useCallback(() => {
-    setBranchPattern((pattern) => {
-      if (currentStep >= pattern.length) {
-        setIsPlaying(false);
-        return pattern;
-      }
-
-      const pc = pcSequence[currentStep] || 0x100;
-      const bhtIdx = getBHTIndex(pc);
-
-      setBht((prevBht) => {
-        const entry = prevBht[bhtIdx];
-        const { prediction, detail } = predict(predictorType, entry);
-        const actual = pattern[currentStep];
-        const correct = prediction === actual;
-
-        const record: PredictionRecord = {
-          step: currentStep,
-          pc,
-          actual,
-          predicted: prediction,
-          correct,
-          predictorState: detail,
-        };
-
-        setHistory((prev) => [...prev, record]);
-        setLastPrediction(record);
-        setFlashResult(correct ? 'correct' : 'incorrect');
-        setTimeout(() => setFlashResult(null), 600);
-
-        const updatedBht = [...prevBht];
-        updatedBht[bhtIdx] = updatePredictor(predictorType, entry, actual, currentStep);
-        return updatedBht;
-      });
-
-      setCurrentStep((s) => s + 1);
-      return pattern;
-    });
-  }, [currentStep, pcSequence, predictorType]);
+    if (currentStep >= branchPattern.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const next = predictorStep(run, predictorType, branchPattern, pcSequence);
+    const record = next.history[next.history.length - 1];
+    setRun(next);
+    setLastPrediction(record);
+    setFlashResult(record.correct ? 'correct' : 'incorrect');
+    setTimeout(() => setFlashResult(null), 600);
+  }, [run, currentStep, branchPattern, pcSequence, predictorType]);
 
   // ── Animation Loop ──
   const animationLoop = useCallback(
@@ -382,9 +272,7 @@ export default function BranchPredictionModule() {
 
   const handleReset = useCallback(() => {
     setIsPlaying(false);
-    setCurrentStep(0);
-    setHistory([]);
-    setBht(createDefaultBHT());
+    setRun(createPredictorRun());
     setLastPrediction(null);
     setFlashResult(null);
   }, []);
@@ -422,6 +310,34 @@ export default function BranchPredictionModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIO_PRESETS), loadScenario);
+
+  // ── Side-by-side comparison ──
+  const compareConfigs = useMemo(
+    () => compareWith === null
+      ? null
+      : ([predictorType, compareWith] as const).map(type => ({ type, pattern: branchPattern, pcs: pcSequence })),
+    [predictorType, compareWith, branchPattern, pcSequence]
+  );
+  const predictorLabel = (type: PredictorType) => PREDICTOR_TYPES.find(pt => pt.value === type)?.label ?? type;
+
+  const toggleCompare = () => {
+    handlePause();
+    setCompareWith(compareWith === null ? (predictorType === 'tournament' ? '2-bit' : 'tournament') : null);
+  };
+
+  const compareToggle = (
+    <button
+      onClick={toggleCompare}
+      className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-xs text-[#a1a1aa] hover:text-white transition-all duration-200"
+      aria-pressed={compareWith !== null}
+      title="Run two predictors side by side on the same branch trace"
+    >
+      <Columns2 size={14} />
+      {compareWith === null ? 'Compare' : 'Exit Compare'}
+    </button>
+  );
+
   // ── Scroll history into view ──
   const historyEndRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -451,7 +367,7 @@ export default function BranchPredictionModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span
                 className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
@@ -474,6 +390,7 @@ export default function BranchPredictionModule() {
               Compare static, 1-bit, 2-bit saturating, and tournament predictors
               with real-time accuracy tracking and state machine visualization.
             </p>
+            <ModuleLinks moduleId="2.4" />
           </div>
 
           {/* ── Predictor Type Selector ── */}
@@ -504,17 +421,52 @@ export default function BranchPredictionModule() {
 
           {/* ── Controls Bar ── */}
           <div className="mb-6">
-            <ModuleControls
-              isPlaying={isPlaying}
-              onPlay={handlePlay}
-              onPause={handlePause}
-              onStep={handleStep}
-              onReset={handleReset}
-              speed={speed}
-              onSpeedChange={setSpeed}
-              showMetrics={showMetrics}
-              onToggleMetrics={() => setShowMetrics(!showMetrics)}
-            />
+            {compareConfigs ? (
+              <ComparisonView
+                key={`${activeScenario}:${branchPattern.join('')}:${predictorType}:${compareWith}`}
+                sim={PREDICTOR_SIM}
+                left={{ label: predictorLabel(compareConfigs[0].type), config: compareConfigs[0] }}
+                right={{ label: predictorLabel(compareConfigs[1].type), config: compareConfigs[1] }}
+                renderPane={(run) => <OutcomeStrip run={run} length={branchPattern.length} />}
+                intervalMs={800}
+                shareState={{ scenario: activeScenario }}
+              >
+                <select
+                  value={compareConfigs[1].type}
+                  onChange={(e) => setCompareWith(e.target.value as PredictorType)}
+                  aria-label="Compare against"
+                  className="px-3 py-2 rounded-lg bg-[#8b5cf6]/10 border border-[#8b5cf6]/30 text-xs text-[#8b5cf6] font-medium focus:outline-none focus:border-[#8b5cf6] cursor-pointer"
+                >
+                  {PREDICTOR_TYPES.map(pt => (
+                    <option key={pt.value} value={pt.value} className="bg-[#111118] text-white">vs {pt.label}</option>
+                  ))}
+                </select>
+                {compareToggle}
+              </ComparisonView>
+            ) : (
+              <ModuleControls
+                shareState={{ scenario: activeScenario }}
+                isPlaying={isPlaying}
+                completed={simulationDone}
+                onPlay={handlePlay}
+                onPause={handlePause}
+                onStep={handleStep}
+                onReset={handleReset}
+                speed={speed}
+                onSpeedChange={setSpeed}
+                showMetrics={showMetrics}
+                onToggleMetrics={() => setShowMetrics(!showMetrics)}
+                description={
+                  lastPrediction
+                    ? `Branch ${lastPrediction.step + 1} at 0x${lastPrediction.pc.toString(16).toUpperCase()}: ` +
+                      `predicted ${lastPrediction.predicted}, actual ${lastPrediction.actual}, ` +
+                      (lastPrediction.correct ? 'correct' : 'mispredicted')
+                    : undefined
+                }
+              >
+                {compareToggle}
+              </ModuleControls>
+            )}
           </div>
 
           {/* ── Scenario Presets ── */}
@@ -538,8 +490,8 @@ export default function BranchPredictionModule() {
             ))}
           </div>
 
-          {/* ── Main Grid ── */}
-          <div className="grid grid-cols-1 xl:grid-cols-[320px_1fr] gap-6">
+          {/* ── Main Grid (single run only) ── */}
+          <div className={`grid grid-cols-1 xl:grid-cols-[320px_1fr] gap-6 ${compareConfigs ? 'hidden' : ''}`}>
             {/* ── Left Sidebar ── */}
             <div className="space-y-4">
               {/* Branch History Chips */}
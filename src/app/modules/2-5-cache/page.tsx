@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Database,
@@ -17,27 +17,34 @@ import {
   Zap,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
+import QuizPanel from '@/components/ui/QuizPanel';
+import { useQuiz } from '@/hooks/useQuiz';
+import { useScenarioParam } from '@/hooks/useShareState';
+import type { QuizRule } from '@/lib/quiz';
+import {
+  BLOCK_SIZE,
+  CACHE_SIZE,
+  L1_LATENCY,
+  L2_LATENCY,
+  MEM_LATENCY,
+  TOTAL_BLOCKS,
+  accessCache,
+  createEmptyCache,
+  getNumSets,
+  getOffsetBits,
+  getSetIndexBits,
+  getTagBits,
+  getWays,
+  type AccessResult,
+  type AddressDecomposition,
+  type CacheSet,
+  type CacheType,
+} from '@/lib/sim/cache';
 
 // ──────────────────────────── Types ────────────────────────────
 
-type CacheType = 'direct-mapped' | '2-way' | '4-way' | 'fully-associative';
-
-type AccessResult = 'hit' | 'miss';
-
-interface CacheBlock {
-  valid: boolean;
-  tag: number;
-  data: string;
-  lastAccess: number; // for LRU
-  loadedAt: number; // when this block was loaded
-  dirty: boolean;
-}
-
-interface CacheSet {
-  blocks: CacheBlock[];
-}
-
 interface AccessRecord {
   step: number;
   address: number;
@@ -50,17 +57,6 @@ interface AccessRecord {
   wayLoaded: number; // which way was loaded on miss
 }
 
-interface AddressDecomposition {
-  address: number;
-  tag: number;
-  tagBits: number;
-  setIndex: number;
-  setIndexBits: number;
-  blockOffset: number;
-  offsetBits: number;
-  binaryStr: string;
-}
-
 interface ScenarioPreset {
   label: string;
   desc: string;
@@ -78,16 +74,6 @@ const CACHE_TYPES: { value: CacheType; label: string; desc: string; ways: number
   { value: 'fully-associative', label: 'Fully Associative', desc: 'Any block in any slot', ways: 0 }, // ways determined by cache size
 ];
 
-const CACHE_SIZE = 256; // bytes
-const BLOCK_SIZE = 16; // bytes per block
-const TOTAL_BLOCKS = CACHE_SIZE / BLOCK_SIZE; // 16 blocks
-const ADDRESS_BITS = 16; // 16-bit addresses
-
-// Access latencies (in cycles)
-const L1_LATENCY = 1;
-const L2_LATENCY = 10;
-const MEM_LATENCY = 100;
-
 const SCENARIO_PRESETS: Record<string, ScenarioPreset> = {
   sequential: {
     label: 'Sequential Access',
@@ -149,158 +135,6 @@ const SCENARIO_PRESETS: Record<string, ScenarioPreset> = {
 
 // ──────────────────────────── Cache Simulation Logic ────────────────────────────
 
-function getWays(cacheType: CacheType): number {
-  switch (cacheType) {
-    case 'direct-mapped':
-      return 1;
-    case '2-way':
-      return 2;
-    case '4-way':
-      return 4;
-    case 'fully-associative':
-      return TOTAL_BLOCKS;
-  }
-}
-
-function getNumSets(cacheType: CacheType): number {
-  const ways = getWays(cacheType);
-  return TOTAL_BLOCKS / ways;
-}
-
-function getOffsetBits(): number {
-  return Math.log2(BLOCK_SIZE);
-}
-
-function getSetIndexBits(cacheType: CacheType): number {
-  const numSets = getNumSets(cacheType);
-  return numSets > 1 ? Math.log2(numSets) : 0;
-}
-
-function getTagBits(cacheType: CacheType): number {
-  return ADDRESS_BITS - getSetIndexBits(cacheType) - getOffsetBits();
-}
-
-function decomposeAddress(address: number, cacheType: CacheType): AddressDecomposition {
-  const offsetBits = getOffsetBits();
-  const setIndexBits = getSetIndexBits(cacheType);
-  const tagBits = getTagBits(cacheType);
-
-  const blockOffset = address & ((1 << offsetBits) - 1);
-  const setIndex = (address >> offsetBits) & ((1 << setIndexBits) - 1);
-  const tag = address >> (offsetBits + setIndexBits);
-
-  const binaryStr = address.toString(2).padStart(ADDRESS_BITS, '0');
-
-  return {
-    address,
-    tag,
-    tagBits,
-    setIndex,
-    setIndexBits,
-    blockOffset,
-    offsetBits,
-    binaryStr,
-  };
-}
-
-function createEmptyCache(cacheType: CacheType): CacheSet[] {
-  const numSets = getNumSets(cacheType);
-  const ways = getWays(cacheType);
-
-  return Array.from({ length: numSets }, () => ({
-    blocks: Array.from({ length: ways }, () => ({
-      valid: false,
-      tag: 0,
-      data: '',
-      lastAccess: -1,
-      loadedAt: -1,
-      dirty: false,
-    })),
-  }));
-}
-
-function accessCache(
-  cache: CacheSet[],
-  address: number,
-  cacheType: CacheType,
-  step: number
-): {
-  newCache: CacheSet[];
-  result: AccessResult;
-  evictedTag: number | null;
-  wayHit: number;
-  wayLoaded: number;
-  decomp: AddressDecomposition;
-} {
-  const decomp = decomposeAddress(address, cacheType);
-  const { tag, setIndex } = decomp;
-
-  const newCache = cache.map((set) => ({
-    blocks: set.blocks.map((b) => ({ ...b })),
-  }));
-
-  const set = newCache[setIndex];
-
-  // Check for hit
-  for (let w = 0; w < set.blocks.length; w++) {
-    if (set.blocks[w].valid && set.blocks[w].tag === tag) {
-      // HIT
-      set.blocks[w].lastAccess = step;
-      return {
-        newCache,
-        result: 'hit',
-        evictedTag: null,
-        wayHit: w,
-        wayLoaded: w,
-        decomp,
-      };
-    }
-  }
-
-  // MISS - find block to replace
-  let replaceWay = -1;
-  let evictedTag: number | null = null;
-
-  // First try to find an invalid (empty) block
-  for (let w = 0; w < set.blocks.length; w++) {
-    if (!set.blocks[w].valid) {
-      replaceWay = w;
-      break;
-    }
-  }
-
-  // If no empty block, use LRU
-  if (replaceWay === -1) {
-    let oldestAccess = Infinity;
-    for (let w = 0; w < set.blocks.length; w++) {
-      if (set.blocks[w].lastAccess < oldestAccess) {
-        oldestAccess = set.blocks[w].lastAccess;
-        replaceWay = w;
-      }
-    }
-    evictedTag = set.blocks[replaceWay].tag;
-  }
-
-  // Load the new block
-  set.blocks[replaceWay] = {
-    valid: true,
-    tag,
-    data: `[${address.toString(16).toUpperCase().padStart(4, '0')}]`,
-    lastAccess: step,
-    loadedAt: step,
-    dirty: false,
-  };
-
-  return {
-    newCache,
-    result: 'miss',
-    evictedTag,
-    wayHit: -1,
-    wayLoaded: replaceWay,
-    decomp,
-  };
-}
-
 function generateRandomAddresses(count: number): number[] {
   const addresses: number[] = [];
   const ranges = [0x0000, 0x0100, 0x0200, 0x0300, 0x0400];
@@ -312,6 +146,40 @@ function generateRandomAddresses(count: number): number[] {
   return addresses;
 }
 
+// ──────────────────────────── Quiz ────────────────────────────
+
+interface CacheQuizState {
+  cache: CacheSet[];
+  cacheType: CacheType;
+  address: number | undefined;
+  step: number;
+}
+
+const hex = (n: number) => `0x${n.toString(16).toUpperCase()}`;
+
+// Asked before every access: the learner decodes the address and checks the set.
+const hitQuiz: QuizRule<CacheQuizState> = ({ cache, cacheType, address, step }) => {
+  if (address === undefined) return null;
+  const { result, evictedTag, decomp } = accessCache(cache, address, cacheType, step);
+  const where = `set ${decomp.setIndex}`;
+  const miss = evictedTag !== null
+    ? `so the least recently used block (tag ${hex(evictedTag)}) is evicted.`
+    : 'so the block is loaded into an empty way.';
+  return {
+    prompt: `Access ${hex(address)} maps to ${where} with tag ${hex(decomp.tag)}. Hit or miss?`,
+    choices: [
+      { id: 'hit', label: 'Hit' },
+      { id: 'miss', label: 'Miss' },
+    ],
+    outcome: {
+      answer: result,
+      explanation: result === 'hit'
+        ? `A valid block in ${where} already holds tag ${hex(decomp.tag)}.`
+        : `No valid block in ${where} holds tag ${hex(decomp.tag)}, ${miss}`,
+    },
+  };
+};
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function CacheHierarchyModule() {
@@ -367,8 +235,17 @@ export default function CacheHierarchyModule() {
   const setIndexBits = getSetIndexBits(cacheType);
   const tagBits = getTagBits(cacheType);
 
+  // ── Quiz ──
+  const quizState = useMemo(
+    () => ({ cache, cacheType, address: addressSequence[currentStep], step: currentStep }),
+    [cache, cacheType, addressSequence, currentStep]
+  );
+  const pauseForQuiz = useCallback(() => setIsPlaying(false), []);
+  const quiz = useQuiz(hitQuiz, quizState, { isPlaying, pause: pauseForQuiz });
+  const { gate } = quiz;
+
   // ── Step Forward ──
-  const stepForward = useCallback(() => {
+  const takeStep = useCallback(() => {
     setAddressSequence((seq) => {
       if (currentStep >= seq.length) {
         setIsPlaying(false);
@@ -415,6 +292,8 @@ export default function CacheHierarchyModule() {
     });
   }, [currentStep, cacheType]);
 
+  const stepForward = useCallback(() => gate(takeStep), [gate, takeStep]);
+
   // ── Animation Loop ──
   const animationLoop = useCallback(
     (timestamp: number) => {
@@ -506,6 +385,8 @@ export default function CacheHierarchyModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIO_PRESETS), loadScenario);
+
   // ── Scroll history ──
   const historyEndRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -521,7 +402,7 @@ export default function CacheHierarchyModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span
                 className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
@@ -544,6 +425,7 @@ export default function CacheHierarchyModule() {
               associative organizations. Watch addresses decompose into tag, set index, and
               offset fields with hit/miss animations and LRU replacement.
             </p>
+            <ModuleLinks moduleId="2.5" />
           </div>
 
           {/* ── Cache Type Selector ── */}
@@ -598,7 +480,9 @@ export default function CacheHierarchyModule() {
           {/* ── Controls Bar ── */}
           <div className="mb-6">
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={simulationDone}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -607,6 +491,13 @@ export default function CacheHierarchyModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={
+                lastAccess
+                  ? `Address 0x${lastAccess.address.toString(16).toUpperCase()}: set ${lastAccess.setIndex}, ` +
+                    `tag 0x${lastAccess.tag.toString(16).toUpperCase()}, ${lastAccess.result}` +
+                    (lastAccess.evictedTag !== null ? `, evicted tag 0x${lastAccess.evictedTag.toString(16).toUpperCase()}` : '')
+                  : undefined
+              }
             />
           </div>
 
@@ -635,6 +526,12 @@ export default function CacheHierarchyModule() {
           <div className="grid grid-cols-1 xl:grid-cols-[320px_1fr] gap-6">
             {/* ── Left Sidebar ── */}
             <div className="space-y-4">
+              <QuizPanel
+                quiz={quiz}
+                onContinue={handlePlay}
+                hint="Pause before every access and call it: hit or miss?"
+              />
+
               {/* Memory Hierarchy Diagram */}
               <div className="p-4 rounded-xl bg-[#111118] border border-[#1e1e2e]">
                 <h3 className="text-sm font-semibold text-[#a1a1aa] mb-3 flex items-center gap-2">
@@ -14,6 +14,12 @@ import {
   Grid3X3,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -229,6 +235,12 @@ function simulateAccess(
   return { hit: false, setIndex, evicted, newCache };
 }
 
+/** One cache access in words, for the screen-reader announcer. */
+function describeAccess(r: AccessRecord): string {
+  const outcome = r.hit ? 'hit' : r.evicted ? 'miss, evicted a line' : 'miss';
+  return `Access ${r.step + 1}: a[${r.arrayIndex}] → set ${r.setIndex}, ${outcome}`;
+}
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function CacheSimulatorModule() {
@@ -241,6 +253,7 @@ export default function CacheSimulatorModule() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
   const [highlightedSet, setHighlightedSet] = useState<number | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const isPlayingRef = useRef(false);
   const speedRef = useRef(speed);
@@ -254,6 +267,7 @@ export default function CacheSimulatorModule() {
   const misses = history.filter((h) => !h.hit).length;
   const hitRate = history.length > 0 ? (hits / history.length) * 100 : 0;
   const simulationDone = currentStep >= accessSequence.length && accessSequence.length > 0;
+  useModuleCompletion(simulationDone);
 
   // Initialize
   useEffect(() => {
@@ -355,6 +369,15 @@ export default function CacheSimulatorModule() {
     if (simulationDone) setIsPlaying(false);
   }, [simulationDone]);
 
+  useSimulatorShortcuts({
+    playPause: simulationDone ? undefined : () => setIsPlaying((p) => !p),
+    step: simulationDone ? undefined : stepForward,
+    reset: handleReset,
+    faster: () => setSpeed((s) => Math.min(8, s + 0.5)),
+    slower: () => setSpeed((s) => Math.max(0.5, s - 0.5)),
+    help: () => setHelpOpen(true),
+  });
+
   const numSets = config.cacheLines / config.associativity;
 
   return (
@@ -364,7 +387,7 @@ export default function CacheSimulatorModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span
                 className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
@@ -382,6 +405,7 @@ export default function CacheSimulatorModule() {
               Explore how loop patterns, array strides, and access order affect cache performance.
               Modify loop order, array size, and stride to see miss rate change in real time.
             </p>
+            <ModuleLinks moduleId="2.6" />
           </div>
 
           {/* Config Panel */}
@@ -478,6 +502,7 @@ export default function CacheSimulatorModule() {
             <button
               onClick={() => isPlaying ? setIsPlaying(false) : setIsPlaying(true)}
               disabled={simulationDone}
+              aria-keyshortcuts={ariaKeys('playPause')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#8b5cf6] text-white text-sm font-medium hover:bg-[#7c3aed] disabled:opacity-40 transition-all"
             >
               {isPlaying ? (
@@ -498,12 +523,15 @@ export default function CacheSimulatorModule() {
             <button
               onClick={stepForward}
               disabled={simulationDone}
+              aria-keyshortcuts={ariaKeys('step')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white disabled:opacity-40 transition-all"
             >
               Step
             </button>
             <button
               onClick={handleReset}
+              aria-label="Reset"
+              aria-keyshortcuts={ariaKeys('reset')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all"
             >
               <RotateCcw size={14} />
@@ -521,6 +549,12 @@ export default function CacheSimulatorModule() {
               />
               <span className="text-xs font-mono text-[#a1a1aa] w-8">{speed}x</span>
             </div>
+            <StepAnnouncer text={history.length > 0 ? describeAccess(history[history.length - 1]) : undefined} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+            />
           </div>
 
           {/* Main Grid */}
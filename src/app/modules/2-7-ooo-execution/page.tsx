@@ -15,6 +15,13 @@ import {
   BarChart3,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -166,6 +173,20 @@ function instrProducesReg(instructions: Instruction[], reg: string, beforeId: nu
   return null;
 }
 
+/** What each instruction did in `cycle`, for the screen-reader announcer. */
+function describeCycle(instructions: Instruction[], cycle: number): string | undefined {
+  if (cycle === 0) return undefined;
+  const events: string[] = [];
+  for (const instr of instructions) {
+    const name = `#${instr.id + 1} ${instr.op}`;
+    if (instr.issueAt === cycle) events.push(`${name} issued`);
+    if (instr.execStart === cycle) events.push(`${name} started executing`);
+    if (instr.writeBackAt === cycle) events.push(`${name} wrote back`);
+    if (instr.commitAt === cycle) events.push(`${name} committed`);
+  }
+  return `Cycle ${cycle}: ${events.length > 0 ? events.join(', ') : 'stall'}`;
+}
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function OutOfOrderModule() {
@@ -174,6 +195,7 @@ export default function OutOfOrderModule() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
   const [activeScenario, setActiveScenario] = useState('basic');
+  const [helpOpen, setHelpOpen] = useState(false);
   const [rs, setRs] = useState<RSEntry[]>([]);
   const [rob, setRob] = useState<ROBEntry[]>([]);
 
@@ -187,6 +209,8 @@ export default function OutOfOrderModule() {
 
   const allDone = instructions.length > 0 && instructions.every((i) => i.stage === 'committed');
 
+  useModuleCompletion(allDone, activeScenario);
+
   // Initialize
   useEffect(() => {
     loadScenario('basic');
@@ -207,6 +231,8 @@ export default function OutOfOrderModule() {
     setRob([]);
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS), loadScenario);
+
   const stepForward = useCallback(() => {
     if (allDone) {
       setIsPlaying(false);
@@ -349,6 +375,15 @@ export default function OutOfOrderModule() {
     loadScenario(activeScenario);
   }, [activeScenario, loadScenario]);
 
+  useSimulatorShortcuts({
+    playPause: allDone ? undefined : () => setIsPlaying((p) => !p),
+    step: allDone ? undefined : stepForward,
+    reset: handleReset,
+    faster: () => setSpeed((s) => Math.min(4, s + 0.5)),
+    slower: () => setSpeed((s) => Math.max(0.5, s - 0.5)),
+    help: () => setHelpOpen(true),
+  });
+
   // Animation loop
   const animationLoop = useCallback(
     (timestamp: number) => {
@@ -400,7 +435,7 @@ export default function OutOfOrderModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -416,6 +451,7 @@ export default function OutOfOrderModule() {
               Step through Tomasulo&apos;s algorithm with reservation stations and a reorder buffer.
               Watch instructions issue, execute out of order, and commit in order.
             </p>
+            <ModuleLinks moduleId="2.7" />
           </div>
 
           {/* Scenario Presets */}
@@ -441,7 +477,7 @@ export default function OutOfOrderModule() {
           <div className="flex items-center gap-3 mb-6">
             <button
               onClick={() => isPlaying ? setIsPlaying(false) : setIsPlaying(true)}
-              disabled={allDone}
+              disabled={allDone} aria-keyshortcuts={ariaKeys('playPause')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#8b5cf6] text-white text-sm font-medium hover:bg-[#7c3aed] disabled:opacity-40 transition-all"
             >
               {isPlaying ? (
@@ -450,11 +486,11 @@ export default function OutOfOrderModule() {
                 <><Play size={14} fill="white" /> {allDone ? 'Done' : 'Play'}</>
               )}
             </button>
-            <button onClick={stepForward} disabled={allDone}
+            <button onClick={stepForward} disabled={allDone} aria-keyshortcuts={ariaKeys('step')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white disabled:opacity-40 transition-all">
               Step
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-label="Reset" aria-keyshortcuts={ariaKeys('reset')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} />
             </button>
@@ -469,6 +505,12 @@ export default function OutOfOrderModule() {
                 className="w-24 accent-[#8b5cf6]" />
               <span className="text-xs font-mono text-[#a1a1aa] w-8">{speed}x</span>
             </div>
+            <StepAnnouncer text={describeCycle(instructions, cycle)} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+            />
           </div>
 
           {/* Main Grid */}
@@ -16,6 +16,13 @@ import {
   BarChart3,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -84,6 +91,12 @@ const SCENARIOS: Record<string, ScenarioPreset> = {
   },
 };
 
+/** One translation in words, for the screen-reader announcer. */
+function describeAccess(r: AccessRecord): string {
+  const outcome = r.tlbHit ? 'TLB hit' : r.pageFault ? 'page fault' : 'page table hit';
+  return `Access ${r.step + 1}: 0x${r.virtualAddress.toString(16).toUpperCase().padStart(3, '0')} (page ${r.vpn}) → ${outcome}, physical 0x${r.physicalAddress.toString(16).toUpperCase().padStart(3, '0')}`;
+}
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function VirtualMemoryModule() {
@@ -102,6 +115,7 @@ export default function VirtualMemoryModule() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
   const [activeScenario, setActiveScenario] = useState('sequential');
+  const [helpOpen, setHelpOpen] = useState(false);
   const [highlightedVPN, setHighlightedVPN] = useState<number | null>(null);
   const [highlightedFrame, setHighlightedFrame] = useState<number | null>(null);
 
@@ -118,6 +132,7 @@ export default function VirtualMemoryModule() {
   const tlbHitRate = history.length > 0 ? (tlbHits / history.length) * 100 : 0;
   const pageFaultRate = history.length > 0 ? (pageFaults / history.length) * 100 : 0;
   const simulationDone = currentStep >= addresses.length && addresses.length > 0;
+  useModuleCompletion(simulationDone, activeScenario);
 
   useEffect(() => {
     loadScenario('sequential');
@@ -140,6 +155,8 @@ export default function VirtualMemoryModule() {
     setTlb(Array.from({ length: TLB_SIZE }, () => ({ valid: false, vpn: -1, frameNumber: -1, lastUsed: -1 })));
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS), loadScenario);
+
   const stepForward = useCallback(() => {
     if (currentStep >= addresses.length) {
       setIsPlaying(false);
@@ -244,6 +261,15 @@ export default function VirtualMemoryModule() {
     loadScenario(activeScenario);
   }, [activeScenario, loadScenario]);
 
+  useSimulatorShortcuts({
+    playPause: simulationDone ? undefined : () => setIsPlaying((p) => !p),
+    step: simulationDone ? undefined : stepForward,
+    reset: handleReset,
+    faster: () => setSpeed((s) => Math.min(4, s + 0.5)),
+    slower: () => setSpeed((s) => Math.max(0.5, s - 0.5)),
+    help: () => setHelpOpen(true),
+  });
+
   // Animation loop
   const animationLoop = useCallback(
     (timestamp: number) => {
@@ -283,7 +309,7 @@ export default function VirtualMemoryModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -299,6 +325,7 @@ export default function VirtualMemoryModule() {
               Visualize address translation from virtual to physical addresses through TLB lookup
               and page table walk. See page faults, TLB misses, and LRU replacement in action.
             </p>
+            <ModuleLinks moduleId="2.8" />
           </div>
 
           {/* Scenarios */}
@@ -319,7 +346,7 @@ export default function VirtualMemoryModule() {
           {/* Controls */}
           <div className="flex items-center gap-3 mb-6">
             <button onClick={() => isPlaying ? setIsPlaying(false) : setIsPlaying(true)}
-              disabled={simulationDone}
+              disabled={simulationDone} aria-keyshortcuts={ariaKeys('playPause')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#8b5cf6] text-white text-sm font-medium hover:bg-[#7c3aed] disabled:opacity-40 transition-all">
               {isPlaying ? (
                 <><div className="flex gap-0.5"><div className="w-1 h-3 bg-white rounded-sm" /><div className="w-1 h-3 bg-white rounded-sm" /></div> Pause</>
@@ -327,11 +354,11 @@ export default function VirtualMemoryModule() {
                 <><Play size={14} fill="white" /> {simulationDone ? 'Done' : 'Play'}</>
               )}
             </button>
-            <button onClick={stepForward} disabled={simulationDone}
+            <button onClick={stepForward} disabled={simulationDone} aria-keyshortcuts={ariaKeys('step')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white disabled:opacity-40 transition-all">
               Step
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-label="Reset" aria-keyshortcuts={ariaKeys('reset')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} />
             </button>
@@ -341,6 +368,12 @@ export default function VirtualMemoryModule() {
                 onChange={(e) => setSpeed(Number(e.target.value))} className="w-24 accent-[#8b5cf6]" />
               <span className="text-xs font-mono text-[#a1a1aa] w-8">{speed}x</span>
             </div>
+            <StepAnnouncer text={history.length > 0 ? describeAccess(history[history.length - 1]) : undefined} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+            />
           </div>
 
           {/* Metrics Bar */}
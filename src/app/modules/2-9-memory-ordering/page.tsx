@@ -14,6 +14,13 @@ import {
   CheckCircle,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -107,6 +114,16 @@ const MEMORY_MODELS = [
   { id: 'sc', label: 'Seq. Consistent', desc: 'No reordering allowed', color: '#10b981' },
 ];
 
+/** The operations executed in `step`, for the screen-reader announcer. */
+function describeStep(operations: MemoryOperation[], step: number): string | undefined {
+  if (step < 0) return undefined;
+  const executed = operations.filter((o) => o.executionOrder === step);
+  if (executed.length === 0) return undefined;
+  return executed
+    .map((o) => `CPU ${o.cpu}: ${o.op} ${o.address} ${o.op === 'STORE' ? '←' : '→'} ${o.value}${o.status === 'reordered' ? ' (reordered)' : ''}`)
+    .join('; ');
+}
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function MemoryOrderingModule() {
@@ -120,6 +137,7 @@ export default function MemoryOrderingModule() {
   const [activeScenario, setActiveScenario] = useState('store_store');
   const [memoryModel, setMemoryModel] = useState('relaxed');
   const [reorderingDetected, setReorderingDetected] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const isPlayingRef = useRef(false);
   const speedRef = useRef(speed);
@@ -131,6 +149,8 @@ export default function MemoryOrderingModule() {
 
   const allDone = operations.length > 0 && operations.every((o) => o.status === 'completed' || o.status === 'reordered');
 
+  useModuleCompletion(allDone, activeScenario);
+
   useEffect(() => {
     loadScenario('store_store');
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -155,6 +175,8 @@ export default function MemoryOrderingModule() {
     setMemory({ X: 0, Y: 0 });
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS), loadScenario);
+
   const canReorder = useCallback((op: MemoryOperation, prevOp: MemoryOperation | undefined): boolean => {
     if (!prevOp) return false;
     if (op.hasFence || prevOp.hasFence) return false;
@@ -259,6 +281,15 @@ export default function MemoryOrderingModule() {
     loadScenario(activeScenario);
   }, [activeScenario, loadScenario]);
 
+  useSimulatorShortcuts({
+    playPause: allDone ? undefined : () => setIsPlaying((p) => !p),
+    step: allDone ? undefined : stepForward,
+    reset: handleReset,
+    faster: () => setSpeed((s) => Math.min(4, s + 0.5)),
+    slower: () => setSpeed((s) => Math.max(0.5, s - 0.5)),
+    help: () => setHelpOpen(true),
+  });
+
   // Animation loop
   const animationLoop = useCallback(
     (timestamp: number) => {
@@ -303,7 +334,7 @@ export default function MemoryOrderingModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -319,6 +350,7 @@ export default function MemoryOrderingModule() {
               See how CPUs reorder memory operations and how memory fences prevent it.
               Compare relaxed, TSO (x86), and sequential consistency models.
             </p>
+            <ModuleLinks moduleId="2.9" />
           </div>
 
           {/* Memory Model Selector */}
@@ -362,7 +394,7 @@ export default function MemoryOrderingModule() {
           {/* Controls */}
           <div className="flex items-center gap-3 mb-6">
             <button onClick={() => isPlaying ? setIsPlaying(false) : setIsPlaying(true)}
-              disabled={allDone}
+              disabled={allDone} aria-keyshortcuts={ariaKeys('playPause')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#8b5cf6] text-white text-sm font-medium hover:bg-[#7c3aed] disabled:opacity-40 transition-all">
               {isPlaying ? (
                 <><div className="flex gap-0.5"><div className="w-1 h-3 bg-white rounded-sm" /><div className="w-1 h-3 bg-white rounded-sm" /></div> Pause</>
@@ -370,11 +402,11 @@ export default function MemoryOrderingModule() {
                 <><Play size={14} fill="white" /> {allDone ? 'Done' : 'Play'}</>
               )}
             </button>
-            <button onClick={stepForward} disabled={allDone}
+            <button onClick={stepForward} disabled={allDone} aria-keyshortcuts={ariaKeys('step')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white disabled:opacity-40 transition-all">
               Step
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-label="Reset" aria-keyshortcuts={ariaKeys('reset')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} />
             </button>
@@ -384,6 +416,12 @@ export default function MemoryOrderingModule() {
                 onChange={(e) => setSpeed(Number(e.target.value))} className="w-24 accent-[#8b5cf6]" />
               <span className="text-xs font-mono text-[#a1a1aa] w-8">{speed}x</span>
             </div>
+            <StepAnnouncer text={describeStep(operations, currentStep - 1)} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+            />
           </div>
 
           {/* Expectation Banner */}
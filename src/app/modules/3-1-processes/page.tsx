@@ -20,7 +20,9 @@ import {
   ChevronDown,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
+import { useScenarioParam } from '@/hooks/useShareState';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -217,6 +219,7 @@ function getArrowPath(from: ProcessState, to: ProcessState): string {
 export default function ProcessModelModule() {
   // ── State ──
   const [processes, setProcesses] = useState<PCB[]>([]);
+  const [activeScenario, setActiveScenario] = useState('io_bound_mix');
   const [events, setEvents] = useState<TransitionEvent[]>([]);
   const [tick, setTick] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -247,6 +250,12 @@ export default function ProcessModelModule() {
   const waitingCount = processes.filter(p => p.state === 'Waiting').length;
   const terminatedCount = processes.filter(p => p.state === 'Terminated').length;
   const throughput = tick > 0 ? (terminatedCount / tick).toFixed(3) : '0.000';
+  const tickEvents = events.filter(e => e.tick === tick);
+  const stepDescription = tick === 0
+    ? undefined
+    : tickEvents.length > 0
+      ? `Tick ${tick}: ${tickEvents.map(e => `PID ${e.pid} ${e.from} to ${e.to} (${e.reason})`).join('; ')}`
+      : `Tick ${tick}: ${runningCount} running, ${readyCount} ready, ${waitingCount} waiting`;
 
   // ── Step forward simulation logic ──
   const stepForward = useCallback(() => {
@@ -486,6 +495,7 @@ export default function ProcessModelModule() {
     handleReset();
     const scenario = SCENARIO_PRESETS[key];
     if (!scenario) return;
+    setActiveScenario(key);
     const newProcs: PCB[] = scenario.processes.map((sp, i) => {
       const pid = nextPidRef.current++;
       return createPCB(pid, sp.name, sp.priority, sp.burstRemaining, sp.ioRemaining, sp.totalBurst, sp.totalIo, 0);
@@ -499,6 +509,8 @@ export default function ProcessModelModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIO_PRESETS), loadScenario);
+
   // ── Get selected process ──
   const selectedProcess = selectedPid !== null ? processes.find(p => p.pid === selectedPid) : null;
 
@@ -511,7 +523,7 @@ export default function ProcessModelModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md bg-[#06b6d4]/15 border border-[#06b6d4]/25 text-[#06b6d4] text-xs font-mono font-semibold">
                 3.1
@@ -534,12 +546,15 @@ export default function ProcessModelModule() {
               <span className="text-[#6366f1] font-mono">Terminated</span>
               {' '}with context switch animations and PCB inspection.
             </p>
+            <ModuleLinks moduleId="3.1" />
           </div>
 
           {/* ── Controls Bar ── */}
           <div className="mb-6">
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={processes.length > 0 && processes.every(p => p.state === 'Terminated')}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -548,6 +563,7 @@ export default function ProcessModelModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={stepDescription}
             >
               <button
                 onClick={forkProcess}
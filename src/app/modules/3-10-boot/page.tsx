@@ -7,6 +7,12 @@ import {
   HardDrive, Monitor, Info, Layers
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface BootStage {
   id: string;
@@ -179,12 +185,17 @@ const BOOT_STAGES: BootStage[] = [
   },
 ];
 
+const SPEEDS = [0.5, 1, 2];
+
 export default function BootSequencePage() {
   const [currentStage, setCurrentStage] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
+  useModuleCompletion(currentStage >= BOOT_STAGES.length - 1);
+
   useEffect(() => {
     if (isPlaying && currentStage < BOOT_STAGES.length - 1) {
       timerRef.current = setTimeout(() => {
@@ -205,6 +216,18 @@ export default function BootSequencePage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepForward = () => { setIsPlaying(false); if (currentStage < BOOT_STAGES.length - 1) setCurrentStage(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setCurrentStage(0); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const stage = BOOT_STAGES[currentStage];
 
   return (
@@ -212,7 +235,7 @@ export default function BootSequencePage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-cyan-500/20 flex items-center justify-center">
               <Power className="w-5 h-5 text-cyan-400" />
@@ -220,6 +243,7 @@ export default function BootSequencePage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Linux Boot Sequence</h1>
               <p className="text-sm text-gray-400">Module 3.10 — From power button to login prompt</p>
+              <ModuleLinks moduleId="3.10" />
             </div>
           </div>
         </div>
@@ -227,21 +251,22 @@ export default function BootSequencePage() {
         {/* Controls */}
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-cyan-500/20 text-cyan-400 flex items-center justify-center hover:bg-cyan-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStage < BOOT_STAGES.length - 1) setCurrentStage(s => s + 1); }}
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStage(0); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}>
                 {s}x
               </button>
@@ -250,6 +275,12 @@ export default function BootSequencePage() {
           <div className="text-xs text-gray-500">
             Stage {currentStage + 1} / {BOOT_STAGES.length}
           </div>
+          <StepAnnouncer text={stage.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -7,6 +7,13 @@ import {
   Network, Shield, Info, Plus, Trash2, Cpu
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface Namespace {
   type: 'pid' | 'net' | 'mnt' | 'uts' | 'ipc' | 'user';
@@ -76,6 +83,7 @@ export default function ContainersPage() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [lifecycleStep, setLifecycleStep] = useState(0);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   const createContainer = useCallback(() => {
@@ -135,12 +143,38 @@ export default function ContainersPage() {
     return () => clearInterval(interval);
   }, []);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    (id) => setScenario(SCENARIOS.find((s) => s.id === id)!)
+  );
+
+  useModuleCompletion(lifecycleStep >= LIFECYCLE_STEPS.length - 1, scenario.id);
+
+  const handlePlayPause = () => {
+    if (lifecycleStep >= LIFECYCLE_STEPS.length - 1) {
+      setLifecycleStep(0);
+      setTimeout(() => setIsPlaying(true), 50);
+    } else setIsPlaying(!isPlaying);
+  };
+  const stepForward = () => { setIsPlaying(false); if (lifecycleStep < LIFECYCLE_STEPS.length - 1) setLifecycleStep(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setLifecycleStep(0); };
+
+  // Only the full lifecycle scenario has a timeline to drive.
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    reset,
+    help: () => setHelpOpen(true),
+  }, scenario.focus === 'full');
+
+  const lifecycle = LIFECYCLE_STEPS[lifecycleStep];
+
   return (
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-cyan-500/20 flex items-center justify-center">
               <Box className="w-5 h-5 text-cyan-400" />
@@ -148,6 +182,7 @@ export default function ContainersPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Containers & Namespaces</h1>
               <p className="text-sm text-gray-400">Module 3.11 — Process isolation, cgroups, overlay filesystems</p>
+              <ModuleLinks moduleId="3.11" />
             </div>
           </div>
         </div>
@@ -173,26 +208,28 @@ export default function ContainersPage() {
         {/* Controls for lifecycle */}
         {scenario.focus === 'full' && (
           <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
-            <button onClick={() => {
-              if (lifecycleStep >= LIFECYCLE_STEPS.length - 1) {
-                setLifecycleStep(0);
-                setTimeout(() => setIsPlaying(true), 50);
-              } else setIsPlaying(!isPlaying);
-            }}
+            <button onClick={handlePlayPause}
+              aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
               className="w-10 h-10 rounded-lg bg-cyan-500/20 text-cyan-400 flex items-center justify-center hover:bg-cyan-500/30">
               {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
             </button>
-            <button onClick={() => { setIsPlaying(false); if (lifecycleStep < LIFECYCLE_STEPS.length - 1) setLifecycleStep(s => s + 1); }}
+            <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
               className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
               <ChevronRight className="w-4 h-4" /> Step
             </button>
-            <button onClick={() => { setIsPlaying(false); setLifecycleStep(0); }}
+            <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
               className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
               <RotateCcw className="w-4 h-4" /> Reset
             </button>
             <div className="ml-auto text-xs text-gray-500">
               Step {lifecycleStep + 1} / {LIFECYCLE_STEPS.length}
             </div>
+            <StepAnnouncer text={`${lifecycle.phase}: ${lifecycle.description}`} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'help']}
+            />
           </div>
         )}
 
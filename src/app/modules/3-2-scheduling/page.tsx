@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowRight,
@@ -11,55 +11,25 @@ import {
   Clock,
   BarChart3,
   ChevronDown,
+  Columns2,
   Timer,
   Zap,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
-
-// ──────────────────────────── Types ────────────────────────────
-
-type Algorithm = 'FCFS' | 'SJF' | 'SRTF' | 'RR' | 'Priority' | 'MLFQ';
-
-interface ProcessDef {
-  id: number;
-  name: string;
-  arrivalTime: number;
-  burstTime: number;
-  priority: number;
-  color: string;
-}
-
-interface ProcessState {
-  id: number;
-  name: string;
-  arrivalTime: number;
-  burstTime: number;
-  remainingTime: number;
-  priority: number;
-  color: string;
-  startTime: number | null;
-  finishTime: number | null;
-  waitingTime: number;
-  responseTime: number | null;
-  // MLFQ specific
-  currentQueue: number;
-  quantumUsed: number;
-}
-
-interface GanttEntry {
-  processId: number | null; // null = idle
-  processName: string;
-  color: string;
-  startTime: number;
-  endTime: number;
-}
-
-interface MLFQQueue {
-  level: number;
-  quantum: number;
-  processes: number[]; // process IDs
-}
+import ComparisonView from '@/components/ui/ComparisonView';
+import { useScenarioParam } from '@/hooks/useShareState';
+import type { LockstepSim } from '@/lib/compare';
+import {
+  createSchedulerState,
+  scheduleAverages,
+  schedulerTick,
+  type Algorithm,
+  type GanttEntry,
+  type ProcessDef,
+  type SchedulerState,
+} from '@/lib/sim/scheduling';
 
 // ──────────────────────────── Constants ────────────────────────────
 
@@ -130,107 +100,80 @@ const SCENARIO_PRESETS: Record<string, ScenarioPreset> = {
   },
 };
 
-const MLFQ_LEVELS = 3;
-const MLFQ_QUANTA = [2, 4, 8];
-
-// ──────────────────────────── Simulation Engine ────────────────────────────
-
-function initProcessStates(defs: ProcessDef[]): ProcessState[] {
-  return defs.map(d => ({
-    id: d.id,
-    name: d.name,
-    arrivalTime: d.arrivalTime,
-    burstTime: d.burstTime,
-    remainingTime: d.burstTime,
-    priority: d.priority,
-    color: d.color,
-    startTime: null,
-    finishTime: null,
-    waitingTime: 0,
-    responseTime: null,
-    currentQueue: 0,
-    quantumUsed: 0,
-  }));
+// ──────────────────────────── Comparison ────────────────────────────
+
+interface SchedulerConfig {
+  processes: ProcessDef[];
+  algorithm: Algorithm;
+  timeQuantum: number;
 }
 
-function getReadyProcesses(states: ProcessState[], currentTime: number): ProcessState[] {
-  return states.filter(
-    p => p.arrivalTime <= currentTime && p.remainingTime > 0 && p.finishTime === null
+const SCHEDULER_SIM: LockstepSim<SchedulerState, SchedulerConfig> = {
+  init: (config) => createSchedulerState(config.processes),
+  step: (state, config) => schedulerTick(state, config.algorithm, config.timeQuantum),
+  done: (state) => state.done,
+  metrics: (state) => {
+    const averages = scheduleAverages(state.processes);
+    const busy = state.gantt.filter(g => g.processId !== null).reduce((sum, g) => sum + g.endTime - g.startTime, 0);
+    const switches = state.gantt.filter((g, i) => i > 0 && g.processId !== null && state.gantt[i - 1].processId !== null).length;
+    return [
+      { label: 'Time', value: state.currentTime },
+      { label: 'Avg Wait', value: averages?.waiting ?? NaN, better: 'lower', digits: 2 },
+      { label: 'Avg Turnaround', value: averages?.turnaround ?? NaN, better: 'lower', digits: 2 },
+      { label: 'Avg Response', value: averages?.response ?? NaN, better: 'lower', digits: 2 },
+      { label: 'CPU Util.', value: state.currentTime > 0 ? (busy / state.currentTime) * 100 : 0, better: 'higher', digits: 1, unit: '%' },
+      { label: 'Context Switches', value: switches, better: 'lower' },
+    ];
+  },
+};
+
+/** Compact Gantt strip for one side of the comparison. */
+function MiniGantt({ gantt, time }: { gantt: GanttEntry[]; time: number }) {
+  const span = Math.max(time, 1);
+  return (
+    <div className="space-y-1">
+      <div className="flex h-9 rounded-lg overflow-hidden border border-[#1e1e2e] bg-[#0a0a0f]">
+        {gantt.map(entry => (
+          <div
+            key={`${entry.startTime}-${entry.processId}`}
+            className="flex items-center justify-center shrink-0 border-r border-[#0a0a0f]/30"
+            style={{
+              width: `${((entry.endTime - entry.startTime) / span) * 100}%`,
+              backgroundColor: entry.processId === null ? '#1a1a24' : `${entry.color}25`,
+              borderBottom: entry.processId === null ? 'none' : `3px solid ${entry.color}`,
+            }}
+            title={`${entry.processName} ${entry.startTime}–${entry.endTime}`}
+          >
+            <span className="text-[10px] font-mono font-bold truncate px-0.5" style={{ color: entry.processId === null ? '#71717a' : entry.color }}>
+              {entry.processId === null ? '' : entry.processName}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[9px] font-mono text-[#71717a]">
+        <span>0</span>
+        <span>t={time}</span>
+      </div>
+    </div>
   );
 }
 
-function selectProcess(
-  algorithm: Algorithm,
-  readyQueue: ProcessState[],
-  currentRunning: number | null,
-  timeQuantum: number,
-  quantumCounter: number,
-  mlfqQueues: MLFQQueue[],
-): { selectedId: number | null; preempt: boolean } {
-  if (readyQueue.length === 0) return { selectedId: null, preempt: false };
-
-  switch (algorithm) {
-    case 'FCFS': {
-      if (currentRunning !== null && readyQueue.some(p => p.id === currentRunning && p.remainingTime > 0)) {
-        return { selectedId: currentRunning, preempt: false };
-      }
-      const sorted = [...readyQueue].sort((a, b) => a.arrivalTime - b.arrivalTime || a.id - b.id);
-      return { selectedId: sorted[0].id, preempt: false };
-    }
-    case 'SJF': {
-      if (currentRunning !== null && readyQueue.some(p => p.id === currentRunning && p.remainingTime > 0)) {
-        return { selectedId: currentRunning, preempt: false };
-      }
-      const sorted = [...readyQueue].sort((a, b) => a.burstTime - b.burstTime || a.arrivalTime - b.arrivalTime);
-      return { selectedId: sorted[0].id, preempt: false };
-    }
-    case 'SRTF': {
-      const sorted = [...readyQueue].sort((a, b) => a.remainingTime - b.remainingTime || a.arrivalTime - b.arrivalTime);
-      const selected = sorted[0].id;
-      return { selectedId: selected, preempt: selected !== currentRunning };
-    }
-    case 'RR': {
-      if (currentRunning !== null && readyQueue.some(p => p.id === currentRunning && p.remainingTime > 0)) {
-        if (quantumCounter < timeQuantum) {
-          return { selectedId: currentRunning, preempt: false };
-        }
-        // Quantum expired, pick next in round-robin order
-        const currentIdx = readyQueue.findIndex(p => p.id === currentRunning);
-        const nextIdx = (currentIdx + 1) % readyQueue.length;
-        return { selectedId: readyQueue[nextIdx].id, preempt: true };
-      }
-      return { selectedId: readyQueue[0].id, preempt: false };
-    }
-    case 'Priority': {
-      const sorted = [...readyQueue].sort((a, b) => a.priority - b.priority || a.arrivalTime - b.arrivalTime);
-      const selected = sorted[0].id;
-      return { selectedId: selected, preempt: selected !== currentRunning };
-    }
-    case 'MLFQ': {
-      // Pick from highest priority queue that has ready processes
-      for (let level = 0; level < MLFQ_LEVELS; level++) {
-        const queuePids = mlfqQueues[level]?.processes || [];
-        const inQueue = readyQueue.filter(p => queuePids.includes(p.id));
-        if (inQueue.length > 0) {
-          // Within a queue, use round-robin
-          if (currentRunning !== null && inQueue.some(p => p.id === currentRunning)) {
-            const currentProc = inQueue.find(p => p.id === currentRunning)!;
-            if (currentProc.quantumUsed < MLFQ_QUANTA[level]) {
-              return { selectedId: currentRunning, preempt: false };
-            }
-            // Quantum used up, round robin within queue
-            const idx = inQueue.findIndex(p => p.id === currentRunning);
-            const nextIdx = (idx + 1) % inQueue.length;
-            return { selectedId: inQueue[nextIdx].id, preempt: true };
-          }
-          return { selectedId: inQueue[0].id, preempt: false };
-        }
-      }
-      return { selectedId: null, preempt: false };
-    }
-    default:
-      return { selectedId: null, preempt: false };
-  }
+function AlgorithmSelect({ value, onChange, label }: { value: Algorithm; onChange: (a: Algorithm) => void; label: string }) {
+  return (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as Algorithm)}
+        aria-label={label}
+        className="appearance-none px-3 py-2 pr-8 rounded-lg bg-[#06b6d4]/10 border border-[#06b6d4]/30 text-xs text-[#06b6d4] font-mono font-medium focus:outline-none focus:border-[#06b6d4] cursor-pointer"
+      >
+        {ALGORITHM_LIST.map(a => (
+          <option key={a} value={a} className="bg-[#111118] text-white">{a}</option>
+        ))}
+      </select>
+      <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 text-[#06b6d4] pointer-events-none" />
+    </div>
+  );
 }
 
 // ──────────────────────────── Component ────────────────────────────
@@ -240,16 +183,22 @@ export default function CPUSchedulingModule() {
   const [processDefs, setProcessDefs] = useState<ProcessDef[]>([]);
   const [algorithm, setAlgorithm] = useState<Algorithm>('FCFS');
   const [timeQuantum, setTimeQuantum] = useState(3);
+  const [activeScenario, setActiveScenario] = useState('varied_arrival');
+  /** Algorithm run next to `algorithm` in the split view; null shows the single simulator. */
+  const [compareWith, setCompareWith] = useState<Algorithm | null>(null);
 
   // ── Simulation state ──
-  const [processStates, setProcessStates] = useState<ProcessState[]>([]);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [ganttChart, setGanttChart] = useState<GanttEntry[]>([]);
-  const [currentRunningId, setCurrentRunningId] = useState<number | null>(null);
-  const [quantumCounter, setQuantumCounter] = useState(0);
-  const [simulationStarted, setSimulationStarted] = useState(false);
-  const [simulationDone, setSimulationDone] = useState(false);
-  const [mlfqQueues, setMlfqQueues] = useState<MLFQQueue[]>([]);
+  const [sim, setSim] = useState(() => createSchedulerState([]));
+  const {
+    processes: processStates,
+    currentTime,
+    gantt: ganttChart,
+    runningId: currentRunningId,
+    quantumCounter,
+    done: simulationDone,
+    mlfqQueues,
+  } = sim;
+  const simulationStarted = currentTime > 0;
 
   // ── UI state ──
   const [isPlaying, setIsPlaying] = useState(false);
@@ -267,193 +216,23 @@ export default function CPUSchedulingModule() {
 
   // ── Derived metrics ──
   const completedProcesses = processStates.filter(p => p.finishTime !== null);
-  const avgWaitingTime = completedProcesses.length > 0
-    ? (completedProcesses.reduce((sum, p) => sum + p.waitingTime, 0) / completedProcesses.length).toFixed(2)
-    : '--';
-  const avgTurnaroundTime = completedProcesses.length > 0
-    ? (completedProcesses.reduce((sum, p) => sum + ((p.finishTime || 0) - p.arrivalTime), 0) / completedProcesses.length).toFixed(2)
-    : '--';
-  const avgResponseTime = completedProcesses.length > 0
-    ? (completedProcesses.reduce((sum, p) => sum + (p.responseTime ?? 0), 0) / completedProcesses.length).toFixed(2)
-    : '--';
+  const averages = scheduleAverages(processStates);
+  const avgWaitingTime = averages ? averages.waiting.toFixed(2) : '--';
+  const avgTurnaroundTime = averages ? averages.turnaround.toFixed(2) : '--';
+  const avgResponseTime = averages ? averages.response.toFixed(2) : '--';
   const cpuBusyTime = ganttChart.filter(g => g.processId !== null).reduce((sum, g) => sum + (g.endTime - g.startTime), 0);
   const cpuUtilization = currentTime > 0 ? ((cpuBusyTime / currentTime) * 100).toFixed(1) : '0.0';
   const throughput = currentTime > 0 ? (completedProcesses.length / currentTime).toFixed(3) : '0.000';
 
-  // ── Initialize MLFQ queues ──
-  const initMLFQ = useCallback((procs: ProcessState[]) => {
-    const queues: MLFQQueue[] = Array.from({ length: MLFQ_LEVELS }, (_, i) => ({
-      level: i,
-      quantum: MLFQ_QUANTA[i],
-      processes: i === 0 ? procs.map(p => p.id) : [],
-    }));
-    setMlfqQueues(queues);
-  }, []);
+  // Stop playback once the last process finishes
+  if (isPlaying && simulationDone) {
+    setIsPlaying(false);
+  }
 
   // ── Step forward simulation logic ──
   const stepForward = useCallback(() => {
-    if (simulationDone) return;
-
-    setCurrentTime(prev => {
-      const ct = simulationStarted ? prev + 1 : prev;
-
-      setProcessStates(prevStates => {
-        const states = prevStates.map(s => ({ ...s }));
-        const time = simulationStarted ? ct : 0;
-
-        if (!simulationStarted) {
-          setSimulationStarted(true);
-        }
-
-        // Get ready processes
-        const ready = getReadyProcesses(states, time);
-
-        if (ready.length === 0 && states.every(s => s.finishTime !== null || s.arrivalTime > time)) {
-          // Check if all done
-          if (states.every(s => s.finishTime !== null)) {
-            setSimulationDone(true);
-            setIsPlaying(false);
-            return states;
-          }
-          // Idle time
-          setGanttChart(prev => {
-            const last = prev[prev.length - 1];
-            if (last && last.processId === null && last.endTime === time) {
-              return [...prev.slice(0, -1), { ...last, endTime: time + 1 }];
-            }
-            return [...prev, { processId: null, processName: 'Idle', color: '#2a2a3e', startTime: time, endTime: time + 1 }];
-          });
-          return states;
-        }
-
-        // Select process
-        const { selectedId, preempt } = selectProcess(
-          algorithm, ready, currentRunningId, timeQuantum, quantumCounter, mlfqQueues
-        );
-
-        if (selectedId === null) {
-          // All done check
-          if (states.every(s => s.finishTime !== null)) {
-            setSimulationDone(true);
-            setIsPlaying(false);
-          } else {
-            setGanttChart(prev => {
-              const last = prev[prev.length - 1];
-              if (last && last.processId === null && last.endTime === time) {
-                return [...prev.slice(0, -1), { ...last, endTime: time + 1 }];
-              }
-              return [...prev, { processId: null, processName: 'Idle', color: '#2a2a3e', startTime: time, endTime: time + 1 }];
-            });
-          }
-          setCurrentRunningId(null);
-          setQuantumCounter(0);
-          return states;
-        }
-
-        const proc = states.find(s => s.id === selectedId)!;
-
-        // Record response time
-        if (proc.responseTime === null) {
-          proc.responseTime = time - proc.arrivalTime;
-        }
-
-        // Record start time
-        if (proc.startTime === null) {
-          proc.startTime = time;
-        }
-
-        // Handle quantum counter
-        let newQuantumCounter = quantumCounter;
-        if (selectedId !== currentRunningId || preempt) {
-          newQuantumCounter = 0;
-          // MLFQ: reset quantum used for new process
-          if (algorithm === 'MLFQ') {
-            proc.quantumUsed = 0;
-          }
-        }
-
-        // Execute for 1 time unit
-        proc.remainingTime--;
-        newQuantumCounter++;
-
-        if (algorithm === 'MLFQ') {
-          proc.quantumUsed++;
-        }
-
-        // Update waiting time for all other ready processes
-        for (const s of states) {
-          if (s.id !== selectedId && s.arrivalTime <= time && s.remainingTime > 0 && s.finishTime === null) {
-            s.waitingTime++;
-          }
-        }
-
-        // Check if process completed
-        if (proc.remainingTime <= 0) {
-          proc.finishTime = time + 1;
-          proc.remainingTime = 0;
-          setCurrentRunningId(null);
-          newQuantumCounter = 0;
-
-          // MLFQ: remove from queues
-          if (algorithm === 'MLFQ') {
-            setMlfqQueues(prev => prev.map(q => ({
-              ...q,
-              processes: q.processes.filter(pid => pid !== selectedId),
-            })));
-          }
-        } else {
-          // MLFQ: check if quantum expired, demote
-          if (algorithm === 'MLFQ') {
-            const currentQ = proc.currentQueue;
-            if (proc.quantumUsed >= MLFQ_QUANTA[currentQ]) {
-              const newLevel = Math.min(currentQ + 1, MLFQ_LEVELS - 1);
-              if (newLevel !== currentQ) {
-                proc.currentQueue = newLevel;
-                proc.quantumUsed = 0;
-                setMlfqQueues(prev => {
-                  const updated = prev.map(q => ({ ...q, processes: [...q.processes] }));
-                  updated[currentQ].processes = updated[currentQ].processes.filter(pid => pid !== selectedId);
-                  if (!updated[newLevel].processes.includes(selectedId)) {
-                    updated[newLevel].processes.push(selectedId);
-                  }
-                  return updated;
-                });
-              }
-            }
-          }
-
-          setCurrentRunningId(selectedId);
-        }
-
-        setQuantumCounter(newQuantumCounter);
-
-        // Update Gantt chart
-        setGanttChart(prev => {
-          const last = prev[prev.length - 1];
-          if (last && last.processId === selectedId && last.endTime === time) {
-            return [...prev.slice(0, -1), { ...last, endTime: time + 1 }];
-          }
-          return [...prev, {
-            processId: selectedId,
-            processName: proc.name,
-            color: proc.color,
-            startTime: time,
-            endTime: time + 1,
-          }];
-        });
-
-        // Check if all done
-        if (states.every(s => s.finishTime !== null)) {
-          setSimulationDone(true);
-          setIsPlaying(false);
-        }
-
-        return states;
-      });
-
-      return simulationStarted ? ct : 0;
-    });
-  }, [algorithm, currentRunningId, quantumCounter, simulationDone, simulationStarted, timeQuantum, mlfqQueues]);
+    setSim(prev => schedulerTick(prev, algorithm, timeQuantum));
+  }, [algorithm, timeQuantum]);
 
   // ── Animation loop ──
   const animationLoop = useCallback((timestamp: number) => {
@@ -487,18 +266,8 @@ export default function CPUSchedulingModule() {
 
   const handleReset = useCallback(() => {
     handlePause();
-    const freshStates = initProcessStates(processDefs);
-    setProcessStates(freshStates);
-    setCurrentTime(0);
-    setGanttChart([]);
-    setCurrentRunningId(null);
-    setQuantumCounter(0);
-    setSimulationStarted(false);
-    setSimulationDone(false);
-    if (algorithm === 'MLFQ') {
-      initMLFQ(freshStates);
-    }
-  }, [handlePause, processDefs, algorithm, initMLFQ]);
+    setSim(createSchedulerState(processDefs));
+  }, [handlePause, processDefs]);
 
   // Cleanup animation on unmount
   useEffect(() => {
@@ -520,37 +289,18 @@ export default function CPUSchedulingModule() {
       priority: sp.priority,
       color: PROCESS_COLORS[i % PROCESS_COLORS.length],
     }));
+    setActiveScenario(key);
     setProcessDefs(defs);
-    const freshStates = initProcessStates(defs);
-    setProcessStates(freshStates);
-    setCurrentTime(0);
-    setGanttChart([]);
-    setCurrentRunningId(null);
-    setQuantumCounter(0);
-    setSimulationStarted(false);
-    setSimulationDone(false);
-    if (algorithm === 'MLFQ') {
-      initMLFQ(freshStates);
-    }
-  }, [handlePause, algorithm, initMLFQ]);
+    setSim(createSchedulerState(defs));
+  }, [handlePause]);
 
   // ── Algorithm change ──
   const handleAlgorithmChange = useCallback((algo: Algorithm) => {
     setAlgorithm(algo);
     // Reset simulation when changing algorithm
-    const freshStates = initProcessStates(processDefs);
-    setProcessStates(freshStates);
-    setCurrentTime(0);
-    setGanttChart([]);
-    setCurrentRunningId(null);
-    setQuantumCounter(0);
-    setSimulationStarted(false);
-    setSimulationDone(false);
+    setSim(createSchedulerState(processDefs));
     handlePause();
-    if (algo === 'MLFQ') {
-      initMLFQ(freshStates);
-    }
-  }, [processDefs, handlePause, initMLFQ]);
+  }, [processDefs, handlePause]);
 
   // Load default on mount
   useEffect(() => {
@@ -558,6 +308,52 @@ export default function CPUSchedulingModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIO_PRESETS), loadScenario);
+
+  // ── Side-by-side comparison ──
+  const compareConfigs = useMemo(
+    () => compareWith === null
+      ? null
+      : ([algorithm, compareWith] as const).map(a => ({ processes: processDefs, algorithm: a, timeQuantum })),
+    [processDefs, algorithm, compareWith, timeQuantum]
+  );
+
+  const toggleCompare = () => {
+    handlePause();
+    setCompareWith(compareWith === null ? (algorithm === 'MLFQ' ? 'RR' : 'MLFQ') : null);
+  };
+
+  const quantumSlider = (
+    <div className="flex items-center gap-2">
+      <Timer size={14} className="text-[#f59e0b]" />
+      <span className="text-[10px] text-[#71717a] uppercase tracking-wider">Q=</span>
+      <input
+        type="range"
+        min={1}
+        max={10}
+        value={timeQuantum}
+        onChange={(e) => {
+          setTimeQuantum(parseInt(e.target.value));
+          handleReset();
+        }}
+        className="w-16 h-1.5 accent-[#f59e0b] bg-[#1e1e2e] rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#f59e0b]"
+      />
+      <span className="text-xs font-mono text-[#f59e0b]">{timeQuantum}</span>
+    </div>
+  );
+
+  const compareToggle = (
+    <button
+      onClick={toggleCompare}
+      className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-xs text-[#a1a1aa] hover:text-white transition-all duration-200"
+      aria-pressed={compareWith !== null}
+      title="Run two algorithms side by side on the same processes"
+    >
+      <Columns2 size={14} />
+      {compareWith === null ? 'Compare' : 'Exit Compare'}
+    </button>
+  );
+
   // ── Ready queue display order ──
   const readyQueue = processStates
     .filter(p => p.arrivalTime <= currentTime && p.remainingTime > 0 && p.finishTime === null && p.id !== currentRunningId)
@@ -573,6 +369,15 @@ export default function CPUSchedulingModule() {
       }
     });
 
+  const runningProcess = processStates.find(p => p.id === currentRunningId);
+  const stepDescription = !simulationStarted
+    ? undefined
+    : simulationDone
+      ? `All processes finished at time ${currentTime}`
+      : runningProcess
+        ? `Time ${currentTime}: ${runningProcess.name} running with ${runningProcess.remainingTime} left, ${readyQueue.length} ready`
+        : `Time ${currentTime}: CPU idle`;
+
   // ──────────────────────────── Render ────────────────────────────
 
   return (
@@ -582,7 +387,7 @@ export default function CPUSchedulingModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md bg-[#06b6d4]/15 border border-[#06b6d4]/25 text-[#06b6d4] text-xs font-mono font-semibold">
                 3.2
@@ -602,55 +407,50 @@ export default function CPUSchedulingModule() {
               <span className="text-[#a855f7] font-mono">MLFQ</span>{' '}
               affect waiting and turnaround times.
             </p>
+            <ModuleLinks moduleId="3.2" />
           </div>
 
           {/* ── Controls Bar ── */}
           <div className="mb-6">
-            <ModuleControls
-              isPlaying={isPlaying}
-              onPlay={handlePlay}
-              onPause={handlePause}
-              onStep={handleStep}
-              onReset={handleReset}
-              speed={speed}
-              onSpeedChange={setSpeed}
-              showMetrics={showMetrics}
-              onToggleMetrics={() => setShowMetrics(!showMetrics)}
-            >
-              {/* Algorithm selector */}
-              <div className="relative">
-                <select
-                  value={algorithm}
-                  onChange={(e) => handleAlgorithmChange(e.target.value as Algorithm)}
-                  className="appearance-none px-3 py-2 pr-8 rounded-lg bg-[#06b6d4]/10 border border-[#06b6d4]/30 text-xs text-[#06b6d4] font-mono font-medium focus:outline-none focus:border-[#06b6d4] cursor-pointer"
-                >
-                  {ALGORITHM_LIST.map(a => (
-                    <option key={a} value={a} className="bg-[#111118] text-white">{a}</option>
-                  ))}
-                </select>
-                <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 text-[#06b6d4] pointer-events-none" />
-              </div>
+            {compareConfigs ? (
+              <ComparisonView
+                key={`${activeScenario}:${algorithm}:${compareWith}:${timeQuantum}`}
+                sim={SCHEDULER_SIM}
+                left={{ label: compareConfigs[0].algorithm, config: compareConfigs[0] }}
+                right={{ label: compareConfigs[1].algorithm, config: compareConfigs[1] }}
+                renderPane={(state) => <MiniGantt gantt={state.gantt} time={state.currentTime} />}
+                shareState={{ scenario: activeScenario }}
+              >
+                <AlgorithmSelect value={algorithm} onChange={handleAlgorithmChange} label="Left algorithm" />
+                <span className="text-[10px] text-[#71717a] uppercase tracking-wider">vs</span>
+                <AlgorithmSelect value={compareConfigs[1].algorithm} onChange={setCompareWith} label="Right algorithm" />
+                {(algorithm === 'RR' || compareWith === 'RR') && quantumSlider}
+                {compareToggle}
+              </ComparisonView>
+            ) : (
+              <ModuleControls
+                shareState={{ scenario: activeScenario }}
+                isPlaying={isPlaying}
+                completed={simulationDone}
+                onPlay={handlePlay}
+                onPause={handlePause}
+                onStep={handleStep}
+                onReset={handleReset}
+                speed={speed}
+                onSpeedChange={setSpeed}
+                showMetrics={showMetrics}
+                onToggleMetrics={() => setShowMetrics(!showMetrics)}
+                description={stepDescription}
+              >
+                {/* Algorithm selector */}
+                <AlgorithmSelect value={algorithm} onChange={handleAlgorithmChange} label="Algorithm" />
 
-              {/* Time Quantum for RR */}
-              {(algorithm === 'RR') && (
-                <div className="flex items-center gap-2">
-                  <Timer size={14} className="text-[#f59e0b]" />
-                  <span className="text-[10px] text-[#71717a] uppercase tracking-wider">Q=</span>
-                  <input
-                    type="range"
-                    min={1}
-                    max={10}
-                    value={timeQuantum}
-                    onChange={(e) => {
-                      setTimeQuantum(parseInt(e.target.value));
-                      handleReset();
-                    }}
-                    className="w-16 h-1.5 accent-[#f59e0b] bg-[#1e1e2e] rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#f59e0b]"
-                  />
-                  <span className="text-xs font-mono text-[#f59e0b]">{timeQuantum}</span>
-                </div>
-              )}
-            </ModuleControls>
+                {/* Time Quantum for RR */}
+                {algorithm === 'RR' && quantumSlider}
+
+                {compareToggle}
+              </ModuleControls>
+            )}
           </div>
 
           {/* ── Scenarios ── */}
@@ -672,7 +472,7 @@ export default function CPUSchedulingModule() {
 
           {/* ── Metrics Bar ── */}
           <AnimatePresence>
-            {showMetrics && (
+            {showMetrics && !compareConfigs && (
               <motion.div
                 initial={{ opacity: 0, height: 0 }}
                 animate={{ opacity: 1, height: 'auto' }}
@@ -701,8 +501,8 @@ export default function CPUSchedulingModule() {
             )}
           </AnimatePresence>
 
-          {/* ── Main Grid ── */}
-          <div className="grid grid-cols-1 xl:grid-cols-[1fr_300px] gap-6">
+          {/* ── Main Grid (single run only) ── */}
+          <div className={`grid grid-cols-1 xl:grid-cols-[1fr_300px] gap-6 ${compareConfigs ? 'hidden' : ''}`}>
             {/* ── Left: Visualization ── */}
             <div className="space-y-6 min-w-0">
               {/* ── Algorithm Info ── */}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowRight,
@@ -18,7 +18,12 @@ import {
   Hash,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
 import ModuleControls from '@/components/ui/ModuleControls';
+import QuizPanel from '@/components/ui/QuizPanel';
+import { useQuiz } from '@/hooks/useQuiz';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { choicesFrom, type QuizRule } from '@/lib/quiz';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -203,11 +208,96 @@ function findOptimalVictim(frames: FrameInfo[], referenceString: number[], curre
   return farthestIdx;
 }
 
+function findVictim(mode: Mode, frames: FrameInfo[], referenceString: number[], currentPos: number): number {
+  switch (mode) {
+    case 'fifo':
+      return findFIFOVictim(frames);
+    case 'lru':
+      return findLRUVictim(frames);
+    case 'optimal':
+      return findOptimalVictim(frames, referenceString, currentPos);
+    default:
+      return 0;
+  }
+}
+
+function toHex(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+/** One sentence describing the current step/tick, read out by the step announcer. */
+function describeStep(mode: Mode, paging: PagingDemoState, pr: PageReplacementState): string | undefined {
+  if (mode === 'paging') {
+    const fault = `Page fault: page ${paging.pageNumber} is not in memory`;
+    switch (paging.currentStep) {
+      case 'input':
+        return undefined;
+      case 'page_number':
+        return `${toHex(paging.virtualAddress)} splits into page ${paging.pageNumber}, offset ${toHex(paging.offset)}`;
+      case 'table_lookup':
+        return `Looking up page ${paging.pageNumber} in the page table`;
+      case 'frame_resolve':
+        return paging.frameNumber !== null ? `Page ${paging.pageNumber} is in frame ${paging.frameNumber}` : fault;
+      case 'physical_address':
+        return paging.physicalAddress !== null ? `Physical address ${toHex(paging.physicalAddress)}` : fault;
+    }
+  }
+  const entry = pr.history[pr.history.length - 1];
+  if (!entry) return undefined;
+  if (!entry.isFault) return `Reference to page ${entry.page}: hit`;
+  const victim = entry.victimPage !== null ? `, evicting page ${entry.victimPage}` : '';
+  return `Reference to page ${entry.page}: page fault${victim}`;
+}
+
+// ──────────────────────────── Quiz ────────────────────────────
+
+interface VictimQuizState {
+  mode: Mode;
+  state: PageReplacementState;
+}
+
+function victimReason(mode: Mode, victim: FrameInfo, state: PageReplacementState, pos: number): string {
+  const page = victim.pageNumber;
+  switch (mode) {
+    case 'fifo':
+      return `Page ${page} was loaded first (reference ${victim.loadedAt + 1}), so it is first out.`;
+    case 'lru':
+      return `Page ${page} was last used longest ago (reference ${victim.lastUsedAt + 1}).`;
+    default: {
+      const nextUse = state.referenceString.indexOf(page as number, pos + 1);
+      return nextUse === -1
+        ? `Page ${page} is never referenced again.`
+        : `Page ${page} is not needed until reference ${nextUse + 1}, later than any other resident page.`;
+    }
+  }
+}
+
+// Asked on every fault that has to evict a resident page.
+const victimQuiz: QuizRule<VictimQuizState> = ({ mode, state }) => {
+  if (mode === 'paging') return null;
+  const pos = state.currentPosition + 1;
+  if (pos >= state.referenceString.length) return null;
+  const page = state.referenceString[pos];
+  const resident = state.frames.map(f => f.pageNumber);
+  if (resident.includes(page) || resident.includes(null)) return null;
+
+  const victim = state.frames[findVictim(mode, state.frames, state.referenceString, pos)];
+  return {
+    prompt: `Page ${page} faults and every frame is full. Which page does ${mode === 'optimal' ? 'OPT' : mode.toUpperCase()} evict?`,
+    choices: choicesFrom(resident as number[], p => `Page ${p}`),
+    outcome: {
+      answer: String(victim.pageNumber),
+      explanation: victimReason(mode, victim, state, pos),
+    },
+  };
+};
+
 // ──────────────────────────── Component ────────────────────────────
 
 export default function MemoryManagementModule() {
   // ── Mode ──
   const [mode, setMode] = useState<Mode>('paging');
+  const [activeScenario, setActiveScenario] = useState('fifo_anomaly');
   const [numFrames, setNumFrames] = useState(3);
 
   // ── Paging demo state ──
@@ -256,14 +346,20 @@ export default function MemoryManagementModule() {
     : '0.0';
   const framesUsed = prState.frames.filter(f => f.pageNumber !== null).length;
 
+  // ── Quiz ──
+  const quizState = useMemo(() => ({ mode, state: prState }), [mode, prState]);
+  const pauseForQuiz = useCallback(() => setIsPlaying(false), []);
+  const quiz = useQuiz(victimQuiz, quizState, { isPlaying, pause: pauseForQuiz });
+  const { gate } = quiz;
+
   // ── Step forward ──
   const stepForward = useCallback(() => {
     if (mode === 'paging') {
       stepPaging();
     } else {
-      stepPageReplacement();
+      gate(stepPageReplacement);
     }
-  }, [mode]);
+  }, [mode, gate]);
 
   // ── Paging step ──
   const stepPaging = useCallback(() => {
@@ -399,22 +495,7 @@ export default function MemoryManagementModule() {
           });
         } else {
           // Need to evict
-          let victimIdx: number;
-
-          switch (mode) {
-            case 'fifo':
-              victimIdx = findFIFOVictim(next.frames);
-              break;
-            case 'lru':
-              victimIdx = findLRUVictim(next.frames);
-              break;
-            case 'optimal':
-              victimIdx = findOptimalVictim(next.frames, next.referenceString, newPos);
-              break;
-            default:
-              victimIdx = 0;
-          }
-
+          const victimIdx = findVictim(mode, next.frames, next.referenceString, newPos);
           const victimPage = next.frames[victimIdx].pageNumber;
 
           // Remove from FIFO queue
@@ -550,6 +631,7 @@ export default function MemoryManagementModule() {
     handlePause();
     const scenario = SCENARIO_PRESETS[key];
     if (!scenario) return;
+    setActiveScenario(key);
     setMode(scenario.mode);
     if (scenario.mode === 'paging') {
       setPagingState({
@@ -599,6 +681,8 @@ export default function MemoryManagementModule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIO_PRESETS), loadScenario);
+
   // ── Is page replacement mode ──
   const isPageReplacement = mode !== 'paging';
   const simulationDone = isPageReplacement && prState.currentPosition >= prState.referenceString.length - 1;
@@ -612,7 +696,7 @@ export default function MemoryManagementModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md bg-[#06b6d4]/15 border border-[#06b6d4]/25 text-[#06b6d4] text-xs font-mono font-semibold">
                 3.3
@@ -630,12 +714,15 @@ export default function MemoryManagementModule() {
               <span className="text-[#06b6d4] font-mono">Optimal</span>{' '}
               handle page faults with configurable frame counts.
             </p>
+            <ModuleLinks moduleId="3.3" />
           </div>
 
           {/* ── Controls Bar ── */}
           <div className="mb-6">
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={simulationDone || (mode === 'paging' && pagingState.currentStep === 'physical_address')}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -644,6 +731,7 @@ export default function MemoryManagementModule() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describeStep(mode, pagingState, prState)}
             >
               {/* Mode selector */}
               <div className="relative">
@@ -753,6 +841,16 @@ export default function MemoryManagementModule() {
             </div>
           </div>
 
+          {isPageReplacement && (
+            <div className="mb-6">
+              <QuizPanel
+                quiz={quiz}
+                onContinue={handlePlay}
+                hint="Pause on every fault that has to evict a page and guess the victim before the policy picks it."
+              />
+            </div>
+          )}
+
           {/* ── Main Content ── */}
           {mode === 'paging' ? (
             <PagingVisualization state={pagingState} />
@@ -11,6 +11,12 @@ import {
   Layers,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -50,11 +56,13 @@ export default function AllocatorModule() {
   const [nextId, setNextId] = useState(1);
   const [colorIndex, setColorIndex] = useState(0);
   const [log, setLog] = useState<string[]>([]);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const allocatedBytes = blocks.filter((b) => b.allocated).reduce((s, b) => s + b.size, 0);
   const freeBytes = HEAP_SIZE - allocatedBytes;
   const fragmentation = blocks.filter((b) => !b.allocated).length;
   const externalFrag = freeBytes > 0 ? ((fragmentation - 1) / Math.max(1, fragmentation)) * 100 : 0;
+  useModuleCompletion(fragmentation > 1);
 
   const addLog = useCallback((msg: string) => {
     setLog((prev) => [msg, ...prev].slice(0, 30));
@@ -182,13 +190,20 @@ export default function AllocatorModule() {
     setLog([]);
   }, []);
 
+  // Each step is one malloc of the selected size.
+  useSimulatorShortcuts({
+    step: handleAlloc,
+    reset: handleReset,
+    help: () => setHelpOpen(true),
+  });
+
   return (
     <div className="min-h-screen bg-[#0a0a0f] text-white">
       <Navbar />
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -204,6 +219,7 @@ export default function AllocatorModule() {
               Allocate and free memory blocks using different strategies.
               Watch fragmentation build up and compare first-fit, best-fit, worst-fit, and buddy system.
             </p>
+            <ModuleLinks moduleId="3.4" />
           </div>
 
           {/* Strategy Selector */}
@@ -232,14 +248,20 @@ export default function AllocatorModule() {
                 ))}
               </select>
             </div>
-            <button onClick={handleAlloc}
+            <button onClick={handleAlloc} aria-keyshortcuts={ariaKeys('step')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#10b981] text-white text-sm font-medium hover:bg-[#059669] transition-all">
               <Plus size={14} /> malloc({allocSize})
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-keyshortcuts={ariaKeys('reset')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} /> Reset
             </button>
+            <StepAnnouncer text={log[0]} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['step', 'reset', 'help']}
+            />
           </div>
 
           {/* Metrics */}
@@ -13,6 +13,13 @@ import {
   CheckCircle,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -172,6 +179,7 @@ export default function ConcurrencyModule() {
   const [cycle, setCycle] = useState(0);
   const [raceDetected, setRaceDetected] = useState(false);
   const [executionLog, setExecutionLog] = useState<string[]>([]);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const isPlayingRef = useRef(false);
   const speedRef = useRef(speed);
@@ -183,6 +191,8 @@ export default function ConcurrencyModule() {
 
   const allDone = threads.length > 0 && threads.every((t) => t.state === 'done');
 
+  useModuleCompletion(allDone, activeScenario);
+
   useEffect(() => {
     loadScenario('race_condition');
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -207,6 +217,8 @@ export default function ConcurrencyModule() {
     setMutex({ locked: false, owner: null, waitQueue: [] });
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS), loadScenario);
+
   const stepForward = useCallback(() => {
     if (allDone) { setIsPlaying(false); return; }
 
@@ -365,6 +377,15 @@ export default function ConcurrencyModule() {
 
   useEffect(() => { if (allDone) setIsPlaying(false); }, [allDone]);
 
+  useSimulatorShortcuts({
+    playPause: allDone ? undefined : () => setIsPlaying((p) => !p),
+    step: allDone ? undefined : stepForward,
+    reset: handleReset,
+    faster: () => setSpeed((s) => Math.min(4, s + 0.5)),
+    slower: () => setSpeed((s) => Math.max(0.5, s - 0.5)),
+    help: () => setHelpOpen(true),
+  });
+
   const stateColor = (s: ThreadState) => {
     switch (s) { case 'ready': return '#f59e0b'; case 'running': return '#10b981'; case 'waiting': return '#ef4444'; case 'done': return '#71717a'; }
   };
@@ -377,7 +398,7 @@ export default function ConcurrencyModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -393,6 +414,7 @@ export default function ConcurrencyModule() {
               See race conditions in action. Watch threads interleave operations on shared data,
               then add mutexes to see how synchronization prevents data corruption.
             </p>
+            <ModuleLinks moduleId="3.5" />
           </div>
 
           {/* Scenarios */}
@@ -413,7 +435,7 @@ export default function ConcurrencyModule() {
           {/* Controls */}
           <div className="flex items-center gap-3 mb-6">
             <button onClick={() => isPlaying ? setIsPlaying(false) : setIsPlaying(true)}
-              disabled={allDone}
+              disabled={allDone} aria-keyshortcuts={ariaKeys('playPause')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#06b6d4] text-white text-sm font-medium hover:bg-[#0891b2] disabled:opacity-40 transition-all">
               {isPlaying ? (
                 <><div className="flex gap-0.5"><div className="w-1 h-3 bg-white rounded-sm" /><div className="w-1 h-3 bg-white rounded-sm" /></div> Pause</>
@@ -421,11 +443,11 @@ export default function ConcurrencyModule() {
                 <><Play size={14} fill="white" /> {allDone ? 'Done' : 'Play'}</>
               )}
             </button>
-            <button onClick={stepForward} disabled={allDone}
+            <button onClick={stepForward} disabled={allDone} aria-keyshortcuts={ariaKeys('step')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white disabled:opacity-40 transition-all">
               Step
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-label="Reset" aria-keyshortcuts={ariaKeys('reset')}
               className="px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} />
             </button>
@@ -435,6 +457,12 @@ export default function ConcurrencyModule() {
                 onChange={(e) => setSpeed(Number(e.target.value))} className="w-24 accent-[#06b6d4]" />
               <span className="text-xs font-mono text-[#a1a1aa] w-8">{speed}x</span>
             </div>
+            <StepAnnouncer text={executionLog[0]} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+            />
           </div>
 
           {/* Expected outcome */}
@@ -12,6 +12,13 @@ import {
   ArrowRight,
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // ──────────────────────────── Types ────────────────────────────
 
@@ -150,9 +157,11 @@ export default function DeadlockModule() {
   const [resources, setResources] = useState<Resource[]>(SCENARIOS.classic_deadlock.resources);
   const [activeScenario, setActiveScenario] = useState('classic_deadlock');
   const [showCycle, setShowCycle] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const cycle = detectCycle(processes);
   const hasDeadlock = cycle.length > 0;
+  useModuleCompletion(showCycle && !hasDeadlock, activeScenario);
 
   const loadScenario = useCallback((key: string) => {
     setActiveScenario(key);
@@ -163,6 +172,8 @@ export default function DeadlockModule() {
     setResources(scenario.resources.map((r) => ({ ...r, heldBy: [...r.heldBy] })));
   }, []);
 
+  useScenarioParam(Object.keys(SCENARIOS), loadScenario);
+
   const handleDetect = useCallback(() => {
     setShowCycle(true);
   }, []);
@@ -185,6 +196,13 @@ export default function DeadlockModule() {
     setShowCycle(false);
   }, [cycle]);
 
+  // Stepping walks the workflow: detect, then resolve while a cycle is shown.
+  useSimulatorShortcuts({
+    step: !showCycle ? handleDetect : hasDeadlock ? handleResolve : undefined,
+    reset: () => loadScenario(activeScenario),
+    help: () => setHelpOpen(true),
+  });
+
   // SVG positions for RAG
   const pPositions = processes.map((_, i) => {
     const angle = (i * (2 * Math.PI)) / Math.max(processes.length, 1) - Math.PI / 2;
@@ -204,7 +222,7 @@ export default function DeadlockModule() {
       <main className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2.5 py-0.5 rounded-md text-xs font-mono font-semibold"
                 style={{ backgroundColor: `${DOMAIN_COLOR}15`, color: DOMAIN_COLOR, border: `1px solid ${DOMAIN_COLOR}30` }}>
@@ -220,6 +238,7 @@ export default function DeadlockModule() {
               Explore resource allocation graphs, detect deadlocks via cycle detection,
               and resolve them. Compare safe and unsafe states.
             </p>
+            <ModuleLinks moduleId="3.6" />
           </div>
 
           {/* Scenarios */}
@@ -239,20 +258,32 @@ export default function DeadlockModule() {
 
           {/* Controls */}
           <div className="flex flex-wrap items-center gap-3 mb-6">
-            <button onClick={handleDetect}
+            <button onClick={handleDetect} aria-keyshortcuts={showCycle ? undefined : ariaKeys('step')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#f59e0b] text-black text-sm font-medium hover:bg-[#d97706] transition-all">
               <AlertTriangle size={14} /> Detect Deadlock
             </button>
             {hasDeadlock && showCycle && (
-              <button onClick={handleResolve}
+              <button onClick={handleResolve} aria-keyshortcuts={ariaKeys('step')}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#ef4444] text-white text-sm font-medium hover:bg-[#dc2626] transition-all">
                 Resolve (Kill P{cycle[cycle.length - 1] + 1})
               </button>
             )}
-            <button onClick={() => loadScenario(activeScenario)}
+            <button onClick={() => loadScenario(activeScenario)} aria-keyshortcuts={ariaKeys('reset')}
               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#111118] text-[#a1a1aa] text-sm border border-[#1e1e2e] hover:border-[#2a2a3e] hover:text-white transition-all">
               <RotateCcw size={14} /> Reset
             </button>
+            <StepAnnouncer
+              text={showCycle
+                ? hasDeadlock
+                  ? `Deadlock detected. Cycle: ${cycle.map((id) => `P${id + 1}`).join(' → ')} → P${cycle[0] + 1}`
+                  : 'No deadlock — system is safe.'
+                : undefined}
+            />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['step', 'reset', 'help']}
+            />
           </div>
 
           {/* Detection Result */}
@@ -7,6 +7,13 @@ import {
   Plus, ChevronRight, Info, Layers
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // Types
 interface Inode {
@@ -126,6 +133,8 @@ const FILE_COLORS: Record<string, string> = {
   'doc.pdf': '#10b981',
 };
 
+const SPEEDS = [0.5, 1, 2];
+
 export default function FileSystemsPage() {
   const [scenario, setScenario] = useState<Scenario>(SCENARIOS[0]);
   const [blocks, setBlocks] = useState<Block[]>([]);
@@ -133,6 +142,7 @@ export default function FileSystemsPage() {
   const [currentStep, setCurrentStep] = useState(-1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const [selectedInode, setSelectedInode] = useState<number | null>(null);
   const [log, setLog] = useState<string[]>([]);
   const [highlightBlocks, setHighlightBlocks] = useState<Set<number>>(new Set());
@@ -172,6 +182,13 @@ export default function FileSystemsPage() {
     initState(scenario);
   }, [scenario, initState]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    (id) => setScenario(SCENARIOS.find((s) => s.id === id)!)
+  );
+
+  useModuleCompletion(currentStep >= scenario.operations.length - 1, scenario.id);
+
   const findFreeBlocks = useCallback((blockArr: Block[], count: number, allocation: string): number[] => {
     const freeIndices = blockArr.map((b, i) => (b.status === 'free' ? i : -1)).filter(i => i >= 0);
 
@@ -328,6 +345,15 @@ export default function FileSystemsPage() {
     initState(scenario);
   };
 
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: handleStep,
+    reset: handleReset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const usedBlocks = blocks.filter(b => b.status === 'used').length;
   const metaBlocks = blocks.filter(b => b.status === 'metadata').length;
   const freeBlocks = blocks.filter(b => b.status === 'free').length;
@@ -347,7 +373,7 @@ export default function FileSystemsPage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-cyan-500/20 flex items-center justify-center">
               <HardDrive className="w-5 h-5 text-cyan-400" />
@@ -355,6 +381,7 @@ export default function FileSystemsPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">File Systems</h1>
               <p className="text-sm text-gray-400">Module 3.7 — Inode structure, directory tree, block allocation strategies</p>
+              <ModuleLinks moduleId="3.7" />
             </div>
           </div>
         </div>
@@ -380,21 +407,22 @@ export default function FileSystemsPage() {
         {/* Controls */}
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-cyan-500/20 text-cyan-400 flex items-center justify-center hover:bg-cyan-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={handleStep}
+          <button onClick={handleStep} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={handleReset}
+          <button onClick={handleReset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}>
                 {s}x
               </button>
@@ -403,6 +431,12 @@ export default function FileSystemsPage() {
           <div className="text-xs text-gray-500">
             Step {currentStep + 1} / {scenario.operations.length}
           </div>
+          <StepAnnouncer text={log[log.length - 1]} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
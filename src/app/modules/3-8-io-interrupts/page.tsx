@@ -7,6 +7,13 @@ import {
   ArrowRight, Info, Monitor
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 // Types
 interface InterruptEvent {
@@ -136,11 +143,14 @@ function generateSteps(scenario: Scenario): StepInfo[] {
   return steps;
 }
 
+const SPEEDS = [0.5, 1, 2];
+
 export default function IOInterruptsPage() {
   const [scenario, setScenario] = useState<Scenario>(SCENARIOS[0]);
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const [steps, setSteps] = useState<StepInfo[]>(() => generateSteps(SCENARIOS[0]));
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -150,6 +160,13 @@ export default function IOInterruptsPage() {
     setIsPlaying(false);
   }, [scenario]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    (id) => setScenario(SCENARIOS.find((s) => s.id === id)!)
+  );
+
+  useModuleCompletion(currentStep >= steps.length - 1, scenario.id);
+
   useEffect(() => {
     if (isPlaying && currentStep < steps.length - 1) {
       timerRef.current = setTimeout(() => {
@@ -170,6 +187,18 @@ export default function IOInterruptsPage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepForward = () => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setCurrentStep(0); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const step = steps[currentStep] || steps[0];
 
   return (
@@ -177,7 +206,7 @@ export default function IOInterruptsPage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-cyan-500/20 flex items-center justify-center">
               <Zap className="w-5 h-5 text-cyan-400" />
@@ -185,6 +214,7 @@ export default function IOInterruptsPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">I/O & Interrupts</h1>
               <p className="text-sm text-gray-400">Module 3.8 — Interrupt handling, DMA transfers, device driver model</p>
+              <ModuleLinks moduleId="3.8" />
             </div>
           </div>
         </div>
@@ -210,21 +240,22 @@ export default function IOInterruptsPage() {
         {/* Controls */}
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-cyan-500/20 text-cyan-400 flex items-center justify-center hover:bg-cyan-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); }}
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(0); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}>
                 {s}x
               </button>
@@ -233,6 +264,12 @@ export default function IOInterruptsPage() {
           <div className="text-xs text-gray-500">
             Step {currentStep + 1} / {steps.length}
           </div>
+          <StepAnnouncer text={step.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -7,6 +7,13 @@ import {
   ArrowUp, Shield, Info, Cpu
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface SyscallStep {
   phase: string;
@@ -124,11 +131,14 @@ const LAYER_COLORS = {
   kernel: { bg: 'bg-red-500/10', border: 'border-red-500/30', text: 'text-red-400', label: 'KERNEL SPACE' },
 };
 
+const SPEEDS = [0.5, 1, 2];
+
 export default function SyscallsPage() {
   const [scenario, setScenario] = useState<SyscallScenario>(SCENARIOS[0]);
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -136,6 +146,13 @@ export default function SyscallsPage() {
     setIsPlaying(false);
   }, [scenario]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    (id) => setScenario(SCENARIOS.find((s) => s.id === id)!)
+  );
+
+  useModuleCompletion(currentStep >= scenario.steps.length - 1, scenario.id);
+
   useEffect(() => {
     if (isPlaying && currentStep < scenario.steps.length - 1) {
       timerRef.current = setTimeout(() => {
@@ -156,6 +173,18 @@ export default function SyscallsPage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepForward = () => { setIsPlaying(false); if (currentStep < scenario.steps.length - 1) setCurrentStep(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setCurrentStep(0); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const step = scenario.steps[currentStep];
   const layerStyle = LAYER_COLORS[step.layer];
 
@@ -164,7 +193,7 @@ export default function SyscallsPage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-cyan-500/20 flex items-center justify-center">
               <Terminal className="w-5 h-5 text-cyan-400" />
@@ -172,6 +201,7 @@ export default function SyscallsPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">System Calls</h1>
               <p className="text-sm text-gray-400">Module 3.9 — User-space to kernel-space transition, syscall table lookup</p>
+              <ModuleLinks moduleId="3.9" />
             </div>
           </div>
         </div>
@@ -197,21 +227,22 @@ export default function SyscallsPage() {
         {/* Controls */}
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-cyan-500/20 text-cyan-400 flex items-center justify-center hover:bg-cyan-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < scenario.steps.length - 1) setCurrentStep(s => s + 1); }}
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(0); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}>
                 {s}x
               </button>
@@ -220,6 +251,12 @@ export default function SyscallsPage() {
           <div className="text-xs text-gray-500">
             Step {currentStep + 1} / {scenario.steps.length}
           </div>
+          <StepAnnouncer text={step.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -14,7 +14,10 @@ import {
   Layers,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useShareState } from "@/hooks/useShareState";
+import { readNumber, readString, type ShareState } from "@/lib/share-state";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -639,6 +642,28 @@ function createSortGenerator(
   }
 }
 
+// ─── Screen-reader text ───────────────────────────────────────────────────────
+
+function positionsIn(array: number[], states: BarState[], state: BarState): string[] {
+  return states.flatMap((s, i) => (s === state ? [`${array[i]} at position ${i + 1}`] : []));
+}
+
+/** One sentence describing what the current step is doing to the bars. */
+function describeBars(array: number[], states: BarState[]): string {
+  const swapping = positionsIn(array, states, "swapping");
+  const comparing = positionsIn(array, states, "comparing");
+  const pivot = positionsIn(array, states, "pivot");
+  const sorted = states.filter((s) => s === "sorted").length;
+
+  const parts: string[] = [];
+  if (swapping.length > 0) parts.push(`Swapping ${swapping.join(" and ")}`);
+  if (comparing.length > 0) parts.push(`Comparing ${comparing.join(" and ")}`);
+  if (pivot.length > 0) parts.push(`Pivot ${pivot.join(", ")}`);
+  if (sorted === array.length && array.length > 0) return "Array sorted.";
+  if (sorted > 0) parts.push(`${sorted} of ${array.length} in place`);
+  return parts.length > 0 ? `${parts.join(". ")}.` : "";
+}
+
 // ─── Bar component ────────────────────────────────────────────────────────────
 
 function SortBar({
@@ -685,6 +710,7 @@ function SortBar({
 
   return (
     <div
+      aria-hidden="true"
       className="relative flex-shrink-0"
       style={{
         width: `${width}%`,
@@ -771,6 +797,10 @@ function VisualizationPanel({
 
       {/* Bars container */}
       <div
+        role="img"
+        aria-label={`${label ?? algorithmInfo.label}: ${array.length} bars${
+          array.length <= 25 ? `, values ${array.join(", ")}` : ""
+        }. ${describeBars(array, barStates)}`}
         className="flex-1 flex items-end px-2 pb-1"
         style={{ paddingTop: array.length <= 25 ? "24px" : "8px" }}
       >
@@ -1059,6 +1089,40 @@ export default function SortingPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedAlgorithm, compareAlgorithm, compareMode]);
 
+  // ── Share links ─────────────────────────────────────────────────────────────
+  // Arrays are random, so a link carries the setup rather than the values.
+  const shareState = useMemo<ShareState>(
+    () => ({
+      speed,
+      params: {
+        algorithm: selectedAlgorithm,
+        compare: compareMode ? compareAlgorithm : undefined,
+        distribution,
+        size: arraySize,
+      },
+    }),
+    [speed, selectedAlgorithm, compareMode, compareAlgorithm, distribution, arraySize]
+  );
+
+  useShareState(
+    useCallback((state: ShareState) => {
+      const algorithm = readString(state.params, "algorithm");
+      if (algorithm && algorithm in ALGORITHMS) setSelectedAlgorithm(algorithm as AlgorithmName);
+      const compare = readString(state.params, "compare");
+      if (compare && compare in ALGORITHMS) {
+        setCompareAlgorithm(compare as AlgorithmName);
+        setCompareMode(true);
+      }
+      const dist = readString(state.params, "distribution");
+      if (dist === "random" || dist === "nearly-sorted" || dist === "reversed" || dist === "few-unique") {
+        setDistribution(dist);
+      }
+      const size = readNumber(state.params, "size");
+      if (size !== undefined) setArraySize(Math.min(100, Math.max(10, Math.round(size))));
+      if (state.speed) setSpeed(state.speed);
+    }, [])
+  );
+
   // ── Distribution labels ─────────────────────────────────────────────────────
   const DISTRIBUTIONS: { key: Distribution; label: string }[] = [
     { key: "random", label: "Random" },
@@ -1076,6 +1140,7 @@ export default function SortingPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1100,6 +1165,7 @@ export default function SortingPage() {
               Compare and visualize how different sorting algorithms rearrange data,
               step by step. Watch the tradeoffs between time complexity, space usage, and stability unfold in real time.
             </p>
+            <ModuleLinks moduleId="4.1" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1465,6 +1531,8 @@ export default function SortingPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={shareState}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1473,6 +1541,7 @@ export default function SortingPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describeBars(primaryArray, primaryBarStates)}
             >
               {/* Completion badge */}
               <AnimatePresence>
@@ -3,20 +3,18 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import {
-  Play, Pause, RotateCcw, ChevronRight, Info, GitBranch
+  Play, Pause, RotateCcw, ChevronLeft, ChevronRight, Info, GitBranch
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
-
-interface MSTNode { id: number; label: string; x: number; y: number; }
-interface MSTEdge { from: number; to: number; weight: number; }
-
-interface MSTStep {
-  selectedEdges: { from: number; to: number; weight: number }[];
-  considering?: { from: number; to: number; weight: number };
-  description: string;
-  components?: number[][];
-  totalWeight: number;
-}
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import TimelineScrubber from '@/components/ui/TimelineScrubber';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { kruskal, prim, type MSTEdge, type MSTNode, type MSTStep } from '@/lib/sim/mst';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface GraphPreset { id: string; name: string; nodes: MSTNode[]; edges: MSTEdge[]; }
 
@@ -55,118 +53,10 @@ const PRESETS: GraphPreset[] = [
   },
 ];
 
-function kruskal(nodes: MSTNode[], edges: MSTEdge[]): MSTStep[] {
-  const sorted = [...edges].sort((a, b) => a.weight - b.weight);
-  const parent = Array.from({ length: nodes.length }, (_, i) => i);
-  const rank = Array(nodes.length).fill(0);
-  const steps: MSTStep[] = [];
-  const selected: MSTEdge[] = [];
-
-  function find(x: number): number { return parent[x] === x ? x : (parent[x] = find(parent[x])); }
-  function union(x: number, y: number): boolean {
-    const px = find(x), py = find(y);
-    if (px === py) return false;
-    if (rank[px] < rank[py]) parent[px] = py;
-    else if (rank[px] > rank[py]) parent[py] = px;
-    else { parent[py] = px; rank[px]++; }
-    return true;
-  }
-
-  steps.push({ selectedEdges: [], description: `Kruskal's: Sort ${edges.length} edges by weight`, totalWeight: 0 });
-
-  for (const edge of sorted) {
-    steps.push({
-      selectedEdges: [...selected],
-      considering: edge,
-      description: `Consider edge ${nodes[edge.from].label}—${nodes[edge.to].label} (weight ${edge.weight})`,
-      totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-    });
-
-    if (union(edge.from, edge.to)) {
-      selected.push(edge);
-      steps.push({
-        selectedEdges: [...selected],
-        description: `Accept ${nodes[edge.from].label}—${nodes[edge.to].label}: different components → add to MST`,
-        totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-      });
-    } else {
-      steps.push({
-        selectedEdges: [...selected],
-        description: `Reject ${nodes[edge.from].label}—${nodes[edge.to].label}: same component → would create cycle`,
-        totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-      });
-    }
-
-    if (selected.length === nodes.length - 1) break;
-  }
-
-  steps.push({
-    selectedEdges: [...selected],
-    description: `MST complete! Total weight: ${selected.reduce((s, e) => s + e.weight, 0)}`,
-    totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-  });
-
-  return steps;
-}
-
-function prim(nodes: MSTNode[], edges: MSTEdge[]): MSTStep[] {
-  const adj = new Map<number, { to: number; weight: number }[]>();
-  nodes.forEach(n => adj.set(n.id, []));
-  edges.forEach(e => {
-    adj.get(e.from)!.push({ to: e.to, weight: e.weight });
-    adj.get(e.to)!.push({ to: e.from, weight: e.weight });
-  });
-
-  const inMST = new Set<number>();
-  const selected: MSTEdge[] = [];
-  const steps: MSTStep[] = [];
-  inMST.add(0);
-
-  steps.push({ selectedEdges: [], description: `Prim's: Start from node ${nodes[0].label}`, totalWeight: 0 });
-
-  while (inMST.size < nodes.length) {
-    let bestEdge: MSTEdge | null = null;
-    let bestWeight = Infinity;
-
-    for (const u of inMST) {
-      for (const { to: v, weight } of adj.get(u)!) {
-        if (!inMST.has(v) && weight < bestWeight) {
-          bestWeight = weight;
-          bestEdge = { from: u, to: v, weight };
-        }
-      }
-    }
-
-    if (!bestEdge) break;
-
-    steps.push({
-      selectedEdges: [...selected],
-      considering: bestEdge,
-      description: `Cheapest cross-edge: ${nodes[bestEdge.from].label}—${nodes[bestEdge.to].label} (weight ${bestEdge.weight})`,
-      totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-    });
-
-    selected.push(bestEdge);
-    inMST.add(bestEdge.to);
-
-    steps.push({
-      selectedEdges: [...selected],
-      description: `Add ${nodes[bestEdge.to].label} to MST. Tree now has ${inMST.size} nodes.`,
-      totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-    });
-  }
-
-  steps.push({
-    selectedEdges: [...selected],
-    description: `MST complete! Total weight: ${selected.reduce((s, e) => s + e.weight, 0)}`,
-    totalWeight: selected.reduce((s, e) => s + e.weight, 0),
-  });
-
-  return steps;
-}
-
 type Algorithm = 'kruskal' | 'prim';
 
+const SPEEDS = [0.5, 1, 2];
+
 export default function MSTPage() {
   const [preset, setPreset] = useState<GraphPreset>(PRESETS[0]);
   const [algorithm, setAlgorithm] = useState<Algorithm>('kruskal');
@@ -174,6 +64,7 @@ export default function MSTPage() {
   const [currentStep, setCurrentStep] = useState(-1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   const generate = useCallback(() => {
@@ -183,6 +74,13 @@ export default function MSTPage() {
 
   useEffect(() => { generate(); }, [generate]);
 
+  useScenarioParam(PRESETS.map(p => p.id), id => {
+    const match = PRESETS.find(p => p.id === id);
+    if (match) setPreset(match);
+  });
+
+  useModuleCompletion(steps.length > 0 && currentStep >= steps.length - 1, preset.id);
+
   useEffect(() => {
     if (isPlaying && currentStep < steps.length - 1)
       timerRef.current = setTimeout(() => setCurrentStep(s => s + 1), 1000 / speed);
@@ -195,6 +93,20 @@ export default function MSTPage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepBack = () => { setIsPlaying(false); setCurrentStep(s => Math.max(-1, s - 1)); };
+  const stepForward = () => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setCurrentStep(-1); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    stepBack: currentStep >= 0 ? stepBack : undefined,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const step = currentStep >= 0 ? steps[currentStep] : null;
   const selectedEdgeSet = new Set(
     (step?.selectedEdges || []).map(e => `${Math.min(e.from, e.to)}-${Math.max(e.from, e.to)}`)
@@ -210,7 +122,7 @@ export default function MSTPage() {
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <GitBranch className="w-5 h-5 text-emerald-400" />
@@ -218,6 +130,7 @@ export default function MSTPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Minimum Spanning Tree</h1>
               <p className="text-sm text-gray-400">Module 4.10 — Kruskal&apos;s and Prim&apos;s algorithms</p>
+              <ModuleLinks moduleId="4.10" />
             </div>
           </div>
         </div>
@@ -245,27 +158,46 @@ export default function MSTPage() {
 
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-emerald-500/20 text-emerald-400 flex items-center justify-center hover:bg-emerald-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); }}
+          <button onClick={stepBack}
+            disabled={currentStep < 0} aria-keyshortcuts={ariaKeys('stepBack')}
+            className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1 disabled:opacity-40">
+            <ChevronLeft className="w-4 h-4" /> Back
+          </button>
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(-1); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-emerald-500/20 text-emerald-400' : 'text-gray-500'}`}>
                 {s}x
               </button>
             ))}
           </div>
-          <div className="text-xs text-gray-500">Step {currentStep + 1} / {steps.length}</div>
+          <div className="w-64">
+            <TimelineScrubber
+              position={currentStep + 1}
+              length={steps.length + 1}
+              onSeek={(p) => { setIsPlaying(false); setCurrentStep(p - 1); }}
+              color="#10b981"
+            />
+          </div>
+          <StepAnnouncer text={step?.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'stepBack', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
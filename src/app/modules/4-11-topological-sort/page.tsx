@@ -6,6 +6,13 @@ import {
   Play, Pause, RotateCcw, ChevronRight, Info, ArrowDown
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface DAGNode { id: number; label: string; x: number; y: number; }
 interface DAGEdge { from: number; to: number; }
@@ -132,12 +139,15 @@ function kahnAlgorithm(nodes: DAGNode[], edges: DAGEdge[]): TopoStep[] {
   return steps;
 }
 
+const SPEEDS = [0.5, 1, 2];
+
 export default function TopologicalSortPage() {
   const [preset, setPreset] = useState<GraphPreset>(PRESETS[0]);
   const [steps, setSteps] = useState<TopoStep[]>([]);
   const [currentStep, setCurrentStep] = useState(-1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   const generate = useCallback(() => {
@@ -148,6 +158,13 @@ export default function TopologicalSortPage() {
 
   useEffect(() => { generate(); }, [generate]);
 
+  useScenarioParam(PRESETS.map(p => p.id), id => {
+    const match = PRESETS.find(p => p.id === id);
+    if (match) setPreset(match);
+  });
+
+  useModuleCompletion(steps.length > 0 && currentStep >= steps.length - 1, preset.id);
+
   useEffect(() => {
     if (isPlaying && currentStep < steps.length - 1)
       timerRef.current = setTimeout(() => setCurrentStep(s => s + 1), 1000 / speed);
@@ -160,6 +177,18 @@ export default function TopologicalSortPage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepForward = () => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setCurrentStep(-1); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const step = currentStep >= 0 ? steps[currentStep] : null;
   const outputSet = new Set(step?.output || []);
   const queueSet = new Set(step?.queue || []);
@@ -168,7 +197,7 @@ export default function TopologicalSortPage() {
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <ArrowDown className="w-5 h-5 text-emerald-400" />
@@ -176,6 +205,7 @@ export default function TopologicalSortPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Topological Sort</h1>
               <p className="text-sm text-gray-400">Module 4.11 — Kahn&apos;s algorithm (BFS-based) on DAGs</p>
+              <ModuleLinks moduleId="4.11" />
             </div>
           </div>
         </div>
@@ -194,27 +224,34 @@ export default function TopologicalSortPage() {
 
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-emerald-500/20 text-emerald-400 flex items-center justify-center hover:bg-emerald-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); }}
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(-1); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-emerald-500/20 text-emerald-400' : 'text-gray-500'}`}>
                 {s}x
               </button>
             ))}
           </div>
           <div className="text-xs text-gray-500">Step {currentStep + 1} / {steps.length}</div>
+          <StepAnnouncer text={step?.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -2,10 +2,12 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import {
-  Play, Pause, RotateCcw, ChevronRight, Info, Grid3X3
-} from 'lucide-react';
+import { Info, Grid3X3 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ModuleControls from '@/components/ui/ModuleControls';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { useStepHistory } from '@/hooks/useStepHistory';
 
 interface DPStep {
   row: number;
@@ -188,29 +190,59 @@ const PROBLEMS: DPProblem[] = [
 export default function DynamicProgrammingPage() {
   const [problem, setProblem] = useState(PROBLEMS[0]);
   const [data, setData] = useState<ReturnType<typeof PROBLEMS[0]['generateSteps']> | null>(null);
-  const [currentStep, setCurrentStep] = useState(-1);
+  // Each frame is the index of the last filled step, -1 before the first
+  const timeline = useStepHistory<number>(() => -1);
+  const currentStep = timeline.current;
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const { reset: resetTimeline } = timeline;
 
   useEffect(() => {
     setData(problem.generateSteps());
-    setCurrentStep(-1);
+    resetTimeline(-1);
     setIsPlaying(false);
-  }, [problem]);
+  }, [problem, resetTimeline]);
+
+  useScenarioParam(PROBLEMS.map(p => p.id), id => setProblem(PROBLEMS.find(p => p.id === id)!));
+
+  const stepForward = useCallback(() => {
+    if (!data) return;
+    timeline.advance(s => (s < data.steps.length - 1 ? s + 1 : null));
+  }, [data, timeline]);
 
   useEffect(() => {
     if (!data) return;
     if (isPlaying && currentStep < data.steps.length - 1)
-      timerRef.current = setTimeout(() => setCurrentStep(s => s + 1), 600 / speed);
+      timerRef.current = setTimeout(stepForward, 600 / speed);
     else if (data && currentStep >= data.steps.length - 1) setIsPlaying(false);
     return () => { if (timerRef.current) clearTimeout(timerRef.current); };
-  }, [isPlaying, currentStep, speed, data]);
+  }, [isPlaying, currentStep, speed, data, stepForward]);
 
-  const handlePlayPause = () => {
+  const handlePlay = () => {
     if (!data) return;
-    if (currentStep >= data.steps.length - 1) { setCurrentStep(-1); setTimeout(() => setIsPlaying(true), 50); return; }
-    setIsPlaying(!isPlaying);
+    if (currentStep >= data.steps.length - 1) timeline.reset(-1);
+    setIsPlaying(true);
+  };
+
+  const handleStep = () => {
+    setIsPlaying(false);
+    stepForward();
+  };
+
+  const handleStepBack = () => {
+    setIsPlaying(false);
+    timeline.back();
+  };
+
+  const handleSeek = (position: number) => {
+    setIsPlaying(false);
+    timeline.seek(position);
+  };
+
+  const handleReset = () => {
+    setIsPlaying(false);
+    timeline.reset(-1);
   };
 
   if (!data) return null;
@@ -234,7 +266,7 @@ export default function DynamicProgrammingPage() {
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <Grid3X3 className="w-5 h-5 text-emerald-400" />
@@ -242,6 +274,7 @@ export default function DynamicProgrammingPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Dynamic Programming</h1>
               <p className="text-sm text-gray-400">Module 4.12 — DP table filling animation with traceback</p>
+              <ModuleLinks moduleId="4.12" />
             </div>
           </div>
         </div>
@@ -258,29 +291,26 @@ export default function DynamicProgrammingPage() {
           </div>
         </div>
 
-        <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
-          <button onClick={handlePlayPause}
-            className="w-10 h-10 rounded-lg bg-emerald-500/20 text-emerald-400 flex items-center justify-center hover:bg-emerald-500/30">
-            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-          </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < data.steps.length - 1) setCurrentStep(s => s + 1); }}
-            className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
-            <ChevronRight className="w-4 h-4" /> Step
-          </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(-1); }}
-            className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
-            <RotateCcw className="w-4 h-4" /> Reset
-          </button>
-          <div className="flex items-center gap-2 ml-auto">
-            <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2, 4].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
-                className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-emerald-500/20 text-emerald-400' : 'text-gray-500'}`}>
-                {s}x
-              </button>
-            ))}
-          </div>
-          <div className="text-xs text-gray-500">Step {currentStep + 1} / {data.steps.length}</div>
+        <div className="mb-6">
+          <ModuleControls
+            shareState={{ scenario: problem.id }}
+            isPlaying={isPlaying}
+            completed={data !== null && currentStep >= data.steps.length - 1}
+            onPlay={handlePlay}
+            onPause={() => setIsPlaying(false)}
+            onStep={handleStep}
+            onStepBack={handleStepBack}
+            canStepBack={timeline.position > 0}
+            onReset={handleReset}
+            speed={speed}
+            onSpeedChange={setSpeed}
+            timeline={{
+              position: timeline.position,
+              length: timeline.length,
+              onSeek: handleSeek,
+            }}
+            description={step?.description}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
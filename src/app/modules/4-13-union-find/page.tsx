@@ -6,6 +6,12 @@ import {
   RotateCcw, Info, GitMerge, Plus, Search
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface UFNode {
   id: number;
@@ -36,6 +42,7 @@ export default function UnionFindPage() {
   const [highlightRoot, setHighlightRoot] = useState<number | null>(null);
   const [useCompression, setUseCompression] = useState(true);
   const [useRank, setUseRank] = useState(true);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const findRoot = useCallback((nodeArr: UFNode[], x: number): { root: number; path: number[] } => {
     const path: number[] = [x];
@@ -114,6 +121,8 @@ export default function UnionFindPage() {
     setLog(prev => [...prev, ...logs]);
   }, [nodes, findRoot, useRank, useCompression]);
 
+  useModuleCompletion(new Set(nodes.map(n => findRoot(nodes, n.id).root)).size === 1);
+
   const handleReset = (count: number) => {
     setNodes(Array.from({ length: count }, (_, i) => ({ id: i, parent: i, rank: 0 })));
     setLog([{ text: `Reset: ${count} elements, each in its own set.`, type: 'info' }]);
@@ -121,6 +130,11 @@ export default function UnionFindPage() {
     setHighlightRoot(null);
   };
 
+  useSimulatorShortcuts({
+    reset: () => handleReset(nodes.length),
+    help: () => setHelpOpen(true),
+  });
+
   // Build tree structure for visualization
   const roots = nodes.filter(n => n.parent === n.id);
   const getChildren = (parentId: number): number[] =>
@@ -161,7 +175,7 @@ export default function UnionFindPage() {
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <GitMerge className="w-5 h-5 text-emerald-400" />
@@ -169,6 +183,7 @@ export default function UnionFindPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Union-Find (Disjoint Sets)</h1>
               <p className="text-sm text-gray-400">Module 4.13 — Path compression and union by rank</p>
+              <ModuleLinks moduleId="4.13" />
             </div>
           </div>
         </div>
@@ -220,10 +235,16 @@ export default function UnionFindPage() {
               <Search className="w-3 h-3" /> Find
             </button>
           </div>
-          <button onClick={() => handleReset(nodes.length)}
+          <button onClick={() => handleReset(nodes.length)} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-1.5 rounded bg-[#1e1e2e] text-gray-400 text-xs hover:text-white flex items-center gap-1 ml-auto">
             <RotateCcw className="w-3 h-3" /> Reset
           </button>
+          <StepAnnouncer text={log[log.length - 1]?.text} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['reset', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
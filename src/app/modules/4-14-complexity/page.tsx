@@ -4,6 +4,11 @@ import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Info, BarChart3 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
 
 interface ComplexityClass {
   name: string;
@@ -25,10 +30,20 @@ const COMPLEXITIES: ComplexityClass[] = [
 
 const INPUT_SIZES = [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024];
 
+const MAX_N_OPTIONS = [32, 64, 128, 256, 512];
+
+/** Keyboard steps across the chart's x axis. */
+const CURSOR_STEPS = 16;
+
+const formatOps = (v: number) => (v < 1000 ? v.toFixed(1) : v.toExponential(1));
+
 export default function ComplexityPage() {
   const [selected, setSelected] = useState<Set<string>>(new Set(['O(1)', 'O(log n)', 'O(n)', 'O(n log n)', 'O(n²)']));
   const [maxN, setMaxN] = useState(64);
   const [hoverN, setHoverN] = useState<number | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  useModuleCompletion(maxN === MAX_N_OPTIONS[MAX_N_OPTIONS.length - 1]);
 
   const toggleClass = (notation: string) => {
     setSelected(prev => {
@@ -40,6 +55,15 @@ export default function ComplexityPage() {
   };
 
   const activeClasses = COMPLEXITIES.filter(c => selected.has(c.notation));
+
+  // Stepping moves the value cursor along n, the keyboard stand-in for hovering.
+  const cursorStep = maxN / CURSOR_STEPS;
+  useSimulatorShortcuts({
+    step: () => setHoverN(n => Math.min(maxN, (n ?? 0) + cursorStep)),
+    stepBack: hoverN !== null && hoverN > 0 ? () => setHoverN(n => Math.max(0, (n ?? 0) - cursorStep)) : undefined,
+    reset: () => setHoverN(null),
+    help: () => setHelpOpen(true),
+  });
   const maxVal = useMemo(() => {
     let max = 0;
     for (const cls of activeClasses) {
@@ -79,7 +103,7 @@ export default function ComplexityPage() {
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <BarChart3 className="w-5 h-5 text-emerald-400" />
@@ -87,6 +111,7 @@ export default function ComplexityPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Complexity Analysis</h1>
               <p className="text-sm text-gray-400">Module 4.14 — Big-O growth curves and time estimates</p>
+              <ModuleLinks moduleId="4.14" />
             </div>
           </div>
         </div>
@@ -113,8 +138,8 @@ export default function ComplexityPage() {
           ))}
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Max n:</span>
-            {[32, 64, 128, 256, 512].map(n => (
-              <button key={n} onClick={() => setMaxN(n)}
+            {MAX_N_OPTIONS.map(n => (
+              <button key={n} onClick={() => { setMaxN(n); setHoverN(null); }} aria-pressed={maxN === n}
                 className={`px-2 py-1 rounded text-xs ${maxN === n ? 'bg-emerald-500/20 text-emerald-400' : 'text-gray-500'}`}>
                 {n}
               </button>
@@ -208,12 +233,23 @@ export default function ComplexityPage() {
                 </text>
               </svg>
 
+              <StepAnnouncer
+                text={hoverN !== null
+                  ? `n = ${hoverN}: ${activeClasses.map(cls => `${cls.notation} ${formatOps(cls.fn(hoverN))}`).join(', ')}`
+                  : undefined}
+              />
+              <ShortcutHelp
+                open={helpOpen}
+                onClose={() => setHelpOpen(false)}
+                actions={['step', 'stepBack', 'reset', 'help']}
+              />
+
               {/* Hover values */}
               {hoverN !== null && (
                 <div className="flex gap-3 mt-2 flex-wrap">
                   {activeClasses.map(cls => (
                     <div key={cls.notation} className="text-xs font-mono" style={{ color: cls.color }}>
-                      {cls.notation}: {cls.fn(hoverN) < 1000 ? cls.fn(hoverN).toFixed(1) : cls.fn(hoverN).toExponential(1)}
+                      {cls.notation}: {formatOps(cls.fn(hoverN))}
                     </div>
                   ))}
                 </div>
@@ -3,9 +3,16 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import {
-  Play, Pause, RotateCcw, ChevronRight, Info, Search
+  Play, Pause, RotateCcw, ChevronLeft, ChevronRight, Info, Search
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import TimelineScrubber from '@/components/ui/TimelineScrubber';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface MatchStep {
   textIdx: number;
@@ -125,6 +132,8 @@ const PRESETS = [
   { text: 'THE QUICK BROWN FOX', pattern: 'BROWN' },
 ];
 
+const SPEEDS = [0.5, 1, 2, 4];
+
 export default function StringMatchingPage() {
   const [text, setText] = useState(PRESETS[0].text);
   const [pattern, setPattern] = useState(PRESETS[0].pattern);
@@ -133,6 +142,7 @@ export default function StringMatchingPage() {
   const [currentStep, setCurrentStep] = useState(-1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   const generate = useCallback(() => {
@@ -144,6 +154,8 @@ export default function StringMatchingPage() {
 
   useEffect(() => { generate(); }, [generate]);
 
+  useModuleCompletion(steps.length > 0 && currentStep >= steps.length - 1);
+
   useEffect(() => {
     if (isPlaying && currentStep < steps.length - 1)
       timerRef.current = setTimeout(() => setCurrentStep(s => s + 1), 500 / speed);
@@ -156,6 +168,20 @@ export default function StringMatchingPage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepBack = () => { setIsPlaying(false); setCurrentStep(s => Math.max(-1, s - 1)); };
+  const stepForward = () => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); };
+  const reset = () => { setIsPlaying(false); setCurrentStep(-1); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    stepBack: currentStep >= 0 ? stepBack : undefined,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const step = currentStep >= 0 ? steps[currentStep] : null;
   const matchedSet = new Set(step?.matched || []);
   const foundPositions = steps.filter(s => s.foundAt !== undefined).map(s => s.foundAt!);
@@ -165,7 +191,7 @@ export default function StringMatchingPage() {
     <div className="min-h-screen bg-[#0a0a0f]">
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <Search className="w-5 h-5 text-emerald-400" />
@@ -173,6 +199,7 @@ export default function StringMatchingPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">String Matching</h1>
               <p className="text-sm text-gray-400">Module 4.15 — KMP and Naive pattern matching</p>
+              <ModuleLinks moduleId="4.15" />
             </div>
           </div>
         </div>
@@ -216,27 +243,46 @@ export default function StringMatchingPage() {
         {/* Controls */}
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-emerald-500/20 text-emerald-400 flex items-center justify-center hover:bg-emerald-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); }}
+          <button onClick={stepBack}
+            disabled={currentStep < 0} aria-keyshortcuts={ariaKeys('stepBack')}
+            className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1 disabled:opacity-40">
+            <ChevronLeft className="w-4 h-4" /> Back
+          </button>
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(-1); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2, 4].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-emerald-500/20 text-emerald-400' : 'text-gray-500'}`}>
                 {s}x
               </button>
             ))}
           </div>
-          <div className="text-xs text-gray-500">Step {currentStep + 1} / {steps.length}</div>
+          <div className="w-64">
+            <TimelineScrubber
+              position={currentStep + 1}
+              length={steps.length + 1}
+              onSeek={(p) => { setIsPlaying(false); setCurrentStep(p - 1); }}
+              color="#10b981"
+            />
+          </div>
+          <StepAnnouncer text={step?.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'stepBack', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
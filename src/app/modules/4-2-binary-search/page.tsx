@@ -16,7 +16,9 @@ import {
   Hash,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -402,11 +404,28 @@ function ArrayCell({
     }
   };
 
+  // Same pointers the arrows below draw.
+  const pointers = state === "mid" ? (isMid ? ["mid"] : []) : [isLow && "low", isHigh && "high"].filter(Boolean);
+  const ariaLabel = [
+    `Index ${index}, value ${value}`,
+    pointers.length > 0 && `pointer ${pointers.join(" and ")}`,
+    state === "eliminated" && "eliminated",
+    state === "found" && "found",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
   return (
-    <div className="flex flex-col items-center" style={{ gap: tiny ? "2px" : "4px" }}>
+    <div
+      role="listitem"
+      aria-label={ariaLabel}
+      className="flex flex-col items-center"
+      style={{ gap: tiny ? "2px" : "4px" }}
+    >
       {/* Index label */}
       {!tiny && (
         <span
+          aria-hidden="true"
           className="font-mono tabular-nums"
           style={{
             fontSize: compact ? "8px" : "10px",
@@ -419,6 +438,7 @@ function ArrayCell({
 
       {/* Cell box */}
       <motion.div
+        aria-hidden="true"
         layout
         className="flex items-center justify-center rounded-lg font-mono font-semibold tabular-nums"
         style={{
@@ -437,6 +457,7 @@ function ArrayCell({
 
       {/* Pointer arrows */}
       <div
+        aria-hidden="true"
         className="flex flex-col items-center"
         style={{ minHeight: tiny ? "16px" : "24px" }}
       >
@@ -817,6 +838,11 @@ export default function BinarySearchPage() {
     [initSearch]
   );
 
+  useScenarioParam(
+    SCENARIO_PRESETS.map((s) => s.name),
+    handleScenarioChange
+  );
+
   // ── Handle target change ────────────────────────────────────────────────────
   const handleTargetSubmit = useCallback(() => {
     const val = parseInt(targetInput);
@@ -886,6 +912,7 @@ export default function BinarySearchPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -911,6 +938,7 @@ export default function BinarySearchPage() {
               half the remaining elements with each comparison. Understand why
               this gives O(log n) time complexity.
             </p>
+            <ModuleLinks moduleId="4.2" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1112,6 +1140,8 @@ export default function BinarySearchPage() {
 
             {/* Array visualization */}
             <div
+              role="list"
+              aria-label={`Sorted array of ${searchState.array.length} values, searching for ${searchState.target}`}
               className="flex items-start justify-center gap-1 px-4 py-6 overflow-x-auto"
               style={{ minHeight: arraySize > 32 ? "160px" : "200px" }}
             >
@@ -1213,6 +1243,8 @@ export default function BinarySearchPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: activeScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1221,6 +1253,7 @@ export default function BinarySearchPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={searchState.log[searchState.log.length - 1]}
             >
               <AnimatePresence>
                 {isComplete && (
@@ -17,9 +17,15 @@ import {
   GitCompareArrows,
   ChevronDown,
   Target,
+  Compass,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import TourPlayer from "@/components/ui/TourPlayer";
+import { useScenarioParam } from "@/hooks/useShareState";
+import { useTour } from "@/hooks/useTour";
+import type { Tour } from "@/lib/tour";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -89,6 +95,7 @@ interface ScenarioPreset {
   keys: number[];
   strategy: CollisionStrategy;
   description: string;
+  tour?: Tour<HashTableState>;
 }
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -129,6 +136,9 @@ const STRATEGY_INFO: Record<
   },
 };
 
+const isInserted = (s: HashTableState) =>
+  s.currentOp?.type === "insert" && s.currentOp.phase === "inserted";
+
 const SCENARIO_PRESETS: ScenarioPreset[] = [
   {
     name: "no-collisions",
@@ -136,6 +146,28 @@ const SCENARIO_PRESETS: ScenarioPreset[] = [
     keys: [3, 12, 25, 36, 47, 54, 61, 78],
     strategy: "chaining",
     description: "Keys that hash to different buckets",
+    tour: [
+      {
+        text: "A hash function turns a key straight into a bucket index. With the division method the index is the remainder after dividing by the table size m.",
+        math: "h(k) = k \\bmod m",
+        target: "hash-function",
+      },
+      {
+        text: "3 mod 8 = 3, so key 3 goes directly into bucket 3. No searching, no comparisons: one arithmetic step.",
+        target: "buckets",
+        waitFor: (s) => s.entries === 1 && isInserted(s),
+      },
+      {
+        text: "All eight keys are in. Whether two keys collide depends only on their remainders: on a table of 10 each of these keys gets its own bucket, but with 8 buckets 12 and 36 share one, and so do 54 and 78.",
+        target: "metrics",
+        waitFor: (s) => s.entries === 8 && isInserted(s),
+      },
+      {
+        text: "The load factor is the average number of entries per bucket. Under uniform hashing it is also the expected chain length, so it sets the cost of every lookup.",
+        math: "\\alpha = \\frac{n}{m}",
+        target: "load-factor",
+      },
+    ],
   },
   {
     name: "clustering",
@@ -143,6 +175,34 @@ const SCENARIO_PRESETS: ScenarioPreset[] = [
     keys: [10, 20, 30, 40, 50, 60, 70, 80, 11, 21, 31],
     strategy: "linear-probing",
     description: "Keys that cause clustering in linear probing",
+    tour: [
+      {
+        text: "Open addressing keeps every entry in the table itself. When the home slot is taken, linear probing tries the next slot, then the one after that.",
+        math: "h(k, i) = (h(k) + i) \\bmod m",
+        target: "hash-function",
+      },
+      {
+        text: "Slot 2 is taken, so this key moves to the next free slot. That counts as a collision.",
+        target: "buckets",
+        waitFor: (s) => s.collisions === 1 && isInserted(s),
+      },
+      {
+        text: "Occupied slots have merged into one long run. Any key that hashes into the run has to walk to its end, and then it makes the run longer. This is primary clustering.",
+        target: "buckets",
+        waitFor: (s) => s.entries === 6 && isInserted(s),
+      },
+      {
+        text: "Clustering drives up the cost of a miss much faster than the load factor grows. Under uniform hashing, an unsuccessful search with linear probing expects about this many probes:",
+        math: "\\frac{1}{2}\\left(1 + \\frac{1}{(1 - \\alpha)^2}\\right)",
+        target: "metrics",
+        waitFor: (s) => s.entries === 7 && isInserted(s),
+      },
+      {
+        text: "At α = 1 open addressing has nowhere left to put a key, so the remaining inserts fail. Real tables resize long before this, usually around α ≈ 0.7.",
+        target: "load-factor",
+        waitFor: (s) => s.entries === s.tableSize && s.currentOp === null,
+      },
+    ],
   },
   {
     name: "high-load",
@@ -150,6 +210,30 @@ const SCENARIO_PRESETS: ScenarioPreset[] = [
     keys: [5, 13, 21, 29, 37, 45, 53, 61, 69, 77, 85, 93],
     strategy: "chaining",
     description: "Load factor exceeds 0.75, triggering resize",
+    tour: [
+      {
+        text: "Every key in this set is 5 more than a multiple of 8. Watch where the division method puts them.",
+        math: "k \\equiv 5 \\pmod{8}",
+        target: "hash-function",
+      },
+      {
+        text: "13 mod 8 = 5 again. With separate chaining a collision is cheap: the new key is appended to the list in bucket 5.",
+        target: "buckets",
+        waitFor: (s) => s.collisions === 1 && isInserted(s),
+      },
+      {
+        text: "The load factor has passed 0.75, the usual point at which a table doubles its size and rehashes every key.",
+        math: "\\alpha = \\frac{n}{m} > 0.75",
+        target: "load-factor",
+        waitFor: (s) => s.entries / s.tableSize > 0.75 && isInserted(s),
+      },
+      {
+        text: "With a uniform hash, a successful search looks at about 1 + α/2 entries. This key set defeats the hash, though: everything is in one chain, so a search costs Θ(n). Choosing a prime m spreads patterned keys like these.",
+        math: "E[\\text{probes}] = 1 + \\frac{\\alpha}{2}",
+        target: "metrics",
+        waitFor: (s) => s.entries === 12 && isInserted(s),
+      },
+    ],
   },
   {
     name: "delete-rehash",
@@ -157,6 +241,27 @@ const SCENARIO_PRESETS: ScenarioPreset[] = [
     keys: [7, 15, 23, 31, 39, 47],
     strategy: "linear-probing",
     description: "Insert then delete to see tombstone handling",
+    tour: [
+      {
+        text: "Every key here hashes to slot 7. Linear probing has to wrap around the end of the table to find room.",
+        math: "(7 + 1) \\bmod 8 = 0",
+        target: "hash-function",
+      },
+      {
+        text: "15 collides at slot 7 and wraps to slot 0.",
+        target: "buckets",
+        waitFor: (s) => s.collisions === 1 && isInserted(s),
+      },
+      {
+        text: "All six keys now form one run: 7, 0, 1, 2, 3, 4. Deleting 15 by clearing its slot would split the run, and a search for 23 would stop at the gap and wrongly report it missing.",
+        target: "buckets",
+        waitFor: (s) => s.entries === 6 && s.currentOp === null,
+      },
+      {
+        text: "Delete 15 with the key controls. Its slot becomes a tombstone: searches keep probing past it, and inserts may reuse it.",
+        target: "operations",
+      },
+    ],
   },
 ];
 
@@ -1296,7 +1401,7 @@ export default function HashTablesPage() {
 
   // ── Scenario handling ───────────────────────────────────────────────────────
   const handleScenarioChange = useCallback(
-    (scenarioName: string) => {
+    (scenarioName: string, size: number = tableSize) => {
       handlePause();
       setActiveScenario(scenarioName);
       const scenario = SCENARIO_PRESETS.find((s) => s.name === scenarioName);
@@ -1305,7 +1410,7 @@ export default function HashTablesPage() {
         generatorRef.current = null;
         autoKeyIndexRef.current = 0;
         setIsComplete(false);
-        const newState = createInitialState(tableSize, scenario.strategy);
+        const newState = createInitialState(size, scenario.strategy);
         setHtState(newState);
         htStateRef.current = newState;
         setAutoKeys(scenario.keys);
@@ -1314,6 +1419,26 @@ export default function HashTablesPage() {
     [handlePause, tableSize]
   );
 
+  useScenarioParam(
+    SCENARIO_PRESETS.map((s) => s.name),
+    handleScenarioChange
+  );
+
+  // ── Guided tour ─────────────────────────────────────────────────────────────
+  const activePreset = SCENARIO_PRESETS.find((s) => s.name === activeScenario);
+  const tour = useTour(activePreset?.tour, htState, {
+    isPlaying,
+    play: handlePlay,
+    pause: handlePause,
+  });
+
+  // Tours narrate the default table size, so restart the preset on it.
+  const handleStartTour = () => {
+    setTableSize(DEFAULT_TABLE_SIZE);
+    handleScenarioChange(activeScenario, DEFAULT_TABLE_SIZE);
+    tour.start();
+  };
+
   // ── Strategy change ─────────────────────────────────────────────────────────
   const handleStrategyChange = useCallback(
     (newStrategy: CollisionStrategy) => {
@@ -1342,11 +1467,13 @@ export default function HashTablesPage() {
   return (
     <div className="min-h-screen" style={{ background: "#0a0a0f" }}>
       <Navbar />
+      <TourPlayer tour={tour} title={activePreset?.label ?? ""} />
 
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1372,6 +1499,7 @@ export default function HashTablesPage() {
               and how different collision resolution strategies handle conflicts.
               Watch insertions, searches, and deletions step by step.
             </p>
+            <ModuleLinks moduleId="4.3" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1465,6 +1593,7 @@ export default function HashTablesPage() {
 
             {/* Key input + operations */}
             <div
+              data-tour="operations"
               className="flex items-center gap-2 px-3 py-2 rounded-xl text-sm"
               style={{
                 background: "#111118",
@@ -1549,6 +1678,16 @@ export default function HashTablesPage() {
                   {s.label}
                 </button>
               ))}
+              {activePreset?.tour && (
+                <button
+                  onClick={handleStartTour}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-[#818cf8] hover:bg-[#6366f1]/10 transition-all duration-200"
+                  style={{ border: "1px solid #6366f130" }}
+                >
+                  <Compass size={12} />
+                  Guided tour
+                </button>
+              )}
             </div>
           </motion.div>
 
@@ -1584,7 +1723,7 @@ export default function HashTablesPage() {
             </span>
 
             {/* Load factor */}
-            <div className="flex items-center gap-2 ml-4">
+            <div data-tour="load-factor" className="flex items-center gap-2 ml-4">
               <span className="text-xs text-[#71717a]">Load Factor:</span>
               <span
                 className="text-xs font-mono font-semibold"
@@ -1614,7 +1753,7 @@ export default function HashTablesPage() {
             }}
           >
             {/* Hash function display */}
-            <div className="flex items-center justify-between px-5 py-3 border-b border-[#1e1e2e]">
+            <div data-tour="hash-function" className="flex items-center justify-between px-5 py-3 border-b border-[#1e1e2e]">
               <div className="flex items-center gap-3">
                 <Hash size={14} style={{ color: OCCUPIED_COLOR }} />
                 <span className="text-sm text-white font-medium">
@@ -1643,6 +1782,7 @@ export default function HashTablesPage() {
 
             {/* Buckets visualization */}
             <div
+              data-tour="buckets"
               className="flex items-start justify-center gap-2 px-4 py-6 overflow-x-auto"
               style={{ minHeight: strategy === "chaining" ? "280px" : "160px" }}
             >
@@ -1748,6 +1888,8 @@ export default function HashTablesPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
+              shareState={{ scenario: activeScenario }}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1756,6 +1898,7 @@ export default function HashTablesPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={htState.currentOp?.message}
             >
               {autoKeys.length > 0 && (
                 <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg"
@@ -1786,6 +1929,7 @@ export default function HashTablesPage() {
                   initial={{ opacity: 0, y: 8 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: 8 }}
+                  data-tour="metrics"
                   className="rounded-2xl overflow-hidden"
                   style={{
                     background: "#111118",
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   TreePine,
@@ -19,7 +19,10 @@ import {
   Target,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useShareState } from "@/hooks/useShareState";
+import { isString, readArray, readString, type ShareState } from "@/lib/share-state";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -75,6 +78,12 @@ interface TreeState {
   traversalOrder: number[];
 }
 
+type TreeOperation = {
+  kind: "insert" | "search" | "delete" | "traverse";
+  value: number;
+  at: number; // step count when the operation was started
+};
+
 interface ScenarioPreset {
   name: string;
   label: string;
@@ -641,6 +650,30 @@ function rbInsert(
   return rbInsertFixup(root, z, rotationCount);
 }
 
+// ─── Share-link encoding for operations ───────────────────────────────────────
+
+const OPERATION_CODES: Record<TreeOperation["kind"], string> = {
+  insert: "i",
+  search: "s",
+  delete: "d",
+  traverse: "t",
+};
+
+function encodeTreeOperation(op: TreeOperation): string {
+  const value = op.kind === "traverse" ? "" : String(op.value);
+  return `${OPERATION_CODES[op.kind]}${value}@${op.at}`;
+}
+
+function decodeTreeOperation(code: string): TreeOperation | null {
+  const match = /^([isdt])(-?\d*)@(\d+)$/.exec(code);
+  if (!match) return null;
+  const kind = (Object.keys(OPERATION_CODES) as TreeOperation["kind"][]).find(
+    (k) => OPERATION_CODES[k] === match[1]
+  )!;
+  if (kind !== "traverse" && match[2] === "") return null;
+  return { kind, value: Number(match[2] || 0), at: Number(match[3]) };
+}
+
 // ─── Step generator for tree operations ───────────────────────────────────────
 
 function buildTreeState(
@@ -1118,8 +1151,14 @@ export default function TreesPage() {
 
   // ── Auto-play queue ─────────────────────────────────────────────────────────
   const [autoValues, setAutoValues] = useState<number[]>([]);
+  const autoValuesRef = useRef<number[]>([]);
   const autoValueIndexRef = useRef(0);
 
+  // ── Share-link bookkeeping ──────────────────────────────────────────────────
+  const [stepCount, setStepCount] = useState(0);
+  const [opLog, setOpLog] = useState<string[]>([]);
+  const stepCountRef = useRef(0);
+
   // ── Refs ────────────────────────────────────────────────────────────────────
   const generatorRef = useRef<Generator<TreeState> | null>(null);
   const animationRef = useRef<number | null>(null);
@@ -1144,7 +1183,7 @@ export default function TreesPage() {
   }, [treeType]);
 
   // ── Step forward ────────────────────────────────────────────────────────────
-  const stepForward = useCallback((): boolean => {
+  const advance = useCallback((): boolean => {
     if (generatorRef.current) {
       const result = generatorRef.current.next();
       if (!result.done) {
@@ -1159,7 +1198,7 @@ export default function TreesPage() {
         if (result.value.phase === "done") {
           generatorRef.current = null;
           // Check if there are more auto-play values
-          if (autoValueIndexRef.current < autoValues.length) {
+          if (autoValueIndexRef.current < autoValuesRef.current.length) {
             return true; // will pick up next value on next step
           }
         }
@@ -1169,8 +1208,8 @@ export default function TreesPage() {
     }
 
     // Check auto-play queue
-    if (autoValueIndexRef.current < autoValues.length) {
-      const value = autoValues[autoValueIndexRef.current];
+    if (autoValueIndexRef.current < autoValuesRef.current.length) {
+      const value = autoValuesRef.current[autoValueIndexRef.current];
       autoValueIndexRef.current++;
       generatorRef.current = insertGenerator(
         treeRootRef.current,
@@ -1198,7 +1237,16 @@ export default function TreesPage() {
     setIsPlaying(false);
     isPlayingRef.current = false;
     return false;
-  }, [autoValues]);
+  }, []);
+
+  const stepForward = useCallback((): boolean => {
+    const active = advance();
+    if (active) {
+      stepCountRef.current++;
+      setStepCount(stepCountRef.current);
+    }
+    return active;
+  }, [advance]);
 
   // ── Animation loop ──────────────────────────────────────────────────────────
   const animationLoop = useCallback(
@@ -1239,18 +1287,30 @@ export default function TreesPage() {
     stepForward();
   }, [handlePause, stepForward, isComplete, autoValues]);
 
+  const resetTree = useCallback(
+    (type: TreeType, values: number[]) => {
+      handlePause();
+      generatorRef.current = null;
+      autoValueIndexRef.current = 0;
+      autoValuesRef.current = values;
+      stepCountRef.current = 0;
+      setStepCount(0);
+      setOpLog([]);
+      setIsComplete(false);
+      setAutoValues(values);
+      treeRootRef.current = null;
+      comparisonsRef.current = 0;
+      rotationsRef.current = 0;
+      logRef.current = [];
+      setTreeState(buildTreeState(null, [], new Map(), 0, 0, [], "idle", type));
+    },
+    [handlePause]
+  );
+
   const handleReset = useCallback(() => {
-    handlePause();
-    generatorRef.current = null;
-    autoValueIndexRef.current = 0;
-    setIsComplete(false);
-    setAutoValues([]);
-    treeRootRef.current = null;
-    comparisonsRef.current = 0;
-    rotationsRef.current = 0;
-    logRef.current = [];
-    setTreeState(buildTreeState(null, [], new Map(), 0, 0, [], "idle", treeType));
-  }, [handlePause, treeType]);
+    setActiveScenario("");
+    resetTree(treeType, []);
+  }, [resetTree, treeType]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -1260,65 +1320,60 @@ export default function TreesPage() {
   }, []);
 
   // ── Operations ──────────────────────────────────────────────────────────────
-  const handleInsert = useCallback(
-    (value: number) => {
+  // Each operation is logged with the step it started on, so a share link can
+  // replay the exact sequence of user inputs.
+  const startOperation = useCallback((op: TreeOperation) => {
+    setIsComplete(false);
+    const root = treeRootRef.current;
+    const type = treeTypeRef.current;
+    const comparisons = comparisonsRef.current;
+    const rotations = rotationsRef.current;
+    const log = logRef.current;
+    switch (op.kind) {
+      case "insert":
+        generatorRef.current = insertGenerator(root, op.value, type, comparisons, rotations, log);
+        break;
+      case "search":
+        generatorRef.current = searchGenerator(root, op.value, type, comparisons, rotations, log);
+        break;
+      case "delete":
+        generatorRef.current = deleteGenerator(root, op.value, type, comparisons, rotations, log);
+        break;
+      case "traverse":
+        generatorRef.current = traversalGenerator(root, type, comparisons, rotations, log);
+        break;
+    }
+  }, []);
+
+  const runOperation = useCallback(
+    (op: TreeOperation) => {
       handlePause();
-      setIsComplete(false);
-      generatorRef.current = insertGenerator(
-        treeRootRef.current,
-        value,
-        treeTypeRef.current,
-        comparisonsRef.current,
-        rotationsRef.current,
-        logRef.current
-      );
+      startOperation(op);
+      const entry = encodeTreeOperation({ ...op, at: stepCountRef.current });
+      setOpLog((prev) => [...prev, entry]);
     },
-    [handlePause]
+    [handlePause, startOperation]
+  );
+
+  const handleInsert = useCallback(
+    (value: number) => runOperation({ kind: "insert", value, at: 0 }),
+    [runOperation]
   );
 
   const handleSearchOp = useCallback(
-    (value: number) => {
-      handlePause();
-      setIsComplete(false);
-      generatorRef.current = searchGenerator(
-        treeRootRef.current,
-        value,
-        treeTypeRef.current,
-        comparisonsRef.current,
-        rotationsRef.current,
-        logRef.current
-      );
-    },
-    [handlePause]
+    (value: number) => runOperation({ kind: "search", value, at: 0 }),
+    [runOperation]
   );
 
   const handleDeleteOp = useCallback(
-    (value: number) => {
-      handlePause();
-      setIsComplete(false);
-      generatorRef.current = deleteGenerator(
-        treeRootRef.current,
-        value,
-        treeTypeRef.current,
-        comparisonsRef.current,
-        rotationsRef.current,
-        logRef.current
-      );
-    },
-    [handlePause]
+    (value: number) => runOperation({ kind: "delete", value, at: 0 }),
+    [runOperation]
   );
 
-  const handleTraversal = useCallback(() => {
-    handlePause();
-    setIsComplete(false);
-    generatorRef.current = traversalGenerator(
-      treeRootRef.current,
-      treeTypeRef.current,
-      comparisonsRef.current,
-      rotationsRef.current,
-      logRef.current
-    );
-  }, [handlePause]);
+  const handleTraversal = useCallback(
+    () => runOperation({ kind: "traverse", value: 0, at: 0 }),
+    [runOperation]
+  );
 
   const handleRandomValue = useCallback(() => {
     const val = Math.floor(Math.random() * 99) + 1;
@@ -1327,39 +1382,71 @@ export default function TreesPage() {
   }, []);
 
   // ── Scenario handling ───────────────────────────────────────────────────────
+  const applyTreeType = useCallback((type: TreeType) => {
+    setTreeType(type);
+    treeTypeRef.current = type;
+  }, []);
+
   const handleScenarioChange = useCallback(
     (scenarioName: string) => {
-      handlePause();
       setActiveScenario(scenarioName);
       const scenario = SCENARIO_PRESETS.find((s) => s.name === scenarioName);
       if (scenario) {
-        setTreeType(scenario.treeType);
-        treeTypeRef.current = scenario.treeType;
-        generatorRef.current = null;
-        autoValueIndexRef.current = 0;
-        setIsComplete(false);
-        treeRootRef.current = null;
-        comparisonsRef.current = 0;
-        rotationsRef.current = 0;
-        logRef.current = [];
-        setTreeState(
-          buildTreeState(null, [], new Map(), 0, 0, [], "idle", scenario.treeType)
-        );
-        setAutoValues(scenario.values);
+        applyTreeType(scenario.treeType);
+        resetTree(scenario.treeType, scenario.values);
       }
     },
-    [handlePause]
+    [applyTreeType, resetTree]
   );
 
   // ── Tree type change ────────────────────────────────────────────────────────
   const handleTreeTypeChange = useCallback(
     (newType: TreeType) => {
-      setTreeType(newType);
-      treeTypeRef.current = newType;
+      applyTreeType(newType);
       setTreeTypeDropdownOpen(false);
-      handleReset();
+      setActiveScenario("");
+      resetTree(newType, []);
     },
-    [handleReset]
+    [applyTreeType, resetTree]
+  );
+
+  // ── Share links ─────────────────────────────────────────────────────────────
+  const shareState = useMemo<ShareState>(
+    () => ({
+      scenario: activeScenario || undefined,
+      speed,
+      step: stepCount,
+      params: { tree: treeType, ops: opLog },
+    }),
+    [activeScenario, speed, stepCount, treeType, opLog]
+  );
+
+  useShareState(
+    useCallback(
+      (state: ShareState) => {
+        const scenario = SCENARIO_PRESETS.find((s) => s.name === state.scenario);
+        if (scenario) {
+          handleScenarioChange(scenario.name);
+        } else {
+          const tree = readString(state.params, "tree");
+          const type = tree && tree in TREE_TYPE_INFO ? (tree as TreeType) : "bst";
+          applyTreeType(type);
+          resetTree(type, []);
+        }
+        if (state.speed) setSpeed(state.speed);
+
+        const ops = (readArray(state.params, "ops", isString) ?? [])
+          .map(decodeTreeOperation)
+          .filter((op): op is TreeOperation => op !== null);
+        const target = state.step ?? 0;
+        for (let frame = 0; frame <= target; frame++) {
+          ops.filter((op) => op.at === frame).forEach(startOperation);
+          if (frame < target && !stepForward()) break;
+        }
+        setOpLog(ops.map(encodeTreeOperation));
+      },
+      [handleScenarioChange, applyTreeType, resetTree, startOperation, stepForward]
+    )
   );
 
   // ── SVG viewport ────────────────────────────────────────────────────────────
@@ -1385,6 +1472,7 @@ export default function TreesPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ────────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1410,6 +1498,7 @@ export default function TreesPage() {
               Watch insertions, deletions, rotations, and recoloring unfold step
               by step. Compare how AVL and Red-Black trees maintain balance.
             </p>
+            <ModuleLinks moduleId="4.4" />
             <div className="flex items-center gap-2 mt-3">
               <span
                 className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium"
@@ -1686,6 +1775,7 @@ export default function TreesPage() {
                 </div>
               ) : (
                 <svg
+                  data-export="tree"
                   width="100%"
                   height={svgHeight}
                   viewBox={viewBox}
@@ -1768,6 +1858,7 @@ export default function TreesPage() {
           >
             <ModuleControls
               isPlaying={isPlaying}
+              completed={isComplete}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1776,6 +1867,8 @@ export default function TreesPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              shareState={shareState}
+              description={treeState.log[treeState.log.length - 1]}
             >
               {autoValues.length > 0 && (
                 <div
@@ -16,7 +16,10 @@ import {
   Info,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useStepHistory } from "@/hooks/useStepHistory";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ============================================================================
 // Types
@@ -45,6 +48,15 @@ interface AnimationStep {
   metrics: TreeMetrics;
 }
 
+function createEmptyStep(): AnimationStep {
+  return {
+    tree: null,
+    highlights: {},
+    message: "B-Tree is empty. Insert a key to begin.",
+    metrics: { nodeCount: 0, height: 0, totalKeys: 0, splits: 0, merges: 0 },
+  };
+}
+
 interface TreeMetrics {
   nodeCount: number;
   height: number;
@@ -832,16 +844,13 @@ export default function BTreesPage() {
   const [order, setOrder] = useState<TreeOrder>(3);
   const [mode, setMode] = useState<OperationMode>("insert");
   const [inputValue, setInputValue] = useState("");
-  const [tree, setTree] = useState<BTreeNode | null>(null);
-  const [highlights, setHighlights] = useState<HighlightMap>({});
-  const [statusMessage, setStatusMessage] = useState("B-Tree is empty. Insert a key to begin.");
-  const [metrics, setMetrics] = useState<TreeMetrics>({
-    nodeCount: 0, height: 0, totalKeys: 0, splits: 0, merges: 0,
-  });
+  const timeline = useStepHistory<AnimationStep>(createEmptyStep);
+  const { tree, highlights, message: statusMessage, metrics } = timeline.current;
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
   const [showMetrics, setShowMetrics] = useState(true);
   const [activeScenario, setActiveScenario] = useState<ScenarioId | "">("");
+  const [isComplete, setIsComplete] = useState(false);
   const [canvasWidth, setCanvasWidth] = useState(900);
 
   // ── Refs ────────────────────────────────────────────────────────────────────
@@ -855,11 +864,13 @@ export default function BTreesPage() {
   const metricsRef = useRef<TreeMetrics>(metrics);
   const svgContainerRef = useRef<HTMLDivElement>(null);
   const scenarioQueueRef = useRef<{ ops: Array<{ type: OperationMode; key: number }>; index: number } | null>(null);
+  const timelineRef = useRef(timeline);
 
   useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
   useEffect(() => { speedRef.current = speed; }, [speed]);
   useEffect(() => { treeRef.current = tree; }, [tree]);
   useEffect(() => { metricsRef.current = metrics; }, [metrics]);
+  useEffect(() => { timelineRef.current = timeline; }, [timeline]);
 
   // Measure container width
   useEffect(() => {
@@ -874,14 +885,22 @@ export default function BTreesPage() {
   }, []);
 
   // ── Step logic ─────────────────────────────────────────────────────────────
+  const showStep = useCallback((step: AnimationStep) => {
+    timelineRef.current.record({ ...step, tree: step.tree ? cloneTree(step.tree) : null });
+    setIsComplete(false);
+  }, []);
+
   const stepForward = useCallback(() => {
+    // Replay recorded frames first when the user has stepped back
+    if (!timelineRef.current.atEnd) {
+      timelineRef.current.forward();
+      return true;
+    }
+
     // If we have queued steps, consume one
     if (stepsQueueRef.current.length > 0) {
       const step = stepsQueueRef.current.shift()!;
-      setTree(step.tree ? cloneTree(step.tree) : null);
-      setHighlights(step.highlights);
-      setStatusMessage(step.message);
-      setMetrics(step.metrics);
+      showStep(step);
       return true;
     }
 
@@ -890,10 +909,7 @@ export default function BTreesPage() {
       const result = generatorRef.current.next();
       if (!result.done) {
         const step = result.value;
-        setTree(step.tree ? cloneTree(step.tree) : null);
-        setHighlights(step.highlights);
-        setStatusMessage(step.message);
-        setMetrics(step.metrics);
+        showStep(step);
         return true;
       }
       generatorRef.current = null;
@@ -915,10 +931,7 @@ export default function BTreesPage() {
       const result = generatorRef.current.next();
       if (!result.done) {
         const step = result.value;
-        setTree(step.tree ? cloneTree(step.tree) : null);
-        setHighlights(step.highlights);
-        setStatusMessage(step.message);
-        setMetrics(step.metrics);
+        showStep(step);
         return true;
       }
       generatorRef.current = null;
@@ -927,8 +940,9 @@ export default function BTreesPage() {
 
     // Nothing left to do
     setIsPlaying(false);
+    setIsComplete(timelineRef.current.length > 1);
     return false;
-  }, [order]);
+  }, [order, showStep]);
 
   // ── Animation loop ─────────────────────────────────────────────────────────
   const animationLoop = useCallback(
@@ -966,18 +980,29 @@ export default function BTreesPage() {
     stepForward();
   }, [handlePause, stepForward]);
 
+  const handleStepBack = useCallback(() => {
+    handlePause();
+    timeline.back();
+  }, [handlePause, timeline]);
+
+  const handleSeek = useCallback(
+    (position: number) => {
+      handlePause();
+      timeline.seek(position);
+    },
+    [handlePause, timeline]
+  );
+
   const handleReset = useCallback(() => {
     handlePause();
     nodeIdCounter = 0;
-    setTree(null);
-    setHighlights({});
-    setStatusMessage("B-Tree is empty. Insert a key to begin.");
-    setMetrics({ nodeCount: 0, height: 0, totalKeys: 0, splits: 0, merges: 0 });
+    timeline.reset(createEmptyStep());
     generatorRef.current = null;
     stepsQueueRef.current = [];
     scenarioQueueRef.current = null;
     setActiveScenario("");
-  }, [handlePause]);
+    setIsComplete(false);
+  }, [handlePause, timeline]);
 
   // Cleanup
   useEffect(() => {
@@ -1054,6 +1079,11 @@ export default function BTreesPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [order]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenario
+  );
+
   // ── Layout computation ─────────────────────────────────────────────────────
   const { positions, edges } = computeLayout(tree, canvasWidth);
   const treeHeight = tree ? getHeight(tree) : 0;
@@ -1077,6 +1107,7 @@ export default function BTreesPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ──────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -1103,6 +1134,7 @@ export default function BTreesPage() {
               propagate upward during insertion and nodes consolidate during deletion, keeping
               the tree height-balanced for efficient disk-based access.
             </p>
+            <ModuleLinks moduleId="4.5" />
           </motion.div>
 
           {/* ── Tree Order Selector + Mode ──────────────────────────── */}
@@ -1252,6 +1284,7 @@ export default function BTreesPage() {
             {/* SVG Canvas */}
             <div ref={svgContainerRef} className="w-full overflow-x-auto" style={{ minHeight: "250px" }}>
               <svg
+                data-export="btree"
                 width={canvasWidth}
                 height={svgHeight}
                 viewBox={`0 0 ${canvasWidth} ${svgHeight}`}
@@ -1334,15 +1367,25 @@ export default function BTreesPage() {
             transition={{ duration: 0.5, delay: 0.3 }}
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={isComplete}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
+              onStepBack={handleStepBack}
+              canStepBack={timeline.position > 0}
               onReset={handleReset}
               speed={speed}
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              timeline={{
+                position: timeline.position,
+                length: timeline.length,
+                onSeek: handleSeek,
+              }}
+              description={statusMessage}
             />
           </motion.div>
 
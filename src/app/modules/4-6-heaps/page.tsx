@@ -7,6 +7,13 @@ import {
   Plus, Minus, Info, Layers
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface HeapNode {
   value: number;
@@ -34,6 +41,7 @@ export default function HeapsPage() {
   const [inputValue, setInputValue] = useState('');
   const [animatingIndex, setAnimatingIndex] = useState<number | null>(null);
   const [swapPair, setSwapPair] = useState<[number, number] | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
   const animRef = useRef<NodeJS.Timeout | null>(null);
 
   const compare = useCallback((a: number, b: number) => {
@@ -124,11 +132,25 @@ export default function HeapsPage() {
     setLog(newLogs);
   }, [bubbleUp]);
 
+  useScenarioParam(PRESETS.map(p => p.name), name => {
+    const preset = PRESETS.find(p => p.name === name);
+    if (preset) handleLoadPreset(preset.values);
+  });
+
+  useModuleCompletion(log.some(entry => entry.type === 'extract'));
+
   const handleReset = () => {
     setHeap([]);
     setLog([{ text: 'Heap cleared.', type: 'info' }]);
   };
 
+  // Each step extracts the root, the operation the heap exists for.
+  useSimulatorShortcuts({
+    step: heap.length > 0 ? handleExtract : undefined,
+    reset: handleReset,
+    help: () => setHelpOpen(true),
+  });
+
   // Tree layout calculation
   const getNodePosition = (index: number, totalLevels: number) => {
     const level = Math.floor(Math.log2(index + 1));
@@ -148,7 +170,7 @@ export default function HeapsPage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <Layers className="w-5 h-5 text-emerald-400" />
@@ -156,6 +178,7 @@ export default function HeapsPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Heaps & Priority Queues</h1>
               <p className="text-sm text-gray-400">Module 4.6 — Binary heap with bubble-up/down animation</p>
+              <ModuleLinks moduleId="4.6" />
             </div>
           </div>
         </div>
@@ -200,14 +223,20 @@ export default function HeapsPage() {
               className="px-3 py-1.5 rounded bg-emerald-500/20 text-emerald-400 text-xs hover:bg-emerald-500/30 flex items-center gap-1">
               <Plus className="w-3 h-3" /> Insert
             </button>
-            <button onClick={handleExtract}
+            <button onClick={handleExtract} aria-keyshortcuts={ariaKeys('step')}
               className="px-3 py-1.5 rounded bg-red-500/20 text-red-400 text-xs hover:bg-red-500/30 flex items-center gap-1">
               <Minus className="w-3 h-3" /> Extract {heapType}
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-keyshortcuts={ariaKeys('reset')}
               className="px-3 py-1.5 rounded bg-[#1e1e2e] text-gray-400 text-xs hover:text-white flex items-center gap-1">
               <RotateCcw className="w-3 h-3" /> Clear
             </button>
+            <StepAnnouncer text={log[log.length - 1]?.text} />
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['step', 'reset', 'help']}
+            />
           </div>
         </div>
 
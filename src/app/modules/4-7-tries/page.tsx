@@ -6,6 +6,13 @@ import {
   Plus, Search, Trash2, RotateCcw, Info, Type
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface TrieNode {
   children: Map<string, TrieNode>;
@@ -130,6 +137,7 @@ export default function TriesPage() {
   const [searchResult, setSearchResult] = useState<{ found: boolean; path: string[]; completions: string[] } | null>(null);
   const [highlightPath, setHighlightPath] = useState<Set<string>>(new Set());
   const [version, setVersion] = useState(0);
+  const [helpOpen, setHelpOpen] = useState(false);
 
   const handleInsert = useCallback((word: string) => {
     if (!word.trim()) return;
@@ -183,6 +191,13 @@ export default function TriesPage() {
     setVersion(v => v + 1);
   }, []);
 
+  useScenarioParam(WORD_SETS.map(ws => ws.name), name => {
+    const set = WORD_SETS.find(ws => ws.name === name);
+    if (set) handleLoadPreset(set.words);
+  });
+
+  useModuleCompletion(searchResult !== null && searchResult.completions.length > 0);
+
   const handleReset = () => {
     setTrie(createTrieNode());
     setWords([]);
@@ -192,6 +207,11 @@ export default function TriesPage() {
     setVersion(v => v + 1);
   };
 
+  useSimulatorShortcuts({
+    reset: handleReset,
+    help: () => setHelpOpen(true),
+  });
+
   const { nodes, edges } = trieToVisualNodes(trie, highlightPath);
   const svgHeight = Math.max(150, (nodes.length > 0 ? Math.max(...nodes.map(n => n.y)) + 60 : 150));
 
@@ -200,7 +220,7 @@ export default function TriesPage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <Type className="w-5 h-5 text-emerald-400" />
@@ -208,6 +228,7 @@ export default function TriesPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Tries & Suffix Trees</h1>
               <p className="text-sm text-gray-400">Module 4.7 — Prefix tree construction and search</p>
+              <ModuleLinks moduleId="4.7" />
             </div>
           </div>
         </div>
@@ -237,10 +258,15 @@ export default function TriesPage() {
               className="px-3 py-1.5 rounded bg-emerald-500/20 text-emerald-400 text-xs hover:bg-emerald-500/30 flex items-center gap-1">
               <Plus className="w-3 h-3" /> Insert
             </button>
-            <button onClick={handleReset}
+            <button onClick={handleReset} aria-keyshortcuts={ariaKeys('reset')}
               className="px-3 py-1.5 rounded bg-[#1e1e2e] text-gray-400 text-xs hover:text-white flex items-center gap-1">
               <RotateCcw className="w-3 h-3" /> Clear
             </button>
+            <ShortcutHelp
+              open={helpOpen}
+              onClose={() => setHelpOpen(false)}
+              actions={['reset', 'help']}
+            />
           </div>
         </div>
 
@@ -261,6 +287,13 @@ export default function TriesPage() {
               {searchResult.found ? `${searchResult.completions.length} matches` : 'Not found'}
             </span>
           )}
+          <StepAnnouncer
+            text={searchResult
+              ? searchResult.found
+                ? `${searchResult.completions.length} matches for "${searchValue}": ${searchResult.completions.join(', ')}`
+                : `No words start with "${searchValue}"`
+              : undefined}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
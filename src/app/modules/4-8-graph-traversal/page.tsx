@@ -1,11 +1,22 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import {
-  Play, Pause, RotateCcw, ChevronRight, Info, GitBranch
+  Play, Pause, RotateCcw, ChevronLeft, ChevronRight, Info, GitBranch
 } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
+import ModuleLinks from '@/components/ui/ModuleLinks';
+import TimelineScrubber from '@/components/ui/TimelineScrubber';
+import QuizPanel from '@/components/ui/QuizPanel';
+import ShortcutHelp from '@/components/ui/ShortcutHelp';
+import StepAnnouncer from '@/components/ui/StepAnnouncer';
+import { useModuleCompletion } from '@/hooks/useModuleCompletion';
+import { useQuiz } from '@/hooks/useQuiz';
+import { useSimulatorShortcuts } from '@/hooks/useSimulatorShortcuts';
+import { useScenarioParam } from '@/hooks/useShareState';
+import { choicesFrom, type QuizRule } from '@/lib/quiz';
+import { ariaKeys } from '@/lib/shortcuts';
 
 interface GraphNode {
   id: number;
@@ -171,6 +182,51 @@ function generateDFS(nodes: GraphNode[], edges: GraphEdge[], start: number): Tra
 
 type Algorithm = 'bfs' | 'dfs';
 
+interface TraversalQuizState {
+  algorithm: Algorithm;
+  nodes: GraphNode[];
+  current: TraversalStep | null;
+  next: TraversalStep | undefined;
+}
+
+// BFS: asked when the node being expanded runs out of neighbours and the
+// next one comes off the queue. DFS: asked before every visit.
+const traversalQuiz: QuizRule<TraversalQuizState> = ({ algorithm, nodes, current, next }) => {
+  if (!current || !next) return null;
+  const label = (id: number | string) => nodes[Number(id)].label;
+
+  if (algorithm === 'bfs') {
+    const expanding = current.edge?.from ?? current.visiting;
+    if (!next.edge || next.edge.from === expanding || current.frontier.length < 2) return null;
+    const head = current.frontier[0];
+    const skipped = head === next.edge.from
+      ? ''
+      : ` Its neighbours are all visited already, so the queue keeps draining until ${label(next.edge.from)}.`;
+    return {
+      prompt: `${label(expanding)} has no unvisited neighbours left. Which node is dequeued next?`,
+      choices: choicesFrom(current.frontier, label),
+      outcome: {
+        answer: String(head),
+        explanation: `The queue is FIFO and ${label(head)} has waited longest.${skipped}`,
+      },
+    };
+  }
+
+  if (current.visited.length === 0) return null;
+  const unvisited = nodes.filter(n => !current.visited.includes(n.id)).map(n => n.id);
+  if (unvisited.length < 2) return null;
+  return {
+    prompt: `Which node does DFS visit after ${label(current.visiting)}?`,
+    choices: choicesFrom(unvisited, label),
+    outcome: {
+      answer: String(next.visiting),
+      explanation: `The stack pops the most recently pushed unvisited node, ${label(next.visiting)}.`,
+    },
+  };
+};
+
+const SPEEDS = [0.5, 1, 2];
+
 export default function GraphTraversalPage() {
   const [preset, setPreset] = useState<GraphPreset>(PRESETS[0]);
   const [algorithm, setAlgorithm] = useState<Algorithm>('bfs');
@@ -179,6 +235,7 @@ export default function GraphTraversalPage() {
   const [currentStep, setCurrentStep] = useState(-1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [helpOpen, setHelpOpen] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   const generateSteps = useCallback(() => {
@@ -194,16 +251,33 @@ export default function GraphTraversalPage() {
     generateSteps();
   }, [generateSteps]);
 
+  useScenarioParam(PRESETS.map(p => p.id), id => {
+    const match = PRESETS.find(p => p.id === id);
+    if (match) { setPreset(match); setStartNode(0); }
+  });
+
+  useModuleCompletion(steps.length > 0 && currentStep >= steps.length - 1, preset.id);
+
+  const quizState = useMemo<TraversalQuizState>(() => ({
+    algorithm,
+    nodes: preset.nodes,
+    current: currentStep >= 0 ? steps[currentStep] : null,
+    next: steps[currentStep + 1],
+  }), [algorithm, preset.nodes, steps, currentStep]);
+  const pause = useCallback(() => setIsPlaying(false), []);
+  const quiz = useQuiz(traversalQuiz, quizState, { isPlaying, pause });
+  const { gate } = quiz;
+
   useEffect(() => {
     if (isPlaying && currentStep < steps.length - 1) {
       timerRef.current = setTimeout(() => {
-        setCurrentStep(s => s + 1);
+        gate(() => setCurrentStep(s => s + 1));
       }, 1000 / speed);
     } else if (currentStep >= steps.length - 1) {
       setIsPlaying(false);
     }
     return () => { if (timerRef.current) clearTimeout(timerRef.current); };
-  }, [isPlaying, currentStep, speed, steps.length]);
+  }, [isPlaying, currentStep, speed, steps.length, gate]);
 
   const handlePlayPause = () => {
     if (currentStep >= steps.length - 1) {
@@ -214,6 +288,20 @@ export default function GraphTraversalPage() {
     setIsPlaying(!isPlaying);
   };
 
+  const stepBack = () => { setIsPlaying(false); setCurrentStep(s => Math.max(-1, s - 1)); };
+  const stepForward = () => { setIsPlaying(false); if (currentStep < steps.length - 1) gate(() => setCurrentStep(s => s + 1)); };
+  const reset = () => { setIsPlaying(false); setCurrentStep(-1); };
+
+  useSimulatorShortcuts({
+    playPause: handlePlayPause,
+    step: stepForward,
+    stepBack: currentStep >= 0 ? stepBack : undefined,
+    reset,
+    faster: () => setSpeed(SPEEDS[Math.min(SPEEDS.length - 1, SPEEDS.indexOf(speed) + 1)]),
+    slower: () => setSpeed(SPEEDS[Math.max(0, SPEEDS.indexOf(speed) - 1)]),
+    help: () => setHelpOpen(true),
+  });
+
   const step = currentStep >= 0 ? steps[currentStep] : null;
   const visitedSet = step ? new Set(step.visited) : new Set<number>();
   const frontierSet = step ? new Set(step.frontier) : new Set<number>();
@@ -232,7 +320,7 @@ export default function GraphTraversalPage() {
       <Navbar />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div data-module-header className="mb-8">
           <div className="flex items-center gap-3 mb-2">
             <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
               <GitBranch className="w-5 h-5 text-emerald-400" />
@@ -240,6 +328,7 @@ export default function GraphTraversalPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Graphs: BFS & DFS</h1>
               <p className="text-sm text-gray-400">Module 4.8 — Node-by-node traversal with frontier/visited coloring</p>
+              <ModuleLinks moduleId="4.8" />
             </div>
           </div>
         </div>
@@ -278,29 +367,46 @@ export default function GraphTraversalPage() {
         {/* Controls */}
         <div className="flex items-center gap-4 mb-6 p-4 bg-[#111118] rounded-lg border border-[#1e1e2e]">
           <button onClick={handlePlayPause}
+            aria-label={isPlaying ? 'Pause' : 'Play'} aria-keyshortcuts={ariaKeys('playPause')}
             className="w-10 h-10 rounded-lg bg-emerald-500/20 text-emerald-400 flex items-center justify-center hover:bg-emerald-500/30">
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </button>
-          <button onClick={() => { setIsPlaying(false); if (currentStep < steps.length - 1) setCurrentStep(s => s + 1); }}
+          <button onClick={stepBack}
+            disabled={currentStep < 0} aria-keyshortcuts={ariaKeys('stepBack')}
+            className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1 disabled:opacity-40">
+            <ChevronLeft className="w-4 h-4" /> Back
+          </button>
+          <button onClick={stepForward} aria-keyshortcuts={ariaKeys('step')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <ChevronRight className="w-4 h-4" /> Step
           </button>
-          <button onClick={() => { setIsPlaying(false); setCurrentStep(-1); }}
+          <button onClick={reset} aria-keyshortcuts={ariaKeys('reset')}
             className="px-3 py-2 rounded-lg bg-[#1e1e2e] text-gray-300 text-sm hover:text-white flex items-center gap-1">
             <RotateCcw className="w-4 h-4" /> Reset
           </button>
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-xs text-gray-500">Speed:</span>
-            {[0.5, 1, 2].map(s => (
-              <button key={s} onClick={() => setSpeed(s)}
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s}
                 className={`px-2 py-1 rounded text-xs ${speed === s ? 'bg-emerald-500/20 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}>
                 {s}x
               </button>
             ))}
           </div>
-          <div className="text-xs text-gray-500">
-            Step {currentStep + 1} / {steps.length}
+          <div className="w-64">
+            <TimelineScrubber
+              position={currentStep + 1}
+              length={steps.length + 1}
+              onSeek={(p) => { setIsPlaying(false); setCurrentStep(p - 1); }}
+              color="#10b981"
+            />
           </div>
+          <StepAnnouncer text={step?.description} />
+          <ShortcutHelp
+            open={helpOpen}
+            onClose={() => setHelpOpen(false)}
+            actions={['playPause', 'step', 'stepBack', 'reset', 'faster', 'slower', 'help']}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -422,6 +528,14 @@ export default function GraphTraversalPage() {
 
           {/* Right Panel */}
           <div className="space-y-4">
+            <QuizPanel
+              quiz={quiz}
+              onContinue={() => setIsPlaying(true)}
+              hint={algorithm === 'bfs'
+                ? 'Pause before each dequeue and guess which node leaves the queue.'
+                : 'Pause before each visit and guess which node DFS pops next.'}
+            />
+
             {/* Data Structure State */}
             <div className="bg-[#111118] rounded-lg border border-[#1e1e2e] p-4">
               <h3 className="text-sm font-medium text-white mb-3">
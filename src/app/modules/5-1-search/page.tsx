@@ -18,7 +18,9 @@ import {
   BarChart3,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ============================================================================
 // Types
@@ -635,6 +637,11 @@ export default function SearchPage() {
     [arraySize, regenerateArray, startSearch]
   );
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenario
+  );
+
   // ── Determine compact mode ─────────────────────────────────────────────────
   const compact = arraySize > 25;
 
@@ -669,6 +676,7 @@ export default function SearchPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ──────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -695,6 +703,7 @@ export default function SearchPage() {
               how binary search eliminates half the remaining elements each step, dramatically
               reducing comparisons compared to linear scanning.
             </p>
+            <ModuleLinks moduleId="5.1" />
           </motion.div>
 
           {/* ── Scenario Presets ─────────────────────────────────────── */}
@@ -991,7 +1000,9 @@ export default function SearchPage() {
             transition={{ duration: 0.5, delay: 0.3 }}
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={linearDone && binaryDone}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1000,6 +1011,7 @@ export default function SearchPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={`Linear search: ${linearMessage} Binary search: ${binaryMessage}`}
             />
           </motion.div>
 
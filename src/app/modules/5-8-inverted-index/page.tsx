@@ -19,7 +19,10 @@ import {
   Check,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
+import { useStepHistory } from "@/hooks/useStepHistory";
 
 // ============================================================================
 // Types
@@ -64,6 +67,16 @@ interface AnimationStep {
   queryType?: "AND" | "OR";
 }
 
+function createEmptyStep(): AnimationStep {
+  return {
+    phase: "documents",
+    message: "Select a preset to begin the indexing pipeline.",
+    indexEntries: [],
+    processedTokens: [],
+    currentDocTokens: [],
+  };
+}
+
 type ScenarioId = "simple" | "technical" | "single-query" | "boolean-query";
 
 interface Scenario {
@@ -681,19 +694,22 @@ function PhaseIndicator({ currentPhase }: { currentPhase: Phase }) {
 export default function InvertedIndexPage() {
   // ── State ──────────────────────────────────────────────────────────────────
   const [documents, setDocuments] = useState<Document[]>(SIMPLE_DOCS);
-  const [currentPhase, setCurrentPhase] = useState<Phase>("documents");
-  const [statusMessage, setStatusMessage] = useState("Select a preset to begin the indexing pipeline.");
-  const [activeDocId, setActiveDocId] = useState<number | undefined>();
-  const [activeToken, setActiveToken] = useState<Token | undefined>();
-  const [processingStage, setProcessingStage] = useState<string | undefined>();
-  const [indexEntries, setIndexEntries] = useState<PostingEntry[]>([]);
-  const [highlightTerm, setHighlightTerm] = useState<string | undefined>();
-  const [highlightDocs, setHighlightDocs] = useState<number[] | undefined>();
-  const [processedTokens, setProcessedTokens] = useState<Token[]>([]);
-  const [currentDocTokens, setCurrentDocTokens] = useState<Token[]>([]);
-  const [queryTerms, setQueryTerms] = useState<string[] | undefined>();
-  const [queryResults, setQueryResults] = useState<number[] | undefined>();
-  const [queryType, setQueryType] = useState<"AND" | "OR" | undefined>();
+  const timeline = useStepHistory<AnimationStep>(createEmptyStep);
+  const {
+    phase: currentPhase,
+    message: statusMessage,
+    activeDocId,
+    activeToken,
+    processingStage,
+    indexEntries,
+    highlightTerm,
+    highlightDocs,
+    processedTokens,
+    currentDocTokens,
+    queryTerms,
+    queryResults,
+    queryType,
+  } = timeline.current;
   const [queryInput, setQueryInput] = useState("");
   const [queryModeInput, setQueryModeInput] = useState<"AND" | "OR">("AND");
 
@@ -701,6 +717,7 @@ export default function InvertedIndexPage() {
   const [speed, setSpeed] = useState(1);
   const [showMetrics, setShowMetrics] = useState(true);
   const [activeScenario, setActiveScenario] = useState<ScenarioId | "">("");
+  const [isComplete, setIsComplete] = useState(false);
 
   // Metrics
   const docsProcessed = new Set(processedTokens.map((t) => t.docId)).size;
@@ -714,38 +731,31 @@ export default function InvertedIndexPage() {
   const animationRef = useRef<number | null>(null);
   const lastTickRef = useRef(0);
   const generatorRef = useRef<ReturnType<typeof pipelineGenerator> | null>(null);
+  const timelineRef = useRef(timeline);
 
   useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
   useEffect(() => { speedRef.current = speed; }, [speed]);
+  useEffect(() => { timelineRef.current = timeline; }, [timeline]);
 
   // ── Step logic ─────────────────────────────────────────────────────────────
-  const applyStep = useCallback((step: AnimationStep) => {
-    setCurrentPhase(step.phase);
-    setStatusMessage(step.message);
-    setActiveDocId(step.activeDocId);
-    setActiveToken(step.activeToken);
-    setProcessingStage(step.processingStage);
-    setIndexEntries(step.indexEntries);
-    setHighlightTerm(step.highlightTerm);
-    setHighlightDocs(step.highlightDocs);
-    setProcessedTokens(step.processedTokens);
-    setCurrentDocTokens(step.currentDocTokens);
-    setQueryTerms(step.queryTerms);
-    setQueryResults(step.queryResults);
-    setQueryType(step.queryType);
-  }, []);
-
   const stepForward = useCallback(() => {
+    // Replay recorded frames first when the user has stepped back
+    if (!timelineRef.current.atEnd) {
+      timelineRef.current.forward();
+      return true;
+    }
+
     if (!generatorRef.current) return false;
     const result = generatorRef.current.next();
     if (result.done) {
       generatorRef.current = null;
       setIsPlaying(false);
+      setIsComplete(true);
       return false;
     }
-    applyStep(result.value);
+    timelineRef.current.record(result.value);
     return true;
-  }, [applyStep]);
+  }, []);
 
   // ── Animation loop ─────────────────────────────────────────────────────────
   const animationLoop = useCallback(
@@ -763,7 +773,7 @@ export default function InvertedIndexPage() {
   );
 
   const handlePlay = useCallback(() => {
-    if (!generatorRef.current) return;
+    if (!generatorRef.current && timelineRef.current.atEnd) return;
     setIsPlaying(true);
     isPlayingRef.current = true;
     lastTickRef.current = 0;
@@ -784,24 +794,26 @@ export default function InvertedIndexPage() {
     stepForward();
   }, [handlePause, stepForward]);
 
+  const handleStepBack = useCallback(() => {
+    handlePause();
+    timeline.back();
+  }, [handlePause, timeline]);
+
+  const handleSeek = useCallback(
+    (position: number) => {
+      handlePause();
+      timeline.seek(position);
+    },
+    [handlePause, timeline]
+  );
+
   const handleReset = useCallback(() => {
     handlePause();
     generatorRef.current = null;
-    setCurrentPhase("documents");
-    setStatusMessage("Select a preset to begin the indexing pipeline.");
-    setActiveDocId(undefined);
-    setActiveToken(undefined);
-    setProcessingStage(undefined);
-    setIndexEntries([]);
-    setHighlightTerm(undefined);
-    setHighlightDocs(undefined);
-    setProcessedTokens([]);
-    setCurrentDocTokens([]);
-    setQueryTerms(undefined);
-    setQueryResults(undefined);
-    setQueryType(undefined);
+    timeline.reset(createEmptyStep());
     setActiveScenario("");
-  }, [handlePause]);
+    setIsComplete(false);
+  }, [handlePause, timeline]);
 
   // Cleanup
   useEffect(() => {
@@ -851,6 +863,11 @@ export default function InvertedIndexPage() {
     [handleReset]
   );
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenario
+  );
+
   // ── Manual query ───────────────────────────────────────────────────────────
   const handleManualQuery = useCallback(() => {
     if (!queryInput.trim()) return;
@@ -885,16 +902,17 @@ export default function InvertedIndexPage() {
       resultDocs = Array.from(unionSet).sort((a, b) => a - b);
     }
 
-    setCurrentPhase("query");
-    setIndexEntries(fullIndex);
-    setProcessedTokens(allTokens);
-    setQueryTerms(terms);
-    setQueryType(queryModeInput);
-    setQueryResults(resultDocs);
-    setHighlightDocs(resultDocs);
-    setStatusMessage(
-      `${queryModeInput} query [${terms.join(", ")}]: ${resultDocs.length > 0 ? `docs [${resultDocs.join(", ")}]` : "no matches"}`
-    );
+    timelineRef.current.record({
+      ...timelineRef.current.current,
+      phase: "query",
+      indexEntries: fullIndex,
+      processedTokens: allTokens,
+      queryTerms: terms,
+      queryType: queryModeInput,
+      queryResults: resultDocs,
+      highlightDocs: resultDocs,
+      message: `${queryModeInput} query [${terms.join(", ")}]: ${resultDocs.length > 0 ? `docs [${resultDocs.join(", ")}]` : "no matches"}`,
+    });
   }, [queryInput, queryModeInput, documents, handlePause]);
 
   // ── Render ─────────────────────────────────────────────────────────────────
@@ -906,6 +924,7 @@ export default function InvertedIndexPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ──────────────────────────────────────────────── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: [0.23, 1, 0.32, 1] }}
@@ -932,6 +951,7 @@ export default function InvertedIndexPage() {
               full pipeline from tokenization through index construction to query evaluation
               with boolean operators.
             </p>
+            <ModuleLinks moduleId="5.8" />
           </motion.div>
 
           {/* ── Scenario Presets ─────────────────────────────────────── */}
@@ -1246,15 +1266,25 @@ export default function InvertedIndexPage() {
             transition={{ duration: 0.5, delay: 0.3 }}
           >
             <ModuleControls
+              shareState={{ scenario: activeScenario }}
               isPlaying={isPlaying}
+              completed={isComplete}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
+              onStepBack={handleStepBack}
+              canStepBack={timeline.position > 0}
               onReset={handleReset}
               speed={speed}
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              timeline={{
+                position: timeline.position,
+                length: timeline.length,
+                onSeek: handleSeek,
+              }}
+              description={statusMessage}
             />
           </motion.div>
 
@@ -16,7 +16,9 @@ import {
   BarChart3,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -526,6 +528,11 @@ export default function StorageEnginePage() {
     [handleReset, addEvent]
   );
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenarioSelect
+  );
+
   /* ─── Metrics ─── */
   const metrics = useMemo(() => {
     const totalRowIO = sim.rowPagesRead;
@@ -554,7 +561,7 @@ export default function StorageEnginePage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -582,6 +589,7 @@ export default function StorageEnginePage() {
             <p className="mt-1.5 text-[#a1a1aa] text-sm sm:text-base max-w-2xl">
               Compare row-oriented vs column-oriented storage, page layout, I/O cost, and buffer pool caching
             </p>
+            <ModuleLinks moduleId="6.1" />
           </motion.div>
         </div>
 
@@ -637,7 +645,9 @@ export default function StorageEnginePage() {
         {/* ── Controls bar ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={sim.phase === "complete"}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -646,6 +656,7 @@ export default function StorageEnginePage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics(!showMetrics)}
+            description={events[events.length - 1]?.message}
           />
         </div>
 
@@ -15,7 +15,9 @@ import {
   Info,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 // ============================================================================
 // B+ Tree Data Structure
@@ -573,6 +575,7 @@ interface AnimStep {
 export default function BPlusTreePage() {
   const [order, setOrder] = useState(4);
   const [tree, setTree] = useState<BPlusTree>(() => new BPlusTree(4));
+  const [activePreset, setActivePreset] = useState<"empty" | "small" | "large">("empty");
   const [layouts, setLayouts] = useState<Map<string, NodeLayout>>(new Map());
 
   const [insertValue, setInsertValue] = useState("");
@@ -992,6 +995,7 @@ export default function BPlusTreePage() {
   const handlePreset = useCallback(
     (preset: "empty" | "small" | "large") => {
       nodeIdCounter = 0;
+      setActivePreset(preset);
       const newTree = new BPlusTree(order);
       let keys: number[] = [];
 
@@ -1018,6 +1022,8 @@ export default function BPlusTreePage() {
     [order, clearHighlights]
   );
 
+  useScenarioParam(["empty", "small", "large"] as const, handlePreset);
+
   const handleOrderChange = useCallback(
     (newOrder: number) => {
       setOrder(newOrder);
@@ -1421,7 +1427,7 @@ export default function BPlusTreePage() {
       <div className="pt-14">
         <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Header */}
-          <div className="mb-6">
+          <div data-module-header className="mb-6">
             <div className="flex items-center gap-3 mb-2">
               <span className="px-2 py-0.5 rounded-md bg-[#6366f1]/10 border border-[#6366f1]/20 text-[#6366f1] text-xs font-mono font-medium">
                 6.2
@@ -1435,12 +1441,15 @@ export default function BPlusTreePage() {
               Visualize how database indexes work with animated node splits, merges,
               and linked-list traversals.
             </p>
+            <ModuleLinks moduleId="6.2" />
           </div>
 
           {/* Controls Bar */}
           <div className="mb-4">
             <ModuleControls
+              shareState={{ scenario: activePreset }}
               isPlaying={isPlaying}
+              completed={animSteps.length > 0 && currentStepIdx >= animSteps.length - 1}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1449,6 +1458,7 @@ export default function BPlusTreePage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics((v) => !v)}
+              description={statusMessage}
             >
               {/* Order selector */}
               <div className="flex items-center gap-2">
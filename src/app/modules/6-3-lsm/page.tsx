@@ -20,7 +20,9 @@ import {
   XCircle,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -544,6 +546,11 @@ export default function LSMTreePage() {
     setActiveScenario(id);
   }, [handleReset]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenarioSelect
+  );
+
   /* ─── Manual operations ─── */
   const handleManualWrite = useCallback(() => {
     if (!inputKey.trim()) return;
@@ -601,7 +608,7 @@ export default function LSMTreePage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -629,6 +636,7 @@ export default function LSMTreePage() {
             <p className="mt-1.5 text-[#a1a1aa] text-sm sm:text-base max-w-2xl">
               Log-Structured Merge Trees: memtable writes, SSTable flushes, compaction, bloom filters, and read/write amplification
             </p>
+            <ModuleLinks moduleId="6.3" />
           </motion.div>
         </div>
 
@@ -655,7 +663,9 @@ export default function LSMTreePage() {
         {/* ── Controls ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={sim.phase === "complete"}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -664,6 +674,7 @@ export default function LSMTreePage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics(!showMetrics)}
+            description={events[events.length - 1]?.message}
           />
         </div>
 
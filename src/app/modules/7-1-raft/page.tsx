@@ -16,7 +16,20 @@ import {
   Network,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import QuizPanel from "@/components/ui/QuizPanel";
+import { useQuiz } from "@/hooks/useQuiz";
+import { useShareState } from "@/hooks/useShareState";
+import { choicesFrom, type QuizRule } from "@/lib/quiz";
+import {
+  isNumber,
+  isString,
+  readArray,
+  readNumber,
+  type ShareParams,
+  type ShareState,
+} from "@/lib/share-state";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -91,6 +104,9 @@ const BASE_ELECTION_TIMEOUT_MIN = 8;
 const BASE_ELECTION_TIMEOUT_MAX = 16;
 const BASE_HEARTBEAT_INTERVAL = 3;
 const MESSAGE_TRAVEL_TICKS = 2;
+// Every preset's crash or partition has happened by this tick; a live
+// leader after it means the cluster recovered.
+const SETTLED_TICKS = 40;
 
 const STATE_COLORS: Record<NodeState, string> = {
   follower: "#71717a",
@@ -192,6 +208,159 @@ function canCommunicate(
   return (inA1 && inA2) || (inB1 && inB2);
 }
 
+/* ═══════════════════════════════════════════════════════════
+   SHARE-LINK SNAPSHOTS
+   Election timeouts are randomized, so a shared link carries the
+   whole cluster frame instead of a seed to replay.
+   ═══════════════════════════════════════════════════════════ */
+
+interface ClusterSnapshot {
+  nodes: Record<string, RaftNode>;
+  messages: RaftMessage[];
+  partition: Partition | null;
+  clientRequests: number;
+}
+
+function serializeCluster(snapshot: ClusterSnapshot): ShareParams {
+  return {
+    nodes: NODE_IDS.map((id) => {
+      const n = snapshot.nodes[id];
+      return { ...n, votesReceived: [...n.votesReceived] };
+    }),
+    messages: snapshot.messages,
+    partition: snapshot.partition
+      ? [[...snapshot.partition.groupA], [...snapshot.partition.groupB]]
+      : null,
+    clientRequests: snapshot.clientRequests,
+  };
+}
+
+const NODE_STATES: NodeState[] = ["follower", "candidate", "leader"];
+const MESSAGE_TYPES: MessageType[] = [
+  "request-vote",
+  "vote-granted",
+  "vote-denied",
+  "append-entries",
+  "append-ack",
+  "append-nack",
+  "heartbeat",
+];
+
+const isNodeId = (value: unknown): value is string =>
+  typeof value === "string" && NODE_IDS.includes(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function isLogEntry(value: unknown): value is LogEntry {
+  return (
+    isRecord(value) &&
+    isNumber(value.index) &&
+    isNumber(value.term) &&
+    isString(value.command)
+  );
+}
+
+function isIndexMap(value: unknown): value is Record<string, number> {
+  return isRecord(value) && Object.entries(value).every(([id, n]) => isNodeId(id) && isNumber(n));
+}
+
+function readNode(value: unknown): RaftNode | null {
+  if (
+    !isRecord(value) ||
+    !isNodeId(value.id) ||
+    !NODE_STATES.includes(value.state as NodeState) ||
+    !isNumber(value.currentTerm) ||
+    !(value.votedFor === null || isNodeId(value.votedFor)) ||
+    !Array.isArray(value.log) ||
+    !value.log.every(isLogEntry) ||
+    !isNumber(value.commitIndex) ||
+    typeof value.alive !== "boolean" ||
+    !isNumber(value.electionTimer) ||
+    !isNumber(value.heartbeatTimer) ||
+    !Array.isArray(value.votesReceived) ||
+    !value.votesReceived.every(isNodeId) ||
+    !isIndexMap(value.nextIndex) ||
+    !isIndexMap(value.matchIndex)
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    state: value.state as NodeState,
+    currentTerm: value.currentTerm,
+    votedFor: value.votedFor,
+    log: value.log,
+    commitIndex: value.commitIndex,
+    alive: value.alive,
+    electionTimer: value.electionTimer,
+    heartbeatTimer: value.heartbeatTimer,
+    votesReceived: new Set(value.votesReceived),
+    nextIndex: value.nextIndex,
+    matchIndex: value.matchIndex,
+  };
+}
+
+function isMessage(value: unknown): value is RaftMessage {
+  if (
+    !isRecord(value) ||
+    !isString(value.id) ||
+    !isNodeId(value.from) ||
+    !isNodeId(value.to) ||
+    !MESSAGE_TYPES.includes(value.type as MessageType) ||
+    !isNumber(value.term) ||
+    !isNumber(value.progress) ||
+    !isNumber(value.createdAt)
+  ) {
+    return false;
+  }
+  if (value.data === undefined) return true;
+  if (!isRecord(value.data)) return false;
+  const { entries, ...indices } = value.data;
+  return (
+    (entries === undefined || (Array.isArray(entries) && entries.every(isLogEntry))) &&
+    Object.values(indices).every(isNumber)
+  );
+}
+
+// Any malformed field rejects the whole link, so a hand-edited URL can't
+// seed the simulation with a node the step logic doesn't expect.
+function deserializeCluster(params: ShareParams | undefined): ClusterSnapshot | null {
+  if (!params || !Array.isArray(params.nodes) || !Array.isArray(params.messages)) {
+    return null;
+  }
+  const nodes: Record<string, RaftNode> = {};
+  for (const raw of params.nodes) {
+    const node = readNode(raw);
+    if (!node) return null;
+    nodes[node.id] = node;
+  }
+  if (NODE_IDS.some((id) => !nodes[id])) return null;
+
+  const messages = readArray(params, "messages", isMessage);
+  if (!messages) return null;
+
+  const groups = params.partition;
+  let partition: Partition | null = null;
+  if (groups !== null && groups !== undefined) {
+    if (
+      !Array.isArray(groups) ||
+      groups.length !== 2 ||
+      !groups.every((group) => Array.isArray(group) && group.every(isNodeId))
+    ) {
+      return null;
+    }
+    partition = { groupA: new Set(groups[0]), groupB: new Set(groups[1]) };
+  }
+
+  return {
+    nodes,
+    messages,
+    partition,
+    clientRequests: readNumber(params, "clientRequests") ?? 0,
+  };
+}
+
 /* ═══════════════════════════════════════════════════════════
    INITIAL STATE FACTORY
    ═══════════════════════════════════════════════════════════ */
@@ -225,6 +394,37 @@ function createInitialNodes(): Record<string, RaftNode> {
   return nodes;
 }
 
+/* ═══════════════════════════════════════════════════════════
+   QUIZ
+   ═══════════════════════════════════════════════════════════ */
+
+// Asked while every live server is a follower and a majority is up, i.e.
+// just before an election. Election timeouts are random, so the answer is
+// graded once a new leader actually emerges. Keyed on the term so the
+// question comes up once per election, not on every tick before it.
+const leaderQuiz: QuizRule<Record<string, RaftNode>> = (nodes) => {
+  const alive = NODE_IDS.filter((id) => nodes[id].alive);
+  if (alive.length < MAJORITY) return null;
+  if (alive.some((id) => nodes[id].state !== "follower")) return null;
+
+  const term = Math.max(...NODE_IDS.map((id) => nodes[id].currentTerm));
+  return {
+    prompt: "The cluster has no leader. Which server wins the next election?",
+    choices: choicesFrom(alive),
+    key: `term-${term}`,
+    resolve: (later) => {
+      const leader = NODE_IDS.find(
+        (id) => later[id].alive && later[id].state === "leader" && later[id].currentTerm > term
+      );
+      if (!leader) return null;
+      return {
+        answer: leader,
+        explanation: `${leader} collected votes from a majority and leads term ${later[leader].currentTerm}. The follower whose election timer runs out first usually wins, unless votes split.`,
+      };
+    },
+  };
+};
+
 /* ═══════════════════════════════════════════════════════════
    MAIN COMPONENT
    ═══════════════════════════════════════════════════════════ */
@@ -239,6 +439,7 @@ export default function RaftConsensusPage() {
   const [tick, setTick] = useState(0);
   const [partition, setPartition] = useState<Partition | null>(null);
   const [clientRequestCounter, setClientRequestCounter] = useState(0);
+  const [activeScenario, setActiveScenario] = useState("");
 
   /* ─── UI state ─── */
   const [isPlaying, setIsPlaying] = useState(false);
@@ -665,11 +866,16 @@ export default function RaftConsensusPage() {
     }
   }, []);
 
+  /* ─── Predict mode ─── */
+  const pauseForQuiz = useCallback(() => setIsPlaying(false), []);
+  const quiz = useQuiz(leaderQuiz, nodes, { isPlaying, pause: pauseForQuiz });
+  const { gate } = quiz;
+
   /* ─── Auto-play ─── */
   useEffect(() => {
     if (isPlaying) {
       const ms = Math.max(40, 300 / speed);
-      intervalRef.current = setInterval(simulationStep, ms);
+      intervalRef.current = setInterval(() => gate(simulationStep), ms);
     } else {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
@@ -679,12 +885,12 @@ export default function RaftConsensusPage() {
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [isPlaying, speed, simulationStep]);
+  }, [isPlaying, speed, simulationStep, gate]);
 
   /* ─── Controls ─── */
   const handlePlay = useCallback(() => setIsPlaying(true), []);
   const handlePause = useCallback(() => setIsPlaying(false), []);
-  const handleStep = useCallback(() => simulationStep(), [simulationStep]);
+  const handleStep = useCallback(() => gate(simulationStep), [gate, simulationStep]);
   const handleReset = useCallback(() => {
     setIsPlaying(false);
     globalMsgId = 0;
@@ -695,6 +901,7 @@ export default function RaftConsensusPage() {
     setTick(0);
     setPartition(null);
     setClientRequestCounter(0);
+    setActiveScenario("");
     setSelectedNode(null);
     setPartitionMode(false);
     setPartitionSelection(new Set());
@@ -809,6 +1016,7 @@ export default function RaftConsensusPage() {
   const runScenario = useCallback(
     (scenario: string) => {
       handleReset();
+      setActiveScenario(scenario);
       setTimeout(() => {
         switch (scenario) {
           case "leader-failure": {
@@ -928,6 +1136,54 @@ export default function RaftConsensusPage() {
     [handleReset, speed, toggleNodeAlive]
   );
 
+  /* ─── Share links ─── */
+  const shareState = useMemo<ShareState>(
+    () => ({
+      scenario: activeScenario || undefined,
+      speed,
+      step: tick,
+      params: serializeCluster({
+        nodes,
+        messages,
+        partition,
+        clientRequests: clientRequestCounter,
+      }),
+    }),
+    [activeScenario, speed, tick, nodes, messages, partition, clientRequestCounter]
+  );
+
+  useShareState(
+    useCallback(
+      (state: ShareState) => {
+        if (state.speed) setSpeed(state.speed);
+        const snapshot = deserializeCluster(state.params);
+        if (!snapshot) {
+          if (state.scenario) runScenario(state.scenario);
+          return;
+        }
+        globalMsgId = snapshot.messages.reduce(
+          (max, m) => Math.max(max, Number(m.id.split("-").pop()) || 0),
+          0
+        );
+        setNodes(snapshot.nodes);
+        setMessages(snapshot.messages);
+        setPartition(snapshot.partition);
+        setClientRequestCounter(snapshot.clientRequests);
+        setTick(state.step ?? 0);
+        setActiveScenario(state.scenario ?? "");
+        setEvents([
+          {
+            id: makeEventId(),
+            tick: state.step ?? 0,
+            message: "Restored shared cluster snapshot - press Play to continue",
+            type: "info",
+          },
+        ]);
+      },
+      [runScenario]
+    )
+  );
+
   /* ─── Metrics ─── */
   const metrics = useMemo(() => {
     const currentLeader = NODE_IDS.find(
@@ -968,7 +1224,7 @@ export default function RaftConsensusPage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -990,6 +1246,7 @@ export default function RaftConsensusPage() {
               Leader election, log replication, and fault tolerance in a 5-node
               cluster
             </p>
+            <ModuleLinks moduleId="7.1" />
           </motion.div>
         </div>
 
@@ -997,6 +1254,7 @@ export default function RaftConsensusPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
             isPlaying={isPlaying}
+            completed={tick >= SETTLED_TICKS && NODE_IDS.some((id) => nodes[id].alive && nodes[id].state === "leader")}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -1005,6 +1263,8 @@ export default function RaftConsensusPage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics((v) => !v)}
+            shareState={shareState}
+            description={events[events.length - 1]?.message}
           >
             {/* Scenario Buttons */}
             <div className="flex items-center gap-1.5">
@@ -1070,6 +1330,7 @@ export default function RaftConsensusPage() {
                 </div>
 
                 <svg
+                  data-export="cluster"
                   viewBox={`0 0 ${svgWidth} ${svgHeight}`}
                   className="w-full"
                   style={{ maxHeight: "520px" }}
@@ -1677,6 +1938,12 @@ export default function RaftConsensusPage() {
 
             {/* ── Right Column: Metrics + Event Log ── */}
             <div className="space-y-4">
+              <QuizPanel
+                quiz={quiz}
+                onContinue={handlePlay}
+                hint="Pause before each election and guess which server becomes the next leader."
+              />
+
               {/* ── Metrics Panel ── */}
               <AnimatePresence>
                 {showMetrics && (
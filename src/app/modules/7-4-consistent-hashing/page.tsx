@@ -16,7 +16,9 @@ import {
   RefreshCw,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -530,6 +532,11 @@ export default function ConsistentHashingPage() {
     setActiveScenario(id);
   }, [handleReset]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenarioSelect
+  );
+
   /* ─── Manual add key ─── */
   const handleAddKey = useCallback(() => {
     if (!keyInput.trim()) return;
@@ -583,7 +590,7 @@ export default function ConsistentHashingPage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -611,6 +618,7 @@ export default function ConsistentHashingPage() {
             <p className="mt-1.5 text-[#a1a1aa] text-sm sm:text-base max-w-2xl">
               Hash ring, key assignment, minimal redistribution on node changes, and virtual nodes for load balancing
             </p>
+            <ModuleLinks moduleId="7.4" />
           </motion.div>
         </div>
 
@@ -637,7 +645,9 @@ export default function ConsistentHashingPage() {
         {/* ── Controls ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={sim.phase === "complete"}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -646,6 +656,7 @@ export default function ConsistentHashingPage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics(!showMetrics)}
+            description={events[events.length - 1]?.message}
           />
         </div>
 
@@ -15,7 +15,9 @@ import {
   CircleDot,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -460,6 +462,11 @@ export default function VectorClocksPage() {
     setActiveScenario(id);
   }, [handleReset]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.id),
+    handleScenarioSelect
+  );
+
   /* ─── Computed metrics ─── */
   const metrics = useMemo(() => {
     const totalEvents = allEvents.length;
@@ -518,7 +525,7 @@ export default function VectorClocksPage() {
 
       <div className="pt-14">
         {/* ── Header ── */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div data-module-header className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
@@ -546,6 +553,7 @@ export default function VectorClocksPage() {
             <p className="mt-1.5 text-[#a1a1aa] text-sm sm:text-base max-w-2xl">
               Track causality in distributed systems with vector timestamps, message passing, and concurrency detection
             </p>
+            <ModuleLinks moduleId="7.6" />
           </motion.div>
         </div>
 
@@ -572,7 +580,9 @@ export default function VectorClocksPage() {
         {/* ── Controls ── */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
           <ModuleControls
+            shareState={{ scenario: activeScenario }}
             isPlaying={isPlaying}
+            completed={sim.phase === "complete"}
             onPlay={handlePlay}
             onPause={handlePause}
             onStep={handleStep}
@@ -581,6 +591,7 @@ export default function VectorClocksPage() {
             onSpeedChange={setSpeed}
             showMetrics={showMetrics}
             onToggleMetrics={() => setShowMetrics(!showMetrics)}
+            description={events[events.length - 1]?.message}
           />
         </div>
 
@@ -20,7 +20,9 @@ import {
   Cable,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useScenarioParam } from "@/hooks/useShareState";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -456,6 +458,11 @@ export default function OSIModelPage() {
     }, 50);
   }, [handleReset, animationLoop, addEvent]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.key),
+    runScenario
+  );
+
   /* ─── Metrics ─── */
   const metrics = useMemo(() => {
     const activeHeaders = simState.senderHeaders.filter(Boolean).length;
@@ -513,6 +520,7 @@ export default function OSIModelPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5 }}
@@ -534,6 +542,7 @@ export default function OSIModelPage() {
               Visualize the 7-layer OSI model and 4-layer TCP/IP model. Watch data encapsulation
               as it travels down the sender stack, across the network, and up the receiver stack.
             </p>
+            <ModuleLinks moduleId="8.1" />
             <div className="flex items-center gap-2 mt-3">
               <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium bg-[#f59e0b]/8 text-[#f59e0b] border border-[#f59e0b]/15">
                 <Zap size={11} />
@@ -1202,7 +1211,9 @@ export default function OSIModelPage() {
             className="mt-4 mb-4"
           >
             <ModuleControls
+              shareState={{ scenario: selectedScenario }}
               isPlaying={isPlaying}
+              completed={simState.phase === "complete"}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -1211,6 +1222,7 @@ export default function OSIModelPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={eventLog[eventLog.length - 1]?.message}
             >
               {/* Phase badge */}
               <div className="flex items-center gap-1.5">
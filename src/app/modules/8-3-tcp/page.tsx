@@ -13,9 +13,15 @@ import {
   BarChart3,
   ChevronRight,
   Layers,
+  Compass,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import TourPlayer from "@/components/ui/TourPlayer";
+import { useScenarioParam } from "@/hooks/useShareState";
+import { useTour } from "@/hooks/useTour";
+import type { Tour } from "@/lib/tour";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -86,10 +92,80 @@ const MODES: { key: TCPMode; label: string; description: string }[] = [
   { key: "fast-retransmit", label: "Fast Retransmit", description: "Triple dup ACK recovery" },
 ];
 
-const SCENARIOS: { key: ScenarioName; label: string; icon: React.ReactNode }[] = [
-  { key: "normal-transfer", label: "Normal Transfer", icon: <ArrowRight size={13} /> },
-  { key: "packet-loss", label: "Packet Loss", icon: <AlertTriangle size={13} /> },
-  { key: "slow-start-growth", label: "Slow Start Growth", icon: <TrendingUp size={13} /> },
+const SCENARIOS: { key: ScenarioName; label: string; icon: React.ReactNode; tour?: Tour<TCPState> }[] = [
+  {
+    key: "normal-transfer",
+    label: "Normal Transfer",
+    icon: <ArrowRight size={13} />,
+    tour: [
+      {
+        text: "The sender may have a whole window of segments in flight before it hears anything back. Here the window is fixed at W = 4 segments.",
+        target: "sender-buffer",
+      },
+      {
+        text: "The first ACKs arrive one round trip later. Each one slides the window right, and the sender immediately fills the space with new segments.",
+        target: "transfer",
+        waitFor: (s) => s.segmentsAcked >= 2,
+      },
+      {
+        text: "All 32 segments are acknowledged. A fixed window caps the sender at W segments per round trip, however fast the link is:",
+        math: "\\text{throughput} \\le \\frac{W \\cdot \\text{MSS}}{\\text{RTT}}",
+        target: "metrics",
+        waitFor: (s) => s.phase === "done",
+      },
+    ],
+  },
+  {
+    key: "packet-loss",
+    label: "Packet Loss",
+    icon: <AlertTriangle size={13} />,
+    tour: [
+      {
+        text: "Same fixed window of 4, but segment 5 will be dropped on its way to the receiver.",
+        target: "sender-buffer",
+      },
+      {
+        text: "Segment 5 is lost. The segments behind it are still delivered and acknowledged.",
+        target: "transfer",
+        waitFor: (s) => s.segments[4].status === "lost",
+      },
+      {
+        text: "Segments 6–8 are acknowledged, but the window can't move past the hole at 5, so nothing new is sent. This sender has no retransmission timer and would wait forever. Real TCP resends once its retransmission timeout (RTO) expires:",
+        math: "\\text{RTO} = \\text{SRTT} + 4 \\cdot \\text{RTTVAR}",
+        target: "sender-buffer",
+        waitFor: (s) => s.segmentsAcked >= 7 && s.inFlight.length === 0,
+      },
+    ],
+  },
+  {
+    key: "slow-start-growth",
+    label: "Slow Start Growth",
+    icon: <TrendingUp size={13} />,
+    tour: [
+      {
+        text: "Slow start opens with a single segment and grows the congestion window by one segment for every ACK received.",
+        math: "\\text{cwnd} \\leftarrow \\text{cwnd} + 1 \\quad \\text{per ACK}",
+        target: "sender-buffer",
+      },
+      {
+        text: "One round trip returns one ACK per segment sent, so cwnd doubles every RTT: 1, 2, 4 and so on.",
+        math: "\\text{cwnd}(n) = 2^{n} \\quad \\text{after } n \\text{ RTTs}",
+        target: "cwnd-chart",
+        waitFor: (s) => s.cwnd >= 4,
+      },
+      {
+        text: "cwnd has reached ssthresh = 16. From here congestion avoidance takes over and each ACK adds only a fraction of a segment, about one segment per RTT.",
+        math: "\\text{cwnd} \\leftarrow \\text{cwnd} + \\frac{1}{\\text{cwnd}}",
+        target: "metrics",
+        waitFor: (s) => s.cwnd >= s.ssthresh,
+      },
+      {
+        text: "Transfer complete. The exponential phase reached 16 segments in four round trips, and the linear phase added roughly one more.",
+        target: "cwnd-chart",
+        waitFor: (s) => s.phase === "done",
+      },
+    ],
+  },
   { key: "congestion-event", label: "Congestion Event", icon: <Zap size={13} /> },
 ];
 
@@ -98,6 +174,15 @@ function nextPacketId(): string {
   return `pkt-${++packetIdCounter}`;
 }
 
+/** One sentence describing the current tick, read out by the step announcer. */
+function describeStep(state: TCPState): string {
+  const last = state.cwndHistory[state.cwndHistory.length - 1];
+  const retransmit = last?.tick === state.tick && last.event === "fast-retransmit"
+    ? "Triple duplicate ACK, fast retransmit. "
+    : "";
+  return `Tick ${state.tick}: ${retransmit}${state.segmentsAcked} of ${TOTAL_SEGMENTS} segments acknowledged, ${state.inFlight.length} packets in flight, cwnd ${state.cwnd}, ssthresh ${state.ssthresh}`;
+}
+
 function createInitialState(mode: TCPMode): TCPState {
   const segments: Segment[] = Array.from({ length: TOTAL_SEGMENTS }, (_, i) => ({
     seq: i + 1,
@@ -166,7 +251,10 @@ export default function TCPFlowControlPage() {
 
       const currentMode = modeRef.current;
 
-      // Advance in-flight packets
+      // Advance in-flight packets. ACKs and retransmits sent in response are
+      // collected separately: pushing onto next.inFlight here would be lost
+      // when the filtered array is assigned back.
+      const spawned: InFlightPacket[] = [];
       next.inFlight = next.inFlight
         .map((p) => ({ ...p, progress: p.progress + 0.25 }))
         .filter((p) => {
@@ -221,7 +309,7 @@ export default function TCPFlowControlPage() {
                         if (next.segments[i].status === "sent-unacked" || next.segments[i].status === "lost") {
                           next.segments[i].status = "retransmitted";
                           next.segmentsRetransmitted++;
-                          next.inFlight.push({
+                          spawned.push({
                             id: nextPacketId(),
                             seq: i + 1,
                             isAck: false,
@@ -244,7 +332,7 @@ export default function TCPFlowControlPage() {
               }
             } else if (!p.isAck && !p.lost) {
               // Data packet arrived at receiver, send ACK back
-              next.inFlight.push({
+              spawned.push({
                 id: nextPacketId(),
                 seq: p.seq,
                 isAck: true,
@@ -257,6 +345,7 @@ export default function TCPFlowControlPage() {
           }
           return true;
         });
+      next.inFlight.push(...spawned);
 
       // Send new segments within window
       const windowEnd = Math.min(next.windowStart + next.windowSize, TOTAL_SEGMENTS);
@@ -402,6 +491,24 @@ export default function TCPFlowControlPage() {
     }, 50);
   }, [handlePause, animationLoop]);
 
+  useScenarioParam(
+    SCENARIOS.map((s) => s.key),
+    runScenario
+  );
+
+  /* ─── Guided tour ─── */
+  const activeScenario = SCENARIOS.find((s) => s.key === selectedScenario)!;
+  const tour = useTour(activeScenario.tour, tcpState, {
+    isPlaying,
+    play: handlePlay,
+    pause: handlePause,
+  });
+
+  const handleStartTour = () => {
+    runScenario(selectedScenario);
+    tour.start();
+  };
+
   /* ─── Derived state ─── */
   const visibleStart = Math.max(0, tcpState.windowStart - 2);
   const visibleEnd = Math.min(TOTAL_SEGMENTS, visibleStart + VISIBLE_SEGMENTS);
@@ -448,11 +555,13 @@ export default function TCPFlowControlPage() {
   return (
     <div className="min-h-screen bg-[#0a0a0f] text-white">
       <Navbar />
+      <TourPlayer tour={tour} title={activeScenario.label} />
 
       <div className="pt-14">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5 }}
@@ -472,6 +581,7 @@ export default function TCPFlowControlPage() {
               Explore TCP's sliding window, slow start, congestion avoidance, and fast retransmit mechanisms.
               Watch segments travel between sender and receiver with realistic timing.
             </p>
+            <ModuleLinks moduleId="8.3" />
           </motion.div>
 
           {/* ── Mode selector ── */}
@@ -511,6 +621,16 @@ export default function TCPFlowControlPage() {
                 {s.label}
               </button>
             ))}
+
+            {activeScenario.tour && (
+              <button
+                onClick={handleStartTour}
+                className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-lg transition-all duration-200 border border-[#6366f1]/30 text-[#818cf8] hover:bg-[#6366f1]/10"
+              >
+                <Compass size={13} />
+                Guided tour
+              </button>
+            )}
           </motion.div>
 
           {/* ── Main visualization ── */}
@@ -521,6 +641,7 @@ export default function TCPFlowControlPage() {
                 initial={{ opacity: 0, y: 16 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.5, delay: 0.15 }}
+                data-tour="sender-buffer"
                 className="rounded-xl border border-[#1e1e2e] bg-[#111118] p-4"
               >
                 <div className="flex items-center gap-2 mb-3">
@@ -604,6 +725,7 @@ export default function TCPFlowControlPage() {
                 initial={{ opacity: 0, y: 16 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.5, delay: 0.2 }}
+                data-tour="transfer"
                 className="rounded-xl border border-[#1e1e2e] bg-[#111118] overflow-hidden"
               >
                 <div className="p-4">
@@ -709,6 +831,7 @@ export default function TCPFlowControlPage() {
                   initial={{ opacity: 0, y: 16 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.5, delay: 0.25 }}
+                  data-tour="cwnd-chart"
                   className="rounded-xl border border-[#1e1e2e] bg-[#111118] p-4"
                 >
                   <div className="flex items-center gap-2 mb-3">
@@ -834,7 +957,8 @@ export default function TCPFlowControlPage() {
                     animate={{ opacity: 1, height: "auto" }}
                     exit={{ opacity: 0, height: 0 }}
                     transition={{ duration: 0.3 }}
-                    className="overflow-hidden"
+                    data-tour="metrics"
+                    className="overflow-hidden rounded-xl"
                   >
                     <div className="rounded-xl border border-[#1e1e2e] bg-[#111118] p-4 space-y-3">
                       <div className="flex items-center gap-2">
@@ -962,7 +1086,9 @@ export default function TCPFlowControlPage() {
             transition={{ duration: 0.5, delay: 0.3 }}
           >
             <ModuleControls
+              shareState={{ scenario: selectedScenario }}
               isPlaying={isPlaying}
+              completed={tcpState.phase === "done"}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
@@ -971,6 +1097,7 @@ export default function TCPFlowControlPage() {
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              description={describeStep(tcpState)}
             >
               <AnimatePresence>
                 {tcpState.phase === "done" && (
@@ -14,7 +14,19 @@ import {
   ChevronRight,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
+import ModuleLinks from "@/components/ui/ModuleLinks";
 import ModuleControls from "@/components/ui/ModuleControls";
+import { useStepHistory } from "@/hooks/useStepHistory";
+import { useScenarioParam } from "@/hooks/useShareState";
+import {
+  SBOX,
+  addRoundKey,
+  expandKey,
+  mixColumns,
+  shiftRows,
+  subBytes,
+  toMatrix,
+} from "@/lib/sim/aes";
 
 /* ═══════════════════════════════════════════════════════════
    TYPES & CONSTANTS
@@ -40,114 +52,6 @@ interface AESState {
   phase: "idle" | "running" | "complete";
 }
 
-// AES S-Box
-const SBOX: number[] = [
-  0x63,0x7c,0x77,0x7b,0xf2,0x6b,0x6f,0xc5,0x30,0x01,0x67,0x2b,0xfe,0xd7,0xab,0x76,
-  0xca,0x82,0xc9,0x7d,0xfa,0x59,0x47,0xf0,0xad,0xd4,0xa2,0xaf,0x9c,0xa4,0x72,0xc0,
-  0xb7,0xfd,0x93,0x26,0x36,0x3f,0xf7,0xcc,0x34,0xa5,0xe5,0xf1,0x71,0xd8,0x31,0x15,
-  0x04,0xc7,0x23,0xc3,0x18,0x96,0x05,0x9a,0x07,0x12,0x80,0xe2,0xeb,0x27,0xb2,0x75,
-  0x09,0x83,0x2c,0x1a,0x1b,0x6e,0x5a,0xa0,0x52,0x3b,0xd6,0xb3,0x29,0xe3,0x2f,0x84,
-  0x53,0xd1,0x00,0xed,0x20,0xfc,0xb1,0x5b,0x6a,0xcb,0xbe,0x39,0x4a,0x4c,0x58,0xcf,
-  0xd0,0xef,0xaa,0xfb,0x43,0x4d,0x33,0x85,0x45,0xf9,0x02,0x7f,0x50,0x3c,0x9f,0xa8,
-  0x51,0xa3,0x40,0x8f,0x92,0x9d,0x38,0xf5,0xbc,0xb6,0xda,0x21,0x10,0xff,0xf3,0xd2,
-  0xcd,0x0c,0x13,0xec,0x5f,0x97,0x44,0x17,0xc4,0xa7,0x7e,0x3d,0x64,0x5d,0x19,0x73,
-  0x60,0x81,0x4f,0xdc,0x22,0x2a,0x90,0x88,0x46,0xee,0xb8,0x14,0xde,0x5e,0x0b,0xdb,
-  0xe0,0x32,0x3a,0x0a,0x49,0x06,0x24,0x5c,0xc2,0xd3,0xac,0x62,0x91,0x95,0xe4,0x79,
-  0xe7,0xc8,0x37,0x6d,0x8d,0xd5,0x4e,0xa9,0x6c,0x56,0xf4,0xea,0x65,0x7a,0xae,0x08,
-  0xba,0x78,0x25,0x2e,0x1c,0xa6,0xb4,0xc6,0xe8,0xdd,0x74,0x1f,0x4b,0xbd,0x8b,0x8a,
-  0x70,0x3e,0xb5,0x66,0x48,0x03,0xf6,0x0e,0x61,0x35,0x57,0xb9,0x86,0xc1,0x1d,0x9e,
-  0xe1,0xf8,0x98,0x11,0x69,0xd9,0x8e,0x94,0x9b,0x1e,0x87,0xe9,0xce,0x55,0x28,0xdf,
-  0x8c,0xa1,0x89,0x0d,0xbf,0xe6,0x42,0x68,0x41,0x99,0x2d,0x0f,0xb0,0x54,0xbb,0x16,
-];
-
-// Rcon values
-const RCON: number[] = [0x01, 0x02, 0x04, 0x08, 0x10, 0x20, 0x40, 0x80, 0x1b, 0x36];
-
-// GF(2^8) multiplication
-function gmul(a: number, b: number): number {
-  let p = 0;
-  for (let i = 0; i < 8; i++) {
-    if (b & 1) p ^= a;
-    const hi = a & 0x80;
-    a = (a << 1) & 0xff;
-    if (hi) a ^= 0x1b;
-    b >>= 1;
-  }
-  return p;
-}
-
-// Convert flat 16-byte array to 4x4 column-major matrix
-function toMatrix(bytes: number[]): number[][] {
-  const matrix: number[][] = Array.from({ length: 4 }, () => Array(4).fill(0));
-  for (let c = 0; c < 4; c++) {
-    for (let r = 0; r < 4; r++) {
-      matrix[r][c] = bytes[c * 4 + r];
-    }
-  }
-  return matrix;
-}
-
-// Key expansion
-function expandKey(key: number[]): number[][][] {
-  const w: number[][] = [];
-  // Initial key words
-  for (let i = 0; i < 4; i++) {
-    w.push([key[4 * i], key[4 * i + 1], key[4 * i + 2], key[4 * i + 3]]);
-  }
-  // Expand
-  for (let i = 4; i < 44; i++) {
-    let temp = [...w[i - 1]];
-    if (i % 4 === 0) {
-      temp = [temp[1], temp[2], temp[3], temp[0]]; // RotWord
-      temp = temp.map((b) => SBOX[b]); // SubWord
-      temp[0] ^= RCON[i / 4 - 1]; // XOR Rcon
-    }
-    w.push(w[i - 4].map((b, j) => b ^ temp[j]));
-  }
-  // Convert to round key matrices
-  const roundKeys: number[][][] = [];
-  for (let r = 0; r <= 10; r++) {
-    const rkMatrix: number[][] = Array.from({ length: 4 }, () => Array(4).fill(0));
-    for (let c = 0; c < 4; c++) {
-      for (let row = 0; row < 4; row++) {
-        rkMatrix[row][c] = w[r * 4 + c][row];
-      }
-    }
-    roundKeys.push(rkMatrix);
-  }
-  return roundKeys;
-}
-
-// AES operations
-function subBytes(matrix: number[][]): number[][] {
-  return matrix.map((row) => row.map((b) => SBOX[b]));
-}
-
-function shiftRows(matrix: number[][]): number[][] {
-  const result = matrix.map((row) => [...row]);
-  for (let r = 1; r < 4; r++) {
-    for (let c = 0; c < 4; c++) {
-      result[r][c] = matrix[r][(c + r) % 4];
-    }
-  }
-  return result;
-}
-
-function mixColumns(matrix: number[][]): number[][] {
-  const result: number[][] = Array.from({ length: 4 }, () => Array(4).fill(0));
-  for (let c = 0; c < 4; c++) {
-    result[0][c] = gmul(2, matrix[0][c]) ^ gmul(3, matrix[1][c]) ^ matrix[2][c] ^ matrix[3][c];
-    result[1][c] = matrix[0][c] ^ gmul(2, matrix[1][c]) ^ gmul(3, matrix[2][c]) ^ matrix[3][c];
-    result[2][c] = matrix[0][c] ^ matrix[1][c] ^ gmul(2, matrix[2][c]) ^ gmul(3, matrix[3][c]);
-    result[3][c] = gmul(3, matrix[0][c]) ^ matrix[1][c] ^ matrix[2][c] ^ gmul(2, matrix[3][c]);
-  }
-  return result;
-}
-
-function addRoundKey(matrix: number[][], roundKey: number[][]): number[][] {
-  return matrix.map((row, r) => row.map((b, c) => b ^ roundKey[r][c]));
-}
-
 function computeCellStates(prev: number[][], next: number[][]): CellState[][] {
   return prev.map((row, r) =>
     row.map((_, c) => (prev[r][c] !== next[r][c] ? "changed" : "unchanged"))
@@ -199,13 +103,118 @@ function createInitialState(plaintext?: number[], key?: number[]): AESState {
   };
 }
 
+/* ═══════════════════════════════════════════════════════════
+   STEP FUNCTION
+   ═══════════════════════════════════════════════════════════ */
+
+interface AESEvent {
+  time: number;
+  round: number;
+  op: string;
+  changed: number;
+}
+
+interface AESFrame {
+  aes: AESState;
+  eventLog: AESEvent[];
+}
+
+function advanceAESFrame(frame: AESFrame): AESFrame | null {
+  const prev = frame.aes;
+  if (prev.phase === "complete") return null;
+
+  const next: AESState = {
+    ...prev,
+    stateMatrix: prev.stateMatrix.map((row) => [...row]),
+    prevMatrix: prev.prevMatrix.map((row) => [...row]),
+    cellStates: prev.cellStates.map((row) => [...row]),
+    phase: "running",
+  };
+
+  const isLastRound = prev.round === 10;
+  const ops = isLastRound ? LAST_ROUND_OPS : OPERATION_ORDER;
+
+  if (prev.operation === "idle") {
+    // Start first operation of current round
+    next.operation = ops[0];
+    next.subStep = 0;
+
+    // Set cells active
+    next.cellStates = Array.from({ length: 4 }, () => Array(4).fill("active" as CellState));
+    return { aes: next, eventLog: frame.eventLog };
+  }
+
+  // Apply current operation
+  const prevMatrix = prev.stateMatrix.map((row) => [...row]);
+  let newMatrix: number[][];
+
+  switch (prev.operation) {
+    case "sub-bytes":
+      newMatrix = subBytes(prev.stateMatrix);
+      break;
+    case "shift-rows":
+      newMatrix = shiftRows(prev.stateMatrix);
+      break;
+    case "mix-columns":
+      newMatrix = mixColumns(prev.stateMatrix);
+      break;
+    case "add-round-key":
+      newMatrix = addRoundKey(prev.stateMatrix, prev.roundKeys[prev.round]);
+      break;
+    default:
+      newMatrix = prev.stateMatrix.map((r) => [...r]);
+  }
+
+  next.stateMatrix = newMatrix;
+  next.prevMatrix = prevMatrix;
+  next.cellStates = computeCellStates(prevMatrix, newMatrix);
+
+  // Count changed bytes
+  let changed = 0;
+  for (let r = 0; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      if (prevMatrix[r][c] !== newMatrix[r][c]) changed++;
+    }
+  }
+  next.bytesChanged = changed;
+
+  // Log event
+  const eventLog = [
+    { time: Date.now(), round: prev.round, op: OPERATION_NAMES[prev.operation], changed },
+    ...frame.eventLog.slice(0, 49),
+  ];
+
+  // Advance to next operation or round
+  const currentOpIdx = ops.indexOf(prev.operation);
+  if (currentOpIdx < ops.length - 1) {
+    next.operation = ops[currentOpIdx + 1];
+    next.subStep = currentOpIdx + 1;
+  } else {
+    // Round complete
+    next.roundsCompleted = prev.round;
+
+    if (prev.round < 10) {
+      next.round = prev.round + 1;
+      next.operation = "idle";
+      next.subStep = 0;
+      next.cellStates = Array.from({ length: 4 }, () => Array(4).fill("unchanged" as CellState));
+    } else {
+      next.phase = "complete";
+      next.operation = "idle";
+    }
+  }
+
+  return { aes: next, eventLog };
+}
+
 /* ═══════════════════════════════════════════════════════════
    MAIN COMPONENT
    ═══════════════════════════════════════════════════════════ */
 
 export default function AESEncryptionPage() {
   /* ─── State ─── */
-  const [aesState, setAesState] = useState<AESState>(createInitialState);
+  const timeline = useStepHistory<AESFrame>(() => ({ aes: createInitialState(), eventLog: [] }));
+  const { aes: aesState, eventLog } = timeline.current;
   const [selectedScenario, setSelectedScenario] = useState<ScenarioName>("simple-text");
   const [selectedRound, setSelectedRound] = useState(1);
   const [inputText, setInputText] = useState("Hello World!");
@@ -214,118 +223,45 @@ export default function AESEncryptionPage() {
   const [speed, setSpeed] = useState(1);
   const [showMetrics, setShowMetrics] = useState(true);
   const [showKeySchedule, setShowKeySchedule] = useState(false);
-  const [eventLog, setEventLog] = useState<{ time: number; round: number; op: string; changed: number }[]>([]);
 
   /* ─── Refs ─── */
   const isPlayingRef = useRef(false);
   const speedRef = useRef(speed);
   const animationRef = useRef<number | null>(null);
   const lastTickRef = useRef(0);
+  // The loop schedules its next frame through this ref so it never refers to itself
+  const animationLoopRef = useRef<(timestamp: number) => void>(() => {});
+  const phaseRef = useRef(aesState.phase);
 
   useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
   useEffect(() => { speedRef.current = speed; }, [speed]);
+  useEffect(() => { phaseRef.current = aesState.phase; }, [aesState.phase]);
 
   /* ─── Step forward ─── */
   const stepForward = useCallback(() => {
-    setAesState((prev) => {
-      if (prev.phase === "complete") return prev;
-
-      const next: AESState = {
-        ...prev,
-        stateMatrix: prev.stateMatrix.map((row) => [...row]),
-        prevMatrix: prev.prevMatrix.map((row) => [...row]),
-        cellStates: prev.cellStates.map((row) => [...row]),
-        phase: "running",
-      };
-
-      const isLastRound = prev.round === 10;
-      const ops = isLastRound ? LAST_ROUND_OPS : OPERATION_ORDER;
-
-      if (prev.operation === "idle") {
-        // Start first operation of current round
-        next.operation = ops[0];
-        next.subStep = 0;
-
-        // Set cells active
-        next.cellStates = Array.from({ length: 4 }, () => Array(4).fill("active" as CellState));
-        return next;
-      }
-
-      // Apply current operation
-      const prevMatrix = prev.stateMatrix.map((row) => [...row]);
-      let newMatrix: number[][];
-
-      switch (prev.operation) {
-        case "sub-bytes":
-          newMatrix = subBytes(prev.stateMatrix);
-          break;
-        case "shift-rows":
-          newMatrix = shiftRows(prev.stateMatrix);
-          break;
-        case "mix-columns":
-          newMatrix = mixColumns(prev.stateMatrix);
-          break;
-        case "add-round-key":
-          newMatrix = addRoundKey(prev.stateMatrix, prev.roundKeys[prev.round]);
-          break;
-        default:
-          newMatrix = prev.stateMatrix.map((r) => [...r]);
-      }
-
-      next.stateMatrix = newMatrix;
-      next.prevMatrix = prevMatrix;
-      next.cellStates = computeCellStates(prevMatrix, newMatrix);
-
-      // Count changed bytes
-      let changed = 0;
-      for (let r = 0; r < 4; r++) {
-        for (let c = 0; c < 4; c++) {
-          if (prevMatrix[r][c] !== newMatrix[r][c]) changed++;
-        }
-      }
-      next.bytesChanged = changed;
-
-      // Log event
-      setEventLog((prevLog) => [
-        { time: Date.now(), round: prev.round, op: OPERATION_NAMES[prev.operation], changed },
-        ...prevLog.slice(0, 49),
-      ]);
-
-      // Advance to next operation or round
-      const currentOpIdx = ops.indexOf(prev.operation);
-      if (currentOpIdx < ops.length - 1) {
-        next.operation = ops[currentOpIdx + 1];
-        next.subStep = currentOpIdx + 1;
-      } else {
-        // Round complete
-        next.roundsCompleted = prev.round;
-
-        if (prev.round < 10) {
-          next.round = prev.round + 1;
-          next.operation = "idle";
-          next.subStep = 0;
-          next.cellStates = Array.from({ length: 4 }, () => Array(4).fill("unchanged" as CellState));
-        } else {
-          next.phase = "complete";
-          next.operation = "idle";
-        }
-      }
-
-      return next;
-    });
-  }, []);
+    timeline.advance(advanceAESFrame);
+  }, [timeline]);
 
   /* ─── Animation loop ─── */
   const animationLoop = useCallback((timestamp: number) => {
     if (!isPlayingRef.current) return;
+    // Stop on complete
+    if (phaseRef.current === "complete") {
+      isPlayingRef.current = false;
+      animationRef.current = null;
+      setIsPlaying(false);
+      return;
+    }
     const interval = Math.max(10, 400 / speedRef.current);
     if (timestamp - lastTickRef.current >= interval) {
       lastTickRef.current = timestamp;
       stepForward();
     }
-    animationRef.current = requestAnimationFrame(animationLoop);
+    animationRef.current = requestAnimationFrame((t) => animationLoopRef.current(t));
   }, [stepForward]);
 
+  useEffect(() => { animationLoopRef.current = animationLoop; }, [animationLoop]);
+
   useEffect(() => () => { if (animationRef.current) cancelAnimationFrame(animationRef.current); }, []);
 
   /* ─── Controls ─── */
@@ -350,6 +286,16 @@ export default function AESEncryptionPage() {
     stepForward();
   }, [handlePause, stepForward]);
 
+  const handleStepBack = useCallback(() => {
+    handlePause();
+    timeline.back();
+  }, [handlePause, timeline]);
+
+  const handleSeek = useCallback((position: number) => {
+    handlePause();
+    timeline.seek(position);
+  }, [handlePause, timeline]);
+
   const handleReset = useCallback(() => {
     handlePause();
     // Parse input
@@ -363,16 +309,8 @@ export default function AESEncryptionPage() {
       const hex = cleanHex.substring(i * 2, i * 2 + 2);
       k.push(hex ? parseInt(hex, 16) || 0 : 0);
     }
-    setAesState(createInitialState(pt, k));
-    setEventLog([]);
-  }, [handlePause, inputText, inputKey]);
-
-  /* ─── Stop on complete ─── */
-  useEffect(() => {
-    if (aesState.phase === "complete" && isPlaying) {
-      handlePause();
-    }
-  }, [aesState.phase, isPlaying, handlePause]);
+    timeline.reset({ aes: createInitialState(pt, k), eventLog: [] });
+  }, [handlePause, inputText, inputKey, timeline]);
 
   /* ─── Scenarios ─── */
   const runScenario = useCallback((scenario: ScenarioName) => {
@@ -401,8 +339,7 @@ export default function AESEncryptionPage() {
         break;
     }
 
-    setAesState(createInitialState(pt!, k));
-    setEventLog([]);
+    timeline.reset({ aes: createInitialState(pt!, k), eventLog: [] });
 
     setTimeout(() => {
       setIsPlaying(true);
@@ -410,12 +347,12 @@ export default function AESEncryptionPage() {
       lastTickRef.current = 0;
       animationRef.current = requestAnimationFrame(animationLoop);
     }, 50);
-  }, [handlePause, animationLoop]);
+  }, [handlePause, animationLoop, timeline]);
 
-  /* ─── Track selected round ─── */
-  useEffect(() => {
-    setSelectedRound(aesState.round);
-  }, [aesState.round]);
+  useScenarioParam(
+    SCENARIOS.map((s) => s.key),
+    runScenario
+  );
 
   /* ─── Operation color ─── */
   const getOpColor = (op: AESOperation): string => {
@@ -448,6 +385,7 @@ export default function AESEncryptionPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* ── Header ── */}
           <motion.div
+            data-module-header
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5 }}
@@ -467,6 +405,7 @@ export default function AESEncryptionPage() {
               Watch AES-128 encrypt data through 10 rounds of SubBytes, ShiftRows, MixColumns,
               and AddRoundKey transformations on a 4x4 state matrix.
             </p>
+            <ModuleLinks moduleId="9.1" />
           </motion.div>
 
           {/* ── Input section ── */}
@@ -947,15 +886,21 @@ export default function AESEncryptionPage() {
             transition={{ duration: 0.5, delay: 0.3 }}
           >
             <ModuleControls
+              shareState={{ scenario: selectedScenario }}
               isPlaying={isPlaying}
+              completed={aesState.phase === "complete"}
               onPlay={handlePlay}
               onPause={handlePause}
               onStep={handleStep}
+              onStepBack={handleStepBack}
+              canStepBack={timeline.position > 0}
               onReset={handleReset}
               speed={speed}
               onSpeedChange={setSpeed}
               showMetrics={showMetrics}
               onToggleMetrics={() => setShowMetrics(!showMetrics)}
+              timeline={{ position: timeline.position, length: timeline.length, onSeek: handleSeek }}
+              description={eventLog[0] && `Round ${eventLog[0].round}: ${eventLog[0].op}, ${eventLog[0].changed} of 16 bytes changed`}
             >
               <AnimatePresence>
                 {aesState.phase === "complete" && (
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { motion, useInView } from "framer-motion";
 import {
   Cpu,
@@ -24,10 +24,19 @@ import {
   Github,
   ChevronRight,
   BookOpen,
+  CheckCircle2,
+  Download,
+  Upload,
+  Bookmark,
+  X,
   type LucideIcon,
 } from "lucide-react";
 import Navbar from "@/components/layout/Navbar";
-import { domains } from "@/lib/domains";
+import { useProgressHydrated, useProgressStore } from "@/hooks/useProgressStore";
+import { domains, getModule } from "@/lib/domains";
+import { downloadBlob } from "@/lib/frame-export";
+import { countProgress, parseProgressFile, serializeProgress } from "@/lib/progress";
+import { encodeShareState } from "@/lib/share-state";
 
 const iconMap: Record<string, LucideIcon> = {
   Cpu,
@@ -53,6 +62,9 @@ const liveModules = domains.reduce(
   (sum, d) => sum + d.modules.filter((m) => m.status === "available").length,
   0
 );
+const liveModuleIds = domains.flatMap((d) =>
+  d.modules.filter((m) => m.status === "available").map((m) => m.id)
+);
 
 export default function HomePage() {
   const domainsRef = useRef<HTMLDivElement>(null);
@@ -171,6 +183,8 @@ export default function HomePage() {
             </p>
           </motion.div>
 
+          <ProgressPanel />
+
           {/* Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {domains.map((domain, index) => (
@@ -197,6 +211,125 @@ export default function HomePage() {
   );
 }
 
+/* ── Progress Panel ── */
+
+function ProgressPanel() {
+  const hydrated = useProgressHydrated();
+  const modules = useProgressStore((s) => s.modules);
+  const bookmarks = useProgressStore((s) => s.bookmarks);
+  const removeBookmark = useProgressStore((s) => s.removeBookmark);
+  const importProgress = useProgressStore((s) => s.importProgress);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  if (!hydrated) return null;
+
+  const { completed, visited } = countProgress(modules, liveModuleIds);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeProgress({ modules, bookmarks })], { type: "application/json" });
+    downloadBlob(blob, "cs-visual-lab-progress.json");
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const data = parseProgressFile(await file.text());
+      importProgress(data);
+      const count = Object.keys(data.modules).length;
+      setMessage({ text: `Imported progress for ${count} module${count === 1 ? "" : "s"}.`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : "Import failed.", error: true });
+    }
+  };
+
+  return (
+    <div className="mb-8 rounded-xl border border-border bg-card p-4 sm:p-5 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <CheckCircle2 size={16} className="text-success" />
+        <span className="text-sm text-foreground">
+          <span className="font-mono">{completed}</span> of{" "}
+          <span className="font-mono">{liveModules}</span> modules completed
+          <span className="text-muted"> · {visited} opened</span>
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-xs text-muted-foreground hover:text-foreground hover:border-border-hover transition-colors"
+          >
+            <Download size={12} />
+            Export
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-xs text-muted-foreground hover:text-foreground hover:border-border-hover transition-colors"
+          >
+            <Upload size={12} />
+            Import
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.error ? "text-[#ef4444]" : "text-success"}`}>
+          {message.text}
+        </p>
+      )}
+
+      {bookmarks.length > 0 && (
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-1.5 text-xs text-muted">
+            <Bookmark size={12} />
+            Bookmarks
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {bookmarks.map((b) => {
+              const mod = getModule(b.moduleId);
+              if (!mod) return null;
+              const query = encodeShareState(b.state);
+              return (
+                <div
+                  key={b.id}
+                  className="group/bm flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-lg text-xs border"
+                  style={{ borderColor: `${mod.domain.color}30`, backgroundColor: `${mod.domain.color}0d` }}
+                >
+                  <Link
+                    href={query ? `${mod.module.href}?${query}` : mod.module.href}
+                    className="text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    <span className="font-mono" style={{ color: mod.domain.color }}>
+                      {mod.module.number}
+                    </span>{" "}
+                    {b.label}
+                  </Link>
+                  <button
+                    onClick={() => removeBookmark(b.id)}
+                    className="p-0.5 rounded text-muted hover:text-foreground transition-colors"
+                    title="Remove bookmark"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ── Domain Card Component ── */
 
 function DomainCard({
@@ -216,6 +349,12 @@ function DomainCard({
   const comingSoonModules = domain.modules.filter(
     (m) => m.status === "coming-soon"
   );
+  const hydrated = useProgressHydrated();
+  const progress = useProgressStore((s) => s.modules);
+  const { visited, completed } = countProgress(
+    progress,
+    availableModules.map((m) => m.id)
+  );
 
   return (
     <motion.div
@@ -280,12 +419,26 @@ function DomainCard({
               </div>
             </div>
 
-            {/* Module count badge */}
-            <div className="flex items-center gap-1.5 text-xs text-muted shrink-0 mt-1">
-              <BookOpen size={12} />
-              <span className="font-mono">
-                {availableModules.length}/{domain.modules.length}
-              </span>
+            <div className="flex flex-col items-end gap-1.5 shrink-0 mt-1">
+              {/* Module count badge */}
+              <div className="flex items-center gap-1.5 text-xs text-muted">
+                <BookOpen size={12} />
+                <span className="font-mono">
+                  {availableModules.length}/{domain.modules.length}
+                </span>
+              </div>
+
+              {/* Progress badge */}
+              {hydrated && visited > 0 && (
+                <div
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] font-mono"
+                  style={{ color: domain.color, backgroundColor: `${domain.color}12` }}
+                  title={`${completed} completed, ${visited} opened`}
+                >
+                  <CheckCircle2 size={11} />
+                  {completed}/{availableModules.length}
+                </div>
+              )}
             </div>
           </div>
 
@@ -297,10 +450,17 @@ function DomainCard({
                 href={mod.href}
                 className="group/link flex items-center gap-2 px-2.5 py-1.5 -mx-1 rounded-lg transition-colors duration-150 hover:bg-[#ffffff06]"
               >
-                <div
-                  className="w-1 h-1 rounded-full shrink-0"
-                  style={{ backgroundColor: domain.color }}
-                />
+                {hydrated && progress[mod.id]?.completedAt !== undefined ? (
+                  <CheckCircle2 size={12} className="shrink-0 -mx-1" style={{ color: domain.color }} />
+                ) : (
+                  <div
+                    className="w-1 h-1 rounded-full shrink-0"
+                    style={{
+                      backgroundColor: domain.color,
+                      opacity: hydrated && progress[mod.id]?.visitedAt === undefined ? 0.5 : 1,
+                    }}
+                  />
+                )}
                 <span className="text-sm text-muted-foreground group-hover/link:text-foreground transition-colors duration-150 truncate">
                   {mod.number} &middot; {mod.title}
                 </span>
@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect } from "react";
+import { postEmbedEvent, useEmbedConfig } from "@/hooks/useEmbed";
+
+interface EmbedFrameProps {
+  moduleId: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Wrapper for a simulator rendered on `/embed/...`. `Navbar` and `Footer`
+ * hide themselves on embed paths; the module's own header is hidden by the
+ * `[data-embed]` rules in globals.css.
+ */
+export default function EmbedFrame({ moduleId, children }: EmbedFrameProps) {
+  const config = useEmbedConfig();
+
+  useEffect(() => {
+    if (!config) return;
+    const root = document.documentElement;
+    root.dataset.embedTheme = config.theme;
+    postEmbedEvent(config, moduleId, { type: "ready" });
+    return () => {
+      delete root.dataset.embedTheme;
+    };
+  }, [config, moduleId]);
+
+  return <div data-embed="">{children}</div>;
+}
@@ -1,6 +1,8 @@
 'use client';
 
+import { usePathname } from 'next/navigation';
 import { Linkedin, Mail, MessageCircle, Github, BookOpen } from 'lucide-react';
+import { isEmbedPath } from '@/lib/embed';
 
 function XIcon({ className, style }: { className?: string; style?: React.CSSProperties }) {
   return (
@@ -19,6 +21,7 @@ const socials = [
 ];
 
 export function Footer() {
+  const pathname = usePathname();
   const handleDiscordClick = (e: React.MouseEvent) => {
     e.preventDefault();
     navigator.clipboard.writeText('dhruvjoshi.28');
@@ -27,6 +30,8 @@ export function Footer() {
     setTimeout(() => btn.setAttribute('data-copied', ''), 2000);
   };
 
+  if (isEmbedPath(pathname)) return null;
+
   return (
     <footer className="mt-20 border-t" style={{ borderColor: 'var(--border)' }}>
       <div className="max-w-6xl mx-auto px-4 sm:px-6 py-10">
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Beaker, BookOpen, CornerDownLeft, Search } from "lucide-react";
+import { searchModules, type SearchResult } from "@/lib/module-search";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function CommandPalette({ open, onClose }: CommandPaletteProps) {
+  if (!open) return null;
+  // Mounting the dialog per open resets the query and selection.
+  return <PaletteDialog onClose={onClose} />;
+}
+
+function PaletteDialog({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const listId = useId();
+  const listRef = useRef<HTMLUListElement>(null);
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+
+  const results = useMemo(() => searchModules(query), [query]);
+  const activeIndex = Math.min(active, results.length - 1);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const go = (result: SearchResult) => {
+    onClose();
+    // Module pages read `?scenario=` on mount, so a preset of the module
+    // already on screen needs a full load rather than a client transition.
+    if (result.href.split("?")[0] === pathname && result.kind === "scenario") {
+      window.location.assign(result.href);
+    } else {
+      router.push(result.href);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive(results.length === 0 ? 0 : (activeIndex + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive(results.length === 0 ? 0 : (activeIndex - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (results[activeIndex]) go(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-start justify-center pt-[12vh] px-4 bg-black/60 backdrop-blur-sm"
+      onMouseDown={onClose}
+    >
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search modules"
+        initial={{ opacity: 0, y: -8, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ duration: 0.15 }}
+        className="w-full max-w-xl rounded-xl border border-[#1e1e2e] bg-[#111118] shadow-2xl shadow-black/50 overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-[#1e1e2e]">
+          <Search size={16} className="text-[#71717a] shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActive(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search modules, algorithms, presets..."
+            role="combobox"
+            aria-expanded="true"
+            aria-controls={listId}
+            aria-activedescendant={
+              results.length > 0 ? `${listId}-${activeIndex}` : undefined
+            }
+            className="flex-1 h-12 bg-transparent text-sm text-white placeholder:text-[#71717a] outline-none"
+          />
+          <kbd className="px-1.5 py-0.5 rounded border border-[#2a2a3e] text-[10px] text-[#71717a] font-mono">
+            Esc
+          </kbd>
+        </div>
+
+        <ul
+          ref={listRef}
+          id={listId}
+          role="listbox"
+          aria-label="Results"
+          className="max-h-[50vh] overflow-y-auto py-2"
+        >
+          {results.length === 0 && (
+            <li className="px-4 py-6 text-center text-sm text-[#71717a]">
+              No modules match &ldquo;{query}&rdquo;
+            </li>
+          )}
+          {results.map((result, i) => {
+            const Icon = result.kind === "scenario" ? Beaker : BookOpen;
+            const isActive = i === activeIndex;
+            return (
+              <li
+                key={`${result.kind}:${result.href}`}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={isActive}
+                data-index={i}
+                onMouseMove={() => setActive(i)}
+                onClick={() => go(result)}
+                className={`mx-2 flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+                  isActive ? "bg-[#1e1e2e]" : ""
+                }`}
+              >
+                <div
+                  className="flex items-center justify-center w-7 h-7 rounded-md shrink-0"
+                  style={{ backgroundColor: `${result.color}1a`, color: result.color }}
+                >
+                  <Icon size={14} />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-white truncate">{result.title}</span>
+                    {result.kind === "scenario" && (
+                      <span className="text-[10px] uppercase tracking-wider text-[#71717a]">
+                        Preset
+                      </span>
+                    )}
+                    {result.matched && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-[#6366f1]/10 text-[#a5b4fc] truncate">
+                        {result.matched}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-[#71717a] truncate">{result.subtitle}</div>
+                </div>
+                {isActive && <CornerDownLeft size={14} className="text-[#71717a] shrink-0" />}
+              </li>
+            );
+          })}
+        </ul>
+      </motion.div>
+    </div>
+  );
+}
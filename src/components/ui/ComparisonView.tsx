@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { useComparison } from "@/hooks/useComparison";
+import { formatDelta, formatMetric, type LockstepSim, type MetricDiff, type Side } from "@/lib/compare";
+import type { ShareState } from "@/lib/share-state";
+import MetricsPanel from "./MetricsPanel";
+import ModuleControls from "./ModuleControls";
+
+const SIDE_COLORS: Record<Side, string> = { left: "#6366f1", right: "#06b6d4" };
+const WIN_COLOR = "#10b981";
+
+export interface ComparisonSide<C> {
+  label: string;
+  config: C;
+}
+
+interface ComparisonViewProps<S, C> {
+  sim: LockstepSim<S, C>;
+  left: ComparisonSide<C>;
+  right: ComparisonSide<C>;
+  /** Draws one side; called with each side's current state. */
+  renderPane: (state: S, config: C, side: Side) => React.ReactNode;
+  /** Milliseconds per tick at 1x. */
+  intervalMs?: number;
+  shareState?: ShareState;
+  /** Extra content for the control bar, e.g. an exit button. */
+  children?: React.ReactNode;
+}
+
+/**
+ * Split view that runs two configurations of one simulator in lockstep under
+ * a single `ModuleControls` and diffs the metrics they report. Restarts when
+ * its `key` changes, so pages key it by the two configs.
+ */
+export default function ComparisonView<S, C>({
+  sim,
+  left,
+  right,
+  renderPane,
+  intervalMs,
+  shareState,
+  children,
+}: ComparisonViewProps<S, C>) {
+  const run = useComparison(sim, left.config, right.config, intervalMs);
+  const [showMetrics, setShowMetrics] = useState(true);
+  const leftMetrics = sim.metrics(run.left, left.config);
+  const rightMetrics = sim.metrics(run.right, right.config);
+
+  const panes: [Side, ComparisonSide<C>, S, typeof leftMetrics][] = [
+    ["left", left, run.left, leftMetrics],
+    ["right", right, run.right, rightMetrics],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <ModuleControls
+        isPlaying={run.isPlaying}
+        completed={run.finished}
+        onPlay={run.play}
+        onPause={run.pause}
+        onStep={run.step}
+        onStepBack={run.history.back}
+        canStepBack={run.history.position > 0}
+        onReset={run.reset}
+        speed={run.speed}
+        onSpeedChange={run.setSpeed}
+        showMetrics={showMetrics}
+        onToggleMetrics={() => setShowMetrics(!showMetrics)}
+        shareState={shareState}
+        timeline={{ position: run.history.position, length: run.history.length, onSeek: run.history.seek }}
+        description={run.diffs
+          .map((d) => `${d.label}: ${formatMetric(d.left, d.digits, d.unit)} vs ${formatMetric(d.right, d.digits, d.unit)}`)
+          .join(". ")}
+      >
+        {children}
+      </ModuleControls>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {panes.map(([side, { label, config }, state, metrics]) => (
+          <section
+            key={side}
+            aria-label={label}
+            className="rounded-xl border bg-[#111118] overflow-hidden"
+            style={{ borderColor: `${SIDE_COLORS[side]}40` }}
+          >
+            <div className="flex items-center gap-2 px-4 py-2.5 border-b border-[#1e1e2e]">
+              <span className="w-2 h-2 rounded-full" style={{ background: SIDE_COLORS[side] }} />
+              <span className="text-sm font-semibold text-white">{label}</span>
+              {sim.done(state, config) && <span className="ml-auto text-[10px] uppercase tracking-wider text-[#10b981]">Done</span>}
+            </div>
+            <div className="p-4 space-y-4">
+              {renderPane(state, config, side)}
+              <MetricsPanel
+                visible={showMetrics}
+                metrics={metrics.map((m) => ({
+                  label: m.label,
+                  value: formatMetric(m.value, m.digits, m.unit),
+                  color: winnerOf(run.diffs, m.label) === side ? WIN_COLOR : undefined,
+                }))}
+              />
+            </div>
+          </section>
+        ))}
+      </div>
+
+      {showMetrics && <DiffTable diffs={run.diffs} left={left.label} right={right.label} />}
+    </div>
+  );
+}
+
+function winnerOf(diffs: MetricDiff[], label: string): MetricDiff["winner"] {
+  return diffs.find((d) => d.label === label)?.winner ?? null;
+}
+
+function DiffTable({ diffs, left, right }: { diffs: MetricDiff[]; left: string; right: string }) {
+  if (diffs.length === 0) return null;
+  return (
+    <div className="rounded-xl border border-[#1e1e2e] bg-[#111118] overflow-x-auto">
+      <table className="w-full text-sm">
+        <caption className="sr-only">Metric differences between {left} and {right}</caption>
+        <thead>
+          <tr className="text-[10px] uppercase tracking-wider text-[#71717a]">
+            <th scope="col" className="px-4 py-2 text-left font-medium">Metric</th>
+            <th scope="col" className="px-4 py-2 text-right font-medium" style={{ color: SIDE_COLORS.left }}>{left}</th>
+            <th scope="col" className="px-4 py-2 text-right font-medium" style={{ color: SIDE_COLORS.right }}>{right}</th>
+            <th scope="col" className="px-4 py-2 text-right font-medium">Δ</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {diffs.map((d) => (
+            <tr key={d.label} className="border-t border-[#1e1e2e]">
+              <th scope="row" className="px-4 py-2 text-left font-sans font-normal text-[#a1a1aa]">{d.label}</th>
+              <td className="px-4 py-2 text-right" style={{ color: d.winner === "left" ? WIN_COLOR : "#e4e4e7" }}>
+                {formatMetric(d.left, d.digits, d.unit)}
+              </td>
+              <td className="px-4 py-2 text-right" style={{ color: d.winner === "right" ? WIN_COLOR : "#e4e4e7" }}>
+                {formatMetric(d.right, d.digits, d.unit)}
+              </td>
+              <td className="px-4 py-2 text-right text-[#71717a]">{formatDelta(d.delta, d.digits, d.unit)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
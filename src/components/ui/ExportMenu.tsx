@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  canRecordWebm,
+  canvasToBlob,
+  captureSteps,
+  downloadBlob,
+  findExportTarget,
+  framesToGif,
+  framesToWebm,
+  rasterize,
+  snapshotSvg,
+} from "@/lib/frame-export";
+
+interface ExportMenuProps {
+  isPlaying: boolean;
+  onPause: () => void;
+  onStep: () => void;
+  onReset: () => void;
+  speed: number;
+  /** File name without extension, e.g. `4-4-trees-step-12`. */
+  filename: string;
+}
+
+/** Wait after each step before the snapshot; long enough for most motion transitions. */
+const SETTLE_MS = 450;
+/** Animation playback: one step per 0.5 s at 1x. */
+const BASE_DELAY_MS = 500;
+
+type Status = { kind: "idle" } | { kind: "busy"; label: string } | { kind: "error"; message: string };
+
+/**
+ * Export popover for `ModuleControls`: the current frame as SVG or PNG, or
+ * a run of steps as GIF or WebM. Animations drive the module through its
+ * own Step handler, so they work for any module with an exportable SVG.
+ */
+export default function ExportMenu({ isPlaying, onPause, onStep, onReset, speed, filename }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [steps, setSteps] = useState(20);
+  const [fromReset, setFromReset] = useState(false);
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+  const busy = status.kind === "busy";
+
+  // Step handlers usually close over the render they came from; captures
+  // span many renders, so always call the latest one.
+  const stepRef = useRef(onStep);
+  useEffect(() => {
+    stepRef.current = onStep;
+  }, [onStep]);
+
+  const run = async (task: () => Promise<void>) => {
+    if (!findExportTarget()) {
+      setStatus({ kind: "error", message: "This module has no SVG view to export." });
+      return;
+    }
+    try {
+      await task();
+      setStatus({ kind: "idle" });
+    } catch (err) {
+      setStatus({ kind: "error", message: err instanceof Error ? err.message : "Export failed." });
+    }
+  };
+
+  const exportSvg = () =>
+    run(async () => {
+      const { markup } = snapshotSvg(findExportTarget()!);
+      downloadBlob(new Blob([markup], { type: "image/svg+xml" }), `${filename}.svg`);
+    });
+
+  const exportPng = () =>
+    run(async () => {
+      const canvas = await rasterize(snapshotSvg(findExportTarget()!), window.devicePixelRatio > 1 ? 2 : 1);
+      downloadBlob(await canvasToBlob(canvas), `${filename}.png`);
+    });
+
+  const exportAnimation = (format: "gif" | "webm") =>
+    run(async () => {
+      if (isPlaying) onPause();
+      if (fromReset) {
+        onReset();
+        await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+      }
+      setStatus({ kind: "busy", label: "Capturing…" });
+      const frames = await captureSteps({
+        steps,
+        advance: () => stepRef.current(),
+        settleMs: SETTLE_MS,
+        onProgress: (n) => setStatus({ kind: "busy", label: `Capturing frame ${n}/${steps + 1}…` }),
+      });
+      if (frames.length === 0) throw new Error("Nothing to capture.");
+      setStatus({ kind: "busy", label: format === "gif" ? "Encoding GIF…" : "Recording WebM…" });
+      const delay = Math.round(BASE_DELAY_MS / speed);
+      const blob = format === "gif" ? await framesToGif(frames, delay) : await framesToWebm(frames, delay);
+      downloadBlob(blob, `${filename}.${format}`);
+    });
+
+  const buttonClass =
+    "flex-1 px-2 py-1.5 rounded-lg text-xs font-medium bg-[#1e1e2e] text-[#a1a1aa] hover:bg-[#2a2a3e] hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={`flex items-center justify-center w-10 h-10 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#6366f1] ${
+          open ? "bg-[#6366f1]/20 text-[#6366f1]" : "bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#71717a] hover:text-white"
+        }`}
+        title="Export"
+        aria-label="Export"
+        aria-expanded={open}
+      >
+        {busy ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-12 z-30 w-64 p-3 space-y-3 rounded-xl border border-[#1e1e2e] bg-[#111118] shadow-2xl shadow-black/50">
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium mb-1.5">Current frame</div>
+            <div className="flex gap-1.5">
+              <button onClick={exportSvg} disabled={busy} className={buttonClass}>
+                SVG
+              </button>
+              <button onClick={exportPng} disabled={busy} className={buttonClass}>
+                PNG
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium mb-1.5">Animation</div>
+            <div className="flex items-center gap-2 mb-2 text-xs text-[#a1a1aa]">
+              <label className="flex items-center gap-1.5">
+                Steps
+                <input
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={steps}
+                  onChange={(e) => setSteps(Math.min(200, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-14 px-1.5 py-1 rounded-md bg-[#0a0a0f] border border-[#1e1e2e] font-mono text-white focus:outline-none focus:border-[#6366f1]"
+                />
+              </label>
+              <label className="flex items-center gap-1.5 ml-auto">
+                <input
+                  type="checkbox"
+                  checked={fromReset}
+                  onChange={(e) => setFromReset(e.target.checked)}
+                  className="accent-[#6366f1]"
+                />
+                From reset
+              </label>
+            </div>
+            <div className="flex gap-1.5">
+              <button onClick={() => exportAnimation("gif")} disabled={busy} className={buttonClass}>
+                GIF
+              </button>
+              <button
+                onClick={() => exportAnimation("webm")}
+                disabled={busy || !canRecordWebm()}
+                className={buttonClass}
+                title={canRecordWebm() ? undefined : "This browser can't record WebM"}
+              >
+                WebM
+              </button>
+            </div>
+          </div>
+
+          {status.kind !== "idle" && (
+            <p className={`text-[11px] ${status.kind === "error" ? "text-[#ef4444]" : "text-[#a1a1aa]"}`}>
+              {status.kind === "error" ? status.message : status.label}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
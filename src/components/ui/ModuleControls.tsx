@@ -1,107 +1,351 @@
 "use client";
 
-import { Play, Pause, SkipForward, RotateCcw, Share2, BarChart3 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Play, Pause, SkipBack, SkipForward, RotateCcw, Share2, BarChart3, Check, Bookmark, Code2, Keyboard } from "lucide-react";
+import { postEmbedEvent, useEmbedConfig } from "@/hooks/useEmbed";
+import { useModuleCompletion } from "@/hooks/useModuleCompletion";
+import { useCurrentModuleId, useProgressStore } from "@/hooks/useProgressStore";
+import { useSimulatorShortcuts } from "@/hooks/useSimulatorShortcuts";
+import { getModule } from "@/lib/domains";
+import { buildEmbedUrl, embedSnippet, modulePageUrl } from "@/lib/embed";
+import { moduleSearchMeta } from "@/lib/search-catalog";
+import { buildShareUrl, type ShareState } from "@/lib/share-state";
+import { ariaKeys, stepSpeed, type ShortcutAction } from "@/lib/shortcuts";
+import ExportMenu from "./ExportMenu";
+import ShortcutHelp from "./ShortcutHelp";
+import StepAnnouncer from "./StepAnnouncer";
+import TimelineScrubber, { type TimelineScrubberProps } from "./TimelineScrubber";
 
 interface ModuleControlsProps {
   isPlaying: boolean;
   onPlay: () => void;
   onPause: () => void;
   onStep: () => void;
+  /** Shown as a Step Back button when the module keeps a step history. */
+  onStepBack?: () => void;
+  canStepBack?: boolean;
   onReset: () => void;
   speed: number;
   onSpeedChange: (speed: number) => void;
   showMetrics?: boolean;
   onToggleMetrics?: () => void;
+  /** Current simulator state; when given, Copy Link reproduces this exact frame. */
+  shareState?: ShareState;
+  /** Renders a draggable scrubber across the module's recorded frames. */
+  timeline?: TimelineScrubberProps;
+  /** True once the run has finished; records the module (and scenario) as completed. */
+  completed?: boolean;
+  /** What the current step does, announced to screen readers as it changes. */
+  description?: string;
   children?: React.ReactNode;
 }
 
+function bookmarkLabel(moduleId: string, state: ShareState): string {
+  const scenario = moduleSearchMeta[moduleId]?.scenarios.find((s) => s.id === state.scenario);
+  const name = scenario?.label ?? state.scenario ?? "Custom";
+  return state.step ? `${name} · step ${state.step}` : name;
+}
+
+/**
+ * Copies `text`, or shows it in a prompt with the text selected when the
+ * clipboard is unavailable (insecure origin) or access is denied.
+ */
+function copyText(text: string, promptLabel: string, onCopied: () => void) {
+  const showText = () => {
+    window.prompt(promptLabel, text);
+  };
+  if (!navigator.clipboard) {
+    showText();
+    return;
+  }
+  navigator.clipboard.writeText(text).then(onCopied, showText);
+}
+
 export default function ModuleControls({
   isPlaying,
   onPlay,
   onPause,
   onStep,
+  onStepBack,
+  canStepBack = true,
   onReset,
   speed,
   onSpeedChange,
   showMetrics,
   onToggleMetrics,
+  shareState,
+  timeline,
+  completed = false,
+  description,
   children,
 }: ModuleControlsProps) {
+  const [copied, setCopied] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [bookmarked, setBookmarked] = useState(false);
+  const [embedCopied, setEmbedCopied] = useState(false);
+  const moduleId = useCurrentModuleId();
+  const embed = useEmbedConfig();
+  const scenario = shareState?.scenario;
+  const step = timeline?.position ?? shareState?.step;
+  const lastScenarioRef = useRef(scenario);
+
+  // Reopen at the learner's last speed unless the link (or embed) sets one.
+  useEffect(() => {
+    if (!moduleId || embed || new URLSearchParams(window.location.search).has("speed")) return;
+    const saved = useProgressStore.getState().modules[moduleId]?.settings?.speed;
+    if (saved !== undefined) onSpeedChange(saved);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [moduleId]);
+
+  useEffect(() => {
+    if (!moduleId || scenario === lastScenarioRef.current) return;
+    lastScenarioRef.current = scenario;
+    useProgressStore.getState().updateSettings(moduleId, { scenario });
+  }, [moduleId, scenario]);
+
+  useModuleCompletion(completed, scenario);
+
+  // Keep a host page in sync when rendered in an embed frame.
+  useEffect(() => {
+    if (embed && moduleId && scenario) postEmbedEvent(embed, moduleId, { type: "scenario", scenario });
+  }, [embed, moduleId, scenario]);
+
+  useEffect(() => {
+    if (embed && moduleId && step !== undefined) {
+      postEmbedEvent(embed, moduleId, { type: "step", step, total: timeline?.length });
+    }
+  }, [embed, moduleId, step, timeline?.length]);
+
+  useEffect(() => {
+    if (!bookmarked) return;
+    const timeout = setTimeout(() => setBookmarked(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [bookmarked]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  useEffect(() => {
+    if (!embedCopied) return;
+    const timeout = setTimeout(() => setEmbedCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [embedCopied]);
+
+  const handleSpeedChange = (value: number) => {
+    onSpeedChange(value);
+    if (moduleId) useProgressStore.getState().updateSettings(moduleId, { speed: value });
+  };
+
+  const handleBookmark = () => {
+    if (!moduleId || !shareState) return;
+    useProgressStore.getState().addBookmark(moduleId, bookmarkLabel(moduleId, shareState), shareState);
+    setBookmarked(true);
+  };
+
+  const handleShare = () => {
+    // From an embed, share the full module page rather than the bare frame.
+    const href = embed ? modulePageUrl(window.location.href) : window.location.href;
+    const url = shareState ? buildShareUrl(shareState, href) : href;
+    copyText(url, "Copy this link:", () => setCopied(true));
+  };
+
+  const handleCopyEmbed = () => {
+    const entry = moduleId ? getModule(moduleId)?.module : undefined;
+    if (!entry) return;
+    const snippet = embedSnippet(buildEmbedUrl(entry.href, shareState ?? {}), `${entry.number} ${entry.title}`);
+    copyText(snippet, "Copy this embed code:", () => setEmbedCopied(true));
+  };
+
+  const slug = moduleId ? getModule(moduleId)?.module.href.split("/").pop() : undefined;
+  const exportName = `${slug ?? "frame"}${step !== undefined ? `-step-${step}` : ""}`;
+
+  const shortcuts: Partial<Record<ShortcutAction, () => void>> = {
+    playPause: isPlaying ? onPause : onPlay,
+    step: onStep,
+    stepBack: onStepBack && canStepBack ? onStepBack : undefined,
+    reset: onReset,
+    faster: () => handleSpeedChange(stepSpeed(speed, 1)),
+    slower: () => handleSpeedChange(stepSpeed(speed, -1)),
+    metrics: onToggleMetrics,
+    help: () => setHelpOpen(true),
+  };
+  const hidden = embed !== null && !embed.controls;
+  useSimulatorShortcuts(shortcuts, !hidden);
+
+  if (hidden) return null;
+
+  const focusRing = "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#6366f1]";
+
   return (
-    <div className="flex items-center gap-2 p-3 bg-[#111118] border border-[#1e1e2e] rounded-xl">
-      {/* Play/Pause */}
-      <button
-        onClick={isPlaying ? onPause : onPlay}
-        className="flex items-center justify-center w-10 h-10 rounded-lg bg-[#6366f1] hover:bg-[#818cf8] text-white transition-all duration-200 hover:scale-105 active:scale-95"
-        title={isPlaying ? "Pause" : "Play"}
-      >
-        {isPlaying ? <Pause size={18} /> : <Play size={18} className="ml-0.5" />}
-      </button>
-
-      {/* Step */}
-      <button
-        onClick={onStep}
-        className="flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#a1a1aa] hover:text-white transition-all duration-200"
-        title="Step Forward"
-      >
-        <SkipForward size={18} />
-      </button>
-
-      {/* Reset */}
-      <button
-        onClick={onReset}
-        className="flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#a1a1aa] hover:text-white transition-all duration-200"
-        title="Reset"
-      >
-        <RotateCcw size={18} />
-      </button>
-
-      {/* Divider */}
-      <div className="w-px h-8 bg-[#1e1e2e] mx-1" />
-
-      {/* Speed Control */}
+    <div className="p-3 bg-[#111118] border border-[#1e1e2e] rounded-xl">
       <div className="flex items-center gap-2">
-        <span className="text-xs text-[#71717a] font-mono whitespace-nowrap">{speed.toFixed(1)}x</span>
-        <input
-          type="range"
-          min={-1}
-          max={3}
-          step={0.1}
-          value={Math.log2(speed)}
-          onChange={(e) => onSpeedChange(Math.pow(2, parseFloat(e.target.value)))}
-          className="w-20 h-1.5 accent-[#6366f1] bg-[#1e1e2e] rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#6366f1]"
-        />
-      </div>
+        {/* Play/Pause */}
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#6366f1] hover:bg-[#818cf8] text-white transition-all duration-200 hover:scale-105 active:scale-95 ${focusRing}`}
+          title={isPlaying ? "Pause" : "Play"}
+          aria-label={isPlaying ? "Pause" : "Play"}
+          aria-keyshortcuts={ariaKeys("playPause")}
+        >
+          {isPlaying ? <Pause size={18} /> : <Play size={18} className="ml-0.5" />}
+        </button>
 
-      {/* Divider */}
-      <div className="w-px h-8 bg-[#1e1e2e] mx-1" />
+        {/* Step Back */}
+        {onStepBack && (
+          <button
+            onClick={onStepBack}
+            disabled={!canStepBack}
+            className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#a1a1aa] hover:text-white transition-all duration-200 disabled:opacity-40 disabled:pointer-events-none ${focusRing}`}
+            title="Step Back"
+            aria-label="Step back"
+            aria-keyshortcuts={ariaKeys("stepBack")}
+          >
+            <SkipBack size={18} />
+          </button>
+        )}
 
-      {/* Additional controls */}
-      {children}
+        {/* Step */}
+        <button
+          onClick={onStep}
+          className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#a1a1aa] hover:text-white transition-all duration-200 ${focusRing}`}
+          title="Step Forward"
+          aria-label="Step forward"
+          aria-keyshortcuts={ariaKeys("step")}
+        >
+          <SkipForward size={18} />
+        </button>
 
-      {/* Metrics toggle */}
-      {onToggleMetrics && (
+        {/* Reset */}
         <button
-          onClick={onToggleMetrics}
-          className={`flex items-center justify-center w-10 h-10 rounded-lg transition-all duration-200 ${
-            showMetrics
-              ? "bg-[#6366f1]/20 text-[#6366f1]"
-              : "bg-[#1e1e2e] text-[#71717a] hover:bg-[#2a2a3e] hover:text-white"
-          }`}
-          title="Toggle Metrics"
+          onClick={onReset}
+          className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#a1a1aa] hover:text-white transition-all duration-200 ${focusRing}`}
+          title="Reset"
+          aria-label="Reset"
+          aria-keyshortcuts={ariaKeys("reset")}
         >
-          <BarChart3 size={18} />
+          <RotateCcw size={18} />
         </button>
+
+        {/* Divider */}
+        <div className="w-px h-8 bg-[#1e1e2e] mx-1" />
+
+        {/* Speed Control */}
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-[#71717a] font-mono whitespace-nowrap">{speed.toFixed(1)}x</span>
+          <input
+            type="range"
+            min={-1}
+            max={3}
+            step={0.1}
+            value={Math.log2(speed)}
+            onChange={(e) => handleSpeedChange(Math.pow(2, parseFloat(e.target.value)))}
+            aria-label="Speed"
+            aria-valuetext={`${speed.toFixed(1)}x`}
+            aria-keyshortcuts={`${ariaKeys("faster")} ${ariaKeys("slower")}`}
+            className="w-20 h-1.5 accent-[#6366f1] bg-[#1e1e2e] rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#6366f1]"
+          />
+        </div>
+
+        {/* Divider */}
+        <div className="w-px h-8 bg-[#1e1e2e] mx-1" />
+
+        {/* Additional controls */}
+        {children}
+
+        {/* Metrics toggle */}
+        {onToggleMetrics && (
+          <button
+            onClick={onToggleMetrics}
+            className={`flex items-center justify-center w-10 h-10 rounded-lg transition-all duration-200 ${focusRing} ${
+              showMetrics
+                ? "bg-[#6366f1]/20 text-[#6366f1]"
+                : "bg-[#1e1e2e] text-[#71717a] hover:bg-[#2a2a3e] hover:text-white"
+            }`}
+            title="Toggle Metrics"
+            aria-label="Metrics"
+            aria-pressed={showMetrics}
+            aria-keyshortcuts={ariaKeys("metrics")}
+          >
+            <BarChart3 size={18} />
+          </button>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto">
+          {/* Export */}
+          {!embed && (
+            <ExportMenu
+              isPlaying={isPlaying}
+              onPause={onPause}
+              onStep={onStep}
+              onReset={onReset}
+              speed={speed}
+              filename={exportName}
+            />
+          )}
+
+          {/* Bookmark */}
+          {shareState && moduleId && !embed && (
+            <button
+              onClick={handleBookmark}
+              className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#71717a] hover:text-white transition-all duration-200 ${focusRing}`}
+              title={bookmarked ? "Bookmarked" : "Bookmark This State"}
+              aria-label={bookmarked ? "Bookmarked" : "Bookmark this state"}
+            >
+              {bookmarked ? <Check size={16} className="text-[#10b981]" /> : <Bookmark size={16} />}
+            </button>
+          )}
+
+          {/* Embed */}
+          {moduleId && !embed && (
+            <button
+              onClick={handleCopyEmbed}
+              className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#71717a] hover:text-white transition-all duration-200 ${focusRing}`}
+              title={embedCopied ? "Embed Code Copied" : "Copy Embed Code"}
+              aria-label={embedCopied ? "Embed code copied" : "Copy embed code"}
+            >
+              {embedCopied ? <Check size={16} className="text-[#10b981]" /> : <Code2 size={16} />}
+            </button>
+          )}
+
+          {/* Shortcuts */}
+          <button
+            onClick={() => setHelpOpen(true)}
+            className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#71717a] hover:text-white transition-all duration-200 ${focusRing}`}
+            title="Keyboard Shortcuts (?)"
+            aria-label="Keyboard shortcuts"
+            aria-keyshortcuts="?"
+          >
+            <Keyboard size={16} />
+          </button>
+
+          {/* Share */}
+          <button
+            onClick={handleShare}
+            className={`flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#71717a] hover:text-white transition-all duration-200 ${focusRing}`}
+            title={copied ? "Link Copied" : "Copy Link"}
+            aria-label={copied ? "Link copied" : "Copy link"}
+          >
+            {copied ? <Check size={16} className="text-[#10b981]" /> : <Share2 size={16} />}
+          </button>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      {timeline && (
+        <div className="mt-3 pt-3 border-t border-[#1e1e2e]">
+          <TimelineScrubber {...timeline} />
+        </div>
       )}
 
-      {/* Share */}
-      <button
-        onClick={() => navigator.clipboard?.writeText(window.location.href)}
-        className="flex items-center justify-center w-10 h-10 rounded-lg bg-[#1e1e2e] hover:bg-[#2a2a3e] text-[#71717a] hover:text-white transition-all duration-200 ml-auto"
-        title="Copy Link"
-      >
-        <Share2 size={16} />
-      </button>
+      <StepAnnouncer text={description} />
+      <ShortcutHelp
+        open={helpOpen}
+        onClose={() => setHelpOpen(false)}
+        actions={(Object.keys(shortcuts) as ShortcutAction[]).filter((action) => shortcuts[action])}
+      />
     </div>
   );
 }
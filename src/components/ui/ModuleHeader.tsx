@@ -1,7 +1,7 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { ArrowRight } from "lucide-react";
+import ModuleLinks, { type ModuleLink } from "@/components/ui/ModuleLinks";
 
 interface ModuleHeaderProps {
   moduleNumber: string;
@@ -9,8 +9,10 @@ interface ModuleHeaderProps {
   description: string;
   domain: string;
   domainColor: string;
-  prerequisites?: { label: string; href: string }[];
-  usedIn?: { label: string; href: string }[];
+  /** Defaults to the prerequisites in the module catalog. */
+  prerequisites?: ModuleLink[];
+  /** Defaults to the catalog modules that build on this one. */
+  usedIn?: ModuleLink[];
 }
 
 export default function ModuleHeader({
@@ -19,11 +21,12 @@ export default function ModuleHeader({
   description,
   domain,
   domainColor,
-  prerequisites = [],
-  usedIn = [],
+  prerequisites,
+  usedIn,
 }: ModuleHeaderProps) {
   return (
     <motion.div
+      data-module-header
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.5, ease: "easeOut" }}
@@ -48,38 +51,11 @@ export default function ModuleHeader({
       </h1>
       <p className="text-[#a1a1aa] text-base max-w-2xl">{description}</p>
 
-      {(prerequisites.length > 0 || usedIn.length > 0) && (
-        <div className="flex flex-wrap gap-4 pt-1">
-          {prerequisites.length > 0 && (
-            <div className="flex items-center gap-2 text-xs text-[#71717a]">
-              <span className="text-[#71717a]/60">Built on:</span>
-              {prerequisites.map((p) => (
-                <a
-                  key={p.href}
-                  href={p.href}
-                  className="text-[#6366f1] hover:text-[#818cf8] transition-colors"
-                >
-                  {p.label}
-                </a>
-              ))}
-            </div>
-          )}
-          {usedIn.length > 0 && (
-            <div className="flex items-center gap-2 text-xs text-[#71717a]">
-              <span className="text-[#71717a]/60">Used in:</span>
-              {usedIn.map((u) => (
-                <a
-                  key={u.href}
-                  href={u.href}
-                  className="text-[#06b6d4] hover:text-[#22d3ee] transition-colors flex items-center gap-1"
-                >
-                  {u.label} <ArrowRight size={10} />
-                </a>
-              ))}
-            </div>
-          )}
-        </div>
-      )}
+      <ModuleLinks
+        moduleId={moduleNumber}
+        prerequisites={prerequisites}
+        usedIn={usedIn}
+      />
     </motion.div>
   );
 }
@@ -0,0 +1,67 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowRight } from "lucide-react";
+import { getDependents, getPrerequisites, type Module } from "@/lib/domains";
+
+export interface ModuleLink {
+  label: string;
+  href: string;
+}
+
+interface ModuleLinksProps {
+  moduleId: string;
+  /** Overrides the prerequisites listed in the module catalog. */
+  prerequisites?: ModuleLink[];
+  /** Overrides the catalog's modules that build on this one. */
+  usedIn?: ModuleLink[];
+  className?: string;
+}
+
+const toLink = (m: Module): ModuleLink => ({ label: `${m.number} ${m.title}`, href: m.href });
+
+/**
+ * "Built on" / "Used in" chips for a module, read from the prerequisite
+ * edges in `lib/domains.ts`. Renders nothing for a module with no edges.
+ */
+export default function ModuleLinks({
+  moduleId,
+  prerequisites = getPrerequisites(moduleId).map(toLink),
+  usedIn = getDependents(moduleId).map(toLink),
+  className = "",
+}: ModuleLinksProps) {
+  if (prerequisites.length === 0 && usedIn.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-x-4 gap-y-2 pt-1 ${className}`}>
+      {prerequisites.length > 0 && (
+        <div className="flex items-center flex-wrap gap-1.5 text-xs text-[#71717a]">
+          <span className="text-[#71717a]/60">Built on:</span>
+          {prerequisites.map((p) => (
+            <Link
+              key={p.href}
+              href={p.href}
+              className="px-2 py-0.5 rounded-md bg-[#6366f1]/10 border border-[#6366f1]/20 text-[#818cf8] hover:text-white hover:bg-[#6366f1]/20 transition-colors"
+            >
+              {p.label}
+            </Link>
+          ))}
+        </div>
+      )}
+      {usedIn.length > 0 && (
+        <div className="flex items-center flex-wrap gap-1.5 text-xs text-[#71717a]">
+          <span className="text-[#71717a]/60">Used in:</span>
+          {usedIn.map((u) => (
+            <Link
+              key={u.href}
+              href={u.href}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-[#06b6d4]/10 border border-[#06b6d4]/20 text-[#22d3ee] hover:text-white hover:bg-[#06b6d4]/20 transition-colors"
+            >
+              {u.label} <ArrowRight size={10} />
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { AnimatePresence, motion } from "framer-motion";
+import { Brain, CircleCheck, CircleX, Loader2, Play, RotateCcw, SkipForward } from "lucide-react";
+import type { QuizControls } from "@/hooks/useQuiz";
+
+interface QuizPanelProps<S> {
+  quiz: QuizControls<S>;
+  /** Restarts playback after a question paused it. */
+  onContinue?: () => void;
+  /** Shown while predict mode is off, e.g. what the module will ask about. */
+  hint?: string;
+}
+
+/**
+ * Predict mode toggle, the open question, feedback on the last answer and
+ * the session score. Sits inline with a module's own panels.
+ */
+export default function QuizPanel<S>({ quiz, onContinue, hint }: QuizPanelProps<S>) {
+  const { enabled, question, feedback, summary } = quiz;
+
+  return (
+    <div className="rounded-xl border border-[#1e1e2e] bg-[#111118] p-4">
+      <div className="flex items-center gap-2">
+        <Brain size={15} className="text-[#f59e0b]" />
+        <span className="text-sm font-medium text-white">Predict the next step</span>
+        <button
+          onClick={quiz.toggle}
+          role="switch"
+          aria-checked={enabled}
+          className={`ml-auto relative w-9 h-5 rounded-full transition-colors ${
+            enabled ? "bg-[#f59e0b]" : "bg-[#1e1e2e]"
+          }`}
+        >
+          <span
+            className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+              enabled ? "translate-x-4" : ""
+            }`}
+          />
+          <span className="sr-only">Predict mode</span>
+        </button>
+      </div>
+
+      {!enabled && hint && <p className="mt-2 text-xs text-[#71717a] leading-relaxed">{hint}</p>}
+
+      <AnimatePresence mode="wait">
+        {enabled && question && (
+          <motion.div
+            key={question.prompt}
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.15 }}
+            className="mt-3"
+            aria-live="polite"
+          >
+            <p className="text-sm text-[#e4e4e7] leading-relaxed">{question.prompt}</p>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {question.choices.map((choice) => (
+                <button
+                  key={choice.id}
+                  onClick={() => quiz.answer(choice.id)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-mono font-medium bg-[#f59e0b]/10 text-[#fbbf24] border border-[#f59e0b]/25 hover:bg-[#f59e0b]/20 transition-colors"
+                >
+                  {choice.label}
+                </button>
+              ))}
+              <button
+                onClick={quiz.skip}
+                className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs text-[#71717a] hover:text-white hover:bg-[#1e1e2e] transition-colors"
+              >
+                <SkipForward size={12} />
+                Skip
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {enabled && !question && (
+        <div className="mt-3 space-y-2" aria-live="polite">
+          {quiz.awaiting ? (
+            <div className="flex items-center gap-2 text-xs text-[#a1a1aa]">
+              <Loader2 size={13} className="animate-spin text-[#f59e0b]" />
+              Answer locked in. Keep the simulation running to see how it plays out.
+            </div>
+          ) : feedback ? (
+            <div className="flex gap-2 text-xs leading-relaxed">
+              {feedback.correct ? (
+                <CircleCheck size={15} className="shrink-0 text-[#10b981]" />
+              ) : (
+                <CircleX size={15} className="shrink-0 text-[#ef4444]" />
+              )}
+              <div>
+                <span className={feedback.correct ? "text-[#10b981]" : "text-[#ef4444]"}>
+                  {feedback.correct ? "Correct" : `Not quite: the answer was ${feedback.answer}`}
+                </span>
+                {feedback.explanation && <p className="text-[#a1a1aa]">{feedback.explanation}</p>}
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-[#71717a]">Press Play or Step. The simulation stops before each key step.</p>
+          )}
+          {quiz.canResume && onContinue && (
+            <button
+              onClick={onContinue}
+              className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-[#f59e0b]/15 text-[#fbbf24] hover:bg-[#f59e0b]/25 transition-colors"
+            >
+              <Play size={12} />
+              Continue
+            </button>
+          )}
+        </div>
+      )}
+
+      {summary.asked > 0 && (
+        <div className="mt-3 pt-3 border-t border-[#1e1e2e] flex items-center gap-3 text-[11px] font-mono text-[#71717a]">
+          <span>
+            <span className="text-white">{summary.correct}</span>/{summary.asked} correct
+          </span>
+          <span>{Math.round(summary.accuracy * 100)}%</span>
+          <span>streak {summary.streak}</span>
+          <span>best {summary.bestStreak}</span>
+          <button
+            onClick={quiz.reset}
+            className="ml-auto flex items-center justify-center w-6 h-6 rounded-md hover:text-white hover:bg-[#1e1e2e] transition-colors"
+            aria-label="Reset quiz score"
+            title="Reset score"
+          >
+            <RotateCcw size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,578 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Plus, Trash2, Minus } from "lucide-react";
+import {
+  DEFAULT_GATE_DELAYS,
+  GATE_TYPES,
+  defaultPinCount,
+  pinCount,
+  type Circuit,
+  type CircuitNode,
+  type GateType,
+} from "@/lib/sim/logic";
+
+const GRID = 10;
+const WIDTH = 800;
+const HEIGHT = 420;
+const IO_WIDTH = 48;
+const IO_HEIGHT = 28;
+const GATE_WIDTH = 60;
+/** Where the gate body starts after the input stubs. */
+const BODY_X = 10;
+const MAX_PINS = 4;
+
+const HIGH = "#10b981";
+const LOW = "#71717a";
+const SELECTED = "#6366f1";
+const FLAGGED = "#f59e0b";
+
+type Selection = { kind: "node"; id: string } | { kind: "wire"; index: number } | null;
+
+function gateHeight(pins: number): number {
+  return Math.max(40, pins * 16 + 8);
+}
+
+function nodeSize(node: CircuitNode): { w: number; h: number } {
+  return node.kind === "gate" ? { w: GATE_WIDTH, h: gateHeight(node.pins) } : { w: IO_WIDTH, h: IO_HEIGHT };
+}
+
+function outputPort(node: CircuitNode): { x: number; y: number } {
+  const { w, h } = nodeSize(node);
+  return { x: node.x + w, y: node.y + h / 2 };
+}
+
+function inputPin(node: CircuitNode, pin: number): { x: number; y: number } {
+  const { h } = nodeSize(node);
+  return { x: node.x, y: node.y + (h * (pin + 1)) / (pinCount(node) + 1) };
+}
+
+function isInverting(gate: GateType): boolean {
+  return gate === "NOT" || gate === "NAND" || gate === "NOR" || gate === "XNOR";
+}
+
+/** Body outline relative to the body origin, and where the body ends on the right. */
+function gateBody(gate: GateType, h: number): { d: string; right: number } {
+  switch (gate) {
+    case "AND":
+    case "NAND":
+      return { d: `M0 0 H16 A16 ${h / 2} 0 0 1 16 ${h} H0 Z`, right: 32 };
+    case "OR":
+    case "NOR":
+      return { d: `M0 0 Q22 0 34 ${h / 2} Q22 ${h} 0 ${h} Q10 ${h / 2} 0 0 Z`, right: 34 };
+    case "XOR":
+    case "XNOR":
+      return {
+        d: `M5 0 Q26 0 36 ${h / 2} Q26 ${h} 5 ${h} Q15 ${h / 2} 5 0 Z M0 0 Q10 ${h / 2} 0 ${h}`,
+        right: 36,
+      };
+    case "NOT":
+      return { d: `M2 4 L30 ${h / 2} L2 ${h - 4} Z`, right: 30 };
+  }
+}
+
+/** Gate glyph in distinctive-shape (ANSI) style, drawn at the origin. */
+export function GateGlyph({ gate, pins, value }: { gate: GateType; pins: number; value?: number }) {
+  const h = gateHeight(pins);
+  const { d, right } = gateBody(gate, h);
+  const stroke = value === undefined ? "#a1a1aa" : value ? HIGH : LOW;
+  const bubble = isInverting(gate);
+  const end = BODY_X + right + (bubble ? 7 : 0);
+  return (
+    <g>
+      {Array.from({ length: pins }, (_, pin) => {
+        const y = (h * (pin + 1)) / (pins + 1);
+        return <line key={pin} x1={0} y1={y} x2={BODY_X + 6} y2={y} stroke="#3f3f46" strokeWidth={2} />;
+      })}
+      <path
+        d={d}
+        transform={`translate(${BODY_X} 0)`}
+        fill={value ? "rgba(16,185,129,0.12)" : "#111118"}
+        stroke={stroke}
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+      {bubble && <circle cx={BODY_X + right + 3.5} cy={h / 2} r={3.5} fill="#0a0a0f" stroke={stroke} strokeWidth={2} />}
+      <line x1={end} y1={h / 2} x2={GATE_WIDTH} y2={h / 2} stroke="#3f3f46" strokeWidth={2} />
+    </g>
+  );
+}
+
+function wirePath(a: { x: number; y: number }, b: { x: number; y: number }): string {
+  const bend = Math.max(20, Math.abs(b.x - a.x) / 2);
+  return `M${a.x} ${a.y} C${a.x + bend} ${a.y} ${b.x - bend} ${b.y} ${b.x} ${b.y}`;
+}
+
+function nextId(circuit: Circuit): string {
+  const max = circuit.nodes.reduce((m, n) => Math.max(m, parseInt(n.id.replace(/\D/g, ""), 10) || 0), 0);
+  return `n${max + 1}`;
+}
+
+function nextName(circuit: Circuit, kind: "input" | "output"): string {
+  const taken = new Set(circuit.nodes.map((n) => (n.kind === "gate" ? "" : n.name)));
+  const pool = kind === "input" ? "ABCDEFGH" : "FGHXYZ";
+  for (const c of pool) if (!taken.has(c)) return c;
+  let i = 1;
+  while (taken.has(`${kind === "input" ? "In" : "Out"}${i}`)) i++;
+  return `${kind === "input" ? "In" : "Out"}${i}`;
+}
+
+const snap = (v: number) => Math.round(v / GRID) * GRID;
+
+interface SchematicEditorProps {
+  circuit: Circuit;
+  /** Omit to render a read-only schematic. */
+  onChange?: (circuit: Circuit) => void;
+  /** Value on each node's output; colors wires and gates. */
+  values?: Record<string, number>;
+  /** Clicking an input node (without dragging it) toggles it. */
+  onToggleInput?: (id: string) => void;
+  /** Nodes drawn with a warning ring, e.g. ones with issues or hazards. */
+  flagged?: Set<string>;
+  /** Input count limit for the Add Input button. */
+  maxInputs?: number;
+  /** Canvas size in schematic units, for circuits laid out elsewhere. */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Drag-and-drop schematic canvas. Drag nodes to place them; click an output
+ * port, then an input pin, to wire them. Delete or Backspace removes the
+ * selected node or wire.
+ */
+export default function SchematicEditor({
+  circuit,
+  onChange,
+  values = {},
+  onToggleInput,
+  flagged,
+  maxInputs = 6,
+  width = WIDTH,
+  height = HEIGHT,
+}: SchematicEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ id: string; dx: number; dy: number; moved: boolean } | null>(null);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [pendingFrom, setPendingFrom] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const editable = onChange !== undefined;
+  const byId = new Map(circuit.nodes.map((n) => [n.id, n]));
+
+  const toSvg = (e: React.PointerEvent): { x: number; y: number } => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return { x: 0, y: 0 };
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: p.x, y: p.y };
+  };
+
+  const updateNode = (id: string, patch: Partial<CircuitNode>) =>
+    onChange?.({
+      ...circuit,
+      nodes: circuit.nodes.map((n) => (n.id === id ? ({ ...n, ...patch } as CircuitNode) : n)),
+    });
+
+  const removeSelection = () => {
+    if (!onChange || !selection) return;
+    if (selection.kind === "wire") {
+      onChange({ ...circuit, wires: circuit.wires.filter((_, i) => i !== selection.index) });
+    } else {
+      onChange({
+        nodes: circuit.nodes.filter((n) => n.id !== selection.id),
+        wires: circuit.wires.filter((w) => w.from !== selection.id && w.to !== selection.id),
+      });
+    }
+    setSelection(null);
+  };
+
+  const addNode = (kind: "input" | "output" | GateType) => {
+    if (!onChange) return;
+    const id = nextId(circuit);
+    const offset = (circuit.nodes.length % 6) * 20;
+    const node: CircuitNode =
+      kind === "input"
+        ? { id, kind, name: nextName(circuit, kind), x: 20, y: 20 + offset * 3 }
+        : kind === "output"
+          ? { id, kind, name: nextName(circuit, kind), x: width - IO_WIDTH - 20, y: 20 + offset * 3 }
+          : {
+              id,
+              kind: "gate",
+              gate: kind,
+              pins: defaultPinCount(kind),
+              delay: DEFAULT_GATE_DELAYS[kind],
+              x: 340 + offset,
+              y: 40 + offset * 2,
+            };
+    onChange({ ...circuit, nodes: [...circuit.nodes, node] });
+    setSelection({ kind: "node", id });
+  };
+
+  const connect = (to: string, pin: number) => {
+    if (!onChange || pendingFrom === null) return;
+    const wires = circuit.wires.filter((w) => !(w.to === to && w.pin === pin));
+    onChange({ ...circuit, wires: [...wires, { from: pendingFrom, to, pin }] });
+    setPendingFrom(null);
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, node: CircuitNode) => {
+    e.stopPropagation();
+    const p = toSvg(e);
+    dragRef.current = { id: node.id, dx: p.x - node.x, dy: p.y - node.y, moved: false };
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const p = toSvg(e);
+    if (pendingFrom !== null) setCursor(p);
+    const drag = dragRef.current;
+    if (!drag || !editable) return;
+    const node = byId.get(drag.id);
+    if (!node) return;
+    const x = snap(Math.min(width - nodeSize(node).w, Math.max(0, p.x - drag.dx)));
+    const y = snap(Math.min(height - nodeSize(node).h, Math.max(0, p.y - drag.dy)));
+    if (x === node.x && y === node.y) return;
+    drag.moved = true;
+    updateNode(drag.id, { x, y });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    const node = byId.get(drag.id);
+    if (node?.kind === "input") onToggleInput?.(node.id);
+    setSelection({ kind: "node", id: drag.id });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setPendingFrom(null);
+      setSelection(null);
+    } else if ((e.key === "Delete" || e.key === "Backspace") && selection) {
+      e.preventDefault();
+      removeSelection();
+    }
+  };
+
+  const selectedNode = selection?.kind === "node" ? byId.get(selection.id) : undefined;
+  const inputCount = circuit.nodes.filter((n) => n.kind === "input").length;
+  const pending = pendingFrom !== null ? byId.get(pendingFrom) : undefined;
+
+  return (
+    <div className="space-y-3">
+      {editable && (
+        <div className="flex flex-wrap items-center gap-1.5" role="toolbar" aria-label="Add to schematic">
+          <PaletteButton label="Input" onClick={() => addNode("input")} disabled={inputCount >= maxInputs} />
+          <PaletteButton label="Output" onClick={() => addNode("output")} />
+          <span className="w-px h-5 bg-[#1e1e2e] mx-1" />
+          {GATE_TYPES.map((gate) => (
+            <PaletteButton key={gate} label={gate} onClick={() => addNode(gate)} />
+          ))}
+        </div>
+      )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full rounded-xl bg-[#0a0a0f] border border-[#1e1e2e] select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-[#6366f1]"
+        tabIndex={0}
+        role="application"
+        aria-label={
+          editable
+            ? "Schematic canvas. Drag parts to move them, click an output port then an input pin to wire them, Delete removes the selection."
+            : "Schematic"
+        }
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerDown={() => {
+          setSelection(null);
+          setPendingFrom(null);
+        }}
+        onKeyDown={handleKeyDown}
+      >
+        <defs>
+          <pattern id="schematic-grid" width={GRID * 2} height={GRID * 2} patternUnits="userSpaceOnUse">
+            <circle cx={1} cy={1} r={0.8} fill="#1e1e2e" />
+          </pattern>
+        </defs>
+        <rect width={width} height={height} fill="url(#schematic-grid)" />
+
+        {/* Wires */}
+        {circuit.wires.map((w, i) => {
+          const from = byId.get(w.from);
+          const to = byId.get(w.to);
+          if (!from || !to) return null;
+          const high = values[w.from] === 1;
+          const selected = selection?.kind === "wire" && selection.index === i;
+          const d = wirePath(outputPort(from), inputPin(to, w.pin));
+          return (
+            <g key={`${w.from}-${w.to}-${w.pin}`}>
+              <path
+                d={d}
+                fill="none"
+                stroke={selected ? SELECTED : high ? HIGH : LOW}
+                strokeWidth={selected ? 3 : 2}
+                style={{ transition: "stroke 150ms" }}
+              />
+              {editable && (
+                <path
+                  d={d}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth={10}
+                  className="cursor-pointer"
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    setSelection({ kind: "wire", index: i });
+                  }}
+                />
+              )}
+            </g>
+          );
+        })}
+
+        {pending && cursor && (
+          <path
+            d={wirePath(outputPort(pending), cursor)}
+            fill="none"
+            stroke={SELECTED}
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            pointerEvents="none"
+          />
+        )}
+
+        {/* Nodes */}
+        {circuit.nodes.map((node) => {
+          const { w, h } = nodeSize(node);
+          const value = values[node.id];
+          const selected = selection?.kind === "node" && selection.id === node.id;
+          const ring = selected ? SELECTED : flagged?.has(node.id) ? FLAGGED : null;
+          return (
+            <g key={node.id} transform={`translate(${node.x} ${node.y})`}>
+              {ring && (
+                <rect
+                  x={-4}
+                  y={-4}
+                  width={w + 8}
+                  height={h + 8}
+                  rx={8}
+                  fill="none"
+                  stroke={ring}
+                  strokeWidth={1.5}
+                  strokeDasharray={selected ? undefined : "4 3"}
+                />
+              )}
+              <g
+                className={editable || node.kind === "input" ? "cursor-pointer" : undefined}
+                onPointerDown={(e) => handleNodePointerDown(e, node)}
+              >
+                {node.kind === "gate" ? (
+                  <>
+                    <rect width={w} height={h} fill="transparent" />
+                    <GateGlyph gate={node.gate} pins={node.pins} value={value} />
+                    <text x={BODY_X + 14} y={h + 12} textAnchor="middle" fontSize={9} fill={LOW} fontFamily="monospace">
+                      {node.gate} · {node.delay}
+                    </text>
+                  </>
+                ) : (
+                  <>
+                    <rect
+                      width={w}
+                      height={h}
+                      rx={6}
+                      fill={value ? "rgba(16,185,129,0.15)" : "#111118"}
+                      stroke={value ? HIGH : "#2a2a3e"}
+                      strokeWidth={1.5}
+                    />
+                    <text x={8} y={h / 2 + 4} fontSize={11} fontWeight={600} fill="#e4e4e7" fontFamily="monospace">
+                      {node.name}
+                    </text>
+                    <text
+                      x={w - 8}
+                      y={h / 2 + 4}
+                      textAnchor="end"
+                      fontSize={12}
+                      fontWeight={700}
+                      fill={value ? HIGH : LOW}
+                      fontFamily="monospace"
+                    >
+                      {value ?? "?"}
+                    </text>
+                  </>
+                )}
+              </g>
+
+              {/* Ports */}
+              {editable &&
+                Array.from({ length: pinCount(node) }, (_, pin) => {
+                  const p = inputPin(node, pin);
+                  return (
+                    <circle
+                      key={pin}
+                      cx={p.x - node.x}
+                      cy={p.y - node.y}
+                      r={pendingFrom !== null ? 5 : 3.5}
+                      fill={pendingFrom !== null ? SELECTED : "#2a2a3e"}
+                      className="cursor-crosshair"
+                      onPointerDown={(e) => {
+                        e.stopPropagation();
+                        connect(node.id, pin);
+                      }}
+                    >
+                      <title>{`Input pin ${pin + 1}`}</title>
+                    </circle>
+                  );
+                })}
+              {editable && node.kind !== "output" && (
+                <circle
+                  cx={w}
+                  cy={h / 2}
+                  r={4.5}
+                  fill={pendingFrom === node.id ? SELECTED : "#0a0a0f"}
+                  stroke={SELECTED}
+                  strokeWidth={1.5}
+                  className="cursor-crosshair"
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    setCursor(toSvg(e));
+                    setPendingFrom(pendingFrom === node.id ? null : node.id);
+                  }}
+                >
+                  <title>Output: click, then click an input pin</title>
+                </circle>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {editable && selection && (
+        <div className="flex flex-wrap items-center gap-3 px-3 py-2 rounded-lg bg-[#111118] border border-[#1e1e2e] text-xs">
+          {selectedNode && selectedNode.kind !== "gate" && (
+            <label className="flex items-center gap-2 text-[#a1a1aa]">
+              Name
+              <input
+                value={selectedNode.name}
+                maxLength={8}
+                onChange={(e) => updateNode(selectedNode.id, { name: e.target.value.replace(/\s/g, "") })}
+                className="w-20 px-2 py-1 rounded bg-[#0a0a0f] border border-[#2a2a3e] text-white font-mono focus:outline-none focus:border-[#6366f1]"
+              />
+            </label>
+          )}
+          {selectedNode?.kind === "gate" && (
+            <>
+              <label className="flex items-center gap-2 text-[#a1a1aa]">
+                Gate
+                <select
+                  value={selectedNode.gate}
+                  onChange={(e) => {
+                    const gate = e.target.value as GateType;
+                    const pins = gate === "NOT" ? 1 : Math.max(2, selectedNode.pins);
+                    onChange({
+                      nodes: circuit.nodes.map((n) =>
+                        n.id === selectedNode.id ? { ...selectedNode, gate, pins, delay: DEFAULT_GATE_DELAYS[gate] } : n
+                      ),
+                      wires: circuit.wires.filter((w) => w.to !== selectedNode.id || w.pin < pins),
+                    });
+                  }}
+                  className="px-2 py-1 rounded bg-[#0a0a0f] border border-[#2a2a3e] text-white font-mono focus:outline-none focus:border-[#6366f1]"
+                >
+                  {GATE_TYPES.map((g) => (
+                    <option key={g} value={g}>
+                      {g}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {selectedNode.gate !== "NOT" && (
+                <div className="flex items-center gap-1 text-[#a1a1aa]">
+                  Inputs
+                  <StepperButton
+                    label="Remove input"
+                    disabled={selectedNode.pins <= 2}
+                    onClick={() =>
+                      onChange({
+                        nodes: circuit.nodes.map((n) =>
+                          n.id === selectedNode.id ? { ...selectedNode, pins: selectedNode.pins - 1 } : n
+                        ),
+                        wires: circuit.wires.filter((w) => w.to !== selectedNode.id || w.pin < selectedNode.pins - 1),
+                      })
+                    }
+                  >
+                    <Minus size={12} />
+                  </StepperButton>
+                  <span className="w-4 text-center font-mono text-white">{selectedNode.pins}</span>
+                  <StepperButton
+                    label="Add input"
+                    disabled={selectedNode.pins >= MAX_PINS}
+                    onClick={() => updateNode(selectedNode.id, { pins: selectedNode.pins + 1 })}
+                  >
+                    <Plus size={12} />
+                  </StepperButton>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-[#a1a1aa]">
+                Delay
+                <input
+                  type="number"
+                  min={1}
+                  max={9}
+                  value={selectedNode.delay}
+                  onChange={(e) =>
+                    updateNode(selectedNode.id, { delay: Math.min(9, Math.max(1, parseInt(e.target.value, 10) || 1)) })
+                  }
+                  className="w-14 px-2 py-1 rounded bg-[#0a0a0f] border border-[#2a2a3e] text-white font-mono focus:outline-none focus:border-[#6366f1]"
+                />
+              </label>
+            </>
+          )}
+          {selection.kind === "wire" && <span className="text-[#a1a1aa]">Wire selected</span>}
+          <button
+            onClick={removeSelection}
+            className="ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[#ef4444] hover:bg-[#ef4444]/10 transition-colors"
+          >
+            <Trash2 size={12} />
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PaletteButton({ label, onClick, disabled }: { label: string; onClick: () => void; disabled?: boolean }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-[#111118] border border-[#1e1e2e] text-[11px] font-mono font-semibold text-[#a1a1aa] hover:text-white hover:border-[#6366f1]/40 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+    >
+      <Plus size={11} />
+      {label}
+    </button>
+  );
+}
+
+function StepperButton({
+  label,
+  onClick,
+  disabled,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      aria-label={label}
+      className="flex items-center justify-center w-6 h-6 rounded bg-[#1e1e2e] text-[#a1a1aa] hover:text-white disabled:opacity-40 transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { Keyboard, X } from "lucide-react";
+import { keyLabel, SIMULATOR_SHORTCUTS, type ShortcutAction } from "@/lib/shortcuts";
+
+interface ShortcutHelpProps {
+  open: boolean;
+  onClose: () => void;
+  /** Actions the current module supports; others are left out of the list. */
+  actions: ShortcutAction[];
+}
+
+export default function ShortcutHelp({ open, onClose, actions }: ShortcutHelpProps) {
+  if (!open) return null;
+  return <HelpDialog onClose={onClose} actions={actions} />;
+}
+
+/**
+ * Modal list of shortcuts. Takes focus while open, keeps Tab inside the
+ * dialog and hands focus back to whatever had it when it closes.
+ */
+function HelpDialog({ onClose, actions }: Omit<ShortcutHelpProps, "open">) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape" || e.key === "?") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "Tab") {
+      const focusable = dialogRef.current?.querySelectorAll<HTMLElement>("button, [href], [tabindex]");
+      if (!focusable || focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+  };
+
+  const shortcuts = SIMULATOR_SHORTCUTS.filter((s) => actions.includes(s.action));
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center px-4 bg-black/60 backdrop-blur-sm"
+      onMouseDown={onClose}
+    >
+      <motion.div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        initial={{ opacity: 0, y: -8, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ duration: 0.15 }}
+        className="w-full max-w-sm rounded-xl border border-[#1e1e2e] bg-[#111118] shadow-2xl shadow-black/50"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-[#1e1e2e]">
+          <Keyboard size={16} className="text-[#6366f1]" />
+          <h2 id="shortcut-help-title" className="text-sm font-semibold text-white">
+            Keyboard shortcuts
+          </h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="ml-auto flex items-center justify-center w-7 h-7 rounded-md text-[#71717a] hover:text-white hover:bg-[#1e1e2e] transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#6366f1]"
+            aria-label="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <dl className="px-4 py-3 space-y-2">
+          {shortcuts.map((shortcut) => (
+            <div key={shortcut.action} className="flex items-center justify-between gap-4">
+              <dt className="text-sm text-[#a1a1aa]">{shortcut.label}</dt>
+              <dd className="flex gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-[1.75rem] px-1.5 py-0.5 rounded border border-[#2a2a3e] bg-[#0a0a0f] text-center text-[11px] text-[#e4e4e7] font-mono"
+                  >
+                    {keyLabel(key)}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <p className="px-4 pb-3 text-[11px] text-[#71717a]">
+          Shortcuts are off while typing in a field. Ctrl K opens module search.
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+interface StepAnnouncerProps {
+  /** Description of the step on screen; read out whenever it changes. */
+  text?: string;
+}
+
+/** Visually hidden live region that reads each step's description to screen readers. */
+export default function StepAnnouncer({ text }: StepAnnouncerProps) {
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {text}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+
+interface TeXProps {
+  math: string;
+  /** Display mode: centred on its own line instead of inline. */
+  block?: boolean;
+  className?: string;
+}
+
+/** Renders TeX with KaTeX. Malformed input is shown in red rather than thrown. */
+export default function TeX({ math, block = false, className = "" }: TeXProps) {
+  const html = useMemo(
+    () => katex.renderToString(math, { displayMode: block, throwOnError: false }),
+    [math, block]
+  );
+  const Tag = block ? "div" : "span";
+  return <Tag className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,46 @@
+"use client";
+
+export interface TimelineScrubberProps {
+  /** Current frame, from 0 (initial state) to `length - 1`. */
+  position: number;
+  /** Number of frames the user can scrub across. */
+  length: number;
+  onSeek: (position: number) => void;
+  color?: string;
+}
+
+export default function TimelineScrubber({
+  position,
+  length,
+  onSeek,
+  color = "#6366f1",
+}: TimelineScrubberProps) {
+  const last = Math.max(0, length - 1);
+  const progress = last > 0 ? (position / last) * 100 : 0;
+
+  return (
+    <div className="flex items-center gap-3 w-full">
+      <span className="text-[10px] uppercase tracking-wider text-[#71717a] font-medium shrink-0">
+        Timeline
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={last}
+        step={1}
+        value={Math.min(position, last)}
+        disabled={last === 0}
+        onChange={(e) => onSeek(parseInt(e.target.value, 10))}
+        aria-label="Timeline position"
+        className="flex-1 h-1.5 rounded-full appearance-none cursor-pointer disabled:cursor-default [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white"
+        style={{
+          accentColor: color,
+          background: `linear-gradient(90deg, ${color} ${progress}%, #1e1e2e ${progress}%)`,
+        }}
+      />
+      <span className="text-xs text-[#71717a] font-mono whitespace-nowrap shrink-0">
+        {Math.min(position, last)} / {last}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import type { Hazard, Transition } from "@/lib/sim/logic";
+
+export interface TraceSignal {
+  id: string;
+  label: string;
+  waveform: Transition[];
+  color?: string;
+}
+
+interface TimingTraceProps {
+  signals: TraceSignal[];
+  /** Last time unit drawn. */
+  end: number;
+  hazards?: Hazard[];
+  /** Draws a playhead at this time. */
+  cursor?: number;
+  onSeek?: (time: number) => void;
+}
+
+const LABEL_WIDTH = 56;
+const ROW_HEIGHT = 28;
+const LEVEL = 16;
+const HAZARD_COLORS: Record<Hazard["kind"], string> = {
+  "static-1": "#ef4444",
+  "static-0": "#f59e0b",
+  dynamic: "#ec4899",
+};
+
+function stepPath(waveform: Transition[], end: number, x: (t: number) => number, top: number): string {
+  const y = (v: number) => top + (v ? 0 : LEVEL);
+  let d = `M${x(0)} ${y(waveform[0]?.value ?? 0)}`;
+  for (const t of waveform.slice(1)) {
+    d += ` H${x(t.time)} V${y(t.value)}`;
+  }
+  return `${d} H${x(end)}`;
+}
+
+/** Digital waveforms on a shared time axis, with hazard windows shaded on their signal's row. */
+export default function TimingTrace({ signals, end, hazards = [], cursor, onSeek }: TimingTraceProps) {
+  const span = Math.max(1, end);
+  const width = 720;
+  const plot = width - LABEL_WIDTH - 8;
+  const height = signals.length * ROW_HEIGHT + 20;
+  const x = (t: number) => LABEL_WIDTH + (Math.min(t, span) / span) * plot;
+  const tickStep = Math.max(1, Math.ceil(span / 20));
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onSeek) return;
+    const matrix = e.currentTarget.getScreenCTM()?.inverse();
+    if (!matrix) return;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    onSeek(Math.round(((Math.max(LABEL_WIDTH, p.x) - LABEL_WIDTH) / plot) * span));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className={`w-full ${onSeek ? "cursor-pointer" : ""}`}
+      role="img"
+      aria-label={`Timing trace of ${signals.map((s) => s.label).join(", ")}${
+        hazards.length ? `, ${hazards.length} hazard${hazards.length === 1 ? "" : "s"}` : ""
+      }`}
+      onClick={handleClick}
+    >
+      {Array.from({ length: Math.floor(span / tickStep) + 1 }, (_, i) => i * tickStep).map((t) => (
+        <g key={t}>
+          <line x1={x(t)} y1={0} x2={x(t)} y2={height - 16} stroke="#1e1e2e" strokeWidth={1} />
+          <text x={x(t)} y={height - 4} textAnchor="middle" fontSize={8} fill="#71717a" fontFamily="monospace">
+            {t}
+          </text>
+        </g>
+      ))}
+
+      {signals.map((signal, row) => {
+        const top = row * ROW_HEIGHT + 6;
+        return (
+          <g key={signal.id}>
+            {hazards
+              .filter((h) => h.node === signal.id)
+              .map((h) => (
+                <rect
+                  key={`${h.start}-${h.kind}`}
+                  x={x(h.start) - 3}
+                  y={top - 3}
+                  width={Math.max(6, x(h.end) - x(h.start) + 6)}
+                  height={LEVEL + 6}
+                  rx={3}
+                  fill={`${HAZARD_COLORS[h.kind]}26`}
+                  stroke={HAZARD_COLORS[h.kind]}
+                  strokeDasharray="3 2"
+                >
+                  <title>{`${h.kind} hazard at t=${h.start}${h.end > h.start ? `–${h.end}` : ""}`}</title>
+                </rect>
+              ))}
+            <text x={4} y={top + LEVEL / 2 + 4} fontSize={10} fontWeight={600} fill="#a1a1aa" fontFamily="monospace">
+              {signal.label}
+            </text>
+            <path
+              d={stepPath(signal.waveform, span, x, top)}
+              fill="none"
+              stroke={signal.color ?? "#10b981"}
+              strokeWidth={1.75}
+              strokeLinejoin="round"
+            />
+          </g>
+        );
+      })}
+
+      {cursor !== undefined && (
+        <line x1={x(cursor)} y1={0} x2={x(cursor)} y2={height - 16} stroke="#6366f1" strokeWidth={1.5} />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { ChevronLeft, ChevronRight, Compass, Loader2, Play, X } from "lucide-react";
+import type { TourControls } from "@/hooks/useTour";
+import TeX from "./TeX";
+
+interface TourPlayerProps<S> {
+  tour: TourControls<S>;
+  /** Shown above the narration, usually the preset's label. */
+  title: string;
+}
+
+/**
+ * Narration card for a running guided tour. Pins itself to the bottom
+ * right of the viewport and outlines the current stop's `data-tour`
+ * target. Render it outside transformed containers so `fixed` positioning
+ * is relative to the viewport.
+ */
+export default function TourPlayer<S>({ tour, title }: TourPlayerProps<S>) {
+  const { step, index, count, ready } = tour;
+  const target = ready ? step?.target : undefined;
+
+  useEffect(() => {
+    if (!target) return;
+    const el = document.querySelector<HTMLElement>(`[data-tour="${target}"]`);
+    if (!el) return;
+    el.setAttribute("data-tour-active", "");
+    el.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    return () => el.removeAttribute("data-tour-active");
+  }, [target, index]);
+
+  return (
+    <AnimatePresence>
+      {step && (
+        <motion.div
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          transition={{ duration: 0.2 }}
+          role="dialog"
+          aria-label={`Guided tour: ${title}`}
+          className="fixed bottom-4 right-4 z-40 w-[min(24rem,calc(100vw-2rem))] rounded-xl border border-[#6366f1]/30 bg-[#111118]/95 backdrop-blur-xl shadow-2xl shadow-black/50"
+        >
+          <div className="flex items-center gap-2 px-4 pt-3">
+            <Compass size={14} className="text-[#6366f1]" />
+            <span className="text-xs font-medium text-[#a1a1aa] truncate">{title}</span>
+            <span className="ml-auto text-[10px] font-mono text-[#71717a]">
+              {index + 1}/{count}
+            </span>
+            <button
+              onClick={tour.exit}
+              className="flex items-center justify-center w-6 h-6 rounded-md text-[#71717a] hover:text-white hover:bg-[#1e1e2e] transition-colors"
+              aria-label="Exit tour"
+            >
+              <X size={14} />
+            </button>
+          </div>
+
+          <div className="flex gap-1 px-4 pt-2">
+            {Array.from({ length: count }, (_, i) => (
+              <div
+                key={i}
+                className={`h-1 flex-1 rounded-full ${i <= index ? "bg-[#6366f1]" : "bg-[#1e1e2e]"}`}
+              />
+            ))}
+          </div>
+
+          <div className="px-4 py-3 min-h-[5rem]" aria-live="polite">
+            {ready ? (
+              <>
+                <p className="text-sm text-[#e4e4e7] leading-relaxed">{step.text}</p>
+                {step.math && (
+                  <TeX
+                    math={step.math}
+                    block
+                    className="mt-2 px-3 py-1 rounded-lg bg-[#0a0a0f] border border-[#1e1e2e] text-sm overflow-x-auto"
+                  />
+                )}
+              </>
+            ) : (
+              <div className="flex items-center gap-2 text-xs text-[#71717a]">
+                {tour.isPlaying ? (
+                  <>
+                    <Loader2 size={14} className="animate-spin text-[#6366f1]" />
+                    Playing to the next stop…
+                  </>
+                ) : (
+                  <>
+                    <span>Paused before the next stop.</span>
+                    <button
+                      onClick={tour.resume}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md bg-[#6366f1]/15 text-[#818cf8] hover:bg-[#6366f1]/25 transition-colors"
+                    >
+                      <Play size={12} />
+                      Play
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between px-4 pb-3">
+            <button
+              onClick={tour.back}
+              disabled={index === 0}
+              className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs text-[#a1a1aa] hover:text-white hover:bg-[#1e1e2e] transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <ChevronLeft size={14} />
+              Back
+            </button>
+            <button
+              onClick={tour.next}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-[#6366f1] hover:bg-[#818cf8] text-white transition-colors"
+            >
+              {index === count - 1 ? "Finish" : ready ? "Next" : "Skip"}
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
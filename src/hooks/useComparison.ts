@@ -0,0 +1,62 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { diffMetrics, stepPair, type LockstepSim } from "@/lib/compare";
+import { useStepHistory } from "./useStepHistory";
+
+const BASE_INTERVAL_MS = 400;
+
+/**
+ * Runs two configurations of one simulator in lockstep for `ComparisonView`.
+ * Each frame of the shared step history holds both states, so Step Back and
+ * the scrubber move the two sides together. Configs are read once at mount:
+ * give the view a `key` derived from them to restart after a change.
+ */
+export function useComparison<S, C>(sim: LockstepSim<S, C>, left: C, right: C, intervalMs = BASE_INTERVAL_MS) {
+  const history = useStepHistory<[S, S]>(() => [sim.init(left), sim.init(right)]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const [leftState, rightState] = history.current;
+  const finished = sim.done(leftState, left) && sim.done(rightState, right);
+  const { advance, position } = history;
+
+  const step = useCallback(
+    () => advance((pair) => stepPair(sim, pair, [left, right])),
+    [advance, sim, left, right]
+  );
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      if (finished) setIsPlaying(false);
+      else step();
+    }, intervalMs / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, finished, step, intervalMs, speed]);
+
+  const reset = useCallback(() => {
+    setIsPlaying(false);
+    history.reset([sim.init(left), sim.init(right)]);
+  }, [history, sim, left, right]);
+
+  const diffs = useMemo(
+    () => diffMetrics(sim.metrics(leftState, left), sim.metrics(rightState, right)),
+    [sim, leftState, rightState, left, right]
+  );
+
+  return {
+    left: leftState,
+    right: rightState,
+    finished,
+    diffs,
+    history,
+    isPlaying,
+    play: () => setIsPlaying(true),
+    pause: () => setIsPlaying(false),
+    step,
+    reset,
+    speed,
+    setSpeed,
+  };
+}
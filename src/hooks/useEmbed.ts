@@ -0,0 +1,32 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import { usePathname } from "next/navigation";
+import { embedMessage, isEmbedPath, parseEmbedConfig, type EmbedConfig, type EmbedEvent } from "@/lib/embed";
+
+const subscribeNever = () => () => {};
+
+/** True on `/embed/...` pages, during server rendering as well. */
+export function useIsEmbedded(): boolean {
+  return isEmbedPath(usePathname());
+}
+
+/** Frame config from the query string on embed pages; null elsewhere and before hydration. */
+export function useEmbedConfig(): EmbedConfig | null {
+  const embedded = useIsEmbedded();
+  const search = useSyncExternalStore(
+    subscribeNever,
+    () => window.location.search,
+    () => null
+  );
+  return useMemo(
+    () => (embedded && search !== null ? parseEmbedConfig(search, document.referrer) : null),
+    [embedded, search]
+  );
+}
+
+/** Posts `event` to the page hosting this frame. No-op outside an iframe or when the host origin is unknown. */
+export function postEmbedEvent(config: EmbedConfig, moduleId: string, event: EmbedEvent): void {
+  if (window.parent === window || !config.origin) return;
+  window.parent.postMessage(embedMessage(moduleId, event), config.origin);
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+import { postEmbedEvent, useEmbedConfig } from "@/hooks/useEmbed";
+import { useCurrentModuleId, useProgressStore } from "@/hooks/useProgressStore";
+
+/**
+ * Records the open module (and scenario) as completed once `completed` turns
+ * true, and tells an embedding host the run finished. `ModuleControls` does
+ * this for its pages; modules with their own control bars call it directly.
+ */
+export function useModuleCompletion(completed: boolean, scenario?: string): void {
+  const moduleId = useCurrentModuleId();
+  const embed = useEmbedConfig();
+
+  useEffect(() => {
+    if (moduleId && completed) useProgressStore.getState().markCompleted(moduleId, scenario);
+  }, [moduleId, completed, scenario]);
+
+  useEffect(() => {
+    if (embed && moduleId && completed) postEmbedEvent(embed, moduleId, { type: "finished", scenario });
+  }, [embed, moduleId, completed, scenario]);
+}
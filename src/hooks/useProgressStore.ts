@@ -0,0 +1,80 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { usePathname } from "next/navigation";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { getModuleByPath } from "@/lib/domains";
+import {
+  addBookmark,
+  emptyProgress,
+  markCompleted,
+  markVisited,
+  mergeProgress,
+  PROGRESS_VERSION,
+  removeBookmark,
+  updateSettings,
+  type ProgressData,
+} from "@/lib/progress";
+import type { ShareState } from "@/lib/share-state";
+
+const STORAGE_KEY = "cs-visual-lab-progress";
+
+interface ProgressActions {
+  markVisited: (moduleId: string) => void;
+  markCompleted: (moduleId: string, scenario?: string) => void;
+  updateSettings: (moduleId: string, patch: ShareState) => void;
+  addBookmark: (moduleId: string, label: string, state: ShareState) => void;
+  removeBookmark: (id: string) => void;
+  importProgress: (data: ProgressData) => void;
+  resetProgress: () => void;
+}
+
+export type ProgressStore = ProgressData & ProgressActions;
+
+/**
+ * Learner progress persisted to localStorage. Reads during the first render
+ * should be gated on `useProgressHydrated()` so server and client markup
+ * match.
+ */
+export const useProgressStore = create<ProgressStore>()(
+  persist(
+    (set) => ({
+      ...emptyProgress(),
+      markVisited: (moduleId) => set((s) => markVisited(s, moduleId, Date.now())),
+      markCompleted: (moduleId, scenario) =>
+        set((s) => markCompleted(s, moduleId, scenario, Date.now())),
+      updateSettings: (moduleId, patch) => set((s) => updateSettings(s, moduleId, patch)),
+      addBookmark: (moduleId, label, state) =>
+        set((s) => {
+          const createdAt = Date.now();
+          return addBookmark(s, { id: `${moduleId}-${createdAt}`, moduleId, label, state, createdAt });
+        }),
+      removeBookmark: (id) => set((s) => removeBookmark(s, id)),
+      importProgress: (data) => set((s) => mergeProgress(s, data)),
+      resetProgress: () => set(emptyProgress()),
+    }),
+    {
+      name: STORAGE_KEY,
+      version: PROGRESS_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      partialize: ({ modules, bookmarks }) => ({ modules, bookmarks }),
+    }
+  )
+);
+
+const subscribeNever = () => () => {};
+
+/** False while hydrating server-rendered markup, true afterwards. */
+export function useProgressHydrated(): boolean {
+  return useSyncExternalStore(
+    subscribeNever,
+    () => true,
+    () => false
+  );
+}
+
+/** Id of the module whose page is open, if any. */
+export function useCurrentModuleId(): string | undefined {
+  return getModuleByPath(usePathname())?.id;
+}
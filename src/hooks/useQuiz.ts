@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  gradeAnswer,
+  summarizeQuiz,
+  type QuizQuestion,
+  type QuizResult,
+  type QuizRule,
+  type QuizSummary,
+} from "@/lib/quiz";
+
+interface QuizPlayback {
+  isPlaying: boolean;
+  pause: () => void;
+}
+
+interface PendingQuestion<S> {
+  question: QuizQuestion<S>;
+  /** State the question was asked about. */
+  state: S;
+  proceed: () => void;
+}
+
+export interface QuizControls<S> {
+  enabled: boolean;
+  toggle: () => void;
+  /** Question on screen, or null between questions. */
+  question: QuizQuestion<S> | null;
+  /** Answered, but the outcome hasn't played out yet. */
+  awaiting: boolean;
+  /** Most recently graded answer. */
+  feedback: QuizResult | null;
+  /** True after a question interrupted playback, until the next step runs. */
+  canResume: boolean;
+  results: QuizResult[];
+  summary: QuizSummary;
+  /** Wrap each simulation step in this; it runs `proceed` unless a question is due. */
+  gate: (proceed: () => void) => void;
+  answer: (choiceId: string) => void;
+  skip: () => void;
+  reset: () => void;
+}
+
+/**
+ * Runs a module's `QuizRule` against its simulation state. `gate` reads the
+ * latest state through a ref so it can be called from timers and animation
+ * frames that closed over an older render. While a question is open every
+ * gated step is held back; answering takes the held step so the learner
+ * sees the outcome straight away.
+ *
+ * Memoize `state` so it only changes when the simulation does: a question
+ * is dropped once the state moves on without it, e.g. after a reset or a
+ * seek on the timeline. A question with a `key` is not raised twice in a
+ * row, so skipping it doesn't bring it straight back on the next step.
+ */
+export function useQuiz<S>(rule: QuizRule<S>, state: S, { isPlaying, pause }: QuizPlayback): QuizControls<S> {
+  const [enabled, setEnabled] = useState(false);
+  const [pending, setPending] = useState<PendingQuestion<S> | null>(null);
+  const [awaiting, setAwaiting] = useState<{ question: QuizQuestion<S>; choiceId: string } | null>(null);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [resumable, setResumable] = useState(false);
+
+  const latest = useRef({ rule, state, enabled, isPlaying, pause });
+  const pendingRef = useRef(pending);
+  const awaitingRef = useRef(awaiting);
+  const resumableRef = useRef(resumable);
+  const lastKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    latest.current = { rule, state, enabled, isPlaying, pause };
+  }, [rule, state, enabled, isPlaying, pause]);
+
+  const openQuestion = useCallback((next: PendingQuestion<S> | null) => {
+    pendingRef.current = next;
+    setPending(next);
+  }, []);
+
+  const holdResume = useCallback((next: boolean) => {
+    if (resumableRef.current === next) return;
+    resumableRef.current = next;
+    setResumable(next);
+  }, []);
+
+  const awaitOutcome = useCallback((next: { question: QuizQuestion<S>; choiceId: string } | null) => {
+    awaitingRef.current = next;
+    setAwaiting(next);
+  }, []);
+
+  const gate = useCallback(
+    (proceed: () => void) => {
+      const { rule, state, enabled, isPlaying, pause } = latest.current;
+      if (pendingRef.current) {
+        if (pendingRef.current.state === state) return;
+        openQuestion(null);
+      }
+
+      const waiting = awaitingRef.current;
+      if (waiting) {
+        const outcome = waiting.question.resolve?.(state);
+        if (!outcome) {
+          holdResume(false);
+          proceed();
+          return;
+        }
+        const result = gradeAnswer(waiting.question, waiting.choiceId, outcome);
+        setResults((prev) => [...prev, result]);
+        awaitOutcome(null);
+      }
+
+      const question = enabled ? rule(state) : null;
+      if (!question || (question.key !== undefined && question.key === lastKey.current)) {
+        holdResume(false);
+        proceed();
+        return;
+      }
+      if (isPlaying) pause();
+      holdResume(isPlaying);
+      lastKey.current = question.key ?? null;
+      openQuestion({ question, state, proceed });
+    },
+    [openQuestion, awaitOutcome, holdResume]
+  );
+
+  const answer = useCallback(
+    (choiceId: string) => {
+      const open = pendingRef.current;
+      if (!open || open.state !== latest.current.state) return;
+      const { question } = open;
+      const outcome = question.outcome;
+      if (outcome) {
+        setResults((prev) => [...prev, gradeAnswer(question, choiceId, outcome)]);
+      } else {
+        awaitOutcome({ question, choiceId });
+      }
+      openQuestion(null);
+      open.proceed();
+    },
+    [openQuestion, awaitOutcome]
+  );
+
+  const skip = useCallback(() => {
+    const open = pendingRef.current;
+    openQuestion(null);
+    if (open && open.state === latest.current.state) open.proceed();
+  }, [openQuestion]);
+
+  const cancel = useCallback(() => {
+    lastKey.current = null;
+    openQuestion(null);
+    awaitOutcome(null);
+    holdResume(false);
+  }, [openQuestion, awaitOutcome, holdResume]);
+
+  const reset = useCallback(() => {
+    cancel();
+    setResults([]);
+  }, [cancel]);
+
+  const toggle = useCallback(() => {
+    cancel();
+    setEnabled((on) => !on);
+  }, [cancel]);
+
+  const question = pending && pending.state === state ? pending.question : null;
+
+  return {
+    enabled,
+    toggle,
+    question,
+    awaiting: awaiting !== null,
+    feedback: results.length > 0 ? results[results.length - 1] : null,
+    canResume: resumable && !isPlaying && !pending,
+    results,
+    summary: summarizeQuiz(results),
+    gate,
+    answer,
+    skip,
+    reset,
+  };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useProgressStore } from "@/hooks/useProgressStore";
+import { getModuleByPath } from "@/lib/domains";
+import { isEmbedPath } from "@/lib/embed";
+import { decodeShareState, type ShareState } from "@/lib/share-state";
+
+/**
+ * The preset (and speed) the learner last used here, if they picked one.
+ * Embeds always open as the host page configured them.
+ */
+function lastUsedSettings(): ShareState | undefined {
+  if (isEmbedPath(window.location.pathname)) return undefined;
+  const moduleId = getModuleByPath(window.location.pathname)?.id;
+  const settings = moduleId ? useProgressStore.getState().modules[moduleId]?.settings : undefined;
+  return settings?.scenario ? { scenario: settings.scenario, speed: settings.speed } : undefined;
+}
+
+/**
+ * Registers a module page with the share-link layer. `restore` is called once
+ * after mount with the state decoded from the current URL, if it carries any,
+ * or else with the learner's last-used settings for this module.
+ * The page then passes its live `ShareState` to `ModuleControls` so the Share
+ * button can build the matching link.
+ */
+export function useShareState(restore: (state: ShareState) => void): void {
+  const restoreRef = useRef(restore);
+
+  useEffect(() => {
+    restoreRef.current = restore;
+  }, [restore]);
+
+  useEffect(() => {
+    const state = decodeShareState(window.location.search) ?? lastUsedSettings();
+    if (state) restoreRef.current(state);
+  }, []);
+}
+
+/**
+ * Selects the preset named by `?scenario=` (as linked from the command
+ * palette) when it is one of `ids`. Call it after the page's own mount
+ * effects so the linked preset replaces the default one.
+ */
+export function useScenarioParam<T extends string>(
+  ids: readonly T[],
+  load: (id: T) => void
+): void {
+  useShareState(({ scenario }) => {
+    const id = ids.find((candidate) => candidate === scenario);
+    if (id !== undefined) load(id);
+  });
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { shortcutFor, type ShortcutAction } from "@/lib/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/** Keys typed into fields, or that activate the focused control natively. */
+function ownsKey(target: EventTarget | null, key: string): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.closest("input, textarea, select, [role=dialog]")) return true;
+  return (key === " " || key === "Enter") && target.closest("button, a, [role=button], [role=switch]") !== null;
+}
+
+/**
+ * Binds the simulator shortcuts on the window while `enabled`. Only actions
+ * with a handler are bound, so pages pass exactly what they support.
+ * Handlers are read through a ref and may change every render.
+ */
+export function useSimulatorShortcuts(handlers: ShortcutHandlers, enabled = true): void {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || ownsKey(e.target, e.key)) return;
+      const action = shortcutFor(e);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [enabled]);
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+
+const DEFAULT_MAX_FRAMES = 2000;
+
+interface Timeline<T> {
+  frames: T[];
+  position: number;
+}
+
+export interface StepHistory<T> {
+  /** Frame currently on screen. */
+  current: T;
+  /** Index of `current` within the recorded frames. */
+  position: number;
+  /** Number of recorded frames, including the initial one. */
+  length: number;
+  /** True when `current` is the newest recorded frame. */
+  atEnd: boolean;
+  /** Appends a new frame after `current`, discarding any frames ahead of it. */
+  record: (frame: T) => void;
+  /**
+   * Moves to the next recorded frame, or computes and records one from the
+   * newest frame. `compute` returns null when the simulation has finished.
+   * Safe to call from animation loops that hold a stale closure.
+   */
+  advance: (compute: (frame: T) => T | null) => void;
+  forward: () => void;
+  back: () => void;
+  seek: (position: number) => void;
+  /** Drops frames ahead of `current`, e.g. after a setting changes. */
+  truncate: () => void;
+  reset: (initial: T) => void;
+}
+
+/**
+ * Snapshot history for simulators that compute their state tick by tick.
+ * Each step records an immutable frame, so Step Back and the timeline
+ * scrubber in `ModuleControls` just move a cursor over recorded frames.
+ *
+ * Modules that precompute a step array can record the step index as the
+ * frame, so Step Back retraces exactly the steps the learner has seen.
+ */
+export function useStepHistory<T>(
+  initial: () => T,
+  maxFrames: number = DEFAULT_MAX_FRAMES
+): StepHistory<T> {
+  const [timeline, setTimeline] = useState<Timeline<T>>(() => ({
+    frames: [initial()],
+    position: 0,
+  }));
+
+  const record = useCallback(
+    (frame: T) =>
+      setTimeline((t) => {
+        const frames = [...t.frames.slice(0, t.position + 1), frame];
+        const overflow = Math.max(0, frames.length - maxFrames);
+        return {
+          frames: overflow > 0 ? frames.slice(overflow) : frames,
+          position: frames.length - 1 - overflow,
+        };
+      }),
+    [maxFrames]
+  );
+
+  const advance = useCallback(
+    (compute: (frame: T) => T | null) =>
+      setTimeline((t) => {
+        if (t.position < t.frames.length - 1) {
+          return { ...t, position: t.position + 1 };
+        }
+        const frame = compute(t.frames[t.position]);
+        if (frame === null) return t;
+        const frames = [...t.frames, frame];
+        const overflow = Math.max(0, frames.length - maxFrames);
+        return {
+          frames: overflow > 0 ? frames.slice(overflow) : frames,
+          position: frames.length - 1 - overflow,
+        };
+      }),
+    [maxFrames]
+  );
+
+  const seek = useCallback(
+    (position: number) =>
+      setTimeline((t) => ({
+        ...t,
+        position: Math.min(Math.max(0, Math.round(position)), t.frames.length - 1),
+      })),
+    []
+  );
+
+  const forward = useCallback(
+    () =>
+      setTimeline((t) => ({
+        ...t,
+        position: Math.min(t.position + 1, t.frames.length - 1),
+      })),
+    []
+  );
+
+  const back = useCallback(
+    () => setTimeline((t) => ({ ...t, position: Math.max(0, t.position - 1) })),
+    []
+  );
+
+  const truncate = useCallback(
+    () =>
+      setTimeline((t) => ({
+        frames: t.frames.slice(0, t.position + 1),
+        position: t.position,
+      })),
+    []
+  );
+
+  const reset = useCallback(
+    (frame: T) => setTimeline({ frames: [frame], position: 0 }),
+    []
+  );
+
+  return useMemo(
+    () => ({
+      current: timeline.frames[timeline.position],
+      position: timeline.position,
+      length: timeline.frames.length,
+      atEnd: timeline.position === timeline.frames.length - 1,
+      record,
+      advance,
+      forward,
+      back,
+      seek,
+      truncate,
+      reset,
+    }),
+    [timeline, record, advance, forward, back, seek, truncate, reset]
+  );
+}
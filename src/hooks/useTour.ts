@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { isStepReady, type Tour, type TourStep } from "@/lib/tour";
+
+interface TourPlayback {
+  isPlaying: boolean;
+  play: () => void;
+  pause: () => void;
+}
+
+export interface TourControls<S> {
+  /** Stop on screen, or null when no tour is running. */
+  step: TourStep<S> | null;
+  index: number;
+  count: number;
+  /** True once the current stop's condition holds; false while playing towards it. */
+  ready: boolean;
+  isPlaying: boolean;
+  /** Resumes playback towards a stop that isn't ready, e.g. after a manual pause. */
+  resume: () => void;
+  start: () => void;
+  next: () => void;
+  back: () => void;
+  exit: () => void;
+}
+
+/**
+ * Runs `tour` against a page's simulation state. Advancing to a stop whose
+ * condition doesn't hold yet starts playback, and the simulation is paused
+ * as soon as it does. `start` leaves playback alone so pages can reload
+ * the preset in the same handler. Switching to a preset with a different
+ * tour ends the running one.
+ */
+export function useTour<S>(
+  tour: Tour<S> | undefined,
+  state: S,
+  { isPlaying, play, pause }: TourPlayback
+): TourControls<S> {
+  const [session, setSession] = useState<{ tour: Tour<S>; index: number } | null>(null);
+
+  const index = session && session.tour === tour ? session.index : -1;
+  const step = tour && index >= 0 ? tour[index] : null;
+  const ready = step ? isStepReady(step, state) : false;
+
+  useEffect(() => {
+    if (ready && isPlaying) pause();
+  }, [ready, isPlaying, pause]);
+
+  const goTo = useCallback(
+    (i: number, autoplay: boolean) => {
+      if (!tour || i < 0 || i >= tour.length) {
+        setSession(null);
+        return;
+      }
+      setSession({ tour, index: i });
+      if (autoplay && !isStepReady(tour[i], state)) play();
+    },
+    [tour, state, play]
+  );
+
+  return {
+    step,
+    index,
+    count: tour?.length ?? 0,
+    ready,
+    isPlaying,
+    resume: play,
+    start: () => goTo(0, false),
+    next: () => goTo(index + 1, true),
+    back: () => goTo(Math.max(0, index - 1), false),
+    exit: () => setSession(null),
+  };
+}
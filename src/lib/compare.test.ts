@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { diffMetrics, formatDelta, formatMetric, stepPair, type LockstepSim } from "./compare";
+
+/** Counts up by `by` until it reaches `to`. */
+const COUNTER: LockstepSim<number, { by: number; to: number }> = {
+  init: () => 0,
+  step: (n, { by }) => n + by,
+  done: (n, { to }) => n >= to,
+  metrics: (n) => [{ label: "Count", value: n, better: "higher" }],
+};
+
+describe("stepPair", () => {
+  it("holds a finished side while the other runs on", () => {
+    const configs: [{ by: number; to: number }, { by: number; to: number }] = [
+      { by: 1, to: 2 },
+      { by: 1, to: 4 },
+    ];
+    let pair: [number, number] | null = [0, 0];
+    const seen: [number, number][] = [];
+    while ((pair = stepPair(COUNTER, pair, configs))) seen.push(pair);
+    expect(seen).toEqual([[1, 1], [2, 2], [2, 3], [2, 4]]);
+  });
+});
+
+describe("diffMetrics", () => {
+  it("picks the winner by direction and pairs by label", () => {
+    const diffs = diffMetrics(
+      [
+        { label: "Wait", value: 5, better: "lower" },
+        { label: "Hits", value: 3, better: "higher" },
+        { label: "Ticks", value: 10 },
+        { label: "Only left", value: 1 },
+      ],
+      [
+        { label: "Ticks", value: 12 },
+        { label: "Hits", value: 2, better: "higher" },
+        { label: "Wait", value: 4, better: "lower" },
+      ]
+    );
+    expect(diffs.map((d) => [d.label, d.winner, d.delta])).toEqual([
+      ["Wait", "right", -1],
+      ["Hits", "left", -1],
+      ["Ticks", null, 2],
+    ]);
+  });
+
+  it("ties values equal at display precision", () => {
+    const [diff] = diffMetrics(
+      [{ label: "Avg", value: 2.001, better: "lower", digits: 2 }],
+      [{ label: "Avg", value: 1.999, better: "lower", digits: 2 }]
+    );
+    expect(diff.winner).toBe("tie");
+  });
+});
+
+describe("formatting", () => {
+  it("formats values and signed deltas", () => {
+    expect(formatMetric(12.345, 1, "%")).toBe("12.3%");
+    expect(formatMetric(NaN)).toBe("--");
+    expect(formatDelta(1.5, 2)).toBe("+1.50");
+    expect(formatDelta(-2)).toBe("−2");
+    expect(formatDelta(0.004, 2, "%")).toBe("±0.00%");
+  });
+});
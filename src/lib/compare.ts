@@ -0,0 +1,85 @@
+/**
+ * Side-by-side comparison of two configurations of one simulator. Both sides
+ * start from their own initial state and advance one tick at a time in
+ * lockstep; `ComparisonView` renders them next to each other and diffs the
+ * metrics each side reports.
+ */
+
+export interface ComparisonMetric {
+  label: string;
+  value: number;
+  /** Which direction counts as an improvement; omit for neutral counts. */
+  better?: "lower" | "higher";
+  /** Decimal places shown, default 0. */
+  digits?: number;
+  unit?: string;
+}
+
+/** A simulator reduced to what the harness needs: a pure state machine plus metrics. */
+export interface LockstepSim<S, C> {
+  init: (config: C) => S;
+  step: (state: S, config: C) => S;
+  done: (state: S, config: C) => boolean;
+  metrics: (state: S, config: C) => ComparisonMetric[];
+}
+
+export type Side = "left" | "right";
+
+export interface MetricDiff {
+  label: string;
+  left: number;
+  right: number;
+  /** `right - left`. */
+  delta: number;
+  /** Side with the better value, "tie" when equal, null for neutral metrics. */
+  winner: Side | "tie" | null;
+  digits: number;
+  unit?: string;
+}
+
+/**
+ * Advances both sides by one tick. A side that has finished keeps its state,
+ * so the other can run on; returns null once both are done.
+ */
+export function stepPair<S, C>(sim: LockstepSim<S, C>, pair: [S, S], configs: [C, C]): [S, S] | null {
+  const [left, right] = pair;
+  const leftDone = sim.done(left, configs[0]);
+  const rightDone = sim.done(right, configs[1]);
+  if (leftDone && rightDone) return null;
+  return [
+    leftDone ? left : sim.step(left, configs[0]),
+    rightDone ? right : sim.step(right, configs[1]),
+  ];
+}
+
+/** Pairs metrics by label; metrics only one side reports are left out. */
+export function diffMetrics(left: ComparisonMetric[], right: ComparisonMetric[]): MetricDiff[] {
+  const byLabel = new Map(right.map((m) => [m.label, m]));
+  return left.flatMap((l) => {
+    const r = byLabel.get(l.label);
+    if (!r) return [];
+    const digits = l.digits ?? 0;
+    // Compare at display precision so rounding noise never picks a winner.
+    const scale = 10 ** digits;
+    const a = Math.round(l.value * scale);
+    const b = Math.round(r.value * scale);
+    let winner: MetricDiff["winner"] = null;
+    if (l.better) {
+      if (a === b) winner = "tie";
+      else winner = (l.better === "lower") === a < b ? "left" : "right";
+    }
+    return [{ label: l.label, left: l.value, right: r.value, delta: r.value - l.value, winner, digits, unit: l.unit }];
+  });
+}
+
+export function formatMetric(value: number, digits = 0, unit = ""): string {
+  if (!Number.isFinite(value)) return "--";
+  return `${value.toFixed(digits)}${unit}`;
+}
+
+/** Signed delta, e.g. "+1.50" or "−2". */
+export function formatDelta(delta: number, digits = 0, unit = ""): string {
+  const rounded = Number(delta.toFixed(digits));
+  if (rounded === 0) return `±${(0).toFixed(digits)}${unit}`;
+  return `${rounded > 0 ? "+" : "−"}${Math.abs(rounded).toFixed(digits)}${unit}`;
+}
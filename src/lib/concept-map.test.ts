@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { computeLayers, layoutConceptMap, reachable } from "./concept-map";
+import { availableModules, domains, getDependents, getModule, type Module } from "./domains";
+
+const mod = (id: string, prerequisites?: string[]): Module => ({
+  id,
+  number: id,
+  title: id,
+  description: "",
+  status: "available",
+  href: `/modules/${id}`,
+  prerequisites,
+});
+
+describe("module catalog", () => {
+  it("only references modules that exist", () => {
+    const missing = domains
+      .flatMap((d) => d.modules)
+      .flatMap((m) => (m.prerequisites ?? []).filter((p) => !getModule(p)).map((p) => `${m.id} -> ${p}`));
+    expect(missing).toEqual([]);
+  });
+
+  it("forms a DAG", () => {
+    expect(() => computeLayers(domains.flatMap((d) => d.modules))).not.toThrow();
+  });
+
+  it("links the datapath chain both ways", () => {
+    const layers = computeLayers(availableModules);
+    expect(layers.get("1.3")!).toBeLessThan(layers.get("1.7")!);
+    expect(layers.get("1.7")!).toBeLessThan(layers.get("2.2")!);
+    expect(layers.get("2.2")!).toBeLessThan(layers.get("2.3")!);
+    expect(getDependents("2.2").map((m) => m.id)).toContain("2.3");
+  });
+});
+
+describe("computeLayers", () => {
+  it("places modules one layer past their deepest prerequisite", () => {
+    const layers = computeLayers([mod("a"), mod("b", ["a"]), mod("c", ["a", "b"])]);
+    expect(Object.fromEntries(layers)).toEqual({ a: 0, b: 1, c: 2 });
+  });
+
+  it("rejects cycles", () => {
+    expect(() => computeLayers([mod("a", ["b"]), mod("b", ["a"])])).toThrow(/cycle/);
+  });
+});
+
+describe("layoutConceptMap", () => {
+  it("places every edge left to right", () => {
+    const map = layoutConceptMap(availableModules);
+    const x = new Map(map.nodes.map((n) => [n.module.id, n.x]));
+    expect(map.nodes).toHaveLength(availableModules.length);
+    for (const edge of map.edges) {
+      expect(x.get(edge.from)!).toBeLessThan(x.get(edge.to)!);
+    }
+  });
+
+  it("finds transitive prerequisites and dependents", () => {
+    const { edges } = layoutConceptMap(availableModules);
+    expect(reachable(edges, "2.3", "prerequisites")).toContain("1.3");
+    expect(reachable(edges, "1.3", "dependents")).toContain("2.3");
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Lays out the module prerequisite graph as a layered DAG for the concept
+ * map: each module sits one column right of its deepest prerequisite, and
+ * rows within a column follow the average row of their prerequisites so
+ * related chains stay roughly level.
+ */
+
+import type { Domain, Module } from "@/lib/domains";
+
+export type CatalogModule = Module & { domain: Domain };
+
+export interface ConceptNode {
+  module: CatalogModule;
+  layer: number;
+  row: number;
+  x: number;
+  y: number;
+}
+
+export interface ConceptEdge {
+  from: string;
+  to: string;
+}
+
+export interface ConceptMap {
+  nodes: ConceptNode[];
+  edges: ConceptEdge[];
+  width: number;
+  height: number;
+}
+
+export const NODE_WIDTH = 168;
+export const NODE_HEIGHT = 40;
+const COLUMN_GAP = 72;
+const ROW_GAP = 14;
+const PADDING = 24;
+
+/**
+ * Assigns each module its longest-path depth from a root. Prerequisites that
+ * aren't in `modules` are ignored. Throws on a cycle, since the catalog is
+ * meant to be a DAG.
+ */
+export function computeLayers(modules: Module[]): Map<string, number> {
+  const byId = new Map(modules.map((m) => [m.id, m]));
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) {
+      throw new Error(`Prerequisite cycle through module ${id}`);
+    }
+    visiting.add(id);
+    const prereqs = (byId.get(id)?.prerequisites ?? []).filter((p) => byId.has(p));
+    const layer = prereqs.reduce((max, p) => Math.max(max, visit(p) + 1), 0);
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  modules.forEach((m) => visit(m.id));
+  return layers;
+}
+
+export function layoutConceptMap(modules: CatalogModule[]): ConceptMap {
+  const layers = computeLayers(modules);
+  const ids = new Set(modules.map((m) => m.id));
+  const edges: ConceptEdge[] = modules.flatMap((m) =>
+    (m.prerequisites ?? []).filter((p) => ids.has(p)).map((p) => ({ from: p, to: m.id }))
+  );
+
+  const columns: CatalogModule[][] = [];
+  modules.forEach((m) => {
+    const layer = layers.get(m.id)!;
+    (columns[layer] ??= []).push(m);
+  });
+
+  const rows = new Map<string, number>();
+  columns.forEach((column, layer) => {
+    if (layer > 0) {
+      const barycenter = (m: CatalogModule) => {
+        const placed = (m.prerequisites ?? []).flatMap((p) => rows.get(p) ?? []);
+        return placed.reduce((sum, r) => sum + r, 0) / Math.max(1, placed.length);
+      };
+      // Stable sort keeps catalog order between modules with equal weight.
+      column.sort((a, b) => barycenter(a) - barycenter(b));
+    }
+    column.forEach((m, row) => rows.set(m.id, row));
+  });
+
+  const nodes: ConceptNode[] = columns.flatMap((column, layer) =>
+    column.map((module, row) => ({
+      module,
+      layer,
+      row,
+      x: PADDING + layer * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+    }))
+  );
+
+  const tallest = Math.max(0, ...columns.map((c) => c.length));
+  return {
+    nodes,
+    edges,
+    width: PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP,
+    height: PADDING * 2 + tallest * NODE_HEIGHT + Math.max(0, tallest - 1) * ROW_GAP,
+  };
+}
+
+/** Every module reachable from `id` by following edges in one direction. */
+export function reachable(
+  edges: ConceptEdge[],
+  id: string,
+  direction: "prerequisites" | "dependents"
+): Set<string> {
+  const seen = new Set<string>();
+  const stack = [id];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const edge of edges) {
+      const [here, next] = direction === "prerequisites" ? [edge.to, edge.from] : [edge.from, edge.to];
+      if (here === current && !seen.has(next)) {
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return seen;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEmbedUrl,
+  embedMessage,
+  embedPath,
+  embedSnippet,
+  isEmbedMessage,
+  modulePageUrl,
+  parseEmbedConfig,
+} from "./embed";
+
+describe("embed config", () => {
+  it("defaults to a dark frame with controls", () => {
+    expect(parseEmbedConfig("")).toEqual({ theme: "dark", controls: true, origin: null });
+  });
+
+  it("reads theme, controls and origin", () => {
+    expect(
+      parseEmbedConfig("?scenario=clustering&theme=light&controls=0&origin=https://lms.example.edu/course/1")
+    ).toEqual({ theme: "light", controls: false, origin: "https://lms.example.edu" });
+  });
+
+  it("ignores unknown values", () => {
+    expect(parseEmbedConfig("?theme=sepia&controls=no&origin=not a url")).toEqual({
+      theme: "dark",
+      controls: true,
+      origin: null,
+    });
+  });
+
+  it("falls back to the referrer's origin", () => {
+    expect(parseEmbedConfig("", "https://slides.example.org/deck?page=3").origin).toBe("https://slides.example.org");
+    expect(parseEmbedConfig("?origin=https://lms.example.edu", "https://slides.example.org/").origin).toBe(
+      "https://lms.example.edu"
+    );
+    expect(parseEmbedConfig("?origin=nope", "about:blank").origin).toBeNull();
+  });
+});
+
+describe("embed urls", () => {
+  it("maps module pages to embed frames", () => {
+    expect(embedPath("/modules/4-3-hash-tables")).toBe("/embed/4-3-hash-tables");
+  });
+
+  it("keeps share state and non-default config", () => {
+    const url = buildEmbedUrl(
+      "/modules/8-3-tcp",
+      { scenario: "packet-loss", speed: 2 },
+      { theme: "light", controls: true },
+      "https://lab.example.com"
+    );
+    expect(url).toBe("https://lab.example.com/embed/8-3-tcp?scenario=packet-loss&speed=2&theme=light");
+  });
+
+  it("maps an embed frame back to its module page without frame config", () => {
+    expect(
+      modulePageUrl("https://lab.example.com/embed/8-3-tcp?scenario=packet-loss&theme=light&controls=0&origin=https://lms.example.edu")
+    ).toBe("https://lab.example.com/modules/8-3-tcp?scenario=packet-loss");
+  });
+
+  it("escapes attributes in the iframe snippet", () => {
+    expect(embedSnippet("https://x.test/embed/a?b=1&c=2", 'Say "hi"')).toContain(
+      'src="https://x.test/embed/a?b=1&amp;c=2" title="Say &quot;hi&quot;"'
+    );
+  });
+});
+
+describe("embed messages", () => {
+  it("tags events with the source and module", () => {
+    const message = embedMessage("4.3", { type: "finished", scenario: "clustering" });
+    expect(message).toEqual({ source: "cs-visual-lab", moduleId: "4.3", type: "finished", scenario: "clustering" });
+    expect(isEmbedMessage(message)).toBe(true);
+    expect(isEmbedMessage({ type: "finished" })).toBe(false);
+    expect(isEmbedMessage("ready")).toBe(false);
+  });
+});
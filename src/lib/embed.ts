@@ -0,0 +1,117 @@
+/**
+ * Embed mode: `/embed/<module>` renders one simulator without the site
+ * chrome so it can sit in an iframe on course slides or an LMS page.
+ *
+ * The share-state params (`scenario`, `speed`, `step`, `state`) work as on
+ * the module page. The params below configure the frame itself, and the
+ * frame reports what the learner does through `postMessage` events.
+ */
+
+import { encodeShareState, type ShareState } from "@/lib/share-state";
+
+export const EMBED_PREFIX = "/embed/";
+export const EMBED_MESSAGE_SOURCE = "cs-visual-lab";
+
+export type EmbedTheme = "dark" | "light";
+
+export interface EmbedConfig {
+  theme: EmbedTheme;
+  /** `controls=0` hides `ModuleControls` for a hands-off view. */
+  controls: boolean;
+  /**
+   * Target origin for events: `origin=` when the host sets it, else the
+   * referrer's. Null posts nothing, so events never go to an unknown page.
+   */
+  origin: string | null;
+}
+
+const DEFAULT_CONFIG: EmbedConfig = { theme: "dark", controls: true, origin: null };
+
+/** Query params that only configure the frame, never the simulator. */
+const FRAME_PARAMS = ["theme", "controls", "origin"];
+
+export function isEmbedPath(pathname: string): boolean {
+  return pathname.startsWith(EMBED_PREFIX);
+}
+
+/** `/modules/4-3-hash-tables` → `/embed/4-3-hash-tables`. */
+export function embedPath(moduleHref: string): string {
+  return moduleHref.replace(/^\/modules\//, EMBED_PREFIX);
+}
+
+/** An embed URL as the full module page: same share state, no frame config. */
+export function modulePageUrl(embedHref: string): string {
+  const url = new URL(embedHref);
+  url.pathname = url.pathname.replace(EMBED_PREFIX, "/modules/");
+  FRAME_PARAMS.forEach((param) => url.searchParams.delete(param));
+  return url.toString();
+}
+
+function readOrigin(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    const { origin } = new URL(value);
+    return origin === "null" ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/** `referrer` is the frame's `document.referrer`, used when `origin=` is absent or invalid. */
+export function parseEmbedConfig(search: string, referrer = ""): EmbedConfig {
+  const query = new URLSearchParams(search);
+  return {
+    theme: query.get("theme") === "light" ? "light" : "dark",
+    controls: query.get("controls") !== "0",
+    origin: readOrigin(query.get("origin")) ?? readOrigin(referrer),
+  };
+}
+
+/** Absolute embed URL for a module, carrying its share state and frame config. */
+export function buildEmbedUrl(
+  moduleHref: string,
+  state: ShareState,
+  config: Partial<EmbedConfig> = {},
+  base: string = window.location.origin
+): string {
+  const url = new URL(embedPath(moduleHref), base);
+  const search = new URLSearchParams(encodeShareState(state));
+  if (config.theme && config.theme !== DEFAULT_CONFIG.theme) search.set("theme", config.theme);
+  if (config.controls === false) search.set("controls", "0");
+  if (config.origin) search.set("origin", config.origin);
+  url.search = search.toString();
+  return url.toString();
+}
+
+export function embedSnippet(url: string, title: string): string {
+  const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+  return `<iframe src="${escape(url)}" title="${escape(title)}" width="100%" height="720" style="border:0" loading="lazy"></iframe>`;
+}
+
+/* ── Events posted to the host page ── */
+
+export type EmbedEvent =
+  | { type: "ready" }
+  | { type: "scenario"; scenario: string }
+  | { type: "step"; step: number; total?: number }
+  | { type: "finished"; scenario?: string };
+
+export type EmbedMessage = EmbedEvent & {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  moduleId: string;
+};
+
+export function embedMessage(moduleId: string, event: EmbedEvent): EmbedMessage {
+  return { source: EMBED_MESSAGE_SOURCE, moduleId, ...event };
+}
+
+/** For host pages: true when a `message` event's data came from an embed. */
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE &&
+    typeof (data as { moduleId?: unknown }).moduleId === "string" &&
+    typeof (data as { type?: unknown }).type === "string"
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * Frame export: the module's SVG view saved as a standalone SVG or PNG,
+ * and a run of steps captured and encoded as GIF or WebM, all in the
+ * browser. Modules mark their main drawing with `data-export`; without a
+ * marker the largest SVG on the page is used.
+ */
+
+import { encodeGif } from "@/lib/gif";
+
+export const EXPORT_ATTRIBUTE = "data-export";
+
+/** Smaller SVGs are icons, not views worth exporting. */
+const MIN_EXPORT_AREA = 120 * 120;
+
+/** Computed styles copied inline so the SVG renders the same outside the page's CSS. */
+const INLINED_STYLES = [
+  "display",
+  "visibility",
+  "opacity",
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+];
+
+export interface SvgSnapshot {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+export function findExportTarget(root: ParentNode = document): SVGSVGElement | null {
+  const marked = root.querySelector<SVGSVGElement>(`svg[${EXPORT_ATTRIBUTE}]`);
+  if (marked) return marked;
+
+  let best: SVGSVGElement | null = null;
+  let bestArea = MIN_EXPORT_AREA;
+  root.querySelectorAll<SVGSVGElement>("svg").forEach((svg) => {
+    if (svg.closest("nav, button")) return;
+    const { width, height } = svg.getBoundingClientRect();
+    if (width * height > bestArea) {
+      best = svg;
+      bestArea = width * height;
+    }
+  });
+  return best;
+}
+
+/** First opaque background behind `el`, so exports keep the module's dark canvas. */
+function backgroundOf(el: Element): string {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const color = getComputedStyle(node).backgroundColor;
+    if (color && color !== "transparent" && color !== "rgba(0, 0, 0, 0)") return color;
+  }
+  return "#0a0a0f";
+}
+
+export function snapshotSvg(svg: SVGSVGElement): SvgSnapshot {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  const sources = [svg, ...svg.querySelectorAll("*")];
+  const targets = [clone, ...clone.querySelectorAll("*")];
+  sources.forEach((source, i) => {
+    const computed = getComputedStyle(source);
+    const target = targets[i] as SVGElement;
+    for (const prop of INLINED_STYLES) target.style.setProperty(prop, computed.getPropertyValue(prop));
+  });
+
+  const w = Math.round(width);
+  const h = Math.round(height);
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(w));
+  clone.setAttribute("height", String(h));
+  clone.removeAttribute(EXPORT_ATTRIBUTE);
+  clone.removeAttribute("class");
+  clone.style.removeProperty("max-height");
+
+  const box = svg.viewBox.baseVal;
+  const hasViewBox = box && box.width > 0 && box.height > 0;
+  const bg = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+  bg.setAttribute("x", String(hasViewBox ? box.x : 0));
+  bg.setAttribute("y", String(hasViewBox ? box.y : 0));
+  bg.setAttribute("width", String(hasViewBox ? box.width : w));
+  bg.setAttribute("height", String(hasViewBox ? box.height : h));
+  bg.setAttribute("fill", backgroundOf(svg));
+  clone.insertBefore(bg, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width: w, height: h };
+}
+
+export async function rasterize({ markup, width, height }: SvgSnapshot, scale = 1): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Canvas export failed"))), type);
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/* ── Step captures ── */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const nextFrame = () => new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+export interface CaptureOptions {
+  steps: number;
+  /** Takes one simulation step. */
+  advance: () => void;
+  /** Time for React to commit and for transitions to finish before a snapshot. */
+  settleMs: number;
+  onProgress?: (captured: number) => void;
+}
+
+/**
+ * Snapshots the current frame, then steps and snapshots `steps` more times.
+ * Stops early once three steps in a row leave the view unchanged, which is
+ * usually the end of the run, and drops those repeats.
+ */
+export async function captureSteps({ steps, advance, settleMs, onProgress }: CaptureOptions): Promise<SvgSnapshot[]> {
+  const frames: SvgSnapshot[] = [];
+  let unchanged = 0;
+  for (let i = 0; i <= steps; i++) {
+    if (i > 0) {
+      advance();
+      await sleep(settleMs);
+      await nextFrame();
+    }
+    const target = findExportTarget();
+    if (!target) break;
+    const snapshot = snapshotSvg(target);
+    if (frames.length > 0 && snapshot.markup === frames[frames.length - 1].markup) {
+      if (++unchanged === 3) break;
+      continue;
+    }
+    unchanged = 0;
+    frames.push(snapshot);
+    onProgress?.(frames.length);
+  }
+  return frames;
+}
+
+/** Longest side of animation exports; keeps GIFs a reasonable size. */
+const MAX_ANIMATION_WIDTH = 960;
+
+async function rasterizeAll(frames: SvgSnapshot[]): Promise<HTMLCanvasElement[]> {
+  const width = Math.max(...frames.map((f) => f.width));
+  const height = Math.max(...frames.map((f) => f.height));
+  const scale = Math.min(1, MAX_ANIMATION_WIDTH / width);
+  // Frames can differ in size as the view grows; pad them to one canvas.
+  return Promise.all(
+    frames.map(async (frame) => {
+      const image = await rasterize(frame, scale);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d")!;
+      ctx.fillStyle = "#0a0a0f";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0);
+      return canvas;
+    })
+  );
+}
+
+export async function framesToGif(frames: SvgSnapshot[], delayMs: number): Promise<Blob> {
+  const canvases = await rasterizeAll(frames);
+  const pixels = canvases.map((c) => c.getContext("2d")!.getImageData(0, 0, c.width, c.height));
+  const bytes = encodeGif(pixels, { delayMs });
+  return new Blob([bytes.buffer as ArrayBuffer], { type: "image/gif" });
+}
+
+export function canRecordWebm(): boolean {
+  return typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported("video/webm");
+}
+
+/** Plays the frames onto a canvas in real time and records it with `MediaRecorder`. */
+export async function framesToWebm(frames: SvgSnapshot[], delayMs: number): Promise<Blob> {
+  const canvases = await rasterizeAll(frames);
+  const canvas = document.createElement("canvas");
+  canvas.width = canvases[0].width;
+  canvas.height = canvases[0].height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(canvases[0], 0, 0);
+
+  const mimeType = MediaRecorder.isTypeSupported("video/webm;codecs=vp9") ? "video/webm;codecs=vp9" : "video/webm";
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+
+  recorder.start();
+  for (const frame of canvases) {
+    ctx.drawImage(frame, 0, 0);
+    await sleep(delayMs);
+  }
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: "video/webm" });
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { buildPalette, encodeGif, indexPixels, lzwEncode, type GifFrame } from "./gif";
+
+/** Reference GIF LZW decoder, written from the spec independently of the encoder. */
+function lzwDecode(bytes: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let dict: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let prev: number[] | null = null;
+  let pos = 0;
+
+  const reset = () => {
+    dict = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    prev = null;
+  };
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, pos++) {
+      code |= ((bytes[pos >> 3] >> (pos & 7)) & 1) << i;
+    }
+    return code;
+  };
+
+  reset();
+  for (;;) {
+    const code = read();
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+    const entry: number[] = code < dict.length ? dict[code] : [...prev!, prev![0]];
+    out.push(...entry);
+    if (prev && dict.length < 4096) {
+      dict.push([...prev, entry[0]]);
+      if (dict.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    prev = entry;
+  }
+  return out;
+}
+
+function solidFrame(width: number, height: number, rgb: [number, number, number]): GifFrame {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...rgb, 255], i);
+  return { width, height, data };
+}
+
+describe("gif lzw", () => {
+  it("round-trips a short run", () => {
+    const indices = Uint8Array.from([0, 1, 1, 2, 3, 3, 3, 0, 1, 2]);
+    expect(lzwDecode(lzwEncode(indices, 2), 2)).toEqual([...indices]);
+  });
+
+  it("round-trips through table resets with a full palette", () => {
+    let seed = 7;
+    const indices = Uint8Array.from({ length: 30000 }, () => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return seed % 256;
+    });
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual([...indices]);
+  });
+
+  it("round-trips long repetitive runs", () => {
+    const indices = Uint8Array.from({ length: 50000 }, (_, i) => (i % 97 < 90 ? 1 : i % 3));
+    expect(lzwDecode(lzwEncode(indices, 2), 2)).toEqual([...indices]);
+  });
+});
+
+describe("gif palette", () => {
+  it("keeps flat colors exact and maps pixels to them", () => {
+    const frame = solidFrame(2, 1, [10, 10, 15]);
+    frame.data.set([99, 102, 241, 255], 4);
+    const palette = buildPalette([frame]);
+    expect([...palette].sort((a, b) => a - b)).toEqual([10, 10, 15, 99, 102, 241].sort((a, b) => a - b));
+    const indices = indexPixels(frame.data, palette);
+    expect([...palette.subarray(indices[1] * 3, indices[1] * 3 + 3)]).toEqual([99, 102, 241]);
+  });
+});
+
+describe("gif container", () => {
+  it("writes the header, loop extension, frames and trailer", () => {
+    const frames = [solidFrame(3, 2, [255, 0, 0]), solidFrame(3, 2, [0, 0, 255])];
+    const gif = encodeGif(frames, { delayMs: 500 });
+    const text = (from: number, length: number) => String.fromCharCode(...gif.subarray(from, from + length));
+
+    expect(text(0, 6)).toBe("GIF89a");
+    expect(gif[6] | (gif[7] << 8)).toBe(3);
+    expect(gif[8] | (gif[9] << 8)).toBe(2);
+    expect(text(13 + 6 + 3, 11)).toBe("NETSCAPE2.0");
+    expect(gif.filter((b, i) => b === 0x21 && gif[i + 1] === 0xf9)).toHaveLength(2);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it("rejects frames of different sizes", () => {
+    expect(() => encodeGif([solidFrame(2, 2, [0, 0, 0]), solidFrame(3, 2, [0, 0, 0])], { delayMs: 100 })).toThrow();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Minimal animated GIF encoder for exporting simulator frames. Frames are
+ * RGBA pixel buffers (an `ImageData` works as-is) that share one global
+ * palette: the simulators draw with a small set of flat theme colors, so
+ * a popularity palette over 15-bit color buckets is plenty.
+ */
+
+export interface GifFrame {
+  width: number;
+  height: number;
+  /** RGBA, 4 bytes per pixel. Alpha is ignored. */
+  data: Uint8ClampedArray;
+}
+
+export interface GifOptions {
+  /** Time each frame stays on screen. GIF stores centiseconds. */
+  delayMs: number;
+  /** Loop forever (default) or play once. */
+  loop?: boolean;
+}
+
+const MAX_CODES = 4096;
+
+function bucketOf(data: Uint8ClampedArray, i: number): number {
+  return ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+}
+
+/**
+ * Up to `maxColors` RGB triplets: the most common 15-bit buckets across
+ * all frames, each averaged over the pixels that fell into it.
+ */
+export function buildPalette(frames: GifFrame[], maxColors = 256): Uint8Array {
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4) {
+      const bucket = bucketOf(data, i);
+      counts[bucket]++;
+      sums[bucket * 3] += data[i];
+      sums[bucket * 3 + 1] += data[i + 1];
+      sums[bucket * 3 + 2] += data[i + 2];
+    }
+  }
+
+  const used: number[] = [];
+  counts.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+  used.sort((a, b) => counts[b] - counts[a]);
+
+  const chosen = used.slice(0, maxColors);
+  const palette = new Uint8Array(chosen.length * 3);
+  chosen.forEach((bucket, i) => {
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sums[bucket * 3 + c] / counts[bucket]);
+  });
+  return palette;
+}
+
+/** Maps each pixel to its nearest palette entry. `cache` is shared across frames. */
+export function indexPixels(
+  data: Uint8ClampedArray,
+  palette: Uint8Array,
+  cache: Int16Array = new Int16Array(1 << 15).fill(-1)
+): Uint8Array {
+  const out = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const bucket = bucketOf(data, i);
+    let index = cache[bucket];
+    if (index < 0) {
+      let best = Infinity;
+      for (let j = 0; j < palette.length / 3; j++) {
+        const dr = data[i] - palette[j * 3];
+        const dg = data[i + 1] - palette[j * 3 + 1];
+        const db = data[i + 2] - palette[j * 3 + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < best) {
+          best = distance;
+          index = j;
+        }
+      }
+      cache[bucket] = index;
+    }
+    out[p] = index;
+  }
+  return out;
+}
+
+/**
+ * GIF-flavoured LZW: variable-width codes starting at `minCodeSize + 1`
+ * bits, packed LSB first, with a clear code whenever the 4096-entry table
+ * fills up. Follows the reference `compress` timing for widening codes so
+ * every decoder stays in step.
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  // table[prefix * 256 + pixel] = code + 1 (0 = absent); `added` lets a
+  // reset clear only the entries that were set.
+  const table = new Uint16Array(MAX_CODES * 256);
+  const added: number[] = [];
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let resetWidth = false;
+
+  const output = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+    if (resetWidth) {
+      codeSize = minCodeSize + 1;
+      resetWidth = false;
+    } else if (codeSize < 12 && nextCode > (1 << codeSize) - 1) {
+      codeSize++;
+    }
+  };
+
+  output(clearCode);
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const pixel = indices[i];
+      const key = prefix * 256 + pixel;
+      if (table[key] !== 0) {
+        prefix = table[key] - 1;
+        continue;
+      }
+      output(prefix);
+      prefix = pixel;
+      if (nextCode < MAX_CODES) {
+        table[key] = nextCode + 1;
+        added.push(key);
+        nextCode++;
+      } else {
+        for (const k of added) table[k] = 0;
+        added.length = 0;
+        nextCode = endCode + 1;
+        resetWidth = true;
+        output(clearCode);
+      }
+    }
+    output(prefix);
+  }
+  output(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(...values: number[]) {
+    this.bytes.push(...values);
+  }
+
+  word(value: number) {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  text(value: string) {
+    for (const ch of value) this.bytes.push(ch.charCodeAt(0));
+  }
+
+  chunk(values: Uint8Array) {
+    for (const value of values) this.bytes.push(value);
+  }
+
+  /** GIF data sub-blocks: length-prefixed runs of up to 255 bytes, then a 0 terminator. */
+  subBlocks(values: Uint8Array) {
+    for (let i = 0; i < values.length; i += 255) {
+      const block = values.subarray(i, i + 255);
+      this.bytes.push(block.length);
+      this.chunk(block);
+    }
+    this.bytes.push(0);
+  }
+
+  toArray(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/** Encodes same-sized frames as a GIF89a. Throws on an empty or mismatched frame list. */
+export function encodeGif(frames: GifFrame[], { delayMs, loop = true }: GifOptions): Uint8Array {
+  if (frames.length === 0) throw new Error("encodeGif: no frames");
+  const { width, height } = frames[0];
+  if (frames.some((f) => f.width !== width || f.height !== height)) {
+    throw new Error("encodeGif: frames must share one size");
+  }
+
+  const palette = buildPalette(frames);
+  const colors = Math.max(2, palette.length / 3);
+  const tableBits = Math.ceil(Math.log2(colors));
+  const minCodeSize = Math.max(2, tableBits);
+  const cache = new Int16Array(1 << 15).fill(-1);
+
+  const out = new ByteWriter();
+  out.text("GIF89a");
+  out.word(width);
+  out.word(height);
+  out.byte(0x80 | (7 << 4) | (tableBits - 1), 0, 0);
+  const table = new Uint8Array(3 << tableBits);
+  table.set(palette);
+  out.chunk(table);
+
+  if (loop) {
+    out.byte(0x21, 0xff, 11);
+    out.text("NETSCAPE2.0");
+    out.byte(3, 1, 0, 0, 0);
+  }
+
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  for (const frame of frames) {
+    out.byte(0x21, 0xf9, 4, 0);
+    out.word(delay);
+    out.byte(0, 0);
+
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+
+    out.byte(minCodeSize);
+    out.subBlocks(lzwEncode(indexPixels(frame.data, palette, cache), minCodeSize));
+  }
+
+  out.byte(0x3b);
+  return out.toArray();
+}
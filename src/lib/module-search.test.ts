@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { availableModules } from "./domains";
+import { fuzzyScore, searchModules } from "./module-search";
+import { moduleSearchMeta } from "./search-catalog";
+
+describe("fuzzyScore", () => {
+  it("matches subsequences case-insensitively", () => {
+    expect(fuzzyScore("rr", "Round Robin")).not.toBeNull();
+    expect(fuzzyScore("DIJK", "dijkstra")).not.toBeNull();
+    expect(fuzzyScore("xyz", "Round Robin")).toBeNull();
+  });
+
+  it("prefers word starts and consecutive runs", () => {
+    expect(fuzzyScore("rr", "Round Robin")!).toBeGreaterThan(fuzzyScore("rr", "Error")!);
+    expect(fuzzyScore("heap", "Heap Sort")!).toBeGreaterThan(fuzzyScore("heap", "the apple")!);
+  });
+});
+
+describe("searchModules", () => {
+  it("finds a module by an algorithm it covers", () => {
+    const [top] = searchModules("mlfq");
+    expect(top.kind).toBe("module");
+    expect(top.moduleId).toBe("3.2");
+    expect(top.matched).toBe("MLFQ");
+  });
+
+  it("links scenario results to the preset", () => {
+    const hit = searchModules("fast retransmit").find((r) => r.moduleId === "8.3");
+    expect(hit).toBeDefined();
+
+    const scenario = searchModules("packet loss").find((r) => r.kind === "scenario");
+    expect(scenario?.href).toBe("/modules/8-3-tcp?scenario=packet-loss");
+  });
+
+  it("lists modules in curriculum order for an empty query", () => {
+    const results = searchModules("", 5);
+    expect(results.map((r) => r.moduleId)).toEqual(availableModules.slice(0, 5).map((m) => m.id));
+  });
+
+  it("has catalog entries only for available modules", () => {
+    const ids = new Set(availableModules.map((m) => m.id));
+    expect(Object.keys(moduleSearchMeta).filter((id) => !ids.has(id))).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Fuzzy search over modules and their preset scenarios, used by the Ctrl+K
+ * command palette. Scenario results link straight to the preset through the
+ * share-link `?scenario=` parameter.
+ */
+
+import { availableModules } from "@/lib/domains";
+import { moduleSearchMeta } from "@/lib/search-catalog";
+import { encodeShareState } from "@/lib/share-state";
+
+export type SearchResultKind = "module" | "scenario";
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  moduleId: string;
+  /** Module title, or the scenario label for scenario results. */
+  title: string;
+  /** Secondary line: the description, or the module a scenario belongs to. */
+  subtitle: string;
+  /** Keyword that matched, when it was not the title itself. */
+  matched?: string;
+  href: string;
+  color: string;
+  score: number;
+}
+
+interface SearchField {
+  text: string;
+  weight: number;
+  /** Whether a match on this field is worth showing as `matched`. */
+  show: boolean;
+}
+
+interface SearchEntry {
+  result: Omit<SearchResult, "score" | "matched">;
+  fields: SearchField[];
+}
+
+const DEFAULT_LIMIT = 12;
+
+/**
+ * Scores `query` as a case-insensitive subsequence of `text`, or returns null
+ * when it doesn't match. Consecutive runs, word starts and an early first
+ * match all score higher, so "rr" ranks "Round Robin" above "Error".
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (q.length === 0) return 0;
+
+  let score = 0;
+  let ti = 0;
+  let run = 0;
+  let first = -1;
+
+  for (let qi = 0; qi < q.length; qi++) {
+    const ch = q[qi];
+    if (ch === " ") {
+      run = 0;
+      continue;
+    }
+    const found = t.indexOf(ch, ti);
+    if (found === -1) return null;
+    if (first === -1) first = found;
+
+    const atWordStart = found === 0 || /[\s\-_/.(]/.test(t[found - 1]);
+    run = found === ti && qi > 0 ? run + 1 : 0;
+    score += 1 + run * 2 + (atWordStart ? 3 : 0);
+    ti = found + 1;
+  }
+
+  if (t.startsWith(q)) score += 5;
+  score -= Math.min(first, 10) * 0.5;
+  score -= (t.length - q.length) * 0.02;
+  return score;
+}
+
+function buildIndex(): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+
+  for (const mod of availableModules) {
+    const meta = moduleSearchMeta[mod.id];
+    const base = { moduleId: mod.id, color: mod.domain.color };
+
+    entries.push({
+      result: {
+        ...base,
+        kind: "module",
+        title: mod.title,
+        subtitle: `${mod.number} · ${mod.description}`,
+        href: mod.href,
+      },
+      fields: [
+        { text: mod.title, weight: 1.2, show: false },
+        { text: mod.number, weight: 1, show: false },
+        ...(meta?.keywords ?? []).map((k) => ({ text: k, weight: 1, show: true })),
+        { text: mod.description, weight: 0.6, show: false },
+        { text: mod.domain.title, weight: 0.4, show: false },
+      ],
+    });
+
+    for (const scenario of meta?.scenarios ?? []) {
+      entries.push({
+        result: {
+          ...base,
+          kind: "scenario",
+          title: scenario.label,
+          subtitle: `${mod.number} ${mod.title}`,
+          href: `${mod.href}?${encodeShareState({ scenario: scenario.id })}`,
+        },
+        fields: [
+          { text: scenario.label, weight: 1, show: false },
+          { text: `${mod.title} ${scenario.label}`, weight: 0.7, show: false },
+        ],
+      });
+    }
+  }
+
+  return entries;
+}
+
+let index: SearchEntry[] | null = null;
+
+/**
+ * Returns the best matches for `query`, modules and scenarios interleaved by
+ * score. An empty query lists the modules in curriculum order.
+ */
+export function searchModules(query: string, limit: number = DEFAULT_LIMIT): SearchResult[] {
+  index ??= buildIndex();
+  const trimmed = query.trim();
+
+  if (trimmed.length === 0) {
+    return index
+      .filter((e) => e.result.kind === "module")
+      .slice(0, limit)
+      .map((e) => ({ ...e.result, score: 0 }));
+  }
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    let best: { score: number; field: SearchField } | null = null;
+    for (const field of entry.fields) {
+      const raw = fuzzyScore(trimmed, field.text);
+      if (raw === null) continue;
+      const score = raw * field.weight;
+      if (!best || score > best.score) best = { score, field };
+    }
+    if (!best) continue;
+    results.push({
+      ...entry.result,
+      score: best.score,
+      matched: best.field.show ? best.field.text : undefined,
+    });
+  }
+
+  // Array.prototype.sort is stable, so ties keep curriculum order.
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  addBookmark,
+  countProgress,
+  emptyProgress,
+  markCompleted,
+  markVisited,
+  mergeProgress,
+  parseProgressFile,
+  serializeProgress,
+  updateSettings,
+} from "./progress";
+
+describe("progress updates", () => {
+  it("keeps the first visit and completion times", () => {
+    let data = markVisited(emptyProgress(), "2.3", 100);
+    data = markVisited(data, "2.3", 200);
+    data = markCompleted(data, "2.3", "data_hazard", 300);
+    data = markCompleted(data, "2.3", "data_hazard", 400);
+    data = markCompleted(data, "2.3", "load_use", 500);
+
+    expect(data.modules["2.3"]).toEqual({
+      visitedAt: 100,
+      completedAt: 300,
+      scenarios: { data_hazard: 300, load_use: 500 },
+    });
+  });
+
+  it("returns the same object when nothing changes", () => {
+    const data = markCompleted(emptyProgress(), "4.1", undefined, 1);
+    expect(markCompleted(data, "4.1", undefined, 2)).toBe(data);
+    expect(markVisited(data, "4.1", 3)).toBe(data);
+  });
+
+  it("merges settings patches", () => {
+    let data = updateSettings(emptyProgress(), "4.4", { speed: 2 });
+    data = updateSettings(data, "4.4", { scenario: "avl-rotations" });
+    expect(data.modules["4.4"].settings).toEqual({ speed: 2, scenario: "avl-rotations" });
+  });
+
+  it("counts visited and completed modules", () => {
+    let data = markVisited(emptyProgress(), "1.1", 1);
+    data = markCompleted(data, "1.2", undefined, 2);
+    expect(countProgress(data.modules, ["1.1", "1.2", "1.3"])).toEqual({ visited: 2, completed: 1 });
+  });
+});
+
+describe("progress file", () => {
+  const bookmark = { id: "4.4-1", moduleId: "4.4", label: "AVL Rotations", state: { scenario: "avl-rotations", step: 12 }, createdAt: 1 };
+
+  it("round-trips through export and import", () => {
+    let data = markCompleted(emptyProgress(), "3.2", "equal_burst", 42);
+    data = addBookmark(data, bookmark);
+    expect(parseProgressFile(serializeProgress(data))).toEqual(data);
+  });
+
+  it("rejects files that aren't progress exports", () => {
+    expect(() => parseProgressFile("not json")).toThrow(/JSON/);
+    expect(() => parseProgressFile("{}")).toThrow(/not a CS Visual Lab progress file/);
+    expect(() =>
+      parseProgressFile(JSON.stringify({ format: "cs-visual-lab-progress", version: 99 }))
+    ).toThrow(/newer version/);
+  });
+
+  it("drops malformed entries", () => {
+    const text = JSON.stringify({
+      format: "cs-visual-lab-progress",
+      version: 1,
+      modules: { "1.1": { visitedAt: "yesterday", scenarios: { basic: 5, bad: null } }, "1.2": 7 },
+      bookmarks: [bookmark, { id: 3 }],
+    });
+    expect(parseProgressFile(text)).toEqual({
+      modules: { "1.1": { scenarios: { basic: 5 } } },
+      bookmarks: [bookmark],
+    });
+  });
+
+  it("merges imported progress without losing local entries", () => {
+    const local = addBookmark(markCompleted(emptyProgress(), "1.1", "basic", 50), bookmark);
+    const incoming = markCompleted(markCompleted(emptyProgress(), "1.1", "universal", 10), "2.1", undefined, 20);
+
+    const merged = mergeProgress(local, addBookmark(incoming, bookmark));
+    expect(merged.modules["1.1"].completedAt).toBe(10);
+    expect(merged.modules["1.1"].scenarios).toEqual({ basic: 50, universal: 10 });
+    expect(merged.modules["2.1"].completedAt).toBe(20);
+    expect(merged.bookmarks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Learner progress: which modules were opened and finished, which scenarios
+ * were played to the end, bookmarked simulator states and the last-used
+ * settings per module. Everything here is plain data so the persisted store
+ * and the export/import file share one format.
+ */
+
+import type { ShareState } from "@/lib/share-state";
+
+export const PROGRESS_FILE_FORMAT = "cs-visual-lab-progress";
+export const PROGRESS_VERSION = 1;
+
+export interface ModuleProgress {
+  visitedAt?: number;
+  completedAt?: number;
+  /** Scenario id → when it was first played to the end. */
+  scenarios: Record<string, number>;
+  /** Last-used settings, restored when the module is reopened. */
+  settings?: ShareState;
+}
+
+export interface Bookmark {
+  id: string;
+  moduleId: string;
+  label: string;
+  state: ShareState;
+  createdAt: number;
+}
+
+export interface ProgressData {
+  modules: Record<string, ModuleProgress>;
+  bookmarks: Bookmark[];
+}
+
+export function emptyProgress(): ProgressData {
+  return { modules: {}, bookmarks: [] };
+}
+
+function updateModule(
+  data: ProgressData,
+  moduleId: string,
+  update: (current: ModuleProgress) => ModuleProgress
+): ProgressData {
+  const current = data.modules[moduleId] ?? { scenarios: {} };
+  return { ...data, modules: { ...data.modules, [moduleId]: update(current) } };
+}
+
+export function markVisited(data: ProgressData, moduleId: string, now: number): ProgressData {
+  if (data.modules[moduleId]?.visitedAt !== undefined) return data;
+  return updateModule(data, moduleId, (m) => ({ ...m, visitedAt: now }));
+}
+
+/** Records a finished run; `scenario` is omitted when the module has no presets. */
+export function markCompleted(
+  data: ProgressData,
+  moduleId: string,
+  scenario: string | undefined,
+  now: number
+): ProgressData {
+  const current = data.modules[moduleId];
+  const known = scenario === undefined || current?.scenarios[scenario] !== undefined;
+  if (current?.completedAt !== undefined && known) return data;
+
+  return updateModule(data, moduleId, (m) => ({
+    ...m,
+    visitedAt: m.visitedAt ?? now,
+    completedAt: m.completedAt ?? now,
+    scenarios:
+      scenario === undefined || m.scenarios[scenario] !== undefined
+        ? m.scenarios
+        : { ...m.scenarios, [scenario]: now },
+  }));
+}
+
+export function updateSettings(data: ProgressData, moduleId: string, patch: ShareState): ProgressData {
+  return updateModule(data, moduleId, (m) => ({ ...m, settings: { ...m.settings, ...patch } }));
+}
+
+export function addBookmark(data: ProgressData, bookmark: Bookmark): ProgressData {
+  return { ...data, bookmarks: [...data.bookmarks.filter((b) => b.id !== bookmark.id), bookmark] };
+}
+
+export function removeBookmark(data: ProgressData, id: string): ProgressData {
+  return { ...data, bookmarks: data.bookmarks.filter((b) => b.id !== id) };
+}
+
+export function countProgress(
+  modules: ProgressData["modules"],
+  moduleIds: string[]
+): { visited: number; completed: number } {
+  let visited = 0;
+  let completed = 0;
+  for (const id of moduleIds) {
+    const m = modules[id];
+    if (m?.visitedAt !== undefined) visited++;
+    if (m?.completedAt !== undefined) completed++;
+  }
+  return { visited, completed };
+}
+
+/* ── Export / import ── */
+
+export function serializeProgress(data: ProgressData, now: number = Date.now()): string {
+  return JSON.stringify(
+    {
+      format: PROGRESS_FILE_FORMAT,
+      version: PROGRESS_VERSION,
+      exportedAt: new Date(now).toISOString(),
+      modules: data.modules,
+      bookmarks: data.bookmarks,
+    },
+    null,
+    2
+  );
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isTime = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+function readShareState(value: unknown): ShareState | undefined {
+  if (!isRecord(value)) return undefined;
+  const state: ShareState = {};
+  if (typeof value.scenario === "string") state.scenario = value.scenario;
+  if (typeof value.speed === "number" && value.speed > 0) state.speed = value.speed;
+  if (isTime(value.step)) state.step = value.step;
+  if (isRecord(value.params)) state.params = value.params;
+  return state;
+}
+
+function readModule(value: unknown): ModuleProgress | undefined {
+  if (!isRecord(value)) return undefined;
+  const scenarios: Record<string, number> = {};
+  if (isRecord(value.scenarios)) {
+    for (const [id, at] of Object.entries(value.scenarios)) {
+      if (isTime(at)) scenarios[id] = at;
+    }
+  }
+  const progress: ModuleProgress = { scenarios };
+  if (isTime(value.visitedAt)) progress.visitedAt = value.visitedAt;
+  if (isTime(value.completedAt)) progress.completedAt = value.completedAt;
+  const settings = readShareState(value.settings);
+  if (settings) progress.settings = settings;
+  return progress;
+}
+
+function readBookmark(value: unknown): Bookmark | undefined {
+  if (!isRecord(value)) return undefined;
+  const state = readShareState(value.state);
+  if (
+    typeof value.id !== "string" ||
+    typeof value.moduleId !== "string" ||
+    typeof value.label !== "string" ||
+    !isTime(value.createdAt) ||
+    !state
+  ) {
+    return undefined;
+  }
+  return { id: value.id, moduleId: value.moduleId, label: value.label, state, createdAt: value.createdAt };
+}
+
+/**
+ * Reads an exported progress file. Throws with a message fit for the user
+ * when the text isn't one; malformed entries inside a valid file are dropped.
+ */
+export function parseProgressFile(text: string): ProgressData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== PROGRESS_FILE_FORMAT) {
+    throw new Error("This is not a CS Visual Lab progress file.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > PROGRESS_VERSION) {
+    throw new Error("This progress file was made by a newer version of CS Visual Lab.");
+  }
+
+  const modules: Record<string, ModuleProgress> = {};
+  if (isRecord(parsed.modules)) {
+    for (const [id, value] of Object.entries(parsed.modules)) {
+      const progress = readModule(value);
+      if (progress) modules[id] = progress;
+    }
+  }
+  const bookmarks = Array.isArray(parsed.bookmarks)
+    ? parsed.bookmarks.flatMap((b) => readBookmark(b) ?? [])
+    : [];
+
+  return { modules, bookmarks };
+}
+
+const earliest = (a: number | undefined, b: number | undefined) =>
+  a === undefined ? b : b === undefined ? a : Math.min(a, b);
+
+/**
+ * Combines imported progress with what this browser already has. Nothing
+ * is lost: completions keep their earliest time, bookmarks are unioned by
+ * id, and imported settings replace local ones.
+ */
+export function mergeProgress(current: ProgressData, incoming: ProgressData): ProgressData {
+  const modules = { ...current.modules };
+  for (const [id, theirs] of Object.entries(incoming.modules)) {
+    const ours = modules[id];
+    if (!ours) {
+      modules[id] = theirs;
+      continue;
+    }
+    const scenarios = { ...ours.scenarios };
+    for (const [scenario, at] of Object.entries(theirs.scenarios)) {
+      scenarios[scenario] = earliest(scenarios[scenario], at)!;
+    }
+    modules[id] = {
+      visitedAt: earliest(ours.visitedAt, theirs.visitedAt),
+      completedAt: earliest(ours.completedAt, theirs.completedAt),
+      scenarios,
+      settings: theirs.settings ?? ours.settings,
+    };
+  }
+
+  const bookmarks = [...current.bookmarks];
+  for (const bookmark of incoming.bookmarks) {
+    if (!bookmarks.some((b) => b.id === bookmark.id)) bookmarks.push(bookmark);
+  }
+
+  return { modules, bookmarks };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { choicesFrom, gradeAnswer, summarizeQuiz, type QuizQuestion, type QuizResult } from "./quiz";
+
+const question: QuizQuestion<number> = {
+  prompt: "Which page does FIFO evict?",
+  choices: choicesFrom([7, 0, 1], (page) => `Page ${page}`),
+};
+
+const result = (correct: boolean): QuizResult => ({ prompt: "?", choice: "a", answer: "a", correct });
+
+describe("quiz questions", () => {
+  it("builds deduplicated choices in first-seen order", () => {
+    expect(choicesFrom(["B", "A", "B", "C"])).toEqual([
+      { id: "B", label: "B" },
+      { id: "A", label: "A" },
+      { id: "C", label: "C" },
+    ]);
+    expect(question.choices[0]).toEqual({ id: "7", label: "Page 7" });
+  });
+
+  it("grades by choice id and reports labels", () => {
+    expect(gradeAnswer(question, "0", { answer: "7", explanation: "Page 7 was loaded first." })).toEqual({
+      prompt: "Which page does FIFO evict?",
+      choice: "Page 0",
+      answer: "Page 7",
+      correct: false,
+      explanation: "Page 7 was loaded first.",
+    });
+    expect(gradeAnswer(question, "7", { answer: "7" }).correct).toBe(true);
+  });
+});
+
+describe("quiz summary", () => {
+  it("starts empty", () => {
+    expect(summarizeQuiz([])).toEqual({ asked: 0, correct: 0, accuracy: 0, streak: 0, bestStreak: 0 });
+  });
+
+  it("tracks accuracy and streaks", () => {
+    const summary = summarizeQuiz([true, true, true, false, true].map(result));
+    expect(summary).toEqual({ asked: 5, correct: 4, accuracy: 0.8, streak: 1, bestStreak: 3 });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Prediction quizzes: before a simulator takes a step it can stop and ask
+ * what is about to happen, then take the step and grade the answer.
+ *
+ * A module registers a `QuizRule` over whatever state its step generator
+ * reads. The rule looks at the state just before a step and returns a
+ * question, or null to let the step run unannounced. Most steps know their
+ * outcome up front; questions whose answer only emerges later (who wins a
+ * Raft election) supply `resolve` and are graded once it returns non-null.
+ */
+
+export interface QuizChoice {
+  id: string;
+  label: string;
+}
+
+export interface QuizOutcome {
+  /** Id of the correct choice. */
+  answer: string;
+  explanation?: string;
+}
+
+export interface QuizQuestion<S> {
+  prompt: string;
+  choices: QuizChoice[];
+  /** Known when the question is asked. */
+  outcome?: QuizOutcome;
+  /** Read off later states instead; null until the outcome is decided. */
+  resolve?: (state: S) => QuizOutcome | null;
+  /**
+   * Names the situation asked about. A rule that keeps matching the same
+   * situation step after step returns the same key, and the question is
+   * not raised again once answered or skipped.
+   */
+  key?: string;
+}
+
+export type QuizRule<S> = (state: S) => QuizQuestion<S> | null;
+
+export interface QuizResult {
+  prompt: string;
+  choice: string;
+  answer: string;
+  correct: boolean;
+  explanation?: string;
+}
+
+export interface QuizSummary {
+  asked: number;
+  correct: number;
+  /** Fraction correct, 0 before the first answer. */
+  accuracy: number;
+  streak: number;
+  bestStreak: number;
+}
+
+/** Choices from raw values, deduplicated and in first-seen order. */
+export function choicesFrom(
+  values: (string | number)[],
+  label: (value: string) => string = (value) => value
+): QuizChoice[] {
+  const ids = [...new Set(values.map(String))];
+  return ids.map((id) => ({ id, label: label(id) }));
+}
+
+export function gradeAnswer<S>(question: QuizQuestion<S>, choiceId: string, outcome: QuizOutcome): QuizResult {
+  const labelOf = (id: string) => question.choices.find((c) => c.id === id)?.label ?? id;
+  return {
+    prompt: question.prompt,
+    choice: labelOf(choiceId),
+    answer: labelOf(outcome.answer),
+    correct: choiceId === outcome.answer,
+    explanation: outcome.explanation,
+  };
+}
+
+export function summarizeQuiz(results: QuizResult[]): QuizSummary {
+  let correct = 0;
+  let streak = 0;
+  let bestStreak = 0;
+  for (const result of results) {
+    if (result.correct) {
+      correct++;
+      streak++;
+      bestStreak = Math.max(bestStreak, streak);
+    } else {
+      streak = 0;
+    }
+  }
+  return {
+    asked: results.length,
+    correct,
+    accuracy: results.length > 0 ? correct / results.length : 0,
+    streak,
+    bestStreak,
+  };
+}
@@ -0,0 +1,681 @@
+/**
+ * Extra search terms for the command palette, keyed by module id. Titles and
+ * descriptions come from `domains`; this adds the algorithm names a learner
+ * is likely to type and the presets each module page can open directly.
+ *
+ * Scenario ids must match what the page passes to `useScenarioParam`.
+ */
+
+export interface ScenarioEntry {
+  id: string;
+  label: string;
+}
+
+export interface ModuleSearchMeta {
+  keywords: string[];
+  scenarios: ScenarioEntry[];
+}
+
+export const moduleSearchMeta: Record<string, ModuleSearchMeta> = {
+  "1.1": {
+    keywords: [
+      "AND",
+      "OR",
+      "NOT",
+      "NAND",
+      "NOR",
+      "XOR",
+      "MOSFET",
+      "CMOS",
+      "transistor",
+      "pull-up network",
+      "pull-down network",
+      "AOI",
+      "OAI",
+      "compound gate",
+    ],
+    scenarios: [
+      { id: "basic", label: "Basic Gates" },
+      { id: "universal", label: "Universal Gates" },
+      { id: "xor-family", label: "XOR Family" },
+    ],
+  },
+  "1.2": {
+    keywords: ["SR latch", "D flip-flop", "JK", "T flip-flop", "clock edge", "setup time", "hold time", "metastability", "synchronizer", "timing diagram"],
+    scenarios: [
+      { id: "sr-latch", label: "SR Latch" },
+      { id: "d-flipflop", label: "D Flip-Flop" },
+      { id: "jk-toggle", label: "JK Toggle" },
+      { id: "t-counter", label: "T Counter" },
+    ],
+  },
+  "1.3": {
+    keywords: ["multiplexer", "decoder", "full adder", "half adder"],
+    scenarios: [
+      { id: "mux-2-1", label: "2:1 MUX" },
+      { id: "mux-4-1", label: "4:1 MUX" },
+      { id: "decoder-2-4", label: "2:4 Decoder" },
+      { id: "full-adder", label: "Full Adder" },
+    ],
+  },
+  "1.4": {
+    keywords: ["shift register", "counter", "finite state machine", "FSM", "Moore machine", "Mealy machine", "state minimization", "Hopcroft", "one-hot", "Gray code", "Verilog"],
+    scenarios: [
+      { id: "shift-register", label: "Shift Register" },
+      { id: "up-counter", label: "Up Counter" },
+      { id: "ring-counter", label: "Ring Counter" },
+      { id: "fsm-traffic", label: "Traffic Light FSM" },
+      { id: "fsm-designer", label: "FSM Designer" },
+    ],
+  },
+  "1.5": {
+    keywords: ["two's complement", "ripple carry", "overflow", "multiplication", "Booth's algorithm", "restoring division", "non-restoring division"],
+    scenarios: [
+      { id: "simple-addition", label: "Simple Addition" },
+      { id: "carry-chain", label: "Carry Chain" },
+      { id: "twos-complement", label: "Two's Complement" },
+      { id: "overflow-demo", label: "Overflow Demo" },
+      { id: "shift-add-multiply", label: "Shift & Add" },
+      { id: "booth-negative", label: "Booth (Signed)" },
+      { id: "restoring-division", label: "Long Division" },
+    ],
+  },
+  "1.6": {
+    keywords: ["IEEE 754", "mantissa", "exponent", "NaN", "denormal", "half precision", "bfloat16", "double precision", "rounding mode", "guard bit", "sticky bit", "subnormal"],
+    scenarios: [
+      { id: "common", label: "Common Values" },
+      { id: "precision", label: "Precision Issues" },
+      { id: "special", label: "Special Values" },
+      { id: "powers", label: "Powers of 2" },
+      { id: "rounding", label: "Rounding & Formats" },
+    ],
+  },
+  "1.7": {
+    keywords: [
+      "arithmetic logic unit",
+      "flags",
+      "carry",
+      "zero flag",
+      "multiply",
+      "divide",
+      "add with carry",
+      "arithmetic shift",
+      "rotate",
+      "set less than",
+      "SLT",
+      "branch conditions",
+    ],
+    scenarios: [
+      { id: "arithmetic", label: "Arithmetic" },
+      { id: "logic", label: "Logic" },
+      { id: "shifts", label: "Shifts" },
+      { id: "flags", label: "Flag Demo" },
+      { id: "extended", label: "Carry & Rotate" },
+      { id: "compare", label: "Compare & Branch" },
+    ],
+  },
+  "1.8": {
+    keywords: ["ripple carry", "carry lookahead", "carry select", "generate", "propagate", "critical path", "gate delay"],
+    scenarios: [
+      { id: "worst-case", label: "Worst-case Ripple" },
+      { id: "carry-in", label: "Carry-in Chain" },
+      { id: "no-carry", label: "No Carries" },
+      { id: "typical", label: "Typical Operands" },
+    ],
+  },
+  "2.1": {
+    keywords: [
+      "MIPS",
+      "R-type",
+      "I-type",
+      "J-type",
+      "opcode",
+      "instruction encoding",
+      "assembler",
+      "disassembler",
+      "labels",
+      "pseudo-instructions",
+      "machine code",
+      "RISC-V",
+      "RV32I",
+      "ABI registers",
+      "immediate encoding",
+    ],
+    scenarios: [
+      { id: "r_type", label: "R-Type Arithmetic" },
+      { id: "i_type", label: "I-Type Load/Store" },
+      { id: "j_type", label: "J-Type Jump" },
+      { id: "full_program", label: "Full Program" },
+      { id: "decode_r", label: "Decode R-Type" },
+      { id: "decode_mixed", label: "Decode Mixed" },
+      { id: "rv_r_type", label: "RV32I R-Type Arithmetic" },
+      { id: "rv_i_type", label: "RV32I I-Type & Loads" },
+      { id: "rv_s_b_type", label: "RV32I S/B-Type Scrambled" },
+      { id: "rv_u_j_type", label: "RV32I U/J-Type" },
+      { id: "rv_decode", label: "Decode RV32I" },
+    ],
+  },
+  "2.2": {
+    keywords: ["datapath", "control unit", "MIPS", "multi-cycle", "control FSM", "breakpoints", "jump and link"],
+    scenarios: [
+      { id: "r_type_add", label: "R-Type (ADD)" },
+      { id: "load_word", label: "Load Word" },
+      { id: "store_word", label: "Store Word" },
+      { id: "branch", label: "Branch (BEQ)" },
+      { id: "jump_link", label: "Jump & Link" },
+      { id: "array_sum", label: "Array Sum Loop" },
+    ],
+  },
+  "2.3": {
+    keywords: ["hazard", "forwarding", "stall", "load-use", "IF ID EX MEM WB"],
+    scenarios: [
+      { id: "no_hazards", label: "No Hazards" },
+      { id: "data_hazard", label: "Data Hazard (RAW)" },
+      { id: "load_use", label: "Load-Use Hazard" },
+      { id: "control_hazard", label: "Control Hazard" },
+    ],
+  },
+  "2.4": {
+    keywords: ["2-bit saturating counter", "tournament predictor", "BHT"],
+    scenarios: [
+      { id: "loop", label: "Loop Pattern (TTTTNT)" },
+      { id: "alternating", label: "Alternating (TNTN)" },
+      { id: "random", label: "Random" },
+      { id: "nested_loop", label: "Nested Loop" },
+      { id: "mostly_taken", label: "Mostly Taken" },
+    ],
+  },
+  "2.5": {
+    keywords: ["direct-mapped", "set-associative", "LRU", "hit rate", "tag index offset"],
+    scenarios: [
+      { id: "sequential", label: "Sequential Access" },
+      { id: "strided", label: "Strided Access" },
+      { id: "thrashing", label: "Thrashing" },
+      { id: "spatial", label: "Spatial Locality" },
+      { id: "temporal", label: "Temporal Locality" },
+    ],
+  },
+  "2.6": {
+    keywords: ["stride", "loop tiling", "row-major", "column-major"],
+    scenarios: [],
+  },
+  "2.7": {
+    keywords: ["Tomasulo's algorithm", "reservation station", "reorder buffer", "ROB", "register renaming"],
+    scenarios: [
+      { id: "basic", label: "Basic Dependencies" },
+      { id: "independent", label: "Independent Instructions" },
+      { id: "long_chain", label: "Long Dependency Chain" },
+      { id: "mixed", label: "Mixed Dependencies" },
+    ],
+  },
+  "2.8": {
+    keywords: ["TLB", "page table", "page fault", "address translation"],
+    scenarios: [
+      { id: "sequential", label: "Sequential Access" },
+      { id: "locality", label: "Temporal Locality" },
+      { id: "thrashing", label: "Page Thrashing" },
+      { id: "tlb_miss", label: "TLB Thrashing" },
+    ],
+  },
+  "2.9": {
+    keywords: ["TSO", "store buffer", "memory fence", "sequential consistency"],
+    scenarios: [
+      { id: "store_store", label: "Store-Store Reorder" },
+      { id: "store_load", label: "Store-Load Reorder" },
+      { id: "with_fence", label: "With Memory Fence" },
+      { id: "sequential", label: "Sequential Consistency" },
+    ],
+  },
+  "2.10": {
+    keywords: ["SIMD", "AVX", "SSE", "vectorization"],
+    scenarios: [],
+  },
+  "3.1": {
+    keywords: ["process states", "fork", "context switch", "PCB"],
+    scenarios: [
+      { id: "single_lifecycle", label: "Single Process Lifecycle" },
+      { id: "io_bound_mix", label: "I/O Bound Mix" },
+      { id: "cpu_bound_mix", label: "CPU Bound Mix" },
+      { id: "fork_bomb", label: "Fork Bomb" },
+    ],
+  },
+  "3.2": {
+    keywords: ["FCFS", "SJF", "SRTF", "Round Robin", "Priority", "MLFQ", "Gantt chart"],
+    scenarios: [
+      { id: "equal_burst", label: "Equal Burst" },
+      { id: "varied_arrival", label: "Varied Arrival" },
+      { id: "priority_inversion", label: "Priority Inversion" },
+      { id: "long_vs_short", label: "Long vs Short" },
+    ],
+  },
+  "3.3": {
+    keywords: ["paging", "page replacement", "FIFO", "LRU", "Optimal", "Belady's anomaly"],
+    scenarios: [
+      { id: "simple_paging", label: "Simple Paging" },
+      { id: "fifo_anomaly", label: "FIFO Anomaly" },
+      { id: "lru_vs_fifo", label: "LRU vs FIFO" },
+      { id: "optimal_baseline", label: "Optimal Baseline" },
+    ],
+  },
+  "3.4": {
+    keywords: ["malloc", "free list", "first fit", "best fit", "buddy allocator"],
+    scenarios: [],
+  },
+  "3.5": {
+    keywords: ["race condition", "mutex", "critical section", "threads"],
+    scenarios: [
+      { id: "race_condition", label: "Race Condition" },
+      { id: "with_mutex", label: "With Mutex" },
+      { id: "lost_update", label: "Lost Update" },
+    ],
+  },
+  "3.6": {
+    keywords: ["Banker's algorithm", "resource allocation graph", "wait-for graph"],
+    scenarios: [
+      { id: "classic_deadlock", label: "Classic Deadlock" },
+      { id: "three_way", label: "Three-Way Deadlock" },
+      { id: "no_deadlock", label: "No Deadlock" },
+      { id: "banker_safe", label: "Banker's Safe State" },
+    ],
+  },
+  "3.7": {
+    keywords: ["inode", "FAT", "ext4", "extents", "block allocation"],
+    scenarios: [
+      { id: "contiguous", label: "Contiguous Allocation" },
+      { id: "linked", label: "Linked Allocation" },
+      { id: "indexed", label: "Indexed Allocation" },
+      { id: "extent", label: "Extent-Based (ext4)" },
+    ],
+  },
+  "3.8": {
+    keywords: ["interrupt handler", "DMA", "polling", "IRQ"],
+    scenarios: [
+      { id: "basic-interrupt", label: "Basic Interrupt Flow" },
+      { id: "nested", label: "Nested Interrupts" },
+      { id: "dma-transfer", label: "DMA Transfer" },
+      { id: "polling-vs-interrupt", label: "Polling vs Interrupt" },
+    ],
+  },
+  "3.9": {
+    keywords: ["system call", "trap", "kernel mode", "user mode"],
+    scenarios: [
+      { id: "open", label: "open()" },
+      { id: "read", label: "read()" },
+      { id: "write", label: "write()" },
+      { id: "fork", label: "fork()" },
+    ],
+  },
+  "3.10": {
+    keywords: ["BIOS", "UEFI", "bootloader", "GRUB", "kernel init"],
+    scenarios: [],
+  },
+  "3.11": {
+    keywords: ["namespaces", "cgroups", "OverlayFS", "Docker"],
+    scenarios: [
+      { id: "namespaces", label: "Namespace Isolation" },
+      { id: "cgroups", label: "Cgroup Resource Limits" },
+      { id: "overlay", label: "Overlay Filesystem" },
+      { id: "full", label: "Container Lifecycle" },
+    ],
+  },
+  "4.1": {
+    keywords: ["Bubble Sort", "Selection Sort", "Insertion Sort", "Merge Sort", "Quick Sort", "Heap Sort"],
+    scenarios: [],
+  },
+  "4.2": {
+    keywords: ["divide and conquer", "O(log n)"],
+    scenarios: [
+      { id: "small", label: "Small Array (16)" },
+      { id: "medium", label: "Medium Array (32)" },
+      { id: "large", label: "Large Array (64)" },
+      { id: "not-found", label: "Not Found" },
+    ],
+  },
+  "4.3": {
+    keywords: ["chaining", "linear probing", "quadratic probing", "double hashing", "load factor"],
+    scenarios: [
+      { id: "no-collisions", label: "No Collisions" },
+      { id: "clustering", label: "Clustering" },
+      { id: "high-load", label: "High Load Factor" },
+      { id: "delete-rehash", label: "Delete & Rehash" },
+    ],
+  },
+  "4.4": {
+    keywords: ["BST", "AVL", "red-black tree", "rotation"],
+    scenarios: [
+      { id: "balanced", label: "Balanced Insert" },
+      { id: "worst-bst", label: "Worst Case BST" },
+      { id: "avl-rotations", label: "AVL Rotations" },
+      { id: "rb-recoloring", label: "RB Recoloring" },
+    ],
+  },
+  "4.5": {
+    keywords: ["B-tree", "node split", "merge"],
+    scenarios: [
+      { id: "sequential", label: "Sequential Insert" },
+      { id: "random", label: "Random Insert" },
+      { id: "delete-merge", label: "Delete & Merge" },
+      { id: "search-path", label: "Search Path" },
+    ],
+  },
+  "4.6": {
+    keywords: ["binary heap", "priority queue", "heapify", "sift down"],
+    scenarios: [
+      { id: "Random", label: "Random" },
+      { id: "Sorted", label: "Sorted" },
+      { id: "Reversed", label: "Reversed" },
+      { id: "Small", label: "Small" },
+    ],
+  },
+  "4.7": {
+    keywords: ["trie", "prefix tree", "autocomplete"],
+    scenarios: [
+      { id: "Animals", label: "Animals" },
+      { id: "Tech", label: "Tech" },
+      { id: "Simple", label: "Simple" },
+    ],
+  },
+  "4.8": {
+    keywords: ["BFS", "DFS", "breadth-first search", "depth-first search"],
+    scenarios: [
+      { id: "tree", label: "Binary Tree" },
+      { id: "graph", label: "General Graph" },
+      { id: "cycle", label: "Cyclic Graph" },
+    ],
+  },
+  "4.9": {
+    keywords: ["Dijkstra's algorithm", "Bellman-Ford", "negative edges"],
+    scenarios: [
+      { id: "simple", label: "Simple" },
+      { id: "dense", label: "Dense Graph" },
+      { id: "negative", label: "Negative Edges" },
+    ],
+  },
+  "4.10": {
+    keywords: ["Kruskal's algorithm", "Prim's algorithm", "minimum spanning tree"],
+    scenarios: [
+      { id: "simple", label: "6-Node Graph" },
+      { id: "dense", label: "Dense Graph" },
+    ],
+  },
+  "4.11": {
+    keywords: ["Kahn's algorithm", "DAG", "dependency order"],
+    scenarios: [
+      { id: "courses", label: "Course Prerequisites" },
+      { id: "build", label: "Build System" },
+      { id: "complex", label: "Complex DAG" },
+    ],
+  },
+  "4.12": {
+    keywords: ["memoization", "tabulation", "knapsack", "LCS", "Fibonacci"],
+    scenarios: [
+      { id: "fibonacci", label: "Fibonacci" },
+      { id: "knapsack", label: "0/1 Knapsack" },
+      { id: "lcs", label: "Longest Common Subsequence" },
+      { id: "edit-distance", label: "Edit Distance" },
+    ],
+  },
+  "4.13": {
+    keywords: ["disjoint set", "path compression", "union by rank"],
+    scenarios: [],
+  },
+  "4.14": {
+    keywords: ["Big-O", "asymptotic", "O(n log n)"],
+    scenarios: [],
+  },
+  "4.15": {
+    keywords: ["KMP", "Knuth-Morris-Pratt", "Rabin-Karp", "Boyer-Moore", "naive search"],
+    scenarios: [],
+  },
+  "5.1": {
+    keywords: ["linear search", "binary search"],
+    scenarios: [
+      { id: "start", label: "Target at Start" },
+      { id: "end", label: "Target at End" },
+      { id: "middle", label: "Target in Middle" },
+      { id: "not-found", label: "Not Found" },
+    ],
+  },
+  "5.8": {
+    keywords: ["posting list", "TF-IDF", "boolean query", "full-text search"],
+    scenarios: [
+      { id: "simple", label: "Simple Documents" },
+      { id: "technical", label: "Technical Articles" },
+      { id: "single-query", label: "Single Term Query" },
+      { id: "boolean-query", label: "Boolean Query" },
+    ],
+  },
+  "6.1": {
+    keywords: ["row store", "column store", "buffer pool", "pages"],
+    scenarios: [
+      { id: "full-scan", label: "Full Row Scan" },
+      { id: "col-projection", label: "Column Projection" },
+      { id: "single-lookup", label: "Single Row Lookup" },
+      { id: "bulk-insert", label: "Bulk Insert" },
+    ],
+  },
+  "6.2": {
+    keywords: ["B+ tree", "range query", "index"],
+    scenarios: [
+      { id: "empty", label: "Empty" },
+      { id: "small", label: "Small (10)" },
+      { id: "large", label: "Large (30)" },
+    ],
+  },
+  "6.3": {
+    keywords: ["LSM tree", "memtable", "SSTable", "compaction", "write amplification"],
+    scenarios: [
+      { id: "write-heavy", label: "Write Heavy" },
+      { id: "read-after-write", label: "Read After Write" },
+      { id: "compaction-trigger", label: "Compaction Trigger" },
+      { id: "range-query", label: "Range Query" },
+    ],
+  },
+  "7.1": {
+    keywords: ["consensus", "leader election", "log replication"],
+    scenarios: [
+      { id: "leader-failure", label: "Leader Failure" },
+      { id: "network-partition", label: "Network Partition" },
+      { id: "split-brain", label: "Split Brain" },
+    ],
+  },
+  "7.4": {
+    keywords: ["hash ring", "virtual nodes", "rebalancing"],
+    scenarios: [
+      { id: "3-nodes", label: "3 Nodes" },
+      { id: "add-node", label: "Add Node" },
+      { id: "remove-node", label: "Remove Node" },
+      { id: "virtual-nodes", label: "Virtual Nodes" },
+    ],
+  },
+  "7.6": {
+    keywords: ["Lamport clock", "causality", "happens-before"],
+    scenarios: [
+      { id: "simple", label: "Simple Send/Receive" },
+      { id: "concurrent", label: "Concurrent Events" },
+      { id: "causal-chain", label: "Causal Chain" },
+      { id: "three-way", label: "Three-Way Communication" },
+    ],
+  },
+  "8.1": {
+    keywords: ["OSI model", "encapsulation", "TCP/IP", "HTTP"],
+    scenarios: [
+      { id: "http-request", label: "HTTP Request" },
+      { id: "tcp-handshake", label: "TCP Handshake" },
+      { id: "ip-routing", label: "IP Routing" },
+      { id: "full-stack", label: "Full Stack" },
+    ],
+  },
+  "8.3": {
+    keywords: ["three-way handshake", "slow start", "congestion avoidance", "Fast Retransmit", "cwnd"],
+    scenarios: [
+      { id: "normal-transfer", label: "Normal Transfer" },
+      { id: "packet-loss", label: "Packet Loss" },
+      { id: "slow-start-growth", label: "Slow Start Growth" },
+      { id: "congestion-event", label: "Congestion Event" },
+    ],
+  },
+  "9.1": {
+    keywords: ["AES", "SubBytes", "ShiftRows", "MixColumns", "key expansion", "Rijndael"],
+    scenarios: [
+      { id: "simple-text", label: "Simple Text" },
+      { id: "all-zeros", label: "All Zeros" },
+      { id: "round-details", label: "Round Details" },
+      { id: "full-encryption", label: "Full Encryption" },
+    ],
+  },
+  "9.2": {
+    keywords: ["SHA-256", "hash function", "message schedule", "avalanche effect"],
+    scenarios: [
+      { id: "hello-world", label: "Hello World" },
+      { id: "single-bit-flip", label: "Single Bit Flip" },
+      { id: "empty-message", label: "Empty Message" },
+      { id: "block-processing", label: "Block Processing" },
+    ],
+  },
+  "10.1": {
+    keywords: ["parallelism", "CUDA", "throughput"],
+    scenarios: [
+      { id: "vector-add", label: "Vector Add (1024)" },
+      { id: "matrix-multiply", label: "Matrix Multiply" },
+      { id: "sequential", label: "Sequential Chain" },
+      { id: "mixed", label: "Mixed Workload" },
+    ],
+  },
+  "10.3": {
+    keywords: ["SIMT", "warp divergence", "warp scheduler"],
+    scenarios: [
+      { id: "no-divergence", label: "No Divergence" },
+      { id: "if-else", label: "If-Else Divergence" },
+      { id: "scheduling", label: "Warp Scheduling" },
+      { id: "memory-stall", label: "Memory Stall" },
+    ],
+  },
+  "11.1": {
+    keywords: ["linear classifier", "perceptron learning rule"],
+    scenarios: [
+      { id: "and", label: "AND Gate" },
+      { id: "or", label: "OR Gate" },
+      { id: "xor", label: "XOR (Impossible)" },
+      { id: "custom", label: "Custom Points" },
+    ],
+  },
+  "11.2": {
+    keywords: ["chain rule", "gradients", "neural network"],
+    scenarios: [],
+  },
+  "11.3": {
+    keywords: ["SGD", "Momentum", "RMSProp", "Adam", "learning rate"],
+    scenarios: [
+      { id: "bowl", label: "Simple Bowl" },
+      { id: "valley", label: "Narrow Valley" },
+      { id: "saddle", label: "Saddle Point" },
+      { id: "multiminima", label: "Multiple Minima" },
+    ],
+  },
+  "11.7": {
+    keywords: ["self-attention", "multi-head attention", "query key value"],
+    scenarios: [
+      { id: "simple", label: "Simple Sentence" },
+      { id: "attention_patterns", label: "Attention Patterns" },
+      { id: "multihead", label: "Multi-Head View" },
+      { id: "full_pass", label: "Full Forward Pass" },
+    ],
+  },
+  "12.1": {
+    keywords: ["tokenizer", "tokens", "lexical analysis"],
+    scenarios: [
+      { id: "simple-assign", label: "Simple Assignment" },
+      { id: "function-decl", label: "Function Declaration" },
+      { id: "string-literals", label: "String Literals" },
+      { id: "complex-expr", label: "Complex Expression" },
+    ],
+  },
+  "12.10": {
+    keywords: ["microtask queue", "macrotask queue", "call stack", "Promise"],
+    scenarios: [
+      { id: "settimeout-basics", label: "setTimeout Basics" },
+      { id: "promise-chain", label: "Promise Chain" },
+      { id: "micro-vs-macro", label: "Microtask vs Macrotask" },
+      { id: "async-await", label: "async/await" },
+    ],
+  },
+  "13.1": {
+    keywords: ["Bloom filter", "false positive", "hash functions"],
+    scenarios: [
+      { id: "basic", label: "Basic Insert & Query" },
+      { id: "false-positive", label: "False Positive Demo" },
+      { id: "saturation", label: "Saturation" },
+      { id: "optimal", label: "Optimal Parameters" },
+    ],
+  },
+  "13.3": {
+    keywords: ["cardinality estimation", "HyperLogLog"],
+    scenarios: [
+      { id: "small", label: "Small Set (100)" },
+      { id: "medium", label: "Medium Set (1000)" },
+      { id: "duplicate-heavy", label: "Duplicate Heavy" },
+      { id: "unique-heavy", label: "Unique Heavy" },
+    ],
+  },
+  "14.1": {
+    keywords: ["token bucket", "leaky bucket", "sliding window", "fixed window"],
+    scenarios: [
+      { id: "steady", label: "Steady Traffic" },
+      { id: "burst", label: "Burst Traffic" },
+      { id: "ramp", label: "Gradual Ramp" },
+      { id: "spike-recovery", label: "Spike & Recovery" },
+    ],
+  },
+  "14.2": {
+    keywords: ["open", "half-open", "closed", "fault tolerance"],
+    scenarios: [
+      { id: "healthy", label: "Healthy Service" },
+      { id: "failure", label: "Service Failure" },
+      { id: "recovery", label: "Recovery Cycle" },
+      { id: "intermittent", label: "Intermittent Failures" },
+    ],
+  },
+  "15.1": {
+    keywords: ["triangle", "barycentric", "edge function", "z-buffer"],
+    scenarios: [
+      { id: "single-triangle", label: "Single Triangle" },
+      { id: "vertex-transform", label: "Vertex Transform" },
+      { id: "pixel-coverage", label: "Pixel Coverage" },
+      { id: "color-interpolation", label: "Color Interpolation" },
+    ],
+  },
+  "16.1": {
+    keywords: [
+      "truth table",
+      "Karnaugh map",
+      "De Morgan's laws",
+      "minimization",
+      "Quine-McCluskey",
+      "prime implicant",
+      "Petrick's method",
+      "don't care",
+      "expression parser",
+      "NAND-only",
+      "NOR-only",
+      "circuit synthesis",
+    ],
+    scenarios: [
+      { id: "2-variable", label: "2-Variable" },
+      { id: "3-variable", label: "3-Variable" },
+      { id: "4-variable", label: "4-Var Minimize" },
+      { id: "demorgan", label: "De Morgan's Demo" },
+      { id: "qm-5-variable", label: "5-Var Quine-McCluskey" },
+      { id: "cyclic-petrick", label: "Cyclic Chart" },
+    ],
+  },
+  "16.4": {
+    keywords: ["matrix", "transformation", "rotation", "eigenvectors"],
+    scenarios: [
+      { id: "rotation-45", label: "Rotation 45°" },
+      { id: "scale-2x", label: "Scale 2x" },
+      { id: "shear-x", label: "Shear X" },
+      { id: "composition", label: "Composition" },
+    ],
+  },
+};
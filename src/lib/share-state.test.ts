@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { buildShareUrl, decodeShareState, encodeShareState, readArray, isNumber } from "./share-state";
+
+describe("share state", () => {
+  it("round-trips through the query string", () => {
+    const state = { scenario: "avl-rotations", speed: 2.5, step: 12, params: { keys: [5, 3, 8], mode: "insert" } };
+    const search = encodeShareState(state);
+    expect(search).toContain("scenario=avl-rotations");
+    expect(search).toContain("step=12");
+    expect(decodeShareState(search)).toEqual(state);
+    expect(decodeShareState(`?${search}`)).toEqual(state);
+  });
+
+  it("leaves defaults out of the URL", () => {
+    expect(encodeShareState({ speed: 1, step: 0, params: {} })).toBe("");
+    expect(encodeShareState({ scenario: "lru", speed: 1, step: 0 })).toBe("scenario=lru");
+    expect(decodeShareState("")).toBeNull();
+    expect(buildShareUrl({ scenario: "lru" }, "https://example.com/modules/2-5-cache?old=1#top")).toBe(
+      "https://example.com/modules/2-5-cache?scenario=lru"
+    );
+  });
+
+  it("ignores malformed and truncated values", () => {
+    const packed = new URLSearchParams(encodeShareState({ params: { keys: [1, 2, 3] } })).get("state")!;
+    expect(decodeShareState(`scenario=lru&state=${packed.slice(0, -4)}`)).toEqual({ scenario: "lru" });
+    expect(decodeShareState("state=%%%not-base64")).toBeNull();
+    // Valid base64url, but JSON that is not an object
+    expect(decodeShareState("state=WzEsMl0")).toBeNull();
+    expect(decodeShareState("speed=fast&step=-2")).toBeNull();
+    expect(decodeShareState("speed=0&step=1.5")).toBeNull();
+    expect(readArray({ keys: [1, "2"] }, "keys", isNumber)).toBeUndefined();
+  });
+
+  it("carries non-ASCII text through base64url", () => {
+    const params = { text: "naïve café → 日本語 🚀", plus: "a+b/c=" };
+    const search = encodeShareState({ params });
+    expect(search).toMatch(/^state=[A-Za-z0-9_-]+$/);
+    expect(decodeShareState(search)?.params).toEqual(params);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Serializes simulator state into URL query parameters so a shared link
+ * reopens a module on the exact frame it was copied from.
+ *
+ * Well-known fields get readable params (`?scenario=avl-rotations&step=12`);
+ * module-specific inputs are packed as base64url JSON under `state`.
+ */
+
+export type ShareParams = Record<string, unknown>;
+
+export interface ShareState {
+  scenario?: string;
+  speed?: number;
+  step?: number;
+  params?: ShareParams;
+}
+
+const PARAM_SCENARIO = "scenario";
+const PARAM_SPEED = "speed";
+const PARAM_STEP = "step";
+const PARAM_STATE = "state";
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+export function encodeShareState(state: ShareState): string {
+  const search = new URLSearchParams();
+  if (state.scenario) search.set(PARAM_SCENARIO, state.scenario);
+  if (state.speed !== undefined && state.speed !== 1) {
+    search.set(PARAM_SPEED, String(Math.round(state.speed * 100) / 100));
+  }
+  if (state.step !== undefined && state.step > 0) {
+    search.set(PARAM_STEP, String(Math.floor(state.step)));
+  }
+  if (state.params && Object.keys(state.params).length > 0) {
+    search.set(PARAM_STATE, toBase64Url(JSON.stringify(state.params)));
+  }
+  return search.toString();
+}
+
+export function decodeShareState(search: string): ShareState | null {
+  const query = new URLSearchParams(search);
+  const state: ShareState = {};
+
+  const scenario = query.get(PARAM_SCENARIO);
+  if (scenario) state.scenario = scenario;
+
+  const speed = Number(query.get(PARAM_SPEED));
+  if (query.has(PARAM_SPEED) && Number.isFinite(speed) && speed > 0) {
+    state.speed = speed;
+  }
+
+  const step = Number(query.get(PARAM_STEP));
+  if (query.has(PARAM_STEP) && Number.isInteger(step) && step >= 0) {
+    state.step = step;
+  }
+
+  const packed = query.get(PARAM_STATE);
+  if (packed) {
+    try {
+      const parsed: unknown = JSON.parse(fromBase64Url(packed));
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        state.params = parsed as ShareParams;
+      }
+    } catch {
+      // A truncated or hand-edited link should still open the module.
+    }
+  }
+
+  return Object.keys(state).length > 0 ? state : null;
+}
+
+export function buildShareUrl(state: ShareState, href: string = window.location.href): string {
+  const url = new URL(href);
+  url.search = encodeShareState(state);
+  url.hash = "";
+  return url.toString();
+}
+
+/* ── Typed readers for `params` ── */
+
+export function readString(params: ShareParams | undefined, key: string): string | undefined {
+  const value = params?.[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function readNumber(params: ShareParams | undefined, key: string): number | undefined {
+  const value = params?.[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function readBoolean(params: ShareParams | undefined, key: string): boolean | undefined {
+  const value = params?.[key];
+  return typeof value === "boolean" ? value : undefined;
+}
+
+export function readArray<T>(
+  params: ShareParams | undefined,
+  key: string,
+  guard: (item: unknown) => item is T
+): T[] | undefined {
+  const value = params?.[key];
+  return Array.isArray(value) && value.every(guard) ? value : undefined;
+}
+
+export const isNumber = (item: unknown): item is number =>
+  typeof item === "number" && Number.isFinite(item);
+
+export const isString = (item: unknown): item is string => typeof item === "string";
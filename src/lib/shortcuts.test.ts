@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { ariaKeys, keyLabel, shortcutFor, stepSpeed } from "./shortcuts";
+
+describe("simulator shortcuts", () => {
+  it("maps keys to actions case-insensitively", () => {
+    expect(shortcutFor({ key: " " })).toBe("playPause");
+    expect(shortcutFor({ key: "ArrowRight" })).toBe("step");
+    expect(shortcutFor({ key: "R" })).toBe("reset");
+    expect(shortcutFor({ key: "?" })).toBe("help");
+    expect(shortcutFor({ key: "x" })).toBeNull();
+  });
+
+  it("leaves modifier chords alone", () => {
+    expect(shortcutFor({ key: "r", ctrlKey: true })).toBeNull();
+    expect(shortcutFor({ key: "k", metaKey: true })).toBeNull();
+  });
+
+  it("labels keys for people and for assistive tech", () => {
+    expect(keyLabel(" ")).toBe("Space");
+    expect(keyLabel("m")).toBe("M");
+    expect(ariaKeys("playPause")).toBe("Space k");
+  });
+});
+
+describe("speed steps", () => {
+  it("moves half a doubling and clamps to the slider range", () => {
+    expect(stepSpeed(1, 1)).toBeCloseTo(Math.SQRT2);
+    expect(stepSpeed(2, -1)).toBeCloseTo(Math.SQRT2);
+    expect(stepSpeed(8, 1)).toBe(8);
+    expect(stepSpeed(0.5, -1)).toBe(0.5);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Keyboard layer shared by every simulator. `ModuleControls` binds these
+ * for the modules that use it; modules with their own control bars
+ * bind them through `useSimulatorShortcuts`.
+ */
+
+export type ShortcutAction = "playPause" | "step" | "stepBack" | "reset" | "faster" | "slower" | "metrics" | "help";
+
+export interface Shortcut {
+  action: ShortcutAction;
+  /** `KeyboardEvent.key` values, first one shown in the help overlay. */
+  keys: string[];
+  label: string;
+}
+
+export const SIMULATOR_SHORTCUTS: Shortcut[] = [
+  { action: "playPause", keys: [" ", "k"], label: "Play / pause" },
+  { action: "step", keys: ["ArrowRight", "l"], label: "Step forward" },
+  { action: "stepBack", keys: ["ArrowLeft", "j"], label: "Step back" },
+  { action: "reset", keys: ["r"], label: "Reset" },
+  { action: "faster", keys: ["+", "="], label: "Faster" },
+  { action: "slower", keys: ["-", "_"], label: "Slower" },
+  { action: "metrics", keys: ["m"], label: "Toggle metrics" },
+  { action: "help", keys: ["?"], label: "Show shortcuts" },
+];
+
+/** How a key is written in the help overlay and `aria-keyshortcuts`. */
+export function keyLabel(key: string): string {
+  switch (key) {
+    case " ":
+      return "Space";
+    case "ArrowRight":
+      return "→";
+    case "ArrowLeft":
+      return "←";
+    default:
+      return key.length === 1 ? key.toUpperCase() : key;
+  }
+}
+
+/** `aria-keyshortcuts` value for an action, e.g. `"Space k"`. */
+export function ariaKeys(action: ShortcutAction): string {
+  const shortcut = SIMULATOR_SHORTCUTS.find((s) => s.action === action);
+  return (shortcut?.keys ?? []).map((k) => (k === " " ? "Space" : k)).join(" ");
+}
+
+interface KeyLike {
+  key: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+}
+
+/** The action bound to a key press, ignoring chords that belong to the browser or the palette. */
+export function shortcutFor(event: KeyLike): ShortcutAction | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return SIMULATOR_SHORTCUTS.find((s) => s.keys.includes(key))?.action ?? null;
+}
+
+/** Speed range of the `ModuleControls` slider, as powers of two. */
+const MIN_SPEED_LOG = -1;
+const MAX_SPEED_LOG = 3;
+
+/** Half a doubling per press, clamped to the slider's range. */
+export function stepSpeed(speed: number, direction: 1 | -1): number {
+  const log = Math.round(Math.log2(speed) * 2) / 2 + direction * 0.5;
+  return Math.pow(2, Math.min(MAX_SPEED_LOG, Math.max(MIN_SPEED_LOG, log)));
+}
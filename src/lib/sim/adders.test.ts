@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ADDER_KINDS, adderCost, adderResult, adderStimulus, addWithCircuit, buildAdder } from "./adders";
+import { circuitIssues, simulateCircuit } from "./logic";
+
+const PAIRS: [number, number, number][] = [
+  [0, 0, 0],
+  [200, 100, 1],
+  [255, 1, 0],
+  [0x5a, 0xa5, 1],
+  [17, 38, 0],
+];
+
+describe("buildAdder", () => {
+  for (const kind of ADDER_KINDS) {
+    it(`adds correctly as ${kind}`, () => {
+      const adder = buildAdder(kind, 8);
+      expect(circuitIssues(adder.circuit)).toEqual([]);
+      for (const [a, b, cin] of PAIRS) {
+        const total = a + b + cin;
+        expect(addWithCircuit(adder, a, b, cin)).toEqual({ sum: total % 256, cout: total >> 8 });
+      }
+    });
+  }
+
+  it("leaves carries inside carry-select blocks unresolved", () => {
+    const { carries } = buildAdder("select", 8);
+    expect(carries.map((c) => c !== null)).toEqual([true, true, true, true, false, false, false, true]);
+  });
+});
+
+describe("adderCost", () => {
+  it("grows linearly for ripple carry", () => {
+    expect([4, 8, 16, 32].map((w) => adderCost("ripple", w).delay)).toEqual([19, 35, 67, 131]);
+  });
+
+  it("grows with the depth of the lookahead tree", () => {
+    expect([4, 8, 16, 32, 64].map((w) => adderCost("lookahead", w).delay)).toEqual([10, 16, 18, 24, 26]);
+  });
+
+  it("builds no carry twice in the lookahead tree", () => {
+    // Each group's carry out comes from the level above; the group unit does not repeat it.
+    expect([4, 8, 16, 32, 64].map((w) => adderCost("lookahead", w).gates)).toEqual([26, 57, 118, 241, 486]);
+  });
+
+  it("trades gates for delay in carry select", () => {
+    const ripple = adderCost("ripple", 32);
+    const select = adderCost("select", 32);
+    expect(select.delay).toBe(54);
+    expect(select.gates).toBeGreaterThan(ripple.gates * 2);
+  });
+});
+
+describe("carry propagation", () => {
+  it("settles the worst-case ripple last", () => {
+    const settle = ADDER_KINDS.map((kind) => {
+      const adder = buildAdder(kind, 8);
+      const trace = simulateCircuit(adder.circuit, new Array(17).fill(0), adderStimulus(adder, 255, 1, 0));
+      const last = Object.fromEntries(Object.entries(trace.waveforms).map(([id, w]) => [id, w[w.length - 1].value]));
+      expect(adderResult(adder, last)).toEqual({ sum: 0, cout: 1 });
+      return trace.end;
+    });
+    expect(settle).toEqual([33, 17, 22]);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * N-bit adders as gate-level netlists for the event-driven simulator in
+ * `logic.ts`: ripple-carry, carry-lookahead (generate/propagate, in 4-bit
+ * lookahead units stacked into a tree) and carry-select. Nodes are not laid
+ * out for the schematic editor; the adder module draws its own bit slices.
+ */
+
+import {
+  criticalPath,
+  DEFAULT_GATE_DELAYS,
+  evaluateCircuit,
+  type Circuit,
+  type CircuitNode,
+  type GateType,
+  type Stimulus,
+  type Wire,
+} from "./logic";
+
+export type AdderKind = "ripple" | "lookahead" | "select";
+
+export const ADDER_KINDS: AdderKind[] = ["ripple", "lookahead", "select"];
+
+/** Bits per lookahead unit and per carry-select block. */
+export const ADDER_BLOCK = 4;
+
+export interface AdderCircuit {
+  kind: AdderKind;
+  width: number;
+  circuit: Circuit;
+  /** Input node ids, least significant bit first. */
+  a: string[];
+  b: string[];
+  cin: string;
+  /** Output node ids, least significant bit first. */
+  sum: string[];
+  cout: string;
+  /**
+   * Carry out of each bit. Inside a carry-select block both candidate
+   * carries exist but neither is the real one, so those entries are null.
+   */
+  carries: (string | null)[];
+}
+
+// ──────────────────────────── Netlist Builder ────────────────────────────
+
+function netlist() {
+  const nodes: CircuitNode[] = [];
+  const wires: Wire[] = [];
+  return {
+    nodes,
+    wires,
+    input(id: string, name: string) {
+      nodes.push({ id, kind: "input", name, x: 0, y: 0 });
+      return id;
+    },
+    output(id: string, name: string, from: string) {
+      nodes.push({ id, kind: "output", name, x: 0, y: 0 });
+      wires.push({ from, to: id, pin: 0 });
+      return id;
+    },
+    gate(id: string, gate: GateType, inputs: string[]) {
+      nodes.push({ id, kind: "gate", gate, pins: inputs.length, delay: DEFAULT_GATE_DELAYS[gate], x: 0, y: 0 });
+      inputs.forEach((from, pin) => wires.push({ from, to: id, pin }));
+      return id;
+    },
+  };
+}
+
+type Netlist = ReturnType<typeof netlist>;
+
+/** The full-adder primitive: two half adders and an OR. */
+function fullAdder(net: Netlist, id: string, a: string, b: string, cin: string) {
+  const p = net.gate(`${id}.p`, "XOR", [a, b]);
+  const g = net.gate(`${id}.g`, "AND", [a, b]);
+  const sum = net.gate(`${id}.s`, "XOR", [p, cin]);
+  const t = net.gate(`${id}.t`, "AND", [p, cin]);
+  const cout = net.gate(`${id}.c`, "OR", [g, t]);
+  return { sum, cout };
+}
+
+function rippleChain(net: Netlist, id: string, a: string[], b: string[], cin: string, first = 0) {
+  const sums: string[] = [];
+  const carries: string[] = [];
+  let carry = cin;
+  a.forEach((ai, i) => {
+    const { sum, cout } = fullAdder(net, `${id}${first + i}`, ai, b[i], carry);
+    sums.push(sum);
+    carries.push(cout);
+    carry = cout;
+  });
+  return { sums, carries };
+}
+
+// ──────────────────────────── Lookahead ────────────────────────────
+
+/** Sum-of-products term `p[j-1]·…·p[i+1]·last`; a lone signal needs no gate. */
+function productTerm(net: Netlist, id: string, ps: string[], last: string): string {
+  return ps.length === 0 ? last : net.gate(id, "AND", [...ps, last]);
+}
+
+/**
+ * One lookahead unit: the carries out of the first `count` of up to four
+ * positions, in two gate levels.
+ */
+function lookaheadUnit(
+  net: Netlist,
+  id: string,
+  gs: string[],
+  ps: string[],
+  cin: string,
+  count = gs.length
+): string[] {
+  return gs.slice(0, count).map((_, j) => {
+    // c[j+1] = g[j] + p[j]g[j-1] + … + p[j]…p[0]·cin
+    const terms = [gs[j]];
+    for (let i = j - 1; i >= -1; i--) {
+      const last = i < 0 ? cin : gs[i];
+      terms.push(productTerm(net, `${id}.c${j + 1}.t${i + 1}`, ps.slice(i + 1, j + 1), last));
+    }
+    return net.gate(`${id}.c${j + 1}`, "OR", terms);
+  });
+}
+
+/** Group generate and propagate, so a whole group can act as one bit one level up. */
+function groupSignals(net: Netlist, id: string, gs: string[], ps: string[]) {
+  if (gs.length === 1) return { g: gs[0], p: ps[0] };
+  const k = gs.length;
+  const terms = gs.map((gi, i) => productTerm(net, `${id}.G.t${i}`, ps.slice(i + 1, k), gi));
+  return { g: net.gate(`${id}.G`, "OR", terms), p: net.gate(`${id}.P`, "AND", ps) };
+}
+
+/** Carries out of every position, recursing through group signals above four bits. */
+function lookaheadCarries(net: Netlist, id: string, gs: string[], ps: string[], cin: string): string[] {
+  if (gs.length <= ADDER_BLOCK) return lookaheadUnit(net, id, gs, ps, cin);
+  const groups: number[] = [];
+  for (let lo = 0; lo < gs.length; lo += ADDER_BLOCK) groups.push(lo);
+  const signals = groups.map((lo, j) =>
+    groupSignals(net, `${id}.${j}`, gs.slice(lo, lo + ADDER_BLOCK), ps.slice(lo, lo + ADDER_BLOCK))
+  );
+  const groupCarries = lookaheadCarries(
+    net,
+    `${id}^`,
+    signals.map((s) => s.g),
+    signals.map((s) => s.p),
+    cin
+  );
+  return groups.flatMap((lo, j) => {
+    const groupCin = j === 0 ? cin : groupCarries[j - 1];
+    const groupGs = gs.slice(lo, lo + ADDER_BLOCK);
+    const groupPs = ps.slice(lo, lo + ADDER_BLOCK);
+    // The group's own carry out is already known one level up, so the unit skips it.
+    const inner = lookaheadUnit(net, `${id}.${j}`, groupGs, groupPs, groupCin, groupGs.length - 1);
+    return [...inner, groupCarries[j]];
+  });
+}
+
+// ──────────────────────────── Carry Select ────────────────────────────
+
+/** `sel ? one : zero` from AND-OR gates, sharing the inverted select. */
+function mux(net: Netlist, id: string, zero: string, one: string, sel: string, notSel: string): string {
+  const z = net.gate(`${id}.z`, "AND", [zero, notSel]);
+  const o = net.gate(`${id}.o`, "AND", [one, sel]);
+  return net.gate(id, "OR", [z, o]);
+}
+
+/** A ripple block with its carry-in tied to `cin`; the first bit reduces to a half adder. */
+function constantCarryChain(net: Netlist, id: string, a: string[], b: string[], cin: 0 | 1) {
+  const sum = net.gate(`${id}0.s`, cin ? "XNOR" : "XOR", [a[0], b[0]]);
+  const cout = net.gate(`${id}0.c`, cin ? "OR" : "AND", [a[0], b[0]]);
+  const rest = rippleChain(net, id, a.slice(1), b.slice(1), cout, 1);
+  return { sums: [sum, ...rest.sums], carries: [cout, ...rest.carries] };
+}
+
+// ──────────────────────────── Builders ────────────────────────────
+
+export function buildAdder(kind: AdderKind, width: number): AdderCircuit {
+  const net = netlist();
+  const a = Array.from({ length: width }, (_, i) => net.input(`a${i}`, `A${i}`));
+  const b = Array.from({ length: width }, (_, i) => net.input(`b${i}`, `B${i}`));
+  const cin = net.input("cin", "Cin");
+  let sums: string[];
+  let carries: (string | null)[];
+
+  switch (kind) {
+    case "ripple": {
+      ({ sums, carries } = rippleChain(net, "fa", a, b, cin));
+      break;
+    }
+    case "lookahead": {
+      const ps = a.map((ai, i) => net.gate(`p${i}`, "XOR", [ai, b[i]]));
+      const gs = a.map((ai, i) => net.gate(`g${i}`, "AND", [ai, b[i]]));
+      carries = lookaheadCarries(net, "cla", gs, ps, cin);
+      sums = ps.map((pi, i) => net.gate(`s${i}`, "XOR", [pi, i === 0 ? cin : carries[i - 1]!]));
+      break;
+    }
+    case "select": {
+      sums = [];
+      carries = [];
+      let carry = cin;
+      for (let lo = 0; lo < width; lo += ADDER_BLOCK) {
+        const hi = Math.min(width, lo + ADDER_BLOCK);
+        const aBlock = a.slice(lo, hi);
+        const bBlock = b.slice(lo, hi);
+        if (lo === 0) {
+          const first = rippleChain(net, "fa", aBlock, bBlock, carry);
+          sums.push(...first.sums);
+          carries.push(...first.carries);
+          carry = first.carries[first.carries.length - 1];
+          continue;
+        }
+        const block = `blk${lo}`;
+        const zero = constantCarryChain(net, `${block}.z`, aBlock, bBlock, 0);
+        const one = constantCarryChain(net, `${block}.o`, aBlock, bBlock, 1);
+        const notSel = net.gate(`${block}.n`, "NOT", [carry]);
+        zero.sums.forEach((s0, i) => sums.push(mux(net, `${block}.s${i}`, s0, one.sums[i], carry, notSel)));
+        const blockCarry = mux(
+          net,
+          `${block}.c`,
+          zero.carries[zero.carries.length - 1],
+          one.carries[one.carries.length - 1],
+          carry,
+          notSel
+        );
+        carries.push(...Array<null>(hi - lo - 1).fill(null), blockCarry);
+        carry = blockCarry;
+      }
+      break;
+    }
+  }
+
+  const sum = sums.map((s, i) => net.output(`S${i}`, `S${i}`, s));
+  const cout = net.output("Cout", "Cout", carries[width - 1]!);
+  return { kind, width, circuit: { nodes: net.nodes, wires: net.wires }, a, b, cin, sum, cout, carries };
+}
+
+// ──────────────────────────── Operands ────────────────────────────
+
+function bit(value: number, i: number): number {
+  return Math.floor(value / 2 ** i) % 2;
+}
+
+/** Input vector in `circuitInputs` order: A bits, B bits, carry-in. */
+export function adderInputs(adder: AdderCircuit, a: number, b: number, cin: number): number[] {
+  return [...adder.a.map((_, i) => bit(a, i)), ...adder.b.map((_, i) => bit(b, i)), cin];
+}
+
+/** Operands switching on at `time` from an all-zero start. */
+export function adderStimulus(adder: AdderCircuit, a: number, b: number, cin: number, time = 1): Stimulus[] {
+  const vector = adderInputs(adder, a, b, cin);
+  return [...adder.a, ...adder.b, adder.cin]
+    .map((input, i) => ({ time, input, value: vector[i] }))
+    .filter((s) => s.value === 1);
+}
+
+/** Sum and carry-out read from node values. */
+export function adderResult(adder: AdderCircuit, values: Record<string, number>): { sum: number; cout: number } {
+  return {
+    sum: adder.sum.reduce((acc, id, i) => acc + (values[id] ?? 0) * 2 ** i, 0),
+    cout: values[adder.cout] ?? 0,
+  };
+}
+
+export function addWithCircuit(adder: AdderCircuit, a: number, b: number, cin: number) {
+  return adderResult(adder, evaluateCircuit(adder.circuit, adderInputs(adder, a, b, cin)));
+}
+
+export interface AdderCost {
+  kind: AdderKind;
+  width: number;
+  /** Worst-case gate delay from any input to any output. */
+  delay: number;
+  gates: number;
+}
+
+export function adderCost(kind: AdderKind, width: number): AdderCost {
+  const { circuit } = buildAdder(kind, width);
+  return {
+    kind,
+    width,
+    delay: criticalPath(circuit).delay,
+    gates: circuit.nodes.filter((n) => n.kind === "gate").length,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  encryptBlock,
+  expandKey,
+  fromMatrix,
+  mixColumns,
+  shiftRows,
+  subBytes,
+  toMatrix,
+} from "./aes";
+
+const hex = (s: string) => s.match(/../g)!.map((b) => parseInt(b, 16));
+const toHex = (bytes: number[]) => bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+
+// FIPS-197 Appendix A.1 / B cipher key
+const KEY = hex("2b7e151628aed2a6abf7158809cf4f3c");
+
+describe("expandKey", () => {
+  it("matches the FIPS-197 Appendix A.1 key schedule", () => {
+    const roundKeys = expandKey(KEY);
+    expect(roundKeys).toHaveLength(11);
+    expect(toHex(fromMatrix(roundKeys[0]))).toBe("2b7e151628aed2a6abf7158809cf4f3c");
+    expect(toHex(fromMatrix(roundKeys[1]))).toBe("a0fafe1788542cb123a339392a6c7605");
+    expect(toHex(fromMatrix(roundKeys[10]))).toBe("d014f9a8c9ee2589e13f0cc8b6630ca6");
+  });
+});
+
+describe("round transformations", () => {
+  // FIPS-197 Appendix B, round 1
+  const start = toMatrix(hex("193de3bea0f4e22b9ac68d2ae9f84808"));
+
+  it("SubBytes", () => {
+    expect(toHex(fromMatrix(subBytes(start)))).toBe("d42711aee0bf98f1b8b45de51e415230");
+  });
+
+  it("ShiftRows", () => {
+    expect(toHex(fromMatrix(shiftRows(subBytes(start))))).toBe("d4bf5d30e0b452aeb84111f11e2798e5");
+  });
+
+  it("MixColumns", () => {
+    expect(toHex(fromMatrix(mixColumns(shiftRows(subBytes(start)))))).toBe(
+      "046681e5e0cb199a48f8d37a2806264c"
+    );
+  });
+
+  it("MixColumns maps a known column", () => {
+    const column = toMatrix(hex("db135345".repeat(4)));
+    expect(toHex(fromMatrix(mixColumns(column)))).toBe("8e4da1bc".repeat(4));
+  });
+});
+
+describe("encryptBlock", () => {
+  it("matches the FIPS-197 Appendix B example", () => {
+    expect(toHex(encryptBlock(hex("3243f6a8885a308d313198a2e0370734"), KEY))).toBe(
+      "3925841d02dc09fbdc118597196a0b32"
+    );
+  });
+
+  it("matches the FIPS-197 Appendix C.1 AES-128 vector", () => {
+    expect(
+      toHex(encryptBlock(hex("00112233445566778899aabbccddeeff"), hex("000102030405060708090a0b0c0d0e0f")))
+    ).toBe("69c4e0d86a7b0430d8cdb78070b4c55a");
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * AES-128 (FIPS-197) building blocks used by the 9.1 AES module. The state
+ * is a 4x4 matrix indexed [row][column], filled column-major from the input
+ * bytes as in the standard.
+ */
+
+// AES S-Box
+export const SBOX: number[] = [
+  0x63,0x7c,0x77,0x7b,0xf2,0x6b,0x6f,0xc5,0x30,0x01,0x67,0x2b,0xfe,0xd7,0xab,0x76,
+  0xca,0x82,0xc9,0x7d,0xfa,0x59,0x47,0xf0,0xad,0xd4,0xa2,0xaf,0x9c,0xa4,0x72,0xc0,
+  0xb7,0xfd,0x93,0x26,0x36,0x3f,0xf7,0xcc,0x34,0xa5,0xe5,0xf1,0x71,0xd8,0x31,0x15,
+  0x04,0xc7,0x23,0xc3,0x18,0x96,0x05,0x9a,0x07,0x12,0x80,0xe2,0xeb,0x27,0xb2,0x75,
+  0x09,0x83,0x2c,0x1a,0x1b,0x6e,0x5a,0xa0,0x52,0x3b,0xd6,0xb3,0x29,0xe3,0x2f,0x84,
+  0x53,0xd1,0x00,0xed,0x20,0xfc,0xb1,0x5b,0x6a,0xcb,0xbe,0x39,0x4a,0x4c,0x58,0xcf,
+  0xd0,0xef,0xaa,0xfb,0x43,0x4d,0x33,0x85,0x45,0xf9,0x02,0x7f,0x50,0x3c,0x9f,0xa8,
+  0x51,0xa3,0x40,0x8f,0x92,0x9d,0x38,0xf5,0xbc,0xb6,0xda,0x21,0x10,0xff,0xf3,0xd2,
+  0xcd,0x0c,0x13,0xec,0x5f,0x97,0x44,0x17,0xc4,0xa7,0x7e,0x3d,0x64,0x5d,0x19,0x73,
+  0x60,0x81,0x4f,0xdc,0x22,0x2a,0x90,0x88,0x46,0xee,0xb8,0x14,0xde,0x5e,0x0b,0xdb,
+  0xe0,0x32,0x3a,0x0a,0x49,0x06,0x24,0x5c,0xc2,0xd3,0xac,0x62,0x91,0x95,0xe4,0x79,
+  0xe7,0xc8,0x37,0x6d,0x8d,0xd5,0x4e,0xa9,0x6c,0x56,0xf4,0xea,0x65,0x7a,0xae,0x08,
+  0xba,0x78,0x25,0x2e,0x1c,0xa6,0xb4,0xc6,0xe8,0xdd,0x74,0x1f,0x4b,0xbd,0x8b,0x8a,
+  0x70,0x3e,0xb5,0x66,0x48,0x03,0xf6,0x0e,0x61,0x35,0x57,0xb9,0x86,0xc1,0x1d,0x9e,
+  0xe1,0xf8,0x98,0x11,0x69,0xd9,0x8e,0x94,0x9b,0x1e,0x87,0xe9,0xce,0x55,0x28,0xdf,
+  0x8c,0xa1,0x89,0x0d,0xbf,0xe6,0x42,0x68,0x41,0x99,0x2d,0x0f,0xb0,0x54,0xbb,0x16,
+];
+
+// Rcon values
+export const RCON: number[] = [0x01, 0x02, 0x04, 0x08, 0x10, 0x20, 0x40, 0x80, 0x1b, 0x36];
+
+// GF(2^8) multiplication
+export function gmul(a: number, b: number): number {
+  let p = 0;
+  for (let i = 0; i < 8; i++) {
+    if (b & 1) p ^= a;
+    const hi = a & 0x80;
+    a = (a << 1) & 0xff;
+    if (hi) a ^= 0x1b;
+    b >>= 1;
+  }
+  return p;
+}
+
+// Convert flat 16-byte array to 4x4 column-major matrix
+export function toMatrix(bytes: number[]): number[][] {
+  const matrix: number[][] = Array.from({ length: 4 }, () => Array(4).fill(0));
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      matrix[r][c] = bytes[c * 4 + r];
+    }
+  }
+  return matrix;
+}
+
+// Key expansion
+export function expandKey(key: number[]): number[][][] {
+  const w: number[][] = [];
+  // Initial key words
+  for (let i = 0; i < 4; i++) {
+    w.push([key[4 * i], key[4 * i + 1], key[4 * i + 2], key[4 * i + 3]]);
+  }
+  // Expand
+  for (let i = 4; i < 44; i++) {
+    let temp = [...w[i - 1]];
+    if (i % 4 === 0) {
+      temp = [temp[1], temp[2], temp[3], temp[0]]; // RotWord
+      temp = temp.map((b) => SBOX[b]); // SubWord
+      temp[0] ^= RCON[i / 4 - 1]; // XOR Rcon
+    }
+    w.push(w[i - 4].map((b, j) => b ^ temp[j]));
+  }
+  // Convert to round key matrices
+  const roundKeys: number[][][] = [];
+  for (let r = 0; r <= 10; r++) {
+    const rkMatrix: number[][] = Array.from({ length: 4 }, () => Array(4).fill(0));
+    for (let c = 0; c < 4; c++) {
+      for (let row = 0; row < 4; row++) {
+        rkMatrix[row][c] = w[r * 4 + c][row];
+      }
+    }
+    roundKeys.push(rkMatrix);
+  }
+  return roundKeys;
+}
+
+// AES operations
+export function subBytes(matrix: number[][]): number[][] {
+  return matrix.map((row) => row.map((b) => SBOX[b]));
+}
+
+export function shiftRows(matrix: number[][]): number[][] {
+  const result = matrix.map((row) => [...row]);
+  for (let r = 1; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      result[r][c] = matrix[r][(c + r) % 4];
+    }
+  }
+  return result;
+}
+
+export function mixColumns(matrix: number[][]): number[][] {
+  const result: number[][] = Array.from({ length: 4 }, () => Array(4).fill(0));
+  for (let c = 0; c < 4; c++) {
+    result[0][c] = gmul(2, matrix[0][c]) ^ gmul(3, matrix[1][c]) ^ matrix[2][c] ^ matrix[3][c];
+    result[1][c] = matrix[0][c] ^ gmul(2, matrix[1][c]) ^ gmul(3, matrix[2][c]) ^ matrix[3][c];
+    result[2][c] = matrix[0][c] ^ matrix[1][c] ^ gmul(2, matrix[2][c]) ^ gmul(3, matrix[3][c]);
+    result[3][c] = gmul(3, matrix[0][c]) ^ matrix[1][c] ^ matrix[2][c] ^ gmul(2, matrix[3][c]);
+  }
+  return result;
+}
+
+export function addRoundKey(matrix: number[][], roundKey: number[][]): number[][] {
+  return matrix.map((row, r) => row.map((b, c) => b ^ roundKey[r][c]));
+}
+
+// Flatten a 4x4 column-major matrix back to 16 bytes
+export function fromMatrix(matrix: number[][]): number[] {
+  const bytes: number[] = [];
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      bytes.push(matrix[r][c]);
+    }
+  }
+  return bytes;
+}
+
+// Full 10-round encryption of one 16-byte block
+export function encryptBlock(plaintext: number[], key: number[]): number[] {
+  const roundKeys = expandKey(key);
+  let state = addRoundKey(toMatrix(plaintext), roundKeys[0]);
+  for (let round = 1; round <= 10; round++) {
+    state = shiftRows(subBytes(state));
+    if (round < 10) state = mixColumns(state);
+    state = addRoundKey(state, roundKeys[round]);
+  }
+  return fromMatrix(state);
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { ALU_WIDTHS, BRANCH_CONDITIONS, computeALU, toSigned, type ALUFlags } from "./alu";
+
+function flagString(flags: ALUFlags): string {
+  return [flags.zero && "Z", flags.carry && "C", flags.overflow && "V", flags.negative && "N"].filter(Boolean).join("");
+}
+
+function branch(mnemonic: string) {
+  return BRANCH_CONDITIONS.find((c) => c.mnemonic === mnemonic)!;
+}
+
+describe("computeALU", () => {
+  it("keeps the 8-bit behaviour of the original operations", () => {
+    expect(computeALU(200, 100, "ADD")).toMatchObject({ result: 44 });
+    expect(flagString(computeALU(200, 100, "ADD").flags)).toBe("C");
+    expect(flagString(computeALU(127, 1, "ADD").flags)).toBe("VN");
+    expect(flagString(computeALU(5, 10, "SUB").flags)).toBe("CN");
+    expect(computeALU(12, 11, "MUL").result).toBe(132);
+    expect(computeALU(200, 7, "DIV").result).toBe(28);
+    expect(computeALU(0xf0, 0, "NOT").result).toBe(0x0f);
+    expect(computeALU(0b10110100, 2, "SHR").result).toBe(0b00101101);
+  });
+
+  it("adds and subtracts at every width", () => {
+    for (const width of ALU_WIDTHS) {
+      const max = 2 ** width - 1;
+      const add = computeALU(max, 1, "ADD", width);
+      expect(add.result).toBe(0);
+      expect(flagString(add.flags)).toBe("ZC");
+      expect(add.carryBits).toHaveLength(width + 1);
+      const sub = computeALU(0, 1, "SUB", width);
+      expect(sub.result).toBe(max);
+      expect(flagString(sub.flags)).toBe("CN");
+      const intMin = 2 ** (width - 1);
+      expect(flagString(computeALU(intMin, 1, "SUB", width).flags)).toBe("V");
+    }
+    expect(computeALU(0xffffffff, 0xffffffff, "MUL", 32)).toMatchObject({ result: 1, flags: { carry: true } });
+    expect(computeALU(0xffffffff, 3, "DIV", 32).result).toBe(0x55555555);
+  });
+
+  it("chains multi-word arithmetic through the carry", () => {
+    // 0x1FF + 0x101 as two 8-bit words: low ADD, then high ADC
+    const low = computeALU(0xff, 0x01, "ADD", 8);
+    const high = computeALU(0x01, 0x01, "ADC", 8, low.flags.carry);
+    expect([high.result, low.result]).toEqual([0x03, 0x00]);
+    // 0x100 − 0x001: low SUB borrows, high SBC pays it back
+    const lowSub = computeALU(0x00, 0x01, "SUB", 8);
+    const highSub = computeALU(0x01, 0x00, "SBC", 8, lowSub.flags.carry);
+    expect([highSub.result, lowSub.result]).toEqual([0x00, 0xff]);
+    expect(highSub.flags.zero).toBe(true);
+  });
+
+  it("shifts arithmetically and rotates", () => {
+    expect(computeALU(0b1001, 1, "SAR", 4).result).toBe(0b1100);
+    expect(computeALU(0b1001, 1, "SAR", 4).flags.carry).toBe(true);
+    expect(computeALU(0x80000000, 31, "SAR", 32).result).toBe(0xffffffff);
+    expect(computeALU(0x80000000, 31, "SHR", 32).result).toBe(1);
+    expect(computeALU(0b10010110, 3, "ROL", 8)).toMatchObject({ result: 0b10110100, flags: { carry: false } });
+    expect(computeALU(0b10010110, 3, "ROR", 8)).toMatchObject({ result: 0b11010010, flags: { carry: true } });
+    expect(computeALU(0x80000001, 1, "ROL", 32).result).toBe(3);
+    // The amount uses log2(width) bits, so rotating a 16-bit value by 16 is a no-op
+    expect(computeALU(0x1234, 16, "ROR", 16).result).toBe(0x1234);
+  });
+
+  it("sets less-than from the subtraction flags", () => {
+    for (const a of [0, 1, 7, 8, 15]) {
+      for (const b of [0, 1, 7, 8, 15]) {
+        expect(computeALU(a, b, "SLT", 4).result, `${a} slt ${b}`).toBe(toSigned(a, 4) < toSigned(b, 4) ? 1 : 0);
+        expect(computeALU(a, b, "SLTU", 4).result, `${a} sltu ${b}`).toBe(a < b ? 1 : 0);
+      }
+    }
+    expect(computeALU(0xff, 1, "SLT", 8).flags).toEqual(computeALU(0xff, 1, "SUB", 8).flags);
+  });
+});
+
+describe("branch conditions", () => {
+  it("read signed and unsigned relations off the flags of A − B", () => {
+    const relations: Record<string, (x: number, y: number) => boolean> = {
+      JE: (x, y) => x === y,
+      JNE: (x, y) => x !== y,
+      JL: (x, y) => x < y,
+      JGE: (x, y) => x >= y,
+      JLE: (x, y) => x <= y,
+      JG: (x, y) => x > y,
+      JB: (x, y) => x < y,
+      JAE: (x, y) => x >= y,
+      JBE: (x, y) => x <= y,
+      JA: (x, y) => x > y,
+    };
+    for (let a = 0; a < 16; a++) {
+      for (let b = 0; b < 16; b++) {
+        const { flags } = computeALU(a, b, "SUB", 4);
+        for (const [mnemonic, holds] of Object.entries(relations)) {
+          const condition = branch(mnemonic);
+          const [x, y] = condition.kind === "signed" ? [toSigned(a, 4), toSigned(b, 4)] : [a, b];
+          expect(condition.taken(flags), `${mnemonic} ${a}, ${b}`).toBe(holds(x, y));
+        }
+      }
+    }
+  });
+
+  it("separate signed from unsigned comparisons", () => {
+    // −1 vs 1: less when signed, greater when unsigned
+    const { flags } = computeALU(0xff, 0x01, "SUB", 8);
+    expect(branch("JL").taken(flags)).toBe(true);
+    expect(branch("JB").taken(flags)).toBe(false);
+    expect(branch("JA").taken(flags)).toBe(true);
+  });
+});
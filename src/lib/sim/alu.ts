@@ -0,0 +1,305 @@
+/**
+ * Fixed-width ALU: add/subtract with carry-in, multiply, divide, logic,
+ * logical and arithmetic shifts, rotates and set-less-than, with the
+ * ZF/CF/OF/SF flags and the x86-style branch conditions they feed.
+ * Operands and results are unsigned numbers below 2^width; arithmetic
+ * stays in plain doubles so 32-bit values never hit sign-extended bit ops.
+ */
+
+import { fromBits, runMulDiv } from "./muldiv";
+
+export type ALUOperation =
+  | "ADD"
+  | "ADC"
+  | "SUB"
+  | "SBC"
+  | "MUL"
+  | "DIV"
+  | "AND"
+  | "OR"
+  | "XOR"
+  | "NOT"
+  | "SHL"
+  | "SHR"
+  | "SAR"
+  | "ROL"
+  | "ROR"
+  | "SLT"
+  | "SLTU";
+
+export type ALUWidth = 4 | 8 | 16 | 32;
+
+export const ALU_WIDTHS: ALUWidth[] = [4, 8, 16, 32];
+
+export interface ALUFlags {
+  zero: boolean;
+  carry: boolean;
+  overflow: boolean;
+  negative: boolean;
+}
+
+export interface ALUResult {
+  result: number;
+  flags: ALUFlags;
+  /** Carry into each bit, LSB first; index `width` is the carry out. Adder ops only. */
+  carryBits?: number[];
+  /** The adder's second input: B, or ~B when subtracting. */
+  addend?: number;
+  intermediateSteps: string[];
+}
+
+// ──────────────────────────── Bits ────────────────────────────
+
+export function wrap(value: number, width: number): number {
+  const modulus = 2 ** width;
+  return ((value % modulus) + modulus) % modulus;
+}
+
+export function bitAt(value: number, index: number): number {
+  return Math.floor(value / 2 ** index) % 2;
+}
+
+/** Reads a `width`-bit pattern as two's complement. */
+export function toSigned(value: number, width: number): number {
+  return value >= 2 ** (width - 1) ? value - 2 ** width : value;
+}
+
+function binary(value: number, width: number): string {
+  return value.toString(2).padStart(width, "0");
+}
+
+function bitwise(a: number, b: number, width: number, op: (x: number, y: number) => number): number {
+  let result = 0;
+  for (let i = 0; i < width; i++) result += op(bitAt(a, i), bitAt(b, i)) * 2 ** i;
+  return result;
+}
+
+// ──────────────────────────── Adder ────────────────────────────
+
+interface AdderRun {
+  sum: number;
+  carryBits: number[];
+  steps: string[];
+}
+
+/** Ripple-carry `a + addend + carryIn`, describing each full adder. */
+function ripple(a: number, addend: number, carryIn: number, width: number, invertedB?: number): AdderRun {
+  const carryBits: number[] = [carryIn];
+  const steps: string[] = [];
+  let sum = 0;
+  for (let i = 0; i < width; i++) {
+    const aBit = bitAt(a, i);
+    const bBit = bitAt(addend, i);
+    const c = carryBits[i];
+    const total = aBit + bBit + c;
+    carryBits[i + 1] = total > 1 ? 1 : 0;
+    sum += (total & 1) * 2 ** i;
+    const bText = invertedB === undefined ? `${bBit}` : `~${bitAt(invertedB, i)}(=${bBit})`;
+    steps.push(`Bit ${i}: ${aBit} + ${bText} + carry(${c}) = ${total & 1}, carry-out = ${carryBits[i + 1]}`);
+  }
+  return { sum, carryBits, steps };
+}
+
+function adderResult(run: AdderRun, addend: number, width: number, subtract: boolean): ALUResult {
+  const carryOut = run.carryBits[width];
+  // Signed overflow: the carry into the sign bit disagrees with the carry out of it
+  const overflow = run.carryBits[width - 1] !== carryOut;
+  const steps = [
+    ...run.steps,
+    `OF = carry into bit ${width - 1} (${run.carryBits[width - 1]}) ⊕ carry out (${carryOut}) = ${overflow ? 1 : 0}`,
+    subtract
+      ? `CF = NOT carry-out = ${1 - carryOut} (borrow${carryOut ? " not" : ""} needed)`
+      : `CF = carry-out = ${carryOut}`,
+  ];
+  return {
+    result: run.sum,
+    flags: {
+      zero: run.sum === 0,
+      carry: subtract ? carryOut === 0 : carryOut === 1,
+      overflow,
+      negative: bitAt(run.sum, width - 1) === 1,
+    },
+    carryBits: run.carryBits,
+    addend,
+    intermediateSteps: steps,
+  };
+}
+
+// ──────────────────────────── Entry point ────────────────────────────
+
+/**
+ * Runs one ALU operation on `width`-bit operands. `carryIn` feeds ADC and is
+ * the borrow for SBC. Subtraction reports CF as a borrow, so JB/JAE read it
+ * directly. SLT and SLTU output 0 or 1 but keep the flags of A − B, the same
+ * comparison a CMP before a conditional branch would make. Shift and rotate
+ * amounts use the low log2(width) bits of B; CF holds the last bit shifted
+ * out (for rotates, the bit that wrapped around).
+ */
+export function computeALU(a: number, b: number, op: ALUOperation, width: ALUWidth = 8, carryIn = false): ALUResult {
+  const aVal = wrap(a, width);
+  const bVal = wrap(b, width);
+  const mask = 2 ** width - 1;
+  const msb = width - 1;
+  const cin = carryIn ? 1 : 0;
+
+  switch (op) {
+    case "ADD":
+    case "ADC":
+      return adderResult(ripple(aVal, bVal, op === "ADC" ? cin : 0, width), bVal, width, false);
+    case "SUB":
+    case "SBC": {
+      // Two's complement: A + ~B + 1, with a pending borrow cancelling the +1
+      const inverted = mask - bVal;
+      const run = ripple(aVal, inverted, op === "SBC" ? 1 - cin : 1, width, bVal);
+      return adderResult(run, inverted, width, true);
+    }
+    case "SLT":
+    case "SLTU": {
+      const inverted = mask - bVal;
+      const cmp = adderResult(ripple(aVal, inverted, 1, width, bVal), inverted, width, true);
+      const { flags } = cmp;
+      const less = op === "SLT" ? flags.negative !== flags.overflow : flags.carry;
+      cmp.intermediateSteps.push(
+        op === "SLT"
+          ? `SLT = SF ⊕ OF = ${flags.negative ? 1 : 0} ⊕ ${flags.overflow ? 1 : 0} = ${less ? 1 : 0} (${toSigned(aVal, width)} ${less ? "<" : "≥"} ${toSigned(bVal, width)} signed)`
+          : `SLTU = CF = ${less ? 1 : 0} (${aVal} ${less ? "<" : "≥"} ${bVal} unsigned)`,
+      );
+      return { ...cmp, result: less ? 1 : 0 };
+    }
+    default:
+      break;
+  }
+
+  let result = 0;
+  let carry = false;
+  const steps: string[] = [];
+  const amount = bVal % width;
+
+  switch (op) {
+    case "MUL": {
+      // Unsigned shift-and-add; the ALU keeps the low half of the double-width product
+      const run = runMulDiv("shift-add", aVal, bVal, width);
+      const high = fromBits(run.result.slice(0, width));
+      result = fromBits(run.result.slice(width));
+      carry = high > 0;
+      for (const step of run.steps) steps.push(step.description);
+      steps.push(`Product high half ${high}, low half ${result}: high half ${carry ? "is lost (carry set)" : "is zero"}`);
+      break;
+    }
+    case "DIV": {
+      if (bVal === 0) {
+        // Real hardware traps here; this ALU reports it through the flags
+        carry = true;
+        steps.push("Division by zero: quotient forced to 0, carry set");
+        break;
+      }
+      const run = runMulDiv("restoring", aVal, bVal, width);
+      result = fromBits(run.result);
+      for (const step of run.steps) steps.push(step.description);
+      steps.push(`Quotient ${result}, remainder ${fromBits(run.remainder ?? [])}`);
+      break;
+    }
+    case "AND":
+    case "OR":
+    case "XOR": {
+      const fn =
+        op === "AND" ? (x: number, y: number) => x & y : op === "OR" ? (x: number, y: number) => x | y : (x: number, y: number) => x ^ y;
+      result = bitwise(aVal, bVal, width, fn);
+      for (let i = msb; i >= 0; i--) {
+        steps.push(`Bit ${i}: ${bitAt(aVal, i)} ${op} ${bitAt(bVal, i)} = ${bitAt(result, i)}`);
+      }
+      break;
+    }
+    case "NOT":
+      result = mask - aVal;
+      for (let i = msb; i >= 0; i--) steps.push(`Bit ${i}: NOT ${bitAt(aVal, i)} = ${bitAt(result, i)}`);
+      break;
+    case "SHL":
+      result = wrap(aVal * 2 ** amount, width);
+      carry = amount > 0 && bitAt(aVal, width - amount) === 1;
+      steps.push(`Shift ${binary(aVal, width)} left by ${amount} positions`);
+      steps.push(`Result: ${binary(result, width)}`);
+      steps.push("Bits shifted out from the left are lost");
+      break;
+    case "SHR":
+    case "SAR": {
+      const arithmetic = op === "SAR";
+      result = wrap(Math.floor((arithmetic ? toSigned(aVal, width) : aVal) / 2 ** amount), width);
+      carry = amount > 0 && bitAt(aVal, amount - 1) === 1;
+      steps.push(`Shift ${binary(aVal, width)} right by ${amount} positions`);
+      steps.push(
+        arithmetic
+          ? `Copies of the sign bit (${bitAt(aVal, msb)}) fill from the left, so ${toSigned(aVal, width)} ÷ 2^${amount} rounds toward −∞`
+          : "Zeros fill from the left",
+      );
+      steps.push(`Result: ${binary(result, width)}`);
+      steps.push("Bits shifted out from the right are lost");
+      break;
+    }
+    case "ROL":
+    case "ROR": {
+      const left = op === "ROL" ? amount : (width - amount) % width;
+      result = wrap(aVal * 2 ** left, width) + Math.floor(aVal / 2 ** (width - left));
+      // x86 copies the bit that wrapped around into CF
+      carry = amount > 0 && bitAt(result, op === "ROL" ? 0 : msb) === 1;
+      steps.push(`Rotate ${binary(aVal, width)} ${op === "ROL" ? "left" : "right"} by ${amount} positions`);
+      steps.push(`Bits leaving one end re-enter at the other: ${binary(result, width)}`);
+      if (amount > 0) steps.push(`CF = the bit that wrapped into bit ${op === "ROL" ? 0 : msb} = ${carry ? 1 : 0}`);
+      break;
+    }
+    default:
+      break;
+  }
+
+  return {
+    result,
+    flags: { zero: result === 0, carry, overflow: false, negative: bitAt(result, msb) === 1 },
+    intermediateSteps: steps,
+  };
+}
+
+// ──────────────────────────── Branch conditions ────────────────────────────
+
+export interface BranchCondition {
+  mnemonic: string;
+  alias: string;
+  /** The flag test, in ZF/CF/OF/SF terms. */
+  test: string;
+  /** What the branch means after CMP A, B (or SUB). */
+  relation: string;
+  kind: "equality" | "signed" | "unsigned" | "flag";
+  /** The RISC-V branch that compares registers directly, if there is one. */
+  riscv?: string;
+  taken: (flags: ALUFlags) => boolean;
+}
+
+export const BRANCH_CONDITIONS: BranchCondition[] = [
+  { mnemonic: "JE", alias: "JZ", test: "ZF = 1", relation: "A = B", kind: "equality", riscv: "BEQ", taken: (f) => f.zero },
+  { mnemonic: "JNE", alias: "JNZ", test: "ZF = 0", relation: "A ≠ B", kind: "equality", riscv: "BNE", taken: (f) => !f.zero },
+  { mnemonic: "JL", alias: "JNGE", test: "SF ≠ OF", relation: "A < B", kind: "signed", riscv: "BLT", taken: (f) => f.negative !== f.overflow },
+  { mnemonic: "JGE", alias: "JNL", test: "SF = OF", relation: "A ≥ B", kind: "signed", riscv: "BGE", taken: (f) => f.negative === f.overflow },
+  {
+    mnemonic: "JLE",
+    alias: "JNG",
+    test: "ZF = 1 or SF ≠ OF",
+    relation: "A ≤ B",
+    kind: "signed",
+    taken: (f) => f.zero || f.negative !== f.overflow,
+  },
+  {
+    mnemonic: "JG",
+    alias: "JNLE",
+    test: "ZF = 0 and SF = OF",
+    relation: "A > B",
+    kind: "signed",
+    taken: (f) => !f.zero && f.negative === f.overflow,
+  },
+  { mnemonic: "JB", alias: "JC", test: "CF = 1", relation: "A < B", kind: "unsigned", riscv: "BLTU", taken: (f) => f.carry },
+  { mnemonic: "JAE", alias: "JNC", test: "CF = 0", relation: "A ≥ B", kind: "unsigned", riscv: "BGEU", taken: (f) => !f.carry },
+  { mnemonic: "JBE", alias: "JNA", test: "CF = 1 or ZF = 1", relation: "A ≤ B", kind: "unsigned", taken: (f) => f.carry || f.zero },
+  { mnemonic: "JA", alias: "JNBE", test: "CF = 0 and ZF = 0", relation: "A > B", kind: "unsigned", taken: (f) => !f.carry && !f.zero },
+  { mnemonic: "JS", alias: "", test: "SF = 1", relation: "A − B negative", kind: "flag", taken: (f) => f.negative },
+  { mnemonic: "JNS", alias: "", test: "SF = 0", relation: "A − B non-negative", kind: "flag", taken: (f) => !f.negative },
+  { mnemonic: "JO", alias: "", test: "OF = 1", relation: "A − B overflowed", kind: "flag", taken: (f) => f.overflow },
+  { mnemonic: "JNO", alias: "", test: "OF = 0", relation: "A − B fits", kind: "flag", taken: (f) => !f.overflow },
+];
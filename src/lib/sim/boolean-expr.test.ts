@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  circuitMismatches,
+  expressionOutputs,
+  expressionVariables,
+  formatExpression,
+  gateCounts,
+  parseExpression,
+  synthesizeCircuit,
+  variableCount,
+  type SynthesisStyle,
+} from "./boolean-expr";
+import { quineMcCluskey, zerosOf } from "./quine-mccluskey";
+
+function outputsOf(text: string, numVars?: number): number[] {
+  const expr = parseExpression(text);
+  return expressionOutputs(expr, numVars ?? variableCount(expr));
+}
+
+function synthesize(style: SynthesisStyle, numVars: number, outputs: number[]) {
+  const ones = outputs.flatMap((v, m) => (v === 1 ? [m] : []));
+  const sop = quineMcCluskey(numVars, ones);
+  const pos = quineMcCluskey(numVars, zerosOf(numVars, ones));
+  return synthesizeCircuit(style, numVars, sop.cover, pos.cover);
+}
+
+describe("parseExpression", () => {
+  it("binds NOT, then AND, then XOR, then OR", () => {
+    expect(formatExpression(parseExpression("A + B C"))).toBe("A + BC");
+    expect(formatExpression(parseExpression("(A + B) C"))).toBe("(A + B)C");
+    expect(formatExpression(parseExpression("A xor B + C"))).toBe("A ⊕ B + C");
+    expect(formatExpression(parseExpression("A xor (B + C)"))).toBe("A ⊕ (B + C)");
+    expect(formatExpression(parseExpression("!A & B | ~C"))).toBe("A'B + C'");
+    expect(formatExpression(parseExpression("(AB)'"))).toBe("(AB)'");
+    expect(formatExpression(parseExpression("A NAND B NAND C"))).toBe("A NAND B NAND C");
+    expect(formatExpression(parseExpression("A nand (B nand C)"))).toBe("A NAND (B NAND C)");
+  });
+
+  it("evaluates the example from the request", () => {
+    const expr = parseExpression("A'B + C(D xor A)");
+    expect(expressionVariables(expr)).toEqual(["A", "B", "C", "D"]);
+    const outputs = expressionOutputs(expr, 4);
+    for (let m = 0; m < 16; m++) {
+      const [a, b, c, d] = [3, 2, 1, 0].map((bit) => (m >> bit) & 1);
+      expect(outputs[m], `m${m}`).toBe(((1 - a) & b) | (c & (d ^ a)));
+    }
+  });
+
+  it("handles NAND, NOR, XNOR and constants", () => {
+    expect(outputsOf("A nand B")).toEqual([1, 1, 1, 0]);
+    expect(outputsOf("A NOR B")).toEqual([1, 0, 0, 0]);
+    expect(outputsOf("A xnor B")).toEqual([1, 0, 0, 1]);
+    expect(outputsOf("A + 1", 1)).toEqual([1, 1]);
+    expect(outputsOf("A · 0 + A'", 1)).toEqual([1, 0]);
+    // Unused letters before the last one still count as variables
+    expect(variableCount(parseExpression("C"))).toBe(3);
+  });
+
+  it("reports where the expression goes wrong", () => {
+    expect(() => parseExpression("A + (B")).toThrow("Expected ) at column 7");
+    expect(() => parseExpression("A + ")).toThrow("ends early");
+    expect(() => parseExpression("A + Z")).toThrow("Unknown variable Z at column 5");
+    expect(() => parseExpression("A $ B")).toThrow("Unexpected $ at column 3");
+    expect(() => parseExpression("A)")).toThrow("Unexpected ) at column 2");
+    expect(() => parseExpression("  ")).toThrow(SyntaxError);
+  });
+});
+
+describe("synthesizeCircuit", () => {
+  it("implements every 3-variable function in each style", () => {
+    for (let f = 0; f < 256; f++) {
+      const outputs = Array.from({ length: 8 }, (_, m) => (f >> m) & 1);
+      for (const style of ["and-or", "nand", "nor"] as SynthesisStyle[]) {
+        const circuit = synthesize(style, 3, outputs);
+        if (f === 0 || f === 255) {
+          expect(circuit).toBeNull();
+          continue;
+        }
+        expect(circuitMismatches(circuit!, 3, outputs), `${style} f = ${f}`).toEqual([]);
+      }
+    }
+  });
+
+  it("uses a single gate type for the universal-gate variants", () => {
+    const outputs = outputsOf("A'B + C(D xor A)");
+    const nand = synthesize("nand", 4, outputs)!;
+    const nor = synthesize("nor", 4, outputs)!;
+    expect(Object.keys(gateCounts(nand))).toEqual(["NAND"]);
+    expect(Object.keys(gateCounts(nor))).toEqual(["NOR"]);
+    expect(circuitMismatches(nand, 4, outputs)).toEqual([]);
+    expect(circuitMismatches(nor, 4, outputs)).toEqual([]);
+  });
+
+  it("ties a NAND's inputs together for an inverter", () => {
+    const circuit = synthesize("nand", 2, outputsOf("A'B'"))!;
+    // F = A'B' = NOT(A + B): a NAND per complemented literal, one NAND for the term, one to invert it
+    expect(gateCounts(circuit)).toEqual({ NAND: 4 });
+    const tied = circuit.wires.filter((w) => w.from === "in-A");
+    expect(tied.map((w) => w.pin)).toEqual([0, 1]);
+  });
+
+  it("ignores don't-care rows when checking", () => {
+    const circuit = synthesize("and-or", 2, [0, 1, 1, 1])!;
+    expect(circuitMismatches(circuit, 2, [0, 1, 2, 1])).toEqual([]);
+    expect(circuitMismatches(circuit, 2, [1, 1, 1, 1])).toEqual([0]);
+  });
+});
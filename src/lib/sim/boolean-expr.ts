@@ -0,0 +1,398 @@
+/**
+ * Typed boolean expressions and two-level circuit synthesis. Variables are
+ * the letters A to H, so "AB" is A AND B; operator words (NOT, AND, OR, XOR,
+ * XNOR, NAND, NOR) are recognised in any case. Precedence from tightest:
+ * postfix ' and prefix NOT, then AND/NAND, XOR/XNOR, OR/NOR, all left to
+ * right. Synthesis turns a minimal cover into a netlist for the gate
+ * simulator: AND/OR from the sum of products, NAND-only from the same sum,
+ * and NOR-only from the product of sums.
+ */
+
+import { DEFAULT_GATE_DELAYS, evaluateCircuit, type Circuit, type CircuitNode, type GateType } from "./logic";
+import type { Implicant } from "./quine-mccluskey";
+
+export const EXPRESSION_VARIABLES = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+export type BinaryOp = "and" | "or" | "xor" | "xnor" | "nand" | "nor";
+
+export type Expr =
+  | { kind: "var"; name: string }
+  | { kind: "const"; value: number }
+  | { kind: "not"; operand: Expr }
+  | { kind: "binary"; op: BinaryOp; left: Expr; right: Expr };
+
+// ──────────────────────────── Parsing ────────────────────────────
+
+type Token =
+  | { type: "var"; name: string; at: number }
+  | { type: "const"; value: number; at: number }
+  | { type: "op"; op: BinaryOp; at: number }
+  | { type: "not" | "postfix" | "(" | ")"; at: number };
+
+const WORDS: Record<string, BinaryOp | "not"> = {
+  NOT: "not",
+  AND: "and",
+  OR: "or",
+  XOR: "xor",
+  XNOR: "xnor",
+  NAND: "nand",
+  NOR: "nor",
+};
+
+const SYMBOLS: Record<string, BinaryOp | "not" | "postfix" | "(" | ")"> = {
+  "+": "or",
+  "|": "or",
+  "∨": "or",
+  "*": "and",
+  "&": "and",
+  ".": "and",
+  "·": "and",
+  "∧": "and",
+  "^": "xor",
+  "⊕": "xor",
+  "↑": "nand",
+  "↓": "nor",
+  "!": "not",
+  "~": "not",
+  "¬": "not",
+  "'": "postfix",
+  "’": "postfix",
+  "(": "(",
+  ")": ")",
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "0" || c === "1") {
+      tokens.push({ type: "const", value: Number(c), at: i++ });
+    } else if (/[A-Za-z]/.test(c)) {
+      let end = i;
+      while (end < text.length && /[A-Za-z]/.test(text[end])) end++;
+      const word = text.slice(i, end).toUpperCase();
+      const op = WORDS[word];
+      if (op === "not") tokens.push({ type: "not", at: i });
+      else if (op) tokens.push({ type: "op", op, at: i });
+      else {
+        // Any other run of letters is a product of single-letter variables
+        for (let j = i; j < end; j++) {
+          const name = text[j].toUpperCase();
+          if (!EXPRESSION_VARIABLES.includes(name)) {
+            throw new SyntaxError(`Unknown variable ${text[j]} at column ${j + 1}; use A to H`);
+          }
+          tokens.push({ type: "var", name, at: j });
+        }
+      }
+      i = end;
+    } else if (SYMBOLS[c]) {
+      const symbol = SYMBOLS[c];
+      if (symbol === "not" || symbol === "postfix" || symbol === "(" || symbol === ")") tokens.push({ type: symbol, at: i });
+      else tokens.push({ type: "op", op: symbol, at: i });
+      i++;
+    } else {
+      throw new SyntaxError(`Unexpected ${c} at column ${i + 1}`);
+    }
+  }
+  return tokens;
+}
+
+const LEVELS: BinaryOp[][] = [["or", "nor"], ["xor", "xnor"], ["and", "nand"]];
+
+/** Parses `text`, throwing a SyntaxError that names the column of the first problem. */
+export function parseExpression(text: string): Expr {
+  const tokens = tokenize(text);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const column = () => (peek() ? peek().at + 1 : text.length + 1);
+  // Anything that can start an operand; next to another operand it means AND
+  const startsOperand = (t: Token | undefined) => t !== undefined && (t.type === "var" || t.type === "const" || t.type === "not" || t.type === "(");
+
+  const parseLevel = (level: number): Expr => {
+    if (level === LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    for (;;) {
+      const t = peek();
+      let op: BinaryOp | undefined;
+      if (t?.type === "op" && LEVELS[level].includes(t.op)) {
+        op = t.op;
+        pos++;
+      } else if (level === LEVELS.length - 1 && startsOperand(t)) {
+        op = "and";
+      } else {
+        return left;
+      }
+      left = { kind: "binary", op, left, right: parseLevel(level + 1) };
+    }
+  };
+
+  const parseUnary = (): Expr => {
+    if (peek()?.type === "not") {
+      pos++;
+      return { kind: "not", operand: parseUnary() };
+    }
+    let operand = parsePrimary();
+    while (peek()?.type === "postfix") {
+      pos++;
+      operand = { kind: "not", operand };
+    }
+    return operand;
+  };
+
+  const parsePrimary = (): Expr => {
+    const t = peek();
+    if (!t) throw new SyntaxError(`Expression ends early at column ${column()}`);
+    pos++;
+    if (t.type === "var") return { kind: "var", name: t.name };
+    if (t.type === "const") return { kind: "const", value: t.value };
+    if (t.type === "(") {
+      const inner = parseLevel(0);
+      if (peek()?.type !== ")") throw new SyntaxError(`Expected ) at column ${column()}`);
+      pos++;
+      return inner;
+    }
+    throw new SyntaxError(`Unexpected ${text.slice(t.at).split(/\s/)[0]} at column ${t.at + 1}`);
+  };
+
+  if (tokens.length === 0) throw new SyntaxError("Enter an expression");
+  const expr = parseLevel(0);
+  if (pos < tokens.length) throw new SyntaxError(`Unexpected ${text[peek().at]} at column ${column()}`);
+  return expr;
+}
+
+// ──────────────────────────── Evaluation ────────────────────────────
+
+/** Variables the expression mentions, alphabetically. */
+export function expressionVariables(expr: Expr): string[] {
+  const names = new Set<string>();
+  const walk = (e: Expr) => {
+    if (e.kind === "var") names.add(e.name);
+    else if (e.kind === "not") walk(e.operand);
+    else if (e.kind === "binary") {
+      walk(e.left);
+      walk(e.right);
+    }
+  };
+  walk(expr);
+  return [...names].sort();
+}
+
+export function evaluateExpression(expr: Expr, values: Record<string, number>): number {
+  switch (expr.kind) {
+    case "var":
+      return values[expr.name] ? 1 : 0;
+    case "const":
+      return expr.value;
+    case "not":
+      return 1 - evaluateExpression(expr.operand, values);
+    case "binary": {
+      const a = evaluateExpression(expr.left, values);
+      const b = evaluateExpression(expr.right, values);
+      switch (expr.op) {
+        case "and":
+          return a & b;
+        case "or":
+          return a | b;
+        case "xor":
+          return a ^ b;
+        case "xnor":
+          return 1 - (a ^ b);
+        case "nand":
+          return 1 - (a & b);
+        case "nor":
+          return 1 - (a | b);
+      }
+    }
+  }
+}
+
+/** Variables A… up to the last letter used, at least `minimum` of them. */
+export function variableCount(expr: Expr, minimum = 1): number {
+  const used = expressionVariables(expr).map((name) => EXPRESSION_VARIABLES.indexOf(name) + 1);
+  return Math.max(minimum, ...used);
+}
+
+/** One output per minterm with variable 0 (A) as the most significant bit. */
+export function expressionOutputs(expr: Expr, numVars: number): number[] {
+  return Array.from({ length: 2 ** numVars }, (_, m) => {
+    const values = Object.fromEntries(
+      EXPRESSION_VARIABLES.slice(0, numVars).map((name, i) => [name, (m >> (numVars - 1 - i)) & 1])
+    );
+    return evaluateExpression(expr, values);
+  });
+}
+
+const PRECEDENCE: Record<BinaryOp, number> = { or: 0, nor: 0, xor: 1, xnor: 1, and: 2, nand: 2 };
+const OP_TEXT: Record<BinaryOp, string> = { and: "", or: " + ", xor: " ⊕ ", xnor: " XNOR ", nand: " NAND ", nor: " NOR " };
+
+/** Prints with only the parentheses the precedence rules need, so the grouping the parser chose is visible. */
+export function formatExpression(expr: Expr): string {
+  const format = (e: Expr, parent: number, rightSide: boolean): string => {
+    switch (e.kind) {
+      case "var":
+        return e.name;
+      case "const":
+        return String(e.value);
+      case "not": {
+        const inner = format(e.operand, 3, false);
+        return e.operand.kind === "var" || e.operand.kind === "const" || e.operand.kind === "not" || inner.startsWith("(")
+          ? `${inner}'`
+          : `(${inner})'`;
+      }
+      case "binary": {
+        const own = PRECEDENCE[e.op];
+        const text = format(e.left, own, false) + OP_TEXT[e.op] + format(e.right, own, true);
+        // Left-associative: an equal-precedence right operand needs parentheses
+        return own < parent || (own === parent && rightSide) ? `(${text})` : text;
+      }
+    }
+  };
+  return format(expr, -1, false);
+}
+
+// ──────────────────────────── Synthesis ────────────────────────────
+
+export type SynthesisStyle = "and-or" | "nand" | "nor";
+
+export const SYNTHESIS_STYLES: SynthesisStyle[] = ["and-or", "nand", "nor"];
+
+const COLUMN_X = [20, 120, 250, 400, 520];
+const OUTPUT_X = 640;
+const ROW_GAP = 14;
+const TOP = 20;
+
+function slotHeight(pins: number): number {
+  return Math.max(40, pins * 16 + 8) + ROW_GAP;
+}
+
+/** A literal: variable `index` (0 = A), complemented or not. */
+interface Literal {
+  index: number;
+  positive: boolean;
+}
+
+class NetlistBuilder {
+  nodes: CircuitNode[] = [];
+  wires: Circuit["wires"] = [];
+  private inverted = new Map<number, string>();
+  private count = 0;
+
+  constructor(
+    private readonly inverter: GateType,
+    readonly names: string[],
+    used: number[]
+  ) {
+    used.forEach((index, row) => {
+      this.nodes.push({ id: `in-${names[index]}`, kind: "input", name: names[index], x: COLUMN_X[0], y: TOP + row * 50 });
+    });
+  }
+
+  gate(gate: GateType, sources: string[], column: number, y: number): string {
+    const id = `g${++this.count}`;
+    this.nodes.push({ id, kind: "gate", gate, pins: sources.length, delay: DEFAULT_GATE_DELAYS[gate], x: COLUMN_X[column], y });
+    sources.forEach((from, pin) => this.wires.push({ from, to: id, pin }));
+    return id;
+  }
+
+  /** NOT, or a NAND/NOR with its inputs tied when only one gate type is allowed. */
+  invert(source: string, column: number, y: number): string {
+    return this.inverter === "NOT" ? this.gate("NOT", [source], column, y) : this.gate(this.inverter, [source, source], column, y);
+  }
+
+  literal({ index, positive }: Literal): string {
+    const input = `in-${this.names[index]}`;
+    if (positive) return input;
+    let id = this.inverted.get(index);
+    if (!id) {
+      const y = this.nodes.find((n) => n.id === input)!.y - 6;
+      id = this.invert(input, 1, y);
+      this.inverted.set(index, id);
+    }
+    return id;
+  }
+
+  output(from: string, y: number): Circuit {
+    this.nodes.push({ id: "out-F", kind: "output", name: "F", x: OUTPUT_X, y });
+    this.wires.push({ from, to: "out-F", pin: 0 });
+    return { nodes: this.nodes, wires: this.wires };
+  }
+}
+
+function termLiterals(term: Implicant, numVars: number, complement: boolean): Literal[] {
+  const literals: Literal[] = [];
+  for (let index = 0; index < numVars; index++) {
+    const bit = numVars - 1 - index;
+    if ((term.mask >> bit) & 1) continue;
+    const one = ((term.value >> bit) & 1) === 1;
+    literals.push({ index, positive: complement ? !one : one });
+  }
+  return literals;
+}
+
+/**
+ * A two-level circuit for the function whose minimal sum of products is
+ * `sopCover` and whose minimal product of sums comes from `zeroCover`, the
+ * cover of its zeros. NAND-only implements the sum of products (AND-OR
+ * becomes NAND-NAND), NOR-only the product of sums (OR-AND becomes NOR-NOR),
+ * and single-input inverters become gates with tied inputs. Returns null for
+ * a constant function, which needs a tie to a supply rail rather than gates.
+ */
+export function synthesizeCircuit(
+  style: SynthesisStyle,
+  numVars: number,
+  sopCover: Implicant[],
+  zeroCover: Implicant[]
+): Circuit | null {
+  const names = EXPRESSION_VARIABLES.slice(0, numVars);
+  const useSums = style === "nor";
+  const cover = useSums ? zeroCover : sopCover;
+  const terms = cover.map((term) => termLiterals(term, numVars, useSums));
+  if (terms.length === 0 || terms.some((t) => t.length === 0)) return null;
+
+  const used = [...new Set(terms.flat().map((l) => l.index))].sort((a, b) => a - b);
+  const inner: GateType = style === "and-or" ? "AND" : style === "nand" ? "NAND" : "NOR";
+  const outer: GateType = style === "and-or" ? "OR" : inner;
+  const net = new NetlistBuilder(style === "and-or" ? "NOT" : inner, names, used);
+
+  // First level: one gate per term; for NAND/NOR a one-literal term is just that literal inverted
+  let y = TOP;
+  const firstLevel = terms.map((literals) => {
+    const top = y;
+    y += slotHeight(Math.max(2, literals.length));
+    if (literals.length > 1) return net.gate(inner, literals.map((l) => net.literal(l)), 2, top);
+    const [only] = literals;
+    return style === "and-or" ? net.literal(only) : net.literal({ ...only, positive: !only.positive });
+  });
+  const middle = Math.max(TOP, (y - ROW_GAP) / 2 - 20);
+
+  if (firstLevel.length > 1) return net.output(net.gate(outer, firstLevel, 3, middle), middle + 6);
+  // A single term: AND/OR needs no second level, NAND/NOR need an inverter to undo the first
+  const single = style === "and-or" ? firstLevel[0] : net.invert(firstLevel[0], 3, middle);
+  return net.output(single, middle + 6);
+}
+
+/** Minterms where the circuit disagrees with `outputs`; entries other than 0 or 1 are don't-cares. */
+export function circuitMismatches(circuit: Circuit, numVars: number, outputs: number[]): number[] {
+  const inputs = circuit.nodes.filter((n) => n.kind === "input");
+  const output = circuit.nodes.find((n) => n.kind === "output")!;
+  const mismatches: number[] = [];
+  for (let m = 0; m < 2 ** numVars; m++) {
+    if (outputs[m] !== 0 && outputs[m] !== 1) continue;
+    const values = inputs.map((n) => {
+      const index = EXPRESSION_VARIABLES.indexOf(n.kind === "input" ? n.name : "");
+      return (m >> (numVars - 1 - index)) & 1;
+    });
+    if (evaluateCircuit(circuit, values)[output.id] !== outputs[m]) mismatches.push(m);
+  }
+  return mismatches;
+}
+
+/** Gates by type, e.g. { NAND: 5 }. */
+export function gateCounts(circuit: Circuit): Partial<Record<GateType, number>> {
+  const counts: Partial<Record<GateType, number>> = {};
+  for (const node of circuit.nodes) if (node.kind === "gate") counts[node.gate] = (counts[node.gate] ?? 0) + 1;
+  return counts;
+}
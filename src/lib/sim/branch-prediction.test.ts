@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPredictorRun,
+  MISPREDICTION_PENALTY,
+  predictorStats,
+  predictorStep,
+  type BranchOutcome,
+  type PredictorRun,
+  type PredictorType,
+} from "./branch-prediction";
+
+// Inner loop of four iterations, entered four times: T T T NT per pass.
+const LOOP: BranchOutcome[] = Array.from({ length: 4 }, () => ["T", "T", "T", "NT"] as BranchOutcome[]).flat();
+const PCS = LOOP.map(() => 0x100);
+
+function run(type: PredictorType, pattern = LOOP, pcs = PCS): PredictorRun {
+  let state = createPredictorRun();
+  for (let i = 0; i < pattern.length; i++) state = predictorStep(state, type, pattern, pcs);
+  return state;
+}
+
+/** Mispredictions after the first pass through the loop. */
+function steadyMisses(type: PredictorType): number {
+  return run(type).history.slice(4).filter((h) => !h.correct).length;
+}
+
+describe("predictorStep", () => {
+  it("1-bit misses twice per loop pass, 2-bit only on the exit", () => {
+    expect(steadyMisses("1-bit")).toBe(6);
+    expect(steadyMisses("2-bit")).toBe(3);
+  });
+
+  it("static predictors score the taken fraction", () => {
+    expect(predictorStats(run("always-taken").history).accuracy).toBe(75);
+    expect(predictorStats(run("always-not-taken").history).accuracy).toBe(25);
+  });
+
+  it("keeps the run once the trace is exhausted", () => {
+    const done = run("2-bit");
+    expect(done.step).toBe(LOOP.length);
+    expect(predictorStep(done, "2-bit", LOOP, PCS)).toBe(done);
+  });
+
+  it("branches at different PCs train separate table entries", () => {
+    const pattern: BranchOutcome[] = ["T", "NT", "T", "NT", "T", "NT"];
+    const pcs = [0x100, 0x104, 0x100, 0x104, 0x100, 0x104];
+    const { history } = run("1-bit", pattern, pcs);
+    expect(history.slice(2).every((h) => h.correct)).toBe(true);
+  });
+});
+
+describe("predictorStats", () => {
+  it("charges the penalty per misprediction", () => {
+    const stats = predictorStats(run("always-taken").history);
+    expect(stats).toMatchObject({ total: 16, correct: 12 });
+    expect(stats.penaltyCycles).toBe(4 * MISPREDICTION_PENALTY);
+  });
+
+  it("reports zero accuracy before any branch", () => {
+    expect(predictorStats([]).accuracy).toBe(0);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Dynamic branch predictors used by the 2.4 Branch Prediction module: static,
+ * 1-bit, 2-bit saturating and tournament, each indexed through a small
+ * branch history table (BHT).
+ */
+
+// ──────────────────────────── Types ────────────────────────────
+
+export type BranchOutcome = "T" | "NT";
+
+export type PredictorType =
+  | "always-taken"
+  | "always-not-taken"
+  | "1-bit"
+  | "2-bit"
+  | "tournament";
+
+export type TwoBitState = "SN" | "WN" | "WT" | "ST";
+
+export interface PredictionRecord {
+  step: number;
+  pc: number;
+  actual: BranchOutcome;
+  predicted: BranchOutcome;
+  correct: boolean;
+  predictorState: string;
+}
+
+export interface BHTEntry {
+  tag: number;
+  state1Bit: boolean; // true = Predict Taken
+  state2Bit: TwoBitState;
+  // Tournament sub-states
+  localState: TwoBitState;
+  globalState: TwoBitState;
+  chooser: number; // 0-3: 0,1 => use local, 2,3 => use global
+  accessCount: number;
+  lastAccess: number;
+}
+
+/** A predictor part-way through a branch trace. */
+export interface PredictorRun {
+  /** Index of the next branch in the trace. */
+  step: number;
+  bht: BHTEntry[];
+  history: PredictionRecord[];
+}
+
+// ──────────────────────────── Constants ────────────────────────────
+
+export const TWO_BIT_STATES: TwoBitState[] = ["SN", "WN", "WT", "ST"];
+
+export const TWO_BIT_SHORT: Record<TwoBitState, string> = {
+  SN: "Strongly NT",
+  WN: "Weakly NT",
+  WT: "Weakly T",
+  ST: "Strongly T",
+};
+
+export const TWO_BIT_PREDICT: Record<TwoBitState, BranchOutcome> = {
+  SN: "NT",
+  WN: "NT",
+  WT: "T",
+  ST: "T",
+};
+
+export const BHT_SIZE = 8; // 8 entries, indexed by PC[4:2]
+export const MISPREDICTION_PENALTY = 3; // cycles
+
+// ──────────────────────────── Predictors ────────────────────────────
+
+function createDefaultBHTEntry(): BHTEntry {
+  return {
+    tag: 0,
+    state1Bit: false, // Predict Not Taken initially
+    state2Bit: "WN",
+    localState: "WN",
+    globalState: "WN",
+    chooser: 1, // slightly prefer local
+    accessCount: 0,
+    lastAccess: -1,
+  };
+}
+
+export function createDefaultBHT(): BHTEntry[] {
+  return Array.from({ length: BHT_SIZE }, () => createDefaultBHTEntry());
+}
+
+export function getBHTIndex(pc: number): number {
+  return (pc >> 2) & (BHT_SIZE - 1);
+}
+
+export function next2BitState(state: TwoBitState, taken: boolean): TwoBitState {
+  const idx = TWO_BIT_STATES.indexOf(state);
+  if (taken) {
+    return TWO_BIT_STATES[Math.min(idx + 1, 3)];
+  } else {
+    return TWO_BIT_STATES[Math.max(idx - 1, 0)];
+  }
+}
+
+export function predict(
+  type: PredictorType,
+  entry: BHTEntry
+): { prediction: BranchOutcome; detail: string } {
+  switch (type) {
+    case "always-taken":
+      return { prediction: "T", detail: "Always Taken" };
+    case "always-not-taken":
+      return { prediction: "NT", detail: "Always Not Taken" };
+    case "1-bit":
+      return {
+        prediction: entry.state1Bit ? "T" : "NT",
+        detail: entry.state1Bit ? "Predict Taken" : "Predict Not Taken",
+      };
+    case "2-bit":
+      return {
+        prediction: TWO_BIT_PREDICT[entry.state2Bit],
+        detail: TWO_BIT_SHORT[entry.state2Bit],
+      };
+    case "tournament": {
+      const localPred = TWO_BIT_PREDICT[entry.localState];
+      const globalPred = TWO_BIT_PREDICT[entry.globalState];
+      const useGlobal = entry.chooser >= 2;
+      const prediction = useGlobal ? globalPred : localPred;
+      return {
+        prediction,
+        detail: `${useGlobal ? "Global" : "Local"} selected (chooser=${entry.chooser})`,
+      };
+    }
+  }
+}
+
+export function updatePredictor(
+  type: PredictorType,
+  entry: BHTEntry,
+  actual: BranchOutcome,
+  step: number
+): BHTEntry {
+  const taken = actual === "T";
+  const newEntry = { ...entry, accessCount: entry.accessCount + 1, lastAccess: step };
+
+  switch (type) {
+    case "always-taken":
+    case "always-not-taken":
+      return newEntry;
+    case "1-bit":
+      newEntry.state1Bit = taken;
+      return newEntry;
+    case "2-bit":
+      newEntry.state2Bit = next2BitState(entry.state2Bit, taken);
+      return newEntry;
+    case "tournament": {
+      const localPred = TWO_BIT_PREDICT[entry.localState];
+      const globalPred = TWO_BIT_PREDICT[entry.globalState];
+      const localCorrect = localPred === actual;
+      const globalCorrect = globalPred === actual;
+
+      // Update chooser: if they disagree, shift towards the one that was right
+      if (localCorrect && !globalCorrect) {
+        newEntry.chooser = Math.max(0, entry.chooser - 1);
+      } else if (!localCorrect && globalCorrect) {
+        newEntry.chooser = Math.min(3, entry.chooser + 1);
+      }
+
+      // Update both sub-predictors
+      newEntry.localState = next2BitState(entry.localState, taken);
+      newEntry.globalState = next2BitState(entry.globalState, taken);
+      return newEntry;
+    }
+  }
+}
+
+// ──────────────────────────── Trace Runner ────────────────────────────
+
+export function createPredictorRun(): PredictorRun {
+  return { step: 0, bht: createDefaultBHT(), history: [] };
+}
+
+/**
+ * Predicts and resolves the next branch of the trace. Returns `run`
+ * unchanged once the trace is exhausted.
+ */
+export function predictorStep(
+  run: PredictorRun,
+  type: PredictorType,
+  pattern: BranchOutcome[],
+  pcs: number[]
+): PredictorRun {
+  if (run.step >= pattern.length) return run;
+  const pc = pcs[run.step] || 0x100;
+  const idx = getBHTIndex(pc);
+  const entry = run.bht[idx];
+  const { prediction, detail } = predict(type, entry);
+  const actual = pattern[run.step];
+
+  const bht = [...run.bht];
+  bht[idx] = updatePredictor(type, entry, actual, run.step);
+  const record: PredictionRecord = {
+    step: run.step,
+    pc,
+    actual,
+    predicted: prediction,
+    correct: prediction === actual,
+    predictorState: detail,
+  };
+  return { step: run.step + 1, bht, history: [...run.history, record] };
+}
+
+/** Accuracy and the pipeline cycles lost to mispredictions so far. */
+export function predictorStats(history: PredictionRecord[]): {
+  total: number;
+  correct: number;
+  accuracy: number;
+  penaltyCycles: number;
+} {
+  const correct = history.filter((h) => h.correct).length;
+  const total = history.length;
+  return {
+    total,
+    correct,
+    accuracy: total > 0 ? (correct / total) * 100 : 0,
+    penaltyCycles: (total - correct) * MISPREDICTION_PENALTY,
+  };
+}
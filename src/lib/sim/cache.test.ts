@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { accessCache, createEmptyCache, decomposeAddress, type CacheType } from "./cache";
+
+function run(addresses: number[], cacheType: CacheType): string {
+  let cache = createEmptyCache(cacheType);
+  return addresses
+    .map((address, step) => {
+      const { newCache, result } = accessCache(cache, address, cacheType, step);
+      cache = newCache;
+      return result === "hit" ? "H" : "M";
+    })
+    .join("");
+}
+
+describe("decomposeAddress", () => {
+  // 256 B cache, 16 B blocks, 16-bit addresses
+  it("splits a direct-mapped address into 8/4/4 bits", () => {
+    expect(decomposeAddress(0x1234, "direct-mapped")).toMatchObject({
+      tag: 0x12,
+      setIndex: 0x3,
+      blockOffset: 0x4,
+      tagBits: 8,
+      setIndexBits: 4,
+      offsetBits: 4,
+    });
+  });
+
+  it("has no index bits when fully associative", () => {
+    expect(decomposeAddress(0x1234, "fully-associative")).toMatchObject({
+      tag: 0x123,
+      setIndex: 0,
+      setIndexBits: 0,
+    });
+  });
+});
+
+describe("accessCache", () => {
+  it("hits on later words of a block that was just loaded", () => {
+    expect(run([0x00, 0x04, 0x08, 0x0c, 0x10], "direct-mapped")).toBe("MHHHM");
+  });
+
+  it("thrashes a direct-mapped set that more than one block maps to", () => {
+    expect(run([0x000, 0x100, 0x000, 0x100], "direct-mapped")).toBe("MMMM");
+    expect(run([0x000, 0x100, 0x000, 0x100], "2-way")).toBe("MMHH");
+  });
+
+  it("evicts the least recently used way", () => {
+    // 0x000, 0x080 and 0x100 share set 0 of the 2-way cache
+    let cache = createEmptyCache("2-way");
+    for (const [step, address] of [0x000, 0x080, 0x000].entries()) {
+      cache = accessCache(cache, address, "2-way", step).newCache;
+    }
+    const { evictedTag } = accessCache(cache, 0x100, "2-way", 3);
+    expect(evictedTag).toBe(decomposeAddress(0x080, "2-way").tag);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Set-associative L1 cache model used by the 2.5 Cache Hierarchy module:
+ * address decomposition into tag / set index / block offset, and LRU
+ * replacement on a miss.
+ */
+
+// ──────────────────────────── Types ────────────────────────────
+
+export type CacheType = "direct-mapped" | "2-way" | "4-way" | "fully-associative";
+
+export type AccessResult = "hit" | "miss";
+
+export interface CacheBlock {
+  valid: boolean;
+  tag: number;
+  data: string;
+  lastAccess: number; // for LRU
+  loadedAt: number; // when this block was loaded
+  dirty: boolean;
+}
+
+export interface CacheSet {
+  blocks: CacheBlock[];
+}
+
+export interface AddressDecomposition {
+  address: number;
+  tag: number;
+  tagBits: number;
+  setIndex: number;
+  setIndexBits: number;
+  blockOffset: number;
+  offsetBits: number;
+  binaryStr: string;
+}
+
+// ──────────────────────────── Constants ────────────────────────────
+
+export const CACHE_SIZE = 256; // bytes
+export const BLOCK_SIZE = 16; // bytes per block
+export const TOTAL_BLOCKS = CACHE_SIZE / BLOCK_SIZE; // 16 blocks
+export const ADDRESS_BITS = 16; // 16-bit addresses
+
+// Access latencies (in cycles)
+export const L1_LATENCY = 1;
+export const L2_LATENCY = 10;
+export const MEM_LATENCY = 100;
+
+// ──────────────────────────── Cache Simulation Logic ────────────────────────────
+
+export function getWays(cacheType: CacheType): number {
+  switch (cacheType) {
+    case "direct-mapped":
+      return 1;
+    case "2-way":
+      return 2;
+    case "4-way":
+      return 4;
+    case "fully-associative":
+      return TOTAL_BLOCKS;
+  }
+}
+
+export function getNumSets(cacheType: CacheType): number {
+  const ways = getWays(cacheType);
+  return TOTAL_BLOCKS / ways;
+}
+
+export function getOffsetBits(): number {
+  return Math.log2(BLOCK_SIZE);
+}
+
+export function getSetIndexBits(cacheType: CacheType): number {
+  const numSets = getNumSets(cacheType);
+  return numSets > 1 ? Math.log2(numSets) : 0;
+}
+
+export function getTagBits(cacheType: CacheType): number {
+  return ADDRESS_BITS - getSetIndexBits(cacheType) - getOffsetBits();
+}
+
+export function decomposeAddress(address: number, cacheType: CacheType): AddressDecomposition {
+  const offsetBits = getOffsetBits();
+  const setIndexBits = getSetIndexBits(cacheType);
+  const tagBits = getTagBits(cacheType);
+
+  const blockOffset = address & ((1 << offsetBits) - 1);
+  const setIndex = (address >> offsetBits) & ((1 << setIndexBits) - 1);
+  const tag = address >> (offsetBits + setIndexBits);
+
+  const binaryStr = address.toString(2).padStart(ADDRESS_BITS, "0");
+
+  return {
+    address,
+    tag,
+    tagBits,
+    setIndex,
+    setIndexBits,
+    blockOffset,
+    offsetBits,
+    binaryStr,
+  };
+}
+
+export function createEmptyCache(cacheType: CacheType): CacheSet[] {
+  const numSets = getNumSets(cacheType);
+  const ways = getWays(cacheType);
+
+  return Array.from({ length: numSets }, () => ({
+    blocks: Array.from({ length: ways }, () => ({
+      valid: false,
+      tag: 0,
+      data: "",
+      lastAccess: -1,
+      loadedAt: -1,
+      dirty: false,
+    })),
+  }));
+}
+
+export function accessCache(
+  cache: CacheSet[],
+  address: number,
+  cacheType: CacheType,
+  step: number
+): {
+  newCache: CacheSet[];
+  result: AccessResult;
+  evictedTag: number | null;
+  wayHit: number;
+  wayLoaded: number;
+  decomp: AddressDecomposition;
+} {
+  const decomp = decomposeAddress(address, cacheType);
+  const { tag, setIndex } = decomp;
+
+  const newCache = cache.map((set) => ({
+    blocks: set.blocks.map((b) => ({ ...b })),
+  }));
+
+  const set = newCache[setIndex];
+
+  // Check for hit
+  for (let w = 0; w < set.blocks.length; w++) {
+    if (set.blocks[w].valid && set.blocks[w].tag === tag) {
+      // HIT
+      set.blocks[w].lastAccess = step;
+      return {
+        newCache,
+        result: "hit",
+        evictedTag: null,
+        wayHit: w,
+        wayLoaded: w,
+        decomp,
+      };
+    }
+  }
+
+  // MISS - find block to replace
+  let replaceWay = -1;
+  let evictedTag: number | null = null;
+
+  // First try to find an invalid (empty) block
+  for (let w = 0; w < set.blocks.length; w++) {
+    if (!set.blocks[w].valid) {
+      replaceWay = w;
+      break;
+    }
+  }
+
+  // If no empty block, use LRU
+  if (replaceWay === -1) {
+    let oldestAccess = Infinity;
+    for (let w = 0; w < set.blocks.length; w++) {
+      if (set.blocks[w].lastAccess < oldestAccess) {
+        oldestAccess = set.blocks[w].lastAccess;
+        replaceWay = w;
+      }
+    }
+    evictedTag = set.blocks[replaceWay].tag;
+  }
+
+  // Load the new block
+  set.blocks[replaceWay] = {
+    valid: true,
+    tag,
+    data: `[${address.toString(16).toUpperCase().padStart(4, "0")}]`,
+    lastAccess: step,
+    loadedAt: step,
+    dirty: false,
+  };
+
+  return {
+    newCache,
+    result: "miss",
+    evictedTag,
+    wayHit: -1,
+    wayLoaded: replaceWay,
+    decomp,
+  };
+}
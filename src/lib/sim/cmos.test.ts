@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  cmosIssues,
+  compoundCmosGate,
+  evaluateCmos,
+  gateLevelTransistors,
+  networkExpression,
+  standardCmosGate,
+  transistorCount,
+  type CmosGate,
+} from "./cmos";
+import { GATE_TYPES, evaluateGate } from "./logic";
+
+function outputs(gate: CmosGate) {
+  const n = gate.inputs.length;
+  return Array.from({ length: 2 ** n }, (_, m) =>
+    evaluateCmos(gate, gate.inputs.map((_, i) => (m >> (n - 1 - i)) & 1)).output,
+  );
+}
+
+describe("standard gates", () => {
+  it("match the gate-level truth tables with no shorts or floating nodes", () => {
+    for (const type of GATE_TYPES) {
+      const gate = standardCmosGate(type);
+      const n = gate.inputs.length;
+      const expected = Array.from({ length: 2 ** n }, (_, m) =>
+        evaluateGate(type, gate.inputs.map((_, i) => (m >> (n - 1 - i)) & 1)),
+      );
+      expect(outputs(gate), type).toEqual(expected);
+      expect(cmosIssues(gate), type).toEqual([]);
+    }
+  });
+
+  it("counts two transistors per input per stage", () => {
+    const counts = Object.fromEntries(GATE_TYPES.map((t) => [t, transistorCount(standardCmosGate(t))]));
+    expect(counts).toEqual({ AND: 6, OR: 6, NOT: 2, NAND: 4, NOR: 4, XOR: 12, XNOR: 12 });
+  });
+
+  it("shows which network conducts", () => {
+    const nand = evaluateCmos(standardCmosGate("NAND"), [1, 1]);
+    expect(nand.stages[0]).toEqual({ pullUp: false, pullDown: true, condition: "low" });
+    expect(nand.output).toBe(0);
+    const and = evaluateCmos(standardCmosGate("AND"), [1, 0]);
+    expect(and.values).toMatchObject({ "(AB)'": 1, Y: 0 });
+  });
+});
+
+describe("compound gates", () => {
+  it("builds AOI and OAI gates from their names", () => {
+    const aoi21 = compoundCmosGate("aoi21");
+    expect(aoi21.name).toBe("AOI21");
+    expect(aoi21.expression).toBe("(AB + C)'");
+    expect(networkExpression(aoi21.stages[0].pullUp)).toBe("(A + B)C");
+    expect(outputs(aoi21)).toEqual([1, 0, 1, 0, 1, 0, 0, 0]);
+    expect(transistorCount(aoi21)).toBe(6);
+    // AND2 (6) into NOR2 (4)
+    expect(gateLevelTransistors(aoi21.stages[0].pullDown)).toBe(10);
+
+    const oai22 = compoundCmosGate("OAI22");
+    expect(oai22.expression).toBe("((A + B)(C + D))'");
+    expect(transistorCount(oai22)).toBe(8);
+    expect(cmosIssues(oai22)).toEqual([]);
+  });
+
+  it("accepts an inverted AND/OR expression", () => {
+    const gate = compoundCmosGate("(A(B + C) + D)'");
+    expect(gate.inputs).toEqual(["A", "B", "C", "D"]);
+    expect(networkExpression(gate.stages[0].pullUp)).toBe("(A + BC)D");
+    expect(cmosIssues(gate)).toEqual([]);
+    expect(compoundCmosGate("A nor B").expression).toBe("(A + B)'");
+    expect(() => compoundCmosGate("AB + C")).toThrow("inverts");
+    expect(() => compoundCmosGate("(A xor B)'")).toThrow(SyntaxError);
+    expect(() => compoundCmosGate("AOI15")).toThrow("1 to 4");
+    expect(() => compoundCmosGate("AOI43")).toThrow(RangeError);
+  });
+
+  it("flags shorts and floating outputs in a malformed pull-up", () => {
+    // A pull-up that copies the pull-down instead of its dual
+    const gate = compoundCmosGate("(AB)'", "AB");
+    const issues = cmosIssues(gate);
+    expect(issues.map((i) => [i.inputs.join(""), i.kind])).toEqual([
+      ["01", "floating"],
+      ["10", "floating"],
+    ]);
+    expect(evaluateCmos(gate, [0, 1]).output).toBe("Z");
+    // NOR pull-down with a parallel pull-up: one input high, the other low, both networks on
+    const shorted = compoundCmosGate("(A + B)'", "A + B");
+    expect(cmosIssues(shorted).map((i) => [i.inputs.join(""), i.kind])).toEqual([
+      ["01", "short"],
+      ["10", "short"],
+    ]);
+    expect(evaluateCmos(shorted, [1, 0]).output).toBe("X");
+  });
+});
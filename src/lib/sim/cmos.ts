@@ -0,0 +1,283 @@
+/**
+ * Static CMOS at the transistor level. Each stage drives one node through a
+ * PMOS pull-up network from VDD and an NMOS pull-down network to GND, both
+ * series-parallel switch networks: NMOS switches conduct on 1, PMOS on 0.
+ * A well-formed stage has duals for its two networks, so exactly one
+ * conducts for every input; when both conduct the stage shorts VDD to GND,
+ * and when neither does the output floats. Non-inverting gates and XOR
+ * chain several stages through named internal nodes.
+ */
+
+import { formatExpression, parseExpression, type Expr } from "./boolean-expr";
+import type { GateType } from "./logic";
+
+export type Polarity = "nmos" | "pmos";
+
+export type SwitchNetwork =
+  | { kind: "switch"; input: string }
+  | { kind: "series" | "parallel"; children: SwitchNetwork[] };
+
+/** A node's logic level: driven 0 or 1, contention (X) or floating (Z). */
+export type Level = 0 | 1 | "X" | "Z";
+
+export interface CmosStage {
+  output: string;
+  pullUp: SwitchNetwork;
+  pullDown: SwitchNetwork;
+}
+
+export interface CmosGate {
+  name: string;
+  inputs: string[];
+  stages: CmosStage[];
+  /** Boolean function of the final stage's output. */
+  expression: string;
+}
+
+export type StageCondition = "high" | "low" | "short" | "floating" | "unknown";
+
+export interface StageState {
+  pullUp: boolean | null;
+  pullDown: boolean | null;
+  condition: StageCondition;
+}
+
+export interface CmosEvaluation {
+  values: Record<string, Level>;
+  stages: StageState[];
+  output: Level;
+}
+
+export interface CmosIssue {
+  inputs: number[];
+  stage: string;
+  kind: "short" | "floating";
+}
+
+/** Keeps the drawn networks readable and the exhaustive issue sweep small. */
+export const MAX_CMOS_INPUTS = 6;
+
+// ──────────────────────────── Networks ────────────────────────────
+
+function sw(input: string): SwitchNetwork {
+  return { kind: "switch", input };
+}
+
+function series(...children: SwitchNetwork[]): SwitchNetwork {
+  return children.length === 1 ? children[0] : { kind: "series", children };
+}
+
+function parallel(...children: SwitchNetwork[]): SwitchNetwork {
+  return children.length === 1 ? children[0] : { kind: "parallel", children };
+}
+
+/** Series becomes parallel and vice versa: the complementary network's topology. */
+export function dualNetwork(net: SwitchNetwork): SwitchNetwork {
+  if (net.kind === "switch") return net;
+  return { kind: net.kind === "series" ? "parallel" : "series", children: net.children.map(dualNetwork) };
+}
+
+export function switchCount(net: SwitchNetwork): number {
+  return net.kind === "switch" ? 1 : net.children.reduce((sum, child) => sum + switchCount(child), 0);
+}
+
+export function transistorCount(gate: CmosGate): number {
+  return gate.stages.reduce((sum, s) => sum + switchCount(s.pullUp) + switchCount(s.pullDown), 0);
+}
+
+/** Whether one transistor conducts; null when its gate is at X or Z. */
+export function switchOn(polarity: Polarity, level: Level): boolean | null {
+  if (level !== 0 && level !== 1) return null;
+  return polarity === "nmos" ? level === 1 : level === 0;
+}
+
+/** Three-valued conduction: series needs every switch on, parallel any one. */
+export function networkConducts(net: SwitchNetwork, polarity: Polarity, values: Record<string, Level>): boolean | null {
+  if (net.kind === "switch") return switchOn(polarity, values[net.input] ?? "Z");
+  const states = net.children.map((child) => networkConducts(child, polarity, values));
+  if (net.kind === "series") {
+    if (states.includes(false)) return false;
+    return states.includes(null) ? null : true;
+  }
+  if (states.includes(true)) return true;
+  return states.includes(null) ? null : false;
+}
+
+/** Every input a network's switches are gated by, in first-use order. */
+export function networkInputs(net: SwitchNetwork): string[] {
+  if (net.kind === "switch") return [net.input];
+  return [...new Set(net.children.flatMap(networkInputs))];
+}
+
+// ──────────────────────────── Evaluation ────────────────────────────
+
+export function evaluateStage(stage: CmosStage, values: Record<string, Level>): StageState {
+  const pullUp = networkConducts(stage.pullUp, "pmos", values);
+  const pullDown = networkConducts(stage.pullDown, "nmos", values);
+  let condition: StageCondition = "unknown";
+  if (pullUp === true && pullDown === true) condition = "short";
+  else if (pullUp === false && pullDown === false) condition = "floating";
+  else if (pullUp === true && pullDown === false) condition = "high";
+  else if (pullUp === false && pullDown === true) condition = "low";
+  return { pullUp, pullDown, condition };
+}
+
+const CONDITION_LEVELS: Record<StageCondition, Level> = { high: 1, low: 0, short: "X", floating: "Z", unknown: "X" };
+
+/** Settles each stage in order; `inputs[i]` drives `gate.inputs[i]`. */
+export function evaluateCmos(gate: CmosGate, inputs: number[]): CmosEvaluation {
+  const values: Record<string, Level> = {};
+  gate.inputs.forEach((name, i) => (values[name] = inputs[i] ? 1 : 0));
+  const stages = gate.stages.map((stage) => {
+    const state = evaluateStage(stage, values);
+    values[stage.output] = CONDITION_LEVELS[state.condition];
+    return state;
+  });
+  return { values, stages, output: values[gate.stages[gate.stages.length - 1].output] };
+}
+
+/** Input combinations (first input as MSB) where some stage shorts or floats. */
+export function cmosIssues(gate: CmosGate): CmosIssue[] {
+  const issues: CmosIssue[] = [];
+  const n = gate.inputs.length;
+  for (let m = 0; m < 2 ** n; m++) {
+    const inputs = gate.inputs.map((_, i) => (m >> (n - 1 - i)) & 1);
+    const { stages } = evaluateCmos(gate, inputs);
+    stages.forEach((state, s) => {
+      if (state.condition === "short" || state.condition === "floating") {
+        issues.push({ inputs, stage: gate.stages[s].output, kind: state.condition });
+      }
+    });
+  }
+  return issues;
+}
+
+// ──────────────────────────── Standard gates ────────────────────────────
+
+function stage(output: string, pullDown: SwitchNetwork): CmosStage {
+  return { output, pullUp: dualNetwork(pullDown), pullDown };
+}
+
+/** Static CMOS gates: inverting gates in one stage, AND/OR add an inverter, XOR/XNOR invert both inputs first. */
+export function standardCmosGate(type: GateType): CmosGate {
+  const a = sw("A");
+  const b = sw("B");
+  const invert = (input: string, output: string) => stage(output, sw(input));
+  switch (type) {
+    case "NOT":
+      return { name: type, inputs: ["A"], stages: [invert("A", "Y")], expression: "A'" };
+    case "NAND":
+      return { name: type, inputs: ["A", "B"], stages: [stage("Y", series(a, b))], expression: "(AB)'" };
+    case "NOR":
+      return { name: type, inputs: ["A", "B"], stages: [stage("Y", parallel(a, b))], expression: "(A + B)'" };
+    case "AND":
+      return {
+        name: type,
+        inputs: ["A", "B"],
+        stages: [stage("(AB)'", series(a, b)), invert("(AB)'", "Y")],
+        expression: "AB",
+      };
+    case "OR":
+      return {
+        name: type,
+        inputs: ["A", "B"],
+        stages: [stage("(A+B)'", parallel(a, b)), invert("(A+B)'", "Y")],
+        expression: "A + B",
+      };
+    case "XOR":
+    case "XNOR": {
+      // XOR = (AB + A'B')', XNOR = (AB' + A'B)': an AOI22 fed by both inputs and their complements
+      const [nb, pb] = type === "XOR" ? [sw("B"), sw("B'")] : [sw("B'"), sw("B")];
+      return {
+        name: type,
+        inputs: ["A", "B"],
+        stages: [invert("A", "A'"), invert("B", "B'"), stage("Y", parallel(series(a, nb), series(sw("A'"), pb)))],
+        expression: type === "XOR" ? "A ⊕ B" : "(A ⊕ B)'",
+      };
+    }
+  }
+}
+
+// ──────────────────────────── Compound gates ────────────────────────────
+
+function flatten(expr: Expr, op: "and" | "or"): Expr[] {
+  return expr.kind === "binary" && expr.op === op ? [...flatten(expr.left, op), ...flatten(expr.right, op)] : [expr];
+}
+
+/** AND becomes series, OR parallel; anything else has no single-stage switch network. */
+export function networkFromExpression(expr: Expr): SwitchNetwork {
+  if (expr.kind === "var") return sw(expr.name);
+  if (expr.kind === "binary" && (expr.op === "and" || expr.op === "or")) {
+    const children = flatten(expr, expr.op).map(networkFromExpression);
+    return expr.op === "and" ? series(...children) : parallel(...children);
+  }
+  throw new SyntaxError("A switch network is built from inputs joined by AND (series) and OR (parallel) only");
+}
+
+/** The AND-OR (AOI) or OR-AND (OAI) expression a name such as AOI21 or OAI22 stands for. */
+function compoundExpression(kind: string, digits: string): Expr {
+  let next = 0;
+  const groups = [...digits].map((d) => {
+    const size = Number(d);
+    if (size < 1 || size > 4) throw new SyntaxError(`Group sizes run from 1 to 4, not ${d}`);
+    const vars = Array.from({ length: size }, (): Expr => ({ kind: "var", name: String.fromCharCode(65 + next++) }));
+    return vars.reduce((left, right) => ({ kind: "binary", op: kind === "AOI" ? "and" : "or", left, right }));
+  });
+  return groups.reduce((left, right) => ({ kind: "binary", op: kind === "AOI" ? "or" : "and", left, right }));
+}
+
+/**
+ * A single-stage compound gate from a name (AOI21, OAI22, AOI211…) or an
+ * inverted AND/OR expression such as "(AB + CD)'" or "A NOR B". The pull-up
+ * network is the dual of the pull-down unless `pullUpOverride` gives its
+ * topology directly, which is how malformed networks are built. Throws a
+ * SyntaxError for specs that are not single-stage and a RangeError past
+ * MAX_CMOS_INPUTS inputs.
+ */
+export function compoundCmosGate(spec: string, pullUpOverride?: string): CmosGate {
+  const trimmed = spec.trim();
+  const named = /^(AOI|OAI)(\d+)$/i.exec(trimmed);
+  let body: Expr;
+  if (named) {
+    body = compoundExpression(named[1].toUpperCase(), named[2]);
+  } else {
+    const expr = parseExpression(trimmed);
+    if (expr.kind === "not") body = expr.operand;
+    else if (expr.kind === "binary" && (expr.op === "nand" || expr.op === "nor")) {
+      body = { ...expr, op: expr.op === "nand" ? "and" : "or" };
+    } else {
+      throw new SyntaxError("A single CMOS stage inverts: write the output as (…)' or with NAND/NOR");
+    }
+  }
+  const pullDown = networkFromExpression(body);
+  const pullUp = pullUpOverride?.trim() ? networkFromExpression(parseExpression(pullUpOverride)) : dualNetwork(pullDown);
+  const inputs = [...new Set([...networkInputs(pullDown), ...networkInputs(pullUp)])].sort();
+  if (inputs.length > MAX_CMOS_INPUTS) {
+    throw new RangeError(`Compound gates take up to ${MAX_CMOS_INPUTS} inputs, not ${inputs.length}`);
+  }
+  return {
+    name: named ? trimmed.toUpperCase() : "Custom",
+    inputs,
+    stages: [{ output: "Y", pullUp, pullDown }],
+    expression: formatExpression({ kind: "not", operand: body }),
+  };
+}
+
+/** The pull-down network written as the expression whose complement the stage computes. */
+export function networkExpression(net: SwitchNetwork): string {
+  const toExpr = (n: SwitchNetwork): Expr =>
+    n.kind === "switch"
+      ? { kind: "var", name: n.input }
+      : n.children.map(toExpr).reduce((left, right) => ({ kind: "binary", op: n.kind === "series" ? "and" : "or", left, right }));
+  return formatExpression(toExpr(net));
+}
+
+/**
+ * Transistors for the same function out of separate gates: each inner AND/OR
+ * is a NAND/NOR plus an inverter (2k + 2), the outer one a plain NAND/NOR (2k).
+ */
+export function gateLevelTransistors(pullDown: SwitchNetwork): number {
+  const inner = (net: SwitchNetwork): number =>
+    net.kind === "switch" ? 0 : 2 * net.children.length + 2 + net.children.reduce((sum, c) => sum + inner(c), 0);
+  return pullDown.kind === "switch" ? 2 : inner(pullDown) - 2;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  DATAPATH_OPS,
+  MULTI_CYCLE_TRANSITIONS,
+  createMachineState,
+  decodeInstruction,
+  executeInstruction,
+  getControlSignals,
+  loadProgram,
+  multiCycleStates,
+  runProgram,
+} from "./datapath";
+import { DATA_BASE, MIPS_INSTRUCTIONS, TEXT_BASE, assemble } from "./mips";
+
+function load(source: string) {
+  const loaded = loadProgram(assemble(source));
+  expect(loaded.diagnostics).toEqual([]);
+  return { program: loaded.program, state: createMachineState({}, loaded.memory) };
+}
+
+describe("getControlSignals", () => {
+  it("keeps the textbook rows and adds the jump, link and immediate signals", () => {
+    expect(getControlSignals("ADD")).toMatchObject({ RegDst: 1, ALUSrc: 0, MemToReg: 0, RegWrite: 1, ALUOp: [1, 0] });
+    expect(getControlSignals("LW")).toMatchObject({ ALUSrc: 1, MemToReg: 1, RegWrite: 1, MemRead: 1, ExtOp: 1 });
+    expect(getControlSignals("BNE")).toMatchObject({ Branch: 0, BranchNE: 1, ALUOp: [0, 1] });
+    expect(getControlSignals("ORI")).toMatchObject({ ALUSrc: 1, RegWrite: 1, ExtOp: 0, ALUOp: [1, 1] });
+    expect(getControlSignals("JAL")).toMatchObject({ RegDst: 2, MemToReg: 2, RegWrite: 1, Jump: 1 });
+    expect(getControlSignals("JR")).toMatchObject({ RegWrite: 0, JumpReg: 1 });
+  });
+});
+
+describe("executeInstruction", () => {
+  it("exposes the values on the datapath's wires", () => {
+    const { program } = load("ori $t0, $t1, 0xff00\nbeq $t0, $t0, -1");
+    const state = createMachineState({ $t1: -1 });
+    const ori = executeInstruction(state, program[0]);
+    expect(ori).toMatchObject({ extended: 0xff00, aluB: 0xff00, aluResult: -1, writeRegister: 8, writeData: -1, nextPc: TEXT_BASE + 4 });
+    const beq = executeInstruction(ori.next, program[1]);
+    expect(beq).toMatchObject({ aluOperation: "SUB", zero: true, branchTaken: true, branchTarget: TEXT_BASE + 4, writeRegister: null });
+    expect(state.registers[8]).toBe(0);
+  });
+
+  it("shifts rt by shamt and compares signed and unsigned", () => {
+    const { program } = load(`
+        sra   $t1, $t0, 4
+        srl   $t2, $t0, 28
+        sll   $t3, $t0, 1
+        sltu  $t4, $zero, $t0
+        slt   $t5, $zero, $t0
+        sltiu $t6, $t0, -1
+        nor   $t7, $t0, $zero
+        xori  $s0, $t0, 0xffff
+        andi  $s1, $t0, 0xffff`);
+    let state = createMachineState({ $t0: -16 });
+    const sra = executeInstruction(state, program[0]);
+    expect(sra).toMatchObject({ aluOperation: "SRA", aluA: -16, aluB: 4, aluResult: -1 });
+    for (const instr of program) state = executeInstruction(state, instr).next;
+    expect(state.registers.slice(9, 16)).toEqual([-1, 15, -32, 1, 0, 1, 15]);
+    expect(state.registers.slice(16, 18)).toEqual([-16 ^ 0xffff, 0xfff0]);
+  });
+});
+
+describe("runProgram", () => {
+  it("runs an assembled loop over the data segment to completion", () => {
+    const { program, state } = load(`
+        .data
+array:  .word 3, 1, 4, 1, 5
+        .text
+        la   $t0, array
+        li   $t1, 5
+loop:   lw   $t2, 0($t0)
+        add  $v0, $v0, $t2
+        addi $t0, $t0, 4
+        addi $t1, $t1, -1
+        bne  $t1, $zero, loop
+        sw   $v0, 0($t0)`);
+    const result = runProgram(program, state);
+    expect(result).toMatchObject({ halt: "end", steps: 29 });
+    expect(result.state.registers[2]).toBe(14);
+    expect(result.state.memory[DATA_BASE + 20]).toBe(14);
+    expect(result.state.pc).toBe(program[program.length - 1].address + 4);
+    expect(result.multiCycleClocks).toBe(3 * 4 + 5 * (5 + 4 + 4 + 4 + 3) + 4);
+  });
+
+  it("calls and returns through $ra and builds constants with lui/ori", () => {
+    const { program, state } = load(`
+main:   addi $a0, $zero, 6
+        jal  double
+        li   $t0, 0x12345678
+        j    done
+double: add  $v0, $a0, $a0
+        jr   $ra
+done:   nop`);
+    const result = runProgram(program, state);
+    expect(result.halt).toBe("end");
+    expect(result.state.registers[2]).toBe(12);
+    expect(result.state.registers[31]).toBe(TEXT_BASE + 8);
+    expect(result.state.registers[8]).toBe(0x12345678);
+  });
+
+  it("loads and stores bytes little-endian within a word", () => {
+    const { program, state } = load(`
+        .data
+word:   .word 0x8070ff01
+        .text
+        la   $t0, word
+        lb   $t1, 1($t0)
+        lbu  $t2, 1($t0)
+        lb   $t3, 3($t0)
+        addi $t4, $zero, 0x1234
+        sb   $t4, 2($t0)
+        subu $t5, $t2, $t4`);
+    const result = runProgram(program, state);
+    expect(result.halt).toBe("end");
+    expect(result.state.registers.slice(9, 14)).toEqual([-1, 0xff, -128, 0x1234, 0xff - 0x1234]);
+    expect(result.state.memory[DATA_BASE]).toBe(0x8034ff01 | 0);
+    expect(result.multiCycleClocks).toBe(2 * 4 + 3 * 5 + 4 + 4 + 4);
+  });
+
+  it("stops at breakpoints, the step limit and unaligned accesses", () => {
+    const { program, state } = load("addi $t0, $t0, 1\naddi $t0, $t0, 1\naddi $t0, $t0, 1");
+    const breakpoints = new Set([TEXT_BASE + 8]);
+    const paused = runProgram(program, state, { breakpoints });
+    expect(paused).toMatchObject({ halt: "breakpoint", steps: 2, state: { pc: TEXT_BASE + 8 } });
+    expect(runProgram(program, paused.state, { breakpoints })).toMatchObject({ halt: "end", steps: 1 });
+
+    const spin = load("loop: j loop");
+    expect(runProgram(spin.program, spin.state, { maxSteps: 50 })).toMatchObject({ halt: "limit", steps: 50 });
+
+    const unaligned = load("addi $t0, $zero, 2\nlw $t1, 0($t0)");
+    expect(runProgram(unaligned.program, unaligned.state)).toMatchObject({
+      halt: "error",
+      steps: 1,
+      error: "Unaligned word address 0x00000002 in LW $t1, 0($t0)",
+    });
+  });
+});
+
+describe("loadProgram", () => {
+  it("runs every instruction the assembler emits", () => {
+    for (const mnemonic of Object.keys(MIPS_INSTRUCTIONS)) {
+      expect(DATAPATH_OPS, mnemonic).toContain(mnemonic.toUpperCase());
+    }
+    const { program, diagnostics } = loadProgram(assemble("nop\nsll $t0, $t1, 2\nlbu $t0, 3($sp)"));
+    expect(diagnostics).toEqual([]);
+    expect(program.map((i) => i.op)).toEqual(["NOP", "SLL", "LBU"]);
+    expect(program[1].shamt).toBe(2);
+  });
+
+  it("rejects words that are not instructions", () => {
+    expect(() => decodeInstruction(0xfc000000)).toThrow("0xfc000000 is not a MIPS instruction");
+  });
+});
+
+describe("multi-cycle FSM", () => {
+  it("takes the textbook clock counts along edges of the FSM", () => {
+    const clocks = (op: (typeof DATAPATH_OPS)[number]) => multiCycleStates(op).length;
+    expect([clocks("LW"), clocks("SW"), clocks("ADD"), clocks("ADDI"), clocks("BEQ"), clocks("J"), clocks("JR")]).toEqual([5, 4, 4, 4, 3, 3, 3]);
+    const edges = new Set(MULTI_CYCLE_TRANSITIONS.map((t) => `${t.from}>${t.to}`));
+    for (const op of DATAPATH_OPS) {
+      const states = multiCycleStates(op);
+      expect(states[0]).toBe("Fetch");
+      states.slice(1).forEach((state, i) => expect(edges.has(`${states[i]}>${state}`), `${op} ${state}`).toBe(true));
+    }
+  });
+});
@@ -0,0 +1,518 @@
+/**
+ * Instruction-level model of the 2.2 MIPS datapaths. Words come from the
+ * assembler and are decoded with its disassembler; `getControlSignals` is the
+ * single-cycle main decoder and `executeInstruction` performs one
+ * instruction, returning every value that crosses the datapath so the view
+ * can replay it phase by phase. The multi-cycle variant runs the same
+ * instructions but sequences each through the states of its control FSM,
+ * one per clock. Arithmetic wraps to 32 bits: the overflow exception add and
+ * addi raise is not modeled. Data memory holds whole words and byte accesses
+ * pick lanes within them little-endian, as MARS does.
+ */
+
+import { MIPS_REGISTERS, TEXT_BASE, disassemble, type AssemblyDiagnostic, type AssemblyResult, type MipsFormat } from "./mips";
+
+// ──────────────────────────── Types ────────────────────────────
+
+/** Every instruction the drawn datapath implements; NOP is the all-zero word. */
+export const DATAPATH_OPS = [
+  "ADD", "ADDU", "SUB", "SUBU", "AND", "OR", "XOR", "NOR", "SLT", "SLTU",
+  "SLL", "SRL", "SRA", "NOP", "JR",
+  "LW", "LB", "LBU", "SW", "SB", "BEQ", "BNE",
+  "ADDI", "ADDIU", "SLTI", "SLTIU", "ANDI", "ORI", "XORI", "LUI",
+  "J", "JAL",
+] as const;
+
+export type MIPSOp = (typeof DATAPATH_OPS)[number];
+
+export interface DatapathInstruction {
+  address: number;
+  word: number;
+  op: MIPSOp;
+  format: MipsFormat;
+  /** The instruction as the disassembler prints it. */
+  assembly: string;
+  rs: number;
+  rt: number;
+  rd: number;
+  /** The 5-bit shift amount of sll, srl and sra. */
+  shamt: number;
+  /** The raw 16-bit immediate field. */
+  imm: number;
+  /** The 26-bit jump field. */
+  target: number;
+  /** Source line, for instructions loaded from an assembled program. */
+  line?: number;
+}
+
+export interface ControlSignals {
+  /** Write register: 0 rt, 1 rd, 2 $ra. */
+  RegDst: number;
+  ALUSrc: number;
+  /** Write data: 0 ALU result, 1 memory, 2 PC + 4. */
+  MemToReg: number;
+  RegWrite: number;
+  MemRead: number;
+  MemWrite: number;
+  Branch: number;
+  /** Branch when the ALU result is not zero. */
+  BranchNE: number;
+  /** Immediate extension: 1 sign, 0 zero. */
+  ExtOp: number;
+  Jump: number;
+  JumpReg: number;
+  ALUOp: [number, number];
+}
+
+export type ALUOperation =
+  | "ADD" | "SUB" | "AND" | "OR" | "XOR" | "NOR" | "SLT" | "SLTU"
+  | "SLL" | "SRL" | "SRA" | "LUI";
+
+/** Word-aligned byte address → signed 32-bit word. */
+export type DataMemory = Record<number, number>;
+
+export interface MachineState {
+  pc: number;
+  /** Signed 32-bit values indexed by register number; $zero stays 0. */
+  registers: number[];
+  memory: DataMemory;
+}
+
+export interface ExecutionTrace {
+  instruction: DatapathInstruction;
+  control: ControlSignals;
+  pcPlus4: number;
+  readData1: number;
+  readData2: number;
+  /** The immediate after sign or zero extension. */
+  extended: number;
+  aluOperation: ALUOperation;
+  aluA: number;
+  aluB: number;
+  aluResult: number;
+  zero: boolean;
+  branchTarget: number;
+  branchTaken: boolean;
+  jumpTarget: number;
+  /** The value a load reads or a store writes: the whole word, or the byte for lb, lbu and sb. */
+  memoryData: number | null;
+  writeRegister: number | null;
+  writeData: number | null;
+  nextPc: number;
+  /** The machine after the instruction's clock edge. */
+  next: MachineState;
+}
+
+export type HaltReason = "end" | "breakpoint" | "limit" | "error";
+
+export interface RunResult {
+  state: MachineState;
+  steps: number;
+  /** Clocks the multi-cycle datapath takes for the same instructions. */
+  multiCycleClocks: number;
+  halt: HaltReason;
+  error?: string;
+}
+
+/** MARS's reset values for the global and stack pointers. */
+const INITIAL_GP = 0x10008000;
+const INITIAL_SP = 0x7fffeffc;
+
+function hex(value: number, digits = 8): string {
+  return `0x${(value >>> 0).toString(16).padStart(digits, "0")}`;
+}
+
+// ──────────────────────────── Decoding ────────────────────────────
+
+const OP_BY_MNEMONIC: Record<string, MIPSOp> = Object.fromEntries(
+  DATAPATH_OPS.filter((op) => op !== "NOP").map((op) => [op.toLowerCase(), op]),
+);
+
+/** Throws a RangeError for words the datapath cannot run. */
+export function decodeInstruction(word: number, address = TEXT_BASE): DatapathInstruction {
+  word >>>= 0;
+  const decoded = disassemble(word, address);
+  if (!decoded.mnemonic) throw new RangeError(`${hex(word)} is not a MIPS instruction`);
+  const op = word === 0 ? "NOP" : OP_BY_MNEMONIC[decoded.mnemonic];
+  if (!op) throw new RangeError(`${decoded.mnemonic.toUpperCase()} is not implemented by this datapath`);
+  return {
+    address,
+    word,
+    op,
+    format: decoded.format,
+    assembly: decoded.text,
+    rs: (word >>> 21) & 31,
+    rt: (word >>> 16) & 31,
+    rd: (word >>> 11) & 31,
+    shamt: (word >>> 6) & 31,
+    imm: word & 0xffff,
+    target: word & 0x3ffffff,
+  };
+}
+
+/** Decodes an assembled program, with a diagnostic for every instruction the datapath cannot run. */
+export function loadProgram(result: AssemblyResult): {
+  program: DatapathInstruction[];
+  memory: DataMemory;
+  diagnostics: AssemblyDiagnostic[];
+} {
+  const program: DatapathInstruction[] = [];
+  const diagnostics: AssemblyDiagnostic[] = [];
+  for (const instr of result.instructions) {
+    try {
+      program.push({ ...decodeInstruction(instr.word, instr.address), line: instr.line });
+    } catch (err) {
+      if (!(err instanceof RangeError)) throw err;
+      diagnostics.push({ line: instr.line, column: 1, message: err.message });
+    }
+  }
+  const memory: DataMemory = Object.fromEntries(result.data.map((d) => [d.address, d.word | 0]));
+  return { program, memory, diagnostics };
+}
+
+export function instructionAt(program: DatapathInstruction[], pc: number): DatapathInstruction | null {
+  return program.find((instr) => instr.address === pc) ?? null;
+}
+
+/** Register transfer notation, e.g. "$t2 = $t0 + $t1". */
+export function registerTransfer(instr: DatapathInstruction): string {
+  const [rs, rt, rd] = [instr.rs, instr.rt, instr.rd].map((r) => MIPS_REGISTERS[r]);
+  const simm = (instr.imm << 16) >> 16;
+  const jumpTarget = hex(((instr.address + 4) & 0xf0000000) | (instr.target << 2));
+  switch (instr.op) {
+    case "ADD": case "ADDU": return `${rd} = ${rs} + ${rt}`;
+    case "SUB": case "SUBU": return `${rd} = ${rs} - ${rt}`;
+    case "AND": return `${rd} = ${rs} & ${rt}`;
+    case "OR": return `${rd} = ${rs} | ${rt}`;
+    case "XOR": return `${rd} = ${rs} ^ ${rt}`;
+    case "NOR": return `${rd} = ~(${rs} | ${rt})`;
+    case "SLT": return `${rd} = (${rs} < ${rt}) ? 1 : 0`;
+    case "SLTU": return `${rd} = (${rs} < ${rt} unsigned) ? 1 : 0`;
+    case "SLL": return `${rd} = ${rt} << ${instr.shamt}`;
+    case "SRL": return `${rd} = ${rt} >>> ${instr.shamt}`;
+    case "SRA": return `${rd} = ${rt} >> ${instr.shamt}`;
+    case "NOP": return "No operation";
+    case "JR": return `PC = ${rs}`;
+    case "LW": return `${rt} = Memory[${rs} + ${simm}]`;
+    case "LB": return `${rt} = SignExt(MemoryByte[${rs} + ${simm}])`;
+    case "LBU": return `${rt} = ZeroExt(MemoryByte[${rs} + ${simm}])`;
+    case "SW": return `Memory[${rs} + ${simm}] = ${rt}`;
+    case "SB": return `MemoryByte[${rs} + ${simm}] = ${rt}[7:0]`;
+    case "BEQ": return `if (${rs} == ${rt}) PC = PC + 4 + ${simm}*4`;
+    case "BNE": return `if (${rs} != ${rt}) PC = PC + 4 + ${simm}*4`;
+    case "ADDI": case "ADDIU": return `${rt} = ${rs} + ${simm}`;
+    case "SLTI": return `${rt} = (${rs} < ${simm}) ? 1 : 0`;
+    case "SLTIU": return `${rt} = (${rs} < ${simm} unsigned) ? 1 : 0`;
+    case "ANDI": return `${rt} = ${rs} & 0x${instr.imm.toString(16)}`;
+    case "ORI": return `${rt} = ${rs} | 0x${instr.imm.toString(16)}`;
+    case "XORI": return `${rt} = ${rs} ^ 0x${instr.imm.toString(16)}`;
+    case "LUI": return `${rt} = 0x${instr.imm.toString(16)} << 16`;
+    case "J": return `PC = ${jumpTarget}`;
+    case "JAL": return `$ra = PC + 4; PC = ${jumpTarget}`;
+  }
+}
+
+// ──────────────────────────── Single-cycle control ────────────────────────────
+
+const NO_SIGNALS: ControlSignals = {
+  RegDst: 0, ALUSrc: 0, MemToReg: 0, RegWrite: 0, MemRead: 0, MemWrite: 0,
+  Branch: 0, BranchNE: 0, ExtOp: 0, Jump: 0, JumpReg: 0, ALUOp: [0, 0],
+};
+
+/**
+ * The main decoder; ALUOp 11 has the ALU control decode the opcode of the
+ * immediate ALU instructions. Shifts are R-type: the ALU control sees their
+ * funct and takes rt and shamt as operands.
+ */
+export function getControlSignals(op: MIPSOp): ControlSignals {
+  switch (op) {
+    case "ADD": case "ADDU": case "SUB": case "SUBU": case "AND": case "OR": case "XOR": case "NOR":
+    case "SLT": case "SLTU": case "SLL": case "SRL": case "SRA": case "NOP":
+      return { ...NO_SIGNALS, RegDst: 1, RegWrite: 1, ALUOp: [1, 0] };
+    case "JR":
+      return { ...NO_SIGNALS, JumpReg: 1, ALUOp: [1, 0] };
+    case "LW": case "LB": case "LBU":
+      return { ...NO_SIGNALS, ALUSrc: 1, MemToReg: 1, RegWrite: 1, MemRead: 1, ExtOp: 1 };
+    case "SW": case "SB":
+      return { ...NO_SIGNALS, ALUSrc: 1, MemWrite: 1, ExtOp: 1 };
+    case "BEQ":
+      return { ...NO_SIGNALS, Branch: 1, ExtOp: 1, ALUOp: [0, 1] };
+    case "BNE":
+      return { ...NO_SIGNALS, BranchNE: 1, ExtOp: 1, ALUOp: [0, 1] };
+    case "ADDI": case "ADDIU":
+      return { ...NO_SIGNALS, ALUSrc: 1, RegWrite: 1, ExtOp: 1 };
+    case "SLTI": case "SLTIU":
+      return { ...NO_SIGNALS, ALUSrc: 1, RegWrite: 1, ExtOp: 1, ALUOp: [1, 1] };
+    case "ANDI": case "ORI": case "XORI": case "LUI":
+      return { ...NO_SIGNALS, ALUSrc: 1, RegWrite: 1, ALUOp: [1, 1] };
+    case "J":
+      return { ...NO_SIGNALS, Jump: 1 };
+    case "JAL":
+      return { ...NO_SIGNALS, RegDst: 2, MemToReg: 2, RegWrite: 1, Jump: 1 };
+  }
+}
+
+export function getALUOperation(op: MIPSOp): ALUOperation {
+  switch (op) {
+    case "SUB": case "SUBU": case "BEQ": case "BNE": return "SUB";
+    case "AND": case "ANDI": return "AND";
+    case "OR": case "ORI": return "OR";
+    case "XOR": case "XORI": return "XOR";
+    case "NOR": return "NOR";
+    case "SLT": case "SLTI": return "SLT";
+    case "SLTU": case "SLTIU": return "SLTU";
+    case "SLL": case "NOP": return "SLL";
+    case "SRL": return "SRL";
+    case "SRA": return "SRA";
+    case "LUI": return "LUI";
+    default: return "ADD";
+  }
+}
+
+export function computeALU(aluOp: ALUOperation, a: number, b: number): { result: number; zero: boolean } {
+  let result = 0;
+  switch (aluOp) {
+    case "ADD": result = (a + b) | 0; break;
+    case "SUB": result = (a - b) | 0; break;
+    case "AND": result = a & b; break;
+    case "OR": result = a | b; break;
+    case "XOR": result = a ^ b; break;
+    case "NOR": result = ~(a | b); break;
+    case "SLT": result = (a | 0) < (b | 0) ? 1 : 0; break;
+    case "SLTU": result = a >>> 0 < b >>> 0 ? 1 : 0; break;
+    case "SLL": result = a << (b & 31); break;
+    case "SRL": result = (a >>> (b & 31)) | 0; break;
+    case "SRA": result = a >> (b & 31); break;
+    case "LUI": result = b << 16; break;
+  }
+  return { result, zero: result === 0 };
+}
+
+// ──────────────────────────── Execution ────────────────────────────
+
+/** A machine at TEXT_BASE with $gp and $sp at their reset values, plus any registers given by name. */
+export function createMachineState(registers: Record<string, number> = {}, memory: DataMemory = {}): MachineState {
+  const values = Array.from({ length: 32 }, () => 0);
+  values[28] = INITIAL_GP;
+  values[29] = INITIAL_SP;
+  for (const [name, value] of Object.entries(registers)) {
+    const index = MIPS_REGISTERS.indexOf(name);
+    if (index < 0) throw new RangeError(`Unknown register ${name}`);
+    if (index > 0) values[index] = value | 0;
+  }
+  return { pc: TEXT_BASE, registers: values, memory: { ...memory } };
+}
+
+function isShift(op: MIPSOp): boolean {
+  return op === "SLL" || op === "SRL" || op === "SRA" || op === "NOP";
+}
+
+function isByteAccess(op: MIPSOp): boolean {
+  return op === "LB" || op === "LBU" || op === "SB";
+}
+
+/** Performs one instruction; throws a RangeError for an unaligned word address. */
+export function executeInstruction(state: MachineState, instr: DatapathInstruction): ExecutionTrace {
+  const control = getControlSignals(instr.op);
+  const pcPlus4 = (state.pc + 4) >>> 0;
+  const read = (r: number) => (r === 0 ? 0 : state.registers[r] | 0);
+  const readData1 = read(instr.rs);
+  const readData2 = read(instr.rt);
+  const extended = control.ExtOp ? (instr.imm << 16) >> 16 : instr.imm;
+
+  const aluOperation = getALUOperation(instr.op);
+  const shift = isShift(instr.op);
+  const aluA = shift ? readData2 : readData1;
+  const aluB = shift ? instr.shamt : control.ALUSrc ? extended : readData2;
+  const { result: aluResult, zero } = computeALU(aluOperation, aluA, aluB);
+
+  const branchTarget = (pcPlus4 + extended * 4) >>> 0;
+  const branchTaken = (control.Branch === 1 && zero) || (control.BranchNE === 1 && !zero);
+  const jumpTarget = ((pcPlus4 & 0xf0000000) | (instr.target << 2)) >>> 0;
+  let nextPc = branchTaken ? branchTarget : pcPlus4;
+  if (control.Jump) nextPc = jumpTarget;
+  if (control.JumpReg) nextPc = readData1 >>> 0;
+
+  let memory = state.memory;
+  let memoryData: number | null = null;
+  if (control.MemRead || control.MemWrite) {
+    const address = aluResult >>> 0;
+    if (isByteAccess(instr.op)) {
+      const wordAddress = address - (address % 4);
+      const shiftBits = (address % 4) * 8;
+      const stored = state.memory[wordAddress] ?? 0;
+      if (control.MemRead) {
+        const byte = (stored >>> shiftBits) & 0xff;
+        memoryData = instr.op === "LB" ? (byte << 24) >> 24 : byte;
+      } else {
+        memoryData = readData2 & 0xff;
+        memory = { ...state.memory, [wordAddress]: (stored & ~(0xff << shiftBits)) | (memoryData << shiftBits) };
+      }
+    } else {
+      if (address % 4 !== 0) throw new RangeError(`Unaligned word address ${hex(address)} in ${instr.assembly}`);
+      if (control.MemRead) {
+        memoryData = state.memory[address] ?? 0;
+      } else {
+        memoryData = readData2;
+        memory = { ...state.memory, [address]: readData2 };
+      }
+    }
+  }
+
+  let registers = state.registers;
+  let writeRegister: number | null = null;
+  let writeData: number | null = null;
+  if (control.RegWrite) {
+    writeRegister = [instr.rt, instr.rd, 31][control.RegDst];
+    writeData = [aluResult, memoryData ?? 0, pcPlus4 | 0][control.MemToReg];
+    if (writeRegister !== 0) {
+      registers = [...state.registers];
+      registers[writeRegister] = writeData;
+    }
+  }
+
+  return {
+    instruction: instr,
+    control,
+    pcPlus4,
+    readData1,
+    readData2,
+    extended,
+    aluOperation,
+    aluA,
+    aluB,
+    aluResult,
+    zero,
+    branchTarget,
+    branchTaken,
+    jumpTarget,
+    memoryData,
+    writeRegister,
+    writeData,
+    nextPc,
+    next: { pc: nextPc, registers, memory },
+  };
+}
+
+/**
+ * Executes until the PC leaves the program, reaches a breakpoint or
+ * `maxSteps` instructions have run. A breakpoint on the starting PC does not
+ * stop the run, so a program paused there resumes where it stopped.
+ */
+export function runProgram(
+  program: DatapathInstruction[],
+  start: MachineState,
+  { breakpoints = new Set<number>(), maxSteps = 10000 }: { breakpoints?: Set<number>; maxSteps?: number } = {},
+): RunResult {
+  let state = start;
+  let steps = 0;
+  let multiCycleClocks = 0;
+  for (;;) {
+    const instr = instructionAt(program, state.pc);
+    if (!instr) return { state, steps, multiCycleClocks, halt: "end" };
+    if (steps > 0 && breakpoints.has(state.pc)) return { state, steps, multiCycleClocks, halt: "breakpoint" };
+    if (steps >= maxSteps) return { state, steps, multiCycleClocks, halt: "limit" };
+    try {
+      state = executeInstruction(state, instr).next;
+    } catch (err) {
+      if (!(err instanceof RangeError)) throw err;
+      return { state, steps, multiCycleClocks, halt: "error", error: err.message };
+    }
+    steps++;
+    multiCycleClocks += multiCycleStates(instr.op).length;
+  }
+}
+
+// ──────────────────────────── Multi-cycle control FSM ────────────────────────────
+
+export type MultiCycleState =
+  | "Fetch" | "Decode" | "MemAdr" | "MemRead" | "MemWriteback" | "MemWrite" | "Execute"
+  | "ALUWriteback" | "Branch" | "ImmExecute" | "ImmWriteback" | "Jump" | "JumpLink" | "JumpRegister";
+
+export interface MultiCycleControl {
+  PCWrite: number;
+  /** Memory address: 0 PC, 1 ALUOut. */
+  IorD: number;
+  MemWrite: number;
+  IRWrite: number;
+  /** Write register: 0 rt, 1 rd, 2 $ra. */
+  RegDst: number;
+  /** Write data: 0 ALUOut, 1 MDR, 2 PC. */
+  MemToReg: number;
+  RegWrite: number;
+  /** ALU input A: 0 PC, 1 register A. */
+  ALUSrcA: number;
+  /** ALU input B: 0 register B, 1 the constant 4, 2 immediate, 3 immediate × 4. */
+  ALUSrcB: number;
+  ALUOp: [number, number];
+  Branch: number;
+  /** Next PC: 0 ALU result, 1 ALUOut, 2 jump target, 3 register A. */
+  PCSrc: number;
+}
+
+export interface MultiCycleStateInfo {
+  /** The state number, S0 onward. */
+  id: number;
+  action: string;
+  control: MultiCycleControl;
+}
+
+function fsmState(id: number, action: string, signals: Partial<MultiCycleControl>): MultiCycleStateInfo {
+  return {
+    id,
+    action,
+    control: {
+      PCWrite: 0, IorD: 0, MemWrite: 0, IRWrite: 0, RegDst: 0, MemToReg: 0, RegWrite: 0,
+      ALUSrcA: 0, ALUSrcB: 0, ALUOp: [0, 0], Branch: 0, PCSrc: 0, ...signals,
+    },
+  };
+}
+
+/** A Moore machine: each state's outputs are fixed, and beq/bne pick Zero or its complement from the opcode. */
+export const MULTI_CYCLE_FSM: Record<MultiCycleState, MultiCycleStateInfo> = {
+  Fetch: fsmState(0, "IR ← Memory[PC]; PC ← PC + 4", { IRWrite: 1, PCWrite: 1, ALUSrcB: 1 }),
+  Decode: fsmState(1, "A ← rs; B ← rt; ALUOut ← PC + imm × 4", { ALUSrcB: 3 }),
+  MemAdr: fsmState(2, "ALUOut ← A + imm", { ALUSrcA: 1, ALUSrcB: 2 }),
+  MemRead: fsmState(3, "MDR ← Memory[ALUOut]", { IorD: 1 }),
+  MemWriteback: fsmState(4, "rt ← MDR", { MemToReg: 1, RegWrite: 1 }),
+  MemWrite: fsmState(5, "Memory[ALUOut] ← B", { IorD: 1, MemWrite: 1 }),
+  Execute: fsmState(6, "ALUOut ← A op B", { ALUSrcA: 1, ALUOp: [1, 0] }),
+  ALUWriteback: fsmState(7, "rd ← ALUOut", { RegDst: 1, RegWrite: 1 }),
+  Branch: fsmState(8, "if (A = B) PC ← ALUOut; bne when A ≠ B", { ALUSrcA: 1, ALUOp: [0, 1], Branch: 1, PCSrc: 1 }),
+  ImmExecute: fsmState(9, "ALUOut ← A op imm", { ALUSrcA: 1, ALUSrcB: 2, ALUOp: [1, 1] }),
+  ImmWriteback: fsmState(10, "rt ← ALUOut", { RegWrite: 1 }),
+  Jump: fsmState(11, "PC ← {PC[31:28], target, 00}", { PCWrite: 1, PCSrc: 2 }),
+  JumpLink: fsmState(12, "$ra ← PC; PC ← {PC[31:28], target, 00}", { PCWrite: 1, PCSrc: 2, RegDst: 2, MemToReg: 2, RegWrite: 1 }),
+  JumpRegister: fsmState(13, "PC ← A", { PCWrite: 1, PCSrc: 3 }),
+};
+
+/** The FSM's edges; terminal states return to Fetch. */
+export const MULTI_CYCLE_TRANSITIONS: { from: MultiCycleState; to: MultiCycleState; when: string }[] = [
+  { from: "Fetch", to: "Decode", when: "" },
+  { from: "Decode", to: "MemAdr", when: "loads, stores" },
+  { from: "Decode", to: "Execute", when: "R-type" },
+  { from: "Decode", to: "Branch", when: "beq, bne" },
+  { from: "Decode", to: "ImmExecute", when: "I-type ALU" },
+  { from: "Decode", to: "Jump", when: "j" },
+  { from: "Decode", to: "JumpLink", when: "jal" },
+  { from: "Decode", to: "JumpRegister", when: "jr" },
+  { from: "MemAdr", to: "MemRead", when: "lw, lb, lbu" },
+  { from: "MemAdr", to: "MemWrite", when: "sw, sb" },
+  { from: "MemRead", to: "MemWriteback", when: "" },
+  { from: "Execute", to: "ALUWriteback", when: "" },
+  { from: "ImmExecute", to: "ImmWriteback", when: "" },
+];
+
+/** The states one instruction passes through, one clock each. */
+export function multiCycleStates(op: MIPSOp): MultiCycleState[] {
+  switch (op) {
+    case "LW": case "LB": case "LBU": return ["Fetch", "Decode", "MemAdr", "MemRead", "MemWriteback"];
+    case "SW": case "SB": return ["Fetch", "Decode", "MemAdr", "MemWrite"];
+    case "BEQ": case "BNE": return ["Fetch", "Decode", "Branch"];
+    case "ADDI": case "ADDIU": case "SLTI": case "SLTIU": case "ANDI": case "ORI": case "XORI": case "LUI": return ["Fetch", "Decode", "ImmExecute", "ImmWriteback"];
+    case "J": return ["Fetch", "Decode", "Jump"];
+    case "JAL": return ["Fetch", "Decode", "JumpLink"];
+    case "JR": return ["Fetch", "Decode", "JumpRegister"];
+    default: return ["Fetch", "Decode", "Execute", "ALUWriteback"];
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  apertureViolations,
+  captureEdges,
+  clockSamples,
+  fromSamples,
+  levelAt,
+  seededRandom,
+  simulateFlipFlop,
+  simulateSynchronizer,
+  synchronizerReliability,
+  type Level,
+  type NextState,
+} from "./flip-flop-timing";
+
+const D: NextState = (inputs) => ({ q: inputs.D, invalid: false });
+const T: NextState = (inputs, q) => ({ q: inputs.T ? 1 - q : q, invalid: false });
+
+const TIMING = { setup: 2, hold: 1, clockToQ: 2 };
+const END = 40;
+/** Rising edges at 5, 15, 25 and 35. */
+const CLOCK = fromSamples(clockSamples(10, END));
+
+function step(at: number, end = END): Level[] {
+  return Array.from({ length: end }, (_, t) => (t >= at ? 1 : 0));
+}
+
+describe("waveforms", () => {
+  it("compresses samples and finds capture edges", () => {
+    const wave = fromSamples([0, 0, 1, 1, 0]);
+    expect(wave).toEqual([
+      { time: 0, value: 0 },
+      { time: 2, value: 1 },
+      { time: 4, value: 0 },
+    ]);
+    expect(levelAt(wave, 3)).toBe(1);
+    expect(captureEdges(CLOCK, "rising")).toEqual([5, 15, 25, 35]);
+    expect(captureEdges(CLOCK, "falling")).toEqual([10, 20, 30]);
+    // A high-transparent latch closes on the falling edge.
+    expect(captureEdges(CLOCK, "high")).toEqual([10, 20, 30]);
+  });
+});
+
+describe("apertureViolations", () => {
+  it("flags changes inside (edge − setup, edge + hold]", () => {
+    const at = (time: number) => apertureViolations({ D: fromSamples(step(time)) }, 15, TIMING);
+    expect(at(13)).toEqual([]);
+    expect(at(14)).toEqual([{ kind: "setup", edge: 15, input: "D", time: 14 }]);
+    expect(at(15)[0].kind).toBe("setup");
+    expect(at(16)[0].kind).toBe("hold");
+    expect(at(17)).toEqual([]);
+  });
+});
+
+describe("simulateFlipFlop", () => {
+  it("captures cleanly on the active edge after clock-to-Q", () => {
+    const run = simulateFlipFlop(CLOCK, { D: fromSamples(step(10)) }, D, { trigger: "rising", timing: TIMING, end: END });
+    expect(run.violations).toEqual([]);
+    expect(run.q).toEqual([
+      { time: 0, value: 0 },
+      { time: 17, value: 1 },
+    ]);
+  });
+
+  it("goes unknown after a violation until the next clean capture", () => {
+    const run = simulateFlipFlop(CLOCK, { D: fromSamples(step(14)) }, D, { trigger: "rising", timing: TIMING, end: END });
+    expect(run.violations.map((v) => v.kind)).toEqual(["setup"]);
+    expect(run.q.map((c) => [c.time, c.value])).toEqual([
+      [0, 0],
+      [17, "x"],
+      [27, 1],
+    ]);
+  });
+
+  it("goes metastable and settles to the old or new value", () => {
+    const values = new Set<Level>();
+    for (let seed = 1; seed <= 20; seed++) {
+      const run = simulateFlipFlop(CLOCK, { D: fromSamples(step(15)) }, D, {
+        trigger: "rising",
+        timing: TIMING,
+        end: END,
+        metastability: { tau: 2, random: seededRandom(seed) },
+      });
+      const capture = run.captures[1];
+      expect(levelAt(run.q, 17)).toBe("meta");
+      expect(levelAt(run.q, 17 + (capture.resolution ?? 0))).toBe(capture.value);
+      values.add(capture.value);
+    }
+    expect([...values].sort()).toEqual([0, 1]);
+  });
+
+  it("lets a latch pass data through while open", () => {
+    const run = simulateFlipFlop(CLOCK, { D: fromSamples(step(7)) }, D, { trigger: "high", timing: TIMING, end: END });
+    // The clock is high over [5, 10), so the change at 7 appears after clock-to-Q
+    expect(run.q).toEqual([
+      { time: 0, value: 0 },
+      { time: 9, value: 1 },
+    ]);
+  });
+
+  it("races around in a transparent T latch", () => {
+    const run = simulateFlipFlop(CLOCK, { D: fromSamples(step(0)) }, (i, q) => T({ T: i.D }, q), {
+      trigger: "high",
+      timing: TIMING,
+      end: 12,
+    });
+    expect(run.q.map((c) => c.time)).toEqual([0, 7, 9, 11]);
+  });
+
+  it("keeps a toggle flip-flop unknown once its state is unknown", () => {
+    const run = simulateFlipFlop(CLOCK, { T: fromSamples(step(4)) }, T, { trigger: "rising", timing: TIMING, end: END });
+    expect(run.violations).toHaveLength(1);
+    expect(levelAt(run.q, END - 1)).toBe("x");
+  });
+});
+
+describe("synchronizer", () => {
+  it("contains a short metastability in the first stage", () => {
+    const clock = fromSamples(clockSamples(12, 60));
+    const input = fromSamples(step(18, 60));
+    const { first, second } = simulateSynchronizer(clock, input, {
+      timing: TIMING,
+      end: 60,
+      metastability: { tau: 1, random: () => 0.5 },
+    });
+    expect(first.violations).toHaveLength(1);
+    expect(first.q.some((c) => c.value === "meta")).toBe(true);
+    expect(second.violations).toEqual([]);
+    expect(second.q.every((c) => c.value === 0 || c.value === 1)).toBe(true);
+  });
+
+  it("estimates failure rates from the slack", () => {
+    const r = synchronizerReliability(TIMING, 12, 2, 0.1);
+    expect(r.slack).toBe(8);
+    expect(r.violationChance).toBeCloseTo(0.25);
+    expect(r.failSingle).toBeCloseTo(Math.exp(-4));
+    expect(r.failDouble).toBeCloseTo(Math.exp(-8));
+    expect(r.mtbfDouble / r.mtbfSingle).toBeCloseTo(Math.exp(4));
+  });
+
+  it("replays the same random sequence from a seed", () => {
+    const a = seededRandom(7);
+    const b = seededRandom(7);
+    const xs = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(xs);
+    expect(xs.every((x) => x >= 0 && x < 1)).toBe(true);
+  });
+});
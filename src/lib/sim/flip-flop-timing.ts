@@ -0,0 +1,281 @@
+/**
+ * Flip-flops and latches against drawn waveforms on an integer time grid.
+ * Each active clock edge (or each closing edge of a transparent latch) has an
+ * aperture: inputs must not change in the `setup` units up to and including
+ * the edge, nor in the `hold` units after it. A violation makes the output
+ * unknown, or with the metastability model, hangs it mid-rail for an
+ * exponentially distributed time before it falls to the old or the new value.
+ */
+
+export type ClockTrigger = "rising" | "falling" | "high" | "low";
+
+export const CLOCK_TRIGGERS: ClockTrigger[] = ["rising", "falling", "high", "low"];
+
+/** A logic level, unknown after a violation, or metastable between the rails. */
+export type Level = 0 | 1 | "x" | "meta";
+
+export interface LevelChange {
+  time: number;
+  value: Level;
+}
+
+/** Steps from the value at time 0; changes are in time order. */
+export type Waveform = LevelChange[];
+
+export interface FlipFlopTiming {
+  setup: number;
+  hold: number;
+  /** Delay from the capturing edge (or an input change, for an open latch) to Q. */
+  clockToQ: number;
+}
+
+export interface Metastability {
+  /** Resolution time constant: the chance of still being metastable after t is e^(−t/τ). */
+  tau: number;
+  random: () => number;
+}
+
+export type NextState = (inputs: Record<string, number>, q: number) => { q: number; invalid: boolean };
+
+export interface TimingViolation {
+  kind: "setup" | "hold";
+  /** The capturing edge. */
+  edge: number;
+  input: string;
+  /** When the offending change happened. */
+  time: number;
+}
+
+export interface Capture {
+  edge: number;
+  violations: TimingViolation[];
+  value: Level;
+  /** Units spent metastable before settling, when the model is on and the aperture was violated. */
+  resolution?: number;
+}
+
+export interface FlipFlopRun {
+  q: Waveform;
+  captures: Capture[];
+  violations: TimingViolation[];
+}
+
+export function isEdgeTriggered(trigger: ClockTrigger): boolean {
+  return trigger === "rising" || trigger === "falling";
+}
+
+// ──────────────────────────── Waveforms ────────────────────────────
+
+/** One sample per time unit to the changes that make it up. */
+export function fromSamples(samples: Level[]): Waveform {
+  return samples.flatMap((value, time) => (time === 0 || value !== samples[time - 1] ? [{ time, value }] : []));
+}
+
+export function levelAt(wave: Waveform, time: number): Level {
+  let value: Level = wave[0]?.value ?? 0;
+  for (const change of wave) {
+    if (change.time > time) break;
+    value = change.value;
+  }
+  return value;
+}
+
+/** A square wave starting low, rising at half a period. */
+export function clockSamples(period: number, end: number): Level[] {
+  const half = Math.max(1, Math.floor(period / 2));
+  return Array.from({ length: end }, (_, t) => (Math.floor(t / half) % 2 === 1 ? 1 : 0));
+}
+
+/** Times at which the flip-flop captures: its active edge, or the edge that closes the latch. */
+export function captureEdges(clock: Waveform, trigger: ClockTrigger): number[] {
+  const closingTo: Level = trigger === "rising" || trigger === "low" ? 1 : 0;
+  return clock.filter((c, i) => i > 0 && c.value === closingTo && clock[i - 1].value !== closingTo).map((c) => c.time);
+}
+
+function isOpen(clock: Waveform, trigger: ClockTrigger, time: number): boolean {
+  return levelAt(clock, time) === (trigger === "high" ? 1 : 0);
+}
+
+// ──────────────────────────── Checks ────────────────────────────
+
+/** Changes inside (edge − setup, edge + hold], plus inputs still unsettled at the edge. */
+export function apertureViolations(
+  inputs: Record<string, Waveform>,
+  edge: number,
+  timing: FlipFlopTiming
+): TimingViolation[] {
+  const violations: TimingViolation[] = [];
+  for (const [input, wave] of Object.entries(inputs)) {
+    const value = levelAt(wave, edge);
+    if (value === "x" || value === "meta") {
+      violations.push({ kind: "setup", edge, input, time: edge });
+      continue;
+    }
+    for (const change of wave.slice(1)) {
+      if (change.time > edge - timing.setup && change.time <= edge) {
+        violations.push({ kind: "setup", edge, input, time: change.time });
+      } else if (change.time > edge && change.time <= edge + timing.hold) {
+        violations.push({ kind: "hold", edge, input, time: change.time });
+      }
+    }
+  }
+  return violations;
+}
+
+// ──────────────────────────── Simulation ────────────────────────────
+
+function sample(inputs: Record<string, Waveform>, time: number): Record<string, Level> {
+  return Object.fromEntries(Object.entries(inputs).map(([name, wave]) => [name, levelAt(wave, time)]));
+}
+
+/** Next state with unknowns: if every way of resolving them agrees, the answer is known. */
+function nextLevel(next: NextState, inputs: Record<string, Level>, q: Level): Level {
+  const names = Object.keys(inputs);
+  const unknown = [...names.filter((n) => inputs[n] !== 0 && inputs[n] !== 1), ...(q === 0 || q === 1 ? [] : ["@q"])];
+  const results = new Set<number>();
+  for (let combo = 0; combo < 2 ** unknown.length; combo++) {
+    const pick = (name: string) => (combo >> unknown.indexOf(name)) & 1;
+    const concrete = Object.fromEntries(names.map((n) => [n, unknown.includes(n) ? pick(n) : (inputs[n] as number)]));
+    const result = next(concrete, unknown.includes("@q") ? pick("@q") : (q as number));
+    if (result.invalid) return "x";
+    results.add(result.q);
+  }
+  return results.size === 1 ? ([...results][0] as Level) : "x";
+}
+
+/** Drives `q` from `from` on with a capture, going metastable first when the aperture was violated. */
+function settle(
+  q: Level[],
+  from: number,
+  candidates: [Level, Level],
+  violated: boolean,
+  metastability: Metastability | undefined
+): { value: Level; resolution?: number } {
+  let value: Level = candidates[1];
+  let resolution: number | undefined;
+  let start = from;
+  if (violated && metastability) {
+    resolution = Math.max(1, Math.ceil(-metastability.tau * Math.log(1 - metastability.random())));
+    // Falls to the value before or after the input change, whichever way it tips
+    const pick = metastability.random() < 0.5 ? candidates[0] : candidates[1];
+    value = pick === 0 || pick === 1 ? pick : metastability.random() < 0.5 ? 0 : 1;
+    for (let t = from; t < Math.min(q.length, from + resolution); t++) q[t] = "meta";
+    start = from + resolution;
+  } else if (violated) {
+    value = "x";
+  }
+  for (let t = start; t < q.length; t++) q[t] = value;
+  return { value, resolution };
+}
+
+/**
+ * Q over `[0, end)` for a flip-flop whose next state is `next`. Edge-triggered
+ * flip-flops sample on the active edge; latches follow their inputs while the
+ * clock is at the active level (and can race around if the next state depends
+ * on Q) and latch on the closing edge.
+ */
+export function simulateFlipFlop(
+  clock: Waveform,
+  inputs: Record<string, Waveform>,
+  next: NextState,
+  options: { trigger: ClockTrigger; timing: FlipFlopTiming; end: number; initial?: Level; metastability?: Metastability }
+): FlipFlopRun {
+  const { trigger, timing, end, metastability } = options;
+  const d = Math.max(1, timing.clockToQ);
+  const q = new Array<Level>(end).fill(options.initial ?? 0);
+  const edges = new Set(captureEdges(clock, trigger));
+  const captures: Capture[] = [];
+  // A latch that latched badly keeps what settle() wrote until it opens again
+  let pinned = false;
+
+  for (let t = 0; t + d < end; t++) {
+    const open = !isEdgeTriggered(trigger) && isOpen(clock, trigger, t);
+    if (open) {
+      pinned = false;
+      q[t + d] = nextLevel(next, sample(inputs, t), q[t]);
+    } else if (!pinned && !isEdgeTriggered(trigger)) {
+      q[t + d] = q[t + d - 1];
+    }
+    if (!edges.has(t)) continue;
+
+    const violations = apertureViolations(inputs, t, timing);
+    if (!isEdgeTriggered(trigger) && violations.length === 0) {
+      captures.push({ edge: t, violations, value: q[t + d] });
+      continue;
+    }
+    const before = nextLevel(next, sample(inputs, t - timing.setup), q[t]);
+    const after = nextLevel(next, sample(inputs, t), q[t]);
+    captures.push({ edge: t, violations, ...settle(q, t + d, [before, after], violations.length > 0, metastability) });
+    pinned = violations.length > 0;
+  }
+
+  return { q: fromSamples(q), captures, violations: captures.flatMap((c) => c.violations) };
+}
+
+// ──────────────────────────── Synchronizer ────────────────────────────
+
+const D_NEXT: NextState = (inputs) => ({ q: inputs.D ?? 0, invalid: false });
+
+/** An asynchronous input through two D flip-flops on the same clock. */
+export function simulateSynchronizer(
+  clock: Waveform,
+  input: Waveform,
+  options: { timing: FlipFlopTiming; end: number; metastability?: Metastability }
+): { first: FlipFlopRun; second: FlipFlopRun } {
+  const common = { ...options, trigger: "rising" as const };
+  const first = simulateFlipFlop(clock, { D: input }, D_NEXT, common);
+  const second = simulateFlipFlop(clock, { D: first.q }, D_NEXT, common);
+  return { first, second };
+}
+
+export interface SynchronizerReliability {
+  /** Time the first flop has to resolve before the next stage samples it. */
+  slack: number;
+  /** Chance an asynchronous change lands in the aperture. */
+  violationChance: number;
+  /** Chance a violation still reaches logic downstream. */
+  failSingle: number;
+  failDouble: number;
+  /** Mean time between failures in clock periods. */
+  mtbfSingle: number;
+  mtbfDouble: number;
+}
+
+/**
+ * The standard estimate: with changes arriving `changesPerPeriod` per clock
+ * period, a fraction (setup + hold) / period violate, and each stays
+ * metastable past the available slack with probability e^(−slack/τ). A second
+ * flop gives the first a whole period and must fail in turn.
+ */
+export function synchronizerReliability(
+  timing: FlipFlopTiming,
+  period: number,
+  tau: number,
+  changesPerPeriod: number
+): SynchronizerReliability {
+  const slack = Math.max(0, period - timing.clockToQ - timing.setup);
+  const violationChance = Math.min(1, (timing.setup + timing.hold) / period);
+  const failSingle = Math.exp(-slack / tau);
+  const failDouble = failSingle * failSingle;
+  const rate = changesPerPeriod * violationChance;
+  return {
+    slack,
+    violationChance,
+    failSingle,
+    failDouble,
+    mtbfSingle: 1 / (rate * failSingle),
+    mtbfDouble: 1 / (rate * failDouble),
+  };
+}
+
+/** Deterministic uniform numbers in [0, 1) (mulberry32), so a run can be replayed. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
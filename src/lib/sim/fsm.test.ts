@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  conditionLabel,
+  encodeStates,
+  fsmIssues,
+  fsmToVerilog,
+  inputVectors,
+  minimizeFsm,
+  parseInputStream,
+  runFsm,
+  type FsmMachine,
+} from "./fsm";
+
+/** Mealy detector for overlapping 101. */
+const MEALY_101: FsmMachine = {
+  name: "detect 101",
+  kind: "mealy",
+  inputs: ["x"],
+  outputs: ["z"],
+  initial: "A",
+  states: [
+    { id: "A", name: "A", output: "" },
+    { id: "B", name: "B", output: "" },
+    { id: "C", name: "C", output: "" },
+  ],
+  transitions: [
+    { from: "A", to: "B", condition: "1", output: "0" },
+    { from: "B", to: "C", condition: "0", output: "0" },
+    { from: "C", to: "B", condition: "1", output: "1" },
+    { from: "C", to: "A", condition: "0", output: "0" },
+  ],
+};
+
+/** Moore detector for 101 where S4 duplicates S1 and S5 is unreachable. */
+const MOORE_101: FsmMachine = {
+  name: "detect 101 moore",
+  kind: "moore",
+  inputs: ["x"],
+  outputs: ["z"],
+  initial: "S0",
+  states: ["S0", "S1", "S2", "S3", "S4", "S5"].map((id) => ({ id, name: id, output: id === "S3" ? "1" : "0" })),
+  transitions: [
+    { from: "S0", to: "S1", condition: "1", output: "" },
+    { from: "S1", to: "S2", condition: "0", output: "" },
+    { from: "S2", to: "S3", condition: "1", output: "" },
+    { from: "S2", to: "S0", condition: "0", output: "" },
+    { from: "S3", to: "S4", condition: "1", output: "" },
+    { from: "S3", to: "S2", condition: "0", output: "" },
+    { from: "S4", to: "S2", condition: "0", output: "" },
+    { from: "S5", to: "S0", condition: "-", output: "" },
+  ],
+};
+
+const STREAM = "1 0 1 0 1 1 0 1 0 0 1".split(" ");
+
+describe("runFsm", () => {
+  it("takes the first matching transition and holds otherwise", () => {
+    const trace = runFsm(MEALY_101, ["0", "1", "1", "0", "1"]);
+    expect(trace.map((t) => t.state)).toEqual(["A", "A", "B", "B", "C"]);
+    expect(trace.map((t) => t.transition)).toEqual([null, 0, null, 1, 2]);
+    expect(trace.map((t) => t.output).join("")).toBe("00001");
+  });
+
+  it("reads Moore outputs from the state", () => {
+    const outputs = runFsm(MOORE_101, STREAM).map((t) => t.output).join("");
+    // Moore outputs lag the Mealy detector by one cycle.
+    const mealy = runFsm(MEALY_101, STREAM).map((t) => t.output).join("");
+    expect(outputs.slice(1)).toBe(mealy.slice(0, -1));
+  });
+});
+
+describe("fsmIssues", () => {
+  it("accepts a well-formed machine", () => {
+    expect(fsmIssues(MEALY_101)).toEqual([]);
+  });
+
+  it("rejects Verilog keywords as signal names", () => {
+    const messages = fsmIssues({ ...MEALY_101, inputs: ["end"], outputs: ["reg"] }).map((i) => i.message);
+    expect(messages).toEqual(["end is a Verilog keyword", "reg is a Verilog keyword"]);
+  });
+
+  it("reports overlaps, bad conditions and unreachable states", () => {
+    const messages = fsmIssues({
+      ...MOORE_101,
+      transitions: [
+        ...MOORE_101.transitions,
+        { from: "S0", to: "S2", condition: "-", output: "" },
+        { from: "S1", to: "S0", condition: "10", output: "" },
+      ],
+    }).map((i) => i.message);
+    expect(messages).toEqual([
+      "S0 → S2 overlaps an earlier transition, which takes priority",
+      "S1 → S0 needs a condition of 1 character from 0, 1 and -",
+      "S5 is unreachable",
+    ]);
+  });
+});
+
+describe("minimizeFsm", () => {
+  it("merges equivalent states and drops unreachable ones", () => {
+    const { machine, classes, unreachable } = minimizeFsm(MOORE_101);
+    expect(classes).toEqual([["S0"], ["S1", "S4"], ["S2"], ["S3"]]);
+    expect(unreachable).toEqual(["S5"]);
+    expect(machine.states.map((s) => s.name)).toEqual(["S0", "S1/S4", "S2", "S3"]);
+    expect(runFsm(machine, STREAM).map((t) => t.output)).toEqual(runFsm(MOORE_101, STREAM).map((t) => t.output));
+  });
+
+  it("treats a target reached only through a shadowed transition as unreachable", () => {
+    const shadowed: FsmMachine = {
+      name: "shadowed",
+      kind: "moore",
+      inputs: ["a", "b"],
+      outputs: ["z"],
+      initial: "A",
+      states: ["A", "B", "C"].map((id) => ({ id, name: id, output: id === "A" ? "0" : "1" })),
+      transitions: [
+        { from: "A", to: "B", condition: "-1", output: "" },
+        { from: "A", to: "C", condition: "11", output: "" },
+        { from: "B", to: "A", condition: "0-", output: "" },
+      ],
+    };
+    expect(fsmIssues(shadowed).map((i) => i.message)).toEqual([
+      "A → C overlaps an earlier transition, which takes priority",
+      "C is unreachable",
+    ]);
+    const { classes, unreachable } = minimizeFsm(shadowed);
+    expect(unreachable).toEqual(["C"]);
+    expect(classes).toEqual([["A"], ["B"]]);
+  });
+
+  it("leaves a minimal machine alone", () => {
+    expect(minimizeFsm(MEALY_101).classes).toEqual([["A"], ["B"], ["C"]]);
+  });
+
+  it("keeps equivalence over every input vector", () => {
+    const { machine } = minimizeFsm(MOORE_101);
+    const vectors = Array.from({ length: 64 }, (_, i) => inputVectors(1)[(i * i + i) % 3 === 0 ? 0 : 1]);
+    expect(runFsm(machine, vectors).map((t) => t.output)).toEqual(runFsm(MOORE_101, vectors).map((t) => t.output));
+  });
+});
+
+describe("encodeStates", () => {
+  it("assigns binary, one-hot and Gray codes", () => {
+    expect(Object.values(encodeStates(MEALY_101, "binary"))).toEqual(["00", "01", "10"]);
+    expect(Object.values(encodeStates(MEALY_101, "one-hot"))).toEqual(["001", "010", "100"]);
+    expect(Object.values(encodeStates(MOORE_101, "gray"))).toEqual(["000", "001", "011", "010", "110", "111"]);
+  });
+});
+
+describe("fsmToVerilog", () => {
+  it("emits a two-process module", () => {
+    const verilog = fsmToVerilog(MEALY_101, "one-hot");
+    expect(verilog).toContain("module detect_101 (");
+    expect(verilog).toContain("localparam [2:0] S_A = 3'b001;");
+    expect(verilog).toContain("if (rst) state <= S_A;");
+    expect(verilog).toContain("        else if (!x) begin\n          next = S_A;\n        end");
+    expect(verilog).toContain("        if (x) begin\n          next = S_B;\n          z = 1'b1;\n        end");
+    expect(verilog.trimEnd().endsWith("endmodule")).toBe(true);
+  });
+
+  it("ends the chain at an unconditional transition", () => {
+    const verilog = fsmToVerilog(MOORE_101, "binary");
+    expect(verilog).toContain("      S_S5: begin\n        next = S_S0;\n      end");
+    expect(verilog).toContain("      S_S3: begin\n        z = 1'b1;\n");
+  });
+
+  it("keeps state parameters distinct when names clean up alike", () => {
+    const machine: FsmMachine = {
+      ...MEALY_101,
+      states: [
+        { id: "A", name: "idle", output: "" },
+        { id: "B", name: "IDLE", output: "" },
+        { id: "C", name: "go-1", output: "" },
+        { id: "D", name: "go_1", output: "" },
+      ],
+      transitions: [{ from: "A", to: "D", condition: "1", output: "0" }],
+    };
+    const verilog = fsmToVerilog(machine, "binary");
+    const params = [...verilog.matchAll(/localparam \[1:0\] (\w+) =/g)].map((m) => m[1]);
+    expect(params).toEqual(["S_IDLE", "S_IDLE_2", "S_GO_1", "S_GO_1_2"]);
+    expect(verilog).toContain("next = S_GO_1_2;");
+  });
+});
+
+describe("helpers", () => {
+  it("labels conditions and parses input streams", () => {
+    const two = { ...MEALY_101, inputs: ["go", "rst_n"] };
+    expect(conditionLabel(two, "1-")).toBe("go");
+    expect(conditionLabel(two, "10")).toBe("go & !rst_n");
+    expect(conditionLabel(two, "--")).toBe("any");
+    expect(parseInputStream(two, "10, 01 11")).toEqual(["10", "01", "11"]);
+    expect(parseInputStream(two, "10 2")).toBeNull();
+    expect(parseInputStream({ ...MEALY_101, inputs: [] }, "")).toEqual([""]);
+  });
+});
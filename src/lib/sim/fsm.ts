@@ -0,0 +1,413 @@
+/**
+ * Finite state machines over named one-bit inputs and outputs. Transitions
+ * fire on input predicates written as cubes (`0`, `1` or `-` per input); the
+ * first matching transition out of a state wins and a state with no match
+ * holds. `minimizeFsm` merges equivalent states with Hopcroft's partition
+ * refinement and `fsmToVerilog` emits a synthesizable two-process module.
+ */
+
+export type FsmKind = "moore" | "mealy";
+
+export type FsmEncoding = "binary" | "one-hot" | "gray";
+
+export const FSM_ENCODINGS: FsmEncoding[] = ["binary", "one-hot", "gray"];
+
+/** Minimization enumerates every input vector, so inputs are capped. */
+export const MAX_FSM_INPUTS = 4;
+
+export interface FsmState {
+  id: string;
+  name: string;
+  /** Moore output, one bit per output. Ignored by Mealy machines. */
+  output: string;
+}
+
+export interface FsmTransition {
+  from: string;
+  to: string;
+  /** One of `0`, `1` or `-` per input, in input order. */
+  condition: string;
+  /** Mealy output, one bit per output. Ignored by Moore machines. */
+  output: string;
+}
+
+export interface FsmMachine {
+  name: string;
+  kind: FsmKind;
+  inputs: string[];
+  outputs: string[];
+  states: FsmState[];
+  transitions: FsmTransition[];
+  initial: string;
+}
+
+export interface FsmIssue {
+  stateId?: string;
+  transition?: number;
+  message: string;
+}
+
+// ──────────────────────────── Predicates ────────────────────────────
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const RESERVED = ["clk", "rst", "state", "next"];
+/** Verilog-2005 keywords, which cannot name a port. */
+const VERILOG_KEYWORDS = new Set(
+  (
+    "always and assign automatic begin buf bufif0 bufif1 case casex casez cell cmos config deassign default " +
+    "defparam design disable edge else end endcase endconfig endfunction endgenerate endmodule endprimitive " +
+    "endspecify endtable endtask event for force forever fork function generate genvar highz0 highz1 if " +
+    "ifnone incdir include initial inout input instance integer join large liblist library localparam " +
+    "macromodule medium module nand negedge nmos nor noshowcancelled not notif0 notif1 or output parameter " +
+    "pmos posedge primitive pull0 pull1 pulldown pullup pulsestyle_ondetect pulsestyle_onevent rcmos real " +
+    "realtime reg release repeat rnmos rpmos rtran rtranif0 rtranif1 scalared showcancelled signed small " +
+    "specify specparam strong0 strong1 supply0 supply1 table task time tran tranif0 tranif1 tri tri0 tri1 " +
+    "triand trior trireg unsigned use uwire vectored wait wand weak0 weak1 while wire wor xnor xor"
+  ).split(" ")
+);
+
+function isBits(value: string, width: number, dontCare = false): boolean {
+  return value.length === width && [...value].every((c) => c === "0" || c === "1" || (dontCare && c === "-"));
+}
+
+export function conditionMatches(condition: string, input: string): boolean {
+  return condition.length === input.length && [...condition].every((c, i) => c === "-" || c === input[i]);
+}
+
+/** Two cubes overlap unless some input is 0 in one and 1 in the other. */
+function conditionsOverlap(a: string, b: string): boolean {
+  return [...a].every((c, i) => c === "-" || b[i] === "-" || c === b[i]);
+}
+
+/** Every input vector, `0…0` first. */
+export function inputVectors(width: number): string[] {
+  return Array.from({ length: 2 ** width }, (_, v) => v.toString(2).padStart(width, "0")).map((s) =>
+    width === 0 ? "" : s
+  );
+}
+
+/** `timer & !reset` style label; a condition with no literals is `any`. */
+export function conditionLabel(machine: FsmMachine, condition: string): string {
+  const literals = [...condition].flatMap((c, i) =>
+    c === "1" ? [machine.inputs[i]] : c === "0" ? [`!${machine.inputs[i]}`] : []
+  );
+  return literals.length ? literals.join(" & ") : "any";
+}
+
+/** Names of the outputs that are high, or a dash. */
+export function outputLabel(machine: FsmMachine, output: string): string {
+  const high = machine.outputs.filter((_, i) => output[i] === "1");
+  return high.length ? high.join(", ") : "—";
+}
+
+// ──────────────────────────── Checks ────────────────────────────
+
+/** Problems that make simulation or export misleading. Holding on unmatched inputs is not one. */
+export function fsmIssues(machine: FsmMachine): FsmIssue[] {
+  const issues: FsmIssue[] = [];
+  const ids = new Set(machine.states.map((s) => s.id));
+  const k = machine.inputs.length;
+  const m = machine.outputs.length;
+
+  if (machine.states.length === 0) issues.push({ message: "The machine has no states" });
+  else if (!ids.has(machine.initial)) issues.push({ message: "The initial state does not exist" });
+  if (k > MAX_FSM_INPUTS) issues.push({ message: `At most ${MAX_FSM_INPUTS} inputs are supported` });
+
+  const signals = [...machine.inputs, ...machine.outputs];
+  signals.forEach((name, i) => {
+    if (!IDENTIFIER.test(name)) issues.push({ message: `${name || "(empty)"} is not a valid signal name` });
+    else if (RESERVED.includes(name)) issues.push({ message: `${name} is reserved by the exported module` });
+    else if (VERILOG_KEYWORDS.has(name)) issues.push({ message: `${name} is a Verilog keyword` });
+    else if (signals.indexOf(name) !== i) issues.push({ message: `Duplicate signal ${name}` });
+  });
+
+  const names = new Set<string>();
+  for (const state of machine.states) {
+    if (!state.name.trim()) issues.push({ stateId: state.id, message: "Unnamed state" });
+    else if (names.has(state.name)) issues.push({ stateId: state.id, message: `Duplicate state ${state.name}` });
+    names.add(state.name);
+    if (machine.kind === "moore" && !isBits(state.output, m)) {
+      issues.push({ stateId: state.id, message: `${state.name} needs ${m} output bit${m === 1 ? "" : "s"}` });
+    }
+  }
+
+  machine.transitions.forEach((t, i) => {
+    const from = machine.states.find((s) => s.id === t.from);
+    const label = `${from?.name ?? "?"} → ${machine.states.find((s) => s.id === t.to)?.name ?? "?"}`;
+    if (!from || !ids.has(t.to)) issues.push({ transition: i, message: `${label} connects a missing state` });
+    if (!isBits(t.condition, k, true)) {
+      const characters = `${k} character${k === 1 ? "" : "s"}`;
+      issues.push({ transition: i, message: `${label} needs a condition of ${characters} from 0, 1 and -` });
+    }
+    if (machine.kind === "mealy" && !isBits(t.output, m)) {
+      issues.push({ transition: i, message: `${label} needs ${m} output bit${m === 1 ? "" : "s"}` });
+    }
+    const earlier = machine.transitions.findIndex(
+      (u, j) => j < i && u.from === t.from && conditionsOverlap(u.condition, t.condition)
+    );
+    if (earlier >= 0) {
+      issues.push({ transition: i, message: `${label} overlaps an earlier transition, which takes priority` });
+    }
+  });
+
+  // Reachability enumerates every input vector, so it waits for the input count to be valid
+  const reachable = k <= MAX_FSM_INPUTS ? reachableStates(machine) : null;
+  for (const state of machine.states) {
+    if (reachable && ids.has(machine.initial) && !reachable.has(state.id)) {
+      issues.push({ stateId: state.id, message: `${state.name} is unreachable` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * States the simulator can enter, found by stepping every input vector. A
+ * transition shadowed by an earlier match never fires, so its target only
+ * counts when something else leads there.
+ */
+function reachableStates(machine: FsmMachine): Set<string> {
+  const alphabet = inputVectors(machine.inputs.length);
+  const seen = new Set<string>();
+  const queue = [machine.initial];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const input of alphabet) queue.push(stepFsm(machine, id, input).next);
+  }
+  return seen;
+}
+
+// ──────────────────────────── Simulation ────────────────────────────
+
+export interface FsmStep {
+  /** Index of the transition taken, or null when the state holds. */
+  transition: number | null;
+  next: string;
+  /** Output during this cycle: the state's for Moore, the transition's for Mealy. */
+  output: string;
+}
+
+export function stepFsm(machine: FsmMachine, state: string, input: string): FsmStep {
+  const index = machine.transitions.findIndex((t) => t.from === state && conditionMatches(t.condition, input));
+  const zeros = "0".repeat(machine.outputs.length);
+  if (machine.kind === "moore") {
+    const output = machine.states.find((s) => s.id === state)?.output ?? zeros;
+    return { transition: index < 0 ? null : index, next: index < 0 ? state : machine.transitions[index].to, output };
+  }
+  if (index < 0) return { transition: null, next: state, output: zeros };
+  return { transition: index, next: machine.transitions[index].to, output: machine.transitions[index].output };
+}
+
+export interface FsmTraceEntry extends FsmStep {
+  cycle: number;
+  state: string;
+  input: string;
+}
+
+/** One entry per input vector, starting from the initial state. */
+export function runFsm(machine: FsmMachine, stream: string[]): FsmTraceEntry[] {
+  let state = machine.initial;
+  return stream.map((input, cycle) => {
+    const step = stepFsm(machine, state, input);
+    const entry = { cycle, state, input, ...step };
+    state = step.next;
+    return entry;
+  });
+}
+
+/**
+ * Input vectors separated by spaces or commas. A machine without inputs
+ * steps on the clock alone, so any text gives a single empty vector.
+ */
+export function parseInputStream(machine: FsmMachine, text: string): string[] | null {
+  const k = machine.inputs.length;
+  if (k === 0) return [""];
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  if (tokens.length === 0 || !tokens.every((t) => isBits(t, k))) return null;
+  return tokens;
+}
+
+// ──────────────────────────── Minimization ────────────────────────────
+
+export interface FsmMinimization {
+  machine: FsmMachine;
+  /** Groups of equivalent reachable states, each headed by the state kept. */
+  classes: string[][];
+  unreachable: string[];
+}
+
+/**
+ * Hopcroft's algorithm over the full input alphabet. Unreachable states are
+ * dropped first; the initial partition groups states by what they output
+ * (per state for Moore, per input vector for Mealy) and is refined until
+ * every block moves to one block on every input.
+ */
+export function minimizeFsm(machine: FsmMachine): FsmMinimization {
+  const reachable = reachableStates(machine);
+  const states = machine.states.filter((s) => reachable.has(s.id)).map((s) => s.id);
+  const alphabet = inputVectors(machine.inputs.length);
+  const delta = new Map(states.map((s) => [s, alphabet.map((input) => stepFsm(machine, s, input))]));
+  const signature = (s: string) =>
+    machine.kind === "moore" ? delta.get(s)![0].output : delta.get(s)!.map((step) => step.output).join("|");
+
+  const initial = new Map<string, string[]>();
+  for (const s of states) initial.set(signature(s), [...(initial.get(signature(s)) ?? []), s]);
+  const blocks = [...initial.values()].map((b) => new Set(b));
+  const blockOf = new Map<string, number>();
+  blocks.forEach((b, i) => b.forEach((s) => blockOf.set(s, i)));
+  const work = new Set(blocks.map((_, i) => i));
+
+  while (work.size) {
+    const splitter = work.values().next().value!;
+    work.delete(splitter);
+    const target = new Set(blocks[splitter]);
+    alphabet.forEach((_, c) => {
+      const into = states.filter((s) => target.has(delta.get(s)![c].next));
+      const touched = new Set(into.map((s) => blockOf.get(s)!));
+      for (const y of touched) {
+        const inside = [...blocks[y]].filter((s) => into.includes(s));
+        if (inside.length === blocks[y].size) continue;
+        const outside = [...blocks[y]].filter((s) => !into.includes(s));
+        blocks[y] = new Set(inside);
+        const z = blocks.push(new Set(outside)) - 1;
+        outside.forEach((s) => blockOf.set(s, z));
+        if (work.has(y) || inside.length > outside.length) work.add(z);
+        else work.add(y);
+      }
+    });
+  }
+
+  // Order classes and their members as the states were listed, keeping the initial state as its class's head.
+  const order = (s: string) => (s === machine.initial ? -1 : states.indexOf(s));
+  const classes = blocks
+    .map((b) => [...b].sort((x, y) => order(x) - order(y)))
+    .sort((x, y) => states.indexOf(x[0]) - states.indexOf(y[0]));
+  const head = new Map(classes.flatMap((c) => c.map((s) => [s, c[0]] as const)));
+  const byId = new Map(machine.states.map((s) => [s.id, s]));
+
+  return {
+    machine: {
+      ...machine,
+      states: classes.map((c) => ({ ...byId.get(c[0])!, name: c.map((s) => byId.get(s)!.name).join("/") })),
+      transitions: machine.transitions
+        .filter((t) => head.get(t.from) === t.from && reachable.has(t.to))
+        .map((t) => ({ ...t, to: head.get(t.to)! })),
+    },
+    classes,
+    unreachable: machine.states.filter((s) => !reachable.has(s.id)).map((s) => s.id),
+  };
+}
+
+// ──────────────────────────── Encoding ────────────────────────────
+
+export function stateWidth(count: number, encoding: FsmEncoding): number {
+  return encoding === "one-hot" ? Math.max(1, count) : Math.max(1, Math.ceil(Math.log2(Math.max(1, count))));
+}
+
+/** State code per state id, as a bit string with the most significant bit first. */
+export function encodeStates(machine: FsmMachine, encoding: FsmEncoding): Record<string, string> {
+  const width = stateWidth(machine.states.length, encoding);
+  return Object.fromEntries(
+    machine.states.map((s, i) => {
+      const code = encoding === "one-hot" ? 2 ** i : encoding === "gray" ? i ^ (i >> 1) : i;
+      return [s.id, code.toString(2).padStart(width, "0")];
+    })
+  );
+}
+
+// ──────────────────────────── Verilog ────────────────────────────
+
+function identifier(name: string, fallback: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!cleaned) return fallback;
+  return /^[0-9]/.test(cleaned) ? `${fallback}_${cleaned}` : cleaned;
+}
+
+/** `S_<NAME>` per state id; names that clean up to the same identifier get `_2`, `_3`, … */
+function stateParams(machine: FsmMachine): Map<string, string> {
+  const used = new Set<string>();
+  return new Map(
+    machine.states.map((s) => {
+      const base = `S_${identifier(s.name, "STATE").toUpperCase()}`;
+      let name = base;
+      for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+      used.add(name);
+      return [s.id, name];
+    })
+  );
+}
+
+function verilogCondition(machine: FsmMachine, condition: string): string | null {
+  const literals = [...condition].flatMap((c, i) =>
+    c === "1" ? [machine.inputs[i]] : c === "0" ? [`!${machine.inputs[i]}`] : []
+  );
+  return literals.length ? literals.join(" && ") : null;
+}
+
+function assignments(machine: FsmMachine, output: string): string[] {
+  return machine.outputs.filter((_, i) => output[i] === "1").map((name) => `${name} = 1'b1;`);
+}
+
+/**
+ * A synthesizable module: a clocked state register with synchronous,
+ * active-high reset to the initial state, and one combinational block for
+ * the next state and the outputs. Unused state codes fall back to reset.
+ */
+export function fsmToVerilog(machine: FsmMachine, encoding: FsmEncoding): string {
+  const codes = encodeStates(machine, encoding);
+  const width = stateWidth(machine.states.length, encoding);
+  const range = width > 1 ? `[${width - 1}:0] ` : "";
+  const param = stateParams(machine);
+  const reset = param.get(machine.initial) ?? [...param.values()][0];
+  const ports = [
+    "input  wire clk",
+    "input  wire rst",
+    ...machine.inputs.map((name) => `input  wire ${name}`),
+    ...machine.outputs.map((name) => `output reg  ${name}`),
+  ];
+
+  const lines = [
+    `// ${machine.name}: ${machine.kind === "moore" ? "Moore" : "Mealy"} machine, ${encoding} state encoding`,
+    `module ${identifier(machine.name.toLowerCase(), "fsm")} (`,
+    ...ports.map((p, i) => `  ${p}${i < ports.length - 1 ? "," : ""}`),
+    ");",
+    "",
+    ...machine.states.map((s) => `  localparam ${range}${param.get(s.id)} = ${width}'b${codes[s.id]};`),
+    "",
+    `  reg ${range}state, next;`,
+    "",
+    "  always @(posedge clk) begin",
+    `    if (rst) state <= ${reset};`,
+    "    else     state <= next;",
+    "  end",
+    "",
+    "  always @(*) begin",
+    "    next = state;",
+    ...machine.outputs.map((name) => `    ${name} = 1'b0;`),
+    "    case (state)",
+  ];
+
+  for (const state of machine.states) {
+    lines.push(`      ${param.get(state.id)}: begin`);
+    if (machine.kind === "moore") lines.push(...assignments(machine, state.output).map((a) => `        ${a}`));
+    let opened = false;
+    for (const t of machine.transitions.filter((t) => t.from === state.id && param.has(t.to))) {
+      const body = [`next = ${param.get(t.to)};`, ...(machine.kind === "mealy" ? assignments(machine, t.output) : [])];
+      const condition = verilogCondition(machine, t.condition);
+      if (condition === null) {
+        // An unconditional transition ends the chain; anything after it is dead.
+        if (opened) lines.push("        else begin", ...body.map((b) => `          ${b}`), "        end");
+        else lines.push(...body.map((b) => `        ${b}`));
+        opened = false;
+        break;
+      }
+      lines.push(`        ${opened ? "else if" : "if"} (${condition}) begin`, ...body.map((b) => `          ${b}`), "        end");
+      opened = true;
+    }
+    lines.push("      end");
+  }
+
+  lines.push(`      default: next = ${reset};`, "    endcase", "  end", "", "endmodule", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  FLOAT_FORMATS,
+  bitsToHex,
+  customFormat,
+  decodeFloat,
+  encodeNumber,
+  fieldsToBits,
+  floatAdd,
+  floatMul,
+  parseDecimal,
+  roundDecimal,
+  roundedValue,
+  type FloatFormat,
+  type RoundingMode,
+} from "./ieee754";
+
+const [HALF, BFLOAT, SINGLE, DOUBLE] = FLOAT_FORMATS;
+
+function float32Hex(value: number): string {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, value);
+  return "0x" + view.getUint32(0).toString(16).toUpperCase().padStart(8, "0");
+}
+
+function hexOf(text: string, format: FloatFormat, mode: RoundingMode): string {
+  return bitsToHex(fieldsToBits(roundDecimal(parseDecimal(text)!, format, mode), format));
+}
+
+function bitsOf(value: number, format: FloatFormat = SINGLE): number[] {
+  return fieldsToBits(encodeNumber(value, format), format);
+}
+
+/** Normals, subnormals, ties, cancellations and values near overflow. */
+const SAMPLES = [
+  0, -0, 1, -1, 1.5, 0.1, -0.3, 3.14159, 1e-3, 16777216, 16777217, -2.5, 1e30, 3e38, -3.4e38, 1.1754944e-38, 1e-39, -7e-45,
+  1 + 2 ** -23, 1 - 2 ** -24, 0.75,
+];
+
+describe("encoding", () => {
+  it("matches the platform's float32 conversion", () => {
+    for (const value of [...SAMPLES, Infinity, -Infinity, 1e-46, 5e38]) {
+      expect(bitsToHex(bitsOf(value))).toBe(float32Hex(value));
+      expect(decodeFloat(bitsOf(value), SINGLE).value).toBe(Math.fround(value));
+    }
+  });
+
+  it("handles half and bfloat16 ranges", () => {
+    expect(roundedValue(encodeNumber(65504, HALF), HALF)).toBe(65504);
+    expect(encodeNumber(65520, HALF).kind).toBe("infinity");
+    expect(roundedValue(encodeNumber(65520, HALF, "toward-zero"), HALF)).toBe(65504);
+    expect(encodeNumber(2 ** -24, HALF).kind).toBe("subnormal");
+    expect(encodeNumber(2 ** -26, HALF).kind).toBe("zero");
+    // bfloat16 keeps float32's range with 8 bits of precision: 3e38 ≈ 1.7632 × 2^127
+    expect(roundedValue(encodeNumber(3e38, BFLOAT), BFLOAT)).toBe((226 / 128) * 2 ** 127);
+    expect(bitsToHex(bitsOf(1 / 3, BFLOAT))).toBe("0x3EAB");
+  });
+
+  it("works for custom widths", () => {
+    const e5m2 = customFormat(5, 2);
+    expect(bitsToHex(bitsOf(1.5, e5m2))).toBe("0x3E");
+    expect(roundedValue(encodeNumber(57344, e5m2), e5m2)).toBe(57344);
+    expect(encodeNumber(61440, e5m2).kind).toBe("infinity");
+  });
+});
+
+describe("rounding modes", () => {
+  it("rounds 0.1 in every direction", () => {
+    expect(hexOf("0.1", SINGLE, "ties-even")).toBe("0x3DCCCCCD");
+    expect(hexOf("0.1", SINGLE, "ties-away")).toBe("0x3DCCCCCD");
+    expect(hexOf("0.1", SINGLE, "toward-zero")).toBe("0x3DCCCCCC");
+    expect(hexOf("0.1", SINGLE, "toward-positive")).toBe("0x3DCCCCCD");
+    expect(hexOf("0.1", SINGLE, "toward-negative")).toBe("0x3DCCCCCC");
+    expect(hexOf("-0.1", SINGLE, "toward-positive")).toBe("0xBDCCCCCC");
+  });
+
+  it("breaks ties to even or away from zero", () => {
+    // 2049 sits halfway between 2048 and 2050 in binary16
+    expect(roundedValue(roundDecimal(parseDecimal("2049")!, HALF, "ties-even"), HALF)).toBe(2048);
+    expect(roundedValue(roundDecimal(parseDecimal("2049")!, HALF, "ties-away"), HALF)).toBe(2050);
+    expect(roundedValue(roundDecimal(parseDecimal("2051")!, HALF, "ties-even"), HALF)).toBe(2052);
+  });
+
+  it("reads decimals exactly, even at double precision", () => {
+    expect(roundedValue(roundDecimal(parseDecimal("0.1")!, DOUBLE), DOUBLE)).toBe(0.1);
+    const above = roundDecimal(parseDecimal("9007199254740993")!, DOUBLE, "toward-positive");
+    expect(roundedValue(above, DOUBLE)).toBe(9007199254740994);
+    expect(roundedValue(roundDecimal(parseDecimal("9007199254740993")!, DOUBLE), DOUBLE)).toBe(9007199254740992);
+    expect(roundDecimal(parseDecimal("1e-400")!, DOUBLE, "toward-positive").kind).toBe("subnormal");
+    expect(roundDecimal(parseDecimal("1e-400")!, DOUBLE).kind).toBe("zero");
+    expect(parseDecimal("1.2.3")).toBeNull();
+  });
+
+  it("clamps overflow to the largest finite value when rounding toward zero", () => {
+    const r = roundDecimal(parseDecimal("1e39")!, SINGLE, "toward-zero");
+    expect(r.overflow).toBe(true);
+    expect(roundedValue(r, SINGLE)).toBe(3.4028234663852886e38);
+  });
+});
+
+describe("floatAdd and floatMul", () => {
+  it("agree with correctly rounded float32 arithmetic", () => {
+    for (const a of SAMPLES) {
+      for (const b of SAMPLES) {
+        const fa = Math.fround(a);
+        const fb = Math.fround(b);
+        const sum = roundedValue(floatAdd(bitsOf(fa), bitsOf(fb), SINGLE).result, SINGLE);
+        const product = roundedValue(floatMul(bitsOf(fa), bitsOf(fb), SINGLE).result, SINGLE);
+        expect(Object.is(sum, Math.fround(fa + fb)), `${fa} + ${fb}`).toBe(true);
+        expect(Object.is(product, Math.fround(fa * fb)), `${fa} × ${fb}`).toBe(true);
+      }
+    }
+  });
+
+  it("shows alignment and guard/round/sticky bits", () => {
+    const run = floatAdd(bitsOf(1, HALF), bitsOf(2 ** -11 + 2 ** -14, HALF), HALF);
+    const align = run.steps.find((s) => s.title === "Align exponents")!;
+    expect(align.detail).toContain("right by 11");
+    expect(run.steps.at(-1)!.detail).toBe("G=1 R=0 S=1: round up one ulp (nearest, ties to even)");
+    expect(roundedValue(run.result, HALF)).toBe(1 + 2 ** -10);
+  });
+
+  it("handles special operands", () => {
+    expect(floatAdd(bitsOf(Infinity), bitsOf(-Infinity), SINGLE).result.kind).toBe("nan");
+    expect(floatMul(bitsOf(Infinity), bitsOf(0), SINGLE).result.kind).toBe("nan");
+    expect(floatAdd(bitsOf(1), bitsOf(-1), SINGLE, "toward-negative").result.sign).toBe(1);
+  });
+
+  it("flushes subnormal results when asked", () => {
+    const tiny = bitsOf(1.1754944e-38);
+    const run = floatMul(tiny, bitsOf(0.5), SINGLE, "ties-even", true);
+    expect(run.result.flushed).toBe(true);
+    expect(run.result.kind).toBe("zero");
+    expect(floatMul(tiny, bitsOf(0.5), SINGLE).result.kind).toBe("subnormal");
+  });
+});
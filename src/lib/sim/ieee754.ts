@@ -0,0 +1,575 @@
+/**
+ * IEEE 754 binary formats of any exponent and fraction width: exact encoding
+ * from decimals and doubles under all five rounding-direction attributes, and
+ * add / multiply the way a floating-point unit does them — align with guard,
+ * round and sticky bits, operate, normalize, round. Significands are bigints so
+ * binary64 products stay exact. Bit arrays are MSB first (sign bit at 0).
+ */
+
+export interface FloatFormat {
+  id: string;
+  label: string;
+  exponentBits: number;
+  fractionBits: number;
+}
+
+export const FLOAT_FORMATS: FloatFormat[] = [
+  { id: "binary16", label: "Half", exponentBits: 5, fractionBits: 10 },
+  { id: "bfloat16", label: "bfloat16", exponentBits: 8, fractionBits: 7 },
+  { id: "binary32", label: "Single", exponentBits: 8, fractionBits: 23 },
+  { id: "binary64", label: "Double", exponentBits: 11, fractionBits: 52 },
+];
+
+/** Custom widths stay within binary64 so every value decodes exactly to a JS number. */
+export const CUSTOM_EXPONENT_BITS = { min: 2, max: 11 };
+export const CUSTOM_FRACTION_BITS = { min: 1, max: 52 };
+
+export type RoundingMode = "ties-even" | "ties-away" | "toward-zero" | "toward-positive" | "toward-negative";
+
+export const ROUNDING_MODES: RoundingMode[] = ["ties-even", "ties-away", "toward-zero", "toward-positive", "toward-negative"];
+
+export const ROUNDING_LABELS: Record<RoundingMode, string> = {
+  "ties-even": "Nearest, ties to even",
+  "ties-away": "Nearest, ties away",
+  "toward-zero": "Toward zero",
+  "toward-positive": "Toward +∞",
+  "toward-negative": "Toward −∞",
+};
+
+export type FloatClass = "zero" | "subnormal" | "normal" | "infinity" | "nan";
+
+export interface FloatFields {
+  sign: number;
+  /** Biased exponent field. */
+  exponent: number;
+  fraction: bigint;
+}
+
+export interface DecodedFloat extends FloatFields {
+  kind: FloatClass;
+  /** Unbiased exponent; emin for subnormals and zero. */
+  unbiased: number;
+  /** Fraction with the hidden bit, worth `significand × 2^(unbiased − fractionBits)`. */
+  significand: bigint;
+  value: number;
+}
+
+export interface Rounded extends FloatFields {
+  kind: FloatClass;
+  guard: number;
+  round: number;
+  sticky: number;
+  inexact: boolean;
+  /** The kept significand was bumped up by one unit in the last place. */
+  incremented: boolean;
+  overflow: boolean;
+  /** Tiny before rounding and inexact. */
+  underflow: boolean;
+  /** A tiny result replaced by zero. */
+  flushed: boolean;
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+function big(n: number): bigint {
+  return BigInt(n);
+}
+
+function bitLength(x: bigint): number {
+  return x === ZERO ? 0 : x.toString(2).length;
+}
+
+export function customFormat(exponentBits: number, fractionBits: number): FloatFormat {
+  return { id: "custom", label: `E${exponentBits}M${fractionBits}`, exponentBits, fractionBits };
+}
+
+export function formatBias(format: FloatFormat): number {
+  return 2 ** (format.exponentBits - 1) - 1;
+}
+
+export function formatWidth(format: FloatFormat): number {
+  return 1 + format.exponentBits + format.fractionBits;
+}
+
+/** Smallest normal exponent, 1 − bias. */
+export function formatEmin(format: FloatFormat): number {
+  return 1 - formatBias(format);
+}
+
+// ──────────────────────────── Fields and bits ────────────────────────────
+
+export function fieldsToBits(fields: FloatFields, format: FloatFormat): number[] {
+  const bits = [fields.sign];
+  for (let i = format.exponentBits - 1; i >= 0; i--) bits.push((fields.exponent >> i) & 1);
+  for (let i = format.fractionBits - 1; i >= 0; i--) bits.push(Number((fields.fraction >> big(i)) & ONE));
+  return bits;
+}
+
+export function bitsToFields(bits: number[], format: FloatFormat): FloatFields {
+  const exponent = bits.slice(1, 1 + format.exponentBits).reduce((acc, b) => acc * 2 + b, 0);
+  const fraction = bits.slice(1 + format.exponentBits).reduce((acc, b) => acc * big(2) + big(b), ZERO);
+  return { sign: bits[0], exponent, fraction };
+}
+
+export function bitsToHex(bits: number[]): string {
+  const padded = [...new Array<number>((4 - (bits.length % 4)) % 4).fill(0), ...bits];
+  let hex = "";
+  for (let i = 0; i < padded.length; i += 4) {
+    hex += (padded[i] * 8 + padded[i + 1] * 4 + padded[i + 2] * 2 + padded[i + 3]).toString(16).toUpperCase();
+  }
+  return "0x" + hex;
+}
+
+export function decodeFields(fields: FloatFields, format: FloatFormat): DecodedFloat {
+  const m = format.fractionBits;
+  const emin = formatEmin(format);
+  const allOnes = 2 ** format.exponentBits - 1;
+  const signed = (v: number) => (fields.sign ? -v : v);
+  if (fields.exponent === allOnes) {
+    const nan = fields.fraction !== ZERO;
+    return {
+      ...fields,
+      kind: nan ? "nan" : "infinity",
+      unbiased: formatBias(format) + 1,
+      significand: fields.fraction,
+      value: nan ? NaN : signed(Infinity),
+    };
+  }
+  const normal = fields.exponent !== 0;
+  const significand = normal ? fields.fraction + (ONE << big(m)) : fields.fraction;
+  const unbiased = normal ? fields.exponent - formatBias(format) : emin;
+  const kind: FloatClass = normal ? "normal" : fields.fraction === ZERO ? "zero" : "subnormal";
+  // Split the scale so neither factor leaves the double range on its own
+  const scale = unbiased - m;
+  const value = Number(significand) * 2 ** Math.ceil(scale / 2) * 2 ** Math.floor(scale / 2);
+  return { ...fields, kind, unbiased, significand, value: signed(value) };
+}
+
+export function decodeFloat(bits: number[], format: FloatFormat): DecodedFloat {
+  return decodeFields(bitsToFields(bits, format), format);
+}
+
+/** The significand as binary with the point after the hidden bit, e.g. "1.0110". */
+export function significandString(significand: bigint, format: FloatFormat): string {
+  const digits = significand.toString(2).padStart(format.fractionBits + 1, "0");
+  return `${digits.slice(0, -format.fractionBits)}.${digits.slice(-format.fractionBits)}`;
+}
+
+// ──────────────────────────── Rounding ────────────────────────────
+
+function special(sign: number, kind: "zero" | "infinity" | "nan", format: FloatFormat, flags: Partial<Rounded> = {}): Rounded {
+  const m = format.fractionBits;
+  return {
+    sign,
+    exponent: kind === "zero" ? 0 : 2 ** format.exponentBits - 1,
+    fraction: kind === "nan" ? ONE << big(m - 1) : ZERO,
+    kind,
+    guard: 0,
+    round: 0,
+    sticky: 0,
+    inexact: false,
+    incremented: false,
+    overflow: false,
+    underflow: false,
+    flushed: false,
+    ...flags,
+  };
+}
+
+export function zeroOf(sign: number, format: FloatFormat): Rounded {
+  return special(sign, "zero", format);
+}
+
+export function infinityOf(sign: number, format: FloatFormat): Rounded {
+  return special(sign, "infinity", format);
+}
+
+export function nanOf(format: FloatFormat): Rounded {
+  return special(0, "nan", format);
+}
+
+/**
+ * Rounds `±(sig + ε) × 2^exp` to the format, where ε ∈ [0, 1) is nonzero
+ * exactly when `sticky`. Guard and round are the first two bits dropped and
+ * sticky is the OR of everything below.
+ */
+export function roundToFormat(
+  sign: number,
+  sig: bigint,
+  exp: number,
+  sticky: boolean,
+  format: FloatFormat,
+  mode: RoundingMode,
+  flushSubnormals = false
+): Rounded {
+  if (sig === ZERO) return zeroOf(sign, format);
+  const m = format.fractionBits;
+  const emin = formatEmin(format);
+  const emax = formatBias(format);
+  const top = bitLength(sig) - 1 + exp;
+  const tiny = top < emin;
+  if (tiny && flushSubnormals) {
+    return special(sign, "zero", format, { inexact: true, underflow: true, flushed: true });
+  }
+
+  const shift = Math.max(top, emin) - m - exp;
+  let kept = sig;
+  let guard = 0;
+  let round = 0;
+  let stickyBit = sticky ? 1 : 0;
+  if (shift > 0) {
+    const s = big(shift);
+    kept = sig >> s;
+    const dropped = sig - (kept << s);
+    guard = Number((dropped >> (s - ONE)) & ONE);
+    if (shift >= 2) {
+      round = Number((dropped >> (s - big(2))) & ONE);
+      if ((dropped & ((ONE << (s - big(2))) - ONE)) !== ZERO) stickyBit = 1;
+    }
+  } else {
+    kept = sig << big(-shift);
+  }
+
+  const inexact = guard + round + stickyBit > 0;
+  const odd = (kept & ONE) === ONE;
+  const incremented =
+    mode === "ties-even"
+      ? guard === 1 && (round === 1 || stickyBit === 1 || odd)
+      : mode === "ties-away"
+        ? guard === 1
+        : mode === "toward-positive"
+          ? inexact && sign === 0
+          : mode === "toward-negative"
+            ? inexact && sign === 1
+            : false;
+  if (incremented) kept += ONE;
+
+  let e = Math.max(top, emin);
+  if (kept >> big(m + 1) !== ZERO) {
+    kept >>= ONE;
+    e += 1;
+  }
+  const flags = { guard, round, sticky: stickyBit, inexact, incremented, underflow: tiny && inexact, flushed: false };
+
+  if (e > emax) {
+    const toInfinity =
+      mode === "ties-even" ||
+      mode === "ties-away" ||
+      (mode === "toward-positive" && sign === 0) ||
+      (mode === "toward-negative" && sign === 1);
+    if (toInfinity) return special(sign, "infinity", format, { ...flags, inexact: true, overflow: true });
+    return {
+      sign,
+      exponent: 2 ** format.exponentBits - 2,
+      fraction: (ONE << big(m)) - ONE,
+      kind: "normal",
+      ...flags,
+      inexact: true,
+      overflow: true,
+    };
+  }
+
+  const normal = kept >> big(m) !== ZERO;
+  return {
+    sign,
+    exponent: normal ? e + formatBias(format) : 0,
+    fraction: normal ? kept - (ONE << big(m)) : kept,
+    kind: normal ? "normal" : kept === ZERO ? "zero" : "subnormal",
+    ...flags,
+    overflow: false,
+  };
+}
+
+/** A double's exact value as `±sig × 2^exp`. */
+function splitDouble(value: number): { sign: number; sig: bigint; exp: number } {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  const hi = view.getUint32(0);
+  const lo = view.getUint32(4);
+  const biased = (hi >>> 20) & 0x7ff;
+  const fraction = (big(hi & 0xfffff) << big(32)) + big(lo);
+  return {
+    sign: hi >>> 31,
+    sig: biased ? fraction + (ONE << big(52)) : fraction,
+    exp: (biased || 1) - 1075,
+  };
+}
+
+export function encodeNumber(value: number, format: FloatFormat, mode: RoundingMode = "ties-even", flushSubnormals = false): Rounded {
+  if (Number.isNaN(value)) return nanOf(format);
+  const sign = value < 0 || Object.is(value, -0) ? 1 : 0;
+  if (!Number.isFinite(value)) return infinityOf(sign, format);
+  const { sig, exp } = splitDouble(value);
+  return roundToFormat(sign, sig, exp, false, format, mode, flushSubnormals);
+}
+
+export interface ExactDecimal {
+  sign: number;
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/** A decimal literal as an exact fraction, or null if it isn't one. Exponents are capped at ±5000. */
+export function parseDecimal(text: string): ExactDecimal | null {
+  const match = /^\s*([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?\s*$/i.exec(text);
+  if (!match) return null;
+  const [, signText, whole = "", fractionText = "", exponentText] = match;
+  if (whole === "" && fractionText === "") return null;
+  const exponent = (exponentText ? parseInt(exponentText, 10) : 0) - fractionText.length;
+  if (Math.abs(exponent) > 5000) return null;
+  const digits = BigInt((whole + fractionText).replace(/^0+(?=\d)/, "") || "0");
+  const power = big(10) ** big(Math.abs(exponent));
+  return {
+    sign: signText === "-" ? 1 : 0,
+    numerator: exponent >= 0 ? digits * power : digits,
+    denominator: exponent >= 0 ? ONE : power,
+  };
+}
+
+export function roundDecimal(
+  decimal: ExactDecimal,
+  format: FloatFormat,
+  mode: RoundingMode = "ties-even",
+  flushSubnormals = false
+): Rounded {
+  const { sign, numerator, denominator } = decimal;
+  if (numerator === ZERO) return zeroOf(sign, format);
+  // The leading bit sits at estimate or estimate − 1; keep three bits past the last one kept
+  const estimate = bitLength(numerator) - bitLength(denominator);
+  let exp = Math.max(estimate - 1, formatEmin(format)) - format.fractionBits - 3;
+  const n = exp < 0 ? numerator << big(-exp) : numerator;
+  const d = exp < 0 ? denominator : denominator << big(exp);
+  let sig = n / d;
+  const sticky = n % d !== ZERO;
+  if (sig === ZERO) {
+    // Far below the smallest subnormal: only the sticky bit survives
+    sig = ONE;
+    exp -= 2;
+  }
+  return roundToFormat(sign, sig, exp, sticky, format, mode, flushSubnormals);
+}
+
+export function roundedValue(rounded: Rounded, format: FloatFormat): number {
+  return decodeFields(rounded, format).value;
+}
+
+// ──────────────────────────── Add and multiply ────────────────────────────
+
+export type FloatOp = "add" | "mul";
+
+export type OpStage = "decode" | "special" | "exponent" | "align" | "operate" | "normalize" | "round";
+
+export interface OpStep {
+  stage: OpStage;
+  title: string;
+  detail: string;
+  /** Working bits, with "|" before guard, round and sticky where they apply. */
+  bits?: string;
+}
+
+export interface FloatOpRun {
+  op: FloatOp;
+  steps: OpStep[];
+  result: Rounded;
+}
+
+function describe(d: DecodedFloat, name: string, format: FloatFormat): OpStep {
+  const sign = d.sign ? "−" : "+";
+  const detail =
+    d.kind === "normal" || d.kind === "subnormal"
+      ? `${sign}${significandString(d.significand, format)} × 2^${d.unbiased}${d.kind === "subnormal" ? " (subnormal: hidden bit 0)" : ""}`
+      : `${sign}${d.kind}`;
+  return { stage: "decode", title: `Decode ${name}`, detail };
+}
+
+/** Three-bit-extended working value as `int.fraction|GRS`. */
+function extendedString(z: bigint, intBits: number, format: FloatFormat): string {
+  const m = format.fractionBits;
+  const digits = z.toString(2).padStart(intBits + m + 3, "0");
+  const point = digits.length - m - 3;
+  return `${digits.slice(0, point)}.${digits.slice(point, point + m)}|${digits.slice(point + m)}`;
+}
+
+function roundStep(r: Rounded, mode: RoundingMode): OpStep {
+  if (r.flushed) {
+    return { stage: "round", title: "Flush", detail: "Tiny result with flush-to-zero on: replaced by a signed zero" };
+  }
+  const grs = `G=${r.guard} R=${r.round} S=${r.sticky}`;
+  let detail = !r.inexact
+    ? `${grs}: exact, nothing to round`
+    : `${grs}: ${r.incremented ? "round up one ulp" : "truncate"} (${ROUNDING_LABELS[mode].toLowerCase()})`;
+  if (r.overflow) detail += r.kind === "infinity" ? "; overflow to infinity" : "; overflow clamps to the largest finite value";
+  else if (r.underflow) detail += r.kind === "zero" ? "; underflow to zero" : "; underflow: the result is subnormal";
+  return { stage: "round", title: "Round", detail };
+}
+
+function finish(op: FloatOp, steps: OpStep[], result: Rounded): FloatOpRun {
+  return { op, steps, result };
+}
+
+/** A + B with alignment, guard/round/sticky and renormalization shown as a datapath would do them. */
+export function floatAdd(
+  a: number[],
+  b: number[],
+  format: FloatFormat,
+  mode: RoundingMode = "ties-even",
+  flushSubnormals = false
+): FloatOpRun {
+  const m = format.fractionBits;
+  const emin = formatEmin(format);
+  let x = decodeFloat(a, format);
+  let y = decodeFloat(b, format);
+  const steps: OpStep[] = [describe(x, "A", format), describe(y, "B", format)];
+  const specialStep = (detail: string) => steps.push({ stage: "special", title: "Special case", detail });
+
+  if (x.kind === "nan" || y.kind === "nan") {
+    specialStep("A NaN operand propagates");
+    return finish("add", steps, nanOf(format));
+  }
+  if (x.kind === "infinity" || y.kind === "infinity") {
+    if (x.kind === "infinity" && y.kind === "infinity" && x.sign !== y.sign) {
+      specialStep("∞ − ∞ is invalid: the result is NaN");
+      return finish("add", steps, nanOf(format));
+    }
+    specialStep("Infinity plus anything finite stays infinite");
+    return finish("add", steps, infinityOf(x.kind === "infinity" ? x.sign : y.sign, format));
+  }
+  if (x.kind === "zero" && y.kind === "zero") {
+    const sign = x.sign === y.sign ? x.sign : mode === "toward-negative" ? 1 : 0;
+    specialStep("Zero plus zero: the sign follows the operands, or the rounding direction if they differ");
+    return finish("add", steps, zeroOf(sign, format));
+  }
+
+  // Larger magnitude first, so the shift only ever moves B right
+  if (y.unbiased > x.unbiased || (y.unbiased === x.unbiased && y.significand > x.significand)) {
+    [x, y] = [y, x];
+    steps.push({ stage: "align", title: "Swap", detail: "B has the larger magnitude, so the operands swap" });
+  }
+
+  const d = x.unbiased - y.unbiased;
+  const wide = x.significand << big(3);
+  let shifted = y.significand << big(3);
+  if (d > 0) {
+    const lost = d > m + 3 ? shifted : shifted & ((ONE << big(d)) - ONE);
+    shifted = d > m + 3 ? ZERO : shifted >> big(d);
+    if (lost !== ZERO) shifted |= ONE;
+  }
+  steps.push({
+    stage: "align",
+    title: "Align exponents",
+    detail:
+      d === 0
+        ? `Both exponents are ${x.unbiased}: no shift needed`
+        : `Shift the smaller significand right by ${d} to exponent ${x.unbiased}; bits shifted past S are ORed into it`,
+    bits: `${extendedString(wide, 1, format)}\n${extendedString(shifted, 1, format)}`,
+  });
+
+  const subtract = x.sign !== y.sign;
+  let z = subtract ? wide - shifted : wide + shifted;
+  steps.push({
+    stage: "operate",
+    title: subtract ? "Subtract significands" : "Add significands",
+    detail: subtract ? "Signs differ, so the magnitudes subtract; the result takes the larger operand's sign" : "Same signs: the magnitudes add",
+    bits: extendedString(z, 2, format),
+  });
+  if (z === ZERO) {
+    const sign = mode === "toward-negative" ? 1 : 0;
+    steps.push({ stage: "normalize", title: "Exact cancellation", detail: `x − x is ${sign ? "−0 rounding toward −∞" : "+0"}` });
+    return finish("add", steps, zeroOf(sign, format));
+  }
+
+  let e = x.unbiased;
+  const lead = bitLength(z) - 1;
+  if (lead > m + 3) {
+    z = (z >> ONE) | (z & ONE);
+    e += 1;
+    steps.push({ stage: "normalize", title: "Normalize", detail: "Carry out of the hidden bit: shift right 1, exponent + 1", bits: extendedString(z, 1, format) });
+  } else if (lead < m + 3) {
+    const k = Math.min(m + 3 - lead, e - emin);
+    z <<= big(k);
+    e -= k;
+    const detail =
+      k < m + 3 - lead
+        ? `Shift left ${k}, stopping at the minimum exponent ${emin}: the result is subnormal`
+        : `${k} leading zero${k === 1 ? "" : "s"}: shift left ${k}, exponent − ${k}`;
+    steps.push({ stage: "normalize", title: "Normalize", detail, bits: extendedString(z, 1, format) });
+  } else {
+    steps.push({ stage: "normalize", title: "Normalize", detail: "Already normalized", bits: extendedString(z, 1, format) });
+  }
+
+  const result = roundToFormat(x.sign, z, e - m - 3, false, format, mode, flushSubnormals);
+  steps.push(roundStep(result, mode));
+  return finish("add", steps, result);
+}
+
+/** A × B: add exponents, multiply significands exactly, normalize, then round the double-width product. */
+export function floatMul(
+  a: number[],
+  b: number[],
+  format: FloatFormat,
+  mode: RoundingMode = "ties-even",
+  flushSubnormals = false
+): FloatOpRun {
+  const m = format.fractionBits;
+  const bias = formatBias(format);
+  const x = decodeFloat(a, format);
+  const y = decodeFloat(b, format);
+  const sign = x.sign ^ y.sign;
+  const steps: OpStep[] = [describe(x, "A", format), describe(y, "B", format)];
+  const specialStep = (detail: string) => steps.push({ stage: "special", title: "Special case", detail });
+
+  if (x.kind === "nan" || y.kind === "nan") {
+    specialStep("A NaN operand propagates");
+    return finish("mul", steps, nanOf(format));
+  }
+  const infinite = x.kind === "infinity" || y.kind === "infinity";
+  const zero = x.kind === "zero" || y.kind === "zero";
+  if (infinite && zero) {
+    specialStep("∞ × 0 is invalid: the result is NaN");
+    return finish("mul", steps, nanOf(format));
+  }
+  if (infinite || zero) {
+    specialStep(`${infinite ? "Infinity" : "Zero"} times a finite value; the sign is the XOR of the operand signs`);
+    return finish("mul", steps, infinite ? infinityOf(sign, format) : zeroOf(sign, format));
+  }
+
+  const e = x.unbiased + y.unbiased;
+  steps.push({
+    stage: "exponent",
+    title: "Add exponents",
+    detail: `${x.unbiased} + ${y.unbiased} = ${e} (stored fields: ${x.exponent} + ${y.exponent} − ${bias}); sign ${x.sign} ⊕ ${y.sign} = ${sign}`,
+  });
+
+  const product = x.significand * y.significand;
+  const digits = product.toString(2).padStart(2 * m + 2, "0");
+  steps.push({
+    stage: "operate",
+    title: "Multiply significands",
+    detail: `${significandString(x.significand, format)} × ${significandString(y.significand, format)}, exact in ${2 * m + 2} bits`,
+    bits: `${digits.slice(0, -2 * m)}.${digits.slice(-2 * m)}`,
+  });
+
+  const lead = bitLength(product) - 1 - 2 * m;
+  steps.push({
+    stage: "normalize",
+    title: "Normalize",
+    detail:
+      lead > 0
+        ? "Product is in [2, 4): shift right 1, exponent + 1"
+        : lead < 0
+          ? `${-lead} leading zero${lead === -1 ? "" : "s"} from a subnormal operand: shift left ${-lead}, exponent − ${-lead}`
+          : "Product is in [1, 2): already normalized",
+  });
+  if (e + lead < formatEmin(format)) {
+    steps.push({
+      stage: "normalize",
+      title: "Denormalize",
+      detail: `Exponent ${e + lead} is below ${formatEmin(format)}: shift right ${formatEmin(format) - e - lead} more to a subnormal`,
+    });
+  }
+
+  const result = roundToFormat(sign, product, e - 2 * m, false, format, mode, flushSubnormals);
+  steps.push(roundStep(result, mode));
+  return finish("mul", steps, result);
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  circuitIssues,
+  circuitOutputValues,
+  criticalPath,
+  evaluateGate,
+  findHazards,
+  generateTruthTable,
+  grayCodeSweep,
+  simulateCircuit,
+  type Circuit,
+  type CircuitNode,
+  type GateType,
+  type Wire,
+} from "./logic";
+
+const input = (id: string): CircuitNode => ({ id, kind: "input", name: id, x: 0, y: 0 });
+const output = (id: string): CircuitNode => ({ id, kind: "output", name: id, x: 0, y: 0 });
+const gate = (id: string, type: GateType, delay: number, pins = type === "NOT" ? 1 : 2): CircuitNode => ({
+  id,
+  kind: "gate",
+  gate: type,
+  pins,
+  delay,
+  x: 0,
+  y: 0,
+});
+const wire = (from: string, to: string, pin = 0): Wire => ({ from, to, pin });
+
+// F = S·D1 + S'·D0, the textbook static-1 hazard when S falls with D0 = D1 = 1.
+const MUX: Circuit = {
+  nodes: [
+    input("S"),
+    input("D0"),
+    input("D1"),
+    gate("inv", "NOT", 1),
+    gate("a1", "AND", 2),
+    gate("a0", "AND", 2),
+    gate("or", "OR", 2),
+    output("F"),
+  ],
+  wires: [
+    wire("S", "inv"),
+    wire("S", "a1", 0),
+    wire("D1", "a1", 1),
+    wire("inv", "a0", 0),
+    wire("D0", "a0", 1),
+    wire("a1", "or", 0),
+    wire("a0", "or", 1),
+    wire("or", "F"),
+  ],
+};
+
+describe("evaluateGate", () => {
+  it("handles more than two inputs", () => {
+    expect(evaluateGate("AND", [1, 1, 1])).toBe(1);
+    expect(evaluateGate("NAND", [1, 0, 1])).toBe(1);
+    expect(evaluateGate("XOR", [1, 1, 1])).toBe(1);
+    expect(evaluateGate("NOR", [0, 0, 0])).toBe(1);
+  });
+});
+
+describe("evaluateCircuit", () => {
+  it("computes the multiplexer truth table", () => {
+    const table = generateTruthTable(3, (v) => circuitOutputValues(MUX, v));
+    // Rows are S, D0, D1 counting from bit 0; F = S ? D1 : D0.
+    expect(table.map((r) => r.outputs[0])).toEqual([0, 0, 1, 0, 0, 1, 1, 1]);
+  });
+
+  it("settles a cross-coupled NOR latch", () => {
+    const latch: Circuit = {
+      nodes: [input("R"), input("S"), gate("q", "NOR", 1), gate("qn", "NOR", 1), output("Q")],
+      wires: [wire("R", "q", 0), wire("qn", "q", 1), wire("S", "qn", 0), wire("q", "qn", 1), wire("q", "Q")],
+    };
+    expect(circuitOutputValues(latch, [0, 1])).toEqual([1]);
+    expect(circuitOutputValues(latch, [1, 0])).toEqual([0]);
+  });
+});
+
+describe("circuitIssues", () => {
+  it("reports floating pins and loops", () => {
+    const broken: Circuit = {
+      nodes: [input("A"), gate("g", "AND", 2), gate("n", "NOT", 1), output("Y")],
+      wires: [wire("A", "g", 0), wire("n", "n"), wire("g", "Y")],
+    };
+    expect(circuitIssues(broken).map((i) => i.message)).toEqual([
+      "AND g pin 2 is unconnected (reads 0)",
+      "NOT n is on a feedback loop",
+    ]);
+    expect(circuitIssues(MUX)).toEqual([]);
+  });
+});
+
+describe("criticalPath", () => {
+  it("follows the slowest branch through the inverter", () => {
+    expect(criticalPath(MUX)).toEqual({ delay: 5, path: ["S", "inv", "a0", "or", "F"] });
+  });
+});
+
+describe("simulateCircuit", () => {
+  const stimuli = [
+    { time: 4, input: "S", value: 0 },
+    { time: 16, input: "S", value: 1 },
+  ];
+  const trace = simulateCircuit(MUX, [1, 1, 1], stimuli);
+
+  it("glitches F low while the inverter catches up", () => {
+    expect(trace.waveforms.a1).toEqual([{ time: 0, value: 1 }, { time: 6, value: 0 }, { time: 18, value: 1 }]);
+    expect(trace.waveforms.a0).toEqual([{ time: 0, value: 0 }, { time: 7, value: 1 }, { time: 19, value: 0 }]);
+    expect(trace.waveforms.F).toEqual([{ time: 0, value: 1 }, { time: 8, value: 0 }, { time: 9, value: 1 }]);
+    expect(trace.end).toBe(19);
+  });
+
+  it("flags the static-1 hazard on the falling edge only", () => {
+    expect(findHazards(trace, ["F"], stimuli)).toEqual([{ node: "F", kind: "static-1", start: 8, end: 9 }]);
+  });
+
+  it("passes pulses shorter than a gate delay", () => {
+    const buffer: Circuit = {
+      nodes: [input("A"), gate("g", "OR", 3, 1), output("Y")],
+      wires: [wire("A", "g"), wire("g", "Y")],
+    };
+    const pulse = simulateCircuit(buffer, [0], [
+      { time: 1, input: "A", value: 1 },
+      { time: 2, input: "A", value: 0 },
+    ]);
+    expect(pulse.waveforms.Y).toEqual([{ time: 0, value: 0 }, { time: 4, value: 1 }, { time: 5, value: 0 }]);
+  });
+
+  it("stops a ring oscillator at the event limit", () => {
+    const ring: Circuit = {
+      nodes: [input("A"), gate("n1", "NAND", 1), gate("n2", "NOT", 1), gate("n3", "NOT", 1)],
+      wires: [wire("A", "n1", 0), wire("n3", "n1", 1), wire("n1", "n2"), wire("n2", "n3")],
+    };
+    expect(simulateCircuit(ring, [0], [{ time: 1, input: "A", value: 1 }]).truncated).toBe(true);
+  });
+});
+
+describe("grayCodeSweep", () => {
+  it("changes one input per step", () => {
+    expect(grayCodeSweep(MUX, 10).map((s) => `${s.time}:${s.input}=${s.value}`)).toEqual([
+      "10:S=1",
+      "20:D0=1",
+      "30:S=0",
+      "40:D1=1",
+      "50:S=1",
+      "60:D0=0",
+      "70:S=0",
+    ]);
+  });
+});
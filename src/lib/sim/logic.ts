@@ -0,0 +1,406 @@
+/**
+ * Gate-level logic simulation. A circuit is a netlist of named inputs, gates
+ * and named outputs; `evaluateCircuit` gives its steady state and
+ * `simulateCircuit` replays input changes event by event with per-gate
+ * propagation delays, which is what exposes glitches and hazards.
+ */
+
+// ──────────────────────────── Gates ────────────────────────────
+
+export type GateType = "AND" | "OR" | "NOT" | "NAND" | "NOR" | "XOR" | "XNOR";
+
+export const GATE_TYPES: GateType[] = ["AND", "OR", "NOT", "NAND", "NOR", "XOR", "XNOR"];
+
+/** Delay in time units; inverting gates are a single CMOS stage, the rest need two or more. */
+export const DEFAULT_GATE_DELAYS: Record<GateType, number> = {
+  NOT: 1,
+  NAND: 1,
+  NOR: 1,
+  AND: 2,
+  OR: 2,
+  XOR: 3,
+  XNOR: 3,
+};
+
+export function defaultPinCount(gate: GateType): number {
+  return gate === "NOT" ? 1 : 2;
+}
+
+/** Output of `gate` for any number of inputs; XOR is odd parity. */
+export function evaluateGate(gate: GateType, inputs: number[]): number {
+  const ones = inputs.filter((v) => v).length;
+  switch (gate) {
+    case "AND":
+      return ones === inputs.length ? 1 : 0;
+    case "OR":
+      return ones > 0 ? 1 : 0;
+    case "NOT":
+      return inputs[0] ? 0 : 1;
+    case "NAND":
+      return ones === inputs.length ? 0 : 1;
+    case "NOR":
+      return ones > 0 ? 0 : 1;
+    case "XOR":
+      return ones % 2;
+    case "XNOR":
+      return 1 - (ones % 2);
+  }
+}
+
+// ──────────────────────────── Truth Tables ────────────────────────────
+
+export interface TruthTableEntry {
+  inputs: number[];
+  outputs: number[];
+}
+
+/** Every input combination in counting order, input `j` taken from bit `j` of the row index. */
+export function generateTruthTable(inputCount: number, evaluate: (inputs: number[]) => number[]): TruthTableEntry[] {
+  const entries: TruthTableEntry[] = [];
+  for (let i = 0; i < 2 ** inputCount; i++) {
+    const inputs = Array.from({ length: inputCount }, (_, j) => (i >> j) & 1);
+    entries.push({ inputs, outputs: evaluate(inputs) });
+  }
+  return entries;
+}
+
+// ──────────────────────────── Netlist ────────────────────────────
+
+/** `x`/`y` place the node on the schematic; the simulator ignores them. */
+export type CircuitNode =
+  | { id: string; kind: "input"; name: string; x: number; y: number }
+  | { id: string; kind: "output"; name: string; x: number; y: number }
+  | { id: string; kind: "gate"; gate: GateType; pins: number; delay: number; x: number; y: number };
+
+/** Drives input pin `pin` of node `to` from the output of node `from`. */
+export interface Wire {
+  from: string;
+  to: string;
+  pin: number;
+}
+
+export interface Circuit {
+  nodes: CircuitNode[];
+  wires: Wire[];
+}
+
+export interface CircuitIssue {
+  nodeId: string;
+  message: string;
+}
+
+export function pinCount(node: CircuitNode): number {
+  if (node.kind === "gate") return node.pins;
+  return node.kind === "output" ? 1 : 0;
+}
+
+export function circuitInputs(circuit: Circuit) {
+  return circuit.nodes.filter((n) => n.kind === "input");
+}
+
+export function circuitOutputs(circuit: Circuit) {
+  return circuit.nodes.filter((n) => n.kind === "output");
+}
+
+function nodeName(node: CircuitNode): string {
+  return node.kind === "gate" ? `${node.gate} ${node.id}` : node.name;
+}
+
+/** Driver of each pin, keyed `${to}:${pin}`. A pin keeps the last wire drawn to it. */
+function driverMap(circuit: Circuit): Map<string, string> {
+  return new Map(circuit.wires.map((w) => [`${w.to}:${w.pin}`, w.from]));
+}
+
+/** Nodes each node's output feeds, once per node. */
+function fanoutMap(circuit: Circuit): Map<string, string[]> {
+  const fanout = new Map<string, string[]>();
+  for (const w of circuit.wires) {
+    const list = fanout.get(w.from) ?? [];
+    if (!list.includes(w.to)) list.push(w.to);
+    fanout.set(w.from, list);
+  }
+  return fanout;
+}
+
+/** Ids of gates that sit on a feedback loop. */
+export function findLoops(circuit: Circuit): Set<string> {
+  const fanout = fanoutMap(circuit);
+  const onLoop = new Set<string>();
+  for (const start of circuit.nodes) {
+    if (start.kind !== "gate") continue;
+    // A gate is on a loop when it can reach itself.
+    const seen = new Set<string>();
+    const stack = [...(fanout.get(start.id) ?? [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === start.id) {
+        onLoop.add(id);
+        break;
+      }
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(fanout.get(id) ?? []));
+    }
+  }
+  return onLoop;
+}
+
+/** Problems that make the truth table or timing misleading: floating pins, missing names, loops. */
+export function circuitIssues(circuit: Circuit): CircuitIssue[] {
+  const drivers = driverMap(circuit);
+  const issues: CircuitIssue[] = [];
+  const names = new Set<string>();
+  for (const node of circuit.nodes) {
+    if (node.kind !== "gate") {
+      if (!node.name.trim()) issues.push({ nodeId: node.id, message: `Unnamed ${node.kind}` });
+      else if (names.has(node.name)) issues.push({ nodeId: node.id, message: `Duplicate name ${node.name}` });
+      names.add(node.name);
+    }
+    for (let pin = 0; pin < pinCount(node); pin++) {
+      if (!drivers.has(`${node.id}:${pin}`)) {
+        const where = node.kind === "output" ? "" : ` pin ${pin + 1}`;
+        issues.push({ nodeId: node.id, message: `${nodeName(node)}${where} is unconnected (reads 0)` });
+      }
+    }
+  }
+  for (const id of findLoops(circuit)) {
+    const node = circuit.nodes.find((n) => n.id === id)!;
+    issues.push({ nodeId: id, message: `${nodeName(node)} is on a feedback loop` });
+  }
+  return issues;
+}
+
+// ──────────────────────────── Steady State ────────────────────────────
+
+function evaluateNode(node: CircuitNode, values: Record<string, number>, drivers: Map<string, string>): number {
+  const read = (pin: number) => {
+    const from = drivers.get(`${node.id}:${pin}`);
+    return from === undefined ? 0 : (values[from] ?? 0);
+  };
+  if (node.kind === "output") return read(0);
+  if (node.kind === "gate") return evaluateGate(node.gate, Array.from({ length: node.pins }, (_, pin) => read(pin)));
+  return values[node.id] ?? 0;
+}
+
+/**
+ * Value of every node once signals settle, with `inputs` given in the order
+ * of `circuitInputs`. Feedback loops that never settle (an odd ring of
+ * inverters) keep whatever value the last pass produced.
+ */
+export function evaluateCircuit(circuit: Circuit, inputs: number[]): Record<string, number> {
+  const drivers = driverMap(circuit);
+  const values: Record<string, number> = {};
+  circuitInputs(circuit).forEach((node, i) => (values[node.id] = inputs[i] ?? 0));
+  for (let pass = 0; pass <= circuit.nodes.length; pass++) {
+    let changed = false;
+    for (const node of circuit.nodes) {
+      if (node.kind === "input") continue;
+      const value = evaluateNode(node, values, drivers);
+      if (values[node.id] !== value) {
+        values[node.id] = value;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return values;
+}
+
+/** Output values in the order of `circuitOutputs`. */
+export function circuitOutputValues(circuit: Circuit, inputs: number[]): number[] {
+  const values = evaluateCircuit(circuit, inputs);
+  return circuitOutputs(circuit).map((n) => values[n.id]);
+}
+
+/**
+ * Longest input-to-output delay and the nodes along it. Edges into a loop
+ * are not followed, so the result is only meaningful for loop-free circuits.
+ */
+export function criticalPath(circuit: Circuit): { delay: number; path: string[] } {
+  const drivers = driverMap(circuit);
+  const loops = findLoops(circuit);
+  const byId = new Map(circuit.nodes.map((n) => [n.id, n]));
+  const memo = new Map<string, { delay: number; path: string[] }>();
+
+  const arrival = (id: string): { delay: number; path: string[] } => {
+    const cached = memo.get(id);
+    if (cached) return cached;
+    const node = byId.get(id)!;
+    let best = { delay: 0, path: [] as string[] };
+    for (let pin = 0; pin < pinCount(node); pin++) {
+      const from = drivers.get(`${id}:${pin}`);
+      if (from === undefined || loops.has(from)) continue;
+      const candidate = arrival(from);
+      if (candidate.delay > best.delay || best.path.length === 0) best = candidate;
+    }
+    const own = node.kind === "gate" ? node.delay : 0;
+    const result = { delay: best.delay + own, path: [...best.path, id] };
+    memo.set(id, result);
+    return result;
+  };
+
+  let worst = { delay: 0, path: [] as string[] };
+  for (const out of circuitOutputs(circuit)) {
+    const candidate = arrival(out.id);
+    if (candidate.delay > worst.delay) worst = candidate;
+  }
+  return worst;
+}
+
+// ──────────────────────────── Event-Driven Simulation ────────────────────────────
+
+/** Input node `input` switches to `value` at `time`. */
+export interface Stimulus {
+  time: number;
+  input: string;
+  value: number;
+}
+
+export interface Transition {
+  time: number;
+  value: number;
+}
+
+export interface SimEvent extends Transition {
+  node: string;
+}
+
+export interface SimulationTrace {
+  /** Every node's value over time, starting from the settled state at time 0. */
+  waveforms: Record<string, Transition[]>;
+  /** Value changes in the order they happened. */
+  events: SimEvent[];
+  /** Time of the last event or stimulus. */
+  end: number;
+  /** The event limit cut the run short, e.g. a ring oscillator. */
+  truncated: boolean;
+}
+
+const MAX_EVENTS = 5000;
+
+/**
+ * Replays `stimuli` against the circuit settled at `initial`. Gates use
+ * transport delay: every change at a gate's inputs is re-evaluated and the
+ * result lands `delay` later, so pulses shorter than a gate's delay still
+ * pass through and glitches show up on the trace.
+ */
+export function simulateCircuit(circuit: Circuit, initial: number[], stimuli: Stimulus[]): SimulationTrace {
+  const drivers = driverMap(circuit);
+  const fanout = fanoutMap(circuit);
+  const byId = new Map(circuit.nodes.map((n) => [n.id, n]));
+  const values = evaluateCircuit(circuit, initial);
+  // Last value scheduled for each gate, so an unchanged result is not queued twice.
+  const projected = { ...values };
+  const waveforms: Record<string, Transition[]> = {};
+  for (const node of circuit.nodes) waveforms[node.id] = [{ time: 0, value: values[node.id] }];
+
+  let seq = 0;
+  const queue: (SimEvent & { seq: number })[] = stimuli
+    .filter((s) => byId.get(s.input)?.kind === "input")
+    .map((s) => ({ time: s.time, node: s.input, value: s.value ? 1 : 0, seq: seq++ }));
+  const events: SimEvent[] = [];
+  let end = stimuli.reduce((t, s) => Math.max(t, s.time), 0);
+
+  while (queue.length > 0 && events.length < MAX_EVENTS) {
+    queue.sort((a, b) => a.time - b.time || a.seq - b.seq);
+    const now = queue[0].time;
+    const touched = new Set<string>();
+    while (queue.length > 0 && queue[0].time === now) {
+      const event = queue.shift()!;
+      if (values[event.node] === event.value) continue;
+      const changed: string[] = [event.node];
+      values[event.node] = event.value;
+      // Outputs follow their driver with no delay of their own.
+      for (const to of fanout.get(event.node) ?? []) {
+        const node = byId.get(to)!;
+        if (node.kind === "output") {
+          values[to] = event.value;
+          projected[to] = event.value;
+          changed.push(to);
+        } else {
+          touched.add(to);
+        }
+      }
+      for (const id of changed) {
+        if (byId.get(id)?.kind === "input") projected[id] = values[id];
+        waveforms[id].push({ time: now, value: values[id] });
+        events.push({ time: now, node: id, value: values[id] });
+      }
+      end = Math.max(end, now);
+    }
+    for (const id of touched) {
+      const node = byId.get(id)!;
+      if (node.kind !== "gate") continue;
+      const value = evaluateNode(node, values, drivers);
+      if (value === projected[id]) continue;
+      projected[id] = value;
+      queue.push({ time: now + node.delay, node: id, value, seq: seq++ });
+    }
+  }
+
+  return { waveforms, events, end, truncated: queue.length > 0 };
+}
+
+export function valueAt(waveform: Transition[], time: number): number {
+  let value = waveform[0]?.value ?? 0;
+  for (const t of waveform) {
+    if (t.time > time) break;
+    value = t.value;
+  }
+  return value;
+}
+
+// ──────────────────────────── Hazards ────────────────────────────
+
+export interface Hazard {
+  node: string;
+  /** static-1: should hold 1 but dips to 0; static-0: the reverse; dynamic: bounces before switching. */
+  kind: "static-0" | "static-1" | "dynamic";
+  start: number;
+  end: number;
+}
+
+/**
+ * Scans `nodes` for more than one transition in response to a single set of
+ * input changes. Each stimulus time opens a window that lasts until the next
+ * one, so stimuli must be spaced wider than the critical path to tell a
+ * hazard from the circuit following two legitimate input changes.
+ */
+export function findHazards(trace: SimulationTrace, nodes: string[], stimuli: Stimulus[]): Hazard[] {
+  const starts = [...new Set(stimuli.map((s) => s.time))].sort((a, b) => a - b);
+  const hazards: Hazard[] = [];
+  for (const node of nodes) {
+    const waveform = trace.waveforms[node] ?? [];
+    starts.forEach((start, i) => {
+      const stop = starts[i + 1] ?? Infinity;
+      const inWindow = waveform.filter((t) => t.time > start && t.time < stop);
+      if (inWindow.length < 2) return;
+      const before = valueAt(waveform, start);
+      const after = inWindow[inWindow.length - 1].value;
+      hazards.push({
+        node,
+        kind: before === after ? (before ? "static-1" : "static-0") : "dynamic",
+        start: inWindow[0].time,
+        end: inWindow[inWindow.length - 1].time,
+      });
+    });
+  }
+  return hazards;
+}
+
+/**
+ * Walks every input combination in Gray-code order, so exactly one input
+ * changes per step, holding each for `period` time units.
+ */
+export function grayCodeSweep(circuit: Circuit, period: number): Stimulus[] {
+  const inputs = circuitInputs(circuit);
+  const stimuli: Stimulus[] = [];
+  let previous = 0;
+  for (let i = 1; i < 2 ** inputs.length; i++) {
+    const code = i ^ (i >> 1);
+    const bit = Math.log2(code ^ previous);
+    stimuli.push({ time: i * period, input: inputs[bit].id, value: (code >> bit) & 1 });
+    previous = code;
+  }
+  return stimuli;
+}
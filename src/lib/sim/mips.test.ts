@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { DATA_BASE, TEXT_BASE, assemble, disassemble, parseMachineWords } from "./mips";
+
+function words(source: string): number[] {
+  const result = assemble(source);
+  expect(result.diagnostics).toEqual([]);
+  return result.instructions.map((i) => i.word);
+}
+
+describe("assemble", () => {
+  it("encodes each format with the textbook field values", () => {
+    expect(words("add $t0, $t1, $t2")).toEqual([0x012a4020]);
+    expect(words("lw $t0, 4($t1)")).toEqual([0x8d280004]);
+    expect(words("sw $t0, -8($sp)")).toEqual([0xafa8fff8]);
+    expect(words("sll $t0, $t1, 2")).toEqual([0x00094080]);
+    expect(words("ori $8, $0, 0xffff")).toEqual([0x3408ffff]);
+    expect(words("JR $ra")).toEqual([0x03e00008]);
+  });
+
+  it("resolves labels PC-relative for branches and absolute for jumps", () => {
+    const result = assemble(`
+main:   addi $t0, $zero, 3
+loop:   addi $t0, $t0, -1   # count down
+        bne  $t0, $zero, loop
+        beq  $zero, $zero, done
+        j    main
+done:   jal  loop`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.labels).toEqual({ main: TEXT_BASE, loop: TEXT_BASE + 4, done: TEXT_BASE + 20 });
+    const [, , bne, beq, j, jal] = result.instructions;
+    expect(bne.word & 0xffff).toBe(0xfffe); // (0x04 − 0x0c) / 4
+    expect(beq.word & 0xffff).toBe(1);
+    expect(j.word).toBe(0x08100000);
+    expect(jal.word).toBe(0x0c100001);
+    expect(disassemble(bne.word, bne.address).target).toBe(TEXT_BASE + 4);
+  });
+
+  it("expands pseudo-instructions", () => {
+    const result = assemble(`
+        .data
+value:  .word 7, value
+        .text
+        li   $t0, 5
+        li   $t1, 0x9000
+        li   $t2, 0x12345678
+        li   $t3, -70000
+        move $s0, $t0
+        la   $a0, value
+        blt  $t0, $t1, end
+        nop
+end:    bge  $t0, $t1, end`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.instructions.map((i) => i.text)).toEqual([
+      "ADDIU $t0, $zero, 5",
+      "ORI $t1, $zero, 0x9000",
+      "LUI $t2, 0x1234",
+      "ORI $t2, $t2, 0x5678",
+      "LUI $t3, 0xfffe",
+      "ORI $t3, $t3, 0xee90",
+      "ADDU $s0, $zero, $t0",
+      "LUI $at, 0x1001",
+      "ORI $a0, $at, 0x0",
+      "SLT $at, $t0, $t1",
+      "BNE $at, $zero, 1",
+      "NOP",
+      "SLT $at, $t0, $t1",
+      "BEQ $at, $zero, -2",
+    ]);
+    expect(result.instructions[2]).toMatchObject({ pseudo: "li", source: "li   $t2, 0x12345678", line: 7 });
+    expect(result.data).toEqual([
+      { address: DATA_BASE, word: 7, line: 3 },
+      { address: DATA_BASE + 4, word: DATA_BASE, line: 3 },
+    ]);
+  });
+
+  it("reports every problem with its line and column", () => {
+    const result = assemble(`start: add $t0, $t1
+        addi $t0, $t10, 1
+        addi $t0, $t0, 40000
+        frob $t0
+        beq $t0, $t1, nowhere
+start:  lw $t0, ($t1
+        .word 3`);
+    expect(result.diagnostics).toEqual([
+      { line: 1, column: 20, message: "add takes 3 operands (rd, rs, rt), found 2" },
+      { line: 2, column: 19, message: "Unknown register $t10" },
+      { line: 3, column: 24, message: "40000 does not fit a signed 16-bit immediate (-32768 to 32767)" },
+      { line: 4, column: 9, message: "Unknown instruction 'frob'" },
+      { line: 5, column: 23, message: "Undefined label 'nowhere'" },
+      { line: 6, column: 1, message: "Label 'start' is already defined on line 1" },
+      { line: 6, column: 17, message: "Expected offset($base), found '($t1'" },
+      { line: 7, column: 9, message: ".word belongs in the .data segment" },
+    ]);
+  });
+});
+
+describe("disassemble", () => {
+  it("round-trips everything the assembler emits", () => {
+    const { instructions } = assemble(`
+top:  add $t0, $t1, $t2
+      sra $t0, $t0, 31
+      lbu $t1, -1($a0)
+      sltiu $v0, $a1, 100
+      bne $t0, $t1, top
+      jal top`);
+    for (const instr of instructions) {
+      const decoded = disassemble(instr.word, instr.address);
+      expect(decoded.mnemonic).toBe(instr.mnemonic);
+      expect(assemble(`.text\n${decoded.text.replace(/0x[0-9a-f]{8}$/, "top")}\ntop:`).diagnostics).toEqual([]);
+    }
+  });
+
+  it("splits words into the format's fields", () => {
+    expect(disassemble(0x012a4020).fields.map((f) => [f.name, f.value])).toEqual([
+      ["opcode", 0],
+      ["rs", 9],
+      ["rt", 10],
+      ["rd", 8],
+      ["shamt", 0],
+      ["funct", 0x20],
+    ]);
+    expect(disassemble(0x8d280004).text).toBe("LW $t0, 4($t1)");
+    expect(disassemble(0x08100003)).toMatchObject({ format: "J", text: "J 0x0040000c", target: 0x0040000c });
+    expect(disassemble(0xfc000000)).toMatchObject({ mnemonic: null, text: ".word 0xfc000000" });
+  });
+
+  it("reads hex and binary words with positions for bad tokens", () => {
+    const { words: parsed, diagnostics } = parseMachineWords("0x012A4020, 8d280004\n00000000000000000000000000001000 zz # done");
+    expect(parsed.map((w) => w.word)).toEqual([0x012a4020, 0x8d280004, 8]);
+    expect(diagnostics).toEqual([{ line: 2, column: 34, message: "'zz' is not a 32-bit word in hex or binary" }]);
+  });
+});
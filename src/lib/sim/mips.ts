@@ -0,0 +1,556 @@
+/**
+ * A two-pass assembler and a disassembler for the MIPS I subset the course
+ * uses. The first pass strips comments, records labels, expands
+ * pseudo-instructions (li, move, la, blt and friends) into the real ones
+ * they stand for and assigns addresses; the second encodes, resolving branch
+ * labels PC-relative — (target − (PC + 4)) / 4 — and jump labels to the
+ * 26-bit word address. Problems are collected with a 1-based line and column
+ * instead of thrown, so an editor can mark every one of them at once.
+ */
+
+export type MipsFormat = "R" | "I" | "J";
+
+/** How each operand is written and which field it fills. */
+export type OperandSlot = "rd" | "rs" | "rt" | "shamt" | "simm" | "uimm" | "mem" | "branch" | "target";
+
+export interface MipsInstructionSpec {
+  mnemonic: string;
+  name: string;
+  format: MipsFormat;
+  opcode: number;
+  funct?: number;
+  operands: OperandSlot[];
+}
+
+export interface MipsField {
+  name: string;
+  bits: number;
+  value: number;
+}
+
+export interface AssembledInstruction {
+  address: number;
+  word: number;
+  mnemonic: string;
+  format: MipsFormat;
+  /** The instruction as the disassembler prints it. */
+  text: string;
+  line: number;
+  /** The statement as written, which for a pseudo-instruction covers every word it expands to. */
+  source: string;
+  pseudo?: string;
+}
+
+export interface DataWord {
+  address: number;
+  word: number;
+  line: number;
+}
+
+export interface AssemblyDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface AssemblyResult {
+  instructions: AssembledInstruction[];
+  data: DataWord[];
+  labels: Record<string, number>;
+  diagnostics: AssemblyDiagnostic[];
+}
+
+export interface DecodedInstruction {
+  word: number;
+  format: MipsFormat;
+  /** Null when no supported instruction has this opcode and funct. */
+  mnemonic: string | null;
+  fields: MipsField[];
+  text: string;
+  /** Branch or jump destination. */
+  target?: number;
+}
+
+export interface MachineWord {
+  word: number;
+  line: number;
+  column: number;
+}
+
+export const TEXT_BASE = 0x00400000;
+export const DATA_BASE = 0x10010000;
+
+export const MIPS_REGISTERS = [
+  "$zero", "$at", "$v0", "$v1", "$a0", "$a1", "$a2", "$a3",
+  "$t0", "$t1", "$t2", "$t3", "$t4", "$t5", "$t6", "$t7",
+  "$s0", "$s1", "$s2", "$s3", "$s4", "$s5", "$s6", "$s7",
+  "$t8", "$t9", "$k0", "$k1", "$gp", "$sp", "$fp", "$ra",
+];
+
+const FIELD_LAYOUT: Record<MipsFormat, [string, number][]> = {
+  R: [["opcode", 6], ["rs", 5], ["rt", 5], ["rd", 5], ["shamt", 5], ["funct", 6]],
+  I: [["opcode", 6], ["rs", 5], ["rt", 5], ["immediate", 16]],
+  J: [["opcode", 6], ["address", 26]],
+};
+
+// ──────────────────────────── Instruction set ────────────────────────────
+
+function r(mnemonic: string, name: string, funct: number, operands: OperandSlot[]): MipsInstructionSpec {
+  return { mnemonic, name, format: "R", opcode: 0, funct, operands };
+}
+
+function i(mnemonic: string, name: string, opcode: number, operands: OperandSlot[]): MipsInstructionSpec {
+  return { mnemonic, name, format: "I", opcode, operands };
+}
+
+function j(mnemonic: string, name: string, opcode: number): MipsInstructionSpec {
+  return { mnemonic, name, format: "J", opcode, operands: ["target"] };
+}
+
+const ARITH: OperandSlot[] = ["rd", "rs", "rt"];
+const SHIFT: OperandSlot[] = ["rd", "rt", "shamt"];
+const IMM_SIGNED: OperandSlot[] = ["rt", "rs", "simm"];
+const IMM_UNSIGNED: OperandSlot[] = ["rt", "rs", "uimm"];
+const MEMORY: OperandSlot[] = ["rt", "mem"];
+const BRANCH: OperandSlot[] = ["rs", "rt", "branch"];
+
+export const MIPS_INSTRUCTIONS: Record<string, MipsInstructionSpec> = Object.fromEntries(
+  [
+    r("add", "Add", 0x20, ARITH),
+    r("addu", "Add Unsigned", 0x21, ARITH),
+    r("sub", "Subtract", 0x22, ARITH),
+    r("subu", "Subtract Unsigned", 0x23, ARITH),
+    r("and", "AND", 0x24, ARITH),
+    r("or", "OR", 0x25, ARITH),
+    r("xor", "XOR", 0x26, ARITH),
+    r("nor", "NOR", 0x27, ARITH),
+    r("slt", "Set on Less Than", 0x2a, ARITH),
+    r("sltu", "Set on Less Than Unsigned", 0x2b, ARITH),
+    r("sll", "Shift Left Logical", 0x00, SHIFT),
+    r("srl", "Shift Right Logical", 0x02, SHIFT),
+    r("sra", "Shift Right Arithmetic", 0x03, SHIFT),
+    r("jr", "Jump Register", 0x08, ["rs"]),
+    i("beq", "Branch if Equal", 0x04, BRANCH),
+    i("bne", "Branch if Not Equal", 0x05, BRANCH),
+    i("addi", "Add Immediate", 0x08, IMM_SIGNED),
+    i("addiu", "Add Immediate Unsigned", 0x09, IMM_SIGNED),
+    i("slti", "Set on Less Than Immediate", 0x0a, IMM_SIGNED),
+    i("sltiu", "Set on Less Than Immediate Unsigned", 0x0b, IMM_SIGNED),
+    i("andi", "AND Immediate", 0x0c, IMM_UNSIGNED),
+    i("ori", "OR Immediate", 0x0d, IMM_UNSIGNED),
+    i("xori", "XOR Immediate", 0x0e, IMM_UNSIGNED),
+    i("lui", "Load Upper Immediate", 0x0f, ["rt", "uimm"]),
+    i("lb", "Load Byte", 0x20, MEMORY),
+    i("lw", "Load Word", 0x23, MEMORY),
+    i("lbu", "Load Byte Unsigned", 0x24, MEMORY),
+    i("sb", "Store Byte", 0x28, MEMORY),
+    i("sw", "Store Word", 0x2b, MEMORY),
+    j("j", "Jump", 0x02),
+    j("jal", "Jump and Link", 0x03),
+  ].map((spec) => [spec.mnemonic, spec]),
+);
+
+/** Pseudo-instructions and the operands they take, for diagnostics and the reference list. */
+export const MIPS_PSEUDO_INSTRUCTIONS: Record<string, { operands: string[]; expansion: string }> = {
+  nop: { operands: [], expansion: "sll $zero, $zero, 0" },
+  move: { operands: ["rd", "rs"], expansion: "addu rd, $zero, rs" },
+  li: { operands: ["rt", "imm"], expansion: "addiu rt, $zero, imm — or ori, or lui + ori past 16 bits" },
+  la: { operands: ["rt", "label"], expansion: "lui $at, %hi(label); ori rt, $at, %lo(label)" },
+  blt: { operands: ["rs", "rt", "label"], expansion: "slt $at, rs, rt; bne $at, $zero, label" },
+  bgt: { operands: ["rs", "rt", "label"], expansion: "slt $at, rt, rs; bne $at, $zero, label" },
+  ble: { operands: ["rs", "rt", "label"], expansion: "slt $at, rt, rs; beq $at, $zero, label" },
+  bge: { operands: ["rs", "rt", "label"], expansion: "slt $at, rs, rt; beq $at, $zero, label" },
+};
+
+const R_BY_FUNCT = new Map(Object.values(MIPS_INSTRUCTIONS).filter((s) => s.format === "R").map((s) => [s.funct!, s]));
+const BY_OPCODE = new Map(Object.values(MIPS_INSTRUCTIONS).filter((s) => s.format !== "R").map((s) => [s.opcode, s]));
+
+// ──────────────────────────── Operands ────────────────────────────
+
+/** Raised while handling one statement; `column` is 1-based within its line. */
+class LineError extends SyntaxError {
+  constructor(
+    message: string,
+    readonly column: number,
+  ) {
+    super(message);
+  }
+}
+
+interface Operand {
+  text: string;
+  column: number;
+  /** Which half of a label's address `la` loads. */
+  part?: "hi" | "lo";
+}
+
+const LABEL = /^[A-Za-z_][\w.]*$/;
+const NUMBER = /^[-+]?(0x[0-9a-f]+|0b[01]+|\d+)$/i;
+
+function parseNumber(text: string): number | null {
+  if (!NUMBER.test(text)) return null;
+  const negative = text.startsWith("-");
+  const digits = text.replace(/^[-+]/, "");
+  const value = /^0b/i.test(digits) ? parseInt(digits.slice(2), 2) : Number(digits);
+  return negative ? -value : value;
+}
+
+function parseRegister(op: Operand): number {
+  const m = /^\$(\w+)$/.exec(op.text);
+  if (!m) throw new LineError(`Expected a register, found '${op.text}'`, op.column);
+  const index = /^\d+$/.test(m[1]) ? Number(m[1]) : MIPS_REGISTERS.indexOf(`$${m[1].toLowerCase()}`);
+  if (index < 0 || index > 31) throw new LineError(`Unknown register ${op.text}`, op.column);
+  return index;
+}
+
+function numberInRange(op: Operand, text: string, min: number, max: number, what: string): number {
+  const value = parseNumber(text);
+  if (value === null) throw new LineError(`Expected ${what}, found '${text}'`, op.column);
+  if (value < min || value > max) throw new LineError(`${value} does not fit ${what} (${min} to ${max})`, op.column);
+  return value;
+}
+
+/** Splits the operand list on commas, keeping each operand's column. */
+function splitOperands(text: string, start: number): Operand[] {
+  if (!text.trim()) return [];
+  const operands: Operand[] = [];
+  let from = 0;
+  for (const piece of text.split(",")) {
+    const lead = piece.length - piece.trimStart().length;
+    operands.push({ text: piece.trim(), column: start + from + lead + 1 });
+    from += piece.length + 1;
+  }
+  return operands;
+}
+
+// ──────────────────────────── Encoding ────────────────────────────
+
+function pack(format: MipsFormat, values: Record<string, number>): number {
+  let word = 0;
+  for (const [name, bits] of FIELD_LAYOUT[format]) {
+    word = word * 2 ** bits + ((values[name] ?? 0) & (2 ** bits - 1));
+  }
+  return word;
+}
+
+function resolve(op: Operand, labels: Record<string, number>): number {
+  const value = parseNumber(op.text);
+  if (value !== null) return value;
+  if (!LABEL.test(op.text)) throw new LineError(`Expected a label or address, found '${op.text}'`, op.column);
+  if (!(op.text in labels)) throw new LineError(`Undefined label '${op.text}'`, op.column);
+  return labels[op.text];
+}
+
+function encode(spec: MipsInstructionSpec, operands: Operand[], address: number, labels: Record<string, number>): number {
+  const values: Record<string, number> = { opcode: spec.opcode, funct: spec.funct ?? 0 };
+  spec.operands.forEach((slot, k) => {
+    const op = operands[k];
+    switch (slot) {
+      case "rd":
+      case "rs":
+      case "rt":
+        values[slot] = parseRegister(op);
+        break;
+      case "shamt":
+        values.shamt = numberInRange(op, op.text, 0, 31, "a shift amount");
+        break;
+      case "simm":
+        values.immediate = numberInRange(op, op.text, -32768, 32767, "a signed 16-bit immediate");
+        break;
+      case "uimm":
+        if (op.part) {
+          const full = resolve(op, labels) >>> 0;
+          values.immediate = op.part === "hi" ? full >>> 16 : full & 0xffff;
+        } else {
+          values.immediate = numberInRange(op, op.text, 0, 0xffff, "an unsigned 16-bit immediate");
+        }
+        break;
+      case "mem": {
+        const m = /^(.*?)\s*\(\s*(\$\w+)\s*\)$/.exec(op.text);
+        if (!m) throw new LineError(`Expected offset($base), found '${op.text}'`, op.column);
+        values.immediate = m[1] ? numberInRange(op, m[1], -32768, 32767, "a signed 16-bit offset") : 0;
+        values.rs = parseRegister({ text: m[2], column: op.column + op.text.indexOf("$") });
+        break;
+      }
+      case "branch": {
+        const label = parseNumber(op.text) === null;
+        const offset = label ? (resolve(op, labels) - (address + 4)) / 4 : resolve(op, labels);
+        if (!Number.isInteger(offset)) throw new LineError(`Branch target ${op.text} is not word-aligned`, op.column);
+        if (offset < -32768 || offset > 32767) {
+          throw new LineError(`Branch target ${op.text} is ${offset} words away, past the 16-bit offset`, op.column);
+        }
+        values.immediate = offset;
+        break;
+      }
+      case "target": {
+        const target = resolve(op, labels);
+        if (target % 4 !== 0) throw new LineError(`Jump target ${op.text} is not word-aligned`, op.column);
+        if (Math.floor(target / 2 ** 28) !== Math.floor((address + 4) / 2 ** 28)) {
+          throw new LineError(`Jump target ${op.text} lies outside the current 256 MB region`, op.column);
+        }
+        values.address = target / 4;
+        break;
+      }
+    }
+  });
+  return pack(spec.format, values);
+}
+
+// ──────────────────────────── Pseudo-instructions ────────────────────────────
+
+interface Expanded {
+  mnemonic: string;
+  operands: Operand[];
+}
+
+function expandPseudo(mnemonic: string, ops: Operand[], column: number): Expanded[] {
+  const reg = (name: string): Operand => ({ text: name, column });
+  const num = (value: number): Operand => ({ text: String(value), column });
+  switch (mnemonic) {
+    case "nop":
+      return [{ mnemonic: "sll", operands: [reg("$zero"), reg("$zero"), num(0)] }];
+    case "move":
+      return [{ mnemonic: "addu", operands: [ops[0], reg("$zero"), ops[1]] }];
+    case "li": {
+      const value = numberInRange(ops[1], ops[1].text, -(2 ** 31), 2 ** 32 - 1, "a 32-bit immediate");
+      if (value >= -32768 && value <= 32767) return [{ mnemonic: "addiu", operands: [ops[0], reg("$zero"), ops[1]] }];
+      if (value >= 0 && value <= 0xffff) return [{ mnemonic: "ori", operands: [ops[0], reg("$zero"), ops[1]] }];
+      const word = value >>> 0;
+      const upper: Expanded = { mnemonic: "lui", operands: [ops[0], num(word >>> 16)] };
+      return (word & 0xffff) === 0 ? [upper] : [upper, { mnemonic: "ori", operands: [ops[0], ops[0], num(word & 0xffff)] }];
+    }
+    case "la":
+      return [
+        { mnemonic: "lui", operands: [reg("$at"), { ...ops[1], part: "hi" }] },
+        { mnemonic: "ori", operands: [ops[0], reg("$at"), { ...ops[1], part: "lo" }] },
+      ];
+    default: {
+      // blt/bge compare rs < rt, bgt/ble swap the operands; blt/bgt branch when the slt sets $at
+      const swap = mnemonic === "bgt" || mnemonic === "ble";
+      const [a, b] = swap ? [ops[1], ops[0]] : [ops[0], ops[1]];
+      return [
+        { mnemonic: "slt", operands: [reg("$at"), a, b] },
+        { mnemonic: mnemonic === "blt" || mnemonic === "bgt" ? "bne" : "beq", operands: [reg("$at"), reg("$zero"), ops[2]] },
+      ];
+    }
+  }
+}
+
+// ──────────────────────────── Assembler ────────────────────────────
+
+interface Statement {
+  line: number;
+  source: string;
+  address: number;
+  parts: Expanded[];
+  pseudo?: string;
+}
+
+interface DataStatement {
+  line: number;
+  address: number;
+  values: Operand[];
+}
+
+/**
+ * Assembles `source` into words at TEXT_BASE, with `.data` words at
+ * DATA_BASE. Supports `#` comments, `label:` prefixes (several per line),
+ * `.text`, `.data`, `.word`, `.space` and `.globl`.
+ */
+export function assemble(source: string): AssemblyResult {
+  const diagnostics: AssemblyDiagnostic[] = [];
+  const labels: Record<string, number> = {};
+  const labelLines: Record<string, number> = {};
+  const statements: Statement[] = [];
+  const dataStatements: DataStatement[] = [];
+  let segment: "text" | "data" = "text";
+  const next = { text: TEXT_BASE, data: DATA_BASE };
+
+  source.split("\n").forEach((raw, index) => {
+    const line = index + 1;
+    const hash = raw.indexOf("#");
+    let rest = hash < 0 ? raw : raw.slice(0, hash);
+    let offset = 0;
+    try {
+      for (let m = /^\s*([A-Za-z_][\w.]*)\s*:/.exec(rest); m; m = /^\s*([A-Za-z_][\w.]*)\s*:/.exec(rest)) {
+        const name = m[1];
+        const column = offset + m[0].indexOf(name) + 1;
+        if (name in labels) {
+          diagnostics.push({ line, column, message: `Label '${name}' is already defined on line ${labelLines[name]}` });
+        } else {
+          labels[name] = next[segment];
+          labelLines[name] = line;
+        }
+        offset += m[0].length;
+        rest = rest.slice(m[0].length);
+      }
+
+      const body = rest.trim();
+      if (!body) return;
+      const start = offset + rest.indexOf(body);
+      const head = /^\S+/.exec(body)![0];
+      const operands = splitOperands(body.slice(head.length), start + head.length);
+      const name = head.toLowerCase();
+
+      if (name.startsWith(".")) {
+        if (name === ".text" || name === ".data") {
+          segment = name === ".text" ? "text" : "data";
+        } else if (name === ".globl") {
+          // Entry-point markers need no code
+        } else if (name === ".word" || name === ".space") {
+          if (segment !== "data") throw new LineError(`${name} belongs in the .data segment`, start + 1);
+          if (operands.length === 0) throw new LineError(`${name} needs a value`, start + head.length + 1);
+          if (name === ".word") {
+            dataStatements.push({ line, address: next.data, values: operands });
+            next.data += 4 * operands.length;
+          } else {
+            const bytes = numberInRange(operands[0], operands[0].text, 0, 0x10000, "a byte count");
+            const words = Math.ceil(bytes / 4);
+            dataStatements.push({ line, address: next.data, values: Array.from({ length: words }, () => ({ text: "0", column: 0 })) });
+            next.data += 4 * words;
+          }
+        } else {
+          throw new LineError(`Unknown directive ${head}`, start + 1);
+        }
+        return;
+      }
+
+      if (segment !== "text") throw new LineError("Instructions belong in the .text segment", start + 1);
+      const spec = MIPS_INSTRUCTIONS[name];
+      const pseudo = MIPS_PSEUDO_INSTRUCTIONS[name];
+      if (!spec && !pseudo) throw new LineError(`Unknown instruction '${head}'`, start + 1);
+      const expected = spec ? spec.operands : pseudo.operands;
+      if (operands.length !== expected.length) {
+        const where = operands.length > expected.length ? operands[expected.length].column : start + body.length + 1;
+        throw new LineError(
+          `${name} takes ${expected.length} operand${expected.length === 1 ? "" : "s"} (${expected.join(", ")}), found ${operands.length}`,
+          where,
+        );
+      }
+      const blank = operands.find((op) => !op.text);
+      if (blank) throw new LineError("Missing operand", blank.column);
+
+      const parts = spec ? [{ mnemonic: name, operands }] : expandPseudo(name, operands, start + 1);
+      statements.push({ line, source: body, address: next.text, parts, pseudo: spec ? undefined : name });
+      next.text += 4 * parts.length;
+    } catch (err) {
+      if (!(err instanceof LineError)) throw err;
+      diagnostics.push({ line, column: err.column, message: err.message });
+    }
+  });
+
+  const instructions: AssembledInstruction[] = [];
+  for (const st of statements) {
+    try {
+      const words = st.parts.map((part, k) => encode(MIPS_INSTRUCTIONS[part.mnemonic], part.operands, st.address + 4 * k, labels));
+      words.forEach((word, k) => {
+        const spec = MIPS_INSTRUCTIONS[st.parts[k].mnemonic];
+        const address = st.address + 4 * k;
+        instructions.push({
+          address,
+          word,
+          mnemonic: spec.mnemonic,
+          format: spec.format,
+          text: disassemble(word, address).text,
+          line: st.line,
+          source: st.source,
+          pseudo: st.pseudo,
+        });
+      });
+    } catch (err) {
+      if (!(err instanceof LineError)) throw err;
+      diagnostics.push({ line: st.line, column: err.column, message: err.message });
+    }
+  }
+
+  const data: DataWord[] = [];
+  for (const st of dataStatements) {
+    for (const [k, op] of st.values.entries()) {
+      try {
+        const value = resolve(op, labels);
+        if (value < -(2 ** 31) || value > 2 ** 32 - 1) throw new LineError(`${value} does not fit in a 32-bit word`, op.column);
+        data.push({ address: st.address + 4 * k, word: value >>> 0, line: st.line });
+      } catch (err) {
+        if (!(err instanceof LineError)) throw err;
+        diagnostics.push({ line: st.line, column: err.column, message: err.message });
+      }
+    }
+  }
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { instructions, data, labels, diagnostics };
+}
+
+// ──────────────────────────── Disassembler ────────────────────────────
+
+export function instructionFields(word: number, format: MipsFormat): MipsField[] {
+  let shift = 32;
+  return FIELD_LAYOUT[format].map(([name, bits]) => {
+    shift -= bits;
+    return { name, bits, value: Math.floor(word / 2 ** shift) % 2 ** bits };
+  });
+}
+
+function hex(value: number, digits = 8): string {
+  return `0x${(value >>> 0).toString(16).padStart(digits, "0")}`;
+}
+
+/** Decodes one word; `address` places branch and jump targets. */
+export function disassemble(word: number, address = TEXT_BASE): DecodedInstruction {
+  word >>>= 0;
+  const opcode = word >>> 26;
+  const format: MipsFormat = opcode === 0 ? "R" : opcode === 2 || opcode === 3 ? "J" : "I";
+  const fields = instructionFields(word, format);
+  const value = Object.fromEntries(fields.map((f) => [f.name, f.value]));
+  const spec = opcode === 0 ? R_BY_FUNCT.get(value.funct) : BY_OPCODE.get(opcode);
+  if (!spec) return { word, format, mnemonic: null, fields, text: `.word ${hex(word)}` };
+  if (word === 0) return { word, format, mnemonic: spec.mnemonic, fields, text: "NOP" };
+
+  const signed = value.immediate >= 0x8000 ? value.immediate - 0x10000 : value.immediate;
+  let target: number | undefined;
+  const operands = spec.operands.map((slot) => {
+    switch (slot) {
+      case "rd":
+      case "rs":
+      case "rt":
+        return MIPS_REGISTERS[value[slot]];
+      case "shamt":
+        return String(value.shamt);
+      case "simm":
+        return String(signed);
+      case "uimm":
+        return `0x${value.immediate.toString(16)}`;
+      case "mem":
+        return `${signed}(${MIPS_REGISTERS[value.rs]})`;
+      case "branch":
+        target = (address + 4 + signed * 4) >>> 0;
+        return String(signed);
+      case "target":
+        target = (Math.floor((address + 4) / 2 ** 28) * 2 ** 28 + value.address * 4) >>> 0;
+        return hex(target);
+    }
+  });
+  const text = `${spec.mnemonic.toUpperCase()}${operands.length ? " " : ""}${operands.join(", ")}`;
+  return { word, format, mnemonic: spec.mnemonic, fields, text, target };
+}
+
+/**
+ * Reads machine words written as hex (with or without 0x, up to 8 digits) or
+ * as 32 binary digits, separated by whitespace or commas; `#` starts a comment.
+ */
+export function parseMachineWords(text: string): { words: MachineWord[]; diagnostics: AssemblyDiagnostic[] } {
+  const words: MachineWord[] = [];
+  const diagnostics: AssemblyDiagnostic[] = [];
+  text.split("\n").forEach((raw, index) => {
+    const hash = raw.indexOf("#");
+    const body = hash < 0 ? raw : raw.slice(0, hash);
+    for (const m of body.matchAll(/[^\s,]+/g)) {
+      const token = m[0];
+      const at = { line: index + 1, column: m.index! + 1 };
+      if (/^[01]{32}$/.test(token)) words.push({ word: parseInt(token, 2), ...at });
+      else if (/^(0x)?[0-9a-f]{1,8}$/i.test(token)) words.push({ word: parseInt(token.replace(/^0x/i, ""), 16), ...at });
+      else diagnostics.push({ ...at, message: `'${token}' is not a 32-bit word in hex or binary` });
+    }
+  });
+  return { words, diagnostics };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { kruskal, prim, type MSTEdge, type MSTNode } from "./mst";
+
+const node = (id: number, label: string): MSTNode => ({ id, label, x: 0, y: 0 });
+
+// Classic textbook graph (CLRS fig. 23.1): MST weight 37
+const LABELS = ["a", "b", "c", "d", "e", "f", "g", "h", "i"];
+const NODES = LABELS.map((l, i) => node(i, l));
+const EDGES: MSTEdge[] = [
+  [0, 1, 4], [0, 7, 8], [1, 2, 8], [1, 7, 11], [2, 3, 7], [2, 8, 2], [2, 5, 4],
+  [3, 4, 9], [3, 5, 14], [4, 5, 10], [5, 6, 2], [6, 7, 1], [6, 8, 6], [7, 8, 7],
+].map(([from, to, weight]) => ({ from, to, weight }));
+
+describe("kruskal", () => {
+  it("finds the minimum spanning tree", () => {
+    const last = kruskal(NODES, EDGES).at(-1)!;
+    expect(last.totalWeight).toBe(37);
+    expect(last.selectedEdges).toHaveLength(NODES.length - 1);
+  });
+
+  it("rejects an edge that would close a cycle", () => {
+    const steps = kruskal(NODES, EDGES);
+    // h–i (7) joins two vertices already connected through g and c
+    expect(steps.some((s) => s.description.startsWith("Reject h—i"))).toBe(true);
+  });
+
+  it("adds edges in non-decreasing weight order", () => {
+    const weights = kruskal(NODES, EDGES).at(-1)!.selectedEdges.map((e) => e.weight);
+    expect(weights).toEqual([...weights].sort((a, b) => a - b));
+  });
+});
+
+describe("prim", () => {
+  it("finds a tree of the same weight as Kruskal's", () => {
+    const last = prim(NODES, EDGES).at(-1)!;
+    expect(last.totalWeight).toBe(37);
+    expect(last.selectedEdges).toHaveLength(NODES.length - 1);
+  });
+
+  it("grows the tree from the first node", () => {
+    const [first] = prim(NODES, EDGES).at(-1)!.selectedEdges;
+    expect(first).toEqual({ from: 0, to: 1, weight: 4 });
+  });
+});
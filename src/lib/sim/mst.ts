@@ -0,0 +1,125 @@
+/**
+ * Minimum spanning tree algorithms used by the 4.10 MST module. Each returns
+ * the full list of animation steps; the last step holds the finished tree.
+ */
+
+export interface MSTNode { id: number; label: string; x: number; y: number; }
+export interface MSTEdge { from: number; to: number; weight: number; }
+
+export interface MSTStep {
+  selectedEdges: { from: number; to: number; weight: number }[];
+  considering?: { from: number; to: number; weight: number };
+  description: string;
+  components?: number[][];
+  totalWeight: number;
+}
+
+export function kruskal(nodes: MSTNode[], edges: MSTEdge[]): MSTStep[] {
+  const sorted = [...edges].sort((a, b) => a.weight - b.weight);
+  const parent = Array.from({ length: nodes.length }, (_, i) => i);
+  const rank = Array(nodes.length).fill(0);
+  const steps: MSTStep[] = [];
+  const selected: MSTEdge[] = [];
+
+  function find(x: number): number { return parent[x] === x ? x : (parent[x] = find(parent[x])); }
+  function union(x: number, y: number): boolean {
+    const px = find(x), py = find(y);
+    if (px === py) return false;
+    if (rank[px] < rank[py]) parent[px] = py;
+    else if (rank[px] > rank[py]) parent[py] = px;
+    else { parent[py] = px; rank[px]++; }
+    return true;
+  }
+
+  steps.push({ selectedEdges: [], description: `Kruskal"s: Sort ${edges.length} edges by weight`, totalWeight: 0 });
+
+  for (const edge of sorted) {
+    steps.push({
+      selectedEdges: [...selected],
+      considering: edge,
+      description: `Consider edge ${nodes[edge.from].label}—${nodes[edge.to].label} (weight ${edge.weight})`,
+      totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+    });
+
+    if (union(edge.from, edge.to)) {
+      selected.push(edge);
+      steps.push({
+        selectedEdges: [...selected],
+        description: `Accept ${nodes[edge.from].label}—${nodes[edge.to].label}: different components → add to MST`,
+        totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+      });
+    } else {
+      steps.push({
+        selectedEdges: [...selected],
+        description: `Reject ${nodes[edge.from].label}—${nodes[edge.to].label}: same component → would create cycle`,
+        totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+      });
+    }
+
+    if (selected.length === nodes.length - 1) break;
+  }
+
+  steps.push({
+    selectedEdges: [...selected],
+    description: `MST complete! Total weight: ${selected.reduce((s, e) => s + e.weight, 0)}`,
+    totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+  });
+
+  return steps;
+}
+
+export function prim(nodes: MSTNode[], edges: MSTEdge[]): MSTStep[] {
+  const adj = new Map<number, { to: number; weight: number }[]>();
+  nodes.forEach(n => adj.set(n.id, []));
+  edges.forEach(e => {
+    adj.get(e.from)!.push({ to: e.to, weight: e.weight });
+    adj.get(e.to)!.push({ to: e.from, weight: e.weight });
+  });
+
+  const inMST = new Set<number>();
+  const selected: MSTEdge[] = [];
+  const steps: MSTStep[] = [];
+  inMST.add(0);
+
+  steps.push({ selectedEdges: [], description: `Prim"s: Start from node ${nodes[0].label}`, totalWeight: 0 });
+
+  while (inMST.size < nodes.length) {
+    let bestEdge: MSTEdge | null = null;
+    let bestWeight = Infinity;
+
+    for (const u of inMST) {
+      for (const { to: v, weight } of adj.get(u)!) {
+        if (!inMST.has(v) && weight < bestWeight) {
+          bestWeight = weight;
+          bestEdge = { from: u, to: v, weight };
+        }
+      }
+    }
+
+    if (!bestEdge) break;
+
+    steps.push({
+      selectedEdges: [...selected],
+      considering: bestEdge,
+      description: `Cheapest cross-edge: ${nodes[bestEdge.from].label}—${nodes[bestEdge.to].label} (weight ${bestEdge.weight})`,
+      totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+    });
+
+    selected.push(bestEdge);
+    inMST.add(bestEdge.to);
+
+    steps.push({
+      selectedEdges: [...selected],
+      description: `Add ${nodes[bestEdge.to].label} to MST. Tree now has ${inMST.size} nodes.`,
+      totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+    });
+  }
+
+  steps.push({
+    selectedEdges: [...selected],
+    description: `MST complete! Total weight: ${selected.reduce((s, e) => s + e.weight, 0)}`,
+    totalWeight: selected.reduce((s, e) => s + e.weight, 0),
+  });
+
+  return steps;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { adderPasses, fromBits, runMulDiv, toBits } from "./muldiv";
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+describe("multiplication", () => {
+  it("matches unsigned products for shift-and-add", () => {
+    for (const a of range(16)) for (const b of range(16)) {
+      expect(fromBits(runMulDiv("shift-add", a, b, 4).result)).toBe(a * b);
+    }
+  });
+
+  for (const algorithm of ["booth-2", "booth-4"] as const) {
+    it(`matches signed products for ${algorithm} at even and odd widths`, () => {
+      for (const width of [4, 5]) {
+        const half = 2 ** (width - 1);
+        for (let a = -half; a < half; a++) for (let b = -half; b < half; b++) {
+          const run = runMulDiv(algorithm, a, b, width);
+          expect(run.result).toHaveLength(2 * width);
+          // `+ 0` folds −0 from products with zero.
+          expect(fromBits(run.result, true)).toBe(a * b + 0);
+        }
+      }
+    });
+  }
+
+  it("traces Booth radix-2 on 3 × −3", () => {
+    const steps = runMulDiv("booth-2", 3, -3, 4).steps;
+    expect(steps.map((s) => s.action)).toEqual([
+      "init", "add", "shift", "add", "shift", "add", "shift", "skip", "shift", "done",
+    ]);
+    // −3 = 1101: runs of 1s start at bits 0 and 2 and end at bit 1.
+    expect(steps.flatMap((s) => (s.addition ? [s.addition.addendLabel] : []))).toEqual(["−M", "M", "−M"]);
+    // M and A carry a guard bit so −M fits even for M = −8.
+    expect(steps[0].registers.map((r) => r.bits.length)).toEqual([5, 5, 4, 1]);
+  });
+
+  it("halves the iterations with radix-4 recoding", () => {
+    const radix2 = runMulDiv("booth-2", 0b01010101, 0b01010101, 8);
+    const radix4 = runMulDiv("booth-4", 0b01010101, 0b01010101, 8);
+    expect(radix2.steps.filter((s) => s.action === "shift")).toHaveLength(8);
+    expect(radix4.steps.filter((s) => s.action === "shift")).toHaveLength(4);
+    expect(adderPasses(radix2)).toBe(8);
+    expect(adderPasses(radix4)).toBe(4);
+  });
+});
+
+describe("division", () => {
+  for (const algorithm of ["restoring", "non-restoring"] as const) {
+    it(`matches quotient and remainder for ${algorithm}`, () => {
+      for (const a of range(32)) for (const b of range(32).slice(1)) {
+        const run = runMulDiv(algorithm, a, b, 5);
+        expect([fromBits(run.result), fromBits(run.remainder!)]).toEqual([Math.floor(a / b), a % b]);
+      }
+    });
+  }
+
+  it("restores only after failed subtractions", () => {
+    const restoring = runMulDiv("restoring", 13, 4, 4);
+    const nonRestoring = runMulDiv("non-restoring", 13, 4, 4);
+    expect(restoring.steps.filter((s) => s.action === "restore")).toHaveLength(2);
+    expect(adderPasses(restoring)).toBe(6);
+    expect(adderPasses(nonRestoring)).toBe(4);
+  });
+
+  it("rejects a zero divisor after wrapping", () => {
+    expect(() => runMulDiv("restoring", 5, 16, 4)).toThrow(RangeError);
+  });
+});
+
+describe("toBits", () => {
+  it("wraps negatives into two's complement", () => {
+    expect(toBits(-3, 4)).toEqual([1, 1, 0, 1]);
+    expect(fromBits([1, 1, 0, 1], true)).toBe(-3);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Register-level multiplication and division, one adder use or shift per
+ * step: shift-and-add, Booth radix-2 and radix-4 (modified Booth) multiply,
+ * and restoring / non-restoring divide. Bit arrays are MSB first, matching
+ * the binary arithmetic module's rows.
+ */
+
+export type MulDivAlgorithm = "shift-add" | "booth-2" | "booth-4" | "restoring" | "non-restoring";
+
+export const MULTIPLY_ALGORITHMS: MulDivAlgorithm[] = ["shift-add", "booth-2", "booth-4"];
+export const DIVIDE_ALGORITHMS: MulDivAlgorithm[] = ["restoring", "non-restoring"];
+
+/** Whether operands and results are read as two's complement. */
+export function isSigned(algorithm: MulDivAlgorithm): boolean {
+  return algorithm === "booth-2" || algorithm === "booth-4";
+}
+
+export interface Register {
+  name: string;
+  bits: number[];
+}
+
+/** One pass through the adder: `register ← before + addend`. */
+export interface AdderUse {
+  register: string;
+  before: number[];
+  addend: number[];
+  addendLabel: string;
+  /** Same layout as `result` plus the carry out at index 0. */
+  carries: number[];
+  result: number[];
+}
+
+export type MulDivAction = "init" | "add" | "skip" | "shift" | "restore" | "set-bit" | "correct" | "done";
+
+export interface MulDivStep {
+  iteration: number;
+  action: MulDivAction;
+  description: string;
+  /** Every register after this step. */
+  registers: Register[];
+  addition?: AdderUse;
+  /** Bits this step's decision was read from, as register name and bit indices. */
+  examined?: { register: string; bits: number[] };
+}
+
+export interface MulDivRun {
+  algorithm: MulDivAlgorithm;
+  width: number;
+  steps: MulDivStep[];
+  /** Product (2·width bits) or quotient (width bits). */
+  result: number[];
+  /** Division only, width bits. */
+  remainder?: number[];
+}
+
+// ──────────────────────────── Bits ────────────────────────────
+
+export function toBits(value: number, width: number): number[] {
+  const modulus = 2 ** width;
+  const v = ((value % modulus) + modulus) % modulus;
+  return Array.from({ length: width }, (_, i) => Math.floor(v / 2 ** (width - 1 - i)) % 2);
+}
+
+export function fromBits(bits: number[], signed = false): number {
+  const unsigned = bits.reduce((acc, b) => acc * 2 + b, 0);
+  return signed && bits[0] === 1 ? unsigned - 2 ** bits.length : unsigned;
+}
+
+function addBits(a: number[], b: number[]): { result: number[]; carries: number[] } {
+  const result = new Array<number>(a.length).fill(0);
+  const carries = new Array<number>(a.length + 1).fill(0);
+  for (let i = a.length - 1; i >= 0; i--) {
+    const sum = a[i] + b[i] + carries[i + 1];
+    result[i] = sum % 2;
+    carries[i] = sum >> 1;
+  }
+  return { result, carries };
+}
+
+function adderUse(register: string, before: number[], addend: number[], addendLabel: string): AdderUse {
+  return { register, before, addend, addendLabel, ...addBits(before, addend) };
+}
+
+/** Shift the concatenation of `regs` right by `by`, filling from `fill` (arithmetic when it is the sign). */
+function shiftRight(regs: number[][], by: number, fill: number): number[][] {
+  const joined = [...new Array<number>(by).fill(fill), ...regs.flat()].slice(0, regs.flat().length);
+  let offset = 0;
+  return regs.map((r) => {
+    const next = joined.slice(offset, offset + r.length);
+    offset += r.length;
+    return next;
+  });
+}
+
+function shiftLeft(regs: number[][]): number[][] {
+  const joined = [...regs.flat().slice(1), 0];
+  let offset = 0;
+  return regs.map((r) => {
+    const next = joined.slice(offset, offset + r.length);
+    offset += r.length;
+    return next;
+  });
+}
+
+/** `value` read as an n-bit two's complement number, widened to `width` bits. */
+const signExtend = (value: number, n: number, width: number) => toBits(fromBits(toBits(value, n), true), width);
+const negate = (bits: number[]) => toBits(-fromBits(bits, true), bits.length);
+const str = (bits: number[]) => bits.join("");
+
+// ──────────────────────────── Multiplication ────────────────────────────
+
+function shiftAdd(multiplicand: number, multiplier: number, n: number): MulDivRun {
+  const M = toBits(multiplicand, n);
+  let C = [0];
+  let A = toBits(0, n);
+  let Q = toBits(multiplier, n);
+  const regs = (): Register[] => [
+    { name: "M", bits: M },
+    { name: "C", bits: C },
+    { name: "A", bits: A },
+    { name: "Q", bits: Q },
+  ];
+  const steps: MulDivStep[] = [
+    { iteration: 0, action: "init", description: `Load M = ${str(M)}, Q = ${str(Q)}, clear C:A`, registers: regs() },
+  ];
+
+  for (let i = 1; i <= n; i++) {
+    const examined = { register: "Q", bits: [n - 1] };
+    if (Q[n - 1] === 1) {
+      const addition = adderUse("A", A, M, "M");
+      A = addition.result;
+      C = [addition.carries[0]];
+      steps.push({ iteration: i, action: "add", description: `Q₀ = 1: add the multiplicand, C:A ← A + M`, registers: regs(), addition, examined });
+    } else {
+      steps.push({ iteration: i, action: "skip", description: `Q₀ = 0: partial product is zero, skip the add`, registers: regs(), examined });
+    }
+    [C, A, Q] = shiftRight([C, A, Q], 1, 0);
+    steps.push({ iteration: i, action: "shift", description: `Shift C:A:Q right; ${n - i} multiplier bit${n - i === 1 ? "" : "s"} left`, registers: regs() });
+  }
+
+  const result = [...A, ...Q];
+  steps.push({ iteration: n, action: "done", description: `Product A:Q = ${str(result)} = ${fromBits(result)}`, registers: regs() });
+  return { algorithm: "shift-add", width: n, steps, result };
+}
+
+function boothRadix2(multiplicand: number, multiplier: number, n: number): MulDivRun {
+  // A guard bit keeps A − M from overflowing when M is the most negative value.
+  const M = signExtend(multiplicand, n, n + 1);
+  const negM = negate(M);
+  let A = toBits(0, n + 1);
+  let Q = toBits(multiplier, n);
+  let Q1 = [0];
+  const regs = (): Register[] => [
+    { name: "M", bits: M },
+    { name: "A", bits: A },
+    { name: "Q", bits: Q },
+    { name: "Q₋₁", bits: Q1 },
+  ];
+  const steps: MulDivStep[] = [
+    { iteration: 0, action: "init", description: `Load M = ${str(M)} (sign-extended by 1), Q = ${str(Q)}, clear A and Q₋₁`, registers: regs() },
+  ];
+
+  for (let i = 1; i <= n; i++) {
+    const pair = `${Q[n - 1]}${Q1[0]}`;
+    const examined = { register: "Q", bits: [n - 1] };
+    if (pair === "10" || pair === "01") {
+      const subtract = pair === "10";
+      const addition = adderUse("A", A, subtract ? negM : M, subtract ? "−M" : "M");
+      A = addition.result;
+      steps.push({
+        iteration: i,
+        action: "add",
+        description: subtract
+          ? `Q₀Q₋₁ = 10, start of a run of 1s: A ← A − M`
+          : `Q₀Q₋₁ = 01, end of a run of 1s: A ← A + M`,
+        registers: regs(),
+        addition,
+        examined,
+      });
+    } else {
+      steps.push({ iteration: i, action: "skip", description: `Q₀Q₋₁ = ${pair}, inside a run: no add`, registers: regs(), examined });
+    }
+    [A, Q, Q1] = shiftRight([A, Q, Q1], 1, A[0]);
+    steps.push({ iteration: i, action: "shift", description: `Arithmetic shift A:Q:Q₋₁ right, copying the sign bit`, registers: regs() });
+  }
+
+  const result = [...A, ...Q].slice(1);
+  steps.push({ iteration: n, action: "done", description: `Product = low ${2 * n} bits of A:Q = ${fromBits(result, true)}`, registers: regs() });
+  return { algorithm: "booth-2", width: n, steps, result };
+}
+
+/** Recoded digit for multiplier bits Q₁Q₀Q₋₁. */
+const BOOTH4_DIGITS: Record<string, number> = { "000": 0, "001": 1, "010": 1, "011": 2, "100": -2, "101": -1, "110": -1, "111": 0 };
+
+function boothRadix4(multiplicand: number, multiplier: number, n: number): MulDivRun {
+  // Two guard bits keep A + 2M from overflowing; Q gets a sign bit when n is odd.
+  const m = n % 2 === 0 ? n : n + 1;
+  const M = signExtend(multiplicand, n, n + 2);
+  let A = toBits(0, n + 2);
+  let Q = toBits(multiplier, m);
+  if (m > n) Q[0] = Q[1];
+  let Q1 = [0];
+  const regs = (): Register[] => [
+    { name: "M", bits: M },
+    { name: "A", bits: A },
+    { name: "Q", bits: Q },
+    { name: "Q₋₁", bits: Q1 },
+  ];
+  const steps: MulDivStep[] = [
+    {
+      iteration: 0,
+      action: "init",
+      description: `Load M = ${str(M)} (sign-extended by 2), Q = ${str(Q)}, clear A and Q₋₁`,
+      registers: regs(),
+    },
+  ];
+
+  const iterations = m / 2;
+  for (let i = 1; i <= iterations; i++) {
+    const triple = `${Q[m - 2]}${Q[m - 1]}${Q1[0]}`;
+    const digit = BOOTH4_DIGITS[triple];
+    const examined = { register: "Q", bits: [m - 2, m - 1] };
+    if (digit === 0) {
+      steps.push({ iteration: i, action: "skip", description: `Q₁Q₀Q₋₁ = ${triple} recodes to 0: no add`, registers: regs(), examined });
+    } else {
+      const label = `${digit < 0 ? "−" : "+"}${Math.abs(digit) === 2 ? "2M" : "M"}`;
+      const addend = toBits(digit * fromBits(M, true), n + 2);
+      const addition = adderUse("A", A, addend, label);
+      A = addition.result;
+      steps.push({
+        iteration: i,
+        action: "add",
+        description: `Q₁Q₀Q₋₁ = ${triple} recodes to ${digit > 0 ? "+" : ""}${digit}: A ← A ${label}`,
+        registers: regs(),
+        addition,
+        examined,
+      });
+    }
+    [A, Q, Q1] = shiftRight([A, Q, Q1], 2, A[0]);
+    steps.push({ iteration: i, action: "shift", description: `Arithmetic shift A:Q:Q₋₁ right by 2 bits`, registers: regs() });
+  }
+
+  const result = [...A, ...Q].slice(-2 * n);
+  steps.push({ iteration: iterations, action: "done", description: `Product = low ${2 * n} bits of A:Q = ${fromBits(result, true)}`, registers: regs() });
+  return { algorithm: "booth-4", width: n, steps, result };
+}
+
+// ──────────────────────────── Division ────────────────────────────
+
+function divide(dividend: number, divisor: number, n: number, restoring: boolean): MulDivRun {
+  // A and M carry an extra bit so A's sign shows whether a subtraction went negative.
+  const M = [0, ...toBits(divisor, n)];
+  if (!M.includes(1)) throw new RangeError("Division by zero");
+  const negM = negate(M);
+  let A = toBits(0, n + 1);
+  let Q = toBits(dividend, n);
+  const regs = (): Register[] => [
+    { name: "M", bits: M },
+    { name: "A", bits: A },
+    { name: "Q", bits: Q },
+  ];
+  const steps: MulDivStep[] = [
+    { iteration: 0, action: "init", description: `Load M = ${str(M)}, Q = ${str(Q)} (dividend), clear A`, registers: regs() },
+  ];
+  const signA = { register: "A", bits: [0] };
+
+  for (let i = 1; i <= n; i++) {
+    const wasNegative = !restoring && A[0] === 1;
+    [A, Q] = shiftLeft([A, Q]);
+    steps.push({ iteration: i, action: "shift", description: `Shift A:Q left, bringing down the next dividend bit`, registers: regs() });
+
+    const addition = adderUse("A", A, wasNegative ? M : negM, wasNegative ? "M" : "−M");
+    A = addition.result;
+    steps.push({
+      iteration: i,
+      action: "add",
+      description: wasNegative ? `A was negative: A ← A + M instead of restoring` : `Trial subtraction: A ← A − M`,
+      registers: regs(),
+      addition,
+      ...(restoring ? {} : { examined: signA }),
+    });
+
+    if (A[0] === 1 && restoring) {
+      Q = [...Q.slice(0, -1), 0];
+      const restore = adderUse("A", A, M, "M");
+      A = restore.result;
+      steps.push({ iteration: i, action: "restore", description: `A went negative: Q₀ ← 0 and restore A ← A + M`, registers: regs(), addition: restore, examined: signA });
+    } else {
+      Q = [...Q.slice(0, -1), A[0] === 1 ? 0 : 1];
+      steps.push({
+        iteration: i,
+        action: "set-bit",
+        description: A[0] === 1 ? `A is negative: Q₀ ← 0, keep A for the next step` : `A ≥ 0: the divisor fits, Q₀ ← 1`,
+        registers: regs(),
+        examined: signA,
+      });
+    }
+  }
+
+  if (!restoring && A[0] === 1) {
+    const correction = adderUse("A", A, M, "M");
+    A = correction.result;
+    steps.push({ iteration: n, action: "correct", description: `Remainder is negative: final correction A ← A + M`, registers: regs(), addition: correction, examined: signA });
+  }
+
+  const remainder = A.slice(1);
+  steps.push({
+    iteration: n,
+    action: "done",
+    description: `Quotient Q = ${fromBits(Q)}, remainder A = ${fromBits(remainder)}`,
+    registers: regs(),
+  });
+  return { algorithm: restoring ? "restoring" : "non-restoring", width: n, steps, result: Q, remainder };
+}
+
+// ──────────────────────────── Entry point ────────────────────────────
+
+/**
+ * Runs `a × b` or `a ÷ b` on `width`-bit registers. Operands wrap to the
+ * width; Booth algorithms read them as two's complement, the others as
+ * unsigned. Throws a RangeError when dividing by zero.
+ */
+export function runMulDiv(algorithm: MulDivAlgorithm, a: number, b: number, width: number): MulDivRun {
+  switch (algorithm) {
+    case "shift-add":
+      return shiftAdd(a, b, width);
+    case "booth-2":
+      return boothRadix2(a, b, width);
+    case "booth-4":
+      return boothRadix4(a, b, width);
+    case "restoring":
+      return divide(a, b, width, true);
+    case "non-restoring":
+      return divide(a, b, width, false);
+  }
+}
+
+/** Adder passes a run makes, the cost the faster algorithms cut. */
+export function adderPasses(run: MulDivRun): number {
+  return run.steps.filter((s) => s.addition).length;
+}
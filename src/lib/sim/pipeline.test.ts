@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { initPipelineFrame, nextPipelineFrame, type Instruction, type OpCode } from "./pipeline";
+
+function program(lines: [OpCode, string, string, string][]): Instruction[] {
+  return lines.map(([op, rd, rs, rt], id) => ({
+    id,
+    op,
+    text: `${op} ${[rd, rs, rt].filter(Boolean).join(", ")}`,
+    rd,
+    rs,
+    rt,
+    color: "#000",
+  }));
+}
+
+function run(queue: Instruction[], forwarding: boolean) {
+  let frame = initPipelineFrame();
+  while (!frame.finished && frame.cycle < 100) {
+    frame = nextPipelineFrame(frame, queue, forwarding);
+  }
+  return frame;
+}
+
+/** Stage of each instruction per cycle, e.g. "IF ID EX" for a row of the chart. */
+function stagesOf(queue: Instruction[], forwarding: boolean, id: number): string {
+  const names = ["IF", "ID", "EX", "MEM", "WB"];
+  return run(queue, forwarding)
+    .history.map((row) => row.slots.findIndex((s) => s?.instrId === id && !s.isFlushed))
+    .map((stage) => (stage < 0 ? "" : names[stage]))
+    .filter(Boolean)
+    .join(" ");
+}
+
+const INDEPENDENT = program([
+  ["ADD", "R1", "R2", "R3"],
+  ["SUB", "R4", "R5", "R6"],
+  ["AND", "R7", "R8", "R9"],
+  ["OR", "R10", "R11", "R12"],
+]);
+
+const RAW = program([
+  ["ADD", "R1", "R2", "R3"],
+  ["SUB", "R4", "R1", "R5"],
+]);
+
+const LOAD_USE = program([
+  ["LW", "R1", "R2", ""],
+  ["SUB", "R4", "R1", "R5"],
+]);
+
+describe("nextPipelineFrame", () => {
+  it("retires n independent instructions in n + 4 cycles", () => {
+    const frame = run(INDEPENDENT, true);
+    expect(frame.completedCount).toBe(4);
+    expect(frame.stallCount).toBe(0);
+    // The last WB happens in cycle 8; the frame after it drains the pipeline
+    expect(frame.history.findLastIndex((row) => row.slots[4]?.instrId === 3) + 1).toBe(8);
+  });
+
+  it("forwards an ALU result instead of stalling", () => {
+    const frame = run(RAW, true);
+    expect(frame.stallCount).toBe(0);
+    expect(frame.forwardCount).toBe(1);
+    expect(stagesOf(RAW, true, 1)).toBe("IF ID EX MEM WB");
+  });
+
+  it("stalls until the value is written back when forwarding is off", () => {
+    const frame = run(RAW, false);
+    expect(frame.stallCount).toBe(2);
+    expect(frame.forwardCount).toBe(0);
+  });
+
+  it("needs one bubble for a load-use hazard even with forwarding", () => {
+    const frame = run(LOAD_USE, true);
+    expect(frame.stallCount).toBe(1);
+    expect(stagesOf(LOAD_USE, true, 1)).toBe("IF ID ID EX MEM WB");
+  });
+
+  it("flushes the two younger instructions behind a taken branch", () => {
+    const queue = program([
+      ["BEQ", "", "R1", "R0"],
+      ["ADD", "R1", "R2", "R3"],
+      ["SUB", "R4", "R5", "R6"],
+      ["AND", "R7", "R8", "R9"],
+    ]);
+    const frame = run(queue, true);
+    const flushed = new Set(
+      frame.history.flatMap((row) => row.slots.filter((s) => s?.isFlushed).map((s) => s!.instrId))
+    );
+    expect([...flushed].sort()).toEqual([1, 2]);
+    expect(frame.completedCount).toBe(2);
+  });
+});
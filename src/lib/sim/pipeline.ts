@@ -0,0 +1,337 @@
+/**
+ * Five-stage (IF/ID/EX/MEM/WB) pipeline model used by the 2.3 Pipelining
+ * module: hazard detection, forwarding, load-use stalls and branch flushes,
+ * advanced one clock cycle at a time.
+ */
+
+// ──────────────────────────── Types ────────────────────────────
+
+export type OpCode = "ADD" | "SUB" | "AND" | "OR" | "LW" | "SW" | "BEQ";
+
+export interface Instruction {
+  id: number;
+  op: OpCode;
+  text: string;
+  rd: string;  // destination register
+  rs: string;  // source register 1
+  rt: string;  // source register 2
+  color: string;
+}
+
+export type StageSlot = {
+  instruction: Instruction | null;
+  isStall: boolean;
+  isFlushed: boolean;
+};
+
+export interface ForwardingPath {
+  fromStage: number; // index into stages (0=IF..4=WB)
+  toStage: number;
+  register: string;
+  fromInstr: Instruction;
+  toInstr: Instruction;
+}
+
+export interface HazardInfo {
+  type: "RAW" | "LOAD_USE" | "CONTROL";
+  stageIndex: number;
+  register: string;
+  instruction: Instruction;
+}
+
+export interface PipelineHistoryRow {
+  cycle: number;
+  slots: (
+    | { instrId: number; instrText: string; color: string; isStall: boolean; isFlushed: boolean }
+    | null
+  )[];
+}
+
+// ──────────────────────────── Constants ────────────────────────────
+
+export const STAGE_NAMES = ["IF", "ID", "EX", "MEM", "WB"] as const;
+
+// ──────────────────────────── Pipeline Engine ────────────────────────────
+
+export function initPipelineSlots(): StageSlot[] {
+  return Array.from({ length: 5 }, () => ({
+    instruction: null,
+    isStall: false,
+    isFlushed: false,
+  }));
+}
+
+export interface StepResult {
+  newPipeline: StageSlot[];
+  completedInstr: Instruction | null;
+  hazards: HazardInfo[];
+  forwarding: ForwardingPath[];
+  stallInserted: boolean;
+  flushed: boolean;
+  branchTaken: boolean;
+}
+
+export function simulateStep(
+  pipeline: StageSlot[],
+  nextInstr: Instruction | null,
+  forwardingEnabled: boolean
+): StepResult {
+  const hazards: HazardInfo[] = [];
+  const forwarding: ForwardingPath[] = [];
+  let stallInserted = false;
+  let flushed = false;
+  let branchTaken = false;
+
+  // The instruction currently in ID is checking for hazards
+  const idSlot = pipeline[1];
+  const exSlot = pipeline[2];
+  const memSlot = pipeline[3];
+  const wbSlot = pipeline[4]; // about to retire
+
+  // ── Check for control hazard: BEQ in EX is resolved ──
+  if (exSlot.instruction && exSlot.instruction.op === "BEQ" && !exSlot.isStall && !exSlot.isFlushed) {
+    // Branch evaluated in EX — we simulate always-taken for demonstration
+    branchTaken = true;
+    flushed = true;
+  }
+
+  // ── Check for data hazards on instruction in ID ──
+  let needStall = false;
+
+  if (idSlot.instruction && !idSlot.isStall && !idSlot.isFlushed) {
+    const idInstr = idSlot.instruction;
+    const srcRegs = [idInstr.rs, idInstr.rt].filter((r) => r && r !== "");
+
+    // Check EX stage for RAW hazard
+    if (exSlot.instruction && !exSlot.isStall && !exSlot.isFlushed && exSlot.instruction.rd) {
+      const exDest = exSlot.instruction.rd;
+      for (const src of srcRegs) {
+        if (src === exDest) {
+          // EX hazard
+          if (exSlot.instruction.op === "LW") {
+            // Load-use hazard: data not available until end of MEM
+            // Even with forwarding we need 1 stall
+            hazards.push({
+              type: "LOAD_USE",
+              stageIndex: 2,
+              register: src,
+              instruction: exSlot.instruction,
+            });
+            needStall = true;
+          } else {
+            // ALU-ALU RAW: EX result forwarded to EX input
+            hazards.push({
+              type: "RAW",
+              stageIndex: 2,
+              register: src,
+              instruction: exSlot.instruction,
+            });
+            if (forwardingEnabled) {
+              forwarding.push({
+                fromStage: 2,
+                toStage: 1,
+                register: src,
+                fromInstr: exSlot.instruction,
+                toInstr: idInstr,
+              });
+            } else {
+              needStall = true;
+            }
+          }
+        }
+      }
+    }
+
+    // Check MEM stage for RAW hazard (if not already stalling)
+    if (!needStall && memSlot.instruction && !memSlot.isStall && !memSlot.isFlushed && memSlot.instruction.rd) {
+      const memDest = memSlot.instruction.rd;
+      for (const src of srcRegs) {
+        if (src === memDest) {
+          hazards.push({
+            type: memSlot.instruction.op === "LW" ? "LOAD_USE" : "RAW",
+            stageIndex: 3,
+            register: src,
+            instruction: memSlot.instruction,
+          });
+          if (forwardingEnabled) {
+            forwarding.push({
+              fromStage: 3,
+              toStage: 1,
+              register: src,
+              fromInstr: memSlot.instruction,
+              toInstr: idInstr,
+            });
+          } else {
+            needStall = true;
+          }
+        }
+      }
+    }
+
+    // Check if we still need a second stall (without forwarding, EX hazard needs 2 stalls)
+    // Simplified: without forwarding, any RAW from EX needs 2 stalls, from MEM needs 1 stall.
+    // We handle this by re-checking on next cycle since the stall keeps the ID instruction.
+  }
+
+  // ── Build new pipeline state ──
+  const newPipeline: StageSlot[] = initPipelineSlots();
+  let completedInstr: Instruction | null = null;
+
+  // WB stage completes
+  if (wbSlot.instruction && !wbSlot.isStall && !wbSlot.isFlushed) {
+    completedInstr = wbSlot.instruction;
+  }
+
+  if (needStall) {
+    stallInserted = true;
+
+    // WB <- MEM
+    newPipeline[4] = { ...memSlot };
+    // MEM <- EX
+    newPipeline[3] = { ...exSlot };
+    // EX <- bubble (stall)
+    newPipeline[2] = { instruction: null, isStall: true, isFlushed: false };
+    // ID stays (stalled)
+    newPipeline[1] = { ...idSlot };
+    // IF stays (stalled) — hold the same next instruction
+    newPipeline[0] = { ...pipeline[0] };
+  } else if (flushed) {
+    // WB <- MEM
+    newPipeline[4] = { ...memSlot };
+    // MEM <- EX (branch in EX completes normally)
+    newPipeline[3] = { ...exSlot };
+    // Flush IF and ID
+    newPipeline[2] = { instruction: null, isStall: false, isFlushed: false };
+    newPipeline[1] = {
+      instruction: pipeline[1].instruction,
+      isStall: false,
+      isFlushed: pipeline[1].instruction ? true : false,
+    };
+    newPipeline[0] = {
+      instruction: pipeline[0].instruction,
+      isStall: false,
+      isFlushed: pipeline[0].instruction ? true : false,
+    };
+  } else {
+    // Normal advancement
+    // WB <- MEM
+    newPipeline[4] = { ...memSlot };
+    // MEM <- EX
+    newPipeline[3] = { ...exSlot };
+    // EX <- ID
+    newPipeline[2] = { ...idSlot };
+    // ID <- IF
+    newPipeline[1] = { ...pipeline[0] };
+    // IF <- next instruction
+    newPipeline[0] = nextInstr
+      ? { instruction: nextInstr, isStall: false, isFlushed: false }
+      : { instruction: null, isStall: false, isFlushed: false };
+  }
+
+  return {
+    newPipeline,
+    completedInstr,
+    hazards,
+    forwarding,
+    stallInserted,
+    flushed,
+    branchTaken,
+  };
+}
+
+// ──────────────────────────── Frames ────────────────────────────
+
+export interface PipelineFrame {
+  pipeline: StageSlot[];
+  cycle: number;
+  completedCount: number;
+  stallCount: number;
+  forwardCount: number;
+  history: PipelineHistoryRow[];
+  hazards: HazardInfo[];
+  forwardingPaths: ForwardingPath[];
+  queueIndex: number; // which instruction to fetch next
+  stallHold: boolean; // when stalling, don't advance queue
+  finished: boolean;
+}
+
+export function initPipelineFrame(): PipelineFrame {
+  return {
+    pipeline: initPipelineSlots(),
+    cycle: 0,
+    completedCount: 0,
+    stallCount: 0,
+    forwardCount: 0,
+    history: [],
+    hazards: [],
+    forwardingPaths: [],
+    queueIndex: 0,
+    stallHold: false,
+    finished: false,
+  };
+}
+
+export function nextPipelineFrame(
+  frame: PipelineFrame,
+  instructionQueue: Instruction[],
+  forwardingEnabled: boolean
+): PipelineFrame {
+  // Determine next instruction to fetch
+  let nextInstr: Instruction | null = null;
+  if (!frame.stallHold && frame.queueIndex < instructionQueue.length) {
+    nextInstr = instructionQueue[frame.queueIndex];
+  }
+
+  const result = simulateStep(frame.pipeline, nextInstr, forwardingEnabled);
+
+  let queueIndex = frame.queueIndex;
+  let stallHold = frame.stallHold;
+  if (result.stallInserted) {
+    // Stall: don't advance fetch pointer
+    stallHold = true;
+  } else if (result.flushed) {
+    // Flush: the instructions in IF/ID were already fetched, so the queue
+    // pointer has moved past them; the next cycle fetches the one after.
+    stallHold = false;
+  } else {
+    stallHold = false;
+    // Advance if we actually fetched
+    if (nextInstr) queueIndex += 1;
+  }
+
+  const historyRow: PipelineHistoryRow = {
+    cycle: frame.history.length + 1,
+    slots: result.newPipeline.map((slot) =>
+      slot.instruction
+        ? {
+            instrId: slot.instruction.id,
+            instrText: slot.instruction.text,
+            color: slot.instruction.color,
+            isStall: slot.isStall,
+            isFlushed: slot.isFlushed,
+          }
+        : slot.isStall
+        ? { instrId: -1, instrText: "STALL", color: "#71717a", isStall: true, isFlushed: false }
+        : null
+    ),
+  };
+
+  // Check if simulation is done
+  const finished =
+    result.newPipeline.every((s) => !s.instruction || s.isFlushed) &&
+    queueIndex >= instructionQueue.length;
+
+  return {
+    pipeline: result.newPipeline,
+    cycle: frame.cycle + 1,
+    completedCount: frame.completedCount + (result.completedInstr ? 1 : 0),
+    stallCount: frame.stallCount + (result.stallInserted ? 1 : 0),
+    forwardCount: frame.forwardCount + result.forwarding.length,
+    history: [...frame.history, historyRow],
+    hazards: result.hazards,
+    forwardingPaths: result.forwarding,
+    queueIndex,
+    stallHold,
+    finished,
+  };
+}
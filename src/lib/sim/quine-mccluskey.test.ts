@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  coverMismatches,
+  covers,
+  implicantPattern,
+  petrick,
+  posExpression,
+  primeChart,
+  primeImplicants,
+  quineMcCluskey,
+  sopExpression,
+  tabulate,
+  zerosOf,
+  type Implicant,
+} from "./quine-mccluskey";
+
+const ABCD = ["A", "B", "C", "D"];
+
+function patterns(implicants: Implicant[], numVars: number): string[] {
+  return implicants.map((p) => implicantPattern(p, numVars)).sort();
+}
+
+/** Deterministic pseudo-random bits so failures replay. */
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+describe("tabulation", () => {
+  it("finds the prime implicants of the textbook example with don't-cares", () => {
+    // f = Σm(4, 8, 10, 11, 12, 15) + d(9, 14)
+    const columns = tabulate(4, [4, 8, 10, 11, 12, 15], [9, 14]);
+    expect(columns.map((c) => c.size)).toEqual([1, 2, 4]);
+    expect(columns[0].groups.map((g) => g.length)).toEqual([0, 2, 3, 2, 1]);
+    expect(patterns(primeImplicants(columns), 4)).toEqual(["-100", "1--0", "1-1-", "10--"]);
+  });
+
+  it("merges each pair only once", () => {
+    const columns = tabulate(3, [0, 1, 2, 3]);
+    expect(columns[2].groups.flat()).toHaveLength(1);
+    expect(columns[2].groups.flat()[0].implicant.minterms).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe("prime implicant chart", () => {
+  it("keeps essential primes and settles the rest by dominance", () => {
+    const result = quineMcCluskey(4, [4, 8, 10, 11, 12, 15], [9, 14]);
+    const { chart } = result;
+    expect(patterns(chart.essential.map((i) => chart.primes[i]), 4)).toEqual(["-100", "1-1-"]);
+    expect(chart.remaining).toEqual([8]);
+    // AB' and AD' both cover just m8 with two literals, so one dominates the other
+    expect(chart.dominated).toHaveLength(1);
+    expect(chart.secondary).toHaveLength(1);
+    expect(chart.core).toEqual([]);
+    expect(result.petrick).toBeUndefined();
+    expect(result.cover).toHaveLength(3);
+    expect(coverMismatches(result.cover, "sop", 4, [4, 8, 10, 11, 12, 15], [9, 14])).toEqual([]);
+  });
+
+  it("solves a cyclic chart with no essential primes", () => {
+    const ones = [0, 1, 2, 5, 6, 7];
+    const columns = tabulate(3, ones);
+    const chart = primeChart(primeImplicants(columns), ones, 3);
+    expect(chart.primes).toHaveLength(6);
+    expect(chart.essential).toEqual([]);
+    expect(chart.dominated).toEqual([]);
+    expect(chart.core).toEqual(ones);
+    const result = petrick(chart, 3);
+    expect(result.sums).toHaveLength(6);
+    // Exactly two irredundant covers use three primes
+    expect(result.products.filter((p) => p.length === 3)).toHaveLength(2);
+    expect(result.chosen).toHaveLength(3);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("drops primes that cover only don't-cares", () => {
+    const chart = primeChart(primeImplicants(tabulate(3, [0], [7])), [0], 3);
+    expect(patterns(chart.primes, 3)).toEqual(["000"]);
+  });
+});
+
+describe("quineMcCluskey", () => {
+  it("handles constant functions", () => {
+    expect(sopExpression(quineMcCluskey(3, []).cover, ["A", "B", "C"])).toBe("0");
+    const all = quineMcCluskey(2, [0, 1, 3], [2]);
+    expect(sopExpression(all.cover, ["A", "B"])).toBe("1");
+    expect(posExpression(quineMcCluskey(2, zerosOf(2, [0, 1, 3], [2]), [2]).cover, ["A", "B"])).toBe("1");
+  });
+
+  it("writes the product of sums from the complement", () => {
+    // f = A + BC is 0 on 0, 1, 2
+    const zeros = zerosOf(3, [3, 4, 5, 6, 7]);
+    const pos = quineMcCluskey(3, zeros);
+    expect(posExpression(pos.cover, ["A", "B", "C"])).toBe("(A + B)(A + C)");
+    expect(coverMismatches(pos.cover, "pos", 3, [3, 4, 5, 6, 7])).toEqual([]);
+    expect(sopExpression(quineMcCluskey(4, [15]).cover, ABCD)).toBe("ABCD");
+  });
+
+  it("is minimal for every 3-variable function", () => {
+    for (let f = 0; f < 256; f++) {
+      const ones = Array.from({ length: 8 }, (_, m) => m).filter((m) => (f >> m) & 1);
+      const result = quineMcCluskey(3, ones);
+      expect(coverMismatches(result.cover, "sop", 3, ones)).toEqual([]);
+      // Brute force: the fewest primes that cover every minterm
+      const primes = result.chart.primes;
+      let best = primes.length;
+      for (let subset = 0; subset < 2 ** primes.length; subset++) {
+        const chosen = primes.filter((_, i) => (subset >> i) & 1);
+        if (chosen.length < best && ones.every((m) => chosen.some((p) => covers(p, m)))) best = chosen.length;
+      }
+      expect(result.cover.length, `f = ${f}`).toBe(best);
+    }
+  });
+
+  it("matches the truth table for random 8-variable functions with don't-cares", () => {
+    const random = lcg(42);
+    for (let trial = 0; trial < 6; trial++) {
+      const ones: number[] = [];
+      const dontCares: number[] = [];
+      for (let m = 0; m < 256; m++) {
+        const r = random();
+        if (r < 0.4) ones.push(m);
+        else if (r < 0.5) dontCares.push(m);
+      }
+      const sop = quineMcCluskey(8, ones, dontCares);
+      const pos = quineMcCluskey(8, zerosOf(8, ones, dontCares), dontCares);
+      expect(coverMismatches(sop.cover, "sop", 8, ones, dontCares)).toEqual([]);
+      expect(coverMismatches(pos.cover, "pos", 8, ones, dontCares)).toEqual([]);
+    }
+  });
+
+  it("rejects more than eight variables", () => {
+    expect(() => quineMcCluskey(9, [0])).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Tabular two-level minimization. Quine-McCluskey merges minterms (and
+ * don't-cares) that differ in one bit, column by column, until nothing merges;
+ * whatever never merged is a prime implicant. The prime implicant chart then
+ * picks out the essential primes, and Petrick's method settles whatever is
+ * left over, which is where cyclic charts with no essential primes end up.
+ * Variable 0 is the most significant bit of a minterm index, as in a truth table.
+ */
+
+export const MAX_QM_VARIABLES = 8;
+
+/** Product terms kept while expanding Petrick's product of sums before the costliest are dropped. */
+export const PETRICK_LIMIT = 512;
+
+/** A product term: bits set in `mask` are eliminated ("-"), the rest must equal `value`. */
+export interface Implicant {
+  value: number;
+  mask: number;
+  /** Every minterm (or don't-care) the term covers, ascending. */
+  minterms: number[];
+}
+
+export interface QmRow {
+  implicant: Implicant;
+  /** Ones among the fixed bits; only rows in neighbouring groups can merge. */
+  ones: number;
+  /** Merged into the next column, so not prime. */
+  merged: boolean;
+}
+
+/** One column of the tabulation, rows grouped by their count of ones. */
+export interface QmColumn {
+  /** Minterms per implicant in this column: 1, 2, 4, … */
+  size: number;
+  groups: QmRow[][];
+}
+
+export interface PrimeChart {
+  primes: Implicant[];
+  /** The minterms that must be covered; don't-cares have no column. */
+  minterms: number[];
+  /** Indices into `primes` of primes that alone cover some minterm. */
+  essential: number[];
+  /** Minterms the essential primes leave uncovered. */
+  remaining: number[];
+  /** Primes dropped because another covers all their remaining minterms at no greater cost. */
+  dominated: number[];
+  /** Primes that became essential once dominated rows and columns were removed. */
+  secondary: number[];
+  /** The cyclic core: minterms and primes still undecided after reduction. */
+  core: number[];
+  coreRows: number[];
+}
+
+export interface PetrickResult {
+  /** One sum per core minterm: the core primes (by chart index) that cover it. */
+  sums: number[][];
+  /** The product of sums multiplied out, with absorbed products removed. */
+  products: number[][];
+  /** The cheapest product: fewest primes, then fewest literals. */
+  chosen: number[];
+  /** Set when the expansion outgrew `PETRICK_LIMIT` and the costliest products were dropped. */
+  truncated: boolean;
+}
+
+export interface QmResult {
+  numVars: number;
+  columns: QmColumn[];
+  chart: PrimeChart;
+  /** Present only when the chart reduces to a non-empty cyclic core. */
+  petrick?: PetrickResult;
+  cover: Implicant[];
+}
+
+// ──────────────────────────── Implicants ────────────────────────────
+
+function popcount(n: number): number {
+  let count = 0;
+  for (let v = n; v; v &= v - 1) count++;
+  return count;
+}
+
+export function covers(implicant: Implicant, minterm: number): boolean {
+  return (minterm & ~implicant.mask) === implicant.value;
+}
+
+export function literalCount(implicant: Implicant, numVars: number): number {
+  return numVars - popcount(implicant.mask);
+}
+
+/** Bits from variable 0 down, "-" where eliminated, e.g. "1-0-". */
+export function implicantPattern(implicant: Implicant, numVars: number): string {
+  let pattern = "";
+  for (let b = numVars - 1; b >= 0; b--) {
+    pattern += (implicant.mask >> b) & 1 ? "-" : (implicant.value >> b) & 1 ? "1" : "0";
+  }
+  return pattern;
+}
+
+/** The product term, e.g. "AC'"; "1" when every variable is eliminated. */
+export function implicantProduct(implicant: Implicant, names: string[]): string {
+  const pattern = implicantPattern(implicant, names.length);
+  const term = [...pattern].map((bit, i) => (bit === "1" ? names[i] : bit === "0" ? names[i] + "'" : "")).join("");
+  return term || "1";
+}
+
+/**
+ * The sum term that is 0 exactly where `implicant` (an implicant of the
+ * complement) is 1, e.g. "A' + C"; "0" when every variable is eliminated.
+ */
+export function implicantSum(implicant: Implicant, names: string[]): string {
+  const pattern = implicantPattern(implicant, names.length);
+  const literals = [...pattern].flatMap((bit, i) => (bit === "1" ? [names[i] + "'"] : bit === "0" ? [names[i]] : []));
+  return literals.length ? literals.join(" + ") : "0";
+}
+
+// ──────────────────────────── Tabulation ────────────────────────────
+
+function groupByOnes(rows: QmRow[], numVars: number): QmRow[][] {
+  const groups: QmRow[][] = Array.from({ length: numVars + 1 }, () => []);
+  for (const row of rows) groups[row.ones].push(row);
+  while (groups.length > 0 && groups[groups.length - 1].length === 0) groups.pop();
+  return groups;
+}
+
+/** Columns of the tabulation, from single minterms to the last column that merged anything. */
+export function tabulate(numVars: number, ones: number[], dontCares: number[] = []): QmColumn[] {
+  const start = [...new Set([...ones, ...dontCares])].sort((a, b) => a - b);
+  let rows: QmRow[] = start.map((m) => ({ implicant: { value: m, mask: 0, minterms: [m] }, ones: popcount(m), merged: false }));
+  const columns: QmColumn[] = [];
+
+  for (let size = 1; rows.length > 0; size *= 2) {
+    const groups = groupByOnes(rows, numVars);
+    columns.push({ size, groups });
+    const next = new Map<string, QmRow>();
+    for (let g = 0; g + 1 < groups.length; g++) {
+      for (const low of groups[g]) {
+        for (const high of groups[g + 1]) {
+          const a = low.implicant;
+          const b = high.implicant;
+          const diff = a.value ^ b.value;
+          if (a.mask !== b.mask || popcount(diff) !== 1) continue;
+          low.merged = true;
+          high.merged = true;
+          const merged = { value: a.value & ~diff, mask: a.mask | diff };
+          const key = `${merged.value}/${merged.mask}`;
+          if (next.has(key)) continue;
+          const minterms = [...a.minterms, ...b.minterms].sort((x, y) => x - y);
+          next.set(key, { implicant: { ...merged, minterms }, ones: popcount(merged.value), merged: false });
+        }
+      }
+    }
+    rows = [...next.values()];
+  }
+  return columns;
+}
+
+/** Rows that never merged, in column order. */
+export function primeImplicants(columns: QmColumn[]): Implicant[] {
+  return columns.flatMap((c) => c.groups.flat().filter((row) => !row.merged).map((row) => row.implicant));
+}
+
+// ──────────────────────────── Chart ────────────────────────────
+
+/**
+ * The chart over the required minterms; primes covering only don't-cares are
+ * left out. After the essential primes, the chart is reduced until it is
+ * cyclic: a column whose primes include all of another column's is dropped
+ * (covering the other covers it too), a row covering no more than a cheaper or
+ * equal row is dropped, and a column left with one prime makes it essential.
+ */
+export function primeChart(primes: Implicant[], ones: number[], numVars: number): PrimeChart {
+  const minterms = [...new Set(ones)].sort((a, b) => a - b);
+  const useful = primes.filter((p) => minterms.some((m) => covers(p, m)));
+  const coverers = (m: number, rows: number[]) => rows.filter((i) => covers(useful[i], m));
+  const all = useful.map((_, i) => i);
+
+  const essential = new Set<number>();
+  for (const m of minterms) {
+    const only = coverers(m, all);
+    if (only.length === 1) essential.add(only[0]);
+  }
+  const isCovered = (chosen: Set<number>) => (m: number) => [...chosen].some((i) => covers(useful[i], m));
+  const remaining = minterms.filter((m) => !isCovered(essential)(m));
+
+  const secondary = new Set<number>();
+  const dominated: number[] = [];
+  let columns = remaining;
+  let rows = all.filter((i) => !essential.has(i) && columns.some((m) => covers(useful[i], m)));
+  const subset = (a: number[], b: number[]) => a.every((x) => b.includes(x));
+
+  for (let changed = true; changed && columns.length > 0; ) {
+    changed = false;
+    // Column dominance: keep the column with fewer choices
+    const sets = columns.map((m) => coverers(m, rows));
+    const keep = columns.filter((_, c) => !sets.some((other, o) => o !== c && subset(other, sets[c]) && (other.length < sets[c].length || o < c)));
+    if (keep.length < columns.length) changed = true;
+    columns = keep;
+
+    // Row dominance: a row whose columns another row also covers, at no greater cost, is never needed
+    const reach = new Map(rows.map((i) => [i, columns.filter((m) => covers(useful[i], m))]));
+    const cost = (i: number) => literalCount(useful[i], numVars);
+    for (const i of rows) {
+      const mine = reach.get(i)!;
+      const better = rows.some(
+        (j) =>
+          j !== i &&
+          reach.has(j) &&
+          subset(mine, reach.get(j)!) &&
+          cost(j) <= cost(i) &&
+          (reach.get(j)!.length > mine.length || cost(j) < cost(i) || j < i)
+      );
+      if (better || mine.length === 0) {
+        reach.delete(i);
+        if (mine.length > 0) dominated.push(i);
+        changed = true;
+      }
+    }
+    rows = rows.filter((i) => reach.has(i));
+
+    // Secondary essentials
+    for (const m of columns) {
+      const only = coverers(m, rows);
+      if (only.length === 1 && !secondary.has(only[0])) {
+        secondary.add(only[0]);
+        changed = true;
+      }
+    }
+    columns = columns.filter((m) => !isCovered(secondary)(m));
+    rows = rows.filter((i) => !secondary.has(i) && columns.some((m) => covers(useful[i], m)));
+  }
+
+  return {
+    primes: useful,
+    minterms,
+    essential: [...essential].sort((a, b) => a - b),
+    remaining,
+    dominated: dominated.sort((a, b) => a - b),
+    secondary: [...secondary].sort((a, b) => a - b),
+    core: columns,
+    coreRows: rows,
+  };
+}
+
+function productCost(product: number[], primes: Implicant[], numVars: number): [number, number] {
+  return [product.length, product.reduce((sum, i) => sum + literalCount(primes[i], numVars), 0)];
+}
+
+function byCost(primes: Implicant[], numVars: number) {
+  return (a: number[], b: number[]) => {
+    const [ca, la] = productCost(a, primes, numVars);
+    const [cb, lb] = productCost(b, primes, numVars);
+    return ca - cb || la - lb;
+  };
+}
+
+/** Drops every product that contains another (X + XY = X). */
+function absorb(products: number[][]): number[][] {
+  const unique = new Map(products.map((p) => [p.join(","), p]));
+  const sorted = [...unique.values()].sort((a, b) => a.length - b.length);
+  const kept: number[][] = [];
+  for (const p of sorted) {
+    const members = new Set(p);
+    if (!kept.some((k) => k.every((i) => members.has(i)))) kept.push(p);
+  }
+  return kept;
+}
+
+/**
+ * Petrick's method on the minterms the essential primes miss: each becomes a
+ * sum of the primes covering it, and multiplying the sums out lists every
+ * irredundant way to finish the cover.
+ */
+export function petrick(chart: PrimeChart, numVars: number): PetrickResult {
+  const sums = chart.core.map((m) => chart.coreRows.filter((i) => covers(chart.primes[i], m)));
+  const cheaper = byCost(chart.primes, numVars);
+  let products: number[][] = [[]];
+  let truncated = false;
+
+  for (const sum of sums) {
+    const next: number[][] = [];
+    for (const product of products) {
+      // A product already holding one of the sum's primes absorbs the whole sum
+      if (sum.some((i) => product.includes(i))) next.push(product);
+      else for (const i of sum) next.push([...product, i].sort((a, b) => a - b));
+    }
+    products = absorb(next);
+    if (products.length > PETRICK_LIMIT) {
+      products = products.sort(cheaper).slice(0, PETRICK_LIMIT);
+      truncated = true;
+    }
+  }
+
+  products.sort(cheaper);
+  return { sums, products, chosen: products[0] ?? [], truncated };
+}
+
+// ──────────────────────────── Minimization ────────────────────────────
+
+/** A minimal sum of products for the function that is 1 on `ones` and free on `dontCares`. */
+export function quineMcCluskey(numVars: number, ones: number[], dontCares: number[] = []): QmResult {
+  if (numVars < 1 || numVars > MAX_QM_VARIABLES) {
+    throw new RangeError(`Quine-McCluskey supports 1 to ${MAX_QM_VARIABLES} variables, got ${numVars}`);
+  }
+  const columns = tabulate(numVars, ones, dontCares);
+  const chart = primeChart(primeImplicants(columns), ones, numVars);
+  const chosen = new Set([...chart.essential, ...chart.secondary]);
+  let result: PetrickResult | undefined;
+  if (chart.core.length > 0) {
+    result = petrick(chart, numVars);
+    result.chosen.forEach((i) => chosen.add(i));
+  }
+  const cover = [...chosen].sort((a, b) => a - b).map((i) => chart.primes[i]);
+  return { numVars, columns, chart, petrick: result, cover };
+}
+
+/** Minterms (by index) the function is 0 on, given its ones and don't-cares. */
+export function zerosOf(numVars: number, ones: number[], dontCares: number[] = []): number[] {
+  const free = new Set([...ones, ...dontCares]);
+  return Array.from({ length: 2 ** numVars }, (_, m) => m).filter((m) => !free.has(m));
+}
+
+export function sopExpression(cover: Implicant[], names: string[]): string {
+  return cover.length ? cover.map((p) => implicantProduct(p, names)).join(" + ") : "0";
+}
+
+/** `zeroCover` minimizes the complement; each of its terms becomes one sum factor. */
+export function posExpression(zeroCover: Implicant[], names: string[]): string {
+  if (zeroCover.length === 0) return "1";
+  return zeroCover
+    .map((p) => {
+      const sum = implicantSum(p, names);
+      return zeroCover.length > 1 && sum.includes("+") ? `(${sum})` : sum;
+    })
+    .join("");
+}
+
+/**
+ * Minterms where a cover disagrees with the truth table, ignoring don't-cares.
+ * A sum-of-products cover is 1 where some term covers the minterm; a
+ * product-of-sums cover (of the zeros) is 0 there instead.
+ */
+export function coverMismatches(
+  cover: Implicant[],
+  form: "sop" | "pos",
+  numVars: number,
+  ones: number[],
+  dontCares: number[] = []
+): number[] {
+  const high = new Set(ones);
+  const free = new Set(dontCares);
+  const mismatches: number[] = [];
+  for (let m = 0; m < 2 ** numVars; m++) {
+    if (free.has(m)) continue;
+    const covered = cover.some((p) => covers(p, m));
+    const value = form === "sop" ? covered : !covered;
+    if (value !== high.has(m)) mismatches.push(m);
+  }
+  return mismatches;
+}
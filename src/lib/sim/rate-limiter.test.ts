@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  createLimiterState,
+  limiterLevel,
+  limiterTick,
+  type LimiterAlgorithm,
+  type LimiterConfig,
+} from "./rate-limiter";
+
+const CONFIG: LimiterConfig = { limit: 3, refillRate: 1, windowSize: 10 };
+/** Refills at half the peak arrival rate, so sustained traffic runs dry. */
+const HALF_RATE: LimiterConfig = { ...CONFIG, refillRate: 0.5 };
+
+/** Outcome per tick as a string: "+" accepted, "-" rejected, "." idle. */
+function trace(algorithm: LimiterAlgorithm, arrivals: string, config = CONFIG): string {
+  let state = createLimiterState(config);
+  let out = "";
+  for (const c of arrivals) {
+    state = limiterTick(state, algorithm, config, c === "x");
+    out += state.lastOutcome === null ? "." : state.lastOutcome ? "+" : "-";
+  }
+  return out;
+}
+
+describe("limiterTick", () => {
+  it("token bucket allows a burst up to capacity, then the refill rate", () => {
+    expect(trace("token-bucket", "xxxxxxxx", HALF_RATE)).toBe("+++++-+-");
+  });
+
+  it("token bucket refills while idle, capped at capacity", () => {
+    expect(trace("token-bucket", "xxxxxx......xxxxxx", HALF_RATE)).toBe("+++++-......+++++-");
+  });
+
+  it("leaky bucket drains the queue at the leak rate", () => {
+    expect(trace("leaky-bucket", "xxxxxxxx", HALF_RATE)).toBe("++++++-+");
+  });
+
+  it("fixed window resets the count at the boundary", () => {
+    expect(trace("fixed-window", "xxxx......xxxx")).toBe("+++-......+++-");
+  });
+
+  it("fixed window admits double the limit across a boundary", () => {
+    expect(trace("fixed-window", ".......xxxxxx")).toBe(".......++++++");
+  });
+
+  it("sliding window log does not", () => {
+    expect(trace("sliding-window-log", ".......xxxxxx")).toBe(".......+++---");
+  });
+
+  it("sliding window log frees a slot once a request ages out", () => {
+    expect(trace("sliding-window-log", "xxx.......x")).toBe("+++.......+");
+  });
+
+  it("counts totals", () => {
+    let state = createLimiterState(CONFIG);
+    for (const arrives of [true, true, true, true, false]) {
+      state = limiterTick(state, "fixed-window", CONFIG, arrives);
+    }
+    expect(state).toMatchObject({ tick: 5, requests: 4, accepted: 3, rejected: 1 });
+  });
+});
+
+describe("limiterLevel", () => {
+  it("sliding window counter weights the previous window by overlap", () => {
+    let state = createLimiterState(CONFIG);
+    for (let i = 0; i < 15; i++) state = limiterTick(state, "sliding-window-counter", CONFIG, i < 3);
+    // 3 requests in [0, 10), none yet in [10, 20), halfway through.
+    expect(limiterLevel(state, "sliding-window-counter", CONFIG)).toBe(1.5);
+  });
+});
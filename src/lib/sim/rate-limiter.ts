@@ -0,0 +1,160 @@
+/**
+ * Rate limiting algorithms used by the 14.1 Rate Limiter module. Time moves
+ * in whole ticks; at most one request arrives per tick and the selected
+ * algorithm accepts or rejects it.
+ */
+
+// ──────────────────────────── Types ────────────────────────────
+
+export type LimiterAlgorithm =
+  | "token-bucket"
+  | "leaky-bucket"
+  | "fixed-window"
+  | "sliding-window-log"
+  | "sliding-window-counter";
+
+export interface LimiterConfig {
+  /** Bucket capacity, or requests allowed per window. */
+  limit: number;
+  /** Tokens added (token bucket) or requests drained (leaky bucket) per tick. */
+  refillRate: number;
+  /** Window length in ticks for the window algorithms. */
+  windowSize: number;
+}
+
+/**
+ * State for all five algorithms; each one only reads and writes its own
+ * fields, so the module can switch algorithms with a reset.
+ */
+export interface LimiterState {
+  /** Ticks elapsed; the next tick is `tick`. */
+  tick: number;
+  // Token bucket
+  tokens: number;
+  lastRefillTick: number;
+  // Leaky bucket
+  queue: number;
+  lastLeakTick: number;
+  // Fixed window and sliding window counter
+  windowStart: number;
+  count: number;
+  previousCount: number;
+  // Sliding window log
+  timestamps: number[];
+  // Totals
+  requests: number;
+  accepted: number;
+  rejected: number;
+  /** Outcome of the request in the last tick, or null when none arrived. */
+  lastOutcome: boolean | null;
+}
+
+export const DEFAULT_WINDOW_SIZE = 10;
+
+// ──────────────────────────── Engine ────────────────────────────
+
+export function createLimiterState(config: LimiterConfig): LimiterState {
+  return {
+    tick: 0,
+    tokens: config.limit,
+    lastRefillTick: 0,
+    queue: 0,
+    lastLeakTick: 0,
+    windowStart: 0,
+    count: 0,
+    previousCount: 0,
+    timestamps: [],
+    requests: 0,
+    accepted: 0,
+    rejected: 0,
+    lastOutcome: null,
+  };
+}
+
+/** Moves time forward to `tick` without a request: refills, drains and rolls windows. */
+function advanceTo(state: LimiterState, algorithm: LimiterAlgorithm, config: LimiterConfig, tick: number): LimiterState {
+  switch (algorithm) {
+    case "token-bucket":
+      return {
+        ...state,
+        tokens: Math.min(config.limit, state.tokens + (tick - state.lastRefillTick) * config.refillRate),
+        lastRefillTick: tick,
+      };
+    case "leaky-bucket":
+      return {
+        ...state,
+        queue: Math.max(0, state.queue - (tick - state.lastLeakTick) * config.refillRate),
+        lastLeakTick: tick,
+      };
+    case "fixed-window":
+    case "sliding-window-counter": {
+      const elapsed = tick - state.windowStart;
+      if (elapsed < config.windowSize) return state;
+      const windowStart = Math.floor(tick / config.windowSize) * config.windowSize;
+      // Only the window right before the current one feeds the weighted estimate.
+      const previousCount = elapsed < 2 * config.windowSize ? state.count : 0;
+      return { ...state, windowStart, count: 0, previousCount };
+    }
+    case "sliding-window-log":
+      return { ...state, timestamps: state.timestamps.filter((t) => tick - t < config.windowSize) };
+  }
+}
+
+/** How full the limiter is at `state.tick`, in the units the algorithm counts. */
+export function limiterLevel(state: LimiterState, algorithm: LimiterAlgorithm, config: LimiterConfig): number {
+  switch (algorithm) {
+    case "token-bucket":
+      return state.tokens;
+    case "leaky-bucket":
+      return state.queue;
+    case "fixed-window":
+      return state.count;
+    case "sliding-window-log":
+      return state.timestamps.filter((t) => state.tick - t < config.windowSize).length;
+    case "sliding-window-counter": {
+      const weight = Math.max(0, 1 - (state.tick - state.windowStart) / config.windowSize);
+      return state.count + state.previousCount * weight;
+    }
+  }
+}
+
+function admits(state: LimiterState, algorithm: LimiterAlgorithm, config: LimiterConfig): boolean {
+  if (algorithm === "token-bucket") return state.tokens >= 1;
+  return limiterLevel(state, algorithm, config) < config.limit;
+}
+
+function admit(state: LimiterState, algorithm: LimiterAlgorithm): LimiterState {
+  switch (algorithm) {
+    case "token-bucket":
+      return { ...state, tokens: state.tokens - 1 };
+    case "leaky-bucket":
+      return { ...state, queue: state.queue + 1 };
+    case "fixed-window":
+    case "sliding-window-counter":
+      return { ...state, count: state.count + 1 };
+    case "sliding-window-log":
+      return { ...state, timestamps: [...state.timestamps, state.tick] };
+  }
+}
+
+/** Runs one tick; `arrives` says whether a request shows up in it. */
+export function limiterTick(
+  state: LimiterState,
+  algorithm: LimiterAlgorithm,
+  config: LimiterConfig,
+  arrives: boolean
+): LimiterState {
+  const now = advanceTo(state, algorithm, config, state.tick);
+  if (!arrives) return { ...now, tick: state.tick + 1, lastOutcome: null };
+
+  const accepted = admits(now, algorithm, config);
+  const next = accepted ? admit(now, algorithm) : now;
+  return {
+    ...next,
+    tick: state.tick + 1,
+    requests: state.requests + 1,
+    accepted: state.accepted + (accepted ? 1 : 0),
+    rejected: state.rejected + (accepted ? 0 : 1),
+    lastOutcome: accepted,
+  };
+}
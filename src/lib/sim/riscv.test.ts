@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { RISCV_INSTRUCTIONS, disassembleRiscv, encodeRiscv, immediateBits, packImmediate, unpackImmediate, type RiscvFormat } from "./riscv";
+
+describe("encodeRiscv", () => {
+  it("matches reference encodings for every format", () => {
+    expect(encodeRiscv("add t0, t1, t2")).toBe(0x007302b3);
+    expect(encodeRiscv("sub a0, a1, a2")).toBe(0x40c58533);
+    expect(encodeRiscv("addi a0, zero, 5")).toBe(0x00500513);
+    expect(encodeRiscv("addi sp, sp, -16")).toBe(0xff010113);
+    expect(encodeRiscv("srai t0, t0, 3")).toBe(0x4032d293);
+    expect(encodeRiscv("lw t0, 8(sp)")).toBe(0x00812283);
+    expect(encodeRiscv("sw ra, 12(sp)")).toBe(0x00112623);
+    expect(encodeRiscv("beq a0, a1, 8")).toBe(0x00b50463);
+    expect(encodeRiscv("bne t0, zero, -4")).toBe(0xfe029ee3);
+    expect(encodeRiscv("lui a0, 0x12345")).toBe(0x12345537);
+    expect(encodeRiscv("jal ra, 2048")).toBe(0x001000ef);
+    expect(encodeRiscv("jalr zero, 0(ra)")).toBe(0x00008067);
+    expect(encodeRiscv("add x5, fp, x31")).toBe(encodeRiscv("add t0, s0, t6"));
+  });
+
+  it("rejects malformed instructions and immediates that do not fit", () => {
+    expect(() => encodeRiscv("mul a0, a1, a2")).toThrow(SyntaxError);
+    expect(() => encodeRiscv("add a0, a1")).toThrow(/takes 3 operands/);
+    expect(() => encodeRiscv("add a0, a1, x32")).toThrow(/Unknown register/);
+    expect(() => encodeRiscv("addi a0, a0, 2048")).toThrow(RangeError);
+    expect(() => encodeRiscv("beq a0, a1, 3")).toThrow(/even/);
+  });
+});
+
+describe("immediates", () => {
+  it("cover each format's immediate bits exactly once", () => {
+    const expected: Record<RiscvFormat, number[]> = {
+      R: [],
+      I: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+      S: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+      B: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+      U: Array.from({ length: 20 }, (_, k) => k + 12),
+      J: Array.from({ length: 20 }, (_, k) => k + 1),
+    };
+    for (const [format, bits] of Object.entries(expected) as [RiscvFormat, number[]][]) {
+      const carried = immediateBits(format).filter((b): b is number => b !== null);
+      expect(carried.sort((a, b) => a - b)).toEqual(bits);
+    }
+    // The sign bit always lands in bit 31
+    expect(immediateBits("B")[31]).toBe(12);
+    expect(immediateBits("J")[31]).toBe(20);
+  });
+
+  it("round-trip through the scrambled layouts", () => {
+    const cases: [RiscvFormat, number][] = [
+      ["I", -2048], ["I", 2047], ["S", -1], ["S", 1234],
+      ["B", -4096], ["B", 4094], ["B", 2], ["J", -(2 ** 20)], ["J", 2 ** 20 - 2], ["J", 0x800],
+    ];
+    for (const [format, imm] of cases) {
+      expect(unpackImmediate(format, packImmediate(format, imm)), `${format} ${imm}`).toBe(imm);
+    }
+    expect(unpackImmediate("U", 0xfffff000)).toBe(-4096);
+  });
+});
+
+describe("disassembleRiscv", () => {
+  it("round-trips every instruction", () => {
+    const samples: Record<string, string> = {
+      R: "x6, x7, x28",
+      I: "x6, x7, -7",
+      shamt: "x6, x7, 9",
+      mem: "x6, -12(x7)",
+      store: "x6, 20(x7)",
+      B: "x6, x7, -20",
+      U: "x6, 0xabcde",
+      J: "x6, 1000",
+    };
+    for (const s of Object.values(RISCV_INSTRUCTIONS)) {
+      const key = s.operands.includes("shamt")
+        ? "shamt"
+        : s.format === "S"
+          ? "store"
+          : s.operands.includes("mem")
+            ? "mem"
+            : s.format;
+      const word = encodeRiscv(`${s.mnemonic} ${samples[key]}`);
+      const decoded = disassembleRiscv(word);
+      expect(decoded.mnemonic, s.mnemonic).toBe(s.mnemonic);
+      expect(encodeRiscv(decoded.text), decoded.text).toBe(word);
+    }
+  });
+
+  it("names the scrambled fields and places targets", () => {
+    const decoded = disassembleRiscv(0xfe029ee3, 0x100);
+    expect(decoded).toMatchObject({ format: "B", text: "bne t0, zero, -4", immediate: -4, target: 0xfc });
+    expect(decoded.fields.map((f) => f.name)).toEqual(["imm[12|10:5]", "rs2", "rs1", "funct3", "imm[4:1|11]", "opcode"]);
+    expect(disassembleRiscv(0x0000007f)).toMatchObject({ format: null, mnemonic: null, text: ".word 0x0000007f" });
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * RV32I encoding and decoding. RISC-V keeps rd, rs1 and rs2 at the same bit
+ * positions in every format and puts the immediate's sign bit at bit 31, at
+ * the cost of scattering the other immediate bits: S splits its immediate
+ * around rd's slot, B and J rotate theirs so that every format shares as
+ * many instruction-to-immediate wires as possible. One table per format maps
+ * each instruction bit to the immediate bit it carries and drives both
+ * directions.
+ */
+
+export type RiscvFormat = "R" | "I" | "S" | "B" | "U" | "J";
+
+/** How each operand is written and which field or immediate it fills. */
+export type RiscvOperandSlot = "rd" | "rs1" | "rs2" | "imm" | "shamt" | "mem" | "branch" | "upper" | "jump";
+
+export interface RiscvInstructionSpec {
+  mnemonic: string;
+  name: string;
+  format: RiscvFormat;
+  opcode: number;
+  funct3?: number;
+  funct7?: number;
+  operands: RiscvOperandSlot[];
+}
+
+export interface RiscvField {
+  /** Field name, with immediate pieces written the way the spec does: imm[12|10:5]. */
+  name: string;
+  bits: number;
+  value: number;
+}
+
+export interface RiscvDecoded {
+  word: number;
+  /** Null when the opcode belongs to no RV32I format. */
+  format: RiscvFormat | null;
+  mnemonic: string | null;
+  fields: RiscvField[];
+  /** The sign-extended immediate (U-type: already shifted into bits 31:12). */
+  immediate?: number;
+  text: string;
+  /** Branch or jump destination. */
+  target?: number;
+}
+
+/** ABI names of x0–x31. */
+export const RISCV_REGISTERS = [
+  "zero", "ra", "sp", "gp", "tp", "t0", "t1", "t2",
+  "s0", "s1", "a0", "a1", "a2", "a3", "a4", "a5",
+  "a6", "a7", "s2", "s3", "s4", "s5", "s6", "s7",
+  "s8", "s9", "s10", "s11", "t3", "t4", "t5", "t6",
+];
+
+export const RISCV_FIELD_LAYOUT: Record<RiscvFormat, [string, number][]> = {
+  R: [["funct7", 7], ["rs2", 5], ["rs1", 5], ["funct3", 3], ["rd", 5], ["opcode", 7]],
+  I: [["imm[11:0]", 12], ["rs1", 5], ["funct3", 3], ["rd", 5], ["opcode", 7]],
+  S: [["imm[11:5]", 7], ["rs2", 5], ["rs1", 5], ["funct3", 3], ["imm[4:0]", 5], ["opcode", 7]],
+  B: [["imm[12|10:5]", 7], ["rs2", 5], ["rs1", 5], ["funct3", 3], ["imm[4:1|11]", 5], ["opcode", 7]],
+  U: [["imm[31:12]", 20], ["rd", 5], ["opcode", 7]],
+  J: [["imm[20|10:1|11|19:12]", 20], ["rd", 5], ["opcode", 7]],
+};
+
+// [instruction high bit, instruction low bit, immediate bit the high end carries]
+const IMMEDIATE_SEGMENTS: Record<RiscvFormat, [number, number, number][]> = {
+  R: [],
+  I: [[31, 20, 11]],
+  S: [[31, 25, 11], [11, 7, 4]],
+  B: [[31, 31, 12], [30, 25, 10], [11, 8, 4], [7, 7, 11]],
+  U: [[31, 12, 31]],
+  J: [[31, 31, 20], [30, 21, 10], [20, 20, 11], [19, 12, 19]],
+};
+
+/** Index of the immediate's sign bit; U-type immediates fill the upper bits and are not extended. */
+const SIGN_BIT: Record<RiscvFormat, number> = { R: 0, I: 11, S: 11, B: 12, U: 31, J: 20 };
+
+/**
+ * For each instruction bit 0–31, the immediate bit it carries, or null.
+ * B and J immediates never store bit 0: targets are 2-byte aligned.
+ */
+export function immediateBits(format: RiscvFormat): (number | null)[] {
+  const map: (number | null)[] = Array(32).fill(null);
+  for (const [high, low, immHigh] of IMMEDIATE_SEGMENTS[format]) {
+    for (let bit = high; bit >= low; bit--) map[bit] = immHigh - (high - bit);
+  }
+  return map;
+}
+
+const bit = (value: number, index: number) => Math.floor(value / 2 ** index) % 2;
+
+/** Scatters an immediate into the instruction bits its format keeps it in. */
+export function packImmediate(format: RiscvFormat, immediate: number): number {
+  const value = immediate >>> 0;
+  return immediateBits(format).reduce<number>((word, immBit, instrBit) => (immBit === null ? word : word + bit(value, immBit) * 2 ** instrBit), 0);
+}
+
+/** Gathers and sign-extends the immediate a word carries. */
+export function unpackImmediate(format: RiscvFormat, word: number): number {
+  const raw = immediateBits(format).reduce<number>((imm, immBit, instrBit) => (immBit === null ? imm : imm + bit(word, instrBit) * 2 ** immBit), 0);
+  if (format === "U") return raw | 0;
+  const sign = SIGN_BIT[format];
+  return bit(raw, sign) ? raw - 2 ** (sign + 1) : raw;
+}
+
+// ──────────────────────────── Instruction set ────────────────────────────
+
+const OPCODES = { op: 0x33, opImm: 0x13, load: 0x03, store: 0x23, branch: 0x63, lui: 0x37, auipc: 0x17, jal: 0x6f, jalr: 0x67 };
+
+function spec(
+  mnemonic: string,
+  name: string,
+  format: RiscvFormat,
+  opcode: number,
+  operands: RiscvOperandSlot[],
+  funct3?: number,
+  funct7?: number,
+): RiscvInstructionSpec {
+  return { mnemonic, name, format, opcode, funct3, funct7, operands };
+}
+
+const REG3: RiscvOperandSlot[] = ["rd", "rs1", "rs2"];
+const REG_IMM: RiscvOperandSlot[] = ["rd", "rs1", "imm"];
+const SHIFT_IMM: RiscvOperandSlot[] = ["rd", "rs1", "shamt"];
+const LOAD: RiscvOperandSlot[] = ["rd", "mem"];
+const STORE: RiscvOperandSlot[] = ["rs2", "mem"];
+const BRANCH: RiscvOperandSlot[] = ["rs1", "rs2", "branch"];
+
+export const RISCV_INSTRUCTIONS: Record<string, RiscvInstructionSpec> = Object.fromEntries(
+  [
+    spec("add", "Add", "R", OPCODES.op, REG3, 0, 0x00),
+    spec("sub", "Subtract", "R", OPCODES.op, REG3, 0, 0x20),
+    spec("sll", "Shift Left Logical", "R", OPCODES.op, REG3, 1, 0x00),
+    spec("slt", "Set Less Than", "R", OPCODES.op, REG3, 2, 0x00),
+    spec("sltu", "Set Less Than Unsigned", "R", OPCODES.op, REG3, 3, 0x00),
+    spec("xor", "XOR", "R", OPCODES.op, REG3, 4, 0x00),
+    spec("srl", "Shift Right Logical", "R", OPCODES.op, REG3, 5, 0x00),
+    spec("sra", "Shift Right Arithmetic", "R", OPCODES.op, REG3, 5, 0x20),
+    spec("or", "OR", "R", OPCODES.op, REG3, 6, 0x00),
+    spec("and", "AND", "R", OPCODES.op, REG3, 7, 0x00),
+    spec("addi", "Add Immediate", "I", OPCODES.opImm, REG_IMM, 0),
+    spec("slti", "Set Less Than Immediate", "I", OPCODES.opImm, REG_IMM, 2),
+    spec("sltiu", "Set Less Than Immediate Unsigned", "I", OPCODES.opImm, REG_IMM, 3),
+    spec("xori", "XOR Immediate", "I", OPCODES.opImm, REG_IMM, 4),
+    spec("ori", "OR Immediate", "I", OPCODES.opImm, REG_IMM, 6),
+    spec("andi", "AND Immediate", "I", OPCODES.opImm, REG_IMM, 7),
+    spec("slli", "Shift Left Logical Immediate", "I", OPCODES.opImm, SHIFT_IMM, 1, 0x00),
+    spec("srli", "Shift Right Logical Immediate", "I", OPCODES.opImm, SHIFT_IMM, 5, 0x00),
+    spec("srai", "Shift Right Arithmetic Immediate", "I", OPCODES.opImm, SHIFT_IMM, 5, 0x20),
+    spec("lb", "Load Byte", "I", OPCODES.load, LOAD, 0),
+    spec("lh", "Load Halfword", "I", OPCODES.load, LOAD, 1),
+    spec("lw", "Load Word", "I", OPCODES.load, LOAD, 2),
+    spec("lbu", "Load Byte Unsigned", "I", OPCODES.load, LOAD, 4),
+    spec("lhu", "Load Halfword Unsigned", "I", OPCODES.load, LOAD, 5),
+    spec("jalr", "Jump and Link Register", "I", OPCODES.jalr, LOAD, 0),
+    spec("sb", "Store Byte", "S", OPCODES.store, STORE, 0),
+    spec("sh", "Store Halfword", "S", OPCODES.store, STORE, 1),
+    spec("sw", "Store Word", "S", OPCODES.store, STORE, 2),
+    spec("beq", "Branch if Equal", "B", OPCODES.branch, BRANCH, 0),
+    spec("bne", "Branch if Not Equal", "B", OPCODES.branch, BRANCH, 1),
+    spec("blt", "Branch if Less Than", "B", OPCODES.branch, BRANCH, 4),
+    spec("bge", "Branch if Greater or Equal", "B", OPCODES.branch, BRANCH, 5),
+    spec("bltu", "Branch if Less Than Unsigned", "B", OPCODES.branch, BRANCH, 6),
+    spec("bgeu", "Branch if Greater or Equal Unsigned", "B", OPCODES.branch, BRANCH, 7),
+    spec("lui", "Load Upper Immediate", "U", OPCODES.lui, ["rd", "upper"]),
+    spec("auipc", "Add Upper Immediate to PC", "U", OPCODES.auipc, ["rd", "upper"]),
+    spec("jal", "Jump and Link", "J", OPCODES.jal, ["rd", "jump"]),
+  ].map((s) => [s.mnemonic, s]),
+);
+
+const FORMAT_BY_OPCODE = new Map<number, RiscvFormat>(Object.values(RISCV_INSTRUCTIONS).map((s) => [s.opcode, s.format]));
+
+// ──────────────────────────── Encoding ────────────────────────────
+
+function parseRegister(text: string): number {
+  const name = text.toLowerCase();
+  const numbered = /^x(\d+)$/.exec(name);
+  const index = numbered ? Number(numbered[1]) : name === "fp" ? 8 : RISCV_REGISTERS.indexOf(name);
+  if (index < 0 || index > 31) throw new SyntaxError(`Unknown register ${text}`);
+  return index;
+}
+
+function parseImmediate(text: string, min: number, max: number, what: string): number {
+  if (!/^[-+]?(0x[0-9a-f]+|\d+)$/i.test(text)) throw new SyntaxError(`Expected ${what}, found '${text}'`);
+  const value = text.startsWith("-") ? -Number(text.slice(1)) : Number(text.replace(/^\+/, ""));
+  if (value < min || value > max) throw new RangeError(`${value} does not fit ${what} (${min} to ${max})`);
+  return value;
+}
+
+/**
+ * Encodes one instruction written the way the RISC-V manual does —
+ * `addi a0, zero, 5`, `lw t0, 8(sp)`, `beq a0, a1, -8` — where branch and
+ * jump operands are byte offsets from the instruction itself. Throws a
+ * SyntaxError for malformed text and a RangeError for immediates that do
+ * not fit.
+ */
+export function encodeRiscv(text: string): number {
+  const m = /^\s*(\S+)\s*(.*?)\s*$/.exec(text);
+  if (!m) throw new SyntaxError("Enter an instruction");
+  const s = RISCV_INSTRUCTIONS[m[1].toLowerCase()];
+  if (!s) throw new SyntaxError(`Unknown RV32I instruction '${m[1]}'`);
+  const operands = m[2] ? m[2].split(",").map((o) => o.trim()) : [];
+  if (operands.length !== s.operands.length) {
+    throw new SyntaxError(`${s.mnemonic} takes ${s.operands.length} operands (${s.operands.join(", ")}), found ${operands.length}`);
+  }
+
+  const fields = { funct3: s.funct3 ?? 0, funct7: s.funct7 ?? 0, rd: 0, rs1: 0, rs2: 0 };
+  let immediate = 0;
+  s.operands.forEach((slot, k) => {
+    const op = operands[k];
+    switch (slot) {
+      case "rd":
+      case "rs1":
+      case "rs2":
+        fields[slot] = parseRegister(op);
+        break;
+      case "imm":
+        immediate = parseImmediate(op, -2048, 2047, "a signed 12-bit immediate");
+        break;
+      case "shamt":
+        // The shift amount sits in imm[4:0]; funct7 distinguishes SRAI from SRLI in imm[11:5]
+        immediate = parseImmediate(op, 0, 31, "a shift amount") + (s.funct7 ?? 0) * 32;
+        break;
+      case "mem": {
+        const mem = /^(.*?)\s*\(\s*(\w+)\s*\)$/.exec(op);
+        if (!mem) throw new SyntaxError(`Expected offset(base), found '${op}'`);
+        immediate = mem[1] ? parseImmediate(mem[1], -2048, 2047, "a signed 12-bit offset") : 0;
+        fields.rs1 = parseRegister(mem[2]);
+        break;
+      }
+      case "branch":
+        immediate = parseImmediate(op, -4096, 4094, "a 13-bit branch offset");
+        if (immediate % 2 !== 0) throw new RangeError(`Branch offsets are even, not ${immediate}`);
+        break;
+      case "upper":
+        immediate = parseImmediate(op, 0, 0xfffff, "a 20-bit upper immediate") * 4096;
+        break;
+      case "jump":
+        immediate = parseImmediate(op, -(2 ** 20), 2 ** 20 - 2, "a 21-bit jump offset");
+        if (immediate % 2 !== 0) throw new RangeError(`Jump offsets are even, not ${immediate}`);
+        break;
+    }
+  });
+
+  const base = s.opcode + fields.funct3 * 2 ** 12;
+  const rd = fields.rd * 2 ** 7;
+  const rs1 = fields.rs1 * 2 ** 15;
+  const rs2 = fields.rs2 * 2 ** 20;
+  switch (s.format) {
+    case "R":
+      return base + rd + rs1 + rs2 + fields.funct7 * 2 ** 25;
+    case "I":
+      return base + rd + rs1 + packImmediate("I", immediate);
+    case "S":
+    case "B":
+      return base + rs1 + rs2 + packImmediate(s.format, immediate);
+    case "U":
+    case "J":
+      return base + rd + packImmediate(s.format, immediate);
+  }
+}
+
+// ──────────────────────────── Decoding ────────────────────────────
+
+export function riscvFields(word: number, format: RiscvFormat): RiscvField[] {
+  let shift = 32;
+  return RISCV_FIELD_LAYOUT[format].map(([name, bits]) => {
+    shift -= bits;
+    return { name, bits, value: Math.floor(word / 2 ** shift) % 2 ** bits };
+  });
+}
+
+/** Decodes one word; `address` places branch and jump targets. */
+export function disassembleRiscv(word: number, address = 0): RiscvDecoded {
+  word >>>= 0;
+  const opcode = word & 0x7f;
+  const format = FORMAT_BY_OPCODE.get(opcode) ?? null;
+  const unknown = (fields: RiscvField[]): RiscvDecoded => ({
+    word,
+    format,
+    mnemonic: null,
+    fields,
+    text: `.word 0x${word.toString(16).padStart(8, "0")}`,
+  });
+  if (!format) return unknown([]);
+
+  const fields = riscvFields(word, format);
+  const rd = (word >>> 7) & 0x1f;
+  const funct3 = (word >>> 12) & 0x7;
+  const rs1 = (word >>> 15) & 0x1f;
+  const rs2 = (word >>> 20) & 0x1f;
+  const funct7 = word >>> 25;
+  const s = Object.values(RISCV_INSTRUCTIONS).find(
+    (c) =>
+      c.opcode === opcode &&
+      (c.funct3 === undefined || c.funct3 === funct3) &&
+      (c.funct7 === undefined || c.funct7 === funct7),
+  );
+  if (!s) return unknown(fields);
+
+  const immediate = format === "R" ? undefined : unpackImmediate(format, word);
+  const imm = immediate ?? 0;
+  let target: number | undefined;
+  const operands = s.operands.map((slot) => {
+    switch (slot) {
+      case "rd":
+        return RISCV_REGISTERS[rd];
+      case "rs1":
+        return RISCV_REGISTERS[rs1];
+      case "rs2":
+        return RISCV_REGISTERS[rs2];
+      case "imm":
+        return String(imm);
+      case "shamt":
+        return String(imm & 0x1f);
+      case "mem":
+        return `${imm}(${RISCV_REGISTERS[rs1]})`;
+      case "upper":
+        return `0x${(imm >>> 12).toString(16)}`;
+      case "branch":
+      case "jump":
+        target = (address + imm) >>> 0;
+        return String(imm);
+    }
+  });
+  return { word, format, mnemonic: s.mnemonic, fields, immediate, text: `${s.mnemonic} ${operands.join(", ")}`, target };
+}
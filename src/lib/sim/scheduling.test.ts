@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { runScheduler, scheduleAverages, type Algorithm, type ProcessDef } from "./scheduling";
+
+type Row = [name: string, arrival: number, burst: number, priority?: number];
+
+function defs(rows: Row[]): ProcessDef[] {
+  return rows.map(([name, arrivalTime, burstTime, priority = 1], i) => ({
+    id: i + 1,
+    name,
+    arrivalTime,
+    burstTime,
+    priority,
+    color: "#000",
+  }));
+}
+
+function gantt(rows: Row[], algorithm: Algorithm, quantum = 4): string[] {
+  return runScheduler(defs(rows), algorithm, quantum).gantt.map(
+    (g) => `${g.processName} ${g.startTime}-${g.endTime}`
+  );
+}
+
+// Silberschatz, Operating System Concepts, ch. 5 examples
+const CONVOY: Row[] = [["P1", 0, 24], ["P2", 0, 3], ["P3", 0, 3]];
+
+describe("runScheduler", () => {
+  it("FCFS runs in arrival order", () => {
+    expect(gantt(CONVOY, "FCFS")).toEqual(["P1 0-24", "P2 24-27", "P3 27-30"]);
+    expect(scheduleAverages(runScheduler(defs(CONVOY), "FCFS", 4).processes)?.waiting).toBe(17);
+  });
+
+  it("SJF picks the shortest burst without preempting", () => {
+    const rows: Row[] = [["P1", 0, 6], ["P2", 0, 8], ["P3", 0, 7], ["P4", 0, 3]];
+    expect(gantt(rows, "SJF")).toEqual(["P4 0-3", "P1 3-9", "P3 9-16", "P2 16-24"]);
+    expect(scheduleAverages(runScheduler(defs(rows), "SJF", 4).processes)?.waiting).toBe(7);
+  });
+
+  it("SRTF preempts for a shorter remaining time", () => {
+    const rows: Row[] = [["P1", 0, 8], ["P2", 1, 4], ["P3", 2, 9], ["P4", 3, 5]];
+    expect(gantt(rows, "SRTF")).toEqual(["P1 0-1", "P2 1-5", "P4 5-10", "P1 10-17", "P3 17-26"]);
+    expect(scheduleAverages(runScheduler(defs(rows), "SRTF", 4).processes)?.waiting).toBe(6.5);
+  });
+
+  it("RR rotates through a FIFO ready queue", () => {
+    expect(gantt(CONVOY, "RR", 4)).toEqual(["P1 0-4", "P2 4-7", "P3 7-10", "P1 10-30"]);
+    expect(scheduleAverages(runScheduler(defs(CONVOY), "RR", 4).processes)?.waiting).toBeCloseTo(17 / 3);
+  });
+
+  it("RR queues new arrivals ahead of the preempted process", () => {
+    const rows: Row[] = [["P1", 0, 5], ["P2", 1, 3], ["P3", 2, 1]];
+    expect(gantt(rows, "RR", 2)).toEqual(["P1 0-2", "P2 2-4", "P3 4-5", "P1 5-7", "P2 7-8", "P1 8-9"]);
+  });
+
+  it("Priority runs the lowest number first", () => {
+    const rows: Row[] = [["P1", 0, 10, 3], ["P2", 0, 1, 1], ["P3", 0, 2, 4], ["P4", 0, 1, 5], ["P5", 0, 5, 2]];
+    expect(gantt(rows, "Priority")).toEqual(["P2 0-1", "P5 1-6", "P1 6-16", "P3 16-18", "P4 18-19"]);
+    expect(scheduleAverages(runScheduler(defs(rows), "Priority", 4).processes)?.waiting).toBe(8.2);
+  });
+
+  it("MLFQ demotes a CPU-bound process after each quantum", () => {
+    const rows: Row[] = [["P1", 0, 20], ["P2", 0, 2]];
+    expect(gantt(rows, "MLFQ")).toEqual(["P1 0-2", "P2 2-4", "P1 4-22"]);
+    const [p1] = runScheduler(defs(rows), "MLFQ", 4).processes;
+    expect(p1.currentQueue).toBe(2);
+  });
+
+  it("fills gaps between arrivals with idle time", () => {
+    expect(gantt([["P1", 2, 2]], "FCFS")).toEqual(["Idle 0-2", "P1 2-4"]);
+  });
+
+  it("ends with the clock at the last completion time", () => {
+    const state = runScheduler(defs(CONVOY), "FCFS", 4);
+    expect(state.done).toBe(true);
+    expect(state.currentTime).toBe(30);
+  });
+});
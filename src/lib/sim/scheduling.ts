@@ -0,0 +1,362 @@
+/**
+ * CPU scheduling engine used by the 3.2 CPU Scheduling module. Time advances
+ * one unit per tick; each tick picks a process with the selected policy and
+ * extends the Gantt chart.
+ */
+
+// ──────────────────────────── Types ────────────────────────────
+
+export type Algorithm = "FCFS" | "SJF" | "SRTF" | "RR" | "Priority" | "MLFQ";
+
+export interface ProcessDef {
+  id: number;
+  name: string;
+  arrivalTime: number;
+  burstTime: number;
+  priority: number;
+  color: string;
+}
+
+export interface ProcessState {
+  id: number;
+  name: string;
+  arrivalTime: number;
+  burstTime: number;
+  remainingTime: number;
+  priority: number;
+  color: string;
+  startTime: number | null;
+  finishTime: number | null;
+  waitingTime: number;
+  responseTime: number | null;
+  // MLFQ specific
+  currentQueue: number;
+  quantumUsed: number;
+}
+
+export interface GanttEntry {
+  processId: number | null; // null = idle
+  processName: string;
+  color: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface MLFQQueue {
+  level: number;
+  quantum: number;
+  processes: number[]; // process IDs
+}
+
+export interface SchedulerState {
+  processes: ProcessState[];
+  /** Time units elapsed; the next tick runs the unit [currentTime, currentTime + 1). */
+  currentTime: number;
+  gantt: GanttEntry[];
+  runningId: number | null;
+  quantumCounter: number;
+  /** Waiting process IDs in the order they joined the ready queue (RR and MLFQ). */
+  readyOrder: number[];
+  done: boolean;
+  mlfqQueues: MLFQQueue[];
+}
+
+// ──────────────────────────── Constants ────────────────────────────
+
+export const MLFQ_LEVELS = 3;
+export const MLFQ_QUANTA = [2, 4, 8];
+
+export const IDLE_COLOR = "#2a2a3e";
+
+// ──────────────────────────── Simulation Engine ────────────────────────────
+
+export function initProcessStates(defs: ProcessDef[]): ProcessState[] {
+  return defs.map(d => ({
+    id: d.id,
+    name: d.name,
+    arrivalTime: d.arrivalTime,
+    burstTime: d.burstTime,
+    remainingTime: d.burstTime,
+    priority: d.priority,
+    color: d.color,
+    startTime: null,
+    finishTime: null,
+    waitingTime: 0,
+    responseTime: null,
+    currentQueue: 0,
+    quantumUsed: 0,
+  }));
+}
+
+export function getReadyProcesses(states: ProcessState[], currentTime: number): ProcessState[] {
+  return states.filter(
+    p => p.arrivalTime <= currentTime && p.remainingTime > 0 && p.finishTime === null
+  );
+}
+
+export function selectProcess(
+  algorithm: Algorithm,
+  readyQueue: ProcessState[],
+  currentRunning: number | null,
+  timeQuantum: number,
+  quantumCounter: number,
+  mlfqQueues: MLFQQueue[],
+): { selectedId: number | null; preempt: boolean } {
+  if (readyQueue.length === 0) return { selectedId: null, preempt: false };
+
+  switch (algorithm) {
+    case "FCFS": {
+      if (currentRunning !== null && readyQueue.some(p => p.id === currentRunning && p.remainingTime > 0)) {
+        return { selectedId: currentRunning, preempt: false };
+      }
+      const sorted = [...readyQueue].sort((a, b) => a.arrivalTime - b.arrivalTime || a.id - b.id);
+      return { selectedId: sorted[0].id, preempt: false };
+    }
+    case "SJF": {
+      if (currentRunning !== null && readyQueue.some(p => p.id === currentRunning && p.remainingTime > 0)) {
+        return { selectedId: currentRunning, preempt: false };
+      }
+      const sorted = [...readyQueue].sort((a, b) => a.burstTime - b.burstTime || a.arrivalTime - b.arrivalTime);
+      return { selectedId: sorted[0].id, preempt: false };
+    }
+    case "SRTF": {
+      const sorted = [...readyQueue].sort((a, b) => a.remainingTime - b.remainingTime || a.arrivalTime - b.arrivalTime);
+      const selected = sorted[0].id;
+      return { selectedId: selected, preempt: selected !== currentRunning };
+    }
+    case "RR": {
+      if (currentRunning !== null && readyQueue.some(p => p.id === currentRunning && p.remainingTime > 0)) {
+        if (quantumCounter < timeQuantum) {
+          return { selectedId: currentRunning, preempt: false };
+        }
+        // Quantum expired, pick next in round-robin order
+        const currentIdx = readyQueue.findIndex(p => p.id === currentRunning);
+        const nextIdx = (currentIdx + 1) % readyQueue.length;
+        return { selectedId: readyQueue[nextIdx].id, preempt: true };
+      }
+      return { selectedId: readyQueue[0].id, preempt: false };
+    }
+    case "Priority": {
+      const sorted = [...readyQueue].sort((a, b) => a.priority - b.priority || a.arrivalTime - b.arrivalTime);
+      const selected = sorted[0].id;
+      return { selectedId: selected, preempt: selected !== currentRunning };
+    }
+    case "MLFQ": {
+      // Pick from highest priority queue that has ready processes
+      for (let level = 0; level < MLFQ_LEVELS; level++) {
+        const queuePids = mlfqQueues[level]?.processes || [];
+        const inQueue = readyQueue.filter(p => queuePids.includes(p.id));
+        if (inQueue.length > 0) {
+          // Within a queue, use round-robin
+          if (currentRunning !== null && inQueue.some(p => p.id === currentRunning)) {
+            const currentProc = inQueue.find(p => p.id === currentRunning)!;
+            if (currentProc.quantumUsed < MLFQ_QUANTA[level]) {
+              return { selectedId: currentRunning, preempt: false };
+            }
+            // Quantum used up, round robin within queue
+            const idx = inQueue.findIndex(p => p.id === currentRunning);
+            const nextIdx = (idx + 1) % inQueue.length;
+            return { selectedId: inQueue[nextIdx].id, preempt: true };
+          }
+          return { selectedId: inQueue[0].id, preempt: false };
+        }
+      }
+      return { selectedId: null, preempt: false };
+    }
+    default:
+      return { selectedId: null, preempt: false };
+  }
+}
+
+
+function extendGantt(
+  gantt: GanttEntry[],
+  processId: number | null,
+  processName: string,
+  color: string,
+  time: number
+): GanttEntry[] {
+  const last = gantt[gantt.length - 1];
+  if (last && last.processId === processId && last.endTime === time) {
+    return [...gantt.slice(0, -1), { ...last, endTime: time + 1 }];
+  }
+  return [...gantt, { processId, processName, color, startTime: time, endTime: time + 1 }];
+}
+
+export function createSchedulerState(defs: ProcessDef[]): SchedulerState {
+  const processes = initProcessStates(defs);
+  return {
+    processes,
+    currentTime: 0,
+    gantt: [],
+    runningId: null,
+    quantumCounter: 0,
+    readyOrder: [],
+    done: processes.length === 0,
+    mlfqQueues: Array.from({ length: MLFQ_LEVELS }, (_, i) => ({
+      level: i,
+      quantum: MLFQ_QUANTA[i],
+      processes: i === 0 ? processes.map(p => p.id) : [],
+    })),
+  };
+}
+
+/**
+ * Orders the ready list for the round-robin policies: waiting processes in
+ * FIFO order, then the running process, so "the next one after the current"
+ * is the head of the queue.
+ */
+function orderForRoundRobin(ready: ProcessState[], readyOrder: number[], runningId: number | null): ProcessState[] {
+  const byId = new Map(ready.map(p => [p.id, p]));
+  const ordered = readyOrder.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  const running = runningId !== null ? byId.get(runningId) : undefined;
+  return running ? [...ordered, running] : ordered;
+}
+
+/** Runs the time unit starting at `state.currentTime`. */
+export function schedulerTick(
+  state: SchedulerState,
+  algorithm: Algorithm,
+  timeQuantum: number
+): SchedulerState {
+  if (state.done) return state;
+
+  const time = state.currentTime;
+  const states = state.processes.map(s => ({ ...s }));
+
+  // New arrivals join the tail of the ready queue
+  const readyOrder = [...state.readyOrder];
+  const arrivals = states
+    .filter(p => p.arrivalTime <= time && p.finishTime === null && p.id !== state.runningId && !readyOrder.includes(p.id))
+    .sort((a, b) => a.arrivalTime - b.arrivalTime || a.id - b.id);
+  readyOrder.push(...arrivals.map(p => p.id));
+
+  const next: SchedulerState = { ...state, processes: states, currentTime: time + 1, readyOrder };
+
+  const ready = getReadyProcesses(states, time);
+
+  if (ready.length === 0) {
+    return { ...next, runningId: null, quantumCounter: 0, gantt: extendGantt(state.gantt, null, "Idle", IDLE_COLOR, time) };
+  }
+
+  const roundRobin = algorithm === "RR" || algorithm === "MLFQ";
+  const { selectedId, preempt } = selectProcess(
+    algorithm,
+    roundRobin ? orderForRoundRobin(ready, readyOrder, state.runningId) : ready,
+    state.runningId,
+    timeQuantum,
+    state.quantumCounter,
+    state.mlfqQueues,
+  );
+
+  if (selectedId === null) {
+    return { ...next, runningId: null, quantumCounter: 0, gantt: extendGantt(state.gantt, null, "Idle", IDLE_COLOR, time) };
+  }
+
+  // A process that loses the CPU goes to the back of the queue
+  if (state.runningId !== null && state.runningId !== selectedId) {
+    readyOrder.push(state.runningId);
+  }
+  next.readyOrder = readyOrder.filter(id => id !== selectedId);
+
+  const proc = states.find(s => s.id === selectedId)!;
+
+  if (proc.responseTime === null) {
+    proc.responseTime = time - proc.arrivalTime;
+  }
+  if (proc.startTime === null) {
+    proc.startTime = time;
+  }
+
+  let quantumCounter = state.quantumCounter;
+  if (selectedId !== state.runningId || preempt) {
+    quantumCounter = 0;
+    // MLFQ: reset quantum used for new process
+    if (algorithm === "MLFQ") {
+      proc.quantumUsed = 0;
+    }
+  }
+
+  // Execute for 1 time unit
+  proc.remainingTime--;
+  quantumCounter++;
+  if (algorithm === "MLFQ") {
+    proc.quantumUsed++;
+  }
+
+  // Every other arrived, unfinished process waits this unit
+  for (const s of states) {
+    if (s.id !== selectedId && s.arrivalTime <= time && s.remainingTime > 0 && s.finishTime === null) {
+      s.waitingTime++;
+    }
+  }
+
+  let runningId: number | null = selectedId;
+  let mlfqQueues = state.mlfqQueues;
+
+  if (proc.remainingTime <= 0) {
+    proc.finishTime = time + 1;
+    proc.remainingTime = 0;
+    runningId = null;
+    quantumCounter = 0;
+
+    if (algorithm === "MLFQ") {
+      mlfqQueues = mlfqQueues.map(q => ({
+        ...q,
+        processes: q.processes.filter(pid => pid !== selectedId),
+      }));
+    }
+  } else if (algorithm === "MLFQ") {
+    // Demote a process that used up its quantum
+    const currentQ = proc.currentQueue;
+    const newLevel = Math.min(currentQ + 1, MLFQ_LEVELS - 1);
+    if (proc.quantumUsed >= MLFQ_QUANTA[currentQ] && newLevel !== currentQ) {
+      proc.currentQueue = newLevel;
+      proc.quantumUsed = 0;
+      mlfqQueues = mlfqQueues.map(q => ({ ...q, processes: [...q.processes] }));
+      mlfqQueues[currentQ].processes = mlfqQueues[currentQ].processes.filter(pid => pid !== selectedId);
+      if (!mlfqQueues[newLevel].processes.includes(selectedId)) {
+        mlfqQueues[newLevel].processes.push(selectedId);
+      }
+    }
+  }
+
+  return {
+    ...next,
+    runningId,
+    quantumCounter,
+    mlfqQueues,
+    gantt: extendGantt(state.gantt, selectedId, proc.name, proc.color, time),
+    done: states.every(s => s.finishTime !== null),
+  };
+}
+
+/** Ticks until every process has finished, or `maxTicks` is reached. */
+export function runScheduler(
+  defs: ProcessDef[],
+  algorithm: Algorithm,
+  timeQuantum: number,
+  maxTicks = 10_000
+): SchedulerState {
+  let state = createSchedulerState(defs);
+  for (let i = 0; i < maxTicks && !state.done; i++) {
+    state = schedulerTick(state, algorithm, timeQuantum);
+  }
+  return state;
+}
+
+/** Average waiting, turnaround and response times over finished processes. */
+export function scheduleAverages(processes: ProcessState[]): {
+  waiting: number;
+  turnaround: number;
+  response: number;
+} | null {
+  const done = processes.filter(p => p.finishTime !== null);
+  if (done.length === 0) return null;
+  const avg = (f: (p: ProcessState) => number) => done.reduce((sum, p) => sum + f(p), 0) / done.length;
+  return {
+    waiting: avg(p => p.waitingTime),
+    turnaround: avg(p => (p.finishTime ?? 0) - p.arrivalTime),
+    response: avg(p => p.responseTime ?? 0),
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { computeSchedule, hashToHex, messageToBytes, padMessage, parseBlocks, sha256 } from "./sha256";
+
+describe("sha256", () => {
+  // FIPS 180-4 examples and the NIST CAVP short-message vectors
+  it.each([
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    ],
+    [
+      "The quick brown fox jumps over the lazy dog",
+      "d7a8fbb307d7809469ca9abcb0082e4f8d5651e46d3cdb762d02d0bf37c9e592",
+    ],
+  ])("hashes %j", (message, expected) => {
+    expect(hashToHex(sha256(message))).toBe(expected);
+  });
+
+  it("hashes one million 'a' characters", () => {
+    expect(hashToHex(sha256("a".repeat(1_000_000)))).toBe(
+      "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0"
+    );
+  });
+});
+
+describe("padMessage", () => {
+  it("pads to a whole number of 512-bit blocks", () => {
+    expect(padMessage(messageToBytes("abc"))).toHaveLength(64);
+    // 56 bytes leave no room for the 0x80 marker and the length field
+    expect(padMessage(new Array(56).fill(0x61))).toHaveLength(128);
+  });
+
+  it("ends with the big-endian bit length", () => {
+    const padded = padMessage(messageToBytes("abc"));
+    expect(padded[3]).toBe(0x80);
+    expect(padded.slice(-8)).toEqual([0, 0, 0, 0, 0, 0, 0, 24]);
+  });
+});
+
+describe("computeSchedule", () => {
+  it("expands the first block of 'abc' to 64 words", () => {
+    const [block] = parseBlocks(padMessage(messageToBytes("abc")));
+    const W = computeSchedule(block);
+    expect(W).toHaveLength(64);
+    expect(W[0]).toBe(0x61626380);
+    expect(W[15]).toBe(0x00000018);
+    expect(W[16]).toBe(0x61626380);
+    expect(W[63]).toBe(0x12b1edeb);
+  });
+});
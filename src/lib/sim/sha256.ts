@@ -0,0 +1,154 @@
+/**
+ * SHA-256 (FIPS 180-4) used by the 9.2 SHA-256 module. The round helpers
+ * are exported individually so the page can animate one compression round
+ * at a time.
+ */
+
+// SHA-256 constants K
+export const K: number[] = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+// Initial hash values H
+export const H0: number[] = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+  0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+// 32-bit operations
+export function rotr(x: number, n: number): number {
+  return ((x >>> n) | (x << (32 - n))) >>> 0;
+}
+
+export function shr(x: number, n: number): number {
+  return (x >>> n) >>> 0;
+}
+
+export function ch(x: number, y: number, z: number): number {
+  return ((x & y) ^ (~x & z)) >>> 0;
+}
+
+export function maj(x: number, y: number, z: number): number {
+  return ((x & y) ^ (x & z) ^ (y & z)) >>> 0;
+}
+
+export function sigma0(x: number): number {
+  return (rotr(x, 2) ^ rotr(x, 13) ^ rotr(x, 22)) >>> 0;
+}
+
+export function sigma1(x: number): number {
+  return (rotr(x, 6) ^ rotr(x, 11) ^ rotr(x, 25)) >>> 0;
+}
+
+export function lsigma0(x: number): number {
+  return (rotr(x, 7) ^ rotr(x, 18) ^ shr(x, 3)) >>> 0;
+}
+
+export function lsigma1(x: number): number {
+  return (rotr(x, 17) ^ rotr(x, 19) ^ shr(x, 10)) >>> 0;
+}
+
+export function add32(...vals: number[]): number {
+  let sum = 0;
+  for (const v of vals) sum = (sum + v) >>> 0;
+  return sum;
+}
+
+// Message padding
+export function padMessage(bytes: number[]): number[] {
+  const L = bytes.length;
+  const padded = [...bytes];
+  padded.push(0x80); // append 1 bit
+  while ((padded.length % 64) !== 56) {
+    padded.push(0x00);
+  }
+  // Append 64-bit big-endian length in bits
+  const bitLen = L * 8;
+  for (let i = 7; i >= 0; i--) {
+    padded.push((bitLen / Math.pow(256, i)) & 0xff);
+  }
+  return padded;
+}
+
+// Parse into 512-bit blocks (16 32-bit words each)
+export function parseBlocks(padded: number[]): number[][] {
+  const blocks: number[][] = [];
+  for (let i = 0; i < padded.length; i += 64) {
+    const block: number[] = [];
+    for (let j = 0; j < 16; j++) {
+      const word = (padded[i + j * 4] << 24) | (padded[i + j * 4 + 1] << 16) | (padded[i + j * 4 + 2] << 8) | padded[i + j * 4 + 3];
+      block.push(word >>> 0);
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+// Compute message schedule W[0..63]
+export function computeSchedule(block: number[]): number[] {
+  const W: number[] = [...block]; // W[0..15]
+  for (let t = 16; t < 64; t++) {
+    W.push(add32(lsigma1(W[t - 2]), W[t - 7], lsigma0(W[t - 15]), W[t - 16]));
+  }
+  return W;
+}
+
+// UTF-8 bytes of a message, as the standard test vectors are defined over
+export function messageToBytes(message: string): number[] {
+  return Array.from(new TextEncoder().encode(message));
+}
+
+// Full SHA-256 hash
+export function sha256(message: string): number[] {
+  const bytes = messageToBytes(message);
+  const padded = padMessage(bytes);
+  const blocks = parseBlocks(padded);
+
+  let hash = [...H0];
+
+  for (const block of blocks) {
+    const W = computeSchedule(block);
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let t = 0; t < 64; t++) {
+      const T1 = add32(h, sigma1(e), ch(e, f, g), K[t], W[t]);
+      const T2 = add32(sigma0(a), maj(a, b, c));
+      h = g;
+      g = f;
+      f = e;
+      e = add32(d, T1);
+      d = c;
+      c = b;
+      b = a;
+      a = add32(T1, T2);
+    }
+
+    hash = [add32(hash[0], a), add32(hash[1], b), add32(hash[2], c), add32(hash[3], d),
+            add32(hash[4], e), add32(hash[5], f), add32(hash[6], g), add32(hash[7], h)];
+  }
+
+  return hash;
+}
+
+export function hashToHex(hash: number[]): string {
+  return hash.map((h) => h.toString(16).padStart(8, "0")).join("");
+}
+
+export function hashToBits(hash: number[]): string {
+  return hash.map((h) => h.toString(2).padStart(32, "0")).join("");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let count = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) count++;
+  }
+  return count;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { isStepReady } from "./tour";
+
+interface Frame {
+  tick: number;
+  cwnd: number;
+}
+
+const frames: Frame[] = [1, 2, 4, 8, 4, 5].map((cwnd, tick) => ({ tick, cwnd }));
+
+describe("tour stops", () => {
+  it("shows stops without a condition immediately", () => {
+    expect(isStepReady({ text: "Intro" }, frames[0])).toBe(true);
+    expect(isStepReady<Frame>({ text: "Later", waitFor: (f) => f.tick > 2 }, frames[0])).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Guided tours: an ordered list of annotated stops attached to a scenario
+ * preset. The simulation plays until a stop's `waitFor` condition holds,
+ * then pauses there while the narration is on screen. Tours are plain data
+ * over the page's own simulation state, so they live next to the presets
+ * they walk through.
+ */
+
+export interface TourStep<S> {
+  /** Narration shown at this stop. */
+  text: string;
+  /** Optional TeX, rendered with KaTeX under the narration. */
+  math?: string;
+  /** Value of the `data-tour` attribute on the element to highlight. */
+  target?: string;
+  /** Play until this holds. Stops without one are shown straight away. */
+  waitFor?: (state: S) => boolean;
+}
+
+export type Tour<S> = TourStep<S>[];
+
+export function isStepReady<S>(step: TourStep<S>, state: S): boolean {
+  return step.waitFor ? step.waitFor(state) : true;
+}